@@ -0,0 +1,301 @@
+"use client";
+
+import { useState } from "react";
+import Image from "next/image";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { format } from "date-fns";
+import toast from "react-hot-toast";
+import { Link, useRouter } from "@/i18n/navigation";
+import {
+  cancelSubscription,
+  createSubscriptionCardUpdateSession,
+  pauseSubscription,
+  resumeSubscription,
+  skipSubscriptionDelivery,
+  type SubscriptionRow,
+} from "../actions/subscriptions";
+import {
+  formatSubscriptionInterval,
+  getSubscriptionStatusColor,
+  getSubscriptionStatusLabel,
+} from "../dashboard/subscriptions/subscription-status";
+
+interface AccountSubscriptionsProps {
+  subscriptions: SubscriptionRow[];
+  error?: string;
+}
+
+export function AccountSubscriptions({
+  subscriptions,
+  error,
+}: AccountSubscriptionsProps) {
+  const router = useRouter();
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [pausing, setPausing] = useState<SubscriptionRow | null>(null);
+  const [resumeOn, setResumeOn] = useState("");
+
+  const run = async (
+    subscriptionId: string,
+    action: () => Promise<{
+      success: boolean;
+      message?: string;
+      error?: string;
+    }>
+  ) => {
+    setBusyId(subscriptionId);
+    try {
+      const result = await action();
+      if (!result.success) {
+        toast.error(result.error || "Something went wrong");
+        return false;
+      }
+      toast.success(result.message || "Subscription updated");
+      router.refresh();
+      return true;
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleCancel = (subscription: SubscriptionRow) => {
+    if (
+      !confirm(
+        `Cancel your ${subscription.planName}? Orders already placed are not affected.`
+      )
+    ) {
+      return;
+    }
+    run(subscription.id, () => cancelSubscription(subscription.id));
+  };
+
+  const handleUpdateCard = async (subscriptionId: string) => {
+    setBusyId(subscriptionId);
+    try {
+      const result = await createSubscriptionCardUpdateSession(subscriptionId);
+      if (!result.success || !result.url) {
+        toast.error(result.error || "Failed to start card update");
+        return;
+      }
+      window.location.href = result.url;
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handlePause = async () => {
+    if (!pausing) return;
+    const paused = await run(pausing.id, () =>
+      pauseSubscription(pausing.id, resumeOn || null)
+    );
+    if (paused) {
+      setPausing(null);
+      setResumeOn("");
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Subscriptions</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && <p className="text-red-600">{error}</p>}
+
+        {!error && subscriptions.length === 0 && (
+          <p className="text-muted-foreground">
+            You have no subscriptions. Products with a subscription option let
+            you subscribe from the product page.
+          </p>
+        )}
+
+        {subscriptions.map((subscription) => {
+          const remaining = subscription.minCycles - subscription.currentCycle;
+          const isBusy = busyId === subscription.id;
+          const isOpen = subscription.status !== "cancelled";
+
+          return (
+            <div
+              key={subscription.id}
+              className="flex flex-col sm:flex-row gap-4 border rounded-lg p-4"
+            >
+              {subscription.imageUrl && (
+                <Image
+                  src={subscription.imageUrl}
+                  alt={subscription.listingName}
+                  width={80}
+                  height={80}
+                  className="rounded-md object-cover h-20 w-20"
+                />
+              )}
+              <div className="flex-1 space-y-1">
+                <div className="flex items-center gap-2 flex-wrap">
+                  <Link
+                    href={`/products/${subscription.listingSlug}`}
+                    className="font-semibold hover:underline"
+                  >
+                    {subscription.quantity} × {subscription.listingName}
+                    {subscription.variantTitle &&
+                      ` (${subscription.variantTitle})`}
+                  </Link>
+                  <Badge
+                    variant="outline"
+                    className={getSubscriptionStatusColor(subscription.status)}
+                  >
+                    {getSubscriptionStatusLabel(subscription.status)}
+                  </Badge>
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  {subscription.planName} ·{" "}
+                  {formatSubscriptionInterval(
+                    subscription.interval,
+                    subscription.intervalCount
+                  )}
+                  {parseFloat(subscription.discountPercent) > 0 &&
+                    ` · ${parseFloat(subscription.discountPercent)}% off`}
+                  {subscription.storeName && ` · ${subscription.storeName}`}
+                </p>
+                <p className="text-sm">
+                  {subscription.status === "active" &&
+                    subscription.nextBillingAt &&
+                    `Next delivery ordered on ${format(new Date(subscription.nextBillingAt), "MMM d, yyyy")}`}
+                  {subscription.status === "paused" &&
+                    (subscription.resumeAt
+                      ? `Paused until ${format(new Date(subscription.resumeAt), "MMM d, yyyy")}`
+                      : "Paused until you resume it")}
+                  {subscription.status === "cancelled" &&
+                    subscription.cancelledAt &&
+                    `Cancelled on ${format(new Date(subscription.cancelledAt), "MMM d, yyyy")}`}
+                </p>
+                {subscription.status === "past_due" && (
+                  <p className="text-sm text-red-600">
+                    We couldn&apos;t charge your card
+                    {subscription.lastError && `: ${subscription.lastError}`}.
+                    Update your card to continue.
+                  </p>
+                )}
+                <p className="text-xs text-muted-foreground">
+                  {subscription.currentCycle}{" "}
+                  {subscription.currentCycle === 1 ? "delivery" : "deliveries"}{" "}
+                  ordered
+                  {subscription.skippedCycles > 0 &&
+                    `, ${subscription.skippedCycles} skipped`}
+                  {isOpen &&
+                    remaining > 0 &&
+                    ` · ${remaining} more before you can cancel`}
+                </p>
+              </div>
+
+              {isOpen && (
+                <div className="flex sm:flex-col gap-2 flex-wrap">
+                  {subscription.status === "active" && (
+                    <>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={isBusy}
+                        onClick={() =>
+                          run(subscription.id, () =>
+                            skipSubscriptionDelivery(subscription.id)
+                          )
+                        }
+                      >
+                        Skip next
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={isBusy}
+                        onClick={() => setPausing(subscription)}
+                      >
+                        Pause
+                      </Button>
+                    </>
+                  )}
+                  {subscription.status === "paused" && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={isBusy}
+                      onClick={() =>
+                        run(subscription.id, () =>
+                          resumeSubscription(subscription.id)
+                        )
+                      }
+                    >
+                      Resume
+                    </Button>
+                  )}
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={isBusy}
+                    onClick={() => handleUpdateCard(subscription.id)}
+                  >
+                    Update card
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={isBusy || remaining > 0}
+                    title={
+                      remaining > 0
+                        ? `Minimum commitment: ${subscription.minCycles} deliveries`
+                        : undefined
+                    }
+                    onClick={() => handleCancel(subscription)}
+                  >
+                    Cancel
+                  </Button>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </CardContent>
+
+      <Dialog
+        open={pausing !== null}
+        onOpenChange={(open) => !open && setPausing(null)}
+      >
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Pause {pausing?.planName}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="resume-on">Resume on (optional)</Label>
+              <Input
+                id="resume-on"
+                type="date"
+                value={resumeOn}
+                onChange={(e) => setResumeOn(e.target.value)}
+              />
+              <p className="text-xs text-muted-foreground mt-1">
+                Leave empty to pause until you resume it yourself. Deliveries
+                during the pause are not ordered.
+              </p>
+            </div>
+            <div className="flex justify-end gap-2 pt-4 border-t">
+              <Button variant="outline" onClick={() => setPausing(null)}>
+                Keep active
+              </Button>
+              <Button onClick={handlePause} disabled={busyId !== null}>
+                Pause
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -1,7 +1,38 @@
-export default function Account() {
+import { auth } from "@/lib/auth";
+import { headers } from "next/headers";
+import { getLocale } from "next-intl/server";
+import { Link, redirect } from "@/i18n/navigation";
+import { getMySubscriptions } from "../actions/subscriptions";
+import { AccountSubscriptions } from "./AccountSubscriptions";
+
+export const dynamic = "force-dynamic";
+
+export default async function Account() {
+  const session = await auth.api.getSession({
+    headers: await headers(),
+  });
+  if (!session?.user) {
+    redirect({ href: "/login", locale: await getLocale() });
+  }
+
+  const subscriptionsResult = await getMySubscriptions();
+
   return (
-    <div className="min-h-screen flex items-center justify-center">
-      <h1 className="text-4xl font-bold text-center">Account</h1>
+    <div className="container mx-auto px-4 py-8 max-w-4xl space-y-8">
+      <div>
+        <h1 className="text-4xl font-bold">Account</h1>
+        <p className="text-muted-foreground mt-2">
+          {session!.user.email} ·{" "}
+          <Link href="/dashboard/orders" className="text-blue-600 hover:underline">
+            View your orders
+          </Link>
+        </p>
+      </div>
+
+      <AccountSubscriptions
+        subscriptions={subscriptionsResult.result || []}
+        error={subscriptionsResult.error}
+      />
     </div>
   );
 }
@@ -0,0 +1,250 @@
+"use client";
+
+import React, { useState } from "react";
+import Image from "next/image";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { CountrySelect } from "@/components/ui/country-select";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import toast from "react-hot-toast";
+import type { PublicSubscriptionPlan } from "@/app/[locale]/actions/subscriptions";
+import { formatSubscriptionInterval } from "@/app/[locale]/dashboard/subscriptions/subscription-status";
+import { useCustomerLocation } from "@/app/[locale]/hooks/useCustomerLocation";
+
+interface SubscriptionCheckoutFormProps {
+  plan: PublicSubscriptionPlan;
+  listing: {
+    id: string;
+    name: string;
+    imageUrl: string | null;
+    price: string;
+    currency: string;
+  };
+  variants: Array<{
+    id: string;
+    title: string;
+    price: string | null;
+    currency: string | null;
+  }>;
+  initialVariantId: string | null;
+  initialQuantity: number;
+  defaultName: string;
+}
+
+export function SubscriptionCheckoutForm({
+  plan,
+  listing,
+  variants,
+  initialVariantId,
+  initialQuantity,
+  defaultName,
+}: SubscriptionCheckoutFormProps) {
+  const { country: detectedCountry } = useCustomerLocation();
+  const [variantId, setVariantId] = useState<string | null>(
+    plan.variantId ??
+      variants.find((v) => v.id === initialVariantId)?.id ??
+      variants[0]?.id ??
+      null
+  );
+  const [quantity, setQuantity] = useState(initialQuantity);
+  const [address, setAddress] = useState({
+    shippingName: defaultName,
+    shippingPhone: "",
+    shippingAddressLine1: "",
+    shippingAddressLine2: "",
+    shippingCity: "",
+    shippingRegion: "",
+    shippingPostalCode: "",
+    shippingCountry: "",
+  });
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const country = address.shippingCountry || detectedCountry || "";
+  const variant = variants.find((v) => v.id === variantId);
+  const unitPrice = parseFloat(variant?.price || listing.price);
+  const currency = variant?.currency || listing.currency;
+  const deliveryPrice = unitPrice * quantity * (1 - plan.discountPercent / 100);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!country) {
+      toast.error("Please select a country");
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const response = await fetch("/api/subscriptions/checkout", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          planId: plan.id,
+          variantId,
+          quantity,
+          ...address,
+          shippingCountry: country,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok || !data.url) {
+        toast.error(data.error || "Failed to start subscription");
+        return;
+      }
+      window.location.href = data.url;
+    } catch (error) {
+      console.error("Error starting subscription:", error);
+      toast.error("Failed to start subscription");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const field = (
+    key: keyof typeof address,
+    label: string,
+    required = false
+  ) => (
+    <div>
+      <Label htmlFor={key}>
+        {label}
+        {required && " *"}
+      </Label>
+      <Input
+        id={key}
+        value={address[key]}
+        onChange={(e) => setAddress({ ...address, [key]: e.target.value })}
+        required={required}
+      />
+    </div>
+  );
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>{plan.name}</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex gap-4">
+            {listing.imageUrl && (
+              <Image
+                src={listing.imageUrl}
+                alt={listing.name}
+                width={80}
+                height={80}
+                className="rounded-md object-cover h-20 w-20"
+              />
+            )}
+            <div className="space-y-1">
+              <p className="font-semibold">{listing.name}</p>
+              <p className="text-sm text-muted-foreground">
+                {formatSubscriptionInterval(plan.interval, plan.intervalCount)}
+                {plan.discountPercent > 0 &&
+                  ` · ${plan.discountPercent}% off every delivery`}
+              </p>
+              {plan.minCycles > 1 && (
+                <p className="text-sm text-muted-foreground">
+                  Minimum {plan.minCycles} deliveries, then cancel anytime. You
+                  can skip or pause deliveries from your account.
+                </p>
+              )}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            {!plan.variantId && variants.length > 0 && (
+              <div>
+                <Label>Option</Label>
+                <Select
+                  value={variantId ?? undefined}
+                  onValueChange={setVariantId}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {variants.map((v) => (
+                      <SelectItem key={v.id} value={v.id}>
+                        {v.title}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div>
+              <Label htmlFor="quantity">Quantity per delivery</Label>
+              <Input
+                id="quantity"
+                type="number"
+                min={1}
+                value={quantity}
+                onChange={(e) =>
+                  setQuantity(Math.max(1, parseInt(e.target.value) || 1))
+                }
+              />
+            </div>
+          </div>
+
+          <p className="text-lg font-semibold">
+            {currency} {deliveryPrice.toFixed(2)}{" "}
+            <span className="text-sm font-normal text-muted-foreground">
+              per delivery, plus shipping and tax
+            </span>
+          </p>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Delivery address</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {field("shippingName", "Full name", true)}
+          {field("shippingAddressLine1", "Address", true)}
+          {field("shippingAddressLine2", "Apartment, suite, etc.")}
+          <div className="grid grid-cols-2 gap-4">
+            {field("shippingCity", "City", true)}
+            {field("shippingPostalCode", "Postal code")}
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            {field("shippingRegion", "State / Region")}
+            <div>
+              <Label htmlFor="shippingCountry">Country *</Label>
+              <CountrySelect
+                id="shippingCountry"
+                value={country}
+                onValueChange={(value) =>
+                  setAddress({ ...address, shippingCountry: value })
+                }
+              />
+            </div>
+          </div>
+          {field("shippingPhone", "Phone")}
+        </CardContent>
+      </Card>
+
+      <Button
+        type="submit"
+        size="lg"
+        className="w-full"
+        disabled={isSubmitting}
+      >
+        {isSubmitting
+          ? "Starting checkout..."
+          : "Subscribe and pay first delivery"}
+      </Button>
+      <p className="text-xs text-muted-foreground text-center">
+        Your card is saved and charged automatically for each delivery.
+      </p>
+    </form>
+  );
+}
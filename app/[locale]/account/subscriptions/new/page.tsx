@@ -0,0 +1,42 @@
+import { notFound } from "next/navigation";
+import { auth } from "@/lib/auth";
+import { headers } from "next/headers";
+import { getLocale } from "next-intl/server";
+import { redirect } from "@/i18n/navigation";
+import { getSubscriptionPlanForCheckout } from "@/app/[locale]/actions/subscriptions";
+import { SubscriptionCheckoutForm } from "./SubscriptionCheckoutForm";
+
+export const dynamic = "force-dynamic";
+
+export default async function NewSubscriptionPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ plan?: string; variant?: string; quantity?: string }>;
+}) {
+  const { plan: planId, variant, quantity } = await searchParams;
+  const session = await auth.api.getSession({
+    headers: await headers(),
+  });
+  if (!session?.user) {
+    redirect({ href: "/login", locale: await getLocale() });
+  }
+
+  if (!planId) {
+    notFound();
+  }
+  const result = await getSubscriptionPlanForCheckout(planId);
+  if (!result.success || !result.result) {
+    notFound();
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-2xl">
+      <SubscriptionCheckoutForm
+        {...result.result}
+        initialVariantId={variant || null}
+        initialQuantity={Math.max(1, parseInt(quantity || "1") || 1)}
+        defaultName={session!.user.name || ""}
+      />
+    </div>
+  );
+}
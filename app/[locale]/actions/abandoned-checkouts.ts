@@ -0,0 +1,80 @@
+"use server";
+
+import { db } from "@/db";
+import { abandonedCheckouts } from "@/db/schema";
+import { and, eq, gte, sql } from "drizzle-orm";
+import { getStoreIdForUser } from "./store-id";
+import { requireCurrentPermission } from "@/lib/permissions";
+
+export interface CheckoutRecoveryStats {
+  days: number;
+  abandoned: number; // Checkouts that got at least one reminder
+  recovered: number; // ... and were paid afterwards
+  recoveryRate: number; // recovered / abandoned, 0-100
+  recoveredRevenue: Array<{ currency: string; amount: number }>;
+}
+
+/**
+ * Abandoned checkout recovery for the seller's store (whole marketplace for
+ * admins) over the last `days` days
+ */
+export async function getCheckoutRecoveryStats(days: number = 30): Promise<{
+  success: boolean;
+  data?: CheckoutRecoveryStats;
+  error?: string;
+}> {
+  try {
+    await requireCurrentPermission("orders.view");
+    const { storeId, isAdmin, error } = await getStoreIdForUser();
+    if (!isAdmin && !storeId) {
+      return { success: false, error: error || "Unauthorized" };
+    }
+
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+    const scope = and(
+      gte(abandonedCheckouts.createdAt, since),
+      sql`${abandonedCheckouts.remindersSent} > 0`,
+      storeId ? eq(abandonedCheckouts.storeId, storeId) : undefined
+    );
+
+    const rows = await db
+      .select({
+        currency: abandonedCheckouts.currency,
+        abandoned: sql<number>`count(*)::int`,
+        recovered: sql<number>`count(*) filter (where ${abandonedCheckouts.status} = 'recovered')::int`,
+        recoveredRevenue: sql<string>`coalesce(sum(${abandonedCheckouts.totalAmount}) filter (where ${abandonedCheckouts.status} = 'recovered'), 0)`,
+      })
+      .from(abandonedCheckouts)
+      .where(scope)
+      .groupBy(abandonedCheckouts.currency);
+
+    const abandoned = rows.reduce((sum, r) => sum + r.abandoned, 0);
+    const recovered = rows.reduce((sum, r) => sum + r.recovered, 0);
+
+    return {
+      success: true,
+      data: {
+        days,
+        abandoned,
+        recovered,
+        recoveryRate:
+          abandoned > 0 ? Math.round((recovered / abandoned) * 1000) / 10 : 0,
+        recoveredRevenue: rows
+          .map((r) => ({
+            currency: r.currency,
+            amount: parseFloat(r.recoveredRevenue),
+          }))
+          .filter((r) => r.amount > 0),
+      },
+    };
+  } catch (error) {
+    console.error("Error loading checkout recovery stats:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Failed to load checkout recovery stats",
+    };
+  }
+}
@@ -5,6 +5,7 @@ import { store, storeMembers, user, listing } from "@/db/schema";
 import { eq, and, or, like, desc } from "drizzle-orm";
 import { sql } from "drizzle-orm";
 import { getCurrentAdmin } from "./admin";
+import { recordAuditEvent } from "@/lib/audit";
 
 export interface StoreOwner {
   name: string | null;
@@ -31,7 +32,7 @@ export async function getAllStores(options?: {
   search?: string;
   isApproved?: boolean;
 }): Promise<StoreWithOwner[]> {
-  await getCurrentAdmin(); // Verify admin access
+  await getCurrentAdmin("platform.settings"); // Verify admin access
 
   const conditions = [];
 
@@ -138,7 +139,13 @@ export async function toggleStoreApproval(
   isApproved: boolean
 ): Promise<{ success: boolean; error?: string }> {
   try {
-    const admin = await getCurrentAdmin();
+    const admin = await getCurrentAdmin("platform.settings");
+
+    const [existing] = await db
+      .select({ isApproved: store.isApproved, storeName: store.storeName })
+      .from(store)
+      .where(eq(store.id, storeId))
+      .limit(1);
 
     await db
       .update(store)
@@ -149,6 +156,16 @@ export async function toggleStoreApproval(
       })
       .where(eq(store.id, storeId));
 
+    await recordAuditEvent({
+      action: isApproved ? "store.approved" : "store.unapproved",
+      entityType: "store",
+      entityId: storeId,
+      actorId: admin.id,
+      before: { isApproved: existing?.isApproved ?? null },
+      after: { isApproved },
+      metadata: { storeName: existing?.storeName },
+    });
+
     return { success: true };
   } catch (error) {
     return {
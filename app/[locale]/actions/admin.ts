@@ -14,6 +14,8 @@ import {
 } from "@/db/schema";
 import { eq, and, or, like, sql, desc, asc } from "drizzle-orm";
 import { ActionResponse } from "@/lib/types";
+import { recordAuditEvent } from "@/lib/audit";
+import { hasPermission, type PermissionId } from "@/lib/permissions";
 import {
   GetAllUsersResponse,
   GetUserStatsResponse,
@@ -21,8 +23,11 @@ import {
   RoleUpdateData,
   PermissionUpdateData,
 } from "@/lib/types";
-// Helper function to get current user and verify admin status
-export async function getCurrentAdmin() {
+// Helper function to get current user and verify they hold a platform
+// permission (user management unless another one is given)
+export async function getCurrentAdmin(
+  permission: PermissionId = "users.manage"
+) {
   const session = await auth.api.getSession({
     headers: await headers(),
   });
@@ -31,29 +36,7 @@ export async function getCurrentAdmin() {
     redirect("/login");
   }
 
-  // Check if user has admin role
-  const adminRole = await db
-    .select()
-    .from(roles)
-    .where(eq(roles.name, "Admin"))
-    .limit(1);
-
-  if (adminRole.length === 0) {
-    redirect("/dashboard");
-  }
-
-  const userRole = await db
-    .select()
-    .from(userRoles)
-    .where(
-      and(
-        eq(userRoles.userId, session.user.id),
-        eq(userRoles.roleId, adminRole[0].id)
-      )
-    )
-    .limit(1);
-
-  if (userRole.length === 0) {
+  if (!(await hasPermission(session, permission))) {
     redirect("/dashboard");
   }
 
@@ -223,6 +206,25 @@ export async function updateUser(
       }
     }
 
+    // Snapshot for the audit log
+    const [existingUser] = await db
+      .select({
+        name: user.name,
+        email: user.email,
+        phone: user.phone,
+        address: user.address,
+        city: user.city,
+        country: user.country,
+        status: user.status,
+      })
+      .from(user)
+      .where(eq(user.id, userId))
+      .limit(1);
+    const existingRoles = await db
+      .select({ roleId: userRoles.roleId })
+      .from(userRoles)
+      .where(eq(userRoles.userId, userId));
+
     // Update user basic information
     const updateData: UserUpdateData = {
       updatedAt: new Date(),
@@ -269,6 +271,23 @@ export async function updateUser(
       }
     }
 
+    const before = {
+      ...existingUser,
+      roleId: existingRoles[0]?.roleId ?? null,
+    };
+    await recordAuditEvent({
+      action: "user.updated",
+      entityType: "user",
+      entityId: userId,
+      actorId: currentUser.id,
+      before,
+      after: {
+        ...before,
+        ...updateData,
+        ...(userData.roleId !== undefined ? { roleId: userData.roleId } : {}),
+      },
+    });
+
     return {
       success: true,
       message: "User updated successfully",
@@ -295,6 +314,12 @@ export async function suspendUser(userId: string): Promise<ActionResponse> {
       };
     }
 
+    const [existingUser] = await db
+      .select({ status: user.status, email: user.email })
+      .from(user)
+      .where(eq(user.id, userId))
+      .limit(1);
+
     await db
       .update(user)
       .set({
@@ -303,6 +328,16 @@ export async function suspendUser(userId: string): Promise<ActionResponse> {
       })
       .where(eq(user.id, userId));
 
+    await recordAuditEvent({
+      action: "user.suspended",
+      entityType: "user",
+      entityId: userId,
+      actorId: currentUser.id,
+      before: { status: existingUser?.status ?? null },
+      after: { status: "suspended" },
+      metadata: { email: existingUser?.email },
+    });
+
     return {
       success: true,
       message: "User suspended successfully",
@@ -331,7 +366,7 @@ export async function deleteUser(userId: string): Promise<ActionResponse> {
 
     // Get user image before deletion
     const userData = await db
-      .select({ image: user.image })
+      .select({ image: user.image, name: user.name, email: user.email })
       .from(user)
       .where(eq(user.id, userId))
       .limit(1);
@@ -341,6 +376,14 @@ export async function deleteUser(userId: string): Promise<ActionResponse> {
     // Delete user from database
     await db.delete(user).where(eq(user.id, userId));
 
+    await recordAuditEvent({
+      action: "user.deleted",
+      entityType: "user",
+      entityId: userId,
+      actorId: currentUser.id,
+      metadata: { name: userData[0]?.name, email: userData[0]?.email },
+    });
+
     // Delete profile image from Cloudinary if it exists
     if (userImage) {
       try {
@@ -703,7 +746,7 @@ export async function createRole(roleData: {
   permissions: string[];
 }): Promise<ActionResponse> {
   try {
-    await getCurrentAdmin();
+    const admin = await getCurrentAdmin();
 
     // Check if role name already exists
     const existingRole = await db
@@ -738,6 +781,18 @@ export async function createRole(roleData: {
       await db.insert(rolePermissions).values(rolePermissionValues);
     }
 
+    await recordAuditEvent({
+      action: "role.created",
+      entityType: "role",
+      entityId: newRole[0].id,
+      actorId: admin.id,
+      after: {
+        name: newRole[0].name,
+        description: newRole[0].description,
+        permissions: [...roleData.permissions].sort(),
+      },
+    });
+
     return {
       success: true,
       message: "Role created successfully",
@@ -762,7 +817,7 @@ export async function updateRole(
   }
 ): Promise<ActionResponse> {
   try {
-    await getCurrentAdmin();
+    const admin = await getCurrentAdmin();
 
     // Check if role exists
     const existingRole = await db
@@ -778,6 +833,11 @@ export async function updateRole(
       };
     }
 
+    const existingPermissions = await db
+      .select({ permissionId: rolePermissions.permissionId })
+      .from(rolePermissions)
+      .where(eq(rolePermissions.roleId, roleId));
+
     // Check if new name conflicts with existing roles (if name is being updated)
     if (roleData.name && roleData.name !== existingRole[0].name) {
       const nameConflict = await db
@@ -827,6 +887,26 @@ export async function updateRole(
       }
     }
 
+    const before = {
+      name: existingRole[0].name,
+      description: existingRole[0].description,
+      permissions: existingPermissions.map((p) => p.permissionId).sort(),
+    };
+    await recordAuditEvent({
+      action: "role.updated",
+      entityType: "role",
+      entityId: roleId,
+      actorId: admin.id,
+      before,
+      after: {
+        name: roleData.name ?? before.name,
+        description: roleData.description ?? before.description,
+        permissions: roleData.permissions
+          ? [...roleData.permissions].sort()
+          : before.permissions,
+      },
+    });
+
     return {
       success: true,
       message: "Role updated successfully",
@@ -843,7 +923,7 @@ export async function updateRole(
 // Delete a role
 export async function deleteRole(roleId: number): Promise<ActionResponse> {
   try {
-    await getCurrentAdmin();
+    const admin = await getCurrentAdmin();
 
     // Check if role exists
     const existingRole = await db
@@ -884,6 +964,17 @@ export async function deleteRole(roleId: number): Promise<ActionResponse> {
     // Delete the role (permissions will be deleted automatically due to cascade)
     await db.delete(roles).where(eq(roles.id, roleId));
 
+    await recordAuditEvent({
+      action: "role.deleted",
+      entityType: "role",
+      entityId: roleId,
+      actorId: admin.id,
+      before: {
+        name: existingRole[0].name,
+        description: existingRole[0].description,
+      },
+    });
+
     return {
       success: true,
       message: "Role deleted successfully",
@@ -941,7 +1032,7 @@ export async function createPermission(permissionData: {
   category?: string;
 }): Promise<ActionResponse> {
   try {
-    await getCurrentAdmin();
+    const admin = await getCurrentAdmin();
 
     // Generate a unique random ID
     const randomString = await import("random-string-generator");
@@ -958,6 +1049,18 @@ export async function createPermission(permissionData: {
       })
       .returning();
 
+    await recordAuditEvent({
+      action: "permission.created",
+      entityType: "permission",
+      entityId: permissionId,
+      actorId: admin.id,
+      after: {
+        name: newPermission[0].name,
+        description: newPermission[0].description,
+        category: newPermission[0].category,
+      },
+    });
+
     return {
       success: true,
       message: "Permission created successfully",
@@ -983,7 +1086,7 @@ export async function updatePermission(
   }
 ): Promise<ActionResponse> {
   try {
-    await getCurrentAdmin();
+    const admin = await getCurrentAdmin();
 
     // Check if permission exists
     const existingPermission = await db
@@ -1016,6 +1119,20 @@ export async function updatePermission(
       .set(updateData)
       .where(eq(permissions.id, permissionId));
 
+    const before = {
+      name: existingPermission[0].name,
+      description: existingPermission[0].description,
+      category: existingPermission[0].category,
+    };
+    await recordAuditEvent({
+      action: "permission.updated",
+      entityType: "permission",
+      entityId: permissionId,
+      actorId: admin.id,
+      before,
+      after: { ...before, ...permissionData },
+    });
+
     return {
       success: true,
       message: "Permission updated successfully",
@@ -1035,7 +1152,7 @@ export async function deletePermission(
   permissionId: string
 ): Promise<ActionResponse> {
   try {
-    await getCurrentAdmin();
+    const admin = await getCurrentAdmin();
 
     // Check if permission exists
     const existingPermission = await db
@@ -1054,6 +1171,18 @@ export async function deletePermission(
     // Delete the permission (role permissions will be deleted automatically due to cascade)
     await db.delete(permissions).where(eq(permissions.id, permissionId));
 
+    await recordAuditEvent({
+      action: "permission.deleted",
+      entityType: "permission",
+      entityId: permissionId,
+      actorId: admin.id,
+      before: {
+        name: existingPermission[0].name,
+        description: existingPermission[0].description,
+        category: existingPermission[0].category,
+      },
+    });
+
     return {
       success: true,
       message: "Permission deleted successfully",
@@ -0,0 +1,518 @@
+"use server";
+
+import { db } from "@/db";
+import {
+  orders,
+  orderItems,
+  orderRefunds,
+  user,
+  store,
+  listing,
+  markets,
+} from "@/db/schema";
+import { and, eq, gte, lte, ne, inArray, sql, type SQL } from "drizzle-orm";
+import { getCurrentAdmin } from "./admin";
+import {
+  BASE_CURRENCY,
+  convertAmount,
+  loadExchangeRates,
+  type ExchangeRates,
+} from "@/lib/pricing";
+import { roundMoney } from "@/lib/utils-discount";
+
+export interface AnalyticsFilters {
+  from: string; // ISO date (inclusive)
+  to: string; // ISO date (inclusive, whole day)
+  marketId?: string | null;
+}
+
+export type AnalyticsBucket = "day" | "week" | "month";
+
+export interface MarketplaceAnalytics {
+  currency: string; // All money values are converted to this currency
+  range: { from: string; to: string; bucket: AnalyticsBucket };
+  summary: {
+    gmv: number;
+    paidOrders: number;
+    placedOrders: number;
+    averageOrderValue: number;
+    refundedAmount: number;
+    refundRate: number; // Refunded amount / GMV (0-1)
+    refundedOrders: number;
+    newCustomers: number;
+    returningCustomers: number;
+    totalUsers: number;
+    newUsers: number;
+  };
+  series: Array<{
+    period: string;
+    gmv: number;
+    paidOrders: number;
+    newUsers: number;
+  }>;
+  topStores: Array<{
+    storeId: string;
+    storeName: string;
+    gmv: number;
+    paidOrders: number;
+  }>;
+  topListings: Array<{
+    listingId: string;
+    name: string;
+    storeName: string | null;
+    revenue: number;
+    unitsSold: number;
+  }>;
+  markets: Array<{
+    marketId: string | null;
+    marketName: string;
+    placedOrders: number;
+    paidOrders: number;
+    conversionRate: number; // Paid / placed (0-1)
+    gmv: number;
+  }>;
+  unconvertedCurrencies: string[]; // Currencies without an active exchange rate (excluded from money totals)
+}
+
+// Orders that captured money (refunds are reported separately)
+const PAID_STATUSES = ["paid", "partially_refunded", "refunded"] as const;
+
+function resolveRange(filters: AnalyticsFilters) {
+  const from = new Date(filters.from);
+  const to = new Date(filters.to);
+  if (isNaN(from.getTime()) || isNaN(to.getTime())) {
+    throw new Error("Invalid date range");
+  }
+  from.setHours(0, 0, 0, 0);
+  to.setHours(23, 59, 59, 999);
+  if (from > to) {
+    throw new Error("Start date must be before end date");
+  }
+
+  const days = (to.getTime() - from.getTime()) / (24 * 60 * 60 * 1000);
+  const bucket: AnalyticsBucket =
+    days <= 31 ? "day" : days <= 180 ? "week" : "month";
+
+  return { from, to, bucket };
+}
+
+/**
+ * Sums amounts grouped by currency in the base currency. Currencies without
+ * an active market rate are collected instead of guessed.
+ */
+function createConverter(rates: ExchangeRates) {
+  const unconverted = new Set<string>();
+  const toBase = (amount: string | number | null, currency: string) => {
+    const value = parseFloat(String(amount ?? 0)) || 0;
+    try {
+      return convertAmount(value, currency, BASE_CURRENCY, rates);
+    } catch {
+      unconverted.add(currency.toUpperCase());
+      return 0;
+    }
+  };
+  return { toBase, unconverted };
+}
+
+async function buildMarketplaceAnalytics(
+  filters: AnalyticsFilters
+): Promise<MarketplaceAnalytics> {
+  const { from, to, bucket } = resolveRange(filters);
+  const marketId = filters.marketId || null;
+  const rates = await loadExchangeRates();
+  const { toBase, unconverted } = createConverter(rates);
+
+  const orderConditions: SQL[] = [
+    gte(orders.createdAt, from),
+    lte(orders.createdAt, to),
+    ne(orders.status, "draft"),
+  ];
+  if (marketId) {
+    orderConditions.push(eq(orders.marketId, marketId));
+  }
+  const paidConditions = [
+    ...orderConditions,
+    inArray(orders.paymentStatus, [...PAID_STATUSES]),
+  ];
+  const period = sql<string>`to_char(date_trunc('${sql.raw(bucket)}', ${orders.createdAt}), 'YYYY-MM-DD')`;
+
+  const [
+    paidByPeriod,
+    marketRows,
+    storeRows,
+    listingRows,
+    refundRows,
+    customerRows,
+  ] = await Promise.all([
+    // GMV and paid orders per period and currency
+    db
+      .select({
+        period,
+        currency: orders.currency,
+        gmv: sql<string>`coalesce(sum(${orders.totalAmount}), 0)`,
+        count: sql<number>`count(*)::int`,
+      })
+      .from(orders)
+      .where(and(...paidConditions))
+      .groupBy(period, orders.currency),
+
+    // Placed vs paid orders per market (payment conversion)
+    db
+      .select({
+        marketId: orders.marketId,
+        marketName: markets.name,
+        currency: orders.currency,
+        placed: sql<number>`count(*)::int`,
+        paid: sql<number>`count(*) filter (where ${inArray(orders.paymentStatus, [...PAID_STATUSES])})::int`,
+        gmv: sql<string>`coalesce(sum(${orders.totalAmount}) filter (where ${inArray(orders.paymentStatus, [...PAID_STATUSES])}), 0)`,
+      })
+      .from(orders)
+      .leftJoin(markets, eq(orders.marketId, markets.id))
+      .where(and(...orderConditions))
+      .groupBy(orders.marketId, markets.name, orders.currency),
+
+    // Top stores
+    db
+      .select({
+        storeId: orders.storeId,
+        storeName: store.storeName,
+        currency: orders.currency,
+        gmv: sql<string>`coalesce(sum(${orders.totalAmount}), 0)`,
+        count: sql<number>`count(*)::int`,
+      })
+      .from(orders)
+      .innerJoin(store, eq(orders.storeId, store.id))
+      .where(and(...paidConditions))
+      .groupBy(orders.storeId, store.storeName, orders.currency),
+
+    // Top listings
+    db
+      .select({
+        listingId: orderItems.listingId,
+        name: listing.name,
+        storeName: store.storeName,
+        currency: orderItems.currency,
+        revenue: sql<string>`coalesce(sum(${orderItems.lineTotal}), 0)`,
+        units: sql<number>`coalesce(sum(${orderItems.quantity}), 0)::int`,
+      })
+      .from(orderItems)
+      .innerJoin(orders, eq(orderItems.orderId, orders.id))
+      .innerJoin(listing, eq(orderItems.listingId, listing.id))
+      .leftJoin(store, eq(listing.storeId, store.id))
+      .where(and(...paidConditions))
+      .groupBy(
+        orderItems.listingId,
+        listing.name,
+        store.storeName,
+        orderItems.currency
+      ),
+
+    // Successful refunds issued in the range
+    db
+      .select({
+        currency: orders.currency,
+        amount: sql<string>`coalesce(sum(${orderRefunds.amount}), 0)`,
+        orderCount: sql<number>`count(distinct ${orderRefunds.orderId})::int`,
+      })
+      .from(orderRefunds)
+      .innerJoin(orders, eq(orderRefunds.orderId, orders.id))
+      .where(
+        and(
+          eq(orderRefunds.status, "succeeded"),
+          gte(orderRefunds.createdAt, from),
+          lte(orderRefunds.createdAt, to),
+          ...(marketId ? [eq(orders.marketId, marketId)] : [])
+        )
+      )
+      .groupBy(orders.currency),
+
+    // Customers buying in the range, and whether they paid for an order before it
+    db
+      .select({
+        email: orders.customerEmail,
+        hasEarlierOrder: sql<boolean>`exists (
+          select 1 from orders o2
+          where lower(o2.customer_email) = lower(${orders.customerEmail})
+            and o2.payment_status in ('paid', 'partially_refunded', 'refunded')
+            and o2.status <> 'draft'
+            and o2.created_at < ${from.toISOString()}
+        )`,
+      })
+      .from(orders)
+      .where(and(...paidConditions, sql`${orders.customerEmail} is not null`))
+      .groupBy(orders.customerEmail),
+  ]);
+
+  // Users
+  const userConditions: SQL[] = [];
+  if (marketId) {
+    userConditions.push(eq(user.marketId, marketId));
+  }
+  const userPeriod = sql<string>`to_char(date_trunc('${sql.raw(bucket)}', ${user.createdAt}), 'YYYY-MM-DD')`;
+  const [totalUsersRow, newUsersByPeriod] = await Promise.all([
+    db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(user)
+      .where(userConditions.length ? and(...userConditions) : undefined),
+    db
+      .select({ period: userPeriod, count: sql<number>`count(*)::int` })
+      .from(user)
+      .where(
+        and(
+          gte(user.createdAt, from),
+          lte(user.createdAt, to),
+          ...userConditions
+        )
+      )
+      .groupBy(userPeriod),
+  ]);
+
+  // Time series
+  const seriesMap = new Map<
+    string,
+    { period: string; gmv: number; paidOrders: number; newUsers: number }
+  >();
+  const seriesEntry = (key: string) => {
+    const entry = seriesMap.get(key) ?? {
+      period: key,
+      gmv: 0,
+      paidOrders: 0,
+      newUsers: 0,
+    };
+    seriesMap.set(key, entry);
+    return entry;
+  };
+  for (const row of paidByPeriod) {
+    const entry = seriesEntry(row.period);
+    entry.gmv += toBase(row.gmv, row.currency);
+    entry.paidOrders += row.count;
+  }
+  for (const row of newUsersByPeriod) {
+    seriesEntry(row.period).newUsers += row.count;
+  }
+  const series = [...seriesMap.values()]
+    .map((s) => ({ ...s, gmv: roundMoney(s.gmv) }))
+    .sort((a, b) => a.period.localeCompare(b.period));
+
+  // Markets
+  const marketMap = new Map<string, MarketplaceAnalytics["markets"][number]>();
+  for (const row of marketRows) {
+    const key = row.marketId ?? "none";
+    const entry = marketMap.get(key) ?? {
+      marketId: row.marketId,
+      marketName: row.marketName ?? "No market",
+      placedOrders: 0,
+      paidOrders: 0,
+      conversionRate: 0,
+      gmv: 0,
+    };
+    entry.placedOrders += row.placed;
+    entry.paidOrders += row.paid;
+    entry.gmv += toBase(row.gmv, row.currency);
+    marketMap.set(key, entry);
+  }
+  const marketStats = [...marketMap.values()]
+    .map((m) => ({
+      ...m,
+      gmv: roundMoney(m.gmv),
+      conversionRate: m.placedOrders ? m.paidOrders / m.placedOrders : 0,
+    }))
+    .sort((a, b) => b.gmv - a.gmv);
+
+  // Top stores
+  const storeMap = new Map<string, MarketplaceAnalytics["topStores"][number]>();
+  for (const row of storeRows) {
+    if (!row.storeId) continue;
+    const entry = storeMap.get(row.storeId) ?? {
+      storeId: row.storeId,
+      storeName: row.storeName,
+      gmv: 0,
+      paidOrders: 0,
+    };
+    entry.gmv += toBase(row.gmv, row.currency);
+    entry.paidOrders += row.count;
+    storeMap.set(row.storeId, entry);
+  }
+  const topStores = [...storeMap.values()]
+    .map((s) => ({ ...s, gmv: roundMoney(s.gmv) }))
+    .sort((a, b) => b.gmv - a.gmv)
+    .slice(0, 10);
+
+  // Top listings
+  const listingMap = new Map<
+    string,
+    MarketplaceAnalytics["topListings"][number]
+  >();
+  for (const row of listingRows) {
+    if (!row.listingId) continue;
+    const entry = listingMap.get(row.listingId) ?? {
+      listingId: row.listingId,
+      name: row.name,
+      storeName: row.storeName,
+      revenue: 0,
+      unitsSold: 0,
+    };
+    entry.revenue += toBase(row.revenue, row.currency);
+    entry.unitsSold += row.units;
+    listingMap.set(row.listingId, entry);
+  }
+  const topListings = [...listingMap.values()]
+    .map((l) => ({ ...l, revenue: roundMoney(l.revenue) }))
+    .sort((a, b) => b.revenue - a.revenue)
+    .slice(0, 10);
+
+  // Summary
+  const gmv = roundMoney(series.reduce((sum, s) => sum + s.gmv, 0));
+  const paidOrders = series.reduce((sum, s) => sum + s.paidOrders, 0);
+  const placedOrders = marketStats.reduce((sum, m) => sum + m.placedOrders, 0);
+  const refundedAmount = roundMoney(
+    refundRows.reduce((sum, r) => sum + toBase(r.amount, r.currency), 0)
+  );
+  const refundedOrders = refundRows.reduce((sum, r) => sum + r.orderCount, 0);
+  // Emails are matched case-insensitively
+  const customers = new Map<string, boolean>();
+  for (const row of customerRows) {
+    const email = (row.email ?? "").toLowerCase();
+    customers.set(
+      email,
+      (customers.get(email) ?? false) || row.hasEarlierOrder
+    );
+  }
+  const returningCustomers = [...customers.values()].filter(Boolean).length;
+
+  return {
+    currency: BASE_CURRENCY,
+    range: { from: from.toISOString(), to: to.toISOString(), bucket },
+    summary: {
+      gmv,
+      paidOrders,
+      placedOrders,
+      averageOrderValue: paidOrders ? roundMoney(gmv / paidOrders) : 0,
+      refundedAmount,
+      refundRate: gmv ? refundedAmount / gmv : 0,
+      refundedOrders,
+      newCustomers: customers.size - returningCustomers,
+      returningCustomers,
+      totalUsers: totalUsersRow[0]?.count ?? 0,
+      newUsers: newUsersByPeriod.reduce((sum, r) => sum + r.count, 0),
+    },
+    series,
+    topStores,
+    topListings,
+    markets: marketStats,
+    unconvertedCurrencies: [...unconverted],
+  };
+}
+
+/**
+ * Markets available as an analytics filter
+ */
+export async function getAnalyticsMarkets(): Promise<
+  Array<{ id: string; name: string; currency: string }>
+> {
+  await getCurrentAdmin("platform.finances");
+  return db
+    .select({ id: markets.id, name: markets.name, currency: markets.currency })
+    .from(markets)
+    .orderBy(markets.name);
+}
+
+/**
+ * Marketplace analytics for the admin dashboard
+ */
+export async function getMarketplaceAnalytics(
+  filters: AnalyticsFilters
+): Promise<{
+  success: boolean;
+  data?: MarketplaceAnalytics;
+  error?: string;
+}> {
+  try {
+    await getCurrentAdmin("platform.finances");
+    const data = await buildMarketplaceAnalytics(filters);
+    return { success: true, data };
+  } catch (error) {
+    console.error("Error fetching marketplace analytics:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error ? error.message : "Failed to fetch analytics",
+    };
+  }
+}
+
+/**
+ * Export marketplace analytics as CSV
+ */
+export async function exportMarketplaceAnalyticsAsCSV(
+  filters: AnalyticsFilters
+): Promise<{
+  success: boolean;
+  data?: string;
+  filename?: string;
+  error?: string;
+}> {
+  try {
+    await getCurrentAdmin("platform.finances");
+    const analytics = await buildMarketplaceAnalytics(filters);
+    const { summary, currency } = analytics;
+
+    const rows: Array<Array<string | number>> = [
+      ["Section", "Name", "Metric", "Value"],
+      ["Summary", "", `GMV (${currency})`, summary.gmv],
+      ["Summary", "", "Paid orders", summary.paidOrders],
+      ["Summary", "", "Placed orders", summary.placedOrders],
+      ["Summary", "", `AOV (${currency})`, summary.averageOrderValue],
+      ["Summary", "", `Refunded (${currency})`, summary.refundedAmount],
+      ["Summary", "", "Refund rate", summary.refundRate.toFixed(4)],
+      ["Summary", "", "New customers", summary.newCustomers],
+      ["Summary", "", "Returning customers", summary.returningCustomers],
+      ["Summary", "", "New users", summary.newUsers],
+      ["Summary", "", "Total users", summary.totalUsers],
+    ];
+
+    for (const s of analytics.series) {
+      rows.push(["Series", s.period, `GMV (${currency})`, s.gmv]);
+      rows.push(["Series", s.period, "Paid orders", s.paidOrders]);
+      rows.push(["Series", s.period, "New users", s.newUsers]);
+    }
+    for (const s of analytics.topStores) {
+      rows.push(["Top stores", s.storeName, `GMV (${currency})`, s.gmv]);
+      rows.push(["Top stores", s.storeName, "Paid orders", s.paidOrders]);
+    }
+    for (const l of analytics.topListings) {
+      rows.push(["Top listings", l.name, `Revenue (${currency})`, l.revenue]);
+      rows.push(["Top listings", l.name, "Units sold", l.unitsSold]);
+    }
+    for (const m of analytics.markets) {
+      rows.push(["Markets", m.marketName, "Placed orders", m.placedOrders]);
+      rows.push(["Markets", m.marketName, "Paid orders", m.paidOrders]);
+      rows.push([
+        "Markets",
+        m.marketName,
+        "Conversion rate",
+        m.conversionRate.toFixed(4),
+      ]);
+      rows.push(["Markets", m.marketName, `GMV (${currency})`, m.gmv]);
+    }
+
+    const csvContent = rows
+      .map((row) =>
+        row.map((cell) => `"${String(cell).replace(/"/g, '""')}"`).join(",")
+      )
+      .join("\n");
+
+    return {
+      success: true,
+      data: csvContent,
+      filename: `marketplace-analytics-${filters.from.split("T")[0]}-${filters.to.split("T")[0]}.csv`,
+    };
+  } catch (error) {
+    console.error("Error exporting marketplace analytics:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error ? error.message : "Failed to export analytics",
+    };
+  }
+}
@@ -0,0 +1,211 @@
+"use server";
+
+import { db } from "@/db";
+import { auditLog, user } from "@/db/schema";
+import { and, desc, eq, gte, ilike, lte, or, sql, type SQL } from "drizzle-orm";
+import { getCurrentAdmin } from "./admin";
+import type { AuditChanges } from "@/lib/audit";
+
+export interface AuditLogFilters {
+  search?: string; // Actor name/email, entity ID or action
+  action?: string;
+  entityType?: string;
+  dateFrom?: string;
+  dateTo?: string;
+}
+
+export interface AuditLogEntry {
+  id: string;
+  action: string;
+  entityType: string;
+  entityId: string;
+  actorId: string | null;
+  actorName: string | null;
+  actorEmail: string | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+  changes: AuditChanges | null;
+  metadata: Record<string, unknown> | null;
+  createdAt: Date;
+}
+
+// Cap for CSV exports so a wide filter cannot build an unbounded file
+const EXPORT_LIMIT = 10000;
+
+function buildConditions(filters: AuditLogFilters): SQL[] {
+  const conditions: SQL[] = [];
+
+  if (filters.action) {
+    conditions.push(eq(auditLog.action, filters.action));
+  }
+  if (filters.entityType) {
+    conditions.push(eq(auditLog.entityType, filters.entityType));
+  }
+  if (filters.dateFrom) {
+    conditions.push(gte(auditLog.createdAt, new Date(filters.dateFrom)));
+  }
+  if (filters.dateTo) {
+    const endOfDay = new Date(filters.dateTo);
+    endOfDay.setHours(23, 59, 59, 999);
+    conditions.push(lte(auditLog.createdAt, endOfDay));
+  }
+  if (filters.search?.trim()) {
+    const searchTerm = `%${filters.search.trim()}%`;
+    conditions.push(
+      or(
+        ilike(user.name, searchTerm),
+        ilike(user.email, searchTerm),
+        ilike(auditLog.entityId, searchTerm),
+        ilike(auditLog.action, searchTerm)
+      )!
+    );
+  }
+
+  return conditions;
+}
+
+function selectAuditLogs(filters: AuditLogFilters) {
+  const conditions = buildConditions(filters);
+  return db
+    .select({
+      id: auditLog.id,
+      action: auditLog.action,
+      entityType: auditLog.entityType,
+      entityId: auditLog.entityId,
+      actorId: auditLog.userId,
+      actorName: user.name,
+      actorEmail: user.email,
+      ipAddress: auditLog.ipAddress,
+      userAgent: auditLog.userAgent,
+      changes: auditLog.changes,
+      metadata: auditLog.metadata,
+      createdAt: auditLog.createdAt,
+    })
+    .from(auditLog)
+    .leftJoin(user, eq(auditLog.userId, user.id))
+    .where(conditions.length ? and(...conditions) : undefined)
+    .orderBy(desc(auditLog.createdAt))
+    .$dynamic();
+}
+
+/**
+ * Paginated audit log for the admin activity view
+ */
+export async function getAuditLogs(
+  filters: AuditLogFilters = {},
+  page = 1,
+  pageSize = 25
+): Promise<{
+  success: boolean;
+  logs?: AuditLogEntry[];
+  total?: number;
+  error?: string;
+}> {
+  try {
+    await getCurrentAdmin("audit.view");
+
+    const conditions = buildConditions(filters);
+    const offset = (Math.max(page, 1) - 1) * pageSize;
+
+    const [logs, totalRows] = await Promise.all([
+      selectAuditLogs(filters).limit(pageSize).offset(offset),
+      db
+        .select({ count: sql<number>`count(*)::int` })
+        .from(auditLog)
+        .leftJoin(user, eq(auditLog.userId, user.id))
+        .where(conditions.length ? and(...conditions) : undefined),
+    ]);
+
+    return { success: true, logs, total: totalRows[0]?.count ?? 0 };
+  } catch (error) {
+    console.error("Error fetching audit logs:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error ? error.message : "Failed to fetch audit logs",
+    };
+  }
+}
+
+/**
+ * Distinct actions and entity types for the filter dropdowns
+ */
+export async function getAuditLogFilterOptions(): Promise<{
+  actions: string[];
+  entityTypes: string[];
+}> {
+  await getCurrentAdmin("audit.view");
+
+  const [actions, entityTypes] = await Promise.all([
+    db
+      .selectDistinct({ value: auditLog.action })
+      .from(auditLog)
+      .orderBy(auditLog.action),
+    db
+      .selectDistinct({ value: auditLog.entityType })
+      .from(auditLog)
+      .orderBy(auditLog.entityType),
+  ]);
+
+  return {
+    actions: actions.map((a) => a.value),
+    entityTypes: entityTypes.map((e) => e.value),
+  };
+}
+
+/**
+ * Export audit log entries matching the filters as CSV
+ */
+export async function exportAuditLogsAsCSV(filters: AuditLogFilters = {}) {
+  try {
+    await getCurrentAdmin("audit.view");
+
+    const logs = await selectAuditLogs(filters).limit(EXPORT_LIMIT);
+
+    const headers = [
+      "Date",
+      "Action",
+      "Entity Type",
+      "Entity ID",
+      "Actor",
+      "Actor Email",
+      "IP Address",
+      "User Agent",
+      "Changes",
+      "Metadata",
+    ];
+
+    const rows = logs.map((log) => [
+      log.createdAt.toISOString(),
+      log.action,
+      log.entityType,
+      log.entityId,
+      log.actorName || (log.actorId ? log.actorId : "System"),
+      log.actorEmail || "",
+      log.ipAddress || "",
+      log.userAgent || "",
+      log.changes ? JSON.stringify(log.changes) : "",
+      log.metadata ? JSON.stringify(log.metadata) : "",
+    ]);
+
+    const csvContent = [
+      headers.join(","),
+      ...rows.map((row) =>
+        row.map((cell) => `"${String(cell).replace(/"/g, '""')}"`).join(",")
+      ),
+    ].join("\n");
+
+    return {
+      success: true,
+      data: csvContent,
+      filename: `audit-log-${new Date().toISOString().split("T")[0]}.csv`,
+    };
+  } catch (error) {
+    console.error("Error exporting audit logs:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error ? error.message : "Failed to export audit logs",
+    };
+  }
+}
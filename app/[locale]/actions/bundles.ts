@@ -0,0 +1,283 @@
+"use server";
+
+import { db } from "@/db";
+import { bundleComponents, listing, listingVariants } from "@/db/schema";
+import { and, asc, eq, inArray, ne } from "drizzle-orm";
+import { revalidatePath } from "next/cache";
+import { ActionResponse } from "@/lib/types";
+import { getBundleAvailability } from "@/lib/bundles";
+import { getStoreIdForUser } from "./store-id";
+import { requireCurrentPermission } from "@/lib/permissions";
+
+export interface BundleComponentRow {
+  variantId: string;
+  variantTitle: string;
+  listingName: string;
+  quantity: number;
+}
+
+export interface BundleVariantRow {
+  variantId: string;
+  title: string;
+  available: number | null; // Complete bundles the component stock can make
+  components: BundleComponentRow[];
+}
+
+export interface BundleComponentOption {
+  variantId: string;
+  variantTitle: string;
+  listingName: string;
+}
+
+/**
+ * The listing if the current user may manage it
+ */
+async function getManagedListing(
+  listingId: string
+): Promise<{ id: string; storeId: string } | { error: string }> {
+  await requireCurrentPermission("products.manage");
+  const { storeId, isAdmin } = await getStoreIdForUser();
+  if (!storeId && !isAdmin) {
+    return { error: "Unauthorized" };
+  }
+
+  const [listingRow] = await db
+    .select({ id: listing.id, storeId: listing.storeId })
+    .from(listing)
+    .where(eq(listing.id, listingId))
+    .limit(1);
+  if (!listingRow || (!isAdmin && listingRow.storeId !== storeId)) {
+    return { error: "Product not found" };
+  }
+  return listingRow;
+}
+
+/**
+ * Components of each variant of a listing, with bundle availability
+ */
+export async function getListingBundles(listingId: string): Promise<
+  ActionResponse & {
+    result?: BundleVariantRow[];
+  }
+> {
+  try {
+    const managed = await getManagedListing(listingId);
+    if ("error" in managed) {
+      return { success: false, error: managed.error };
+    }
+
+    const variants = await db
+      .select({ id: listingVariants.id, title: listingVariants.title })
+      .from(listingVariants)
+      .where(eq(listingVariants.listingId, listingId))
+      .orderBy(asc(listingVariants.createdAt));
+    const variantIds = variants.map((v) => v.id);
+    if (variantIds.length === 0) {
+      return { success: true, result: [] };
+    }
+
+    const rows = await db
+      .select({
+        bundleVariantId: bundleComponents.bundleVariantId,
+        variantId: bundleComponents.componentVariantId,
+        variantTitle: listingVariants.title,
+        listingName: listing.name,
+        quantity: bundleComponents.quantity,
+      })
+      .from(bundleComponents)
+      .innerJoin(
+        listingVariants,
+        eq(bundleComponents.componentVariantId, listingVariants.id)
+      )
+      .innerJoin(listing, eq(listingVariants.listingId, listing.id))
+      .where(inArray(bundleComponents.bundleVariantId, variantIds))
+      .orderBy(asc(listing.name), asc(listingVariants.title));
+    const availability = await getBundleAvailability(variantIds);
+
+    return {
+      success: true,
+      result: variants.map((variant) => ({
+        variantId: variant.id,
+        title: variant.title,
+        available: availability.get(variant.id) ?? null,
+        components: rows
+          .filter((row) => row.bundleVariantId === variant.id)
+          .map((row) => ({
+            variantId: row.variantId,
+            variantTitle: row.variantTitle,
+            listingName: row.listingName,
+            quantity: row.quantity,
+          })),
+      })),
+    };
+  } catch (error) {
+    console.error("Error fetching bundles:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to fetch bundles",
+    };
+  }
+}
+
+/**
+ * Variants from the same store that can go into a bundle of this listing:
+ * not its own variants and not bundles themselves
+ */
+export async function getBundleComponentOptions(listingId: string): Promise<
+  ActionResponse & {
+    result?: BundleComponentOption[];
+  }
+> {
+  try {
+    const managed = await getManagedListing(listingId);
+    if ("error" in managed) {
+      return { success: false, error: managed.error };
+    }
+
+    const [variants, bundles] = await Promise.all([
+      db
+        .select({
+          variantId: listingVariants.id,
+          variantTitle: listingVariants.title,
+          listingName: listing.name,
+        })
+        .from(listingVariants)
+        .innerJoin(listing, eq(listingVariants.listingId, listing.id))
+        .where(
+          and(eq(listing.storeId, managed.storeId), ne(listing.id, listingId))
+        )
+        .orderBy(asc(listing.name), asc(listingVariants.title)),
+      db
+        .selectDistinct({ id: bundleComponents.bundleVariantId })
+        .from(bundleComponents),
+    ]);
+    const bundleIds = new Set(bundles.map((b) => b.id));
+
+    return {
+      success: true,
+      result: variants.filter((v) => !bundleIds.has(v.variantId)),
+    };
+  } catch (error) {
+    console.error("Error fetching bundle component options:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Failed to fetch bundle component options",
+    };
+  }
+}
+
+/**
+ * Replace the components of a bundle variant. An empty list turns the
+ * variant back into a regular one with its own stock.
+ */
+export async function setBundleComponents(
+  bundleVariantId: string,
+  components: Array<{ variantId: string; quantity: number }>
+): Promise<ActionResponse> {
+  try {
+    const [variant] = await db
+      .select({ listingId: listingVariants.listingId })
+      .from(listingVariants)
+      .where(eq(listingVariants.id, bundleVariantId))
+      .limit(1);
+    if (!variant) {
+      return { success: false, error: "Variant not found" };
+    }
+    const managed = await getManagedListing(variant.listingId);
+    if ("error" in managed) {
+      return { success: false, error: managed.error };
+    }
+
+    const componentIds = components.map((c) => c.variantId);
+    if (new Set(componentIds).size !== componentIds.length) {
+      return { success: false, error: "Each product can only be added once" };
+    }
+    if (
+      components.some((c) => !Number.isInteger(c.quantity) || c.quantity < 1)
+    ) {
+      return { success: false, error: "Quantities must be whole numbers" };
+    }
+
+    if (componentIds.length > 0) {
+      const componentRows = await db
+        .select({ id: listingVariants.id, listingId: listing.id })
+        .from(listingVariants)
+        .innerJoin(listing, eq(listingVariants.listingId, listing.id))
+        .where(
+          and(
+            inArray(listingVariants.id, componentIds),
+            eq(listing.storeId, managed.storeId)
+          )
+        );
+      if (componentRows.length !== componentIds.length) {
+        return {
+          success: false,
+          error: "Bundles can only contain products from the same store",
+        };
+      }
+      if (componentRows.some((row) => row.listingId === variant.listingId)) {
+        return {
+          success: false,
+          error: "A bundle cannot contain variants of its own product",
+        };
+      }
+
+      // One level only: no bundles in bundles, and a component of another
+      // bundle cannot become a bundle itself
+      const [nestedBundle] = await db
+        .select({ id: bundleComponents.id })
+        .from(bundleComponents)
+        .where(inArray(bundleComponents.bundleVariantId, componentIds))
+        .limit(1);
+      if (nestedBundle) {
+        return {
+          success: false,
+          error: "A bundle cannot contain another bundle",
+        };
+      }
+      const [usedAsComponent] = await db
+        .select({ id: bundleComponents.id })
+        .from(bundleComponents)
+        .where(eq(bundleComponents.componentVariantId, bundleVariantId))
+        .limit(1);
+      if (usedAsComponent) {
+        return {
+          success: false,
+          error:
+            "This variant is part of another bundle and cannot be a bundle itself",
+        };
+      }
+    }
+
+    await db.transaction(async (tx) => {
+      await tx
+        .delete(bundleComponents)
+        .where(eq(bundleComponents.bundleVariantId, bundleVariantId));
+      if (components.length > 0) {
+        await tx.insert(bundleComponents).values(
+          components.map((c) => ({
+            bundleVariantId,
+            componentVariantId: c.variantId,
+            quantity: c.quantity,
+          }))
+        );
+      }
+    });
+
+    revalidatePath(`/dashboard/products/${variant.listingId}`);
+    return {
+      success: true,
+      message:
+        components.length > 0 ? "Bundle contents saved" : "Bundle removed",
+    };
+  } catch (error) {
+    console.error("Error saving bundle components:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to save bundle",
+    };
+  }
+}
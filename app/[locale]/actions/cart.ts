@@ -0,0 +1,617 @@
+"use server";
+
+import { db } from "@/db";
+import {
+  carts,
+  cartItems,
+  listing,
+  listingTranslations,
+  listingVariants,
+  listingVariantTranslations,
+} from "@/db/schema";
+import { and, eq, inArray, isNull } from "drizzle-orm";
+import { auth } from "@/lib/auth";
+import { cookies, headers } from "next/headers";
+import { catalogPrice, cartItemIdFor } from "@/lib/pricing";
+import type { CartItem } from "@/lib/types";
+import { validateInventoryForCartItem } from "./public-products";
+
+const CART_COOKIE = "cart_token";
+const CART_COOKIE_MAX_AGE = 60 * 60 * 24 * 60; // 60 days
+
+export type CartNoticeType = "price_changed" | "quantity_reduced" | "removed";
+
+export interface CartNotice {
+  type: CartNoticeType;
+  itemId: string;
+  name: string;
+  currency?: string;
+  previousPrice?: number;
+  currentPrice?: number;
+  previousQuantity?: number;
+  quantity?: number;
+}
+
+export interface CartResponse {
+  success: boolean;
+  items: CartItem[];
+  notices: CartNotice[];
+  error?: string;
+  available?: number; // Stock left when an add/update was refused
+}
+
+export interface CartLineInput {
+  listingId: string;
+  variantId?: string | null;
+  quantity: number;
+}
+
+type CartRow = typeof carts.$inferSelect;
+
+async function getSessionUserId(): Promise<string | null> {
+  const session = await auth.api.getSession({ headers: await headers() });
+  return session?.user?.id ?? null;
+}
+
+async function setGuestCookie(token: string) {
+  const cookieStore = await cookies();
+  cookieStore.set(CART_COOKIE, token, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    maxAge: CART_COOKIE_MAX_AGE,
+  });
+}
+
+/**
+ * Move a guest cart's lines into the user's cart. Quantities of lines present
+ * in both are added up; stock is re-checked on the next load.
+ */
+async function mergeGuestCart(guestCart: CartRow, userCart: CartRow) {
+  const [guestLines, userLines] = await Promise.all([
+    db.select().from(cartItems).where(eq(cartItems.cartId, guestCart.id)),
+    db.select().from(cartItems).where(eq(cartItems.cartId, userCart.id)),
+  ]);
+
+  await db.transaction(async (tx) => {
+    for (const line of guestLines) {
+      const existing = userLines.find(
+        (l) =>
+          l.listingId === line.listingId &&
+          (l.variantId ?? null) === (line.variantId ?? null)
+      );
+      if (existing) {
+        await tx
+          .update(cartItems)
+          .set({ quantity: existing.quantity + line.quantity })
+          .where(eq(cartItems.id, existing.id));
+      } else {
+        await tx
+          .update(cartItems)
+          .set({ cartId: userCart.id })
+          .where(eq(cartItems.id, line.id));
+      }
+    }
+    await tx.delete(carts).where(eq(carts.id, guestCart.id));
+  });
+}
+
+/**
+ * The current visitor's cart: the user's cart when signed in (absorbing any
+ * guest cart from before login), otherwise the cart behind the guest cookie.
+ */
+async function resolveCart(create: boolean): Promise<CartRow | null> {
+  const userId = await getSessionUserId();
+  const cookieStore = await cookies();
+  const guestToken = cookieStore.get(CART_COOKIE)?.value;
+
+  const guestCart = guestToken
+    ? ((
+        await db
+          .select()
+          .from(carts)
+          .where(and(eq(carts.guestToken, guestToken), isNull(carts.userId)))
+          .limit(1)
+      )[0] ?? null)
+    : null;
+
+  if (userId) {
+    let userCart =
+      (
+        await db.select().from(carts).where(eq(carts.userId, userId)).limit(1)
+      )[0] ?? null;
+
+    if (guestCart) {
+      if (userCart) {
+        await mergeGuestCart(guestCart, userCart);
+      } else {
+        // Adopt the guest cart as the user's cart
+        [userCart] = await db
+          .update(carts)
+          .set({ userId, guestToken: null })
+          .where(eq(carts.id, guestCart.id))
+          .returning();
+      }
+    }
+    if (guestToken) {
+      cookieStore.delete(CART_COOKIE);
+    }
+
+    if (!userCart && create) {
+      [userCart] = await db.insert(carts).values({ userId }).returning();
+    }
+    return userCart;
+  }
+
+  if (guestCart || !create) {
+    return guestCart;
+  }
+
+  const token = crypto.randomUUID();
+  const [newCart] = await db
+    .insert(carts)
+    .values({ guestToken: token })
+    .returning();
+  await setGuestCookie(token);
+  return newCart;
+}
+
+/**
+ * Load cart lines and re-validate them against the catalog: unavailable
+ * listings are dropped, quantities are capped to stock and stored prices are
+ * refreshed. Every change is reported as a notice.
+ */
+async function loadCart(
+  cartId: string,
+  locale: string
+): Promise<{ items: CartItem[]; notices: CartNotice[] }> {
+  const rows = await db
+    .select({
+      line: cartItems,
+      listingName: listing.name,
+      listingSlug: listing.slug,
+      listingStatus: listing.status,
+      listingPrice: listing.price,
+      listingCurrency: listing.currency,
+      listingImageUrl: listing.imageUrl,
+      categoryName: listing.taxonomyCategoryName,
+      storeId: listing.storeId,
+      variantTitle: listingVariants.title,
+      variantPrice: listingVariants.price,
+      variantCurrency: listingVariants.currency,
+      variantImageUrl: listingVariants.imageUrl,
+      variantSku: listingVariants.sku,
+    })
+    .from(cartItems)
+    .innerJoin(listing, eq(cartItems.listingId, listing.id))
+    .leftJoin(listingVariants, eq(cartItems.variantId, listingVariants.id))
+    .where(eq(cartItems.cartId, cartId))
+    .orderBy(cartItems.createdAt);
+
+  if (rows.length === 0) {
+    return { items: [], notices: [] };
+  }
+
+  const listingIds = [...new Set(rows.map((r) => r.line.listingId))];
+  const variantIds = rows
+    .map((r) => r.line.variantId)
+    .filter((id): id is string => !!id);
+  const [nameTranslations, variantTranslations] = await Promise.all([
+    db
+      .select({
+        listingId: listingTranslations.listingId,
+        name: listingTranslations.name,
+      })
+      .from(listingTranslations)
+      .where(
+        and(
+          inArray(listingTranslations.listingId, listingIds),
+          eq(listingTranslations.locale, locale)
+        )
+      ),
+    variantIds.length > 0
+      ? db
+          .select({
+            variantId: listingVariantTranslations.variantId,
+            title: listingVariantTranslations.title,
+          })
+          .from(listingVariantTranslations)
+          .where(
+            and(
+              inArray(listingVariantTranslations.variantId, variantIds),
+              eq(listingVariantTranslations.locale, locale)
+            )
+          )
+      : Promise.resolve([]),
+  ]);
+
+  const items: CartItem[] = [];
+  const notices: CartNotice[] = [];
+
+  for (const row of rows) {
+    const { line } = row;
+    const itemId = cartItemIdFor(line.listingId, line.variantId);
+    const name =
+      nameTranslations.find((t) => t.listingId === line.listingId)?.name ||
+      row.listingName;
+
+    if (row.listingStatus !== "active") {
+      await db.delete(cartItems).where(eq(cartItems.id, line.id));
+      notices.push({ type: "removed", itemId, name });
+      continue;
+    }
+
+    let quantity = line.quantity;
+    const stock = await validateInventoryForCartItem(
+      line.listingId,
+      line.variantId,
+      quantity
+    );
+    if (stock.success && !stock.allowed) {
+      const available = stock.available ?? 0;
+      if (available <= 0) {
+        await db.delete(cartItems).where(eq(cartItems.id, line.id));
+        notices.push({ type: "removed", itemId, name });
+        continue;
+      }
+      notices.push({
+        type: "quantity_reduced",
+        itemId,
+        name,
+        previousQuantity: quantity,
+        quantity: available,
+      });
+      quantity = available;
+    }
+
+    const price = catalogPrice(
+      { price: row.listingPrice, currency: row.listingCurrency },
+      row.variantPrice !== null
+        ? { price: row.variantPrice, currency: row.variantCurrency }
+        : null
+    );
+    const previousPrice = parseFloat(line.unitPrice);
+    const priceChanged =
+      line.currency !== price.currency ||
+      Math.abs(previousPrice - price.amount) >= 0.005;
+    if (priceChanged) {
+      notices.push({
+        type: "price_changed",
+        itemId,
+        name,
+        currency: price.currency,
+        previousPrice:
+          line.currency === price.currency ? previousPrice : undefined,
+        currentPrice: price.amount,
+      });
+    }
+
+    if (priceChanged || quantity !== line.quantity) {
+      await db
+        .update(cartItems)
+        .set({
+          quantity,
+          unitPrice: price.amount.toFixed(2),
+          currency: price.currency,
+        })
+        .where(eq(cartItems.id, line.id));
+    }
+
+    const variantTitle = line.variantId
+      ? variantTranslations.find((t) => t.variantId === line.variantId)
+          ?.title || row.variantTitle
+      : null;
+
+    items.push({
+      id: itemId,
+      listingId: line.listingId,
+      listingSlug: row.listingSlug,
+      variantId: line.variantId,
+      variantTitle,
+      name,
+      price: price.amount,
+      quantity,
+      image: row.variantImageUrl || row.listingImageUrl || "/placeholder.svg",
+      category: row.categoryName,
+      currency: price.currency,
+      sku: row.variantSku,
+      storeId: row.storeId,
+    });
+  }
+
+  return { items, notices };
+}
+
+async function findLine(cartId: string, itemId: string) {
+  const lines = await db
+    .select()
+    .from(cartItems)
+    .where(eq(cartItems.cartId, cartId));
+  return (
+    lines.find((l) => cartItemIdFor(l.listingId, l.variantId) === itemId) ??
+    null
+  );
+}
+
+/**
+ * Add to a cart line, or create it. Refuses quantities above current stock.
+ */
+async function addToCart(
+  cartId: string,
+  input: CartLineInput
+): Promise<{ success: boolean; error?: string; available?: number }> {
+  if (
+    !input.listingId ||
+    !Number.isInteger(input.quantity) ||
+    input.quantity < 1
+  ) {
+    return { success: false, error: "Invalid quantity" };
+  }
+
+  const listingRow = (
+    await db
+      .select({
+        price: listing.price,
+        currency: listing.currency,
+        status: listing.status,
+      })
+      .from(listing)
+      .where(eq(listing.id, input.listingId))
+      .limit(1)
+  )[0];
+  if (!listingRow || listingRow.status !== "active") {
+    return { success: false, error: "This product is no longer available" };
+  }
+
+  const variant = input.variantId
+    ? ((
+        await db
+          .select({
+            listingId: listingVariants.listingId,
+            price: listingVariants.price,
+            currency: listingVariants.currency,
+          })
+          .from(listingVariants)
+          .where(eq(listingVariants.id, input.variantId))
+          .limit(1)
+      )[0] ?? null)
+    : null;
+  if (input.variantId && (!variant || variant.listingId !== input.listingId)) {
+    return { success: false, error: "Variant not found" };
+  }
+
+  const existing = await findLine(
+    cartId,
+    cartItemIdFor(input.listingId, input.variantId)
+  );
+  const quantity = (existing?.quantity ?? 0) + input.quantity;
+
+  const stock = await validateInventoryForCartItem(
+    input.listingId,
+    input.variantId ?? null,
+    quantity
+  );
+  if (!stock.success) {
+    return { success: false, error: stock.error || "Could not verify stock" };
+  }
+  if (!stock.allowed) {
+    return {
+      success: false,
+      error: "Insufficient stock",
+      available: Math.max(
+        (stock.available ?? 0) - (existing?.quantity ?? 0),
+        0
+      ),
+    };
+  }
+
+  const price = catalogPrice(listingRow, variant);
+  if (existing) {
+    await db
+      .update(cartItems)
+      .set({
+        quantity,
+        unitPrice: price.amount.toFixed(2),
+        currency: price.currency,
+      })
+      .where(eq(cartItems.id, existing.id));
+  } else {
+    await db.insert(cartItems).values({
+      cartId,
+      listingId: input.listingId,
+      variantId: input.variantId ?? null,
+      quantity,
+      unitPrice: price.amount.toFixed(2),
+      currency: price.currency,
+    });
+  }
+  await db
+    .update(carts)
+    .set({ updatedAt: new Date() })
+    .where(eq(carts.id, cartId));
+
+  return { success: true };
+}
+
+function emptyCart(error?: string): CartResponse {
+  return { success: !error, items: [], notices: [], error };
+}
+
+/**
+ * Current cart, re-validated against stock and catalog prices
+ */
+export async function getCart(locale: string = "en"): Promise<CartResponse> {
+  try {
+    const cart = await resolveCart(false);
+    if (!cart) return emptyCart();
+
+    const { items, notices } = await loadCart(cart.id, locale);
+    return { success: true, items, notices };
+  } catch (error) {
+    console.error("Error loading cart:", error);
+    return emptyCart(
+      error instanceof Error ? error.message : "Failed to load cart"
+    );
+  }
+}
+
+export async function addCartItem(
+  input: CartLineInput,
+  locale: string = "en"
+): Promise<CartResponse> {
+  try {
+    const cart = await resolveCart(true);
+    if (!cart) return emptyCart("Failed to create cart");
+
+    const result = await addToCart(cart.id, input);
+    const { items, notices } = await loadCart(cart.id, locale);
+    return { ...result, items, notices };
+  } catch (error) {
+    console.error("Error adding cart item:", error);
+    return emptyCart(
+      error instanceof Error ? error.message : "Failed to add item to cart"
+    );
+  }
+}
+
+/**
+ * Add several lines at once (carts saved in the browser before server carts)
+ */
+export async function importCartItems(
+  lines: CartLineInput[],
+  locale: string = "en"
+): Promise<CartResponse> {
+  try {
+    const cart = await resolveCart(true);
+    if (!cart) return emptyCart("Failed to create cart");
+
+    for (const line of lines) {
+      await addToCart(cart.id, line);
+    }
+    const { items, notices } = await loadCart(cart.id, locale);
+    return { success: true, items, notices };
+  } catch (error) {
+    console.error("Error importing cart items:", error);
+    return emptyCart(
+      error instanceof Error ? error.message : "Failed to import cart"
+    );
+  }
+}
+
+/**
+ * Bring the cart back to a saved set of lines (abandoned checkout resume
+ * links). Lines already in the cart are only topped up, never doubled.
+ */
+export async function restoreCartItems(
+  lines: CartLineInput[]
+): Promise<{ success: boolean; restored: number; error?: string }> {
+  try {
+    const cart = await resolveCart(true);
+    if (!cart) {
+      return { success: false, restored: 0, error: "Failed to create cart" };
+    }
+
+    let restored = 0;
+    for (const line of lines) {
+      const existing = await findLine(
+        cart.id,
+        cartItemIdFor(line.listingId, line.variantId)
+      );
+      const missing = line.quantity - (existing?.quantity ?? 0);
+      if (missing <= 0) {
+        restored++;
+        continue;
+      }
+
+      let result = await addToCart(cart.id, { ...line, quantity: missing });
+      if (!result.success && result.available && result.available > 0) {
+        result = await addToCart(cart.id, {
+          ...line,
+          quantity: result.available,
+        });
+      }
+      if (result.success) restored++;
+    }
+    return { success: true, restored };
+  } catch (error) {
+    console.error("Error restoring cart:", error);
+    return {
+      success: false,
+      restored: 0,
+      error: error instanceof Error ? error.message : "Failed to restore cart",
+    };
+  }
+}
+
+export async function updateCartItemQuantity(
+  itemId: string,
+  quantity: number,
+  locale: string = "en"
+): Promise<CartResponse> {
+  try {
+    const cart = await resolveCart(false);
+    if (!cart) return emptyCart("Cart not found");
+
+    const line = await findLine(cart.id, itemId);
+    let result: Pick<CartResponse, "success" | "error" | "available"> = {
+      success: true,
+    };
+
+    if (line && quantity <= 0) {
+      await db.delete(cartItems).where(eq(cartItems.id, line.id));
+    } else if (line && Number.isInteger(quantity)) {
+      const stock = await validateInventoryForCartItem(
+        line.listingId,
+        line.variantId,
+        quantity
+      );
+      if (stock.success && !stock.allowed) {
+        result = {
+          success: false,
+          error: "Insufficient stock",
+          available: stock.available ?? 0,
+        };
+      } else {
+        await db
+          .update(cartItems)
+          .set({ quantity })
+          .where(eq(cartItems.id, line.id));
+      }
+    }
+
+    const { items, notices } = await loadCart(cart.id, locale);
+    return { ...result, items, notices };
+  } catch (error) {
+    console.error("Error updating cart item:", error);
+    return emptyCart(
+      error instanceof Error ? error.message : "Failed to update cart"
+    );
+  }
+}
+
+export async function removeCartItem(
+  itemId: string,
+  locale: string = "en"
+): Promise<CartResponse> {
+  return updateCartItemQuantity(itemId, 0, locale);
+}
+
+export async function clearCart(): Promise<{
+  success: boolean;
+  error?: string;
+}> {
+  try {
+    const cart = await resolveCart(false);
+    if (cart) {
+      await db.delete(cartItems).where(eq(cartItems.cartId, cart.id));
+    }
+    return { success: true };
+  } catch (error) {
+    console.error("Error clearing cart:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to clear cart",
+    };
+  }
+}
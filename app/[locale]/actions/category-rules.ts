@@ -82,7 +82,7 @@ export async function getCategoryRuleById(
   ruleId: string
 ): Promise<ActionResponse & { result?: CategoryRule }> {
   try {
-    await getCurrentAdmin();
+    await getCurrentAdmin("platform.settings");
 
     const rules = await db
       .select()
@@ -167,7 +167,7 @@ export async function getCategoryRuleWithDocumentation(ruleId: string): Promise<
   }
 > {
   try {
-    await getCurrentAdmin();
+    await getCurrentAdmin("platform.settings");
 
     const rules = await db
       .select()
@@ -225,7 +225,7 @@ export async function createCategoryRule(
   ruleData: CreateCategoryRuleData
 ): Promise<ActionResponse> {
   try {
-    await getCurrentAdmin();
+    await getCurrentAdmin("platform.settings");
 
     // Check if rule for this taxonomy category already exists
     const existingRule = await db
@@ -289,7 +289,7 @@ export async function updateCategoryRule(
   ruleData: UpdateCategoryRuleData
 ): Promise<ActionResponse> {
   try {
-    await getCurrentAdmin();
+    await getCurrentAdmin("platform.settings");
 
     // Check if rule exists
     const existingRule = await db
@@ -358,7 +358,7 @@ export async function deleteCategoryRule(
   ruleId: string
 ): Promise<ActionResponse> {
   try {
-    await getCurrentAdmin();
+    await getCurrentAdmin("platform.settings");
 
     // Check if rule exists
     const existingRule = await db
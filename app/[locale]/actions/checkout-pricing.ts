@@ -0,0 +1,83 @@
+"use server";
+
+import {
+  priceCheckout,
+  isPricingError,
+  type PricingErrorCode,
+  type PricingRequest,
+} from "@/lib/pricing";
+
+export type CheckoutQuote = {
+  currency: string;
+  subtotal: number;
+  discount: number;
+  shipping: number;
+  tax: number;
+  taxInclusive: boolean;
+  total: number;
+  lines: Array<{
+    cartItemId: string;
+    unitPrice: number;
+    discountAmount: number;
+    discountId: string | null;
+    taxAmount: number;
+    taxRate: number | null;
+  }>;
+};
+
+/**
+ * Price the cart on the server so the checkout page shows (and submits)
+ * the same amounts create-order will charge.
+ */
+export async function quoteCheckout(
+  request: Omit<PricingRequest, "manualDiscountAmount" | "manualShippingAmount">
+): Promise<{
+  success: boolean;
+  quote?: CheckoutQuote;
+  error?: string;
+  code?: PricingErrorCode;
+}> {
+  try {
+    const priced = await priceCheckout({
+      currency: request.currency,
+      lineItems: request.lineItems,
+      customerEmail: request.customerEmail,
+      discountId: request.discountId,
+      shippingCountry: request.shippingCountry,
+      shippingRegion: request.shippingRegion,
+      shippingPostalCode: request.shippingPostalCode,
+      vendorShippingRates: request.vendorShippingRates,
+    });
+
+    return {
+      success: true,
+      quote: {
+        currency: priced.currency,
+        subtotal: priced.subtotal,
+        discount: priced.discount,
+        shipping: priced.shipping,
+        tax: priced.tax,
+        taxInclusive: priced.taxInclusive,
+        total: priced.total,
+        lines: priced.lines.map((line) => ({
+          cartItemId: line.cartItemId,
+          unitPrice: line.unitPrice,
+          discountAmount: line.discountAmount,
+          discountId: line.discountId,
+          taxAmount: line.taxAmount,
+          taxRate: line.taxRate,
+        })),
+      },
+    };
+  } catch (error) {
+    if (isPricingError(error)) {
+      return { success: false, error: error.message, code: error.code };
+    }
+    console.error("Error quoting checkout:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error ? error.message : "Failed to price checkout",
+    };
+  }
+}
@@ -9,8 +9,6 @@ import {
   listing,
   store,
   storeMembers,
-  userRoles,
-  roles,
 } from "@/db/schema";
 import {
   eq,
@@ -26,6 +24,8 @@ import {
 } from "drizzle-orm";
 import { auth } from "@/lib/auth";
 import { headers } from "next/headers";
+import { getUserRole } from "@/lib/user-role";
+import { requireCurrentPermission } from "@/lib/permissions";
 
 export type CustomerRow = {
   id: string;
@@ -65,17 +65,9 @@ async function getStoreIdForUser(): Promise<{
     return { storeId: null, isAdmin: false, error: "Unauthorized" };
   }
 
-  // Check if user is admin
-  const userRole = await db
-    .select({
-      roleName: roles.name,
-    })
-    .from(userRoles)
-    .innerJoin(roles, eq(userRoles.roleId, roles.id))
-    .where(eq(userRoles.userId, session.user.id))
-    .limit(1);
-
-  const isAdmin = userRole.some((r) => r.roleName === "Admin");
+  // Users who can act on every store see all customers
+  const { permissions } = await getUserRole(session.user.id);
+  const isAdmin = permissions.includes("stores.all");
 
   // Get store ID if not admin
   let storeId: string | null = null;
@@ -105,6 +97,7 @@ export async function listCustomers(filters: CustomerFilters = {}): Promise<{
   error?: string;
 }> {
   try {
+    await requireCurrentPermission("customers.manage");
     const { storeId, isAdmin } = await getStoreIdForUser();
 
     if (!isAdmin && !storeId) {
@@ -431,6 +424,7 @@ export async function getCustomer(customerId: string): Promise<{
   error?: string;
 }> {
   try {
+    await requireCurrentPermission("customers.manage");
     const { storeId, isAdmin } = await getStoreIdForUser();
 
     // Get customer
@@ -552,6 +546,7 @@ export async function createCustomer(input: {
   error?: string;
 }> {
   try {
+    await requireCurrentPermission("customers.manage");
     const { storeId: currentStoreId, isAdmin } = await getStoreIdForUser();
 
     if (!isAdmin && !currentStoreId) {
@@ -652,6 +647,7 @@ export async function updateCustomer(
   error?: string;
 }> {
   try {
+    await requireCurrentPermission("customers.manage");
     const { storeId, isAdmin } = await getStoreIdForUser();
 
     // Get customer to check permissions
@@ -731,6 +727,7 @@ export async function deleteCustomer(customerId: string): Promise<{
   error?: string;
 }> {
   try {
+    await requireCurrentPermission("customers.manage");
     const { isAdmin } = await getStoreIdForUser();
 
     if (!isAdmin) {
@@ -777,6 +774,7 @@ export async function searchCustomers(query: string): Promise<{
   error?: string;
 }> {
   try {
+    await requireCurrentPermission("customers.manage");
     const { storeId, isAdmin } = await getStoreIdForUser();
 
     if (!isAdmin && !storeId) {
@@ -858,6 +856,7 @@ export async function getCustomerOrders(customerId: string): Promise<{
   error?: string;
 }> {
   try {
+    await requireCurrentPermission("customers.manage");
     const { storeId, isAdmin } = await getStoreIdForUser();
 
     // Get customer to check permissions
@@ -17,7 +17,7 @@ import {
   customers,
 } from "@/db/schema";
 import { eq, and, or, sql, inArray, ne, desc } from "drizzle-orm";
-import { getUserRole } from "@/lib/user-role";
+import { requirePermission } from "@/lib/permissions";
 import {
   CreateAmountOffProductsDiscountSchema,
   UpdateDiscountSchema,
@@ -49,13 +49,10 @@ async function checkDiscountPermission(
   discountId: string | null = null
 ): Promise<{ isAdmin: boolean; storeId: string | null; error?: string }> {
   const user = await getCurrentUser();
-  const { roleName, error: roleError } = await getUserRole(user.id);
-
-  if (roleError || !roleName) {
-    return { isAdmin: false, storeId: null, error: "Unauthorized" };
-  }
-
-  const isAdmin = roleName === "admin";
+  const { allStores: isAdmin } = await requirePermission(
+    { user },
+    "discounts.manage"
+  );
 
   // Admins can access all discounts
   if (isAdmin) {
@@ -0,0 +1,256 @@
+"use server";
+
+import { db } from "@/db";
+import { orderDisputes, orderEvents, orders } from "@/db/schema";
+import { desc, eq } from "drizzle-orm";
+import { auth } from "@/lib/auth";
+import { headers } from "next/headers";
+import Stripe from "stripe";
+import { stripe } from "@/lib/stripe";
+import { syncStripeDispute } from "@/lib/disputes";
+import { requirePermission } from "@/lib/permissions";
+
+const MAX_EVIDENCE_FILE_SIZE = 5 * 1024 * 1024; // Stripe limit per file
+const EVIDENCE_FILE_TYPES = ["application/pdf", "image/jpeg", "image/png"];
+
+// Form field -> Stripe evidence field
+const EVIDENCE_TEXT_FIELDS = {
+  productDescription: "product_description",
+  shippingCarrier: "shipping_carrier",
+  shippingTrackingNumber: "shipping_tracking_number",
+  uncategorizedText: "uncategorized_text",
+} as const;
+const EVIDENCE_FILE_FIELDS = {
+  receipt: "receipt",
+  customerCommunication: "customer_communication",
+  shippingDocumentation: "shipping_documentation",
+  uncategorizedFile: "uncategorized_file",
+} as const;
+
+export type OrderDisputeData = {
+  id: string;
+  stripeDisputeId: string;
+  amount: string;
+  currency: string;
+  reason: string | null;
+  status: string;
+  ledgerAmount: string;
+  evidenceDueBy: Date | null;
+  evidenceSubmittedAt: Date | null;
+  closedAt: Date | null;
+  createdAt: Date;
+  canSubmitEvidence: boolean;
+};
+
+function acceptsEvidence(status: string): boolean {
+  return status === "needs_response" || status === "warning_needs_response";
+}
+
+/**
+ * Order the current user may manage: admins any order, sellers their own
+ */
+async function getAccessibleOrder(orderId: string) {
+  const session = await auth.api.getSession({
+    headers: await headers(),
+  });
+  if (!session?.user?.id) {
+    return { error: "Unauthorized" } as const;
+  }
+  await requirePermission(session, "orders.refund");
+
+  const { getStoreIdForUser } = await import("./store-id");
+  const { storeId, isAdmin, error: storeError } = await getStoreIdForUser();
+  if (storeError && !isAdmin) {
+    return { error: storeError } as const;
+  }
+
+  const [order] = await db
+    .select({ id: orders.id, storeId: orders.storeId })
+    .from(orders)
+    .where(eq(orders.id, orderId))
+    .limit(1);
+  if (!order) {
+    return { error: "Order not found" } as const;
+  }
+  if (!isAdmin && order.storeId !== storeId) {
+    return {
+      error: "You don't have permission to manage disputes for this order",
+    } as const;
+  }
+
+  return { order, userId: session.user.id } as const;
+}
+
+/**
+ * Get the Stripe disputes of an order
+ */
+export async function getOrderDisputes(orderId: string): Promise<{
+  success: boolean;
+  data?: OrderDisputeData[];
+  error?: string;
+}> {
+  try {
+    const access = await getAccessibleOrder(orderId);
+    if ("error" in access) {
+      return { success: false, error: access.error };
+    }
+
+    const rows = await db
+      .select()
+      .from(orderDisputes)
+      .where(eq(orderDisputes.orderId, orderId))
+      .orderBy(desc(orderDisputes.createdAt));
+
+    return {
+      success: true,
+      data: rows.map((row) => ({
+        id: row.id,
+        stripeDisputeId: row.stripeDisputeId,
+        amount: row.amount,
+        currency: row.currency,
+        reason: row.reason,
+        status: row.status,
+        ledgerAmount: row.ledgerAmount,
+        evidenceDueBy: row.evidenceDueBy,
+        evidenceSubmittedAt: row.evidenceSubmittedAt,
+        closedAt: row.closedAt,
+        createdAt: row.createdAt,
+        canSubmitEvidence:
+          acceptsEvidence(row.status) &&
+          !row.evidenceSubmittedAt &&
+          (!row.evidenceDueBy || row.evidenceDueBy > new Date()),
+      })),
+    };
+  } catch (error) {
+    console.error("Error fetching order disputes:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error ? error.message : "Failed to fetch disputes",
+    };
+  }
+}
+
+/**
+ * Upload the seller's evidence to Stripe and submit the dispute response.
+ * Expects `disputeId` (order_disputes.id) plus any of the evidence text
+ * fields and files.
+ */
+export async function submitDisputeEvidence(
+  formData: FormData
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const disputeId = formData.get("disputeId") as string;
+    if (!disputeId) {
+      return { success: false, error: "Dispute is required" };
+    }
+
+    const [dispute] = await db
+      .select()
+      .from(orderDisputes)
+      .where(eq(orderDisputes.id, disputeId))
+      .limit(1);
+    if (!dispute) {
+      return { success: false, error: "Dispute not found" };
+    }
+
+    const access = await getAccessibleOrder(dispute.orderId);
+    if ("error" in access) {
+      return { success: false, error: access.error };
+    }
+
+    if (!acceptsEvidence(dispute.status) || dispute.evidenceSubmittedAt) {
+      return {
+        success: false,
+        error: "This dispute no longer accepts evidence",
+      };
+    }
+
+    const evidence: Stripe.DisputeUpdateParams.Evidence = {};
+    for (const [field, stripeField] of Object.entries(EVIDENCE_TEXT_FIELDS)) {
+      const value = (formData.get(field) as string | null)?.trim();
+      if (value) {
+        evidence[stripeField] = value;
+      }
+    }
+
+    for (const [field, stripeField] of Object.entries(EVIDENCE_FILE_FIELDS)) {
+      const file = formData.get(field) as File | null;
+      if (!file || file.size === 0) continue;
+
+      if (file.size > MAX_EVIDENCE_FILE_SIZE) {
+        return {
+          success: false,
+          error: `${file.name} is larger than 5MB`,
+        };
+      }
+      if (!EVIDENCE_FILE_TYPES.includes(file.type)) {
+        return {
+          success: false,
+          error: `${file.name} must be a PDF, JPEG or PNG file`,
+        };
+      }
+
+      const uploaded = await stripe.files.create({
+        purpose: "dispute_evidence",
+        file: {
+          data: Buffer.from(await file.arrayBuffer()),
+          name: file.name,
+          type: file.type,
+        },
+      });
+      evidence[stripeField] = uploaded.id;
+    }
+
+    if (Object.keys(evidence).length === 0) {
+      return {
+        success: false,
+        error: "Please provide at least one piece of evidence",
+      };
+    }
+
+    const updated = await stripe.disputes.update(dispute.stripeDisputeId, {
+      evidence,
+      submit: true,
+    });
+
+    const submittedAt = new Date();
+    const rows = await db
+      .update(orderDisputes)
+      .set({
+        evidenceSubmittedAt: submittedAt,
+        evidenceSubmittedBy: access.userId,
+        updatedAt: submittedAt,
+      })
+      .where(eq(orderDisputes.stripeDisputeId, dispute.stripeDisputeId))
+      .returning({ orderId: orderDisputes.orderId });
+
+    await db.insert(orderEvents).values(
+      rows.map((row) => ({
+        orderId: row.orderId,
+        type: "payment",
+        visibility: "internal",
+        message: "Dispute evidence submitted to Stripe",
+        metadata: {
+          stripeDisputeId: dispute.stripeDisputeId,
+          evidenceFields: Object.keys(evidence),
+        },
+        createdBy: access.userId,
+      }))
+    );
+
+    // Pick up the new status (under_review) without waiting for the webhook
+    await syncStripeDispute(updated);
+
+    return { success: true };
+  } catch (error) {
+    console.error("Error submitting dispute evidence:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Failed to submit dispute evidence",
+    };
+  }
+}
@@ -10,8 +10,6 @@ import {
   storeMembers,
   listingVariants,
   listing,
-  userRoles,
-  roles,
   orderEvents,
   orderPayments,
   customers,
@@ -24,6 +22,9 @@ import {
   generateOrderNumber,
   generateDraftOrderNumber,
 } from "@/lib/order-number";
+import { priceCheckout, reconcileClientTotals } from "@/lib/pricing";
+import { getUserRole } from "@/lib/user-role";
+import { requireCurrentPermission, requirePermission } from "@/lib/permissions";
 
 export type DraftOrderRow = {
   id: string;
@@ -71,22 +72,9 @@ async function getStoreIdForUser(): Promise<{
       return { storeId: null, isAdmin: false, error: "Unauthorized" };
     }
 
-    // Check if user is admin
-    const userRole = await db
-      .select({
-        roleName: roles.name,
-      })
-      .from(userRoles)
-      .innerJoin(roles, eq(userRoles.roleId, roles.id))
-      .where(eq(userRoles.userId, session.user.id))
-      .limit(1);
-
-    if (userRole.length === 0) {
-      return { storeId: null, isAdmin: false, error: "User role not found" };
-    }
-
-    const roleName = userRole[0].roleName.toLowerCase();
-    const isAdmin = roleName === "admin";
+    // Users who can act on every store see all drafts
+    const { permissions } = await getUserRole(session.user.id);
+    const isAdmin = permissions.includes("stores.all");
 
     if (isAdmin) {
       return { storeId: null, isAdmin: true };
@@ -131,6 +119,7 @@ export async function listDraftOrders(
   error?: string;
 }> {
   try {
+    await requireCurrentPermission("orders.view");
     const { storeId, isAdmin, error: storeError } = await getStoreIdForUser();
 
     if (storeError) {
@@ -352,6 +341,8 @@ export async function getDraftOrder(draftId: string): Promise<{
       return { success: false, error: "Unauthorized" };
     }
 
+    await requirePermission(session, "orders.view");
+
     const { storeId, isAdmin } = await getStoreIdForUser();
 
     // Validate draftId format
@@ -542,6 +533,8 @@ export async function deleteDraftOrders(
       return { success: false, error: "Unauthorized" };
     }
 
+    await requirePermission(session, "orders.manage");
+
     if (!draftIds || draftIds.length === 0) {
       return { success: false, error: "No draft orders selected" };
     }
@@ -667,6 +660,7 @@ async function completeDraftOrderInternal(
       if (!session?.user?.id) {
         return { success: false, error: "Unauthorized" };
       }
+      await requirePermission(session, "orders.manage");
 
       const storeResult = await getStoreIdForUser();
       storeId = storeResult.storeId;
@@ -992,6 +986,27 @@ async function completeDraftOrderInternal(
         // Generate unique order number
         const generatedOrderNumber = await generateOrderNumber();
 
+        // Tax snapshot as priced on the draft (mode, breakdown, per-line allocation)
+        const [draftTax] = await tx
+          .select({
+            taxInclusive: draftOrders.taxInclusive,
+            taxBreakdown: draftOrders.taxBreakdown,
+          })
+          .from(draftOrders)
+          .where(eq(draftOrders.id, draft.id))
+          .limit(1);
+        const draftItemTaxes = await tx
+          .select({
+            id: draftOrderItems.id,
+            discountAmount: draftOrderItems.discountAmount,
+            taxAmount: draftOrderItems.taxAmount,
+            taxRate: draftOrderItems.taxRate,
+            taxName: draftOrderItems.taxName,
+          })
+          .from(draftOrderItems)
+          .where(eq(draftOrderItems.draftOrderId, draft.id));
+        const itemTaxById = new Map(draftItemTaxes.map((t) => [t.id, t]));
+
         // Step 1: Create new Order record
         const newOrder = await tx
           .insert(orders)
@@ -1007,6 +1022,8 @@ async function completeDraftOrderInternal(
             discountAmount: draft.discountAmount,
             shippingAmount: draft.shippingAmount,
             taxAmount: draft.taxAmount,
+            taxInclusive: draftTax?.taxInclusive ?? false,
+            taxBreakdown: draftTax?.taxBreakdown ?? null,
             totalAmount: draft.totalAmount,
             status: "open",
             paymentStatus: markAsPaid ? "paid" : "pending",
@@ -1048,6 +1065,7 @@ async function completeDraftOrderInternal(
 
         // Step 2: Copy line items from draft to order
         for (const item of draft.items) {
+          const itemTax = itemTaxById.get(item.id);
           await tx.insert(orderItems).values({
             orderId: orderId,
             listingId: item.listingId || null,
@@ -1059,8 +1077,10 @@ async function completeDraftOrderInternal(
             currency: item.currency,
             lineSubtotal: item.lineSubtotal,
             lineTotal: item.lineTotal,
-            discountAmount: "0",
-            taxAmount: "0",
+            discountAmount: itemTax?.discountAmount || "0",
+            taxAmount: itemTax?.taxAmount || "0",
+            taxRate: itemTax?.taxRate ?? null,
+            taxName: itemTax?.taxName ?? null,
           });
         }
 
@@ -1401,6 +1421,8 @@ export async function sendInvoice(
       return { success: false, error: "Unauthorized" };
     }
 
+    await requirePermission(session, "orders.manage");
+
     const { storeId, isAdmin } = await getStoreIdForUser();
 
     // Validate draftId
@@ -1560,6 +1582,8 @@ export async function markDraftOrderAsPaid(
       return { success: false, error: "Unauthorized" };
     }
 
+    await requirePermission(session, "orders.manage");
+
     const { storeId, isAdmin } = await getStoreIdForUser();
 
     // Validate draftId
@@ -1646,6 +1670,8 @@ export async function updateDraftOrderItems(
       return { success: false, error: "Unauthorized" };
     }
 
+    await requirePermission(session, "orders.manage");
+
     const { storeId, isAdmin } = await getStoreIdForUser();
 
     // Validate draftId
@@ -1665,6 +1691,8 @@ export async function updateDraftOrderItems(
         shippingAmount: draftOrders.shippingAmount,
         taxAmount: draftOrders.taxAmount,
         totalAmount: draftOrders.totalAmount,
+        shippingCountry: draftOrders.shippingCountry,
+        shippingRegion: draftOrders.shippingRegion,
       })
       .from(draftOrders)
       .where(eq(draftOrders.id, draftId))
@@ -1714,96 +1742,60 @@ export async function updateDraftOrderItems(
         );
       }
 
-      // Update or insert items
-      for (const item of items) {
-        // Get listing and variant info
-        const listingData = await tx
-          .select({
-            name: listing.name,
-            imageUrl: listing.imageUrl,
-          })
-          .from(listing)
-          .where(eq(listing.id, item.listingId))
-          .limit(1);
-
-        if (listingData.length === 0) {
-          continue; // Skip invalid listings
-        }
-
-        const listingInfo = listingData[0];
-        let variantInfo = null;
-        if (item.variantId) {
-          const variantData = await tx
-            .select({
-              title: listingVariants.title,
-              sku: listingVariants.sku,
-              price: listingVariants.price,
-              imageUrl: listingVariants.imageUrl,
-            })
-            .from(listingVariants)
-            .where(eq(listingVariants.id, item.variantId))
-            .limit(1);
-          variantInfo = variantData[0] || null;
-        }
-
-        const unitPrice = variantInfo?.price || "0";
-        const lineSubtotal = (parseFloat(unitPrice) * item.quantity).toFixed(2);
-        const lineTotal = lineSubtotal; // No discount for now
+      const priced = await priceCheckout({
+        currency: draft.currency,
+        lineItems: items,
+        shippingCountry: draft.shippingCountry,
+        shippingRegion: draft.shippingRegion,
+        manualDiscountAmount: parseFloat(draft.discountAmount || "0"),
+        manualShippingAmount: parseFloat(draft.shippingAmount || "0"),
+      });
 
-        const title = variantInfo
-          ? `${listingInfo.name} - ${variantInfo.title}`
-          : listingInfo.name;
-        const sku = variantInfo?.sku || null;
+      // Update or insert items
+      for (const [index, item] of items.entries()) {
+        const line = priced.lines[index];
+        const values = {
+          quantity: line.quantity,
+          unitPrice: line.unitPrice.toFixed(2),
+          lineSubtotal: line.lineSubtotal.toFixed(2),
+          lineTotal: line.lineTotal.toFixed(2),
+          discountAmount: line.discountAmount.toFixed(2),
+          taxAmount: line.taxAmount.toFixed(2),
+          taxRate: line.taxRate?.toFixed(3) ?? null,
+          taxName: line.taxName,
+        };
 
         if (item.id) {
           // Update existing item
           await tx
             .update(draftOrderItems)
-            .set({
-              quantity: item.quantity,
-              unitPrice: unitPrice,
-              lineSubtotal: lineSubtotal,
-              lineTotal: lineTotal,
-            })
+            .set(values)
             .where(eq(draftOrderItems.id, item.id));
         } else {
           // Insert new item
           await tx.insert(draftOrderItems).values({
             draftOrderId: draftId,
-            listingId: item.listingId,
-            variantId: item.variantId || null,
-            title: title,
-            sku: sku,
-            quantity: item.quantity,
-            unitPrice: unitPrice,
-            currency: draft.currency,
-            lineSubtotal: lineSubtotal,
-            lineTotal: lineTotal,
+            listingId: line.listingId,
+            variantId: line.variantId,
+            title: line.title,
+            sku: line.sku,
+            currency: priced.currency,
+            ...values,
           });
         }
       }
 
-      // Recalculate draft totals
-      const allItems = await tx
-        .select()
-        .from(draftOrderItems)
-        .where(eq(draftOrderItems.draftOrderId, draftId));
-
-      const newSubtotal = allItems.reduce(
-        (sum, item) => sum + parseFloat(item.lineSubtotal || "0"),
-        0
-      );
-      const discount = parseFloat(draft.discountAmount || "0");
-      const shipping = parseFloat(draft.shippingAmount || "0");
-      const tax = parseFloat(draft.taxAmount || "0");
-      const total = newSubtotal - discount + shipping + tax;
-
       // Update draft totals
       await tx
         .update(draftOrders)
         .set({
-          subtotalAmount: newSubtotal.toFixed(2),
-          totalAmount: total.toFixed(2),
+          subtotalAmount: priced.subtotal.toFixed(2),
+          discountAmount: priced.discount.toFixed(2),
+          shippingAmount: priced.shipping.toFixed(2),
+          taxAmount: priced.tax.toFixed(2),
+          taxInclusive: priced.taxInclusive,
+          taxBreakdown: priced.taxBreakdown,
+          totalAmount: priced.total.toFixed(2),
           updatedAt: new Date(),
         })
         .where(eq(draftOrders.id, draftId));
@@ -1871,6 +1863,7 @@ export async function createDraftOrder(input: {
   error?: string;
 }> {
   try {
+    await requireCurrentPermission("orders.manage");
     const { storeId, isAdmin, error: storeError } = await getStoreIdForUser();
 
     if (storeError) {
@@ -1927,6 +1920,17 @@ export async function createDraftOrder(input: {
 
     const userMarketId = userData.length > 0 ? userData[0].marketId : null;
 
+    // Catalog prices are authoritative; seller-entered discount/shipping are kept
+    const priced = await priceCheckout({
+      currency: input.currency,
+      lineItems: input.lineItems,
+      shippingCountry: input.shippingCountry,
+      shippingRegion: input.shippingRegion,
+      manualDiscountAmount: parseFloat(input.discountAmount || "0"),
+      manualShippingAmount: parseFloat(input.shippingAmount || "0"),
+    });
+    reconcileClientTotals(priced, input, "reconcile", "createDraftOrder");
+
     // Use transaction to create draft and items
     return await db.transaction(async (tx) => {
       // Determine storeId (for admins, get from line items)
@@ -2076,12 +2080,14 @@ export async function createDraftOrder(input: {
           customerEmail: input.customerEmail,
           customerFirstName: input.customerFirstName,
           customerLastName: input.customerLastName,
-          currency: input.currency,
-          subtotalAmount: input.subtotalAmount,
-          discountAmount: input.discountAmount,
-          shippingAmount: input.shippingAmount,
-          taxAmount: input.taxAmount,
-          totalAmount: input.totalAmount,
+          currency: priced.currency,
+          subtotalAmount: priced.subtotal.toFixed(2),
+          discountAmount: priced.discount.toFixed(2),
+          shippingAmount: priced.shipping.toFixed(2),
+          taxAmount: priced.tax.toFixed(2),
+          taxInclusive: priced.taxInclusive,
+          taxBreakdown: priced.taxBreakdown,
+          totalAmount: priced.total.toFixed(2),
           paymentStatus: input.paymentStatus || "pending",
           shippingName: input.shippingName,
           shippingPhone: input.shippingPhone,
@@ -2109,25 +2115,22 @@ export async function createDraftOrder(input: {
       const returnedDraftNumber = newDraft[0].draftNumber;
 
       // Create draft items
-      for (const item of input.lineItems) {
-        const lineSubtotal = (
-          parseFloat(item.unitPrice) * item.quantity
-        ).toFixed(2);
-        const lineTotal = lineSubtotal;
-
+      for (const line of priced.lines) {
         await tx.insert(draftOrderItems).values({
           draftOrderId: draftId,
-          listingId: item.listingId,
-          variantId: item.variantId || null,
-          title: item.title,
-          sku: item.sku || null,
-          quantity: item.quantity,
-          unitPrice: item.unitPrice,
-          currency: input.currency,
-          lineSubtotal: lineSubtotal,
-          lineTotal: lineTotal,
-          discountAmount: "0",
-          taxAmount: "0",
+          listingId: line.listingId,
+          variantId: line.variantId,
+          title: line.title,
+          sku: line.sku,
+          quantity: line.quantity,
+          unitPrice: line.unitPrice.toFixed(2),
+          currency: priced.currency,
+          lineSubtotal: line.lineSubtotal.toFixed(2),
+          lineTotal: line.lineTotal.toFixed(2),
+          discountAmount: line.discountAmount.toFixed(2),
+          taxAmount: line.taxAmount.toFixed(2),
+          taxRate: line.taxRate?.toFixed(3) ?? null,
+          taxName: line.taxName,
         });
       }
 
@@ -2164,6 +2167,8 @@ export async function duplicateDraftOrder(draftId: string): Promise<{
       return { success: false, error: "Unauthorized" };
     }
 
+    await requirePermission(session, "orders.manage");
+
     const { storeId, isAdmin } = await getStoreIdForUser();
 
     // Validate draftId
@@ -2319,6 +2324,8 @@ export async function updateDraftOrder(
       return { success: false, error: "Unauthorized" };
     }
 
+    await requirePermission(session, "orders.manage");
+
     const { storeId, isAdmin } = await getStoreIdForUser();
 
     // Validate draftId
@@ -2356,6 +2363,16 @@ export async function updateDraftOrder(
       };
     }
 
+    const priced = await priceCheckout({
+      currency: input.currency,
+      lineItems: input.lineItems,
+      shippingCountry: input.shippingCountry,
+      shippingRegion: input.shippingRegion,
+      manualDiscountAmount: parseFloat(input.discountAmount || "0"),
+      manualShippingAmount: parseFloat(input.shippingAmount || "0"),
+    });
+    reconcileClientTotals(priced, input, "reconcile", "updateDraftOrder");
+
     // Use transaction to update draft and items
     await db.transaction(async (tx) => {
       // Update draft order
@@ -2366,12 +2383,14 @@ export async function updateDraftOrder(
           customerEmail: input.customerEmail,
           customerFirstName: input.customerFirstName,
           customerLastName: input.customerLastName,
-          currency: input.currency,
-          subtotalAmount: input.subtotalAmount,
-          discountAmount: input.discountAmount,
-          shippingAmount: input.shippingAmount,
-          taxAmount: input.taxAmount,
-          totalAmount: input.totalAmount,
+          currency: priced.currency,
+          subtotalAmount: priced.subtotal.toFixed(2),
+          discountAmount: priced.discount.toFixed(2),
+          shippingAmount: priced.shipping.toFixed(2),
+          taxAmount: priced.tax.toFixed(2),
+          taxInclusive: priced.taxInclusive,
+          taxBreakdown: priced.taxBreakdown,
+          totalAmount: priced.total.toFixed(2),
           paymentStatus: input.paymentStatus || "pending",
           shippingName: input.shippingName,
           shippingPhone: input.shippingPhone,
@@ -2417,66 +2436,35 @@ export async function updateDraftOrder(
       }
 
       // Update or insert items
-      for (const item of input.lineItems) {
-        const listingData = await tx
-          .select({
-            name: listing.name,
-            imageUrl: listing.imageUrl,
-          })
-          .from(listing)
-          .where(eq(listing.id, item.listingId))
-          .limit(1);
-
-        if (listingData.length === 0) {
-          continue;
-        }
-
-        const variantData = item.variantId
-          ? await tx
-              .select({
-                title: listingVariants.title,
-                imageUrl: listingVariants.imageUrl,
-                sku: listingVariants.sku,
-              })
-              .from(listingVariants)
-              .where(eq(listingVariants.id, item.variantId))
-              .limit(1)
-          : [];
-
-        const variant = variantData.length > 0 ? variantData[0] : null;
-        const itemTitle = variant
-          ? `${listingData[0].name} - ${variant.title}`
-          : listingData[0].name;
-        const itemSku = variant?.sku || item.sku;
+      for (const [index, item] of input.lineItems.entries()) {
+        const line = priced.lines[index];
+        const values = {
+          listingId: line.listingId,
+          variantId: line.variantId,
+          quantity: line.quantity,
+          unitPrice: line.unitPrice.toFixed(2),
+          title: line.title,
+          sku: line.sku || item.sku,
+          lineSubtotal: line.lineSubtotal.toFixed(2),
+          lineTotal: line.lineTotal.toFixed(2),
+          discountAmount: line.discountAmount.toFixed(2),
+          taxAmount: line.taxAmount.toFixed(2),
+          taxRate: line.taxRate?.toFixed(3) ?? null,
+          taxName: line.taxName,
+        };
 
         if (item.id && existingItemIds.has(item.id)) {
           // Update existing item
           await tx
             .update(draftOrderItems)
-            .set({
-              listingId: item.listingId,
-              variantId: item.variantId,
-              quantity: item.quantity,
-              unitPrice: item.unitPrice,
-              title: itemTitle,
-              sku: itemSku,
-            })
+            .set(values)
             .where(eq(draftOrderItems.id, item.id));
         } else {
           // Insert new item
           await tx.insert(draftOrderItems).values({
             draftOrderId: draftId,
-            listingId: item.listingId,
-            variantId: item.variantId,
-            quantity: item.quantity,
-            unitPrice: item.unitPrice,
-            title: itemTitle,
-            sku: itemSku,
-            currency: input.currency,
-            lineSubtotal: (parseFloat(item.unitPrice) * item.quantity).toFixed(
-              2
-            ),
-            lineTotal: (parseFloat(item.unitPrice) * item.quantity).toFixed(2),
+            currency: priced.currency,
+            ...values,
           });
         }
       }
@@ -84,7 +84,7 @@ export async function getAllFaqSections(): Promise<
   ActionResponse & { result?: FaqSectionData[] }
 > {
   try {
-    await getCurrentAdmin();
+    await getCurrentAdmin("platform.content");
 
     const sections = await db
       .select({
@@ -139,7 +139,7 @@ export async function getFaqSectionWithItems(
   sectionId: number
 ): Promise<ActionResponse & { result?: FaqSectionWithItems }> {
   try {
-    await getCurrentAdmin();
+    await getCurrentAdmin("platform.content");
 
     const section = await db
       .select({
@@ -220,7 +220,7 @@ export async function createFaqSection(
   input: CreateFaqSectionInput
 ): Promise<ActionResponse & { result?: FaqSectionData }> {
   try {
-    await getCurrentAdmin();
+    await getCurrentAdmin("platform.content");
 
     // Translate title to all locales
     const titleTranslations = await translateToAllLocales(input.title);
@@ -273,7 +273,7 @@ export async function updateFaqSection(
   input: UpdateFaqSectionInput
 ): Promise<ActionResponse & { result?: FaqSectionData }> {
   try {
-    await getCurrentAdmin();
+    await getCurrentAdmin("platform.content");
 
     const updateData: {
       slug?: string;
@@ -359,7 +359,7 @@ export async function deleteFaqSection(
   sectionId: number
 ): Promise<ActionResponse> {
   try {
-    await getCurrentAdmin();
+    await getCurrentAdmin("platform.content");
 
     await db.delete(faqSections).where(eq(faqSections.id, sectionId));
 
@@ -408,7 +408,7 @@ export async function createFaqItem(
   input: CreateFaqItemInput
 ): Promise<ActionResponse & { result?: FaqItemData }> {
   try {
-    await getCurrentAdmin();
+    await getCurrentAdmin("platform.content");
 
     // Translate question and answer to all locales
     const questionTranslations = await translateToAllLocales(input.question);
@@ -468,7 +468,7 @@ export async function updateFaqItem(
   input: UpdateFaqItemInput
 ): Promise<ActionResponse & { result?: FaqItemData }> {
   try {
-    await getCurrentAdmin();
+    await getCurrentAdmin("platform.content");
 
     const updateData: {
       order?: number;
@@ -626,7 +626,7 @@ export async function updateFaqItem(
 // Delete FAQ item
 export async function deleteFaqItem(itemId: number): Promise<ActionResponse> {
   try {
-    await getCurrentAdmin();
+    await getCurrentAdmin("platform.content");
 
     await db.delete(faqItems).where(eq(faqItems.id, itemId));
 
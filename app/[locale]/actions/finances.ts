@@ -11,6 +11,14 @@ import { eq, desc, and, or, gte, lte, ilike, sql } from "drizzle-orm";
 import { getStoreIdForUser } from "./store-id";
 import { revalidatePath } from "next/cache";
 import type { InferSelectModel } from "drizzle-orm";
+import {
+  getStorePlatformFee,
+  type StorePlatformFee,
+} from "@/lib/platform-fees";
+import {
+  isPermissionDeniedError,
+  requireCurrentPermission,
+} from "@/lib/permissions";
 
 type BalanceTransactionType = InferSelectModel<
   typeof sellerBalanceTransactions
@@ -49,8 +57,30 @@ export type WalletSummary = {
   lastPayoutAmount: number | null;
   stripeConnectedAvailable: number | null;
   stripeConnectedPending: number | null;
+  platformFee: StorePlatformFee | null; // Fee schedule applied to new orders
 };
 
+/**
+ * The current user's store, if they may view its finances
+ */
+async function getFinancesStoreId(): Promise<
+  { storeId: string } | { error: string }
+> {
+  const { storeId } = await getStoreIdForUser();
+  if (!storeId) {
+    return { error: "Store not found" };
+  }
+  try {
+    await requireCurrentPermission("finances.view", { storeId });
+  } catch (error) {
+    if (isPermissionDeniedError(error)) {
+      return { error: error.message };
+    }
+    throw error;
+  }
+  return { storeId };
+}
+
 /**
  * Get comprehensive balance summary: two wallets per seller (EUR, NPR).
  * Returns data.wallets.EUR and data.wallets.NPR.
@@ -62,10 +92,11 @@ export async function getBalanceSummary(): Promise<
       data: { wallets: { EUR: WalletSummary; NPR: WalletSummary } };
     }
 > {
-  const { storeId } = await getStoreIdForUser();
-  if (!storeId) {
-    return { success: false, error: "Store not found" };
+  const access = await getFinancesStoreId();
+  if ("error" in access) {
+    return { success: false, error: access.error };
   }
+  const { storeId } = access;
 
   const balanceRows = await db
     .select()
@@ -84,6 +115,7 @@ export async function getBalanceSummary(): Promise<
       lastPayoutAmount: null,
       stripeConnectedAvailable: null,
       stripeConnectedPending: null,
+      platformFee: null,
     },
     NPR: {
       availableBalance: 0,
@@ -96,6 +128,7 @@ export async function getBalanceSummary(): Promise<
       lastPayoutAmount: null,
       stripeConnectedAvailable: null,
       stripeConnectedPending: null,
+      platformFee: null,
     },
   };
 
@@ -174,9 +207,21 @@ export async function getBalanceSummary(): Promise<
         : null,
       stripeConnectedAvailable: stripeConnectedAvailable ?? null,
       stripeConnectedPending: stripeConnectedPending ?? null,
+      platformFee: null,
     };
   }
 
+  try {
+    const [eurFee, nprFee] = await Promise.all([
+      getStorePlatformFee(storeId, "EUR"),
+      getStorePlatformFee(storeId, "NPR"),
+    ]);
+    wallets.EUR.platformFee = eurFee;
+    wallets.NPR.platformFee = nprFee;
+  } catch (error) {
+    console.error("[Balance Summary] Error resolving platform fee:", error);
+  }
+
   return { success: true, data: { wallets } };
 }
 
@@ -193,10 +238,11 @@ export async function getRecentActivity(
     search?: string;
   }
 ) {
-  const { storeId } = await getStoreIdForUser();
-  if (!storeId) {
-    return { success: false, error: "Store not found" };
+  const access = await getFinancesStoreId();
+  if ("error" in access) {
+    return { success: false, error: access.error };
   }
+  const { storeId } = access;
 
   // Build conditions array
   const conditions = [eq(sellerBalanceTransactions.storeId, storeId)];
@@ -269,10 +315,11 @@ export async function exportTransactionsAsCSV(filters?: {
   dateTo?: Date;
   search?: string;
 }) {
-  const { storeId } = await getStoreIdForUser();
-  if (!storeId) {
-    return { success: false, error: "Store not found" };
+  const access = await getFinancesStoreId();
+  if ("error" in access) {
+    return { success: false, error: access.error };
   }
+  const { storeId } = access;
 
   // Build conditions array (same as getRecentActivity)
   const conditions = [eq(sellerBalanceTransactions.storeId, storeId)];
@@ -370,10 +417,11 @@ function getTransactionDescription(type: string): string {
  * Get payout settings
  */
 export async function getPayoutSettings() {
-  const { storeId } = await getStoreIdForUser();
-  if (!storeId) {
-    return { success: false, error: "Store not found" };
+  const access = await getFinancesStoreId();
+  if ("error" in access) {
+    return { success: false, error: access.error };
   }
+  const { storeId } = access;
 
   // Query only base columns that definitely exist (from migration 0054)
   // Optional columns (hold_period_days, next_payout_at) from migration 0055 may not exist
@@ -623,6 +671,7 @@ export async function updatePayoutSettings(params: {
   }
 
   try {
+    await requireCurrentPermission("store.settings");
     // Try to get existing settings with all columns
     let existing: PayoutSettingsRow | PayoutSettingsRawRow | null = null;
     try {
@@ -135,7 +135,7 @@ export async function getAllHeroSlides(): Promise<
   ActionResponse & { result?: HeroSlide[] }
 > {
   try {
-    await getCurrentAdmin();
+    await getCurrentAdmin("platform.content");
 
     // Fetch hero slides with English translations (admin dashboard uses English)
     const slides = await db
@@ -306,7 +306,7 @@ export async function createHeroSlide(
   data: CreateHeroSlideData
 ): Promise<ActionResponse> {
   try {
-    await getCurrentAdmin();
+    await getCurrentAdmin("platform.content");
 
     let imageUrl = data.imageUrl;
 
@@ -418,7 +418,7 @@ export async function updateHeroSlide(
   data: UpdateHeroSlideData
 ): Promise<ActionResponse> {
   try {
-    await getCurrentAdmin();
+    await getCurrentAdmin("platform.content");
 
     const updateData: Partial<typeof homepageHero.$inferInsert> = {};
 
@@ -589,7 +589,7 @@ export async function updateHeroSlide(
 
 export async function deleteHeroSlide(id: string): Promise<ActionResponse> {
   try {
-    await getCurrentAdmin();
+    await getCurrentAdmin("platform.content");
 
     // Get the slide to get the image URL for Cloudinary deletion
     const slide = await db
@@ -657,7 +657,7 @@ export async function getAboutSection(): Promise<
   ActionResponse & { result?: AboutSection | null }
 > {
   try {
-    await getCurrentAdmin();
+    await getCurrentAdmin("platform.content");
 
     // Fetch about section with English translations (admin dashboard uses English)
     const about = await db
@@ -824,7 +824,7 @@ export async function createAboutSection(
   data: CreateAboutData
 ): Promise<ActionResponse> {
   try {
-    await getCurrentAdmin();
+    await getCurrentAdmin("platform.content");
 
     let assetUrl = data.assetUrl;
 
@@ -888,7 +888,7 @@ export async function updateAboutSection(
   data: UpdateAboutData
 ): Promise<ActionResponse> {
   try {
-    await getCurrentAdmin();
+    await getCurrentAdmin("platform.content");
 
     const updateData: Partial<typeof homepageAbout.$inferInsert> = {};
 
@@ -1023,7 +1023,7 @@ export async function getBenefitsSection(): Promise<
   ActionResponse & { result?: BenefitsSection | null }
 > {
   try {
-    await getCurrentAdmin();
+    await getCurrentAdmin("platform.content");
 
     // Fetch benefits section with English translations (admin dashboard uses English)
     const benefits = await db
@@ -1187,7 +1187,7 @@ export async function createBenefitsSection(
   data: CreateBenefitsData
 ): Promise<ActionResponse> {
   try {
-    await getCurrentAdmin();
+    await getCurrentAdmin("platform.content");
 
     // Deactivate existing benefits sections
     await db
@@ -1243,7 +1243,7 @@ export async function updateBenefitsSection(
   data: UpdateBenefitsData
 ): Promise<ActionResponse> {
   try {
-    await getCurrentAdmin();
+    await getCurrentAdmin("platform.content");
 
     const updateData: Partial<typeof homepageBenefits.$inferInsert> = {};
     if (data.isActive !== undefined) updateData.isActive = data.isActive;
@@ -11,12 +11,11 @@ import {
   user,
   store,
   storeMembers,
-  userRoles,
-  roles,
 } from "@/db/schema";
 import { eq, and, sql, or, desc, inArray } from "drizzle-orm";
 import { auth } from "@/lib/auth";
 import { headers } from "next/headers";
+import { getMemberStoreIds, requirePermission } from "@/lib/permissions";
 
 export type InventoryRow = {
   inventoryLevelId: string;
@@ -48,6 +47,39 @@ export type InventoryFilters = {
   pageSize?: number;
 };
 
+/**
+ * Store that owns an inventory level (through its location)
+ */
+async function getLevelStoreId(inventoryLevelId: string) {
+  const [row] = await db
+    .select({ storeId: inventoryLocations.storeId })
+    .from(inventoryLevels)
+    .innerJoin(
+      inventoryLocations,
+      eq(inventoryLevels.locationId, inventoryLocations.id)
+    )
+    .where(eq(inventoryLevels.id, inventoryLevelId))
+    .limit(1);
+  return row?.storeId ?? null;
+}
+
+/**
+ * Store that owns an inventory item (through its product)
+ */
+async function getItemStoreId(inventoryItemId: string) {
+  const [row] = await db
+    .select({ storeId: listing.storeId })
+    .from(inventoryItems)
+    .innerJoin(
+      listingVariants,
+      eq(inventoryItems.variantId, listingVariants.id)
+    )
+    .innerJoin(listing, eq(listingVariants.listingId, listing.id))
+    .where(eq(inventoryItems.id, inventoryItemId))
+    .limit(1);
+  return row?.storeId ?? null;
+}
+
 /**
  * Fetch inventory rows for a store with optional filters
  */
@@ -68,18 +100,10 @@ export async function getInventoryRows(
       return { success: false, error: "Unauthorized" };
     }
 
-    // Check if user is admin
-    const userRole = await db
-      .select({
-        roleName: roles.name,
-      })
-      .from(userRoles)
-      .innerJoin(roles, eq(userRoles.roleId, roles.id))
-      .where(eq(userRoles.userId, session.user.id))
-      .limit(1);
-
-    const isAdmin =
-      userRole.length > 0 && userRole[0].roleName.toLowerCase() === "admin";
+    const { allStores: isAdmin } = await requirePermission(
+      session,
+      "inventory.manage"
+    );
 
     // Build where conditions
     const conditions: Array<ReturnType<typeof eq>> = [];
@@ -260,18 +284,10 @@ export async function getStoreLocations(): Promise<{
       return { success: false, error: "Unauthorized" };
     }
 
-    // Check if user is admin
-    const userRole = await db
-      .select({
-        roleName: roles.name,
-      })
-      .from(userRoles)
-      .innerJoin(roles, eq(userRoles.roleId, roles.id))
-      .where(eq(userRoles.userId, session.user.id))
-      .limit(1);
-
-    const isAdmin =
-      userRole.length > 0 && userRole[0].roleName.toLowerCase() === "admin";
+    const { allStores: isAdmin } = await requirePermission(
+      session,
+      "inventory.manage"
+    );
 
     let locations;
 
@@ -352,6 +368,10 @@ export async function adjustInventoryQuantity(
       return { success: false, error: "Unauthorized" };
     }
 
+    await requirePermission(session, "inventory.manage", {
+      storeId: await getLevelStoreId(inventoryLevelId),
+    });
+
     // Validate input
     if (newAvailable < 0) {
       return { success: false, error: "Quantity cannot be negative" };
@@ -443,6 +463,10 @@ export async function updateCostPerItem(
       return { success: false, error: "Unauthorized" };
     }
 
+    await requirePermission(session, "inventory.manage", {
+      storeId: await getItemStoreId(inventoryItemId),
+    });
+
     // Validate input
     if (newCost < 0) {
       return { success: false, error: "Cost cannot be negative" };
@@ -497,6 +521,10 @@ export async function updateIncomingQuantity(
       return { success: false, error: "Unauthorized" };
     }
 
+    await requirePermission(session, "inventory.manage", {
+      storeId: await getLevelStoreId(inventoryLevelId),
+    });
+
     // Validate input
     if (newIncoming < 0) {
       return { success: false, error: "Quantity cannot be negative" };
@@ -601,19 +629,6 @@ export async function deleteInventoryLevel(inventoryLevelId: string): Promise<{
       return { success: false, error: "Unauthorized" };
     }
 
-    // Check if user is admin
-    const userRole = await db
-      .select({
-        roleName: roles.name,
-      })
-      .from(userRoles)
-      .innerJoin(roles, eq(userRoles.roleId, roles.id))
-      .where(eq(userRoles.userId, session.user.id))
-      .limit(1);
-
-    const isAdmin =
-      userRole.length > 0 && userRole[0].roleName.toLowerCase() === "admin";
-
     // Get inventory level with related data to check ownership and get IDs
     const inventoryLevelData = await db
       .select({
@@ -640,19 +655,8 @@ export async function deleteInventoryLevel(inventoryLevelId: string): Promise<{
 
     const { inventoryItemId, variantId, storeId } = inventoryLevelData[0];
 
-    // Only admin can delete any inventory, or user can delete their own
-    if (!isAdmin) {
-      const storeResult = await db
-        .select({ id: store.id })
-        .from(storeMembers)
-        .innerJoin(store, eq(storeMembers.storeId, store.id))
-        .where(eq(storeMembers.userId, session.user.id))
-        .limit(1);
-
-      if (storeResult.length === 0 || storeId !== storeResult[0].id) {
-        return { success: false, error: "Unauthorized" };
-      }
-    }
+    // Members of the owning store only, unless the user has every store
+    await requirePermission(session, "inventory.manage", { storeId });
 
     // Delete the inventory level and cascade cleanup
     await db.transaction(async (tx) => {
@@ -729,32 +733,15 @@ export async function getInventoryUpdates(
       return { success: false, error: "Unauthorized" };
     }
 
-    // Get user role and store
-    const userRoleData = await db
-      .select({
-        roleName: roles.name,
-        storeId: store.id,
-      })
-      .from(userRoles)
-      .innerJoin(roles, eq(userRoles.roleId, roles.id))
-      .leftJoin(storeMembers, eq(storeMembers.userId, userRoles.userId))
-      .leftJoin(store, eq(storeMembers.storeId, store.id))
-      .where(eq(userRoles.userId, session.user.id))
-      .limit(1);
-
-    if (userRoleData.length === 0) {
-      return { success: false, error: "User role not found" };
-    }
-
-    const userRole = userRoleData[0].roleName;
-    const storeId = userRoleData[0].storeId;
+    const { allStores } = await requirePermission(session, "inventory.manage");
 
     // Build conditions
     const conditions = [];
 
-    // Filter by store for sellers
-    if (userRole !== "admin" && storeId) {
-      conditions.push(eq(listing.storeId, storeId));
+    // Filter by the user's stores unless they have every store
+    if (!allStores) {
+      const storeIds = await getMemberStoreIds(session.user.id);
+      conditions.push(inArray(listing.storeId, storeIds));
     }
 
     // Filter by location if provided
@@ -842,6 +829,10 @@ export async function getAdjustmentHistory(
       return { success: false, error: "Unauthorized" };
     }
 
+    await requirePermission(session, "inventory.manage", {
+      storeId: await getItemStoreId(inventoryItemId),
+    });
+
     const adjustments = await db
       .select({
         id: inventoryAdjustments.id,
@@ -4,14 +4,14 @@ import { ActionResponse } from "@/lib/types";
 import { db } from "@/db";
 import {
   inventoryLocations,
+  purchaseOrders,
   store,
   storeMembers,
-  userRoles,
-  roles,
 } from "@/db/schema";
 import { eq, and } from "drizzle-orm";
 import { auth } from "@/lib/auth";
 import { headers } from "next/headers";
+import { requirePermission } from "@/lib/permissions";
 
 // Data type for creating/updating inventory locations
 // This is a DTO (Data Transfer Object) for input, not the full schema type
@@ -59,18 +59,11 @@ export async function getInventoryLocations(
       };
     }
 
-    // Check if user is admin
-    const userRole = await db
-      .select({
-        roleName: roles.name,
-      })
-      .from(userRoles)
-      .innerJoin(roles, eq(userRoles.roleId, roles.id))
-      .where(eq(userRoles.userId, session.user.id))
-      .limit(1);
-
-    const isAdmin =
-      userRole.length > 0 && userRole[0].roleName.toLowerCase() === "admin";
+    // Users who manage every store may pick any store's locations
+    const { allStores: isAdmin } = await requirePermission(
+      session,
+      "products.manage"
+    );
 
     let finalStoreId: string | null = null;
 
@@ -181,6 +174,8 @@ export async function createInventoryLocation(
       };
     }
 
+    await requirePermission(session, "inventory.manage");
+
     // Get store for current user
     const storeResult = await db
       .select({ id: store.id })
@@ -263,6 +258,8 @@ export async function getAllInventoryLocations(): Promise<
       };
     }
 
+    await requirePermission(session, "inventory.manage");
+
     // Get store for current user
     const storeResult = await db
       .select({ id: store.id })
@@ -336,6 +333,8 @@ export async function updateInventoryLocation(
       };
     }
 
+    await requirePermission(session, "inventory.manage");
+
     // Get store for current user
     const storeResult = await db
       .select({ id: store.id })
@@ -427,6 +426,8 @@ export async function deleteInventoryLocation(
       };
     }
 
+    await requirePermission(session, "inventory.manage");
+
     // Get store for current user
     const storeResult = await db
       .select({ id: store.id })
@@ -468,6 +469,21 @@ export async function deleteInventoryLocation(
       };
     }
 
+    // Purchase orders keep their destination for receiving and history
+    const [purchaseOrder] = await db
+      .select({ id: purchaseOrders.id })
+      .from(purchaseOrders)
+      .where(eq(purchaseOrders.locationId, locationId))
+      .limit(1);
+
+    if (purchaseOrder) {
+      return {
+        success: false,
+        error:
+          "This location has purchase orders. Deactivate it instead of deleting it.",
+      };
+    }
+
     await db
       .delete(inventoryLocations)
       .where(eq(inventoryLocations.id, locationId));
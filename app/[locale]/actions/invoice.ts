@@ -5,6 +5,7 @@ import { orders, orderItems, store, orderShippingRates } from "@/db/schema";
 import { eq } from "drizzle-orm";
 import { PDFDocument, rgb, StandardFonts } from "pdf-lib";
 import { v2 as cloudinary } from "cloudinary";
+import { summarizeTaxBreakdown, type TaxBreakdownEntry } from "@/lib/tax";
 
 // Configure Cloudinary
 cloudinary.config({
@@ -62,6 +63,7 @@ async function generateInvoicePdf(
     discountAmount: string;
     shippingAmount: string;
     taxAmount: string;
+    taxInclusive: boolean;
     totalAmount: string;
     placedAt: Date | null;
     shippingName: string | null;
@@ -88,7 +90,8 @@ async function generateInvoicePdf(
     carrier: string;
     service: string;
     rate: string;
-  }>
+  }>,
+  taxBreakdown: TaxBreakdownEntry[] = []
 ): Promise<{ secureUrl: string; publicId: string }> {
   try {
     console.log("Creating PDFDocument with pdf-lib...");
@@ -316,10 +319,29 @@ async function generateInvoicePdf(
     }
 
     if (parseFloat(order.taxAmount) > 0) {
-      addText("Tax:", totalsX, currentY, 10);
+      addText(
+        order.taxInclusive ? "Tax (included):" : "Tax:",
+        totalsX,
+        currentY,
+        10
+      );
       const taxText = `${parseFloat(order.taxAmount).toFixed(2)} ${order.currency}`;
       addText(taxText, totalsX + totalsWidth - 80, currentY, 10);
       currentY -= itemHeight;
+
+      // Breakdown by rate, e.g. "Finland VAT 14% on 35.09 EUR"
+      for (const entry of taxBreakdown) {
+        const rate = parseFloat(entry.rate);
+        addText(
+          `  ${entry.name} ${rate}% on ${parseFloat(entry.taxableAmount).toFixed(2)}:`,
+          totalsX - 100,
+          currentY,
+          9
+        );
+        const entryText = `${parseFloat(entry.taxAmount).toFixed(2)} ${order.currency}`;
+        addText(entryText, totalsX + totalsWidth - 80, currentY, 9);
+        currentY -= itemHeight;
+      }
     }
 
     // Total
@@ -436,6 +458,8 @@ export async function generateInvoiceForOrder(orderId: string): Promise<{
         discountAmount: orders.discountAmount,
         shippingAmount: orders.shippingAmount,
         taxAmount: orders.taxAmount,
+        taxInclusive: orders.taxInclusive,
+        taxBreakdown: orders.taxBreakdown,
         totalAmount: orders.totalAmount,
         placedAt: orders.placedAt,
         shippingName: orders.shippingName,
@@ -489,6 +513,9 @@ export async function generateInvoiceForOrder(orderId: string): Promise<{
         quantity: orderItems.quantity,
         unitPrice: orderItems.unitPrice,
         lineTotal: orderItems.lineTotal,
+        taxAmount: orderItems.taxAmount,
+        taxRate: orderItems.taxRate,
+        taxName: orderItems.taxName,
       })
       .from(orderItems)
       .where(eq(orderItems.orderId, orderId));
@@ -497,6 +524,21 @@ export async function generateInvoiceForOrder(orderId: string): Promise<{
       return { success: false, error: "Order has no items" };
     }
 
+    // Tax by rate: snapshot from checkout, else rebuilt from line allocations
+    const taxBreakdown =
+      order.taxBreakdown ??
+      summarizeTaxBreakdown(
+        items
+          .filter((item) => item.taxRate !== null)
+          .map((item) => ({
+            name: item.taxName || "Tax",
+            rate: parseFloat(item.taxRate!),
+            amount: parseFloat(item.lineTotal),
+            tax: parseFloat(item.taxAmount || "0"),
+          })),
+        order.taxInclusive
+      );
+
     // Get shipping rates for this order (per-vendor breakdown)
     const shippingRatesData = await db
       .select({
@@ -536,7 +578,8 @@ export async function generateInvoiceForOrder(orderId: string): Promise<{
         },
         items,
         storeData[0],
-        shippingRates.length > 0 ? shippingRates : undefined
+        shippingRates.length > 0 ? shippingRates : undefined,
+        taxBreakdown
       );
       invoicePdfUrl = pdfResult.secureUrl;
       invoicePublicId = pdfResult.publicId;
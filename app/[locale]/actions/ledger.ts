@@ -0,0 +1,221 @@
+"use server";
+
+import { db } from "@/db";
+import {
+  ledgerJournalEntries,
+  ledgerJournalLines,
+  ledgerReconciliationRuns,
+  type LedgerReconciliationRun,
+} from "@/db/schema";
+import { desc, eq, lt, sql } from "drizzle-orm";
+import { getCurrentAdmin } from "./admin";
+import { ActionResponse } from "@/lib/types";
+import {
+  LEDGER_ACCOUNTS,
+  postMissingJournalEntries,
+  reconcileLedgerWithStripe,
+  type LedgerAccount,
+} from "@/lib/ledger";
+
+export interface TrialBalanceAccount {
+  account: LedgerAccount;
+  name: string;
+  kind: (typeof LEDGER_ACCOUNTS)[LedgerAccount]["kind"];
+  opening: number;
+  debits: number;
+  credits: number;
+  closing: number;
+}
+
+export interface TrialBalance {
+  currency: string;
+  accounts: TrialBalanceAccount[];
+  totalDebits: number;
+  totalCredits: number;
+  balanced: boolean;
+}
+
+// "2026-01" -> [2026-01-01, 2026-02-01) in UTC
+function monthRange(month: string) {
+  const match = /^(\d{4})-(\d{2})$/.exec(month);
+  if (!match) return null;
+  const year = parseInt(match[1], 10);
+  const monthIndex = parseInt(match[2], 10) - 1;
+  if (monthIndex < 0 || monthIndex > 11) return null;
+  return {
+    start: new Date(Date.UTC(year, monthIndex, 1)),
+    end: new Date(Date.UTC(year, monthIndex + 1, 1)),
+  };
+}
+
+const round = (n: number) => Math.round(n * 100) / 100;
+
+// Month-end trial balance per currency (admin)
+export async function getLedgerTrialBalance(
+  month: string
+): Promise<ActionResponse & { result?: TrialBalance[] }> {
+  try {
+    await getCurrentAdmin("platform.finances");
+
+    const range = monthRange(month);
+    if (!range) {
+      return { success: false, error: "Month must be in YYYY-MM format" };
+    }
+    const { start, end } = range;
+    // Raw SQL params skip the column's date mapping, so pass ISO strings
+    const startAt = start.toISOString();
+
+    const rows = await db
+      .select({
+        currency: ledgerJournalEntries.currency,
+        account: ledgerJournalLines.account,
+        openingDebits: sql<string>`coalesce(sum(${ledgerJournalLines.debit}) filter (where ${ledgerJournalEntries.postedAt} < ${startAt}), 0)`,
+        openingCredits: sql<string>`coalesce(sum(${ledgerJournalLines.credit}) filter (where ${ledgerJournalEntries.postedAt} < ${startAt}), 0)`,
+        debits: sql<string>`coalesce(sum(${ledgerJournalLines.debit}) filter (where ${ledgerJournalEntries.postedAt} >= ${startAt}), 0)`,
+        credits: sql<string>`coalesce(sum(${ledgerJournalLines.credit}) filter (where ${ledgerJournalEntries.postedAt} >= ${startAt}), 0)`,
+      })
+      .from(ledgerJournalLines)
+      .innerJoin(
+        ledgerJournalEntries,
+        eq(ledgerJournalLines.entryId, ledgerJournalEntries.id)
+      )
+      .where(lt(ledgerJournalEntries.postedAt, end))
+      .groupBy(ledgerJournalEntries.currency, ledgerJournalLines.account);
+
+    const byCurrency = new Map<string, TrialBalance>();
+    for (const row of rows) {
+      const account = row.account as LedgerAccount;
+      const meta = LEDGER_ACCOUNTS[account];
+      if (!meta) continue;
+
+      // Assets and expenses carry debit balances, liabilities and revenue credit balances
+      const sign = meta.kind === "asset" || meta.kind === "expense" ? 1 : -1;
+      const opening =
+        sign * (parseFloat(row.openingDebits) - parseFloat(row.openingCredits));
+      const debits = parseFloat(row.debits);
+      const credits = parseFloat(row.credits);
+
+      const balance = byCurrency.get(row.currency) ?? {
+        currency: row.currency,
+        accounts: [],
+        totalDebits: 0,
+        totalCredits: 0,
+        balanced: true,
+      };
+      balance.accounts.push({
+        account,
+        name: meta.name,
+        kind: meta.kind,
+        opening: round(opening),
+        debits: round(debits),
+        credits: round(credits),
+        closing: round(opening + sign * (debits - credits)),
+      });
+      balance.totalDebits += debits;
+      balance.totalCredits += credits;
+      byCurrency.set(row.currency, balance);
+    }
+
+    const accountOrder = Object.keys(LEDGER_ACCOUNTS);
+    const result = Array.from(byCurrency.values())
+      .map((balance) => ({
+        ...balance,
+        accounts: balance.accounts.sort(
+          (a, b) =>
+            accountOrder.indexOf(a.account) - accountOrder.indexOf(b.account)
+        ),
+        totalDebits: round(balance.totalDebits),
+        totalCredits: round(balance.totalCredits),
+        balanced:
+          Math.round(balance.totalDebits * 100) ===
+          Math.round(balance.totalCredits * 100),
+      }))
+      .sort((a, b) => a.currency.localeCompare(b.currency));
+
+    return { success: true, result };
+  } catch (error) {
+    console.error("Error fetching trial balance:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Failed to fetch trial balance",
+    };
+  }
+}
+
+// Latest reconciliation runs (admin)
+export async function getLedgerReconciliationRuns(
+  limit = 20
+): Promise<ActionResponse & { result?: LedgerReconciliationRun[] }> {
+  try {
+    await getCurrentAdmin("platform.finances");
+
+    const runs = await db
+      .select()
+      .from(ledgerReconciliationRuns)
+      .orderBy(desc(ledgerReconciliationRuns.createdAt))
+      .limit(limit);
+
+    return { success: true, result: runs };
+  } catch (error) {
+    console.error("Error fetching reconciliation runs:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Failed to fetch reconciliation runs",
+    };
+  }
+}
+
+// Catch up on missing journal entries and reconcile a month against Stripe (admin)
+export async function runLedgerReconciliation(
+  month: string
+): Promise<ActionResponse & { result?: LedgerReconciliationRun }> {
+  try {
+    const admin = await getCurrentAdmin("platform.finances");
+
+    const range = monthRange(month);
+    if (!range) {
+      return { success: false, error: "Month must be in YYYY-MM format" };
+    }
+    const now = new Date();
+    if (range.start >= now) {
+      return { success: false, error: "This month hasn't started yet" };
+    }
+
+    await postMissingJournalEntries();
+    const run = await reconcileLedgerWithStripe({
+      from: range.start,
+      to: range.end < now ? range.end : now,
+      triggeredBy: admin.id,
+    });
+
+    if (run.status === "error") {
+      return {
+        success: false,
+        error: run.errorMessage || "Reconciliation failed",
+        result: run,
+      };
+    }
+
+    return {
+      success: true,
+      message:
+        run.status === "matched"
+          ? "Ledger matches Stripe"
+          : `Found ${run.issues?.length ?? 0} discrepancies`,
+      result: run,
+    };
+  } catch (error) {
+    console.error("Error reconciling ledger:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error ? error.message : "Failed to reconcile ledger",
+    };
+  }
+}
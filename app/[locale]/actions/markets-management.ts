@@ -1,11 +1,12 @@
 "use server";
 
 import { db } from "@/db";
-import { markets, userRoles, roles } from "@/db/schema";
+import { markets } from "@/db/schema";
 import { eq, and, desc, asc, like, or, ne } from "drizzle-orm";
 import { headers } from "next/headers";
 import { auth } from "@/lib/auth";
 import { ActionResponse } from "@/lib/types";
+import { requirePermission } from "@/lib/permissions";
 
 /**
  * List markets owned by the current user (admin or seller)
@@ -33,19 +34,7 @@ export async function listMarkets(search?: string): Promise<
       return { success: false, error: "Unauthorized" };
     }
 
-    // Verify user is admin or seller
-    const userRole = await db
-      .select({ roleName: roles.name })
-      .from(userRoles)
-      .innerJoin(roles, eq(userRoles.roleId, roles.id))
-      .where(eq(userRoles.userId, session.user.id))
-      .limit(1);
-
-    const roleName =
-      userRole.length > 0 ? userRole[0].roleName.toLowerCase() : "";
-    if (roleName !== "seller" && roleName !== "admin") {
-      return { success: false, error: "Unauthorized - Admin or Seller only" };
-    }
+    await requirePermission(session, "store.settings");
 
     // Build query with ownership filter
     const conditions = [eq(markets.createdBy, session.user.id)];
@@ -125,6 +114,7 @@ export async function getMarketById(marketId: string): Promise<
       countries: string[] | null;
       exchangeRate: string;
       roundingRule: string | null;
+      pricesIncludeTax: boolean;
       isDefault: boolean;
     };
   }
@@ -138,19 +128,7 @@ export async function getMarketById(marketId: string): Promise<
       return { success: false, error: "Unauthorized" };
     }
 
-    // Verify user is admin or seller
-    const userRole = await db
-      .select({ roleName: roles.name })
-      .from(userRoles)
-      .innerJoin(roles, eq(userRoles.roleId, roles.id))
-      .where(eq(userRoles.userId, session.user.id))
-      .limit(1);
-
-    const roleName =
-      userRole.length > 0 ? userRole[0].roleName.toLowerCase() : "";
-    if (roleName !== "seller" && roleName !== "admin") {
-      return { success: false, error: "Unauthorized - Admin or Seller only" };
-    }
+    await requirePermission(session, "store.settings");
 
     // Only get market if it belongs to the current user
     const result = await db
@@ -192,6 +170,7 @@ export async function getMarketById(marketId: string): Promise<
         countries: countriesArray,
         exchangeRate: String(market.exchangeRate || "1"),
         roundingRule: market.roundingRule,
+        pricesIncludeTax: market.pricesIncludeTax,
         isDefault: market.isDefault || false,
       },
     };
@@ -253,6 +232,7 @@ export async function createMarket(input: {
   currency: string;
   countries: string[];
   roundingRule?: string;
+  pricesIncludeTax?: boolean;
   status?: "active" | "draft";
   isDefault?: boolean;
 }): Promise<ActionResponse & { marketId?: string }> {
@@ -265,19 +245,7 @@ export async function createMarket(input: {
       return { success: false, error: "Unauthorized" };
     }
 
-    // Verify user is admin or seller
-    const userRole = await db
-      .select({ roleName: roles.name })
-      .from(userRoles)
-      .innerJoin(roles, eq(userRoles.roleId, roles.id))
-      .where(eq(userRoles.userId, session.user.id))
-      .limit(1);
-
-    const roleName =
-      userRole.length > 0 ? userRole[0].roleName.toLowerCase() : "";
-    if (roleName !== "seller" && roleName !== "admin") {
-      return { success: false, error: "Unauthorized - Admin or Seller only" };
-    }
+    await requirePermission(session, "store.settings");
 
     // Get exchange rate from API
     const exchangeRateResult = await getExchangeRate(input.currency, "EUR");
@@ -309,6 +277,7 @@ export async function createMarket(input: {
         countries: input.countries,
         exchangeRate: String(exchangeRateResult.rate),
         roundingRule: input.roundingRule || "none",
+        pricesIncludeTax: input.pricesIncludeTax || false,
         status: input.status || "active",
         isDefault: input.isDefault || false,
         createdBy: session.user.id,
@@ -339,6 +308,7 @@ export async function updateMarket(
     currency?: string;
     countries?: string[];
     roundingRule?: string;
+    pricesIncludeTax?: boolean;
     status?: "active" | "draft";
     isDefault?: boolean;
   }
@@ -352,19 +322,7 @@ export async function updateMarket(
       return { success: false, error: "Unauthorized" };
     }
 
-    // Verify user is admin or seller
-    const userRole = await db
-      .select({ roleName: roles.name })
-      .from(userRoles)
-      .innerJoin(roles, eq(userRoles.roleId, roles.id))
-      .where(eq(userRoles.userId, session.user.id))
-      .limit(1);
-
-    const roleName =
-      userRole.length > 0 ? userRole[0].roleName.toLowerCase() : "";
-    if (roleName !== "seller" && roleName !== "admin") {
-      return { success: false, error: "Unauthorized - Admin or Seller only" };
-    }
+    await requirePermission(session, "store.settings");
 
     // Get current market (only if owned by current user)
     const currentMarket = await db
@@ -427,6 +385,7 @@ export async function updateMarket(
       currency?: string;
       countries?: string[];
       roundingRule?: string;
+      pricesIncludeTax?: boolean;
       status?: "active" | "draft";
       isDefault?: boolean;
       exchangeRate?: string;
@@ -436,6 +395,8 @@ export async function updateMarket(
     if (input.countries !== undefined) updateData.countries = input.countries;
     if (input.roundingRule !== undefined)
       updateData.roundingRule = input.roundingRule;
+    if (input.pricesIncludeTax !== undefined)
+      updateData.pricesIncludeTax = input.pricesIncludeTax;
     if (input.status !== undefined) updateData.status = input.status;
     if (input.isDefault !== undefined) updateData.isDefault = input.isDefault;
     if (exchangeRate !== currentMarket[0].exchangeRate)
@@ -466,19 +427,7 @@ export async function deleteMarket(marketId: string): Promise<ActionResponse> {
       return { success: false, error: "Unauthorized" };
     }
 
-    // Verify user is admin or seller
-    const userRole = await db
-      .select({ roleName: roles.name })
-      .from(userRoles)
-      .innerJoin(roles, eq(userRoles.roleId, roles.id))
-      .where(eq(userRoles.userId, session.user.id))
-      .limit(1);
-
-    const roleName =
-      userRole.length > 0 ? userRole[0].roleName.toLowerCase() : "";
-    if (roleName !== "seller" && roleName !== "admin") {
-      return { success: false, error: "Unauthorized - Admin or Seller only" };
-    }
+    await requirePermission(session, "store.settings");
 
     // Get market to check if it's active and owned by user
     const market = await db
@@ -25,6 +25,45 @@ import type {
   DiscountTarget,
   OrderDiscountResult,
 } from "@/lib/types";
+import { getBundleComponentMap } from "@/lib/bundles";
+
+/**
+ * Cart items for the discount engine, with the store of each listing (for
+ * seller discount ownership) and the component listings of bundles.
+ */
+async function toDiscountCartItems(
+  cartItems: Array<{
+    id: string;
+    listingId: string;
+    variantId?: string | null;
+    name: string;
+    price: number;
+    quantity: number;
+  }>
+): Promise<CartItem[]> {
+  const listingIds = cartItems.map((item) => item.listingId);
+  const listings = await db
+    .select({ id: listing.id, storeId: listing.storeId })
+    .from(listing)
+    .where(inArray(listing.id, listingIds));
+  const listingStoreMap = new Map(listings.map((l) => [l.id, l.storeId]));
+  const bundleComponents = await getBundleComponentMap(
+    cartItems.map((item) => item.variantId)
+  );
+
+  return cartItems.map((item) => ({
+    id: item.id,
+    listingId: item.listingId,
+    variantId: item.variantId ?? null,
+    name: item.name,
+    price: item.price,
+    quantity: item.quantity,
+    storeId: listingStoreMap.get(item.listingId) ?? null,
+    bundleListingIds: item.variantId
+      ? bundleComponents.get(item.variantId)?.map((c) => c.listingId)
+      : undefined,
+  }));
+}
 
 async function getCurrentUser() {
   const session = await auth.api.getSession({
@@ -144,28 +183,7 @@ export async function getAutomaticDiscountsForCheckout(
       }
     }
 
-    // Get storeId for each listing
-    const listingIds = cartItems.map((item) => item.listingId);
-    const listings = await db
-      .select({ id: listing.id, storeId: listing.storeId })
-      .from(listing)
-      .where(inArray(listing.id, listingIds));
-
-    const listingStoreMap = new Map<string, string | null>();
-    for (const l of listings) {
-      listingStoreMap.set(l.id, l.storeId);
-    }
-
-    // Convert cart items to CartItem format
-    const items: CartItem[] = cartItems.map((item) => ({
-      id: item.id,
-      listingId: item.listingId,
-      variantId: item.variantId ?? null,
-      name: item.name,
-      price: item.price,
-      quantity: item.quantity,
-      storeId: listingStoreMap.get(item.listingId) ?? null,
-    }));
+    const items = await toDiscountCartItems(cartItems);
 
     // Evaluate each discount
     const evaluatedDiscounts = [];
@@ -702,26 +720,7 @@ export async function findBestDiscountForCheckout(
       }
     }
 
-    const listingIds = cartItems.map((item) => item.listingId);
-    const listings = await db
-      .select({ id: listing.id, storeId: listing.storeId })
-      .from(listing)
-      .where(inArray(listing.id, listingIds));
-
-    const listingStoreMap = new Map<string, string | null>();
-    for (const l of listings) {
-      listingStoreMap.set(l.id, l.storeId);
-    }
-
-    const items: CartItem[] = cartItems.map((item) => ({
-      id: item.id,
-      listingId: item.listingId,
-      variantId: item.variantId ?? null,
-      name: item.name,
-      price: item.price,
-      quantity: item.quantity,
-      storeId: listingStoreMap.get(item.listingId) ?? null,
-    }));
+    const items = await toDiscountCartItems(cartItems);
 
     // Build Discount objects for evaluation
     const allDiscounts: Discount[] = [];
@@ -892,28 +891,7 @@ export async function evaluateDiscountForCheckout(
     }
     const discount = discountResult.discount;
 
-    // Get storeId for each listing (needed for ownership checking)
-    const listingIds = cartItems.map((item) => item.listingId);
-    const listings = await db
-      .select({ id: listing.id, storeId: listing.storeId })
-      .from(listing)
-      .where(inArray(listing.id, listingIds));
-
-    const listingStoreMap = new Map<string, string | null>();
-    for (const l of listings) {
-      listingStoreMap.set(l.id, l.storeId);
-    }
-
-    // Convert cart items to CartItem format
-    const items: CartItem[] = cartItems.map((item) => ({
-      id: item.id,
-      listingId: item.listingId,
-      variantId: item.variantId ?? null,
-      name: item.name,
-      price: item.price,
-      quantity: item.quantity,
-      storeId: listingStoreMap.get(item.listingId) ?? null,
-    }));
+    const items = await toDiscountCartItems(cartItems);
 
     // Get customer ID from email if provided (for eligibility checking)
     let customerId: string | null = null;
@@ -1164,28 +1142,7 @@ export async function evaluateDiscount(
   try {
     await getCurrentUser();
 
-    // Get storeId for each listing (needed for ownership checking)
-    const listingIds = cartItems.map((item) => item.listingId);
-    const listings = await db
-      .select({ id: listing.id, storeId: listing.storeId })
-      .from(listing)
-      .where(inArray(listing.id, listingIds));
-
-    const listingStoreMap = new Map<string, string | null>();
-    for (const l of listings) {
-      listingStoreMap.set(l.id, l.storeId);
-    }
-
-    // Convert cart items to CartItem format
-    const items: CartItem[] = cartItems.map((item) => ({
-      id: item.id,
-      listingId: item.listingId,
-      variantId: item.variantId ?? null,
-      name: item.name,
-      price: item.price,
-      quantity: item.quantity,
-      storeId: listingStoreMap.get(item.listingId) ?? null,
-    }));
+    const items = await toDiscountCartItems(cartItems);
 
     let discount: Discount;
 
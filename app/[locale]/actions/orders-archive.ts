@@ -6,6 +6,7 @@ import { db } from "@/db";
 import { orders, orderEvents } from "@/db/schema";
 import { inArray } from "drizzle-orm";
 import { getStoreIdForUser } from "./store-id";
+import { requirePermission } from "@/lib/permissions";
 
 export async function archiveOrders(
   orderIds: string[]
@@ -19,6 +20,8 @@ export async function archiveOrders(
       return { success: false, error: "Unauthorized" };
     }
 
+    await requirePermission(session, "orders.manage");
+
     if (!orderIds || orderIds.length === 0) {
       return { success: false, error: "No orders selected" };
     }
@@ -116,6 +119,8 @@ export async function unarchiveOrders(
       return { success: false, error: "Unauthorized" };
     }
 
+    await requirePermission(session, "orders.manage");
+
     if (!orderIds || orderIds.length === 0) {
       return { success: false, error: "No orders selected" };
     }
@@ -18,6 +18,8 @@ import { getDefaultInventoryLocation } from "./orders";
 import { generateTrackingUrl } from "@/lib/easyship";
 import { nanoid } from "nanoid";
 import { updateOrderFulfillmentStatus } from "./orders-fulfillment-utils";
+import { getBundleComponentMap, getInventoryLines } from "@/lib/bundles";
+import { requirePermission } from "@/lib/permissions";
 
 /**
  * Fulfill an order (per inst.md)
@@ -55,6 +57,8 @@ export async function fulfillOrder(input: {
       return { success: false, error: "Unauthorized" };
     }
 
+    await requirePermission(session, "orders.manage");
+
     const userId = session.user.id;
 
     // Get order details
@@ -142,6 +146,11 @@ export async function fulfillOrder(input: {
       return { success: false, error: "No inventory location found" };
     }
 
+    // Bundle lines ship their components
+    const bundleComponents = await getBundleComponentMap(
+      items.map((item) => item.variantId)
+    );
+
     // Process fulfillment in transaction
     await db.transaction(async (tx) => {
       const fulfilledAt = new Date();
@@ -169,11 +178,15 @@ export async function fulfillOrder(input: {
           .where(eq(orderItems.id, fulfilledItem.orderItemId));
 
         // Adjust inventory (decrease committed and onHand, NOT available)
-        if (orderItem.variantId) {
+        for (const line of getInventoryLines(
+          bundleComponents,
+          orderItem.variantId,
+          fulfilledItem.quantity
+        )) {
           const inventoryItem = await tx
             .select({ id: inventoryItems.id })
             .from(inventoryItems)
-            .where(eq(inventoryItems.variantId, orderItem.variantId))
+            .where(eq(inventoryItems.variantId, line.variantId))
             .limit(1);
 
           if (inventoryItem.length > 0) {
@@ -216,7 +229,7 @@ export async function fulfillOrder(input: {
             }
 
             const level = inventoryLevel[0];
-            const quantity = fulfilledItem.quantity;
+            const quantity = line.quantity;
 
             // Per inst.md: committed -= qty, onHand -= qty, available NO CHANGE
             await tx.insert(inventoryAdjustments).values({
@@ -5,6 +5,7 @@ import { orders, orderEvents, orderItems, listing } from "@/db/schema";
 import { eq } from "drizzle-orm";
 import { auth } from "@/lib/auth";
 import { headers } from "next/headers";
+import { requirePermission } from "@/lib/permissions";
 
 /**
  * Update workflow status (operational flags, per inst.md)
@@ -35,6 +36,8 @@ export async function updateWorkflowStatus(input: {
       return { success: false, error: "Unauthorized" };
     }
 
+    await requirePermission(session, "orders.manage");
+
     const userId = session.user.id;
 
     // Get user role and store ID for permission checks
@@ -37,6 +37,7 @@ import {
   asc,
   inArray,
   isNull,
+  ne,
 } from "drizzle-orm";
 import { auth } from "@/lib/auth";
 import { headers } from "next/headers";
@@ -46,7 +47,14 @@ import {
   getInvoiceExpirationDate,
 } from "@/lib/invoice-token";
 import { generateOrderNumber } from "@/lib/order-number";
+import { recordAuditEvent } from "@/lib/audit";
+import {
+  calculateOrderPlatformFee,
+  describePlatformFee,
+} from "@/lib/platform-fees";
 import { getStoreIdForUser } from "./store-id";
+import { expandBundleItems } from "@/lib/bundles";
+import { requireCurrentPermission, requirePermission } from "@/lib/permissions";
 
 // List orders and archive/unarchive live in orders-list.ts and orders-archive.ts
 // so the dashboard orders list page does not pull in this large file at compile time.
@@ -557,7 +565,8 @@ export async function getDefaultInventoryLocation(
 }
 
 /**
- * Check stock availability for order items
+ * Check stock availability for order items (bundles are checked against
+ * their components)
  */
 async function checkStockAvailability(
   lineItems: Array<{ variantId: string | null; quantity: number }>,
@@ -583,7 +592,7 @@ async function checkStockAvailability(
       requested: number;
     }> = [];
 
-    for (const item of lineItems) {
+    for (const item of await expandBundleItems(lineItems)) {
       if (!item.variantId) continue;
 
       // Find inventory item for this variant
@@ -651,7 +660,8 @@ async function checkStockAvailability(
 }
 
 /**
- * Adjust inventory for order items
+ * Adjust inventory for order items. Bundle lines move their components'
+ * stock, so the ledger only ever references real inventory items.
  */
 export async function adjustInventoryForOrder(
   orderItems: Array<{ variantId: string | null; quantity: number }>,
@@ -693,10 +703,11 @@ export async function adjustInventoryForOrder(
     };
     const eventType = eventTypeMap[direction];
     const referenceType = orderId ? "order" : "manual";
+    const items = await expandBundleItems(orderItems);
 
     // Use transaction for atomicity
     await db.transaction(async (tx) => {
-      for (const item of orderItems) {
+      for (const item of items) {
         if (!item.variantId) continue;
 
         // Find inventory item for this variant
@@ -900,6 +911,7 @@ export async function createOrder(input: CreateOrderInput): Promise<{
   error?: string;
 }> {
   try {
+    await requireCurrentPermission("orders.manage");
     const { storeId, isAdmin, error: storeError } = await getStoreIdForUser();
 
     if (storeError) {
@@ -1517,6 +1529,7 @@ export async function updateFulfillmentStatus(
   newStatus: "unfulfilled" | "partial" | "fulfilled" | "canceled"
 ): Promise<{ success: boolean; error?: string }> {
   try {
+    await requireCurrentPermission("orders.manage");
     // Check permissions
     const permissionCheck = await canChangeStatus("fulfillment");
     if (!permissionCheck.allowed) {
@@ -1656,6 +1669,7 @@ export async function updateFulfillmentStatus(
                   amount: orderPayments.amount,
                   currency: orderPayments.currency,
                   platformFeeAmount: orderPayments.platformFeeAmount,
+                  platformFeeRule: orderPayments.platformFeeRule,
                 })
                 .from(orderPayments)
                 .where(eq(orderPayments.id, paymentData[0].id))
@@ -1701,7 +1715,7 @@ export async function updateFulfillmentStatus(
                     currency: payment.currency,
                     orderId: orderId,
                     orderPaymentId: paymentData[0].id,
-                    description: `Platform fee (5%) for order`,
+                    description: `Platform fee (${describePlatformFee(payment.platformFeeRule, payment.currency)}) for order`,
                   });
 
                   // 3. Stripe fee (DEBIT)
@@ -1900,6 +1914,7 @@ export async function updateOrderStatus(
   newStatus: "open" | "draft" | "archived" | "canceled"
 ): Promise<{ success: boolean; error?: string }> {
   try {
+    await requireCurrentPermission("orders.manage");
     const { isAdmin, storeId } = await getStoreIdForUser();
 
     // Get current order state
@@ -2152,6 +2167,8 @@ export async function deleteOrder(
       return { success: false, error: "Unauthorized" };
     }
 
+    await requirePermission(session, "orders.manage");
+
     // Check if user has permission to delete this order
     const { storeId, isAdmin } = await getStoreIdForUser();
 
@@ -2620,6 +2637,8 @@ export async function cancelOrder(input: {
       return { success: false, error: "Unauthorized" };
     }
 
+    await requirePermission(session, "orders.manage");
+
     const userId = session.user.id;
     const { storeId, isAdmin } = await getStoreIdForUser();
 
@@ -2886,7 +2905,12 @@ export async function getStoreOwnerEmail(storeId: string): Promise<{
       })
       .from(storeMembers)
       .innerJoin(user, eq(storeMembers.userId, user.id))
-      .where(eq(storeMembers.storeId, storeId))
+      .where(
+        and(
+          eq(storeMembers.storeId, storeId),
+          inArray(storeMembers.role, ["admin", "seller"])
+        )
+      )
       .limit(1);
 
     if (ownerData.length === 0) {
@@ -2977,6 +3001,8 @@ export async function sendInvoiceForOrder(input: {
       return { success: false, error: "Unauthorized" };
     }
 
+    await requirePermission(session, "orders.manage");
+
     const userId = session.user.id;
     const { storeId, isAdmin } = await getStoreIdForUser();
 
@@ -3192,6 +3218,8 @@ export async function sendInvoicePdfForOrder(input: {
       return { success: false, error: "Unauthorized" };
     }
 
+    await requirePermission(session, "orders.manage");
+
     const userId = session.user.id;
     const { storeId, isAdmin } = await getStoreIdForUser();
 
@@ -3372,6 +3400,8 @@ export async function deleteOrders(
       return { success: false, error: "Unauthorized" };
     }
 
+    await requirePermission(session, "orders.manage");
+
     if (!orderIds || orderIds.length === 0) {
       return { success: false, error: "No orders selected" };
     }
@@ -3587,6 +3617,7 @@ export async function searchProductsForOrder(
   error?: string;
 }> {
   try {
+    await requireCurrentPermission("orders.manage");
     const {
       storeId: userStoreId,
       isAdmin,
@@ -3773,6 +3804,8 @@ export async function getCustomerShippingBillingInfo(
       return { success: false, error: "Unauthorized" };
     }
 
+    await requirePermission(session, "orders.manage");
+
     // Get customer to check if they have userId
     const customerData = await db
       .select({
@@ -4138,6 +4171,9 @@ export async function processRefund(input: {
     }
 
     const order = orderData[0];
+    await requirePermission(session, "orders.refund", {
+      storeId: order.storeId,
+    });
 
     // Precondition checks
     if (
@@ -4405,6 +4441,9 @@ export async function processRefund(input: {
               amount: refundAmountCents,
               refund_application_fee: false,
               // No reverse_transfer - funds are held in platform account, not transferred
+              // The charge may be shared by a checkout group; the webhook uses
+              // this to credit the refund to the right store order
+              metadata: { orderId: input.orderId, refundId },
             });
 
             stripeRefundId = refund.id;
@@ -4579,6 +4618,24 @@ export async function processRefund(input: {
       });
     });
 
+    await recordAuditEvent({
+      action: "order.refunded",
+      entityType: "order",
+      entityId: input.orderId,
+      actorId: userId,
+      before: { refundedAmount: alreadyRefunded.toFixed(2) },
+      after: { refundedAmount: (alreadyRefunded + refundAmount).toFixed(2) },
+      metadata: {
+        orderNumber: order.orderNumber,
+        storeId: order.storeId,
+        amount: refundAmount.toFixed(2),
+        currency: order.currency,
+        refundType: input.refundType,
+        reason: input.reason,
+        restockItems: input.restockItems,
+      },
+    });
+
     // Step 7: Generate refund document (credit note/receipt)
     // This will be done asynchronously to not block the response
     (async () => {
@@ -4687,6 +4744,7 @@ export async function captureOrderPayment(orderId: string): Promise<{
   paymentIntentId?: string;
 }> {
   try {
+    await requireCurrentPermission("orders.manage");
     const { storeId, isAdmin } = await getStoreIdForUser();
 
     // Get order and payment info
@@ -4761,7 +4819,8 @@ export async function captureOrderPayment(orderId: string): Promise<{
           .limit(1);
         if (orderRow.length > 0) {
           const totalAmount = parseFloat(orderRow[0].totalAmount || "0");
-          const platformFee = totalAmount * 0.05;
+          const { fee: platformFee, snapshot: platformFeeRule } =
+            await calculateOrderPlatformFee(orderId, totalAmount);
           const [inserted] = await db
             .insert(orderPayments)
             .values({
@@ -4771,6 +4830,7 @@ export async function captureOrderPayment(orderId: string): Promise<{
               provider: "stripe",
               providerPaymentId: match.id,
               platformFeeAmount: platformFee.toFixed(2),
+              platformFeeRule,
               netAmountToStore: (totalAmount - platformFee).toFixed(2),
               stripePaymentIntentId: match.id,
               status: "completed",
@@ -4801,6 +4861,27 @@ export async function captureOrderPayment(orderId: string): Promise<{
     const paymentRecord = paymentData[0];
     const paymentIntentId = paymentRecord.stripePaymentIntentId!;
 
+    // A checkout group shares one payment intent between its store orders.
+    // Capturing it collects every store's share except orders the customer
+    // cancelled before capture (their payments are void).
+    const livePayments = (
+      await db
+        .select({
+          id: orderPayments.id,
+          orderId: orderPayments.orderId,
+          amount: orderPayments.amount,
+          currency: orderPayments.currency,
+          platformFeeAmount: orderPayments.platformFeeAmount,
+          platformFeeRule: orderPayments.platformFeeRule,
+          status: orderPayments.status,
+        })
+        .from(orderPayments)
+        .where(eq(orderPayments.stripePaymentIntentId, paymentIntentId))
+    ).filter((p) => p.status !== "void");
+    const captureAmountCents = Math.round(
+      livePayments.reduce((sum, p) => sum + parseFloat(p.amount), 0) * 100
+    );
+
     // First, retrieve the payment intent to check its current status
     let paymentIntentBefore;
     try {
@@ -4835,9 +4916,15 @@ export async function captureOrderPayment(orderId: string): Promise<{
     }
 
     // Capture payment in Stripe
+    const isPartialCapture =
+      captureAmountCents > 0 &&
+      captureAmountCents < paymentIntentBefore.amount_capturable;
     let paymentIntent;
     try {
-      paymentIntent = await stripe.paymentIntents.capture(paymentIntentId);
+      paymentIntent = await stripe.paymentIntents.capture(
+        paymentIntentId,
+        isPartialCapture ? { amount_to_capture: captureAmountCents } : {}
+      );
       console.log("✅ Payment Captured Successfully:", {
         id: paymentIntent.id,
         status: paymentIntent.status,
@@ -4874,20 +4961,34 @@ export async function captureOrderPayment(orderId: string): Promise<{
     }
 
     // Verify amount was actually received
-    if (paymentIntent.amount_received !== paymentIntent.amount) {
+    const expectedAmountCents = isPartialCapture
+      ? captureAmountCents
+      : paymentIntent.amount;
+    if (paymentIntent.amount_received !== expectedAmountCents) {
       console.warn("⚠️ Amount received doesn't match amount:", {
         paymentIntentId: paymentIntent.id,
-        amount: paymentIntent.amount,
+        amount: expectedAmountCents,
         amount_received: paymentIntent.amount_received,
       });
       return {
         success: false,
-        error: `Payment captured but amount received (${paymentIntent.amount_received / 100}) doesn't match expected amount (${paymentIntent.amount / 100}). Please check Stripe dashboard.`,
+        error: `Payment captured but amount received (${paymentIntent.amount_received / 100}) doesn't match expected amount (${expectedAmountCents / 100}). Please check Stripe dashboard.`,
       };
     }
 
-    // Update order payment status
-    await updatePaymentStatus(orderId, "paid");
+    // Update order payment status for every order paid by this capture
+    for (const payment of livePayments) {
+      await updatePaymentStatus(payment.orderId, "paid");
+    }
+
+    const { recordCheckoutGroupPayment } = await import(
+      "@/lib/checkout-groups"
+    );
+    await recordCheckoutGroupPayment([orderId], {
+      provider: "stripe",
+      stripePaymentIntentId: paymentIntentId,
+      paid: true,
+    });
 
     // Update seller balance now that payment is captured
     // This ensures the ledger reflects actual funds available in Stripe
@@ -4898,50 +4999,72 @@ export async function captureOrderPayment(orderId: string): Promise<{
       };
     }
 
-    const orderStoreId: string = order.storeId; // TypeScript now knows this is string
     const { updateSellerBalance } = await import("./seller-balance");
 
-    const totalAmount = parseFloat(paymentRecord.amount);
-    const platformFee = parseFloat(paymentRecord.platformFeeAmount || "0");
+    const storeByOrder = new Map(
+      (
+        await db
+          .select({ id: orders.id, storeId: orders.storeId })
+          .from(orders)
+          .where(
+            inArray(
+              orders.id,
+              livePayments.map((p) => p.orderId)
+            )
+          )
+      ).map((o) => [o.id, o.storeId])
+    );
 
-    // Calculate Stripe fee (2.9% + €0.30)
+    // Calculate Stripe fee (2.9% + €0.30) on the captured charge, split
+    // proportionally when the charge covers several store orders
+    const capturedAmount = paymentIntent.amount_received / 100;
     const stripeFeeRate = 0.029;
     const stripeFeeFixed = 0.3;
-    const stripeFee = totalAmount * stripeFeeRate + stripeFeeFixed;
-
-    // Update seller balance with captured payment
-    // 1. Order payment (CREDIT)
-    await updateSellerBalance({
-      storeId: orderStoreId,
-      type: "order_payment",
-      amount: totalAmount,
-      currency: paymentRecord.currency,
-      orderId: orderId,
-      orderPaymentId: paymentRecord.id,
-      description: `Order payment captured`,
-    });
+    const stripeFee = capturedAmount * stripeFeeRate + stripeFeeFixed;
+
+    for (const payment of livePayments) {
+      const paymentStoreId = storeByOrder.get(payment.orderId);
+      if (!paymentStoreId) continue;
+
+      const totalAmount = parseFloat(payment.amount);
+      const platformFee = parseFloat(payment.platformFeeAmount || "0");
+      const paymentStripeFee =
+        capturedAmount > 0 ? (stripeFee * totalAmount) / capturedAmount : 0;
+
+      // Update seller balance with captured payment
+      // 1. Order payment (CREDIT)
+      await updateSellerBalance({
+        storeId: paymentStoreId,
+        type: "order_payment",
+        amount: totalAmount,
+        currency: payment.currency,
+        orderId: payment.orderId,
+        orderPaymentId: payment.id,
+        description: `Order payment captured`,
+      });
 
-    // 2. Platform fee (DEBIT)
-    await updateSellerBalance({
-      storeId: orderStoreId,
-      type: "platform_fee",
-      amount: platformFee,
-      currency: paymentRecord.currency,
-      orderId: orderId,
-      orderPaymentId: paymentRecord.id,
-      description: `Platform fee (5%) for order`,
-    });
+      // 2. Platform fee (DEBIT)
+      await updateSellerBalance({
+        storeId: paymentStoreId,
+        type: "platform_fee",
+        amount: platformFee,
+        currency: payment.currency,
+        orderId: payment.orderId,
+        orderPaymentId: payment.id,
+        description: `Platform fee (${describePlatformFee(payment.platformFeeRule, payment.currency)}) for order`,
+      });
 
-    // 3. Stripe fee (DEBIT)
-    await updateSellerBalance({
-      storeId: orderStoreId,
-      type: "stripe_fee",
-      amount: stripeFee,
-      currency: paymentRecord.currency,
-      orderId: orderId,
-      orderPaymentId: paymentRecord.id,
-      description: `Stripe processing fee for order`,
-    });
+      // 3. Stripe fee (DEBIT)
+      await updateSellerBalance({
+        storeId: paymentStoreId,
+        type: "stripe_fee",
+        amount: paymentStripeFee,
+        currency: payment.currency,
+        orderId: payment.orderId,
+        orderPaymentId: payment.id,
+        description: `Stripe processing fee for order`,
+      });
+    }
 
     return {
       success: true,
@@ -5063,7 +5186,22 @@ export async function cancelOrderByCustomer(
 
         if (paymentIntent.status === "requires_capture") {
           // ✅ BEST CASE: Payment not captured → void (no fees)
-          await stripe.paymentIntents.cancel(paymentIntentId);
+          // In a checkout group the payment intent also covers other stores'
+          // orders, so it is only cancelled with the last of them. Until then
+          // the void payment is left out when the rest is captured.
+          const otherLivePayments = await tx
+            .select({ id: orderPayments.id })
+            .from(orderPayments)
+            .where(
+              and(
+                eq(orderPayments.stripePaymentIntentId, paymentIntentId),
+                ne(orderPayments.id, paymentData[0].id),
+                ne(orderPayments.status, "void")
+              )
+            );
+          if (otherLivePayments.length === 0) {
+            await stripe.paymentIntents.cancel(paymentIntentId);
+          }
           refundMethod = "void";
 
           // Update payment status
@@ -5076,34 +5214,46 @@ export async function cancelOrderByCustomer(
             .where(eq(orderPayments.id, paymentData[0].id));
         } else if (paymentIntent.status === "succeeded") {
           // Payment captured → must refund (Stripe fee applies)
+          // Create refund record first so the webhook can attribute the
+          // refund when the payment intent is shared by a checkout group
+          const [refundRecord] = await tx
+            .insert(orderRefunds)
+            .values({
+              orderId: orderId,
+              orderPaymentId: paymentData[0].id,
+              provider: "stripe",
+              amount: order.totalAmount,
+              reason: reason || "Customer cancellation",
+              status: "pending",
+              feePaidBy: "platform", // Platform absorbs fee for cancellations
+              refundMethod: "refund",
+              metadata: {
+                cancellation: true,
+                requestedBy: session.user.id,
+              },
+              createdBy: session.user.id,
+            })
+            .returning({ id: orderRefunds.id });
+
           const refund = await stripe.refunds.create({
             payment_intent: paymentIntentId,
             amount: Math.round(parseFloat(order.totalAmount) * 100), // Full refund
             reason: "requested_by_customer",
             metadata: {
               orderId: orderId,
+              refundId: refundRecord.id,
               reason: reason || "Customer cancellation",
               refundMethod: "cancellation",
             },
           });
 
-          // Create refund record
-          await tx.insert(orderRefunds).values({
-            orderId: orderId,
-            orderPaymentId: paymentData[0].id,
-            provider: "stripe",
-            amount: order.totalAmount,
-            reason: reason || "Customer cancellation",
-            stripeRefundId: refund.id,
-            status: refund.status === "succeeded" ? "succeeded" : "pending",
-            feePaidBy: "platform", // Platform absorbs fee for cancellations
-            refundMethod: "refund",
-            metadata: {
-              cancellation: true,
-              requestedBy: session.user.id,
-            },
-            createdBy: session.user.id,
-          });
+          await tx
+            .update(orderRefunds)
+            .set({
+              stripeRefundId: refund.id,
+              status: refund.status === "succeeded" ? "succeeded" : "pending",
+            })
+            .where(eq(orderRefunds.id, refundRecord.id));
 
           // Update payment record
           await tx
@@ -5297,6 +5447,7 @@ export async function processRefundRequest(
   refundId?: string;
 }> {
   try {
+    await requireCurrentPermission("orders.refund");
     const { storeId, isAdmin } = await getStoreIdForUser();
 
     // Get refund request
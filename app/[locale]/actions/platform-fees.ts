@@ -0,0 +1,371 @@
+"use server";
+
+import { db } from "@/db";
+import { platformFeeRules, markets, store } from "@/db/schema";
+import { eq, asc, desc, sql } from "drizzle-orm";
+import { getCurrentAdmin } from "./admin";
+import { revalidatePath } from "next/cache";
+import { findCategoryById } from "@/lib/taxonomy";
+import { ActionResponse } from "@/lib/types";
+import { recordAuditEvent } from "@/lib/audit";
+
+export interface PlatformFeeRuleRow {
+  id: string;
+  name: string;
+  storeId: string | null;
+  storeName: string | null;
+  taxonomyCategoryId: string | null;
+  taxonomyCategoryName: string | null;
+  marketId: string | null;
+  marketName: string | null;
+  currency: string | null;
+  ratePercent: string;
+  fixedFee: string;
+  maxFee: string | null;
+  maxStoreAgeDays: number | null;
+  startsAt: Date | null;
+  endsAt: Date | null;
+  priority: number;
+  isActive: boolean;
+  notes: string | null;
+  updatedAt: Date;
+}
+
+export interface PlatformFeeRuleInput {
+  name: string;
+  storeId?: string | null;
+  taxonomyCategoryId?: string | null;
+  marketId?: string | null;
+  currency?: string | null;
+  ratePercent: string;
+  fixedFee?: string | null;
+  maxFee?: string | null;
+  maxStoreAgeDays?: number | null;
+  startsAt?: string | null; // YYYY-MM-DD
+  endsAt?: string | null; // YYYY-MM-DD, exclusive
+  priority?: number;
+  isActive?: boolean;
+  notes?: string | null;
+}
+
+function parseDate(value: string | null | undefined): Date | null | "invalid" {
+  if (!value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? "invalid" : date;
+}
+
+function normalizePlatformFeeRuleInput(input: PlatformFeeRuleInput):
+  | {
+      values: Omit<typeof platformFeeRules.$inferInsert, "id" | "createdBy">;
+    }
+  | { error: string } {
+  const name = input.name?.trim();
+  if (!name) {
+    return { error: "Name is required" };
+  }
+
+  const ratePercent = parseFloat(input.ratePercent);
+  if (isNaN(ratePercent) || ratePercent < 0 || ratePercent > 100) {
+    return { error: "Rate must be a percentage between 0 and 100" };
+  }
+
+  const fixedFee = input.fixedFee ? parseFloat(input.fixedFee) : 0;
+  if (isNaN(fixedFee) || fixedFee < 0) {
+    return { error: "Fixed fee must be zero or more" };
+  }
+
+  const maxFee = input.maxFee ? parseFloat(input.maxFee) : null;
+  if (maxFee !== null && (isNaN(maxFee) || maxFee < 0)) {
+    return { error: "Fee cap must be zero or more" };
+  }
+
+  const currency = input.currency?.trim().toUpperCase() || null;
+  if (currency && currency.length !== 3) {
+    return { error: "Currency must be a 3-letter ISO code" };
+  }
+  if ((fixedFee > 0 || maxFee !== null) && !currency) {
+    return { error: "Set a currency to use a fixed fee or a fee cap" };
+  }
+
+  const taxonomyCategoryId = input.taxonomyCategoryId || null;
+  if (taxonomyCategoryId && (fixedFee > 0 || maxFee !== null)) {
+    return {
+      error:
+        "Fixed fees and caps apply per order; leave them empty on category rules",
+    };
+  }
+
+  const maxStoreAgeDays = input.maxStoreAgeDays ?? null;
+  if (
+    maxStoreAgeDays !== null &&
+    (!Number.isInteger(maxStoreAgeDays) || maxStoreAgeDays < 1)
+  ) {
+    return { error: "New producer period must be at least 1 day" };
+  }
+
+  const startsAt = parseDate(input.startsAt);
+  const endsAt = parseDate(input.endsAt);
+  if (startsAt === "invalid" || endsAt === "invalid") {
+    return { error: "Invalid date" };
+  }
+  if (startsAt && endsAt && endsAt <= startsAt) {
+    return { error: "End date must be after the start date" };
+  }
+
+  return {
+    values: {
+      name,
+      storeId: input.storeId || null,
+      taxonomyCategoryId,
+      marketId: input.marketId || null,
+      currency,
+      ratePercent: ratePercent.toFixed(3),
+      fixedFee: fixedFee.toFixed(2),
+      maxFee: maxFee !== null ? maxFee.toFixed(2) : null,
+      maxStoreAgeDays,
+      startsAt,
+      endsAt,
+      priority: input.priority ?? 0,
+      isActive: input.isActive ?? true,
+      notes: input.notes?.trim() || null,
+    },
+  };
+}
+
+function revalidatePlatformFeePaths() {
+  revalidatePath("/dashboard/settings/platform-fees");
+}
+
+// Get all platform fee rules (admin)
+export async function getPlatformFeeRules(): Promise<
+  ActionResponse & { result?: PlatformFeeRuleRow[] }
+> {
+  try {
+    await getCurrentAdmin("platform.settings");
+
+    const rows = await db
+      .select({
+        id: platformFeeRules.id,
+        name: platformFeeRules.name,
+        storeId: platformFeeRules.storeId,
+        storeName: store.storeName,
+        taxonomyCategoryId: platformFeeRules.taxonomyCategoryId,
+        marketId: platformFeeRules.marketId,
+        marketName: markets.name,
+        currency: platformFeeRules.currency,
+        ratePercent: platformFeeRules.ratePercent,
+        fixedFee: platformFeeRules.fixedFee,
+        maxFee: platformFeeRules.maxFee,
+        maxStoreAgeDays: platformFeeRules.maxStoreAgeDays,
+        startsAt: platformFeeRules.startsAt,
+        endsAt: platformFeeRules.endsAt,
+        priority: platformFeeRules.priority,
+        isActive: platformFeeRules.isActive,
+        notes: platformFeeRules.notes,
+        updatedAt: platformFeeRules.updatedAt,
+      })
+      .from(platformFeeRules)
+      .leftJoin(store, eq(platformFeeRules.storeId, store.id))
+      .leftJoin(markets, eq(platformFeeRules.marketId, markets.id))
+      .orderBy(
+        sql`${platformFeeRules.storeId} IS NOT NULL`,
+        asc(store.storeName),
+        desc(platformFeeRules.priority),
+        asc(platformFeeRules.name)
+      );
+
+    return {
+      success: true,
+      result: rows.map((row) => ({
+        ...row,
+        taxonomyCategoryName: row.taxonomyCategoryId
+          ? findCategoryById(row.taxonomyCategoryId)?.full_name ||
+            row.taxonomyCategoryId
+          : null,
+      })),
+    };
+  } catch (error) {
+    console.error("Error fetching platform fee rules:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Failed to fetch platform fee rules",
+    };
+  }
+}
+
+// Stores and markets a rule can be scoped to
+export async function getPlatformFeeRuleOptions(): Promise<
+  ActionResponse & {
+    result?: {
+      stores: Array<{ id: string; storeName: string }>;
+      markets: Array<{ id: string; name: string; currency: string }>;
+    };
+  }
+> {
+  try {
+    await getCurrentAdmin("platform.settings");
+
+    const [storeRows, marketRows] = await Promise.all([
+      db
+        .select({ id: store.id, storeName: store.storeName })
+        .from(store)
+        .orderBy(asc(store.storeName)),
+      db
+        .select({
+          id: markets.id,
+          name: markets.name,
+          currency: markets.currency,
+        })
+        .from(markets)
+        .orderBy(asc(markets.name)),
+    ]);
+
+    return {
+      success: true,
+      result: { stores: storeRows, markets: marketRows },
+    };
+  } catch (error) {
+    console.error("Error fetching platform fee rule options:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to fetch options",
+    };
+  }
+}
+
+// Create a platform fee rule
+export async function createPlatformFeeRule(
+  input: PlatformFeeRuleInput
+): Promise<ActionResponse> {
+  try {
+    const admin = await getCurrentAdmin("platform.settings");
+
+    const normalized = normalizePlatformFeeRuleInput(input);
+    if ("error" in normalized) {
+      return { success: false, error: normalized.error };
+    }
+
+    const newRule = await db
+      .insert(platformFeeRules)
+      .values({ ...normalized.values, createdBy: admin.id })
+      .returning();
+
+    await recordAuditEvent({
+      action: "platform_fee_rule.created",
+      entityType: "platform_fee_rule",
+      entityId: newRule[0].id,
+      actorId: admin.id,
+      after: newRule[0],
+    });
+
+    revalidatePlatformFeePaths();
+
+    return {
+      success: true,
+      message: "Fee rule created successfully",
+      result: newRule[0],
+    };
+  } catch (error) {
+    console.error("Error creating platform fee rule:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error ? error.message : "Failed to create fee rule",
+    };
+  }
+}
+
+// Update a platform fee rule. Recorded payments keep their snapshot.
+export async function updatePlatformFeeRule(
+  ruleId: string,
+  input: PlatformFeeRuleInput
+): Promise<ActionResponse> {
+  try {
+    const admin = await getCurrentAdmin("platform.settings");
+
+    const normalized = normalizePlatformFeeRuleInput(input);
+    if ("error" in normalized) {
+      return { success: false, error: normalized.error };
+    }
+
+    const [existing] = await db
+      .select()
+      .from(platformFeeRules)
+      .where(eq(platformFeeRules.id, ruleId))
+      .limit(1);
+
+    const updatedRule = await db
+      .update(platformFeeRules)
+      .set({ ...normalized.values, updatedAt: new Date() })
+      .where(eq(platformFeeRules.id, ruleId))
+      .returning();
+
+    if (updatedRule.length === 0) {
+      return { success: false, error: "Fee rule not found" };
+    }
+
+    await recordAuditEvent({
+      action: "platform_fee_rule.updated",
+      entityType: "platform_fee_rule",
+      entityId: ruleId,
+      actorId: admin.id,
+      before: existing,
+      after: updatedRule[0],
+    });
+
+    revalidatePlatformFeePaths();
+
+    return {
+      success: true,
+      message: "Fee rule updated successfully",
+      result: updatedRule[0],
+    };
+  } catch (error) {
+    console.error("Error updating platform fee rule:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error ? error.message : "Failed to update fee rule",
+    };
+  }
+}
+
+// Delete a platform fee rule
+export async function deletePlatformFeeRule(
+  ruleId: string
+): Promise<ActionResponse> {
+  try {
+    const admin = await getCurrentAdmin("platform.settings");
+
+    const deleted = await db
+      .delete(platformFeeRules)
+      .where(eq(platformFeeRules.id, ruleId))
+      .returning();
+
+    if (deleted.length === 0) {
+      return { success: false, error: "Fee rule not found" };
+    }
+
+    await recordAuditEvent({
+      action: "platform_fee_rule.deleted",
+      entityType: "platform_fee_rule",
+      entityId: ruleId,
+      actorId: admin.id,
+      before: deleted[0],
+    });
+
+    revalidatePlatformFeePaths();
+
+    return { success: true, message: "Fee rule deleted successfully" };
+  } catch (error) {
+    console.error("Error deleting platform fee rule:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error ? error.message : "Failed to delete fee rule",
+    };
+  }
+}
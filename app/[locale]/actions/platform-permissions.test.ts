@@ -0,0 +1,317 @@
+import { beforeEach, describe, it, vi } from "vitest";
+import { PERMISSION_CATALOG } from "@/lib/permissions";
+import {
+  actAsRoleWithout,
+  expectRefused,
+  resetHarness,
+  type GuardedCall,
+} from "@/test/permission-harness";
+import {
+  createPermission,
+  createRole,
+  deletePermission,
+  deleteRole,
+  deleteUser,
+  getAllPermissions,
+  getAllRoles,
+  getAllUsers,
+  getRoleWithPermissions,
+  getUserStats,
+  resendVerificationEmail,
+  sendPasswordResetToUser,
+  suspendUser,
+  updatePermission,
+  updateRole,
+  updateUser,
+} from "./admin";
+import { getAllStores, toggleStoreApproval } from "./admin-stores";
+import {
+  exportMarketplaceAnalyticsAsCSV,
+  getAnalyticsMarkets,
+  getMarketplaceAnalytics,
+} from "./analytics";
+import {
+  exportAuditLogsAsCSV,
+  getAuditLogFilterOptions,
+  getAuditLogs,
+} from "./audit-log";
+import {
+  createCategoryRule,
+  deleteCategoryRule,
+  getCategoryRuleById,
+  getCategoryRuleWithDocumentation,
+  updateCategoryRule,
+} from "./category-rules";
+import {
+  createFaqItem,
+  createFaqSection,
+  deleteFaqItem,
+  deleteFaqSection,
+  getAllFaqSections,
+  getFaqSectionWithItems,
+  updateFaqItem,
+  updateFaqSection,
+} from "./faq";
+import {
+  createAboutSection,
+  createBenefitsSection,
+  createHeroSlide,
+  deleteHeroSlide,
+  getAboutSection,
+  getAllHeroSlides,
+  getBenefitsSection,
+  updateAboutSection,
+  updateBenefitsSection,
+  updateHeroSlide,
+} from "./homepage-content";
+import {
+  getLedgerReconciliationRuns,
+  getLedgerTrialBalance,
+  runLedgerReconciliation,
+} from "./ledger";
+import {
+  createPlatformFeeRule,
+  deletePlatformFeeRule,
+  getPlatformFeeRuleOptions,
+  getPlatformFeeRules,
+  updatePlatformFeeRule,
+} from "./platform-fees";
+import { toggleProductFeaturedAction } from "./products";
+import {
+  createShippingZone,
+  deleteShippingZone,
+  getShippingZones,
+  updateShippingZone,
+} from "./shipping-zones";
+import { getAllStores as getAllStoresForPicker } from "./store-members";
+import {
+  createTaxRule,
+  deleteTaxRule,
+  getTaxRuleMarkets,
+  getTaxRules,
+  updateTaxRule,
+} from "./tax-rules";
+import {
+  getAllTranslations,
+  getTranslationByLang,
+  saveTranslation,
+  translateModifiedKeys,
+  translateToLanguage,
+} from "./translations";
+
+vi.mock("@/db", async () => ({
+  db: (await import("@/test/permission-harness")).db,
+}));
+vi.mock(
+  "@/lib/auth",
+  async () => (await import("@/test/permission-harness")).authModule
+);
+vi.mock(
+  "@/lib/user-role",
+  async () => (await import("@/test/permission-harness")).userRoleModule
+);
+vi.mock(
+  "next/headers",
+  async () => (await import("@/test/permission-harness")).headersModule
+);
+vi.mock("@/lib/permissions", async (importOriginal) =>
+  (await import("@/test/permission-harness")).recordDenials(
+    await importOriginal()
+  )
+);
+vi.mock("next/cache", () => ({
+  revalidatePath: () => {},
+  revalidateTag: () => {},
+}));
+vi.mock("next/navigation", () => ({
+  redirect: (url: string) => {
+    throw new Error(`NEXT_REDIRECT ${url}`);
+  },
+}));
+vi.mock("@/lib/taxonomy", () => ({ findCategoryById: () => null }));
+
+// Inputs the guard refuses before reading them
+const input = {} as never;
+
+function call(
+  name: string,
+  permission: GuardedCall["permission"],
+  run: GuardedCall["run"]
+): GuardedCall {
+  return { name, permission, run };
+}
+
+const platformActions: GuardedCall[] = [
+  // Users and roles
+  call("getAllUsers", "users.manage", () => getAllUsers()),
+  call("updateUser", "users.manage", () =>
+    updateUser("user-1", { status: "active" })
+  ),
+  call("suspendUser", "users.manage", () => suspendUser("user-1")),
+  call("deleteUser", "users.manage", () => deleteUser("user-1")),
+  call("sendPasswordResetToUser", "users.manage", () =>
+    sendPasswordResetToUser("user-1")
+  ),
+  call("resendVerificationEmail", "users.manage", () =>
+    resendVerificationEmail("user-1")
+  ),
+  call("getUserStats", "users.manage", () => getUserStats()),
+  call("getAllRoles", "users.manage", () => getAllRoles()),
+  call("createRole", "users.manage", () =>
+    createRole({ name: "Support", permissions: ["stores.all"] })
+  ),
+  call("updateRole", "users.manage", () =>
+    updateRole(1, { permissions: ["stores.all"] })
+  ),
+  call("deleteRole", "users.manage", () => deleteRole(1)),
+  call("getAllPermissions", "users.manage", () => getAllPermissions()),
+  call("createPermission", "users.manage", () =>
+    createPermission({ name: "orders.export" })
+  ),
+  call("updatePermission", "users.manage", () =>
+    updatePermission("permission-1", { name: "orders.export" })
+  ),
+  call("deletePermission", "users.manage", () =>
+    deletePermission("permission-1")
+  ),
+  call("getRoleWithPermissions", "users.manage", () =>
+    getRoleWithPermissions(1)
+  ),
+
+  // Stores
+  call("getAllStores (picker)", "stores.all", () => getAllStoresForPicker()),
+  call("getAllStores", "platform.settings", () => getAllStores()),
+  call("toggleStoreApproval", "platform.settings", () =>
+    toggleStoreApproval("store-1", true)
+  ),
+
+  // Settings
+  call("getCategoryRuleById", "platform.settings", () =>
+    getCategoryRuleById("rule-1")
+  ),
+  call("getCategoryRuleWithDocumentation", "platform.settings", () =>
+    getCategoryRuleWithDocumentation("rule-1")
+  ),
+  call("createCategoryRule", "platform.settings", () =>
+    createCategoryRule(input)
+  ),
+  call("updateCategoryRule", "platform.settings", () =>
+    updateCategoryRule("rule-1", input)
+  ),
+  call("deleteCategoryRule", "platform.settings", () =>
+    deleteCategoryRule("rule-1")
+  ),
+  call("getPlatformFeeRules", "platform.settings", () => getPlatformFeeRules()),
+  call("getPlatformFeeRuleOptions", "platform.settings", () =>
+    getPlatformFeeRuleOptions()
+  ),
+  call("createPlatformFeeRule", "platform.settings", () =>
+    createPlatformFeeRule(input)
+  ),
+  call("updatePlatformFeeRule", "platform.settings", () =>
+    updatePlatformFeeRule("rule-1", input)
+  ),
+  call("deletePlatformFeeRule", "platform.settings", () =>
+    deletePlatformFeeRule("rule-1")
+  ),
+  call("getShippingZones", "platform.settings", () => getShippingZones()),
+  call("createShippingZone", "platform.settings", () =>
+    createShippingZone(input)
+  ),
+  call("updateShippingZone", "platform.settings", () =>
+    updateShippingZone("zone-1", input)
+  ),
+  call("deleteShippingZone", "platform.settings", () =>
+    deleteShippingZone("zone-1")
+  ),
+  call("getTaxRules", "platform.settings", () => getTaxRules()),
+  call("getTaxRuleMarkets", "platform.settings", () => getTaxRuleMarkets()),
+  call("createTaxRule", "platform.settings", () => createTaxRule(input)),
+  call("updateTaxRule", "platform.settings", () =>
+    updateTaxRule("rule-1", input)
+  ),
+  call("deleteTaxRule", "platform.settings", () => deleteTaxRule("rule-1")),
+
+  // Content
+  call("toggleProductFeaturedAction", "platform.content", () =>
+    toggleProductFeaturedAction("listing-1")
+  ),
+  call("getAllFaqSections", "platform.content", () => getAllFaqSections()),
+  call("getFaqSectionWithItems", "platform.content", () =>
+    getFaqSectionWithItems(1)
+  ),
+  call("createFaqSection", "platform.content", () => createFaqSection(input)),
+  call("updateFaqSection", "platform.content", () => updateFaqSection(input)),
+  call("deleteFaqSection", "platform.content", () => deleteFaqSection(1)),
+  call("createFaqItem", "platform.content", () => createFaqItem(input)),
+  call("updateFaqItem", "platform.content", () => updateFaqItem(input)),
+  call("deleteFaqItem", "platform.content", () => deleteFaqItem(1)),
+  call("getAllHeroSlides", "platform.content", () => getAllHeroSlides()),
+  call("createHeroSlide", "platform.content", () => createHeroSlide(input)),
+  call("updateHeroSlide", "platform.content", () => updateHeroSlide(input)),
+  call("deleteHeroSlide", "platform.content", () => deleteHeroSlide("slide-1")),
+  call("getAboutSection", "platform.content", () => getAboutSection()),
+  call("createAboutSection", "platform.content", () =>
+    createAboutSection(input)
+  ),
+  call("updateAboutSection", "platform.content", () =>
+    updateAboutSection(input)
+  ),
+  call("getBenefitsSection", "platform.content", () => getBenefitsSection()),
+  call("createBenefitsSection", "platform.content", () =>
+    createBenefitsSection(input)
+  ),
+  call("updateBenefitsSection", "platform.content", () =>
+    updateBenefitsSection(input)
+  ),
+  call("getAllTranslations", "platform.content", () => getAllTranslations()),
+  call("getTranslationByLang", "platform.content", () =>
+    getTranslationByLang("fi")
+  ),
+  call("saveTranslation", "platform.content", () => saveTranslation("fi", {})),
+  call("translateModifiedKeys", "platform.content", () =>
+    translateModifiedKeys("fi", ["nav.home"])
+  ),
+  call("translateToLanguage", "platform.content", () =>
+    translateToLanguage("fi")
+  ),
+
+  // Finances
+  call("getAnalyticsMarkets", "platform.finances", () => getAnalyticsMarkets()),
+  call("getMarketplaceAnalytics", "platform.finances", () =>
+    getMarketplaceAnalytics(input)
+  ),
+  call("exportMarketplaceAnalyticsAsCSV", "platform.finances", () =>
+    exportMarketplaceAnalyticsAsCSV(input)
+  ),
+  call("getLedgerTrialBalance", "platform.finances", () =>
+    getLedgerTrialBalance("2026-09")
+  ),
+  call("getLedgerReconciliationRuns", "platform.finances", () =>
+    getLedgerReconciliationRuns()
+  ),
+  call("runLedgerReconciliation", "platform.finances", () =>
+    runLedgerReconciliation("2026-09")
+  ),
+
+  // Audit log
+  call("getAuditLogs", "audit.view", () => getAuditLogs()),
+  call("getAuditLogFilterOptions", "audit.view", () =>
+    getAuditLogFilterOptions()
+  ),
+  call("exportAuditLogsAsCSV", "audit.view", () => exportAuditLogsAsCSV()),
+];
+
+beforeEach(() => {
+  resetHarness();
+});
+
+describe("platform actions", () => {
+  it.each(platformActions)(
+    "$name refuses a role without $permission",
+    async (guarded) => {
+      actAsRoleWithout(guarded.permission, PERMISSION_CATALOG);
+      await expectRefused(guarded);
+    }
+  );
+});
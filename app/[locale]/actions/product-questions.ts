@@ -0,0 +1,657 @@
+"use server";
+
+import { db } from "@/db";
+import {
+  listing,
+  productQuestions,
+  productQuestionTranslations,
+  store,
+  user,
+} from "@/db/schema";
+import { and, desc, eq, isNull, sql, type SQL } from "drizzle-orm";
+import { auth } from "@/lib/auth";
+import { headers } from "next/headers";
+import { routing } from "@/i18n/routing";
+import {
+  PermissionDeniedError,
+  requirePermission,
+  type PermissionSession,
+} from "@/lib/permissions";
+import { recordAuditEvent } from "@/lib/audit";
+import { syncListingToIndex } from "@/lib/search-index";
+import { translateText } from "@/lib/translate";
+import { getStoreIdForUser } from "./store-members";
+import { getStoreOwnerEmail } from "./orders";
+
+const MIN_QUESTION_LENGTH = 10;
+const MAX_QUESTION_LENGTH = 500;
+const MAX_ANSWER_LENGTH = 2000;
+// Unanswered questions one shopper may have open on a product
+const MAX_OPEN_QUESTIONS_PER_PRODUCT = 3;
+
+export interface ActionResponse {
+  success: boolean;
+  error?: string;
+}
+
+export interface ProductQuestionInput {
+  listingId: string;
+  question: string;
+  locale: string; // Locale the shopper is browsing in
+}
+
+export interface PublicProductQuestion {
+  id: string;
+  question: string; // In the requested locale when translated
+  answer: string | null;
+  askerName: string;
+  createdAt: Date;
+  answeredAt: Date | null;
+  isTranslated: boolean; // Asked in another locale
+}
+
+export interface ManagedProductQuestion {
+  id: string;
+  listingId: string;
+  productName: string;
+  productSlug: string;
+  storeId: string;
+  storeName: string | null;
+  question: string;
+  locale: string;
+  answer: string | null;
+  answeredAt: Date | null;
+  askerName: string;
+  status: "published" | "hidden";
+  hiddenReason: string | null;
+  createdAt: Date;
+}
+
+function isSupportedLocale(locale: string): boolean {
+  return (routing.locales as readonly string[]).includes(locale);
+}
+
+/**
+ * The text in every locale: as written for `sourceLocale`, machine
+ * translated for the others (falling back to the original text)
+ */
+async function translateToAllLocales(
+  text: string,
+  sourceLocale: string
+): Promise<Record<string, string>> {
+  const translations: Record<string, string> = {};
+
+  await Promise.all(
+    routing.locales.map(async (locale) => {
+      if (locale === sourceLocale) {
+        translations[locale] = text;
+        return;
+      }
+      try {
+        translations[locale] = await translateText(text, locale);
+      } catch (error) {
+        console.error(`Error translating question to ${locale}:`, error);
+        translations[locale] = text;
+      }
+    })
+  );
+
+  return translations;
+}
+
+async function requireQuestionModerator(session: PermissionSession) {
+  const grant = await requirePermission(session, "reviews.manage");
+  if (!grant.allStores) {
+    throw new PermissionDeniedError(
+      "reviews.manage",
+      "Only platform moderators can moderate questions"
+    );
+  }
+  return grant;
+}
+
+async function getQuestion(questionId: string) {
+  const [question] = await db
+    .select({
+      id: productQuestions.id,
+      listingId: productQuestions.listingId,
+      storeId: productQuestions.storeId,
+      status: productQuestions.status,
+    })
+    .from(productQuestions)
+    .where(eq(productQuestions.id, questionId))
+    .limit(1);
+  return question ?? null;
+}
+
+/**
+ * Email the store owner about a new question. Never throws: the question is
+ * saved either way and shows up in the dashboard.
+ */
+async function notifyStoreOfQuestion(params: {
+  storeId: string;
+  productName: string;
+  question: string;
+}) {
+  if (!process.env.RESEND_API_KEY) return;
+
+  try {
+    const owner = await getStoreOwnerEmail(params.storeId);
+    if (!owner.success || !owner.email) return;
+
+    const resend = (await import("@/lib/resend")).default;
+    const ProductQuestionEmail = (
+      await import("@/app/[locale]/components/product-question-email")
+    ).default;
+
+    const { error } = await resend.emails.send({
+      from:
+        process.env.RESEND_FROM_EMAIL ||
+        "Golden Market <goldenmarket@resend.dev>",
+      to: owner.email,
+      subject: `New question about ${params.productName}`,
+      react: ProductQuestionEmail({
+        productName: params.productName,
+        question: params.question,
+        answerUrl: `${process.env.NEXT_PUBLIC_APP_URL}/dashboard/questions`,
+      }),
+    });
+    if (error) {
+      console.error("Failed to send question notification:", error);
+    }
+  } catch (error) {
+    console.error("Error sending question notification:", error);
+  }
+}
+
+async function selectManagedQuestions(
+  condition: SQL | undefined,
+  limit?: number
+): Promise<ManagedProductQuestion[]> {
+  const query = db
+    .select({
+      id: productQuestions.id,
+      listingId: productQuestions.listingId,
+      productName: listing.name,
+      productSlug: listing.slug,
+      storeId: productQuestions.storeId,
+      storeName: store.storeName,
+      question: productQuestions.question,
+      locale: productQuestions.locale,
+      answer: productQuestions.answer,
+      answeredAt: productQuestions.answeredAt,
+      askerName: user.name,
+      status: productQuestions.status,
+      hiddenReason: productQuestions.hiddenReason,
+      createdAt: productQuestions.createdAt,
+    })
+    .from(productQuestions)
+    .innerJoin(listing, eq(productQuestions.listingId, listing.id))
+    .leftJoin(store, eq(productQuestions.storeId, store.id))
+    .leftJoin(user, eq(productQuestions.userId, user.id))
+    .where(condition)
+    .orderBy(desc(productQuestions.createdAt));
+
+  const rows = limit ? await query.limit(limit) : await query;
+  return rows.map((row) => ({
+    ...row,
+    askerName: row.askerName || "Shopper",
+  }));
+}
+
+/**
+ * Ask a public question about a product. The store is emailed and the
+ * question is translated into every locale.
+ */
+export async function askProductQuestion(
+  input: ProductQuestionInput
+): Promise<ActionResponse> {
+  try {
+    const session = await auth.api.getSession({ headers: await headers() });
+    if (!session?.user?.id) {
+      return {
+        success: false,
+        error: "Please sign in to ask a question",
+      };
+    }
+    const userId = session.user.id;
+
+    const text = input.question.trim();
+    if (text.length < MIN_QUESTION_LENGTH) {
+      return {
+        success: false,
+        error: `Question must be at least ${MIN_QUESTION_LENGTH} characters`,
+      };
+    }
+    if (text.length > MAX_QUESTION_LENGTH) {
+      return {
+        success: false,
+        error: `Question must be at most ${MAX_QUESTION_LENGTH} characters`,
+      };
+    }
+    const locale = isSupportedLocale(input.locale)
+      ? input.locale
+      : routing.defaultLocale;
+
+    const [product] = await db
+      .select({
+        id: listing.id,
+        name: listing.name,
+        storeId: listing.storeId,
+        status: listing.status,
+      })
+      .from(listing)
+      .where(eq(listing.id, input.listingId))
+      .limit(1);
+
+    if (!product || product.status !== "active" || !product.storeId) {
+      return {
+        success: false,
+        error: "Product not found",
+      };
+    }
+
+    const openQuestions = await db
+      .select({ question: productQuestions.question })
+      .from(productQuestions)
+      .where(
+        and(
+          eq(productQuestions.listingId, product.id),
+          eq(productQuestions.userId, userId),
+          isNull(productQuestions.answer)
+        )
+      );
+
+    if (
+      openQuestions.some((q) => q.question.toLowerCase() === text.toLowerCase())
+    ) {
+      return {
+        success: false,
+        error: "You have already asked this question",
+      };
+    }
+    if (openQuestions.length >= MAX_OPEN_QUESTIONS_PER_PRODUCT) {
+      return {
+        success: false,
+        error:
+          "Please wait for the store to answer your earlier questions before asking more",
+      };
+    }
+
+    const translations = await translateToAllLocales(text, locale);
+
+    await db.transaction(async (tx) => {
+      const [created] = await tx
+        .insert(productQuestions)
+        .values({
+          listingId: product.id,
+          storeId: product.storeId!,
+          userId,
+          question: text,
+          locale,
+        })
+        .returning({ id: productQuestions.id });
+
+      await tx.insert(productQuestionTranslations).values(
+        Object.entries(translations).map(([translationLocale, question]) => ({
+          questionId: created.id,
+          locale: translationLocale,
+          question,
+        }))
+      );
+    });
+
+    await notifyStoreOfQuestion({
+      storeId: product.storeId,
+      productName: product.name,
+      question: text,
+    });
+
+    return { success: true };
+  } catch (error) {
+    console.error("Error asking product question:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error ? error.message : "Failed to submit question",
+    };
+  }
+}
+
+/**
+ * Published questions of a product in the given locale, answered ones first
+ */
+export async function getProductQuestions(
+  listingId: string,
+  locale: string
+): Promise<ActionResponse & { questions: PublicProductQuestion[] }> {
+  try {
+    const rows = await db
+      .select({
+        id: productQuestions.id,
+        question: productQuestions.question,
+        answer: productQuestions.answer,
+        locale: productQuestions.locale,
+        translatedQuestion: productQuestionTranslations.question,
+        translatedAnswer: productQuestionTranslations.answer,
+        askerName: user.name,
+        createdAt: productQuestions.createdAt,
+        answeredAt: productQuestions.answeredAt,
+      })
+      .from(productQuestions)
+      .leftJoin(
+        productQuestionTranslations,
+        and(
+          eq(productQuestionTranslations.questionId, productQuestions.id),
+          eq(productQuestionTranslations.locale, locale)
+        )
+      )
+      .leftJoin(user, eq(productQuestions.userId, user.id))
+      .where(
+        and(
+          eq(productQuestions.listingId, listingId),
+          eq(productQuestions.status, "published")
+        )
+      )
+      .orderBy(
+        sql`${productQuestions.answeredAt} IS NULL`,
+        desc(productQuestions.createdAt)
+      );
+
+    return {
+      success: true,
+      questions: rows.map((row) => ({
+        id: row.id,
+        question: row.translatedQuestion || row.question,
+        answer: row.answer ? row.translatedAnswer || row.answer : null,
+        askerName: row.askerName?.split(" ")[0] || "Shopper",
+        createdAt: row.createdAt,
+        answeredAt: row.answeredAt,
+        isTranslated: row.locale !== locale && !!row.translatedQuestion,
+      })),
+    };
+  } catch (error) {
+    console.error("Error fetching product questions:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error ? error.message : "Failed to fetch questions",
+      questions: [],
+    };
+  }
+}
+
+/**
+ * Answer a question, or edit the answer. The answer is public and
+ * translated into every locale.
+ */
+export async function answerProductQuestion(
+  questionId: string,
+  answer: string,
+  locale: string // Locale the answer is written in
+): Promise<ActionResponse> {
+  try {
+    const session = await auth.api.getSession({ headers: await headers() });
+    if (!session?.user?.id) {
+      return {
+        success: false,
+        error: "Authentication required",
+      };
+    }
+
+    const question = await getQuestion(questionId);
+    if (!question) {
+      return {
+        success: false,
+        error: "Question not found",
+      };
+    }
+
+    await requirePermission(session, "reviews.manage", {
+      storeId: question.storeId,
+    });
+
+    const text = answer.trim();
+    if (!text) {
+      return {
+        success: false,
+        error: "Answer cannot be empty",
+      };
+    }
+    if (text.length > MAX_ANSWER_LENGTH) {
+      return {
+        success: false,
+        error: `Answer must be at most ${MAX_ANSWER_LENGTH} characters`,
+      };
+    }
+
+    const translations = await translateToAllLocales(
+      text,
+      isSupportedLocale(locale) ? locale : routing.defaultLocale
+    );
+
+    await db.transaction(async (tx) => {
+      await tx
+        .update(productQuestions)
+        .set({
+          answer: text,
+          answeredAt: new Date(),
+          answeredBy: session.user.id,
+        })
+        .where(eq(productQuestions.id, questionId));
+
+      for (const [translationLocale, translated] of Object.entries(
+        translations
+      )) {
+        await tx
+          .update(productQuestionTranslations)
+          .set({ answer: translated })
+          .where(
+            and(
+              eq(productQuestionTranslations.questionId, questionId),
+              eq(productQuestionTranslations.locale, translationLocale)
+            )
+          );
+      }
+    });
+
+    await syncListingToIndex(question.listingId);
+
+    return { success: true };
+  } catch (error) {
+    console.error("Error answering product question:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to save answer",
+    };
+  }
+}
+
+/**
+ * Questions about the current user's store's products, for answering from
+ * the dashboard. Includes hidden questions so the store can see why they
+ * disappeared.
+ */
+export async function getStoreQuestionsToManage(): Promise<
+  ActionResponse & { questions: ManagedProductQuestion[] }
+> {
+  try {
+    const session = await auth.api.getSession({ headers: await headers() });
+    const { storeId, error } = await getStoreIdForUser();
+    if (!storeId) {
+      return {
+        success: false,
+        error: error || "Store not found",
+        questions: [],
+      };
+    }
+
+    await requirePermission(session, "reviews.manage", { storeId });
+
+    return {
+      success: true,
+      questions: await selectManagedQuestions(
+        eq(productQuestions.storeId, storeId)
+      ),
+    };
+  } catch (error) {
+    console.error("Error fetching store questions to manage:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error ? error.message : "Failed to fetch questions",
+      questions: [],
+    };
+  }
+}
+
+/**
+ * Questions across all stores for moderators: the latest published ones, or
+ * the hidden ones so they can be restored
+ */
+export async function getQuestionModerationQueue(
+  view: "recent" | "hidden" = "recent"
+): Promise<ActionResponse & { questions: ManagedProductQuestion[] }> {
+  try {
+    const session = await auth.api.getSession({ headers: await headers() });
+    await requireQuestionModerator(session);
+
+    return {
+      success: true,
+      questions: await selectManagedQuestions(
+        eq(productQuestions.status, view === "hidden" ? "hidden" : "published"),
+        100
+      ),
+    };
+  } catch (error) {
+    console.error("Error fetching question moderation queue:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error ? error.message : "Failed to fetch questions",
+      questions: [],
+    };
+  }
+}
+
+/**
+ * Hide a question and its answer from the product page (moderators only)
+ */
+export async function hideProductQuestion(
+  questionId: string,
+  reason: string
+): Promise<ActionResponse> {
+  try {
+    const session = await auth.api.getSession({ headers: await headers() });
+    const { userId } = await requireQuestionModerator(session);
+
+    const hiddenReason = reason.trim();
+    if (!hiddenReason) {
+      return {
+        success: false,
+        error: "A reason is required to hide a question",
+      };
+    }
+
+    const question = await getQuestion(questionId);
+    if (!question) {
+      return {
+        success: false,
+        error: "Question not found",
+      };
+    }
+    if (question.status === "hidden") {
+      return {
+        success: false,
+        error: "Question is already hidden",
+      };
+    }
+
+    await db
+      .update(productQuestions)
+      .set({
+        status: "hidden",
+        hiddenReason,
+        hiddenAt: new Date(),
+        hiddenBy: userId,
+      })
+      .where(eq(productQuestions.id, questionId));
+
+    await syncListingToIndex(question.listingId);
+
+    await recordAuditEvent({
+      action: "product_question.hidden",
+      entityType: "product_question",
+      entityId: questionId,
+      actorId: userId,
+      before: { status: question.status },
+      after: { status: "hidden", hiddenReason },
+      metadata: { storeId: question.storeId, listingId: question.listingId },
+    });
+
+    return { success: true };
+  } catch (error) {
+    console.error("Error hiding product question:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to hide question",
+    };
+  }
+}
+
+/**
+ * Publish a hidden question again (moderators only)
+ */
+export async function restoreProductQuestion(
+  questionId: string
+): Promise<ActionResponse> {
+  try {
+    const session = await auth.api.getSession({ headers: await headers() });
+    const { userId } = await requireQuestionModerator(session);
+
+    const question = await getQuestion(questionId);
+    if (!question) {
+      return {
+        success: false,
+        error: "Question not found",
+      };
+    }
+    if (question.status !== "hidden") {
+      return {
+        success: false,
+        error: "Question is not hidden",
+      };
+    }
+
+    await db
+      .update(productQuestions)
+      .set({
+        status: "published",
+        hiddenReason: null,
+        hiddenAt: null,
+        hiddenBy: null,
+      })
+      .where(eq(productQuestions.id, questionId));
+
+    await syncListingToIndex(question.listingId);
+
+    await recordAuditEvent({
+      action: "product_question.restored",
+      entityType: "product_question",
+      entityId: questionId,
+      actorId: userId,
+      before: { status: "hidden" },
+      after: { status: "published" },
+      metadata: { storeId: question.storeId, listingId: question.listingId },
+    });
+
+    return { success: true };
+  } catch (error) {
+    console.error("Error restoring product question:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error ? error.message : "Failed to restore question",
+    };
+  }
+}
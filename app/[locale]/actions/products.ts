@@ -14,8 +14,10 @@ import {
 } from "@/lib/listing";
 import { revalidatePath } from "next/cache";
 import { db } from "@/db";
-import { listing, userRoles, roles } from "@/db/schema";
+import { listing } from "@/db/schema";
 import { eq } from "drizzle-orm";
+import { requirePermission } from "@/lib/permissions";
+import { recordAuditEvent } from "@/lib/audit";
 
 async function getCurrentUser() {
   const session = await auth.api.getSession({
@@ -32,6 +34,7 @@ async function getCurrentUser() {
 export async function createProductAction(data: CreateListingData) {
   try {
     const user = await getCurrentUser();
+    await requirePermission({ user }, "products.manage");
 
     // Check store setup for sellers
     const { getStoreIdForUser } = await import("./store-members");
@@ -71,6 +74,7 @@ export async function createProductAction(data: CreateListingData) {
 export async function updateProductAction(data: UpdateListingData) {
   try {
     const user = await getCurrentUser();
+    await requirePermission({ user }, "products.manage");
 
     // Verify the product belongs to the current user
     const { getListingById } = await import("@/lib/listing");
@@ -103,16 +107,38 @@ export async function updateProductAction(data: UpdateListingData) {
 
 export async function adminUpdateProductAction(data: UpdateListingData) {
   try {
-    // Admin can update any product, no ownership check needed
+    const user = await getCurrentUser();
+
+    // Admins can update any store's product
     const { getListingById } = await import("@/lib/listing");
     const existingProduct = await getListingById(data.id);
 
     if (!existingProduct) {
       return { success: false, error: "Product not found" };
     }
+    const { allStores } = await requirePermission({ user }, "products.manage", {
+      storeId: existingProduct.storeId,
+    });
 
     const product = await updateListing(data);
 
+    // Changes by users who manage every store are audited
+    if (allStores) {
+      await recordAuditEvent({
+        action: "product.updated",
+        entityType: "product",
+        entityId: data.id,
+        actorId: user.id,
+        before: existingProduct,
+        after: product,
+        metadata: {
+          name: product.name,
+          storeId: product.storeId,
+          ownProduct: existingProduct.producerId === user.id,
+        },
+      });
+    }
+
     revalidatePath("/dashboard/admin/products");
     revalidatePath("/dashboard/products");
     revalidatePath(`/dashboard/products/${data.id}`);
@@ -131,6 +157,7 @@ export async function adminUpdateProductAction(data: UpdateListingData) {
 export async function deleteProductAction(id: string) {
   try {
     const user = await getCurrentUser();
+    await requirePermission({ user }, "products.manage");
 
     // Verify the product belongs to the current user
     const { getListingById } = await import("@/lib/listing");
@@ -162,16 +189,36 @@ export async function deleteProductAction(id: string) {
 
 export async function adminDeleteProductAction(id: string) {
   try {
-    // Admin can delete any product, no ownership check needed
+    const user = await getCurrentUser();
+
+    // Admins can delete any store's product
     const { getListingById } = await import("@/lib/listing");
     const existingProduct = await getListingById(id);
 
     if (!existingProduct) {
       return { success: false, error: "Product not found" };
     }
+    const { allStores } = await requirePermission({ user }, "products.manage", {
+      storeId: existingProduct.storeId,
+    });
 
     await deleteListing(id);
 
+    // Changes by users who manage every store are audited
+    if (allStores) {
+      await recordAuditEvent({
+        action: "product.deleted",
+        entityType: "product",
+        entityId: id,
+        actorId: user.id,
+        metadata: {
+          name: existingProduct.name,
+          storeId: existingProduct.storeId,
+          ownProduct: existingProduct.producerId === user.id,
+        },
+      });
+    }
+
     revalidatePath("/dashboard/admin/products");
     revalidatePath("/dashboard/products");
 
@@ -189,6 +236,7 @@ export async function adminDeleteProductAction(id: string) {
 export async function toggleProductStatusAction(id: string) {
   try {
     const user = await getCurrentUser();
+    await requirePermission({ user }, "products.manage");
 
     // Verify the product belongs to the current user
     const { getListingById } = await import("@/lib/listing");
@@ -231,28 +279,7 @@ export async function toggleProductFeaturedAction(id: string) {
       return { success: false, error: "Unauthorized" };
     }
 
-    // Get user's role
-    const userRole = await db
-      .select({
-        roleName: roles.name,
-      })
-      .from(userRoles)
-      .innerJoin(roles, eq(userRoles.roleId, roles.id))
-      .where(eq(userRoles.userId, session.user.id))
-      .limit(1);
-
-    if (userRole.length === 0) {
-      return { success: false, error: "Unauthorized" };
-    }
-
-    const roleName = userRole[0].roleName.toLowerCase();
-
-    if (roleName !== "admin") {
-      return {
-        success: false,
-        error: "Only admins can toggle featured status",
-      };
-    }
+    await requirePermission(session, "platform.content");
 
     // Verify the product exists
     const { getListingById } = await import("@/lib/listing");
@@ -264,6 +291,16 @@ export async function toggleProductFeaturedAction(id: string) {
 
     const product = await toggleListingFeatured(id);
 
+    await recordAuditEvent({
+      action: "product.featured_toggled",
+      entityType: "product",
+      entityId: id,
+      actorId: session.user.id,
+      before: { isFeatured: existingProduct.isFeatured },
+      after: { isFeatured: product.isFeatured },
+      metadata: { name: existingProduct.name },
+    });
+
     revalidatePath("/dashboard");
     revalidatePath("/dashboard/products");
 
@@ -284,6 +321,7 @@ export async function toggleProductFeaturedAction(id: string) {
 export async function exportListingsToCSVAction(selectedIds?: string[]) {
   try {
     const user = await getCurrentUser();
+    await requirePermission({ user }, "products.manage");
 
     // Get listings for the current user
     let listings;
@@ -367,6 +405,7 @@ export async function exportListingsToCSVAction(selectedIds?: string[]) {
 export async function importListingsFromCSVAction(csvContent: string) {
   try {
     const user = await getCurrentUser();
+    await requirePermission({ user }, "products.manage");
 
     // Parse CSV content
     const lines = csvContent.trim().split("\n");
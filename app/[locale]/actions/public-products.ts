@@ -13,6 +13,7 @@ import {
 import { eq, and, desc, inArray, sql, or, isNotNull } from "drizzle-orm";
 import { unstable_cache } from "next/cache";
 import { checkShippingAvailability } from "./shipping-availability";
+import { getBundleAvailability } from "@/lib/bundles";
 
 export interface PublicProduct {
   id: string;
@@ -859,6 +860,15 @@ async function fetchProductVariants(listingId: string): Promise<
       }
     }
 
+    // Bundles are available as far as their components allow
+    const bundleAvailability = await getBundleAvailability([
+      ...variantMap.keys(),
+    ]);
+    for (const [variantId, available] of bundleAvailability) {
+      const variant = variantMap.get(variantId);
+      if (variant) variant.availableSum = available;
+    }
+
     return {
       success: true,
       result: Array.from(variantMap.values()).map((v) => ({
@@ -931,6 +941,12 @@ export async function validateInventoryForCartItem(
       const id = r.variantId ?? "";
       variantSums.set(id, (variantSums.get(id) ?? 0) + avail);
     }
+    const bundleAvailability = await getBundleAvailability([
+      ...variantSums.keys(),
+    ]);
+    for (const [id, available] of bundleAvailability) {
+      variantSums.set(id, available);
+    }
 
     // Total available: if specific variant, use that; else sum all variants for listing
     let totalAvailable = 0;
@@ -0,0 +1,840 @@
+"use server";
+
+import { db } from "@/db";
+import {
+  bundleComponents,
+  inventoryItems,
+  inventoryLocations,
+  listing,
+  listingVariants,
+  purchaseOrderItems,
+  purchaseOrders,
+  store,
+  suppliers,
+  type PurchaseOrder,
+  type PurchaseOrderItem,
+  type Supplier,
+} from "@/db/schema";
+import { and, asc, desc, eq, inArray, sql } from "drizzle-orm";
+import { revalidatePath } from "next/cache";
+import { headers } from "next/headers";
+import { auth } from "@/lib/auth";
+import { ActionResponse } from "@/lib/types";
+import {
+  closePurchaseOrder as closePurchaseOrderRecord,
+  formatPurchaseOrderNumber,
+  generatePurchaseOrderPdf,
+  placePurchaseOrder as placePurchaseOrderRecord,
+  receivePurchaseOrder as receivePurchaseOrderRecord,
+} from "@/lib/purchase-orders";
+import { getStoreIdForUser } from "./store-id";
+import { requireCurrentPermission, requirePermission } from "@/lib/permissions";
+
+export interface SupplierData {
+  name: string;
+  contactName?: string | null;
+  email?: string | null;
+  phone?: string | null;
+  address?: string | null;
+  notes?: string | null;
+  isActive?: boolean;
+}
+
+export interface PurchaseOrderData {
+  supplierId: string;
+  locationId: string;
+  expectedAt?: string | null; // yyyy-mm-dd
+  notes?: string | null;
+  items: Array<{ variantId: string; quantity: number; unitCost: number }>;
+}
+
+export interface PurchaseOrderListRow {
+  id: string;
+  number: string; // PO-0001
+  sequence: number;
+  status: string;
+  supplierName: string;
+  locationName: string;
+  currency: string;
+  expectedAt: Date | null;
+  orderedAt: Date | null;
+  createdAt: Date;
+  quantityOrdered: number;
+  quantityReceived: number;
+  total: number;
+}
+
+export interface PurchaseOrderDetail {
+  number: string;
+  purchaseOrder: PurchaseOrder;
+  supplier: Supplier;
+  locationName: string;
+  items: PurchaseOrderItem[];
+}
+
+export interface PurchaseOrderVariantOption {
+  variantId: string;
+  listingName: string;
+  variantTitle: string;
+  sku: string | null;
+  costPerItem: number;
+}
+
+export interface PurchaseOrderFormOptions {
+  currency: string;
+  suppliers: Array<{ id: string; name: string }>;
+  locations: Array<{ id: string; name: string }>;
+  variants: PurchaseOrderVariantOption[];
+}
+
+function revalidatePurchaseOrders(purchaseOrderId?: string) {
+  revalidatePath("/dashboard/inventory");
+  revalidatePath("/dashboard/inventory/purchase-orders");
+  if (purchaseOrderId) {
+    revalidatePath(`/dashboard/inventory/purchase-orders/${purchaseOrderId}`);
+  }
+}
+
+function cleanText(value?: string | null): string | null {
+  const trimmed = value?.trim();
+  return trimmed ? trimmed : null;
+}
+
+/**
+ * The purchase order if the current user may manage it
+ */
+async function getManagedPurchaseOrder(
+  purchaseOrderId: string
+): Promise<PurchaseOrder | { error: string }> {
+  await requireCurrentPermission("inventory.manage");
+  const { storeId, isAdmin } = await getStoreIdForUser();
+  if (!storeId && !isAdmin) {
+    return { error: "Unauthorized" };
+  }
+
+  const [purchaseOrder] = await db
+    .select()
+    .from(purchaseOrders)
+    .where(eq(purchaseOrders.id, purchaseOrderId))
+    .limit(1);
+  if (!purchaseOrder || (!isAdmin && purchaseOrder.storeId !== storeId)) {
+    return { error: "Purchase order not found" };
+  }
+  return purchaseOrder;
+}
+
+/**
+ * Check a PO form against the store and turn its lines into item rows
+ */
+async function buildPurchaseOrderItems(
+  storeId: string,
+  data: PurchaseOrderData
+): Promise<
+  | Array<Omit<typeof purchaseOrderItems.$inferInsert, "purchaseOrderId">>
+  | { error: string }
+> {
+  if (data.items.length === 0) {
+    return { error: "Add at least one item" };
+  }
+  const variantIds = data.items.map((item) => item.variantId);
+  if (new Set(variantIds).size !== variantIds.length) {
+    return { error: "Each product can only be added once" };
+  }
+  if (
+    data.items.some(
+      (item) => !Number.isInteger(item.quantity) || item.quantity < 1
+    )
+  ) {
+    return { error: "Quantities must be whole numbers" };
+  }
+  if (
+    data.items.some(
+      (item) => !Number.isFinite(item.unitCost) || item.unitCost < 0
+    )
+  ) {
+    return { error: "Unit costs cannot be negative" };
+  }
+
+  const [supplier] = await db
+    .select({ id: suppliers.id })
+    .from(suppliers)
+    .where(
+      and(eq(suppliers.id, data.supplierId), eq(suppliers.storeId, storeId))
+    )
+    .limit(1);
+  if (!supplier) {
+    return { error: "Supplier not found" };
+  }
+  const [location] = await db
+    .select({ id: inventoryLocations.id })
+    .from(inventoryLocations)
+    .where(
+      and(
+        eq(inventoryLocations.id, data.locationId),
+        eq(inventoryLocations.storeId, storeId)
+      )
+    )
+    .limit(1);
+  if (!location) {
+    return { error: "Location not found" };
+  }
+
+  const variants = await db
+    .select({
+      id: listingVariants.id,
+      title: listingVariants.title,
+      sku: listingVariants.sku,
+      listingName: listing.name,
+    })
+    .from(listingVariants)
+    .innerJoin(listing, eq(listingVariants.listingId, listing.id))
+    .where(
+      and(inArray(listingVariants.id, variantIds), eq(listing.storeId, storeId))
+    );
+  if (variants.length !== variantIds.length) {
+    return { error: "Purchase orders can only contain your own products" };
+  }
+  // Bundles hold no stock of their own: order the components instead
+  const [bundle] = await db
+    .select({ id: bundleComponents.id })
+    .from(bundleComponents)
+    .where(inArray(bundleComponents.bundleVariantId, variantIds))
+    .limit(1);
+  if (bundle) {
+    return { error: "Order the products in a bundle, not the bundle itself" };
+  }
+
+  const variantById = new Map(variants.map((v) => [v.id, v]));
+  return data.items.map((item) => {
+    const variant = variantById.get(item.variantId)!;
+    return {
+      variantId: item.variantId,
+      productName: variant.listingName,
+      variantTitle: variant.title,
+      sku: variant.sku,
+      quantityOrdered: item.quantity,
+      unitCost: item.unitCost.toFixed(2),
+    };
+  });
+}
+
+/**
+ * Suppliers of the current user's store
+ */
+export async function getSuppliers(): Promise<
+  ActionResponse & { result?: Supplier[] }
+> {
+  try {
+    await requireCurrentPermission("inventory.manage");
+    const { storeId } = await getStoreIdForUser();
+    if (!storeId) {
+      return { success: false, error: "Unauthorized" };
+    }
+
+    const result = await db
+      .select()
+      .from(suppliers)
+      .where(eq(suppliers.storeId, storeId))
+      .orderBy(desc(suppliers.isActive), asc(suppliers.name));
+    return { success: true, result };
+  } catch (error) {
+    console.error("Error fetching suppliers:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error ? error.message : "Failed to fetch suppliers",
+    };
+  }
+}
+
+export async function createSupplier(
+  data: SupplierData
+): Promise<ActionResponse & { result?: Supplier }> {
+  try {
+    await requireCurrentPermission("inventory.manage");
+    const { storeId } = await getStoreIdForUser();
+    if (!storeId) {
+      return { success: false, error: "Unauthorized" };
+    }
+    const name = cleanText(data.name);
+    if (!name) {
+      return { success: false, error: "Supplier name is required" };
+    }
+
+    const [result] = await db
+      .insert(suppliers)
+      .values({
+        storeId,
+        name,
+        contactName: cleanText(data.contactName),
+        email: cleanText(data.email),
+        phone: cleanText(data.phone),
+        address: cleanText(data.address),
+        notes: cleanText(data.notes),
+        isActive: data.isActive ?? true,
+      })
+      .returning();
+
+    revalidatePath("/dashboard/inventory/suppliers");
+    return { success: true, message: "Supplier added", result };
+  } catch (error) {
+    console.error("Error creating supplier:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error ? error.message : "Failed to create supplier",
+    };
+  }
+}
+
+export async function updateSupplier(
+  supplierId: string,
+  data: SupplierData
+): Promise<ActionResponse> {
+  try {
+    await requireCurrentPermission("inventory.manage");
+    const { storeId } = await getStoreIdForUser();
+    if (!storeId) {
+      return { success: false, error: "Unauthorized" };
+    }
+    const name = cleanText(data.name);
+    if (!name) {
+      return { success: false, error: "Supplier name is required" };
+    }
+
+    const [updated] = await db
+      .update(suppliers)
+      .set({
+        name,
+        contactName: cleanText(data.contactName),
+        email: cleanText(data.email),
+        phone: cleanText(data.phone),
+        address: cleanText(data.address),
+        notes: cleanText(data.notes),
+        isActive: data.isActive ?? true,
+      })
+      .where(and(eq(suppliers.id, supplierId), eq(suppliers.storeId, storeId)))
+      .returning({ id: suppliers.id });
+    if (!updated) {
+      return { success: false, error: "Supplier not found" };
+    }
+
+    revalidatePath("/dashboard/inventory/suppliers");
+    return { success: true, message: "Supplier updated" };
+  } catch (error) {
+    console.error("Error updating supplier:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error ? error.message : "Failed to update supplier",
+    };
+  }
+}
+
+/**
+ * Delete a supplier that has no purchase orders. Suppliers with orders are
+ * deactivated instead so their history stays readable.
+ */
+export async function deleteSupplier(
+  supplierId: string
+): Promise<ActionResponse> {
+  try {
+    await requireCurrentPermission("inventory.manage");
+    const { storeId } = await getStoreIdForUser();
+    if (!storeId) {
+      return { success: false, error: "Unauthorized" };
+    }
+
+    const [purchaseOrder] = await db
+      .select({ id: purchaseOrders.id })
+      .from(purchaseOrders)
+      .where(eq(purchaseOrders.supplierId, supplierId))
+      .limit(1);
+    if (purchaseOrder) {
+      return {
+        success: false,
+        error:
+          "This supplier has purchase orders. Mark it inactive instead of deleting it.",
+      };
+    }
+
+    const [deleted] = await db
+      .delete(suppliers)
+      .where(and(eq(suppliers.id, supplierId), eq(suppliers.storeId, storeId)))
+      .returning({ id: suppliers.id });
+    if (!deleted) {
+      return { success: false, error: "Supplier not found" };
+    }
+
+    revalidatePath("/dashboard/inventory/suppliers");
+    return { success: true, message: "Supplier deleted" };
+  } catch (error) {
+    console.error("Error deleting supplier:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error ? error.message : "Failed to delete supplier",
+    };
+  }
+}
+
+/**
+ * Purchase orders of the current user's store (all stores for admins),
+ * newest first, with ordered and received totals
+ */
+export async function getPurchaseOrders(): Promise<
+  ActionResponse & { result?: PurchaseOrderListRow[] }
+> {
+  try {
+    await requireCurrentPermission("inventory.manage");
+    const { storeId, isAdmin } = await getStoreIdForUser();
+    if (!storeId && !isAdmin) {
+      return { success: false, error: "Unauthorized" };
+    }
+
+    const rows = await db
+      .select({
+        id: purchaseOrders.id,
+        sequence: purchaseOrders.sequence,
+        status: purchaseOrders.status,
+        supplierName: suppliers.name,
+        locationName: inventoryLocations.name,
+        currency: purchaseOrders.currency,
+        expectedAt: purchaseOrders.expectedAt,
+        orderedAt: purchaseOrders.orderedAt,
+        createdAt: purchaseOrders.createdAt,
+        quantityOrdered: sql<number>`COALESCE(SUM(${purchaseOrderItems.quantityOrdered})::int, 0)`,
+        quantityReceived: sql<number>`COALESCE(SUM(${purchaseOrderItems.quantityReceived})::int, 0)`,
+        total: sql<string>`COALESCE(SUM(${purchaseOrderItems.quantityOrdered} * ${purchaseOrderItems.unitCost}), 0)`,
+      })
+      .from(purchaseOrders)
+      .innerJoin(suppliers, eq(purchaseOrders.supplierId, suppliers.id))
+      .innerJoin(
+        inventoryLocations,
+        eq(purchaseOrders.locationId, inventoryLocations.id)
+      )
+      .leftJoin(
+        purchaseOrderItems,
+        eq(purchaseOrderItems.purchaseOrderId, purchaseOrders.id)
+      )
+      .where(
+        !isAdmin && storeId ? eq(purchaseOrders.storeId, storeId) : undefined
+      )
+      .groupBy(purchaseOrders.id, suppliers.name, inventoryLocations.name)
+      .orderBy(desc(purchaseOrders.createdAt));
+
+    return {
+      success: true,
+      result: rows.map((row) => ({
+        ...row,
+        number: formatPurchaseOrderNumber(row.sequence),
+        quantityOrdered: Number(row.quantityOrdered),
+        quantityReceived: Number(row.quantityReceived),
+        total: parseFloat(row.total),
+      })),
+    };
+  } catch (error) {
+    console.error("Error fetching purchase orders:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Failed to fetch purchase orders",
+    };
+  }
+}
+
+export async function getPurchaseOrder(
+  purchaseOrderId: string
+): Promise<ActionResponse & { result?: PurchaseOrderDetail }> {
+  try {
+    const managed = await getManagedPurchaseOrder(purchaseOrderId);
+    if ("error" in managed) {
+      return { success: false, error: managed.error };
+    }
+
+    const [[row], items] = await Promise.all([
+      db
+        .select({ supplier: suppliers, locationName: inventoryLocations.name })
+        .from(suppliers)
+        .innerJoin(
+          inventoryLocations,
+          eq(inventoryLocations.id, managed.locationId)
+        )
+        .where(eq(suppliers.id, managed.supplierId))
+        .limit(1),
+      db
+        .select()
+        .from(purchaseOrderItems)
+        .where(eq(purchaseOrderItems.purchaseOrderId, purchaseOrderId))
+        .orderBy(asc(purchaseOrderItems.createdAt)),
+    ]);
+
+    return {
+      success: true,
+      result: {
+        number: formatPurchaseOrderNumber(managed.sequence),
+        purchaseOrder: managed,
+        supplier: row.supplier,
+        locationName: row.locationName,
+        items,
+      },
+    };
+  } catch (error) {
+    console.error("Error fetching purchase order:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Failed to fetch purchase order",
+    };
+  }
+}
+
+/**
+ * Suppliers, locations and orderable variants (not bundles) for the PO form
+ */
+export async function getPurchaseOrderFormOptions(): Promise<
+  ActionResponse & { result?: PurchaseOrderFormOptions }
+> {
+  try {
+    await requireCurrentPermission("inventory.manage");
+    const { storeId } = await getStoreIdForUser();
+    if (!storeId) {
+      return { success: false, error: "Unauthorized" };
+    }
+
+    const [[storeRow], supplierRows, locationRows, variantRows, bundleRows] =
+      await Promise.all([
+        db
+          .select({ currency: store.storeCurrency })
+          .from(store)
+          .where(eq(store.id, storeId))
+          .limit(1),
+        db
+          .select({ id: suppliers.id, name: suppliers.name })
+          .from(suppliers)
+          .where(
+            and(eq(suppliers.storeId, storeId), eq(suppliers.isActive, true))
+          )
+          .orderBy(asc(suppliers.name)),
+        db
+          .select({ id: inventoryLocations.id, name: inventoryLocations.name })
+          .from(inventoryLocations)
+          .where(
+            and(
+              eq(inventoryLocations.storeId, storeId),
+              eq(inventoryLocations.isActive, true)
+            )
+          )
+          .orderBy(asc(inventoryLocations.name)),
+        db
+          .select({
+            variantId: listingVariants.id,
+            listingName: listing.name,
+            variantTitle: listingVariants.title,
+            sku: listingVariants.sku,
+            costPerItem: inventoryItems.costPerItem,
+          })
+          .from(listingVariants)
+          .innerJoin(listing, eq(listingVariants.listingId, listing.id))
+          .leftJoin(
+            inventoryItems,
+            eq(inventoryItems.variantId, listingVariants.id)
+          )
+          .where(eq(listing.storeId, storeId))
+          .orderBy(asc(listing.name), asc(listingVariants.title)),
+        db
+          .selectDistinct({ id: bundleComponents.bundleVariantId })
+          .from(bundleComponents),
+      ]);
+    const bundleIds = new Set(bundleRows.map((b) => b.id));
+
+    return {
+      success: true,
+      result: {
+        currency: storeRow?.currency ?? "EUR",
+        suppliers: supplierRows,
+        locations: locationRows,
+        variants: variantRows
+          .filter((v) => !bundleIds.has(v.variantId))
+          .map((v) => ({
+            ...v,
+            costPerItem: parseFloat(v.costPerItem ?? "0") || 0,
+          })),
+      },
+    };
+  } catch (error) {
+    console.error("Error fetching purchase order options:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Failed to fetch purchase order options",
+    };
+  }
+}
+
+/**
+ * Create a draft purchase order, numbered per store
+ */
+export async function createPurchaseOrder(
+  data: PurchaseOrderData
+): Promise<ActionResponse & { result?: { id: string } }> {
+  try {
+    const { storeId } = await getStoreIdForUser();
+    if (!storeId) {
+      return { success: false, error: "Unauthorized" };
+    }
+    const session = await auth.api.getSession({ headers: await headers() });
+    await requirePermission(session, "inventory.manage");
+
+    const items = await buildPurchaseOrderItems(storeId, data);
+    if ("error" in items) {
+      return { success: false, error: items.error };
+    }
+    const [storeRow] = await db
+      .select({ currency: store.storeCurrency })
+      .from(store)
+      .where(eq(store.id, storeId))
+      .limit(1);
+
+    const purchaseOrder = await db.transaction(async (tx) => {
+      const [last] = await tx
+        .select({
+          sequence: sql<number>`COALESCE(MAX(${purchaseOrders.sequence}), 0)::int`,
+        })
+        .from(purchaseOrders)
+        .where(eq(purchaseOrders.storeId, storeId));
+
+      const [created] = await tx
+        .insert(purchaseOrders)
+        .values({
+          storeId,
+          supplierId: data.supplierId,
+          locationId: data.locationId,
+          sequence: Number(last?.sequence ?? 0) + 1,
+          currency: storeRow?.currency ?? "EUR",
+          expectedAt: data.expectedAt ? new Date(data.expectedAt) : null,
+          notes: cleanText(data.notes),
+          createdBy: session?.user?.id ?? null,
+        })
+        .returning({ id: purchaseOrders.id });
+      await tx
+        .insert(purchaseOrderItems)
+        .values(
+          items.map((item) => ({ ...item, purchaseOrderId: created.id }))
+        );
+      return created;
+    });
+
+    revalidatePurchaseOrders();
+    return {
+      success: true,
+      message: "Purchase order created",
+      result: purchaseOrder,
+    };
+  } catch (error) {
+    console.error("Error creating purchase order:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Failed to create purchase order",
+    };
+  }
+}
+
+/**
+ * Edit a draft. Once placed, a PO's lines are fixed.
+ */
+export async function updatePurchaseOrder(
+  purchaseOrderId: string,
+  data: PurchaseOrderData
+): Promise<ActionResponse> {
+  try {
+    const managed = await getManagedPurchaseOrder(purchaseOrderId);
+    if ("error" in managed) {
+      return { success: false, error: managed.error };
+    }
+    if (managed.status !== "draft") {
+      return {
+        success: false,
+        error: "Only draft purchase orders can be edited",
+      };
+    }
+
+    const items = await buildPurchaseOrderItems(managed.storeId, data);
+    if ("error" in items) {
+      return { success: false, error: items.error };
+    }
+
+    await db.transaction(async (tx) => {
+      const [updated] = await tx
+        .update(purchaseOrders)
+        .set({
+          supplierId: data.supplierId,
+          locationId: data.locationId,
+          expectedAt: data.expectedAt ? new Date(data.expectedAt) : null,
+          notes: cleanText(data.notes),
+        })
+        .where(
+          and(
+            eq(purchaseOrders.id, purchaseOrderId),
+            eq(purchaseOrders.status, "draft")
+          )
+        )
+        .returning({ id: purchaseOrders.id });
+      if (!updated) {
+        throw new Error("Only draft purchase orders can be edited");
+      }
+      await tx
+        .delete(purchaseOrderItems)
+        .where(eq(purchaseOrderItems.purchaseOrderId, purchaseOrderId));
+      await tx
+        .insert(purchaseOrderItems)
+        .values(items.map((item) => ({ ...item, purchaseOrderId })));
+    });
+
+    revalidatePurchaseOrders(purchaseOrderId);
+    return { success: true, message: "Purchase order saved" };
+  } catch (error) {
+    console.error("Error updating purchase order:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Failed to update purchase order",
+    };
+  }
+}
+
+/**
+ * Mark a draft as ordered; its quantities show as incoming at the location
+ */
+export async function placePurchaseOrder(
+  purchaseOrderId: string
+): Promise<ActionResponse> {
+  try {
+    const managed = await getManagedPurchaseOrder(purchaseOrderId);
+    if ("error" in managed) {
+      return { success: false, error: managed.error };
+    }
+
+    await placePurchaseOrderRecord(purchaseOrderId);
+    revalidatePurchaseOrders(purchaseOrderId);
+    return { success: true, message: "Purchase order placed" };
+  } catch (error) {
+    console.error("Error placing purchase order:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Failed to place purchase order",
+    };
+  }
+}
+
+/**
+ * Record a delivery: quantities per PO line, partial deliveries allowed
+ */
+export async function receivePurchaseOrder(
+  purchaseOrderId: string,
+  receipts: Array<{ itemId: string; quantity: number }>
+): Promise<ActionResponse> {
+  try {
+    const managed = await getManagedPurchaseOrder(purchaseOrderId);
+    if ("error" in managed) {
+      return { success: false, error: managed.error };
+    }
+    const session = await auth.api.getSession({ headers: await headers() });
+
+    const updated = await receivePurchaseOrderRecord(
+      purchaseOrderId,
+      receipts,
+      session?.user?.id ?? null
+    );
+    revalidatePurchaseOrders(purchaseOrderId);
+    return {
+      success: true,
+      message:
+        updated.status === "received"
+          ? "Delivery received. The order is complete."
+          : "Delivery received",
+    };
+  } catch (error) {
+    console.error("Error receiving purchase order:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Failed to receive purchase order",
+    };
+  }
+}
+
+/**
+ * Cancel a PO, or close it short when part of it has arrived
+ */
+export async function closePurchaseOrder(
+  purchaseOrderId: string
+): Promise<ActionResponse> {
+  try {
+    const managed = await getManagedPurchaseOrder(purchaseOrderId);
+    if ("error" in managed) {
+      return { success: false, error: managed.error };
+    }
+
+    const updated = await closePurchaseOrderRecord(purchaseOrderId);
+    revalidatePurchaseOrders(purchaseOrderId);
+    return {
+      success: true,
+      message:
+        updated.status === "closed"
+          ? "Purchase order closed"
+          : "Purchase order cancelled",
+    };
+  } catch (error) {
+    console.error("Error closing purchase order:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Failed to close purchase order",
+    };
+  }
+}
+
+/**
+ * Generate the PO PDF from its current state and return the download URL
+ */
+export async function getPurchaseOrderPdf(
+  purchaseOrderId: string
+): Promise<ActionResponse & { result?: { url: string } }> {
+  try {
+    const managed = await getManagedPurchaseOrder(purchaseOrderId);
+    if ("error" in managed) {
+      return { success: false, error: managed.error };
+    }
+
+    const url = await generatePurchaseOrderPdf(purchaseOrderId);
+    return { success: true, result: { url } };
+  } catch (error) {
+    console.error("Error generating purchase order PDF:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Failed to generate purchase order PDF",
+    };
+  }
+}
@@ -12,6 +12,7 @@ import { eq, and, desc, inArray, sql } from "drizzle-orm";
 import { auth } from "@/lib/auth";
 import { headers } from "next/headers";
 import { getStoreIdForUser } from "./store-id";
+import { requirePermission } from "@/lib/permissions";
 
 export type RefundRequestRow = {
   id: string;
@@ -47,6 +48,8 @@ export async function listRefundRequests(): Promise<{
       return { success: false, error: "Unauthorized" };
     }
 
+    await requirePermission(session, "orders.view");
+
     const { storeId, isAdmin } = await getStoreIdForUser();
 
     // Build where conditions
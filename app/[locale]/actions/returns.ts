@@ -0,0 +1,1518 @@
+"use server";
+
+import { db } from "@/db";
+import {
+  fulfillments,
+  inventoryAdjustments,
+  inventoryItems,
+  inventoryLevels,
+  inventoryLocations,
+  orderEvents,
+  orderItems,
+  orderRefundItems,
+  orders,
+  returnRequestItems,
+  returnRequests,
+  store,
+  storePolicies,
+} from "@/db/schema";
+import { and, desc, eq, inArray, max, notInArray, sql, sum } from "drizzle-orm";
+import { auth } from "@/lib/auth";
+import { headers } from "next/headers";
+import { customAlphabet } from "nanoid";
+import {
+  createEasyshipShipment,
+  generateTrackingUrl,
+  getEasyshipRates,
+  type Address,
+  type EasyShipRate,
+  type Parcel,
+} from "@/lib/easyship";
+import { getStoreIdForUser } from "./store-id";
+import { requireCurrentPermission } from "@/lib/permissions";
+import { updateSellerBalance } from "./seller-balance";
+import { getBundleComponentMap, getInventoryLines } from "@/lib/bundles";
+import {
+  getDefaultInventoryLocation,
+  getStoreOwnerEmail,
+  processRefund,
+} from "./orders";
+
+type ReturnStatus = (typeof returnRequests.$inferSelect)["status"];
+
+// Returns that still hold on to their items (not yet refunded or closed)
+const OPEN_STATUSES: ReturnStatus[] = [
+  "requested",
+  "approved",
+  "in_transit",
+  "received",
+];
+
+const generateRmaSuffix = customAlphabet("ABCDEFGHJKLMNPQRSTUVWXYZ23456789", 8);
+
+export type ReturnRequestRow = {
+  id: string;
+  rmaNumber: string;
+  orderId: string;
+  orderNumber: string;
+  storeName: string | null;
+  customerName: string;
+  reason: string;
+  status: ReturnStatus;
+  itemCount: number;
+  createdAt: Date;
+};
+
+export type ReturnRequestDetail = {
+  id: string;
+  rmaNumber: string;
+  orderId: string;
+  orderNumber: string;
+  storeId: string | null;
+  storeName: string | null;
+  currency: string;
+  customerName: string;
+  customerEmail: string | null;
+  reason: string;
+  description: string | null;
+  status: ReturnStatus;
+  rejectionReason: string | null;
+  carrier: string | null;
+  trackingNumber: string | null;
+  trackingUrl: string | null;
+  labelUrl: string | null;
+  labelCost: string | null;
+  labelCurrency: string | null;
+  shippedAt: Date | null;
+  receivedAt: Date | null;
+  inspectedAt: Date | null;
+  refundAmount: string | null;
+  createdAt: Date;
+  items: Array<{
+    id: string;
+    orderItemId: string;
+    title: string;
+    sku: string | null;
+    quantity: number;
+    unitRefund: string; // lineTotal / quantity, matching the refund page
+    restockedQuantity: number;
+    damagedQuantity: number;
+  }>;
+  viewerRole: "admin" | "seller" | "customer";
+};
+
+export type ReturnEligibility = {
+  eligible: boolean;
+  reason?: string;
+  returnWindowDays: number | null;
+  deadline: Date | null;
+  items: Array<{
+    orderItemId: string;
+    title: string;
+    sku: string | null;
+    returnableQuantity: number;
+  }>;
+};
+
+/**
+ * Who the current user is in relation to an order's returns
+ */
+async function getOrderAccess(orderId: string) {
+  const session = await auth.api.getSession({
+    headers: await headers(),
+  });
+  if (!session?.user?.id) {
+    return { error: "Unauthorized" } as const;
+  }
+
+  const [order] = await db
+    .select({
+      id: orders.id,
+      orderNumber: orders.orderNumber,
+      storeId: orders.storeId,
+      customerId: orders.customerId,
+      customerEmail: orders.customerEmail,
+      currency: orders.currency,
+      status: orders.status,
+      paymentStatus: orders.paymentStatus,
+      fulfillmentStatus: orders.fulfillmentStatus,
+      placedAt: orders.placedAt,
+      deliveredAt: orders.deliveredAt,
+    })
+    .from(orders)
+    .where(eq(orders.id, orderId))
+    .limit(1);
+  if (!order) {
+    return { error: "Order not found" } as const;
+  }
+
+  const { storeId, isAdmin, allCustomerIds } = await getStoreIdForUser();
+  const role: "admin" | "seller" | "customer" | null = isAdmin
+    ? "admin"
+    : storeId && order.storeId === storeId
+      ? "seller"
+      : order.customerId && allCustomerIds.includes(order.customerId)
+        ? "customer"
+        : null;
+  if (!role) {
+    return { error: "Unauthorized" } as const;
+  }
+
+  return { order, role, userId: session.user.id } as const;
+}
+
+async function getReturnAccess(returnId: string) {
+  const [request] = await db
+    .select()
+    .from(returnRequests)
+    .where(eq(returnRequests.id, returnId))
+    .limit(1);
+  if (!request) {
+    return { error: "Return request not found" } as const;
+  }
+
+  const access = await getOrderAccess(request.orderId);
+  if ("error" in access) {
+    return { error: access.error } as const;
+  }
+  return {
+    order: access.order,
+    role: access.role,
+    userId: access.userId,
+    request,
+  } as const;
+}
+
+/**
+ * Quantity of each order item that can still be returned: fulfilled minus
+ * already refunded minus what open returns already cover
+ */
+async function getReturnableQuantities(orderId: string) {
+  const items = await db
+    .select({
+      id: orderItems.id,
+      title: orderItems.title,
+      sku: orderItems.sku,
+      fulfilledQuantity: orderItems.fulfilledQuantity,
+    })
+    .from(orderItems)
+    .where(eq(orderItems.orderId, orderId));
+  if (items.length === 0) return [];
+
+  const itemIds = items.map((i) => i.id);
+  const refunded = await db
+    .select({
+      orderItemId: orderRefundItems.orderItemId,
+      quantity: sum(orderRefundItems.quantity),
+    })
+    .from(orderRefundItems)
+    .where(inArray(orderRefundItems.orderItemId, itemIds))
+    .groupBy(orderRefundItems.orderItemId);
+  const pending = await db
+    .select({
+      orderItemId: returnRequestItems.orderItemId,
+      quantity: sum(returnRequestItems.quantity),
+    })
+    .from(returnRequestItems)
+    .innerJoin(
+      returnRequests,
+      eq(returnRequestItems.returnRequestId, returnRequests.id)
+    )
+    .where(
+      and(
+        inArray(returnRequestItems.orderItemId, itemIds),
+        inArray(returnRequests.status, OPEN_STATUSES)
+      )
+    )
+    .groupBy(returnRequestItems.orderItemId);
+
+  const refundedMap = new Map(
+    refunded.map((r) => [r.orderItemId, Number(r.quantity || 0)])
+  );
+  const pendingMap = new Map(
+    pending.map((r) => [r.orderItemId, Number(r.quantity || 0)])
+  );
+
+  return items.map((item) => ({
+    orderItemId: item.id,
+    title: item.title,
+    sku: item.sku,
+    returnableQuantity: Math.max(
+      0,
+      item.fulfilledQuantity -
+        (refundedMap.get(item.id) || 0) -
+        (pendingMap.get(item.id) || 0)
+    ),
+  }));
+}
+
+async function addReturnEvent(
+  orderId: string,
+  message: string,
+  metadata: Record<string, unknown>,
+  createdBy: string | null
+) {
+  await db.insert(orderEvents).values({
+    orderId,
+    type: "return",
+    visibility: "customer",
+    message,
+    metadata,
+    createdBy,
+  });
+}
+
+async function sendReturnEmail(params: {
+  to: string | null | undefined;
+  subject: string;
+  heading: string;
+  message: string;
+  rmaNumber: string;
+  orderNumber: string;
+  returnId: string;
+  note?: string | null;
+  actionUrl?: string | null;
+  actionLabel?: string;
+}) {
+  if (!params.to || !process.env.RESEND_API_KEY) return;
+
+  try {
+    const items = await db
+      .select({
+        title: orderItems.title,
+        quantity: returnRequestItems.quantity,
+      })
+      .from(returnRequestItems)
+      .innerJoin(orderItems, eq(returnRequestItems.orderItemId, orderItems.id))
+      .where(eq(returnRequestItems.returnRequestId, params.returnId));
+
+    const resend = (await import("@/lib/resend")).default;
+    const ReturnRequestEmail = (
+      await import("@/app/[locale]/components/return-request-email")
+    ).default;
+
+    await resend.emails.send({
+      from:
+        process.env.RESEND_FROM_EMAIL ||
+        "Golden Market <goldenmarket@resend.dev>",
+      to: params.to,
+      subject: params.subject,
+      react: ReturnRequestEmail({
+        heading: params.heading,
+        message: params.message,
+        rmaNumber: params.rmaNumber,
+        orderNumber: params.orderNumber,
+        items,
+        note: params.note,
+        actionUrl:
+          params.actionUrl ??
+          `${process.env.NEXT_PUBLIC_APP_URL}/dashboard/orders/returns/${params.returnId}`,
+        actionLabel: params.actionLabel ?? "View Return",
+      }),
+    });
+  } catch (error) {
+    console.error("Error sending return email:", error);
+  }
+}
+
+/**
+ * Check whether the current customer can return items of an order.
+ * The store's return window (store_policies.return_window_days) starts at
+ * the order's last fulfillment.
+ */
+export async function getReturnEligibility(orderId: string): Promise<{
+  success: boolean;
+  data?: ReturnEligibility;
+  error?: string;
+}> {
+  try {
+    const access = await getOrderAccess(orderId);
+    if ("error" in access) {
+      return { success: false, error: access.error };
+    }
+    const { order } = access;
+
+    const ineligible = (
+      reason: string,
+      returnWindowDays: number | null = null,
+      deadline: Date | null = null
+    ) => ({
+      success: true,
+      data: { eligible: false, reason, returnWindowDays, deadline, items: [] },
+    });
+
+    if (
+      order.paymentStatus !== "paid" &&
+      order.paymentStatus !== "partially_refunded"
+    ) {
+      return ineligible("Order has not been paid");
+    }
+    if (order.fulfillmentStatus === "unfulfilled") {
+      return ineligible(
+        "Order has not shipped yet. Please cancel the order instead."
+      );
+    }
+    if (order.status === "canceled" || order.status === "draft") {
+      return ineligible("This order cannot be returned");
+    }
+
+    const [policy] = order.storeId
+      ? await db
+          .select({ returnWindowDays: storePolicies.returnWindowDays })
+          .from(storePolicies)
+          .where(eq(storePolicies.storeId, order.storeId))
+          .limit(1)
+      : [];
+    const returnWindowDays = policy?.returnWindowDays ?? null;
+    if (!returnWindowDays || returnWindowDays <= 0) {
+      return ineligible("This store does not accept returns");
+    }
+
+    const [lastFulfillment] = await db
+      .select({ fulfilledAt: max(fulfillments.fulfilledAt) })
+      .from(fulfillments)
+      .where(eq(fulfillments.orderId, orderId));
+    // The window runs from delivery when the carrier has reported it
+    const windowStart =
+      order.deliveredAt ??
+      lastFulfillment?.fulfilledAt ??
+      order.placedAt ??
+      new Date();
+    const deadline = new Date(
+      windowStart.getTime() + returnWindowDays * 24 * 60 * 60 * 1000
+    );
+    if (deadline < new Date()) {
+      return ineligible(
+        `The ${returnWindowDays}-day return window has ended`,
+        returnWindowDays,
+        deadline
+      );
+    }
+
+    const items = (await getReturnableQuantities(orderId)).filter(
+      (i) => i.returnableQuantity > 0
+    );
+    if (items.length === 0) {
+      return ineligible(
+        "All items of this order are already returned or refunded",
+        returnWindowDays,
+        deadline
+      );
+    }
+
+    return {
+      success: true,
+      data: { eligible: true, returnWindowDays, deadline, items },
+    };
+  } catch (error) {
+    console.error("Error checking return eligibility:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Failed to check return eligibility",
+    };
+  }
+}
+
+/**
+ * Create a return request (customer)
+ */
+export async function createReturnRequest(input: {
+  orderId: string;
+  reason: string;
+  description?: string;
+  items: Array<{ orderItemId: string; quantity: number }>;
+}): Promise<{ success: boolean; error?: string; returnId?: string }> {
+  try {
+    const access = await getOrderAccess(input.orderId);
+    if ("error" in access) {
+      return { success: false, error: access.error };
+    }
+    if (access.role !== "customer") {
+      return {
+        success: false,
+        error: "Only the customer can request a return",
+      };
+    }
+    if (!input.reason.trim()) {
+      return { success: false, error: "Please select a reason" };
+    }
+
+    const items = input.items.filter((i) => i.quantity > 0);
+    if (items.length === 0) {
+      return { success: false, error: "Please select at least one item" };
+    }
+
+    const eligibility = await getReturnEligibility(input.orderId);
+    if (!eligibility.success || !eligibility.data) {
+      return { success: false, error: eligibility.error };
+    }
+    if (!eligibility.data.eligible) {
+      return { success: false, error: eligibility.data.reason };
+    }
+
+    const returnable = new Map(
+      eligibility.data.items.map((i) => [i.orderItemId, i])
+    );
+    for (const item of items) {
+      const available = returnable.get(item.orderItemId);
+      if (!available || item.quantity > available.returnableQuantity) {
+        return {
+          success: false,
+          error: `Cannot return ${item.quantity} of ${available?.title ?? "this item"}`,
+        };
+      }
+    }
+
+    const { order, userId } = access;
+    const rmaNumber = `RMA-${generateRmaSuffix()}`;
+    const request = await db.transaction(async (tx) => {
+      const [created] = await tx
+        .insert(returnRequests)
+        .values({
+          rmaNumber,
+          orderId: order.id,
+          storeId: order.storeId,
+          customerId: order.customerId,
+          requestedBy: userId,
+          reason: input.reason,
+          description: input.description?.trim() || null,
+        })
+        .returning();
+
+      await tx.insert(returnRequestItems).values(
+        items.map((item) => ({
+          returnRequestId: created.id,
+          orderItemId: item.orderItemId,
+          quantity: item.quantity,
+        }))
+      );
+
+      await tx.insert(orderEvents).values({
+        orderId: order.id,
+        type: "return",
+        visibility: "customer",
+        message: `Return ${rmaNumber} requested`,
+        metadata: { returnId: created.id, reason: input.reason, items },
+        createdBy: userId,
+      });
+
+      return created;
+    });
+
+    if (order.storeId) {
+      const owner = await getStoreOwnerEmail(order.storeId);
+      await sendReturnEmail({
+        to: owner.email,
+        subject: `Return requested - Order #${order.orderNumber}`,
+        heading: "New Return Request",
+        message:
+          "A customer has requested to return items from their order. Please review the request.",
+        rmaNumber,
+        orderNumber: order.orderNumber,
+        returnId: request.id,
+        note: input.description,
+        actionLabel: "Review Return",
+      });
+    }
+
+    return { success: true, returnId: request.id };
+  } catch (error) {
+    console.error("Error creating return request:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Failed to create return request",
+    };
+  }
+}
+
+/**
+ * List return requests: customers see their own, sellers their store's,
+ * admins all
+ */
+export async function listReturnRequests(): Promise<{
+  success: boolean;
+  data?: ReturnRequestRow[];
+  error?: string;
+}> {
+  try {
+    const session = await auth.api.getSession({
+      headers: await headers(),
+    });
+    if (!session?.user?.id) {
+      return { success: false, error: "Unauthorized" };
+    }
+
+    const { storeId, isAdmin, isCustomer, allCustomerIds } =
+      await getStoreIdForUser();
+
+    let condition;
+    if (isAdmin) {
+      condition = undefined;
+    } else if (storeId) {
+      condition = eq(returnRequests.storeId, storeId);
+    } else if (isCustomer && allCustomerIds.length > 0) {
+      condition = inArray(returnRequests.customerId, allCustomerIds);
+    } else {
+      return { success: true, data: [] };
+    }
+
+    const rows = await db
+      .select({
+        id: returnRequests.id,
+        rmaNumber: returnRequests.rmaNumber,
+        orderId: returnRequests.orderId,
+        orderNumber: orders.orderNumber,
+        storeName: store.storeName,
+        customerFirstName: orders.customerFirstName,
+        customerLastName: orders.customerLastName,
+        customerEmail: orders.customerEmail,
+        reason: returnRequests.reason,
+        status: returnRequests.status,
+        createdAt: returnRequests.createdAt,
+        itemCount: sql<number>`(
+          SELECT COALESCE(SUM(${returnRequestItems.quantity}), 0)::int
+          FROM ${returnRequestItems}
+          WHERE ${returnRequestItems.returnRequestId} = ${returnRequests.id}
+        )`,
+      })
+      .from(returnRequests)
+      .innerJoin(orders, eq(returnRequests.orderId, orders.id))
+      .leftJoin(store, eq(returnRequests.storeId, store.id))
+      .where(condition)
+      .orderBy(desc(returnRequests.createdAt));
+
+    return {
+      success: true,
+      data: rows.map((r) => ({
+        id: r.id,
+        rmaNumber: r.rmaNumber,
+        orderId: r.orderId,
+        orderNumber: r.orderNumber,
+        storeName: r.storeName,
+        customerName:
+          r.customerFirstName || r.customerLastName
+            ? `${r.customerFirstName || ""} ${r.customerLastName || ""}`.trim()
+            : r.customerEmail || "Customer",
+        reason: r.reason,
+        status: r.status,
+        itemCount: Number(r.itemCount),
+        createdAt: r.createdAt,
+      })),
+    };
+  } catch (error) {
+    console.error("Error listing return requests:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Failed to list return requests",
+    };
+  }
+}
+
+/**
+ * Get a return request with its items
+ */
+export async function getReturnRequest(returnId: string): Promise<{
+  success: boolean;
+  data?: ReturnRequestDetail;
+  error?: string;
+}> {
+  try {
+    const access = await getReturnAccess(returnId);
+    if ("error" in access) {
+      return { success: false, error: access.error };
+    }
+    const { request, order, role } = access;
+
+    const [orderInfo] = await db
+      .select({
+        customerFirstName: orders.customerFirstName,
+        customerLastName: orders.customerLastName,
+        storeName: store.storeName,
+      })
+      .from(orders)
+      .leftJoin(store, eq(orders.storeId, store.id))
+      .where(eq(orders.id, order.id))
+      .limit(1);
+
+    const items = await db
+      .select({
+        id: returnRequestItems.id,
+        orderItemId: returnRequestItems.orderItemId,
+        quantity: returnRequestItems.quantity,
+        restockedQuantity: returnRequestItems.restockedQuantity,
+        damagedQuantity: returnRequestItems.damagedQuantity,
+        title: orderItems.title,
+        sku: orderItems.sku,
+        orderedQuantity: orderItems.quantity,
+        lineTotal: orderItems.lineTotal,
+      })
+      .from(returnRequestItems)
+      .innerJoin(orderItems, eq(returnRequestItems.orderItemId, orderItems.id))
+      .where(eq(returnRequestItems.returnRequestId, returnId));
+
+    return {
+      success: true,
+      data: {
+        id: request.id,
+        rmaNumber: request.rmaNumber,
+        orderId: order.id,
+        orderNumber: order.orderNumber,
+        storeId: order.storeId,
+        storeName: orderInfo?.storeName ?? null,
+        currency: order.currency,
+        customerName:
+          orderInfo?.customerFirstName || orderInfo?.customerLastName
+            ? `${orderInfo.customerFirstName || ""} ${orderInfo.customerLastName || ""}`.trim()
+            : order.customerEmail || "Customer",
+        customerEmail: order.customerEmail,
+        reason: request.reason,
+        description: request.description,
+        status: request.status,
+        rejectionReason: request.rejectionReason,
+        carrier: request.carrier,
+        trackingNumber: request.trackingNumber,
+        trackingUrl: request.trackingUrl,
+        labelUrl: request.labelUrl,
+        labelCost: request.labelCost,
+        labelCurrency: request.labelCurrency,
+        shippedAt: request.shippedAt,
+        receivedAt: request.receivedAt,
+        inspectedAt: request.inspectedAt,
+        refundAmount: request.refundAmount,
+        createdAt: request.createdAt,
+        items: items.map((item) => ({
+          id: item.id,
+          orderItemId: item.orderItemId,
+          title: item.title,
+          sku: item.sku,
+          quantity: item.quantity,
+          unitRefund: (
+            parseFloat(item.lineTotal) / item.orderedQuantity
+          ).toFixed(2),
+          restockedQuantity: item.restockedQuantity,
+          damagedQuantity: item.damagedQuantity,
+        })),
+        viewerRole: role,
+      },
+    };
+  } catch (error) {
+    console.error("Error fetching return request:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Failed to fetch return request",
+    };
+  }
+}
+
+/**
+ * Approve or reject a requested return (seller/admin)
+ */
+export async function reviewReturnRequest(
+  returnId: string,
+  action: "approve" | "reject",
+  rejectionReason?: string
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const access = await getReturnAccess(returnId);
+    if ("error" in access) {
+      return { success: false, error: access.error };
+    }
+    const { request, order, role, userId } = access;
+    if (role === "customer") {
+      return { success: false, error: "Unauthorized" };
+    }
+    await requireCurrentPermission("orders.refund", { storeId: order.storeId });
+    if (request.status !== "requested") {
+      return {
+        success: false,
+        error: `Return request already ${request.status.replace("_", " ")}`,
+      };
+    }
+    if (action === "reject" && !rejectionReason?.trim()) {
+      return { success: false, error: "Please provide a rejection reason" };
+    }
+
+    await db
+      .update(returnRequests)
+      .set({
+        status: action === "approve" ? "approved" : "rejected",
+        reviewedBy: userId,
+        reviewedAt: new Date(),
+        rejectionReason: action === "reject" ? rejectionReason!.trim() : null,
+      })
+      .where(eq(returnRequests.id, returnId));
+
+    await addReturnEvent(
+      order.id,
+      action === "approve"
+        ? `Return ${request.rmaNumber} approved`
+        : `Return ${request.rmaNumber} rejected: ${rejectionReason!.trim()}`,
+      { returnId, action },
+      userId
+    );
+
+    await sendReturnEmail({
+      to: order.customerEmail,
+      subject:
+        action === "approve"
+          ? `Return approved - Order #${order.orderNumber}`
+          : `Return request declined - Order #${order.orderNumber}`,
+      heading: action === "approve" ? "Return Approved" : "Return Declined",
+      message:
+        action === "approve"
+          ? "Your return has been approved. Please pack the items and ship them back to the seller. If the seller provides a return label, you will find it on the return page."
+          : "Unfortunately the seller has declined your return request.",
+      rmaNumber: request.rmaNumber,
+      orderNumber: order.orderNumber,
+      returnId,
+      note: action === "reject" ? rejectionReason : null,
+    });
+
+    return { success: true };
+  } catch (error) {
+    console.error("Error reviewing return request:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Failed to review return request",
+    };
+  }
+}
+
+/**
+ * Withdraw a return before it ships (customer)
+ */
+export async function cancelReturnRequest(
+  returnId: string
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const access = await getReturnAccess(returnId);
+    if ("error" in access) {
+      return { success: false, error: access.error };
+    }
+    const { request, order, role, userId } = access;
+    if (role !== "customer" && role !== "admin") {
+      return { success: false, error: "Unauthorized" };
+    }
+    if (request.status !== "requested" && request.status !== "approved") {
+      return {
+        success: false,
+        error: "Returns can only be cancelled before they are shipped",
+      };
+    }
+
+    await db
+      .update(returnRequests)
+      .set({ status: "cancelled" })
+      .where(eq(returnRequests.id, returnId));
+    await addReturnEvent(
+      order.id,
+      `Return ${request.rmaNumber} cancelled`,
+      { returnId },
+      userId
+    );
+
+    return { success: true };
+  } catch (error) {
+    console.error("Error cancelling return request:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Failed to cancel return request",
+    };
+  }
+}
+
+/**
+ * Customer's shipping address (label origin) and the store location
+ * (label destination) for a return
+ */
+async function getReturnAddresses(
+  orderId: string,
+  storeId: string
+): Promise<{ fromAddress: Address; toAddress: Address } | { error: string }> {
+  const [order] = await db
+    .select({
+      shippingName: orders.shippingName,
+      shippingAddressLine1: orders.shippingAddressLine1,
+      shippingAddressLine2: orders.shippingAddressLine2,
+      shippingCity: orders.shippingCity,
+      shippingRegion: orders.shippingRegion,
+      shippingPostalCode: orders.shippingPostalCode,
+      shippingCountry: orders.shippingCountry,
+      shippingPhone: orders.shippingPhone,
+      customerEmail: orders.customerEmail,
+    })
+    .from(orders)
+    .where(eq(orders.id, orderId))
+    .limit(1);
+  if (!order?.shippingCountry) {
+    return { error: "Order has no shipping address" };
+  }
+
+  const [location] = await db
+    .select({
+      city: inventoryLocations.city,
+      state: inventoryLocations.state,
+      zip: inventoryLocations.zip,
+      country: inventoryLocations.country,
+      address: inventoryLocations.address,
+    })
+    .from(inventoryLocations)
+    .where(eq(inventoryLocations.storeId, storeId))
+    .limit(1);
+  if (!location?.country) {
+    return { error: "Store origin location not configured" };
+  }
+
+  // Same Phase 1 routes as outbound labels: Finland → Finland, Nepal → Nepal
+  const fromCountry = order.shippingCountry.toUpperCase().trim();
+  const toCountry = location.country.toUpperCase().trim();
+  if (fromCountry !== toCountry || !["FI", "NP"].includes(fromCountry)) {
+    return {
+      error:
+        "Return labels are only available within Finland and within Nepal in Phase 1.",
+    };
+  }
+
+  return {
+    fromAddress: {
+      name: order.shippingName || "Customer",
+      street1: order.shippingAddressLine1 || "",
+      street2: order.shippingAddressLine2 || undefined,
+      city: order.shippingCity || "",
+      state: order.shippingRegion || "",
+      zip: order.shippingPostalCode || "",
+      country: order.shippingCountry,
+      phone: order.shippingPhone || undefined,
+      email: order.customerEmail || undefined,
+    },
+    toAddress: {
+      name: "Store",
+      street1: location.address || "",
+      city: location.city || "",
+      state: location.state || "",
+      zip: location.zip || "",
+      country: location.country,
+    },
+  };
+}
+
+type ParcelInput = {
+  weightOz: number;
+  lengthIn: number;
+  widthIn: number;
+  heightIn: number;
+};
+
+const MAX_WEIGHT_OZ = 1120;
+const MAX_DIMENSION_IN = 108;
+
+function toParcel(parcel: ParcelInput): Parcel | { error: string } {
+  if (parcel.weightOz > MAX_WEIGHT_OZ) {
+    return {
+      error: `Weight exceeds maximum of ${MAX_WEIGHT_OZ} oz (${(MAX_WEIGHT_OZ / 16).toFixed(1)} lbs)`,
+    };
+  }
+  if (
+    parcel.lengthIn > MAX_DIMENSION_IN ||
+    parcel.widthIn > MAX_DIMENSION_IN ||
+    parcel.heightIn > MAX_DIMENSION_IN
+  ) {
+    return {
+      error: `Dimensions exceed maximum of ${MAX_DIMENSION_IN} inches per side`,
+    };
+  }
+
+  return {
+    weight: parcel.weightOz,
+    length: parcel.lengthIn,
+    width: parcel.widthIn,
+    height: parcel.heightIn,
+  };
+}
+
+/**
+ * Rates for a prepaid return label, customer address -> store (seller/admin)
+ */
+export async function getReturnLabelRates(
+  returnId: string,
+  parcel: ParcelInput
+): Promise<{ success: boolean; error?: string; rates?: EasyShipRate[] }> {
+  try {
+    const access = await getReturnAccess(returnId);
+    if ("error" in access) {
+      return { success: false, error: access.error };
+    }
+    const { request, order, role } = access;
+    if (role === "customer") {
+      return { success: false, error: "Unauthorized" };
+    }
+    await requireCurrentPermission("orders.manage", { storeId: order.storeId });
+    if (request.status !== "approved" || request.labelUrl) {
+      return {
+        success: false,
+        error: "Return labels can only be bought for approved returns",
+      };
+    }
+    if (!order.storeId) {
+      return { success: false, error: "Order has no store" };
+    }
+
+    const addresses = await getReturnAddresses(order.id, order.storeId);
+    if ("error" in addresses) {
+      return { success: false, error: addresses.error };
+    }
+
+    const parcelInput = toParcel(parcel);
+    if ("error" in parcelInput) {
+      return { success: false, error: parcelInput.error };
+    }
+
+    const result = await getEasyshipRates(
+      addresses.fromAddress,
+      addresses.toAddress,
+      parcelInput
+    );
+    if (!result.success) {
+      return { success: false, error: result.error };
+    }
+    if (result.rates.length === 0) {
+      return {
+        success: false,
+        error: "No return shipping rates available for this route",
+      };
+    }
+
+    return { success: true, rates: result.rates };
+  } catch (error) {
+    console.error("Error getting return label rates:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error ? error.message : "Failed to get return rates",
+    };
+  }
+}
+
+/**
+ * Buy a prepaid return label through EasyShip; the cost is debited from the
+ * seller balance like outbound labels (seller/admin)
+ */
+export async function purchaseReturnLabel(
+  returnId: string,
+  rateId: string,
+  parcel: ParcelInput
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const access = await getReturnAccess(returnId);
+    if ("error" in access) {
+      return { success: false, error: access.error };
+    }
+    const { request, order, role, userId } = access;
+    if (role === "customer") {
+      return { success: false, error: "Unauthorized" };
+    }
+    await requireCurrentPermission("orders.manage", { storeId: order.storeId });
+    if (request.status !== "approved" || request.labelUrl) {
+      return {
+        success: false,
+        error: "Return labels can only be bought for approved returns",
+      };
+    }
+    if (!order.storeId) {
+      return { success: false, error: "Order has no store" };
+    }
+
+    const addresses = await getReturnAddresses(order.id, order.storeId);
+    if ("error" in addresses) {
+      return { success: false, error: addresses.error };
+    }
+
+    const parcelInput = toParcel(parcel);
+    if ("error" in parcelInput) {
+      return { success: false, error: parcelInput.error };
+    }
+
+    const result = await createEasyshipShipment(
+      addresses.fromAddress,
+      addresses.toAddress,
+      parcelInput,
+      rateId
+    );
+    if (!result) {
+      return {
+        success: false,
+        error: "Failed to create return shipment with EasyShip",
+      };
+    }
+
+    const trackingUrl =
+      result.tracking_page_url ??
+      generateTrackingUrl(result.courier_name, result.tracking_number);
+
+    await db
+      .update(returnRequests)
+      .set({
+        carrier: result.courier_name,
+        trackingNumber: result.tracking_number,
+        trackingUrl,
+        labelUrl: result.label_url,
+        easyshipShipmentId: result.shipment_id,
+        labelCost: result.total_charge.toFixed(2),
+        labelCurrency: result.currency,
+      })
+      .where(eq(returnRequests.id, returnId));
+
+    if (result.total_charge > 0) {
+      await updateSellerBalance({
+        storeId: order.storeId,
+        type: "shipping_label",
+        amount: result.total_charge,
+        currency: result.currency || "EUR",
+        orderId: order.id,
+        description: `Return label purchased (${request.rmaNumber})`,
+      });
+    }
+
+    await addReturnEvent(
+      order.id,
+      `Return label purchased for ${request.rmaNumber}`,
+      {
+        returnId,
+        carrier: result.courier_name,
+        trackingNumber: result.tracking_number,
+        labelCost: result.total_charge.toFixed(2),
+      },
+      userId
+    );
+
+    await sendReturnEmail({
+      to: order.customerEmail,
+      subject: `Your return label - Order #${order.orderNumber}`,
+      heading: "Your Return Label Is Ready",
+      message:
+        "Print the label, attach it to your parcel and drop it off with the carrier.",
+      rmaNumber: request.rmaNumber,
+      orderNumber: order.orderNumber,
+      returnId,
+      actionUrl: result.label_url,
+      actionLabel: "Download Label",
+    });
+
+    return { success: true };
+  } catch (error) {
+    console.error("Error purchasing return label:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Failed to purchase return label",
+    };
+  }
+}
+
+/**
+ * Mark the return as shipped back, optionally with tracking for customers
+ * who ship without a prepaid label
+ */
+export async function markReturnShipped(
+  returnId: string,
+  tracking?: { carrier?: string; trackingNumber?: string }
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const access = await getReturnAccess(returnId);
+    if ("error" in access) {
+      return { success: false, error: access.error };
+    }
+    const { request, order, userId } = access;
+    if (request.status !== "approved") {
+      return { success: false, error: "Return is not awaiting shipment" };
+    }
+
+    const carrier = tracking?.carrier?.trim() || request.carrier;
+    const trackingNumber =
+      tracking?.trackingNumber?.trim() || request.trackingNumber;
+
+    await db
+      .update(returnRequests)
+      .set({
+        status: "in_transit",
+        carrier,
+        trackingNumber,
+        trackingUrl:
+          request.trackingUrl ??
+          (carrier && trackingNumber
+            ? generateTrackingUrl(carrier, trackingNumber)
+            : null),
+        shippedAt: new Date(),
+      })
+      .where(eq(returnRequests.id, returnId));
+
+    await addReturnEvent(
+      order.id,
+      `Return ${request.rmaNumber} shipped back to the seller`,
+      { returnId, carrier, trackingNumber },
+      userId
+    );
+
+    return { success: true };
+  } catch (error) {
+    console.error("Error marking return shipped:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Failed to update return shipment",
+    };
+  }
+}
+
+/**
+ * Confirm the returned parcel arrived (seller/admin)
+ */
+export async function markReturnReceived(
+  returnId: string
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const access = await getReturnAccess(returnId);
+    if ("error" in access) {
+      return { success: false, error: access.error };
+    }
+    const { request, order, role, userId } = access;
+    if (role === "customer") {
+      return { success: false, error: "Unauthorized" };
+    }
+    await requireCurrentPermission("orders.manage", { storeId: order.storeId });
+    if (request.status !== "approved" && request.status !== "in_transit") {
+      return { success: false, error: "Return is not awaiting delivery" };
+    }
+
+    await db
+      .update(returnRequests)
+      .set({ status: "received", receivedAt: new Date() })
+      .where(eq(returnRequests.id, returnId));
+    await addReturnEvent(
+      order.id,
+      `Return ${request.rmaNumber} received by the seller`,
+      { returnId },
+      userId
+    );
+
+    return { success: true };
+  } catch (error) {
+    console.error("Error marking return received:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Failed to mark return received",
+    };
+  }
+}
+
+/**
+ * Record inspection results and refund the returned items (seller/admin).
+ * Restocked units go back to available stock ("return" adjustments); damaged
+ * units are booked in and written off ("damage" adjustments). The refund goes
+ * through processRefund as a line-item refund.
+ */
+export async function completeReturnInspection(input: {
+  returnId: string;
+  items: Array<{
+    returnItemId: string;
+    restockedQuantity: number;
+    damagedQuantity: number;
+  }>;
+  refundAmount: string;
+}): Promise<{ success: boolean; error?: string }> {
+  try {
+    const access = await getReturnAccess(input.returnId);
+    if ("error" in access) {
+      return { success: false, error: access.error };
+    }
+    const { request, order, role, userId } = access;
+    if (role === "customer") {
+      return { success: false, error: "Unauthorized" };
+    }
+    await requireCurrentPermission("orders.refund", { storeId: order.storeId });
+    if (request.status !== "received") {
+      return {
+        success: false,
+        error: "Mark the return as received before inspecting it",
+      };
+    }
+    if (!order.storeId) {
+      return { success: false, error: "Order has no store" };
+    }
+
+    const refundAmount = parseFloat(input.refundAmount);
+    if (isNaN(refundAmount) || refundAmount < 0) {
+      return { success: false, error: "Invalid refund amount" };
+    }
+    if (
+      input.items.some(
+        (i) =>
+          !Number.isInteger(i.restockedQuantity) ||
+          !Number.isInteger(i.damagedQuantity)
+      )
+    ) {
+      return { success: false, error: "Quantities must be whole numbers" };
+    }
+
+    const returnItems = await db
+      .select({
+        id: returnRequestItems.id,
+        orderItemId: returnRequestItems.orderItemId,
+        quantity: returnRequestItems.quantity,
+        variantId: orderItems.variantId,
+      })
+      .from(returnRequestItems)
+      .innerJoin(orderItems, eq(returnRequestItems.orderItemId, orderItems.id))
+      .where(eq(returnRequestItems.returnRequestId, input.returnId));
+
+    const inspected = returnItems.map((item) => {
+      const result = input.items.find((i) => i.returnItemId === item.id);
+      return {
+        ...item,
+        restockedQuantity: Math.max(0, result?.restockedQuantity ?? 0),
+        damagedQuantity: Math.max(0, result?.damagedQuantity ?? 0),
+      };
+    });
+    const invalid = inspected.find(
+      (item) => item.restockedQuantity + item.damagedQuantity > item.quantity
+    );
+    if (invalid) {
+      return {
+        success: false,
+        error: "Restocked and damaged quantities exceed the returned quantity",
+      };
+    }
+
+    // Claim the return before refunding, so a double submit or a second
+    // inspector can't refund and restock it again
+    const [claimed] = await db
+      .update(returnRequests)
+      .set({
+        status: "refunded",
+        inspectedBy: userId,
+        inspectedAt: new Date(),
+        refundAmount: refundAmount.toFixed(2),
+      })
+      .where(
+        and(
+          eq(returnRequests.id, input.returnId),
+          eq(returnRequests.status, "received")
+        )
+      )
+      .returning({ id: returnRequests.id });
+    if (!claimed) {
+      return {
+        success: false,
+        error: "This return has already been inspected",
+      };
+    }
+
+    if (refundAmount > 0) {
+      const refundResult = await processRefund({
+        orderId: order.id,
+        refundType: "partial",
+        amount: refundAmount.toFixed(2),
+        restockItems: false, // Restocking follows the inspection below
+        reason: `Return ${request.rmaNumber}`,
+        refundedItems: inspected.map((item) => ({
+          orderItemId: item.orderItemId,
+          quantity: item.quantity,
+        })),
+      });
+      if (!refundResult.success) {
+        // Nothing was refunded: let the return be inspected again
+        await db
+          .update(returnRequests)
+          .set({
+            status: "received",
+            inspectedBy: null,
+            inspectedAt: null,
+            refundAmount: null,
+          })
+          .where(
+            and(
+              eq(returnRequests.id, input.returnId),
+              eq(returnRequests.status, "refunded")
+            )
+          );
+        return { success: false, error: refundResult.error };
+      }
+    }
+
+    const locationId = await getDefaultInventoryLocation(order.storeId);
+    // A returned bundle puts its components back
+    const bundleComponents = await getBundleComponentMap(
+      inspected.map((item) => item.variantId)
+    );
+    await db.transaction(async (tx) => {
+      for (const item of inspected) {
+        await tx
+          .update(returnRequestItems)
+          .set({
+            restockedQuantity: item.restockedQuantity,
+            damagedQuantity: item.damagedQuantity,
+          })
+          .where(eq(returnRequestItems.id, item.id));
+
+        if (!locationId) continue;
+
+        // Units of each inventory item per returned unit (1 unless a bundle)
+        for (const line of getInventoryLines(
+          bundleComponents,
+          item.variantId,
+          1
+        )) {
+          const restocked = item.restockedQuantity * line.quantity;
+          const damaged = item.damagedQuantity * line.quantity;
+          const received = restocked + damaged;
+          if (received === 0) continue;
+
+          const [inventoryItem] = await tx
+            .select({ id: inventoryItems.id })
+            .from(inventoryItems)
+            .where(eq(inventoryItems.variantId, line.variantId))
+            .limit(1);
+          if (!inventoryItem) continue;
+
+          const reference = {
+            inventoryItemId: inventoryItem.id,
+            locationId,
+            referenceType: "return",
+            referenceId: request.id,
+            createdBy: userId,
+          };
+          await tx.insert(inventoryAdjustments).values({
+            ...reference,
+            change: received,
+            reason: `Returned (${request.rmaNumber})`,
+            eventType: "return",
+          });
+          if (damaged > 0) {
+            await tx.insert(inventoryAdjustments).values({
+              ...reference,
+              change: -damaged,
+              reason: `Damaged on return (${request.rmaNumber})`,
+              eventType: "damage",
+            });
+          }
+
+          await tx
+            .update(inventoryLevels)
+            .set({
+              available: sql`${inventoryLevels.available} + ${restocked}`,
+              onHand: sql`${inventoryLevels.onHand} + ${restocked}`,
+              returned: sql`${inventoryLevels.returned} + ${received}`,
+              damaged: sql`${inventoryLevels.damaged} + ${damaged}`,
+              updatedAt: new Date(),
+            })
+            .where(
+              and(
+                eq(inventoryLevels.inventoryItemId, inventoryItem.id),
+                eq(inventoryLevels.locationId, locationId)
+              )
+            );
+        }
+      }
+
+      const restocked = inspected.reduce((n, i) => n + i.restockedQuantity, 0);
+      const damaged = inspected.reduce((n, i) => n + i.damagedQuantity, 0);
+      await tx.insert(orderEvents).values({
+        orderId: order.id,
+        type: "return",
+        visibility: "customer",
+        message: `Return ${request.rmaNumber} inspected: ${restocked} restocked, ${damaged} damaged. Refunded ${refundAmount.toFixed(2)} ${order.currency}`,
+        metadata: {
+          returnId: request.id,
+          items: inspected.map((i) => ({
+            orderItemId: i.orderItemId,
+            restockedQuantity: i.restockedQuantity,
+            damagedQuantity: i.damagedQuantity,
+          })),
+          refundAmount: refundAmount.toFixed(2),
+        },
+        createdBy: userId,
+      });
+    });
+
+    return { success: true };
+  } catch (error) {
+    console.error("Error completing return inspection:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Failed to complete return inspection",
+    };
+  }
+}
+
+/**
+ * Open returns of an order, for the order page
+ */
+export async function getOrderReturns(orderId: string): Promise<{
+  success: boolean;
+  data?: Array<{
+    id: string;
+    rmaNumber: string;
+    status: ReturnStatus;
+    createdAt: Date;
+  }>;
+  error?: string;
+}> {
+  try {
+    const access = await getOrderAccess(orderId);
+    if ("error" in access) {
+      return { success: false, error: access.error };
+    }
+
+    const rows = await db
+      .select({
+        id: returnRequests.id,
+        rmaNumber: returnRequests.rmaNumber,
+        status: returnRequests.status,
+        createdAt: returnRequests.createdAt,
+      })
+      .from(returnRequests)
+      .where(
+        and(
+          eq(returnRequests.orderId, orderId),
+          notInArray(returnRequests.status, ["cancelled"])
+        )
+      )
+      .orderBy(desc(returnRequests.createdAt));
+
+    return { success: true, data: rows };
+  } catch (error) {
+    console.error("Error fetching order returns:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to fetch returns",
+    };
+  }
+}
@@ -9,24 +9,51 @@ import {
   listing,
   store,
   user,
-  userRoles,
-  roles,
+  reviewVotes,
+  reviewReports,
+  reviewRequests,
 } from "@/db/schema";
-import { eq, and, desc, sql } from "drizzle-orm";
+import { eq, and, desc, sql, gte, inArray, type SQL } from "drizzle-orm";
 import { auth } from "@/lib/auth";
 import { headers } from "next/headers";
+import {
+  PermissionDeniedError,
+  requirePermission,
+  type PermissionSession,
+} from "@/lib/permissions";
+import { recordAuditEvent } from "@/lib/audit";
+import { deleteFiles, uploadFiles } from "@/lib/cloudinary";
+import { syncListingToIndex, syncStoreToIndex } from "@/lib/search-index";
+import { getStoreIdForUser } from "./store-members";
+
+const MAX_REVIEW_PHOTOS = 4;
+// 4 x 2MB stays under the 10mb server action body limit
+const MAX_REVIEW_PHOTO_SIZE = 2 * 1024 * 1024;
+const REVIEW_PHOTO_TYPES = ["image/jpeg", "image/png", "image/webp"];
+const MAX_SELLER_REPLY_LENGTH = 2000;
+const REPORT_REASONS = ["spam", "offensive", "fake", "off_topic", "other"];
 
 export interface ActionResponse {
   success: boolean;
   error?: string;
 }
 
+export type ReviewType = "product" | "store";
+
+export type ReviewReportReason =
+  | "spam"
+  | "offensive"
+  | "fake"
+  | "off_topic"
+  | "other";
+
 export interface ProductReviewInput {
   listingId: string;
   orderId: string;
   rating: number; // 1-5
   title?: string;
   comment: string;
+  images?: File[]; // Up to 4 photos
   // Guest fields (if not authenticated)
   guestName?: string;
   guestEmail?: string;
@@ -38,11 +65,46 @@ export interface StoreReviewInput {
   rating: number; // 1-5
   title?: string;
   body: string;
+  images?: File[]; // Up to 4 photos
   // Guest fields (if not authenticated)
   guestName?: string;
   guestEmail?: string;
 }
 
+/** A review as shown to the store and to moderators */
+export interface ManagedReview {
+  type: ReviewType;
+  id: string;
+  storeId: string;
+  storeName: string | null;
+  listingId: string | null;
+  productName: string | null;
+  productSlug: string | null;
+  rating: number;
+  title: string | null;
+  text: string; // comment for product reviews, body for store reviews
+  images: string[];
+  reviewerName: string;
+  status: "published" | "hidden";
+  hiddenReason: string | null;
+  helpfulCount: number;
+  sellerReply: string | null;
+  sellerReplyAt: Date | null;
+  createdAt: Date;
+}
+
+export interface ModerationReview extends ManagedReview {
+  openReportCount: number;
+  reports: Array<{
+    id: string;
+    reason: string;
+    details: string | null;
+    status: "open" | "resolved" | "dismissed";
+    reporterName: string | null;
+    createdAt: Date;
+  }>;
+}
+
 /**
  * Submit a product review
  */
@@ -69,6 +131,11 @@ export async function submitProductReview(
       };
     }
 
+    const photoError = validateReviewPhotos(input.images);
+    if (photoError) {
+      return { success: false, error: photoError };
+    }
+
     // For guests, require name and email
     if (!userId) {
       if (!input.guestName || !input.guestEmail) {
@@ -189,7 +256,11 @@ export async function submitProductReview(
       }
     }
 
-    return await db.transaction(async (tx) => {
+    const images = input.images?.length
+      ? await uploadFiles(input.images, `reviews/${productStoreId}`)
+      : [];
+
+    const result = await db.transaction(async (tx) => {
       // Create review
       const newReview = await tx
         .insert(productReview)
@@ -202,6 +273,7 @@ export async function submitProductReview(
           rating: input.rating,
           title: input.title || null,
           comment: input.comment.trim(),
+          images: images.length > 0 ? images : null,
           orderId: input.orderId,
           verified: true,
         })
@@ -215,6 +287,12 @@ export async function submitProductReview(
         reviewId: newReview[0].id,
       };
     });
+
+    if (result.success) {
+      await syncListingToIndex(input.listingId);
+    }
+
+    return result;
   } catch (error) {
     console.error("Error submitting product review:", error);
     return {
@@ -250,6 +328,11 @@ export async function submitStoreReview(
       };
     }
 
+    const photoError = validateReviewPhotos(input.images);
+    if (photoError) {
+      return { success: false, error: photoError };
+    }
+
     // For guests, require name and email
     if (!userId) {
       if (!input.guestName || !input.guestEmail) {
@@ -326,7 +409,11 @@ export async function submitStoreReview(
       }
     }
 
-    return await db.transaction(async (tx) => {
+    const images = input.images?.length
+      ? await uploadFiles(input.images, `reviews/${input.storeId}`)
+      : [];
+
+    const result = await db.transaction(async (tx) => {
       // Create review
       const newReview = await tx
         .insert(storeReview)
@@ -338,6 +425,7 @@ export async function submitStoreReview(
           rating: input.rating,
           title: input.title || null,
           body: input.body.trim(),
+          images: images.length > 0 ? images : null,
           orderId: input.orderId,
           verified: true,
         })
@@ -351,6 +439,12 @@ export async function submitStoreReview(
         reviewId: newReview[0].id,
       };
     });
+
+    if (result.success) {
+      await syncStoreToIndex(input.storeId);
+    }
+
+    return result;
   } catch (error) {
     console.error("Error submitting store review:", error);
     return {
@@ -361,7 +455,7 @@ export async function submitStoreReview(
 }
 
 /**
- * Get product reviews
+ * Get published product reviews
  */
 export async function getProductReviews(listingId: string) {
   try {
@@ -371,7 +465,11 @@ export async function getProductReviews(listingId: string) {
         rating: productReview.rating,
         title: productReview.title,
         comment: productReview.comment,
+        images: productReview.images,
         verified: productReview.verified,
+        helpfulCount: productReview.helpfulCount,
+        sellerReply: productReview.sellerReply,
+        sellerReplyAt: productReview.sellerReplyAt,
         createdAt: productReview.createdAt,
         // User info
         userId: productReview.userId,
@@ -383,9 +481,19 @@ export async function getProductReviews(listingId: string) {
       })
       .from(productReview)
       .leftJoin(user, eq(productReview.userId, user.id))
-      .where(eq(productReview.listingId, listingId))
+      .where(
+        and(
+          eq(productReview.listingId, listingId),
+          eq(productReview.status, "published")
+        )
+      )
       .orderBy(desc(productReview.createdAt));
 
+    const voted = await getVotedReviewIds(
+      "product",
+      reviews.map((r) => r.id)
+    );
+
     return {
       success: true,
       reviews: reviews.map((r) => ({
@@ -393,11 +501,17 @@ export async function getProductReviews(listingId: string) {
         rating: r.rating,
         title: r.title,
         comment: r.comment,
+        images: r.images ?? [],
         verified: r.verified,
+        helpfulCount: r.helpfulCount,
+        votedHelpful: voted.has(r.id),
+        sellerReply: r.sellerReply,
+        sellerReplyAt: r.sellerReplyAt,
         createdAt: r.createdAt,
         reviewerName: r.userName || r.guestName || "Anonymous",
         reviewerEmail: r.userEmail || r.guestEmail || null,
         isGuest: !r.userId,
+        userId: r.userId,
       })),
     };
   } catch (error) {
@@ -411,7 +525,7 @@ export async function getProductReviews(listingId: string) {
 }
 
 /**
- * Get store reviews
+ * Get published store reviews
  */
 export async function getStoreReviews(storeId: string) {
   try {
@@ -421,7 +535,11 @@ export async function getStoreReviews(storeId: string) {
         rating: storeReview.rating,
         title: storeReview.title,
         body: storeReview.body,
+        images: storeReview.images,
         verified: storeReview.verified,
+        helpfulCount: storeReview.helpfulCount,
+        sellerReply: storeReview.sellerReply,
+        sellerReplyAt: storeReview.sellerReplyAt,
         createdAt: storeReview.createdAt,
         // User info
         userId: storeReview.userId,
@@ -433,9 +551,19 @@ export async function getStoreReviews(storeId: string) {
       })
       .from(storeReview)
       .leftJoin(user, eq(storeReview.userId, user.id))
-      .where(eq(storeReview.storeId, storeId))
+      .where(
+        and(
+          eq(storeReview.storeId, storeId),
+          eq(storeReview.status, "published")
+        )
+      )
       .orderBy(desc(storeReview.createdAt));
 
+    const voted = await getVotedReviewIds(
+      "store",
+      reviews.map((r) => r.id)
+    );
+
     return {
       success: true,
       reviews: reviews.map((r) => ({
@@ -443,7 +571,12 @@ export async function getStoreReviews(storeId: string) {
         rating: r.rating,
         title: r.title,
         body: r.body,
+        images: r.images ?? [],
         verified: r.verified,
+        helpfulCount: r.helpfulCount,
+        votedHelpful: voted.has(r.id),
+        sellerReply: r.sellerReply,
+        sellerReplyAt: r.sellerReplyAt,
         createdAt: r.createdAt,
         reviewerName: r.userName || r.guestName || "Anonymous",
         reviewerEmail: r.userEmail || r.guestEmail || null,
@@ -462,7 +595,8 @@ export async function getStoreReviews(storeId: string) {
 }
 
 /**
- * Delete a product review (only by reviewer or admin)
+ * Delete a product review (only by the reviewer; moderators hide reviews
+ * instead, see hideReview)
  */
 export async function deleteProductReview(
   reviewId: string
@@ -482,6 +616,7 @@ export async function deleteProductReview(
         id: productReview.id,
         listingId: productReview.listingId,
         userId: productReview.userId,
+        images: productReview.images,
       })
       .from(productReview)
       .where(eq(productReview.id, reviewId))
@@ -494,32 +629,17 @@ export async function deleteProductReview(
       };
     }
 
-    // Check permissions (reviewer or admin)
-    const isReviewer = review[0].userId === session.user.id;
-
-    // Check if user is admin
-    const userRole = await db
-      .select({
-        roleName: roles.name,
-      })
-      .from(userRoles)
-      .innerJoin(roles, eq(userRoles.roleId, roles.id))
-      .where(eq(userRoles.userId, session.user.id))
-      .limit(1);
-
-    const isAdmin =
-      userRole.length > 0 && userRole[0].roleName.toLowerCase() === "admin";
-
-    if (!isReviewer && !isAdmin) {
+    if (review[0].userId !== session.user.id) {
       return {
         success: false,
         error: "You don't have permission to delete this review",
       };
     }
 
-    return await db.transaction(async (tx) => {
+    const result = await db.transaction(async (tx) => {
       // Delete review
       await tx.delete(productReview).where(eq(productReview.id, reviewId));
+      await deleteReviewActivity(tx, "product", reviewId);
 
       // Update product rating aggregates
       if (review[0].listingId) {
@@ -530,6 +650,15 @@ export async function deleteProductReview(
         success: true,
       };
     });
+
+    if (review[0].listingId) {
+      await syncListingToIndex(review[0].listingId);
+    }
+    if (review[0].images?.length) {
+      await deleteFiles(review[0].images);
+    }
+
+    return result;
   } catch (error) {
     console.error("Error deleting product review:", error);
     return {
@@ -540,7 +669,8 @@ export async function deleteProductReview(
 }
 
 /**
- * Delete a store review (only by reviewer or admin)
+ * Delete a store review (only by the reviewer; moderators hide reviews
+ * instead, see hideReview)
  */
 export async function deleteStoreReview(
   reviewId: string
@@ -560,6 +690,7 @@ export async function deleteStoreReview(
         id: storeReview.id,
         storeId: storeReview.storeId,
         userId: storeReview.userId,
+        images: storeReview.images,
       })
       .from(storeReview)
       .where(eq(storeReview.id, reviewId))
@@ -572,32 +703,17 @@ export async function deleteStoreReview(
       };
     }
 
-    // Check permissions (reviewer or admin)
-    const isReviewer = review[0].userId === session.user.id;
-
-    // Check if user is admin
-    const userRole = await db
-      .select({
-        roleName: roles.name,
-      })
-      .from(userRoles)
-      .innerJoin(roles, eq(userRoles.roleId, roles.id))
-      .where(eq(userRoles.userId, session.user.id))
-      .limit(1);
-
-    const isAdmin =
-      userRole.length > 0 && userRole[0].roleName.toLowerCase() === "admin";
-
-    if (!isReviewer && !isAdmin) {
+    if (review[0].userId !== session.user.id) {
       return {
         success: false,
         error: "You don't have permission to delete this review",
       };
     }
 
-    return await db.transaction(async (tx) => {
+    const result = await db.transaction(async (tx) => {
       // Delete review
       await tx.delete(storeReview).where(eq(storeReview.id, reviewId));
+      await deleteReviewActivity(tx, "store", reviewId);
 
       // Update store rating aggregates
       if (review[0].storeId) {
@@ -608,6 +724,15 @@ export async function deleteStoreReview(
         success: true,
       };
     });
+
+    if (review[0].storeId) {
+      await syncStoreToIndex(review[0].storeId);
+    }
+    if (review[0].images?.length) {
+      await deleteFiles(review[0].images);
+    }
+
+    return result;
   } catch (error) {
     console.error("Error deleting store review:", error);
     return {
@@ -617,6 +742,661 @@ export async function deleteStoreReview(
   }
 }
 
+/**
+ * Post or edit the store's public reply to a review
+ */
+export async function replyToReview(
+  type: ReviewType,
+  reviewId: string,
+  reply: string
+): Promise<ActionResponse> {
+  try {
+    const session = await auth.api.getSession({ headers: await headers() });
+    if (!session?.user?.id) {
+      return {
+        success: false,
+        error: "Authentication required",
+      };
+    }
+
+    const review = await getReviewTarget(type, reviewId);
+    if (!review) {
+      return {
+        success: false,
+        error: "Review not found",
+      };
+    }
+
+    await requirePermission(session, "reviews.manage", {
+      storeId: review.storeId,
+    });
+
+    const text = reply.trim();
+    if (!text) {
+      return {
+        success: false,
+        error: "Reply cannot be empty",
+      };
+    }
+    if (text.length > MAX_SELLER_REPLY_LENGTH) {
+      return {
+        success: false,
+        error: `Reply must be at most ${MAX_SELLER_REPLY_LENGTH} characters`,
+      };
+    }
+
+    await setReviewFields(db, type, reviewId, {
+      sellerReply: text,
+      sellerReplyAt: new Date(),
+      sellerReplyBy: session.user.id,
+    });
+
+    return { success: true };
+  } catch (error) {
+    console.error("Error replying to review:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to save reply",
+    };
+  }
+}
+
+/**
+ * Remove the store's reply from a review
+ */
+export async function deleteReviewReply(
+  type: ReviewType,
+  reviewId: string
+): Promise<ActionResponse> {
+  try {
+    const session = await auth.api.getSession({ headers: await headers() });
+    if (!session?.user?.id) {
+      return {
+        success: false,
+        error: "Authentication required",
+      };
+    }
+
+    const review = await getReviewTarget(type, reviewId);
+    if (!review) {
+      return {
+        success: false,
+        error: "Review not found",
+      };
+    }
+
+    await requirePermission(session, "reviews.manage", {
+      storeId: review.storeId,
+    });
+
+    await setReviewFields(db, type, reviewId, {
+      sellerReply: null,
+      sellerReplyAt: null,
+      sellerReplyBy: null,
+    });
+
+    return { success: true };
+  } catch (error) {
+    console.error("Error deleting review reply:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to delete reply",
+    };
+  }
+}
+
+/**
+ * Mark a review as helpful, or take the vote back if already given
+ */
+export async function toggleReviewHelpful(
+  type: ReviewType,
+  reviewId: string
+): Promise<ActionResponse & { helpful?: boolean; helpfulCount?: number }> {
+  try {
+    const session = await auth.api.getSession({ headers: await headers() });
+    if (!session?.user?.id) {
+      return {
+        success: false,
+        error: "Sign in to vote on reviews",
+      };
+    }
+    const userId = session.user.id;
+
+    const review = await getReviewTarget(type, reviewId);
+    if (!review || review.status !== "published") {
+      return {
+        success: false,
+        error: "Review not found",
+      };
+    }
+
+    if (review.userId === userId) {
+      return {
+        success: false,
+        error: "You can't vote on your own review",
+      };
+    }
+
+    const result = await db.transaction(async (tx) => {
+      const removed = await tx
+        .delete(reviewVotes)
+        .where(
+          and(
+            eq(reviewVotes.reviewType, type),
+            eq(reviewVotes.reviewId, reviewId),
+            eq(reviewVotes.userId, userId)
+          )
+        )
+        .returning({ id: reviewVotes.id });
+
+      if (removed.length === 0) {
+        await tx
+          .insert(reviewVotes)
+          .values({ reviewType: type, reviewId, userId })
+          .onConflictDoNothing();
+      }
+
+      const [votes] = await tx
+        .select({ count: sql<number>`COUNT(*)::int` })
+        .from(reviewVotes)
+        .where(
+          and(
+            eq(reviewVotes.reviewType, type),
+            eq(reviewVotes.reviewId, reviewId)
+          )
+        );
+
+      await setReviewFields(tx, type, reviewId, {
+        helpfulCount: votes.count,
+      });
+
+      return { helpful: removed.length === 0, helpfulCount: votes.count };
+    });
+
+    return { success: true, ...result };
+  } catch (error) {
+    console.error("Error voting on review:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to save vote",
+    };
+  }
+}
+
+/**
+ * Report a review for moderation
+ */
+export async function reportReview(
+  type: ReviewType,
+  reviewId: string,
+  reason: ReviewReportReason,
+  details?: string
+): Promise<ActionResponse> {
+  try {
+    const session = await auth.api.getSession({ headers: await headers() });
+    if (!session?.user?.id) {
+      return {
+        success: false,
+        error: "Sign in to report reviews",
+      };
+    }
+
+    if (!REPORT_REASONS.includes(reason)) {
+      return {
+        success: false,
+        error: "Invalid report reason",
+      };
+    }
+
+    const review = await getReviewTarget(type, reviewId);
+    if (!review || review.status !== "published") {
+      return {
+        success: false,
+        error: "Review not found",
+      };
+    }
+
+    if (review.userId === session.user.id) {
+      return {
+        success: false,
+        error: "You can't report your own review",
+      };
+    }
+
+    const inserted = await db
+      .insert(reviewReports)
+      .values({
+        reviewType: type,
+        reviewId,
+        reporterId: session.user.id,
+        reason,
+        details: details?.trim() || null,
+      })
+      .onConflictDoNothing()
+      .returning({ id: reviewReports.id });
+
+    if (inserted.length === 0) {
+      return {
+        success: false,
+        error: "You have already reported this review",
+      };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error("Error reporting review:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to report review",
+    };
+  }
+}
+
+/**
+ * Reviews of the current user's store, for replying from the dashboard.
+ * Includes hidden reviews so the store can see why they no longer count.
+ */
+export async function getStoreReviewsToManage(): Promise<{
+  success: boolean;
+  error?: string;
+  reviews: ManagedReview[];
+}> {
+  try {
+    const session = await auth.api.getSession({ headers: await headers() });
+    const { storeId, error } = await getStoreIdForUser();
+    if (!storeId) {
+      return {
+        success: false,
+        error: error || "Store not found",
+        reviews: [],
+      };
+    }
+
+    await requirePermission(session, "reviews.manage", { storeId });
+
+    const [products, stores] = await Promise.all([
+      selectProductReviews(eq(productReview.storeId, storeId)),
+      selectStoreReviews(eq(storeReview.storeId, storeId)),
+    ]);
+
+    return {
+      success: true,
+      reviews: [...products, ...stores].sort(
+        (a, b) => b.createdAt.getTime() - a.createdAt.getTime()
+      ),
+    };
+  } catch (error) {
+    console.error("Error fetching store reviews to manage:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to fetch reviews",
+      reviews: [],
+    };
+  }
+}
+
+/**
+ * Whether the current user's store sends post-purchase review request
+ * emails, and how many went out in the last 30 days
+ */
+export async function getReviewRequestSettings(): Promise<
+  ActionResponse & { enabled?: boolean; sentLast30Days?: number }
+> {
+  try {
+    const session = await auth.api.getSession({ headers: await headers() });
+    const { storeId, error } = await getStoreIdForUser();
+    if (!storeId) {
+      return { success: false, error: error || "Store not found" };
+    }
+
+    await requirePermission(session, "reviews.manage", { storeId });
+
+    const since = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000);
+    const [[storeRow], [sent]] = await Promise.all([
+      db
+        .select({ enabled: store.reviewRequestsEnabled })
+        .from(store)
+        .where(eq(store.id, storeId))
+        .limit(1),
+      db
+        .select({ count: sql<number>`count(*)::int` })
+        .from(reviewRequests)
+        .where(
+          and(
+            eq(reviewRequests.storeId, storeId),
+            eq(reviewRequests.status, "sent"),
+            gte(reviewRequests.sentAt, since)
+          )
+        ),
+    ]);
+
+    return {
+      success: true,
+      enabled: storeRow?.enabled ?? true,
+      sentLast30Days: sent?.count ?? 0,
+    };
+  } catch (error) {
+    console.error("Error fetching review request settings:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Failed to fetch review request settings",
+    };
+  }
+}
+
+/** Turn the store's post-purchase review request emails on or off */
+export async function updateReviewRequestSettings(
+  enabled: boolean
+): Promise<ActionResponse> {
+  try {
+    const session = await auth.api.getSession({ headers: await headers() });
+    const { storeId, error } = await getStoreIdForUser();
+    if (!storeId) {
+      return { success: false, error: error || "Store not found" };
+    }
+
+    await requirePermission(session, "reviews.manage", { storeId });
+
+    await db
+      .update(store)
+      .set({ reviewRequestsEnabled: enabled, updatedAt: new Date() })
+      .where(eq(store.id, storeId));
+
+    return { success: true };
+  } catch (error) {
+    console.error("Error updating review request settings:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Failed to update review request settings",
+    };
+  }
+}
+
+/**
+ * Reviews waiting for a moderator: those with open reports, or the hidden
+ * ones so they can be restored
+ */
+export async function getReviewModerationQueue(
+  view: "reported" | "hidden" = "reported"
+): Promise<{ success: boolean; error?: string; reviews: ModerationReview[] }> {
+  try {
+    const session = await auth.api.getSession({ headers: await headers() });
+    await requireReviewModerator(session);
+
+    let reviews: ManagedReview[];
+    if (view === "reported") {
+      const reported = await db
+        .selectDistinct({
+          reviewType: reviewReports.reviewType,
+          reviewId: reviewReports.reviewId,
+        })
+        .from(reviewReports)
+        .where(eq(reviewReports.status, "open"));
+
+      const productIds = reported
+        .filter((r) => r.reviewType === "product")
+        .map((r) => r.reviewId);
+      const storeIds = reported
+        .filter((r) => r.reviewType === "store")
+        .map((r) => r.reviewId);
+
+      const [products, stores] = await Promise.all([
+        productIds.length > 0
+          ? selectProductReviews(inArray(productReview.id, productIds))
+          : [],
+        storeIds.length > 0
+          ? selectStoreReviews(inArray(storeReview.id, storeIds))
+          : [],
+      ]);
+      reviews = [...products, ...stores];
+    } else {
+      const [products, stores] = await Promise.all([
+        selectProductReviews(eq(productReview.status, "hidden")),
+        selectStoreReviews(eq(storeReview.status, "hidden")),
+      ]);
+      reviews = [...products, ...stores];
+    }
+
+    if (reviews.length === 0) {
+      return { success: true, reviews: [] };
+    }
+
+    const reports = await db
+      .select({
+        id: reviewReports.id,
+        reviewType: reviewReports.reviewType,
+        reviewId: reviewReports.reviewId,
+        reason: reviewReports.reason,
+        details: reviewReports.details,
+        status: reviewReports.status,
+        reporterName: user.name,
+        createdAt: reviewReports.createdAt,
+      })
+      .from(reviewReports)
+      .leftJoin(user, eq(reviewReports.reporterId, user.id))
+      .where(
+        inArray(
+          reviewReports.reviewId,
+          reviews.map((r) => r.id)
+        )
+      )
+      .orderBy(desc(reviewReports.createdAt));
+
+    const queue = reviews.map((review) => {
+      const reviewReportsList = reports
+        .filter((r) => r.reviewType === review.type && r.reviewId === review.id)
+        .map((report) => ({
+          id: report.id,
+          reason: report.reason,
+          details: report.details,
+          status: report.status,
+          reporterName: report.reporterName,
+          createdAt: report.createdAt,
+        }));
+      return {
+        ...review,
+        reports: reviewReportsList,
+        openReportCount: reviewReportsList.filter((r) => r.status === "open")
+          .length,
+      };
+    });
+
+    // Most reported first, then newest
+    queue.sort(
+      (a, b) =>
+        b.openReportCount - a.openReportCount ||
+        b.createdAt.getTime() - a.createdAt.getTime()
+    );
+
+    return { success: true, reviews: queue };
+  } catch (error) {
+    console.error("Error fetching review moderation queue:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error ? error.message : "Failed to fetch the queue",
+      reviews: [],
+    };
+  }
+}
+
+/**
+ * Hide a review from the store and product pages. Its open reports are
+ * resolved and it stops counting towards the rating.
+ */
+export async function hideReview(
+  type: ReviewType,
+  reviewId: string,
+  reason: string
+): Promise<ActionResponse> {
+  try {
+    const session = await auth.api.getSession({ headers: await headers() });
+    const { userId } = await requireReviewModerator(session);
+
+    const hiddenReason = reason.trim();
+    if (!hiddenReason) {
+      return {
+        success: false,
+        error: "A reason is required to hide a review",
+      };
+    }
+
+    const review = await getReviewTarget(type, reviewId);
+    if (!review) {
+      return {
+        success: false,
+        error: "Review not found",
+      };
+    }
+    if (review.status === "hidden") {
+      return {
+        success: false,
+        error: "Review is already hidden",
+      };
+    }
+
+    const now = new Date();
+    await db.transaction(async (tx) => {
+      await setReviewFields(tx, type, reviewId, {
+        status: "hidden",
+        hiddenReason,
+        hiddenAt: now,
+        hiddenBy: userId,
+      });
+
+      await tx
+        .update(reviewReports)
+        .set({ status: "resolved", resolvedAt: now, resolvedBy: userId })
+        .where(
+          and(
+            eq(reviewReports.reviewType, type),
+            eq(reviewReports.reviewId, reviewId),
+            eq(reviewReports.status, "open")
+          )
+        );
+
+      await updateReviewAggregates(tx, type, review);
+    });
+
+    await syncReviewToIndex(type, review);
+
+    await recordAuditEvent({
+      action: "review.hidden",
+      entityType: `${type}_review`,
+      entityId: reviewId,
+      actorId: userId,
+      before: { status: review.status },
+      after: { status: "hidden", hiddenReason },
+      metadata: { storeId: review.storeId },
+    });
+
+    return { success: true };
+  } catch (error) {
+    console.error("Error hiding review:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to hide review",
+    };
+  }
+}
+
+/**
+ * Publish a hidden review again
+ */
+export async function restoreReview(
+  type: ReviewType,
+  reviewId: string
+): Promise<ActionResponse> {
+  try {
+    const session = await auth.api.getSession({ headers: await headers() });
+    const { userId } = await requireReviewModerator(session);
+
+    const review = await getReviewTarget(type, reviewId);
+    if (!review) {
+      return {
+        success: false,
+        error: "Review not found",
+      };
+    }
+    if (review.status !== "hidden") {
+      return {
+        success: false,
+        error: "Review is not hidden",
+      };
+    }
+
+    await db.transaction(async (tx) => {
+      await setReviewFields(tx, type, reviewId, {
+        status: "published",
+        hiddenReason: null,
+        hiddenAt: null,
+        hiddenBy: null,
+      });
+      await updateReviewAggregates(tx, type, review);
+    });
+
+    await syncReviewToIndex(type, review);
+
+    await recordAuditEvent({
+      action: "review.restored",
+      entityType: `${type}_review`,
+      entityId: reviewId,
+      actorId: userId,
+      before: { status: "hidden" },
+      after: { status: "published" },
+      metadata: { storeId: review.storeId },
+    });
+
+    return { success: true };
+  } catch (error) {
+    console.error("Error restoring review:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error ? error.message : "Failed to restore review",
+    };
+  }
+}
+
+/**
+ * Close a review's open reports and keep it published
+ */
+export async function dismissReviewReports(
+  type: ReviewType,
+  reviewId: string
+): Promise<ActionResponse> {
+  try {
+    const session = await auth.api.getSession({ headers: await headers() });
+    const { userId } = await requireReviewModerator(session);
+
+    await db
+      .update(reviewReports)
+      .set({ status: "dismissed", resolvedAt: new Date(), resolvedBy: userId })
+      .where(
+        and(
+          eq(reviewReports.reviewType, type),
+          eq(reviewReports.reviewId, reviewId),
+          eq(reviewReports.status, "open")
+        )
+      );
+
+    return { success: true };
+  } catch (error) {
+    console.error("Error dismissing review reports:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error ? error.message : "Failed to dismiss reports",
+    };
+  }
+}
+
 /**
  * Check if user can review a product (has completed order)
  */
@@ -729,7 +1509,7 @@ export async function canReviewProduct(
 }
 
 /**
- * Update product rating aggregates
+ * Update product rating aggregates (published reviews only)
  */
 async function updateProductRatingAggregates(
   tx: Parameters<Parameters<typeof db.transaction>[0]>[0],
@@ -742,7 +1522,12 @@ async function updateProductRatingAggregates(
       sum: sql<number>`COALESCE(SUM(${productReview.rating})::int, 0)`,
     })
     .from(productReview)
-    .where(eq(productReview.listingId, listingId));
+    .where(
+      and(
+        eq(productReview.listingId, listingId),
+        eq(productReview.status, "published")
+      )
+    );
 
   const avg = stats[0]?.avg || 0;
   const count = stats[0]?.count || 0;
@@ -757,7 +1542,7 @@ async function updateProductRatingAggregates(
 }
 
 /**
- * Update store rating aggregates
+ * Update store rating aggregates (published reviews only)
  */
 async function updateStoreRatingAggregates(
   tx: Parameters<Parameters<typeof db.transaction>[0]>[0],
@@ -770,7 +1555,9 @@ async function updateStoreRatingAggregates(
       sum: sql<number>`COALESCE(SUM(${storeReview.rating})::int, 0)`,
     })
     .from(storeReview)
-    .where(eq(storeReview.storeId, storeId));
+    .where(
+      and(eq(storeReview.storeId, storeId), eq(storeReview.status, "published"))
+    );
 
   const avg = stats[0]?.avg || 0;
   const count = stats[0]?.count || 0;
@@ -785,3 +1572,262 @@ async function updateStoreRatingAggregates(
     })
     .where(eq(store.id, storeId));
 }
+
+type ReviewFields = Partial<
+  Pick<
+    typeof productReview.$inferInsert,
+    | "status"
+    | "hiddenReason"
+    | "hiddenAt"
+    | "hiddenBy"
+    | "helpfulCount"
+    | "sellerReply"
+    | "sellerReplyAt"
+    | "sellerReplyBy"
+  >
+>;
+
+interface ReviewTarget {
+  storeId: string;
+  listingId: string | null;
+  userId: string | null;
+  status: "published" | "hidden";
+}
+
+/**
+ * Check photos attached to a review before uploading them
+ */
+function validateReviewPhotos(images: File[] | undefined): string | null {
+  if (!images?.length) return null;
+
+  if (images.length > MAX_REVIEW_PHOTOS) {
+    return `You can add at most ${MAX_REVIEW_PHOTOS} photos`;
+  }
+  for (const image of images) {
+    if (!REVIEW_PHOTO_TYPES.includes(image.type)) {
+      return `${image.name} must be a JPEG, PNG or WebP image`;
+    }
+    if (image.size > MAX_REVIEW_PHOTO_SIZE) {
+      return `${image.name} is larger than 2MB`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Load the fields permission checks and aggregates need
+ */
+async function getReviewTarget(
+  type: ReviewType,
+  reviewId: string
+): Promise<ReviewTarget | null> {
+  if (type === "product") {
+    const [review] = await db
+      .select({
+        storeId: productReview.storeId,
+        listingId: productReview.listingId,
+        userId: productReview.userId,
+        status: productReview.status,
+      })
+      .from(productReview)
+      .where(eq(productReview.id, reviewId))
+      .limit(1);
+    return review ?? null;
+  }
+
+  const [review] = await db
+    .select({
+      storeId: storeReview.storeId,
+      userId: storeReview.userId,
+      status: storeReview.status,
+    })
+    .from(storeReview)
+    .where(eq(storeReview.id, reviewId))
+    .limit(1);
+  return review ? { ...review, listingId: null } : null;
+}
+
+async function setReviewFields(
+  executor: Pick<typeof db, "update">,
+  type: ReviewType,
+  reviewId: string,
+  fields: ReviewFields
+): Promise<void> {
+  if (type === "product") {
+    await executor
+      .update(productReview)
+      .set(fields)
+      .where(eq(productReview.id, reviewId));
+  } else {
+    await executor
+      .update(storeReview)
+      .set(fields)
+      .where(eq(storeReview.id, reviewId));
+  }
+}
+
+async function updateReviewAggregates(
+  tx: Parameters<Parameters<typeof db.transaction>[0]>[0],
+  type: ReviewType,
+  review: ReviewTarget
+): Promise<void> {
+  if (type === "product" && review.listingId) {
+    await updateProductRatingAggregates(tx, review.listingId);
+  } else if (type === "store") {
+    await updateStoreRatingAggregates(tx, review.storeId);
+  }
+}
+
+async function syncReviewToIndex(
+  type: ReviewType,
+  review: ReviewTarget
+): Promise<void> {
+  if (type === "product" && review.listingId) {
+    await syncListingToIndex(review.listingId);
+  } else if (type === "store") {
+    await syncStoreToIndex(review.storeId);
+  }
+}
+
+/**
+ * Votes and reports point at reviews without a foreign key, so remove them
+ * with the review
+ */
+async function deleteReviewActivity(
+  tx: Parameters<Parameters<typeof db.transaction>[0]>[0],
+  type: ReviewType,
+  reviewId: string
+): Promise<void> {
+  await tx
+    .delete(reviewVotes)
+    .where(
+      and(eq(reviewVotes.reviewType, type), eq(reviewVotes.reviewId, reviewId))
+    );
+  await tx
+    .delete(reviewReports)
+    .where(
+      and(
+        eq(reviewReports.reviewType, type),
+        eq(reviewReports.reviewId, reviewId)
+      )
+    );
+}
+
+/**
+ * Reviews among reviewIds the current user marked as helpful
+ */
+async function getVotedReviewIds(
+  type: ReviewType,
+  reviewIds: string[]
+): Promise<Set<string>> {
+  const session = await auth.api.getSession({ headers: await headers() });
+  if (!session?.user?.id || reviewIds.length === 0) {
+    return new Set();
+  }
+
+  const votes = await db
+    .select({ reviewId: reviewVotes.reviewId })
+    .from(reviewVotes)
+    .where(
+      and(
+        eq(reviewVotes.reviewType, type),
+        eq(reviewVotes.userId, session.user.id),
+        inArray(reviewVotes.reviewId, reviewIds)
+      )
+    );
+  return new Set(votes.map((vote) => vote.reviewId));
+}
+
+/**
+ * Hiding and restoring reviews is for platform moderators, who hold
+ * "reviews.manage" for every store. Stores only reply to their reviews.
+ */
+async function requireReviewModerator(session: PermissionSession) {
+  const grant = await requirePermission(session, "reviews.manage");
+  if (!grant.allStores) {
+    throw new PermissionDeniedError(
+      "reviews.manage",
+      "Only platform moderators can moderate reviews"
+    );
+  }
+  return grant;
+}
+
+async function selectProductReviews(
+  condition: SQL | undefined
+): Promise<ManagedReview[]> {
+  const rows = await db
+    .select({
+      id: productReview.id,
+      storeId: productReview.storeId,
+      storeName: store.storeName,
+      listingId: productReview.listingId,
+      productName: listing.name,
+      productSlug: listing.slug,
+      rating: productReview.rating,
+      title: productReview.title,
+      text: productReview.comment,
+      images: productReview.images,
+      status: productReview.status,
+      hiddenReason: productReview.hiddenReason,
+      helpfulCount: productReview.helpfulCount,
+      sellerReply: productReview.sellerReply,
+      sellerReplyAt: productReview.sellerReplyAt,
+      createdAt: productReview.createdAt,
+      userName: user.name,
+      guestName: productReview.guestName,
+    })
+    .from(productReview)
+    .leftJoin(listing, eq(productReview.listingId, listing.id))
+    .leftJoin(store, eq(productReview.storeId, store.id))
+    .leftJoin(user, eq(productReview.userId, user.id))
+    .where(condition)
+    .orderBy(desc(productReview.createdAt))
+    .limit(200);
+
+  return rows.map(({ userName, guestName, ...row }) => ({
+    ...row,
+    type: "product" as const,
+    images: row.images ?? [],
+    reviewerName: userName || guestName || "Anonymous",
+  }));
+}
+
+async function selectStoreReviews(
+  condition: SQL | undefined
+): Promise<ManagedReview[]> {
+  const rows = await db
+    .select({
+      id: storeReview.id,
+      storeId: storeReview.storeId,
+      storeName: store.storeName,
+      rating: storeReview.rating,
+      title: storeReview.title,
+      text: storeReview.body,
+      images: storeReview.images,
+      status: storeReview.status,
+      hiddenReason: storeReview.hiddenReason,
+      helpfulCount: storeReview.helpfulCount,
+      sellerReply: storeReview.sellerReply,
+      sellerReplyAt: storeReview.sellerReplyAt,
+      createdAt: storeReview.createdAt,
+      userName: user.name,
+      guestName: storeReview.guestName,
+    })
+    .from(storeReview)
+    .leftJoin(store, eq(storeReview.storeId, store.id))
+    .leftJoin(user, eq(storeReview.userId, user.id))
+    .where(condition)
+    .orderBy(desc(storeReview.createdAt))
+    .limit(200);
+
+  return rows.map(({ userName, guestName, ...row }) => ({
+    ...row,
+    type: "store" as const,
+    listingId: null,
+    productName: null,
+    productSlug: null,
+    images: row.images ?? [],
+    reviewerName: userName || guestName || "Anonymous",
+  }));
+}
@@ -1,8 +1,12 @@
 "use server";
 
-import { db } from "@/db";
-import { listing, listingTranslations, store } from "@/db/schema";
-import { eq, and, or, ilike, sql, desc, isNotNull } from "drizzle-orm";
+import {
+  searchProductIndex,
+  searchStoreIndex,
+  type ProductSearchDocument,
+  type ProductSearchFacets,
+  type ProductSearchSort,
+} from "@/lib/search-index";
 
 export interface SearchResult {
   type: "product" | "store" | "category";
@@ -12,9 +16,34 @@ export interface SearchResult {
   imageUrl?: string | null;
   description?: string | null;
   price?: string | null;
+  currency?: string | null;
   storeName?: string | null;
   storeSlug?: string | null;
   categoryName?: string | null;
+  ratingAverage?: number | null;
+  ratingCount?: number | null;
+}
+
+function toProductResult(
+  doc: ProductSearchDocument,
+  locale: string
+): SearchResult {
+  const translation = doc.translations[locale];
+  return {
+    type: "product",
+    id: doc.id,
+    slug: doc.slug || undefined,
+    name: translation?.name || doc.name,
+    imageUrl: doc.imageUrl,
+    description: translation?.description || doc.description || null,
+    price: doc.price.toFixed(2),
+    currency: doc.currency,
+    storeName: doc.storeName || null,
+    storeSlug: doc.storeSlug || null,
+    categoryName: doc.categoryName || null,
+    ratingAverage: doc.rating,
+    ratingCount: doc.ratingCount,
+  };
 }
 
 /**
@@ -33,107 +62,16 @@ export async function searchAll(
       return { success: true, results: [] };
     }
 
-    const searchTerm = `%${query.trim()}%`;
-
-    // Search products (listings)
-    const products = await db
-      .select({
-        id: listing.id,
-        slug: listing.slug,
-        name: listingTranslations.name,
-        nameFallback: listing.name,
-        description: listingTranslations.description,
-        descriptionFallback: listing.description,
-        imageUrl: listing.imageUrl,
-        price: listing.price,
-        storeName: store.storeName,
-        storeSlug: store.slug,
-        categoryName: listing.taxonomyCategoryName,
-      })
-      .from(listing)
-      .leftJoin(
-        listingTranslations,
-        and(
-          eq(listingTranslations.listingId, listing.id),
-          eq(listingTranslations.locale, locale)
-        )
-      )
-      .leftJoin(store, eq(store.id, listing.storeId))
-      .where(
-        and(
-          eq(listing.status, "active"),
-          eq(listing.isFeatured, true),
-          or(
-            ilike(listing.name, searchTerm),
-            ilike(listingTranslations.name, searchTerm),
-            ilike(listing.description, searchTerm),
-            ilike(listingTranslations.description, searchTerm),
-            ilike(store.storeName, searchTerm),
-            ilike(listing.taxonomyCategoryName, searchTerm)
-          )
-        )
-      )
-      .limit(20);
+    const [products, stores] = await Promise.all([
+      searchProductIndex({ query, limit: 20 }),
+      searchStoreIndex(query, 10),
+    ]);
 
-    // Search stores
-    const stores = await db
-      .select({
-        id: store.id,
-        storeName: store.storeName,
-        logoUrl: store.logoUrl,
-        slug: store.slug,
-      })
-      .from(store)
-      .where(
-        and(eq(store.visibility, "public"), ilike(store.storeName, searchTerm))
-      )
-      .limit(10);
-
-    // Search categories (from listing taxonomyCategoryName)
-    // Get unique categories by fetching all matching listings and deduplicating
-    const categoryResults = await db
-      .select({
-        id: listing.taxonomyCategoryId,
-        name: listing.taxonomyCategoryName,
-      })
-      .from(listing)
-      .where(
-        and(
-          eq(listing.status, "active"),
-          eq(listing.isFeatured, true),
-          isNotNull(listing.taxonomyCategoryId),
-          isNotNull(listing.taxonomyCategoryName),
-          ilike(listing.taxonomyCategoryName, searchTerm)
-        )
-      )
-      .limit(50); // Get more to ensure we have enough unique categories
-
-    // Deduplicate categories
-    const categoryMap = new Map<string, string>();
-    categoryResults.forEach((c) => {
-      if (c.id && c.name && !categoryMap.has(c.id)) {
-        categoryMap.set(c.id, c.name);
-      }
-    });
+    // Categories of the matching products, most matches first
+    const categories = products.facets.categories.slice(0, 10);
 
-    const categories = Array.from(categoryMap.entries())
-      .slice(0, 10)
-      .map(([id, name]) => ({ id, name }));
-
-    // Format results
     const results: SearchResult[] = [
-      ...products.map((p) => ({
-        type: "product" as const,
-        id: p.id,
-        slug: p.slug || undefined,
-        name: p.name || p.nameFallback || "",
-        imageUrl: p.imageUrl,
-        description: p.description || p.descriptionFallback || null,
-        price: p.price,
-        storeName: p.storeName || null,
-        storeSlug: p.storeSlug || null,
-        categoryName: p.categoryName || null,
-      })),
+      ...products.hits.map((p) => toProductResult(p, locale)),
       ...stores.map((s) => ({
         type: "store" as const,
         id: s.id,
@@ -143,8 +81,8 @@ export async function searchAll(
       })),
       ...categories.map((c) => ({
         type: "category" as const,
-        id: c.id,
-        name: c.name,
+        id: c.value,
+        name: c.label,
       })),
     ];
 
@@ -172,6 +110,9 @@ export async function searchProducts(
     maxPrice?: number;
     categoryId?: string;
     storeId?: string;
+    minRating?: number;
+    shipsTo?: string;
+    sort?: ProductSearchSort;
   }
 ): Promise<{
   success: boolean;
@@ -179,10 +120,21 @@ export async function searchProducts(
   total: number;
   page: number;
   totalPages: number;
+  facets?: ProductSearchFacets;
   error?: string;
 }> {
   try {
-    if (!query || query.trim().length === 0) {
+    const hasFilters = Boolean(
+      options?.minPrice !== undefined ||
+      options?.maxPrice !== undefined ||
+      options?.categoryId ||
+      options?.storeId ||
+      options?.minRating !== undefined ||
+      options?.shipsTo
+    );
+
+    // Browsing by facet works without a query; an empty search does not
+    if ((!query || query.trim().length === 0) && !hasFilters) {
       return {
         success: true,
         results: [],
@@ -192,102 +144,31 @@ export async function searchProducts(
       };
     }
 
-    const searchTerm = `%${query.trim()}%`;
     const page = options?.page || 1;
     const limit = options?.limit || 24;
-    const offset = (page - 1) * limit;
-
-    // Build where conditions (home/search: only show featured products)
-    const whereConditions = [
-      eq(listing.status, "active"),
-      eq(listing.isFeatured, true),
-      or(
-        ilike(listing.name, searchTerm),
-        ilike(listingTranslations.name, searchTerm),
-        ilike(listing.description, searchTerm),
-        ilike(listingTranslations.description, searchTerm),
-        ilike(store.storeName, searchTerm),
-        ilike(listing.taxonomyCategoryName, searchTerm)
-      ),
-    ];
 
-    if (options?.minPrice) {
-      whereConditions.push(sql`${listing.price} >= ${options.minPrice}`);
-    }
-    if (options?.maxPrice) {
-      whereConditions.push(sql`${listing.price} <= ${options.maxPrice}`);
-    }
-    if (options?.categoryId) {
-      whereConditions.push(eq(listing.taxonomyCategoryId, options.categoryId));
-    }
-    if (options?.storeId) {
-      whereConditions.push(eq(listing.storeId, options.storeId));
-    }
-
-    // Get total count
-    const countResult = await db
-      .select({ count: sql<number>`count(*)` })
-      .from(listing)
-      .leftJoin(
-        listingTranslations,
-        and(
-          eq(listingTranslations.listingId, listing.id),
-          eq(listingTranslations.locale, locale)
-        )
-      )
-      .leftJoin(store, eq(store.id, listing.storeId))
-      .where(and(...whereConditions));
-
-    const total = Number(countResult[0]?.count || 0);
-
-    // Get products
-    const products = await db
-      .select({
-        id: listing.id,
-        slug: listing.slug,
-        name: listingTranslations.name,
-        nameFallback: listing.name,
-        description: listingTranslations.description,
-        descriptionFallback: listing.description,
-        imageUrl: listing.imageUrl,
-        price: listing.price,
-        storeName: store.storeName,
-        storeSlug: store.slug,
-        categoryName: listing.taxonomyCategoryName,
-      })
-      .from(listing)
-      .leftJoin(
-        listingTranslations,
-        and(
-          eq(listingTranslations.listingId, listing.id),
-          eq(listingTranslations.locale, locale)
-        )
-      )
-      .leftJoin(store, eq(store.id, listing.storeId))
-      .where(and(...whereConditions))
-      .orderBy(desc(listing.createdAt))
-      .limit(limit)
-      .offset(offset);
-
-    const results: SearchResult[] = products.map((p) => ({
-      type: "product" as const,
-      id: p.id,
-      slug: p.slug || undefined,
-      name: p.name || p.nameFallback || "",
-      imageUrl: p.imageUrl,
-      description: p.description || p.descriptionFallback || null,
-      price: p.price,
-      storeName: p.storeName || null,
-      storeSlug: p.storeSlug || null,
-      categoryName: p.categoryName || null,
-    }));
+    const response = await searchProductIndex({
+      query: query || "",
+      filters: {
+        categoryId: options?.categoryId,
+        storeId: options?.storeId,
+        minPrice: options?.minPrice,
+        maxPrice: options?.maxPrice,
+        minRating: options?.minRating,
+        shipsTo: options?.shipsTo,
+      },
+      sort: options?.sort,
+      page,
+      limit,
+    });
 
     return {
       success: true,
-      results,
-      total,
+      results: response.hits.map((p) => toProductResult(p, locale)),
+      total: response.total,
       page,
-      totalPages: Math.ceil(total / limit),
+      totalPages: Math.ceil(response.total / limit),
+      facets: response.facets,
     };
   } catch (error) {
     console.error("Product search error:", error);
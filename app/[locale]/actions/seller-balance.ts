@@ -34,7 +34,7 @@ interface UpdateSellerBalanceParams {
  * - order_payment: Payment received from customer
  *
  * DEBITS (decrease balance):
- * - platform_fee: Platform commission (5%)
+ * - platform_fee: Platform commission (per the fee schedule, lib/platform-fees.ts)
  * - stripe_fee: Stripe processing fee
  * - shipping_label: Cost of shipping label
  * - refund: Refund to customer
@@ -154,22 +154,34 @@ export async function updateSellerBalance(
     }
 
     // Create immutable ledger entry
-    await db.insert(sellerBalanceTransactions).values({
-      storeId,
-      type,
-      amount: amount.toFixed(2),
-      currency,
-      orderId,
-      orderPaymentId,
-      orderShipmentId,
-      payoutId,
-      balanceBefore: balanceBefore.toFixed(2),
-      balanceAfter: balanceAfter.toFixed(2),
-      status,
-      availableAt,
-      description,
-      metadata,
-    });
+    const [transaction] = await db
+      .insert(sellerBalanceTransactions)
+      .values({
+        storeId,
+        type,
+        amount: amount.toFixed(2),
+        currency,
+        orderId,
+        orderPaymentId,
+        orderShipmentId,
+        payoutId,
+        balanceBefore: balanceBefore.toFixed(2),
+        balanceAfter: balanceAfter.toFixed(2),
+        status,
+        availableAt,
+        description,
+        metadata,
+      })
+      .returning();
+
+    // Post the matching double-entry journal entry. The balance change above
+    // stands either way; the reconcile-ledger cron posts any that failed.
+    try {
+      const { postSellerTransactionJournal } = await import("@/lib/ledger");
+      await postSellerTransactionJournal(transaction);
+    } catch (error) {
+      console.error("[Ledger] Failed to post journal entry:", error);
+    }
 
     // Revalidate seller dashboard pages
     revalidatePath("/dashboard/payouts");
@@ -13,7 +13,9 @@ import { auth } from "@/lib/auth";
 import { headers } from "next/headers";
 import { getStoreIdForUser } from "@/app/[locale]/actions/store-id";
 import { formatCurrency } from "@/lib/utils";
+import { recordAuditEvent } from "@/lib/audit";
 import Stripe from "stripe";
+import { requireCurrentPermission, requirePermission } from "@/lib/permissions";
 
 const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
   apiVersion: "2025-09-30.clover",
@@ -48,6 +50,7 @@ export async function requestPayout(params: RequestPayoutParams): Promise<{
     if (!storeId) {
       return { success: false, error: "Store not found" };
     }
+    await requirePermission(session, "finances.payout", { storeId });
 
     const { amount, currency } = params;
 
@@ -321,14 +324,23 @@ export async function processPayout(
       // Trust the ledger balance and let Stripe handle the transfer
     }
 
-    // Update payout status to processing
-    await db
+    // Claim the payout so concurrent runs (cron retries, admin) don't both pay it
+    const attempt = payout.attemptCount + 1;
+    const claimed = await db
       .update(sellerPayouts)
       .set({
         status: "processing",
         processedAt: new Date(),
+        attemptCount: attempt,
       })
-      .where(eq(sellerPayouts.id, payoutId));
+      .where(
+        and(eq(sellerPayouts.id, payoutId), eq(sellerPayouts.status, "pending"))
+      )
+      .returning({ id: sellerPayouts.id });
+
+    if (claimed.length === 0) {
+      return { success: false, error: "Payout is already being processed" };
+    }
 
     // Create Stripe payout (from connected account to seller's bank account)
     let transferId: string;
@@ -374,14 +386,17 @@ export async function processPayout(
           };
         }
 
-        // Create payout from connected account to seller's bank account
+        // Create payout from connected account to seller's bank account.
+        // Keyed per attempt so a repeated request can't pay twice.
         const stripePayout = await stripe.payouts.create(
           {
             amount: payoutAmountCents,
             currency: payout.currency.toLowerCase(),
+            metadata: { sellerPayoutId: payout.id },
           },
           {
             stripeAccount: storeData.stripeAccountId,
+            idempotencyKey: `seller-payout-${payout.id}-${attempt}`,
           }
         );
         
@@ -459,6 +474,21 @@ export async function processPayout(
         )
       );
 
+    await recordAuditEvent({
+      action: "payout.completed",
+      entityType: "payout",
+      entityId: payout.id,
+      before: { status: payout.status },
+      after: { status: "completed" },
+      metadata: {
+        storeId: payout.storeId,
+        amount: payout.amount,
+        currency: payout.currency,
+        provider: payout.provider,
+        transferId,
+      },
+    });
+
     revalidatePath("/dashboard/payouts");
 
     return { success: true, transferId };
@@ -534,7 +564,8 @@ export async function processPayoutByStoreId(params: {
  */
 export async function markEsewaPayoutCompleted(
   payoutId: string,
-  deliveryMethod?: "esewa" | "bank"
+  deliveryMethod?: "esewa" | "bank",
+  actorId?: string | null
 ): Promise<{ success: boolean; error?: string }> {
   try {
     const [payout] = await db
@@ -606,6 +637,22 @@ export async function markEsewaPayoutCompleted(
         )
       );
 
+    await recordAuditEvent({
+      action: "payout.completed",
+      entityType: "payout",
+      entityId: payout.id,
+      actorId,
+      before: { status: payout.status },
+      after: { status: "completed" },
+      metadata: {
+        storeId: payout.storeId,
+        amount: payout.amount,
+        currency: payout.currency,
+        provider: payout.provider,
+        deliveryMethod: deliveryMethod ?? null,
+      },
+    });
+
     revalidatePath("/dashboard/finances");
     revalidatePath("/dashboard/finances/payouts");
     revalidatePath("/dashboard/finances/transactions");
@@ -625,6 +672,7 @@ export async function markEsewaPayoutCompleted(
  */
 export async function getPayouts(storeId: string) {
   try {
+    await requireCurrentPermission("finances.view", { storeId });
     // Select only columns we return (avoids "column does not exist" if migration not run yet)
     const payouts = await db
       .select({
@@ -0,0 +1,140 @@
+"use server";
+
+import { db } from "@/db";
+import { sellerBalances, sellerStatements } from "@/db/schema";
+import { and, desc, eq, isNotNull } from "drizzle-orm";
+import { revalidatePath } from "next/cache";
+import { getStoreIdForUser } from "./store-id";
+import {
+  generateSellerStatement,
+  taxYearPeriod,
+  type StatementTotals,
+} from "@/lib/seller-statements";
+import {
+  isPermissionDeniedError,
+  requireCurrentPermission,
+} from "@/lib/permissions";
+
+export interface SellerStatementRow {
+  id: string;
+  currency: string;
+  periodType: "monthly" | "annual";
+  periodStart: Date;
+  periodEnd: Date;
+  openingBalance: number;
+  closingBalance: number;
+  totals: Partial<StatementTotals>;
+  pdfUrl: string;
+}
+
+/**
+ * Generated statements and annual summaries for the current seller's store
+ */
+export async function getSellerStatements(): Promise<
+  | { success: false; error: string }
+  | {
+      success: true;
+      data: { statements: SellerStatementRow[]; currencies: string[] };
+    }
+> {
+  const { storeId } = await getStoreIdForUser();
+  if (!storeId) {
+    return { success: false, error: "Store not found" };
+  }
+  try {
+    await requireCurrentPermission("finances.view", { storeId });
+  } catch (error) {
+    if (isPermissionDeniedError(error)) {
+      return { success: false, error: error.message };
+    }
+    throw error;
+  }
+
+  const rows = await db
+    .select()
+    .from(sellerStatements)
+    .where(
+      and(
+        eq(sellerStatements.storeId, storeId),
+        isNotNull(sellerStatements.pdfUrl)
+      )
+    )
+    .orderBy(desc(sellerStatements.periodStart));
+
+  const wallets = await db
+    .select({ currency: sellerBalances.currency })
+    .from(sellerBalances)
+    .where(eq(sellerBalances.storeId, storeId));
+
+  return {
+    success: true,
+    data: {
+      statements: rows.map((row) => ({
+        id: row.id,
+        currency: row.currency,
+        periodType: row.periodType as SellerStatementRow["periodType"],
+        periodStart: row.periodStart,
+        periodEnd: row.periodEnd,
+        openingBalance: parseFloat(row.openingBalance),
+        closingBalance: parseFloat(row.closingBalance),
+        totals: (row.totals ?? {}) as Partial<StatementTotals>,
+        pdfUrl: row.pdfUrl!,
+      })),
+      currencies: wallets.map((w) => w.currency).sort(),
+    },
+  };
+}
+
+/**
+ * Generate the annual earnings summary for a completed tax year (Finnish
+ * calendar year for EUR, Nepali fiscal year for NPR)
+ */
+export async function generateAnnualEarningsSummary(params: {
+  currency: string;
+  taxYear: number;
+}): Promise<
+  { success: false; error: string } | { success: true; pdfUrl: string }
+> {
+  const { storeId } = await getStoreIdForUser();
+  if (!storeId) {
+    return { success: false, error: "Store not found" };
+  }
+
+  if (!["EUR", "NPR"].includes(params.currency)) {
+    return { success: false, error: "Unsupported currency" };
+  }
+  if (!Number.isInteger(params.taxYear) || params.taxYear < 2000) {
+    return { success: false, error: "Invalid tax year" };
+  }
+
+  const period = taxYearPeriod(params.currency, params.taxYear);
+  if (period.end > new Date()) {
+    return {
+      success: false,
+      error: `${period.label} hasn't ended yet`,
+    };
+  }
+
+  try {
+    await requireCurrentPermission("finances.view");
+    const statement = await generateSellerStatement({
+      storeId,
+      currency: params.currency,
+      periodType: "annual",
+      period,
+    });
+
+    revalidatePath("/dashboard/finances/statements");
+
+    return { success: true, pdfUrl: statement.pdfUrl! };
+  } catch (error) {
+    console.error("Error generating annual earnings summary:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Failed to generate earnings summary",
+    };
+  }
+}
@@ -7,13 +7,26 @@ import {
   shippingDestinations,
 } from "@/db/schema";
 import { eq, and } from "drizzle-orm";
+import {
+  hasPartialCountryDestination,
+  loadShippingZones,
+  resolveShippingDestination,
+} from "@/lib/shipping-zones";
 
+/**
+ * Whether a listing ships to an address. Without `address` only the country
+ * is known (product pages and listings): a product that ships to some
+ * regions or postal codes of the country counts as available, with
+ * `needsAddress` set, and checkout checks the full address.
+ */
 export async function checkShippingAvailability(
   listingId: string,
-  countryCode: string
+  countryCode: string,
+  address?: { region?: string | null; postalCode?: string | null }
 ): Promise<{
   available: boolean;
   hasProfile: boolean;
+  needsAddress?: boolean; // Depends on the region or postal code
   message?: string;
 }> {
   try {
@@ -65,43 +78,50 @@ export async function checkShippingAvailability(
       .select({
         destinationType: shippingDestinations.destinationType,
         countryCode: shippingDestinations.countryCode,
+        regionCode: shippingDestinations.regionCode,
         excluded: shippingDestinations.excluded,
       })
       .from(shippingDestinations)
       .where(eq(shippingDestinations.shippingProfileId, profileId));
 
-    // Check if country is supported
-    const countryMatch = destinations.find(
-      (d) =>
-        d.destinationType === "country" &&
-        d.countryCode === countryCode &&
-        !d.excluded
+    const zones = await loadShippingZones(
+      destinations
+        .filter((d) => d.destinationType === "region")
+        .map((d) => d.regionCode)
+    );
+
+    // Most specific destination wins (postal codes > region > country >
+    // zone > everywhere else); exclusions make it unavailable
+    const match = resolveShippingDestination(
+      destinations,
+      {
+        country: countryCode,
+        region: address?.region,
+        postalCode: address?.postalCode,
+      },
+      zones
     );
 
-    if (countryMatch) {
+    if (match) {
       return { available: true, hasProfile: true };
     }
 
-    // Check "everywhere_else"
-    const everywhereElse = destinations.find(
-      (d) => d.destinationType === "everywhere_else" && !d.excluded
-    );
-
-    if (everywhereElse) {
-      // Check if country is explicitly excluded
-      const isExcluded = destinations.some(
-        (d) =>
-          d.destinationType === "country" &&
-          d.countryCode === countryCode &&
-          d.excluded
-      );
-      return { available: !isExcluded, hasProfile: true };
+    if (
+      !address &&
+      hasPartialCountryDestination(destinations, countryCode, zones)
+    ) {
+      return {
+        available: true,
+        hasProfile: true,
+        needsAddress: true,
+        message: "Ships to some addresses in this country",
+      };
     }
 
     return {
       available: false,
       hasProfile: true,
-      message: "Shipping not available to this country",
+      message: "Shipping not available to this address",
     };
   } catch (error) {
     console.error("Error checking shipping availability:", error);
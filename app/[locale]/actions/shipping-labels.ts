@@ -22,6 +22,7 @@ import { getStoreIdForUser } from "./store-id";
 import { auth } from "@/lib/auth";
 import { headers } from "next/headers";
 import { nanoid } from "nanoid";
+import { requireCurrentPermission, requirePermission } from "@/lib/permissions";
 
 /**
  * Get order and store addresses for shipping label purchase
@@ -63,6 +64,8 @@ export async function getShippingAddresses(params: {
       return { success: false, error: "Unauthorized" };
     }
 
+    await requirePermission(session, "orders.manage");
+
     const { storeId: userStoreId } = await getStoreIdForUser();
     if (userStoreId !== storeId) {
       return { success: false, error: "Unauthorized" };
@@ -181,6 +184,7 @@ export async function getShippingRatesForLabel(
   supported?: boolean;
 }> {
   try {
+    await requireCurrentPermission("orders.manage");
     const { orderId, storeId, parcel } = params;
 
     // 1. Get order and verify it belongs to store
@@ -403,6 +407,8 @@ export async function purchaseShippingLabel(params: {
       return { success: false, error: "Unauthorized" };
     }
 
+    await requirePermission(session, "orders.manage");
+
     const { storeId: userStoreId } = await getStoreIdForUser();
     if (userStoreId !== storeId) {
       return { success: false, error: "Unauthorized" };
@@ -841,6 +847,8 @@ export async function markOrderShippedManually(params: {
       return { success: false, error: "Unauthorized" };
     }
 
+    await requirePermission(session, "orders.manage");
+
     const { storeId: userStoreId } = await getStoreIdForUser();
     if (userStoreId !== storeId) {
       return { success: false, error: "Unauthorized" };
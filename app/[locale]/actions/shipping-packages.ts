@@ -6,6 +6,7 @@ import { eq, and, desc } from "drizzle-orm";
 import { auth } from "@/lib/auth";
 import { headers } from "next/headers";
 import { revalidatePath } from "next/cache";
+import { requirePermission } from "@/lib/permissions";
 
 // Helper function to get current user's store ID
 async function getCurrentUserStoreId(): Promise<string | null> {
@@ -51,6 +52,8 @@ export async function createShippingPackage(
       return { success: false, error: "Unauthorized" };
     }
 
+    await requirePermission(session, "shipping.manage");
+
     const storeId = await getCurrentUserStoreId();
     if (!storeId) {
       return { success: false, error: "Store not found. Please set up your store first." };
@@ -198,6 +201,8 @@ export async function updateShippingPackage(
       return { success: false, error: "Unauthorized" };
     }
 
+    await requirePermission(session, "shipping.manage");
+
     const storeId = await getCurrentUserStoreId();
     if (!storeId) {
       return { success: false, error: "Store not found. Please set up your store first." };
@@ -291,6 +296,8 @@ export async function deleteShippingPackage(
       return { success: false, error: "Unauthorized" };
     }
 
+    await requirePermission(session, "shipping.manage");
+
     const storeId = await getCurrentUserStoreId();
     if (!storeId) {
       return { success: false, error: "Store not found. Please set up your store first." };
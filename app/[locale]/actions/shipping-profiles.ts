@@ -6,13 +6,13 @@ import {
   shippingProfiles,
   shippingDestinations,
   shippingRates,
+  shippingZones,
   storeMembers,
-  userRoles,
-  roles,
 } from "@/db/schema";
 import { eq, desc } from "drizzle-orm";
 import { auth } from "@/lib/auth";
 import { headers } from "next/headers";
+import { hasPermission, requirePermission } from "@/lib/permissions";
 
 export interface ShippingProfileData {
   name: string;
@@ -22,6 +22,7 @@ export interface ShippingProfileData {
   processingDaysMin: number;
   processingDaysMax: number;
   isDefault?: boolean;
+  combinedShippingCapCents?: number | null;
 }
 
 export interface ShippingDestinationData {
@@ -34,8 +35,14 @@ export interface ShippingDestinationData {
 export interface ShippingRateData {
   serviceName: string;
   freeShipping: boolean;
+  pricingMethod?: "per_item" | "weight";
+  // Bracket price for weight rates
   firstItemPriceCents?: number;
   additionalItemPriceCents?: number;
+  minWeightOz?: number | null;
+  maxWeightOz?: number | null;
+  dimensionalDivisor?: number | null;
+  freeShippingThresholdCents?: number | null;
   currency?: string;
   transitDaysMin?: number;
   transitDaysMax?: number;
@@ -64,25 +71,36 @@ async function getCurrentUserStoreId(): Promise<string | null> {
 }
 
 /**
- * Check if user is admin
+ * Check if user can manage every store's profiles
  */
 async function isAdmin(): Promise<boolean> {
   const session = await auth.api.getSession({
     headers: await headers(),
   });
 
-  if (!session?.user?.id) {
-    return false;
+  return hasPermission(session, "stores.all");
+}
+
+/**
+ * Region destinations must point at an active shipping zone
+ */
+async function validateZoneCode(
+  regionCode: string | undefined
+): Promise<string | null> {
+  if (!regionCode) {
+    return "Zone is required for region destination type";
   }
 
-  const userRole = await db
-    .select({ roleName: roles.name })
-    .from(userRoles)
-    .innerJoin(roles, eq(userRoles.roleId, roles.id))
-    .where(eq(userRoles.userId, session.user.id))
+  const zone = await db
+    .select({ isActive: shippingZones.isActive })
+    .from(shippingZones)
+    .where(eq(shippingZones.code, regionCode))
     .limit(1);
 
-  return userRole.length > 0 && userRole[0].roleName.toLowerCase() === "admin";
+  if (zone.length === 0 || !zone[0].isActive) {
+    return "Shipping zone not found";
+  }
+  return null;
 }
 
 /**
@@ -103,6 +121,8 @@ export async function createShippingProfile(
       };
     }
 
+    await requirePermission(session, "shipping.manage");
+
     const storeId = await getCurrentUserStoreId();
     if (!storeId && !(await isAdmin())) {
       return {
@@ -139,6 +159,7 @@ export async function createShippingProfile(
         processingDaysMin: data.processingDaysMin,
         processingDaysMax: data.processingDaysMax,
         isDefault: data.isDefault || false,
+        combinedShippingCapCents: data.combinedShippingCapCents ?? null,
       })
       .returning();
 
@@ -172,6 +193,7 @@ export async function getShippingProfiles(storeId?: string): Promise<
       processingDaysMin: number;
       processingDaysMax: number;
       isDefault: boolean;
+      combinedShippingCapCents: number | null;
       createdAt: Date;
       updatedAt: Date;
     }>;
@@ -209,6 +231,7 @@ export async function getShippingProfiles(storeId?: string): Promise<
         processingDaysMin: shippingProfiles.processingDaysMin,
         processingDaysMax: shippingProfiles.processingDaysMax,
         isDefault: shippingProfiles.isDefault,
+        combinedShippingCapCents: shippingProfiles.combinedShippingCapCents,
         createdAt: shippingProfiles.createdAt,
         updatedAt: shippingProfiles.updatedAt,
       })
@@ -251,6 +274,8 @@ export async function updateShippingProfile(
       };
     }
 
+    await requirePermission(session, "shipping.manage");
+
     // Verify profile belongs to user's store
     const profile = await db
       .select({ storeId: shippingProfiles.storeId })
@@ -297,6 +322,9 @@ export async function updateShippingProfile(
           processingDaysMax: data.processingDaysMax,
         }),
         ...(data.isDefault !== undefined && { isDefault: data.isDefault }),
+        ...(data.combinedShippingCapCents !== undefined && {
+          combinedShippingCapCents: data.combinedShippingCapCents,
+        }),
       })
       .where(eq(shippingProfiles.id, profileId));
 
@@ -333,6 +361,8 @@ export async function deleteShippingProfile(
       };
     }
 
+    await requirePermission(session, "shipping.manage");
+
     // Verify profile belongs to user's store
     const profile = await db
       .select({ storeId: shippingProfiles.storeId })
@@ -391,6 +421,8 @@ export async function addShippingDestination(
       };
     }
 
+    await requirePermission(session, "shipping.manage");
+
     // Verify profile belongs to user's store
     const profile = await db
       .select({ storeId: shippingProfiles.storeId })
@@ -421,6 +453,13 @@ export async function addShippingDestination(
       };
     }
 
+    if (data.destinationType === "region") {
+      const zoneError = await validateZoneCode(data.regionCode);
+      if (zoneError) {
+        return { success: false, error: zoneError };
+      }
+    }
+
     const [destination] = await db
       .insert(shippingDestinations)
       .values({
@@ -467,6 +506,8 @@ export async function updateShippingDestination(
       };
     }
 
+    await requirePermission(session, "shipping.manage");
+
     // Verify destination belongs to user's store
     const destination = await db
       .select({ storeId: shippingProfiles.storeId })
@@ -501,6 +542,13 @@ export async function updateShippingDestination(
       };
     }
 
+    if (data.destinationType === "region") {
+      const zoneError = await validateZoneCode(data.regionCode);
+      if (zoneError) {
+        return { success: false, error: zoneError };
+      }
+    }
+
     await db
       .update(shippingDestinations)
       .set({
@@ -548,6 +596,8 @@ export async function deleteShippingDestination(
       };
     }
 
+    await requirePermission(session, "shipping.manage");
+
     // Verify destination belongs to user's store
     const destination = await db
       .select({ storeId: shippingProfiles.storeId })
@@ -694,6 +744,8 @@ export async function addShippingRate(
       };
     }
 
+    await requirePermission(session, "shipping.manage");
+
     // Verify destination belongs to user's store
     const destination = await db
       .select({ storeId: shippingProfiles.storeId })
@@ -724,7 +776,21 @@ export async function addShippingRate(
     if (!data.freeShipping && !data.firstItemPriceCents) {
       return {
         success: false,
-        error: "First item price is required when shipping is not free",
+        error:
+          data.pricingMethod === "weight"
+            ? "Bracket price is required when shipping is not free"
+            : "First item price is required when shipping is not free",
+      };
+    }
+
+    if (
+      data.minWeightOz != null &&
+      data.maxWeightOz != null &&
+      data.maxWeightOz <= data.minWeightOz
+    ) {
+      return {
+        success: false,
+        error: "Weight bracket maximum must be greater than its minimum",
       };
     }
 
@@ -734,10 +800,15 @@ export async function addShippingRate(
         destinationId,
         serviceName: data.serviceName,
         freeShipping: data.freeShipping,
+        pricingMethod: data.pricingMethod || "per_item",
         firstItemPriceCents: data.freeShipping
           ? null
           : data.firstItemPriceCents || null,
         additionalItemPriceCents: data.additionalItemPriceCents || 0,
+        minWeightOz: data.minWeightOz?.toFixed(1) ?? null,
+        maxWeightOz: data.maxWeightOz?.toFixed(1) ?? null,
+        dimensionalDivisor: data.dimensionalDivisor || null,
+        freeShippingThresholdCents: data.freeShippingThresholdCents || null,
         currency: data.currency || "EUR",
         transitDaysMin: data.transitDaysMin || null,
         transitDaysMax: data.transitDaysMax || null,
@@ -778,6 +849,8 @@ export async function updateShippingRate(
       };
     }
 
+    await requirePermission(session, "shipping.manage");
+
     // Verify rate belongs to user's store
     const rate = await db
       .select({ storeId: shippingProfiles.storeId })
@@ -823,6 +896,19 @@ export async function updateShippingRate(
         ...(data.additionalItemPriceCents !== undefined && {
           additionalItemPriceCents: data.additionalItemPriceCents,
         }),
+        ...(data.pricingMethod && { pricingMethod: data.pricingMethod }),
+        ...(data.minWeightOz !== undefined && {
+          minWeightOz: data.minWeightOz?.toFixed(1) ?? null,
+        }),
+        ...(data.maxWeightOz !== undefined && {
+          maxWeightOz: data.maxWeightOz?.toFixed(1) ?? null,
+        }),
+        ...(data.dimensionalDivisor !== undefined && {
+          dimensionalDivisor: data.dimensionalDivisor || null,
+        }),
+        ...(data.freeShippingThresholdCents !== undefined && {
+          freeShippingThresholdCents: data.freeShippingThresholdCents || null,
+        }),
         ...(data.currency && { currency: data.currency }),
         ...(data.transitDaysMin !== undefined && {
           transitDaysMin: data.transitDaysMin || null,
@@ -867,6 +953,8 @@ export async function deleteShippingRate(
       };
     }
 
+    await requirePermission(session, "shipping.manage");
+
     // Verify rate belongs to user's store
     const rate = await db
       .select({ storeId: shippingProfiles.storeId })
@@ -925,8 +1013,13 @@ export async function getShippingRatesForDestination(
       id: string;
       serviceName: string;
       freeShipping: boolean;
+      pricingMethod: string;
       firstItemPriceCents: number | null;
       additionalItemPriceCents: number;
+      minWeightOz: number | null;
+      maxWeightOz: number | null;
+      dimensionalDivisor: number | null;
+      freeShippingThresholdCents: number | null;
       currency: string;
       transitDaysMin: number | null;
       transitDaysMax: number | null;
@@ -979,8 +1072,13 @@ export async function getShippingRatesForDestination(
         id: shippingRates.id,
         serviceName: shippingRates.serviceName,
         freeShipping: shippingRates.freeShipping,
+        pricingMethod: shippingRates.pricingMethod,
         firstItemPriceCents: shippingRates.firstItemPriceCents,
         additionalItemPriceCents: shippingRates.additionalItemPriceCents,
+        minWeightOz: shippingRates.minWeightOz,
+        maxWeightOz: shippingRates.maxWeightOz,
+        dimensionalDivisor: shippingRates.dimensionalDivisor,
+        freeShippingThresholdCents: shippingRates.freeShippingThresholdCents,
         currency: shippingRates.currency,
         transitDaysMin: shippingRates.transitDaysMin,
         transitDaysMax: shippingRates.transitDaysMax,
@@ -997,6 +1095,8 @@ export async function getShippingRatesForDestination(
       result: rates.map((r) => ({
         ...r,
         additionalItemPriceCents: r.additionalItemPriceCents ?? 0,
+        minWeightOz: r.minWeightOz !== null ? parseFloat(r.minWeightOz) : null,
+        maxWeightOz: r.maxWeightOz !== null ? parseFloat(r.maxWeightOz) : null,
       })),
     };
   } catch (error) {
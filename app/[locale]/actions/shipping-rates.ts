@@ -4,11 +4,26 @@ import { db } from "@/db";
 import {
   store,
   listing,
+  listingVariants,
+  inventoryItems,
   shippingProfiles,
   shippingDestinations,
   shippingRates,
+  shippingPackages,
 } from "@/db/schema";
-import { eq, inArray, and } from "drizzle-orm";
+import { eq, inArray, and, asc } from "drizzle-orm";
+import {
+  catalogPrice,
+  convertAmount,
+  loadExchangeRates,
+  type ExchangeRates,
+} from "@/lib/pricing";
+import {
+  dimensionalWeightOz,
+  isInWeightBracket,
+  selectPackageForContents,
+} from "@/lib/shipping-utils";
+import { findShippingDestination } from "@/lib/shipping-zones";
 
 interface OrderItemWithShipping {
   listingId: string;
@@ -17,12 +32,119 @@ interface OrderItemWithShipping {
   storeId: string;
 }
 
+interface StoreCartMetrics {
+  itemCount: number;
+  // Items plus packaging
+  actualWeightOz: number;
+  // Box used for dimensional weight (chosen package, or the items themselves)
+  boxVolumeIn3: number;
+  subtotals: Array<{ amount: number; currency: string }>;
+}
+
 /**
- * Get manual shipping rates for order items (using profiles)
+ * Weight, package and subtotal of one store's items, from the variants'
+ * inventory items and the store's custom packages
+ */
+async function getStoreCartMetrics(
+  storeId: string,
+  items: OrderItemWithShipping[]
+): Promise<StoreCartMetrics> {
+  const listingIds = [...new Set(items.map((i) => i.listingId))];
+  const variantRows = await db
+    .select({
+      id: listingVariants.id,
+      listingId: listingVariants.listingId,
+      price: listingVariants.price,
+      currency: listingVariants.currency,
+      weightOz: inventoryItems.weightOz,
+      lengthIn: inventoryItems.lengthIn,
+      widthIn: inventoryItems.widthIn,
+      heightIn: inventoryItems.heightIn,
+    })
+    .from(listingVariants)
+    .leftJoin(inventoryItems, eq(inventoryItems.variantId, listingVariants.id))
+    .where(inArray(listingVariants.listingId, listingIds))
+    .orderBy(asc(listingVariants.createdAt));
+  const listingRows = await db
+    .select({
+      id: listing.id,
+      price: listing.price,
+      currency: listing.currency,
+    })
+    .from(listing)
+    .where(inArray(listing.id, listingIds));
+  const listingMap = new Map(listingRows.map((l) => [l.id, l]));
+
+  let itemCount = 0;
+  let weightOz = 0;
+  let volumeIn3 = 0;
+  let longestSideIn = 0;
+  const subtotals: StoreCartMetrics["subtotals"] = [];
+
+  for (const item of items) {
+    // Items without a variant ship like the listing's first variant
+    const variant = item.variantId
+      ? variantRows.find((v) => v.id === item.variantId)
+      : variantRows.find((v) => v.listingId === item.listingId);
+    const length = parseFloat(variant?.lengthIn || "0");
+    const width = parseFloat(variant?.widthIn || "0");
+    const height = parseFloat(variant?.heightIn || "0");
+
+    itemCount += item.quantity;
+    weightOz += parseFloat(variant?.weightOz || "0") * item.quantity;
+    volumeIn3 += length * width * height * item.quantity;
+    longestSideIn = Math.max(longestSideIn, length, width, height);
+
+    const listingRow = listingMap.get(item.listingId);
+    if (listingRow) {
+      const price = catalogPrice(listingRow, item.variantId ? variant : null);
+      subtotals.push({
+        amount: price.amount * item.quantity,
+        currency: price.currency,
+      });
+    }
+  }
+
+  const packages = await db
+    .select({
+      lengthIn: shippingPackages.lengthIn,
+      widthIn: shippingPackages.widthIn,
+      heightIn: shippingPackages.heightIn,
+      weightOz: shippingPackages.weightOz,
+      isDefault: shippingPackages.isDefault,
+    })
+    .from(shippingPackages)
+    .where(eq(shippingPackages.storeId, storeId));
+  const pkg = selectPackageForContents(
+    packages.map((p) => ({
+      lengthIn: parseFloat(p.lengthIn),
+      widthIn: parseFloat(p.widthIn),
+      heightIn: parseFloat(p.heightIn),
+      weightOz: parseFloat(p.weightOz),
+      isDefault: p.isDefault,
+    })),
+    { volumeIn3, longestSideIn }
+  );
+
+  return {
+    itemCount,
+    actualWeightOz: weightOz + (pkg?.weightOz ?? 0),
+    boxVolumeIn3: pkg ? pkg.lengthIn * pkg.widthIn * pkg.heightIn : volumeIn3,
+    subtotals,
+  };
+}
+
+/**
+ * Get manual shipping rates for order items (using profiles).
+ * Per-item rates charge first item + additional items; weight rates charge
+ * the bracket matching the billable (actual or dimensional) weight. Rates can
+ * be free above an order subtotal, and a profile can cap what one store
+ * charges in total.
  */
 export async function getManualShippingRatesForOrder(
   items: OrderItemWithShipping[],
-  toCountry: string // Customer's shipping country
+  toCountry: string, // Customer's shipping country
+  toAddress?: { region?: string | null; postalCode?: string | null }
 ): Promise<{
   success: boolean;
   rates?: Array<{
@@ -116,6 +238,20 @@ export async function getManualShippingRatesForOrder(
 
     const storeMap = new Map(stores.map((s) => [s.id, s]));
 
+    // Exchange rates are only needed to compare subtotals with thresholds
+    let exchangeRates: Promise<ExchangeRates> | null = null;
+    const subtotalIn = async (
+      subtotals: StoreCartMetrics["subtotals"],
+      currency: string
+    ) => {
+      exchangeRates ??= loadExchangeRates();
+      const loaded = await exchangeRates;
+      return subtotals.reduce(
+        (sum, s) => sum + convertAmount(s.amount, s.currency, currency, loaded),
+        0
+      );
+    };
+
     // Calculate rates per store
     const ratesByStore = await Promise.all(
       Object.entries(itemsByStore).map(async ([storeId, storeItems]) => {
@@ -155,33 +291,28 @@ export async function getManualShippingRatesForOrder(
           };
         }
 
-        // Find matching destination for customer's country
+        // Find matching destination for customer's address
         const destinations = await db
           .select({
             id: shippingDestinations.id,
             destinationType: shippingDestinations.destinationType,
             countryCode: shippingDestinations.countryCode,
+            regionCode: shippingDestinations.regionCode,
             excluded: shippingDestinations.excluded,
           })
           .from(shippingDestinations)
           .where(eq(shippingDestinations.shippingProfileId, profileId));
 
-        // Find matching destination
-        let matchingDestination = destinations.find(
-          (dest) =>
-            dest.destinationType === "country" &&
-            dest.countryCode === toCountry &&
-            !dest.excluded
+        // Most specific destination wins; an excluded one means no rates
+        const matchingDestination = await findShippingDestination(
+          destinations,
+          {
+            country: toCountry,
+            region: toAddress?.region,
+            postalCode: toAddress?.postalCode,
+          }
         );
 
-        // If no country match, try "everywhere_else"
-        if (!matchingDestination) {
-          matchingDestination = destinations.find(
-            (dest) =>
-              dest.destinationType === "everywhere_else" && !dest.excluded
-          );
-        }
-
         if (!matchingDestination) {
           return {
             storeId,
@@ -196,8 +327,14 @@ export async function getManualShippingRatesForOrder(
             id: shippingRates.id,
             serviceName: shippingRates.serviceName,
             freeShipping: shippingRates.freeShipping,
+            pricingMethod: shippingRates.pricingMethod,
             firstItemPriceCents: shippingRates.firstItemPriceCents,
             additionalItemPriceCents: shippingRates.additionalItemPriceCents,
+            minWeightOz: shippingRates.minWeightOz,
+            maxWeightOz: shippingRates.maxWeightOz,
+            dimensionalDivisor: shippingRates.dimensionalDivisor,
+            freeShippingThresholdCents:
+              shippingRates.freeShippingThresholdCents,
             currency: shippingRates.currency,
             transitDaysMin: shippingRates.transitDaysMin,
             transitDaysMax: shippingRates.transitDaysMax,
@@ -207,25 +344,63 @@ export async function getManualShippingRatesForOrder(
           .where(eq(shippingRates.destinationId, matchingDestination.id))
           .orderBy(shippingRates.sortOrder);
 
-        // Calculate prices for each rate based on item count
-        const itemCount = storeItems.reduce(
-          (sum, item) => sum + item.quantity,
-          0
-        );
+        const [profile] = await db
+          .select({
+            combinedShippingCapCents: shippingProfiles.combinedShippingCapCents,
+          })
+          .from(shippingProfiles)
+          .where(eq(shippingProfiles.id, profileId))
+          .limit(1);
+
+        const cart = await getStoreCartMetrics(storeId, storeItems);
+
+        // Weight rates only apply within their bracket
+        const applicableRates = rates.filter((rate) => {
+          if (rate.pricingMethod !== "weight") return true;
+          const billableWeightOz = rate.dimensionalDivisor
+            ? Math.max(
+                cart.actualWeightOz,
+                dimensionalWeightOz(cart.boxVolumeIn3, rate.dimensionalDivisor)
+              )
+            : cart.actualWeightOz;
+          return isInWeightBracket(
+            billableWeightOz,
+            rate.minWeightOz !== null ? parseFloat(rate.minWeightOz) : null,
+            rate.maxWeightOz !== null ? parseFloat(rate.maxWeightOz) : null
+          );
+        });
 
-        const calculatedRates = rates.map((rate) => {
+        const calculatedRates = [];
+        for (const rate of applicableRates) {
           let priceCents = 0;
 
           if (rate.freeShipping) {
             priceCents = 0;
+          } else if (rate.pricingMethod === "weight") {
+            priceCents = rate.firstItemPriceCents || 0;
           } else {
             // First item price + (additional items * additional item price)
             const firstItemPrice = rate.firstItemPriceCents || 0;
             const additionalItemPrice = rate.additionalItemPriceCents || 0;
-            priceCents = firstItemPrice + (itemCount - 1) * additionalItemPrice;
+            priceCents =
+              firstItemPrice + (cart.itemCount - 1) * additionalItemPrice;
           }
 
-          return {
+          if (
+            priceCents > 0 &&
+            rate.freeShippingThresholdCents !== null &&
+            Math.round(
+              (await subtotalIn(cart.subtotals, rate.currency)) * 100
+            ) >= rate.freeShippingThresholdCents
+          ) {
+            priceCents = 0;
+          }
+
+          if (profile?.combinedShippingCapCents != null) {
+            priceCents = Math.min(priceCents, profile.combinedShippingCapCents);
+          }
+
+          calculatedRates.push({
             id: rate.id,
             serviceName: rate.serviceName,
             priceCents,
@@ -234,8 +409,8 @@ export async function getManualShippingRatesForOrder(
               rate.transitDaysMin && rate.transitDaysMax
                 ? { min: rate.transitDaysMin, max: rate.transitDaysMax }
                 : undefined,
-          };
-        });
+          });
+        }
 
         return {
           storeId,
@@ -0,0 +1,389 @@
+"use server";
+
+import { db } from "@/db";
+import { shippingZones, shippingDestinations } from "@/db/schema";
+import { and, eq, asc, count } from "drizzle-orm";
+import { getCurrentAdmin } from "./admin";
+import { revalidatePath } from "next/cache";
+import { auth } from "@/lib/auth";
+import { headers } from "next/headers";
+import { ActionResponse } from "@/lib/types";
+import {
+  normalizePostalCode,
+  type ShippingZoneType,
+} from "@/lib/shipping-zones";
+
+export interface ShippingZoneRow {
+  id: string;
+  code: string;
+  name: string;
+  description: string | null;
+  zoneType: ShippingZoneType;
+  countryCodes: string[];
+  regionCodes: string[];
+  postalCodeRanges: string[];
+  isActive: boolean;
+  destinationCount: number;
+  updatedAt: Date;
+}
+
+export interface ShippingZoneInput {
+  code: string;
+  name: string;
+  description?: string | null;
+  zoneType: ShippingZoneType;
+  countryCodes: string[];
+  regionCodes?: string[];
+  postalCodeRanges?: string[];
+  isActive?: boolean;
+}
+
+export interface ShippingZoneOption {
+  code: string;
+  name: string;
+  description: string | null;
+  zoneType: ShippingZoneType;
+}
+
+const ZONE_TYPES: ShippingZoneType[] = ["countries", "regions", "postal_codes"];
+
+function uniqueCodes(values: string[] | undefined) {
+  return Array.from(
+    new Set((values ?? []).map((v) => v.trim().toUpperCase()).filter(Boolean))
+  );
+}
+
+function normalizeShippingZoneInput(input: ShippingZoneInput):
+  | {
+      values: Omit<ShippingZoneInput, "regionCodes" | "postalCodeRanges"> & {
+        regionCodes: string[] | null;
+        postalCodeRanges: string[] | null;
+      };
+    }
+  | { error: string } {
+  const code = input.code
+    ?.trim()
+    .toUpperCase()
+    .replace(/[\s-]+/g, "_");
+  if (!code || !/^[A-Z0-9_]+$/.test(code)) {
+    return {
+      error: "Code may only contain letters, numbers and underscores",
+    };
+  }
+
+  const name = input.name?.trim();
+  if (!name) {
+    return { error: "Name is required" };
+  }
+
+  if (!ZONE_TYPES.includes(input.zoneType)) {
+    return { error: "Invalid zone type" };
+  }
+
+  const countryCodes = uniqueCodes(input.countryCodes);
+  if (countryCodes.length === 0) {
+    return { error: "At least one country is required" };
+  }
+  if (countryCodes.some((c) => !/^[A-Z]{2}$/.test(c))) {
+    return { error: "Countries must be 2-letter ISO codes" };
+  }
+
+  const regionCodes = uniqueCodes(input.regionCodes);
+  if (input.zoneType === "regions" && regionCodes.length === 0) {
+    return { error: "At least one state/province code is required" };
+  }
+
+  const postalCodeRanges = uniqueCodes(input.postalCodeRanges);
+  if (input.zoneType === "postal_codes") {
+    if (postalCodeRanges.length === 0) {
+      return { error: "At least one postal code prefix or range is required" };
+    }
+    for (const range of postalCodeRanges) {
+      const parts = range.split("-").map(normalizePostalCode);
+      const [from, to] = parts;
+      if (
+        parts.length > 2 ||
+        !from ||
+        (parts.length === 2 && (!to || to.length !== from.length || to < from))
+      ) {
+        return {
+          error: `Invalid postal code range "${range}". Use a prefix like "995" or a range like "99500-99999"`,
+        };
+      }
+    }
+  }
+
+  return {
+    values: {
+      code,
+      name,
+      description: input.description?.trim() || null,
+      zoneType: input.zoneType,
+      countryCodes,
+      regionCodes: input.zoneType === "regions" ? regionCodes : null,
+      postalCodeRanges:
+        input.zoneType === "postal_codes" ? postalCodeRanges : null,
+      isActive: input.isActive ?? true,
+    },
+  };
+}
+
+async function countZoneDestinations(code: string) {
+  const [row] = await db
+    .select({ count: count() })
+    .from(shippingDestinations)
+    .where(
+      and(
+        eq(shippingDestinations.destinationType, "region"),
+        eq(shippingDestinations.regionCode, code)
+      )
+    );
+  return row?.count ?? 0;
+}
+
+function revalidateShippingZonePaths() {
+  revalidatePath("/dashboard/settings/shipping-zones");
+}
+
+// Get all shipping zones (admin)
+export async function getShippingZones(): Promise<
+  ActionResponse & { result?: ShippingZoneRow[] }
+> {
+  try {
+    await getCurrentAdmin("platform.settings");
+
+    const rows = await db
+      .select()
+      .from(shippingZones)
+      .orderBy(asc(shippingZones.name));
+
+    const usage = await db
+      .select({
+        code: shippingDestinations.regionCode,
+        count: count(),
+      })
+      .from(shippingDestinations)
+      .where(eq(shippingDestinations.destinationType, "region"))
+      .groupBy(shippingDestinations.regionCode);
+    const usageByCode = new Map(usage.map((u) => [u.code, u.count]));
+
+    return {
+      success: true,
+      result: rows.map((row) => ({
+        id: row.id,
+        code: row.code,
+        name: row.name,
+        description: row.description,
+        zoneType: row.zoneType as ShippingZoneType,
+        countryCodes: row.countryCodes ?? [],
+        regionCodes: row.regionCodes ?? [],
+        postalCodeRanges: row.postalCodeRanges ?? [],
+        isActive: row.isActive,
+        destinationCount: usageByCode.get(row.code) ?? 0,
+        updatedAt: row.updatedAt,
+      })),
+    };
+  } catch (error) {
+    console.error("Error fetching shipping zones:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Failed to fetch shipping zones",
+    };
+  }
+}
+
+// Active zones sellers can attach shipping rates to
+export async function getShippingZoneOptions(): Promise<
+  ActionResponse & { result?: ShippingZoneOption[] }
+> {
+  try {
+    const session = await auth.api.getSession({
+      headers: await headers(),
+    });
+
+    if (!session?.user?.id) {
+      return { success: false, error: "Not authenticated" };
+    }
+
+    const rows = await db
+      .select({
+        code: shippingZones.code,
+        name: shippingZones.name,
+        description: shippingZones.description,
+        zoneType: shippingZones.zoneType,
+      })
+      .from(shippingZones)
+      .where(eq(shippingZones.isActive, true))
+      .orderBy(asc(shippingZones.name));
+
+    return {
+      success: true,
+      result: rows.map((row) => ({
+        ...row,
+        zoneType: row.zoneType as ShippingZoneType,
+      })),
+    };
+  } catch (error) {
+    console.error("Error fetching shipping zone options:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Failed to fetch shipping zones",
+    };
+  }
+}
+
+// Create a shipping zone
+export async function createShippingZone(
+  input: ShippingZoneInput
+): Promise<ActionResponse> {
+  try {
+    const admin = await getCurrentAdmin("platform.settings");
+
+    const normalized = normalizeShippingZoneInput(input);
+    if ("error" in normalized) {
+      return { success: false, error: normalized.error };
+    }
+
+    const [existing] = await db
+      .select({ id: shippingZones.id })
+      .from(shippingZones)
+      .where(eq(shippingZones.code, normalized.values.code))
+      .limit(1);
+    if (existing) {
+      return {
+        success: false,
+        error: `A zone with code ${normalized.values.code} already exists`,
+      };
+    }
+
+    const newZone = await db
+      .insert(shippingZones)
+      .values({ ...normalized.values, createdBy: admin.id })
+      .returning();
+
+    revalidateShippingZonePaths();
+
+    return {
+      success: true,
+      message: "Shipping zone created successfully",
+      result: newZone[0],
+    };
+  } catch (error) {
+    console.error("Error creating shipping zone:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Failed to create shipping zone",
+    };
+  }
+}
+
+// Update a shipping zone
+export async function updateShippingZone(
+  zoneId: string,
+  input: ShippingZoneInput
+): Promise<ActionResponse> {
+  try {
+    await getCurrentAdmin("platform.settings");
+
+    const normalized = normalizeShippingZoneInput(input);
+    if ("error" in normalized) {
+      return { success: false, error: normalized.error };
+    }
+
+    const [zone] = await db
+      .select({ code: shippingZones.code })
+      .from(shippingZones)
+      .where(eq(shippingZones.id, zoneId))
+      .limit(1);
+
+    if (!zone) {
+      return { success: false, error: "Shipping zone not found" };
+    }
+
+    // Destinations reference zones by code
+    if (
+      zone.code !== normalized.values.code &&
+      (await countZoneDestinations(zone.code)) > 0
+    ) {
+      return {
+        success: false,
+        error:
+          "This zone is used by shipping profiles, so its code can't be changed",
+      };
+    }
+
+    const updatedZone = await db
+      .update(shippingZones)
+      .set({ ...normalized.values, updatedAt: new Date() })
+      .where(eq(shippingZones.id, zoneId))
+      .returning();
+
+    revalidateShippingZonePaths();
+
+    return {
+      success: true,
+      message: "Shipping zone updated successfully",
+      result: updatedZone[0],
+    };
+  } catch (error) {
+    console.error("Error updating shipping zone:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Failed to update shipping zone",
+    };
+  }
+}
+
+// Delete a shipping zone that no shipping profile uses
+export async function deleteShippingZone(
+  zoneId: string
+): Promise<ActionResponse> {
+  try {
+    await getCurrentAdmin("platform.settings");
+
+    const [zone] = await db
+      .select({ code: shippingZones.code })
+      .from(shippingZones)
+      .where(eq(shippingZones.id, zoneId))
+      .limit(1);
+
+    if (!zone) {
+      return { success: false, error: "Shipping zone not found" };
+    }
+
+    const destinationCount = await countZoneDestinations(zone.code);
+    if (destinationCount > 0) {
+      return {
+        success: false,
+        error: `This zone is used by ${destinationCount} shipping destination(s). Deactivate it instead.`,
+      };
+    }
+
+    await db.delete(shippingZones).where(eq(shippingZones.id, zoneId));
+
+    revalidateShippingZonePaths();
+
+    return { success: true, message: "Shipping zone deleted successfully" };
+  } catch (error) {
+    console.error("Error deleting shipping zone:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Failed to delete shipping zone",
+    };
+  }
+}
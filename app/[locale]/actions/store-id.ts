@@ -3,12 +3,16 @@
 import { auth } from "@/lib/auth";
 import { headers } from "next/headers";
 import { db } from "@/db";
-import { userRoles, roles, storeMembers, store, customers } from "@/db/schema";
+import { customers } from "@/db/schema";
 import { eq } from "drizzle-orm";
+import { getUserRole } from "@/lib/user-role";
+import { getStoreMemberships } from "@/lib/permissions";
 
 /**
  * Get current user's store ID and role flags. Used by order/dashboard actions.
  * Kept in a small module so order-detail and other pages don't pull in the full orders.ts.
+ * isAdmin means the user's roles grant "stores.all"; what they may do there
+ * is checked with requirePermission (lib/permissions.ts).
  */
 export async function getStoreIdForUser(): Promise<{
   storeId: string | null;
@@ -33,15 +37,8 @@ export async function getStoreIdForUser(): Promise<{
     };
   }
 
-  const userRole = await db
-    .select({ roleName: roles.name })
-    .from(userRoles)
-    .innerJoin(roles, eq(userRoles.roleId, roles.id))
-    .where(eq(userRoles.userId, session.user.id))
-    .limit(1);
-
-  const isAdmin =
-    userRole.length > 0 && userRole[0].roleName?.toLowerCase() === "admin";
+  const { permissions } = await getUserRole(session.user.id);
+  const isAdmin = permissions.includes("stores.all");
 
   const customerRecords = await db
     .select({ id: customers.id })
@@ -52,7 +49,12 @@ export async function getStoreIdForUser(): Promise<{
   const customerId = allCustomerIds.length > 0 ? allCustomerIds[0] : null;
   const isCustomer = allCustomerIds.length > 0;
 
-  if (isCustomer) {
+  // Stores they own come first, then stores they were invited to as staff
+  const [membership] = await getStoreMemberships(session.user.id);
+
+  // Staff have usually shopped as customers before being invited; their
+  // membership decides what they see
+  if (isCustomer && membership?.role !== "staff") {
     return {
       storeId: null,
       isAdmin: false,
@@ -62,14 +64,7 @@ export async function getStoreIdForUser(): Promise<{
     };
   }
 
-  const storeResult = await db
-    .select({ id: store.id })
-    .from(storeMembers)
-    .innerJoin(store, eq(storeMembers.storeId, store.id))
-    .where(eq(storeMembers.userId, session.user.id))
-    .limit(1);
-
-  if (storeResult.length === 0) {
+  if (!membership) {
     return {
       storeId: null,
       isAdmin,
@@ -81,7 +76,7 @@ export async function getStoreIdForUser(): Promise<{
   }
 
   return {
-    storeId: storeResult[0].id,
+    storeId: membership.storeId,
     isAdmin,
     isCustomer: false,
     customerId: null,
@@ -1,15 +1,19 @@
 "use server";
 
 import { db } from "@/db";
-import { storeMembers, store, roles, userRoles } from "@/db/schema";
+import { storeMembers, store } from "@/db/schema";
 import { eq } from "drizzle-orm";
 import { auth } from "@/lib/auth";
 import { headers } from "next/headers";
+import { getUserRole } from "@/lib/user-role";
+import { getStoreMemberships, hasPermission } from "@/lib/permissions";
 
 /**
  * Get store ID for current user
  * For admins: returns the shared admin store ID (first store where user is admin member)
  * For sellers: returns their own store ID
+ * For staff: returns the store they were invited to (stores they own come first)
+ * isAdmin: the user's roles grant "stores.all" (any store, not just their own)
  */
 export async function getStoreIdForUser(): Promise<{
   storeId: string | null;
@@ -25,34 +29,18 @@ export async function getStoreIdForUser(): Promise<{
       return { storeId: null, isAdmin: false, error: "Unauthorized" };
     }
 
-    // Check if user is admin
-    const userRole = await db
-      .select({
-        roleName: roles.name,
-      })
-      .from(userRoles)
-      .innerJoin(roles, eq(userRoles.roleId, roles.id))
-      .where(eq(userRoles.userId, session.user.id))
-      .limit(1);
+    const { roleName, permissions } = await getUserRole(session.user.id);
 
-    if (userRole.length === 0) {
+    if (!roleName) {
       return { storeId: null, isAdmin: false, error: "User role not found" };
     }
 
-    const roleName = userRole[0].roleName.toLowerCase();
-    const isAdmin = roleName === "admin";
+    const isAdmin = permissions.includes("stores.all");
 
     // Get store membership for user
-    const membership = await db
-      .select({
-        storeId: storeMembers.storeId,
-        role: storeMembers.role,
-      })
-      .from(storeMembers)
-      .where(eq(storeMembers.userId, session.user.id))
-      .limit(1);
+    const memberships = await getStoreMemberships(session.user.id);
 
-    if (membership.length === 0) {
+    if (memberships.length === 0) {
       return {
         storeId: null,
         isAdmin,
@@ -62,7 +50,7 @@ export async function getStoreIdForUser(): Promise<{
       };
     }
 
-    return { storeId: membership[0].storeId, isAdmin };
+    return { storeId: memberships[0].storeId, isAdmin };
   } catch (error) {
     console.error("Error getting store ID:", error);
     return {
@@ -82,7 +70,7 @@ export async function getStoresForUser(): Promise<{
     id: string;
     storeName: string;
     logoUrl: string | null;
-    role: "admin" | "seller";
+    role: "admin" | "seller" | "staff";
   }>;
   error?: string;
 }> {
@@ -112,7 +100,7 @@ export async function getStoresForUser(): Promise<{
         id: s.id,
         storeName: s.storeName,
         logoUrl: s.logoUrl,
-        role: s.role as "admin" | "seller",
+        role: s.role,
       })),
     };
   } catch (error) {
@@ -145,20 +133,7 @@ export async function getAllStores(): Promise<{
       return { success: false, error: "Unauthorized" };
     }
 
-    // Check if user is admin
-    const userRole = await db
-      .select({
-        roleName: roles.name,
-      })
-      .from(userRoles)
-      .innerJoin(roles, eq(userRoles.roleId, roles.id))
-      .where(eq(userRoles.userId, session.user.id))
-      .limit(1);
-
-    const isAdmin =
-      userRole.length > 0 && userRole[0].roleName.toLowerCase() === "admin";
-
-    if (!isAdmin) {
+    if (!(await hasPermission(session, "stores.all"))) {
       return { success: false, error: "Only admins can view all stores" };
     }
 
@@ -199,17 +174,11 @@ export async function userHasStore(): Promise<{
       return { hasStore: false };
     }
 
-    const membership = await db
-      .select({
-        storeId: storeMembers.storeId,
-      })
-      .from(storeMembers)
-      .where(eq(storeMembers.userId, session.user.id))
-      .limit(1);
+    const memberships = await getStoreMemberships(session.user.id);
 
     return {
-      hasStore: membership.length > 0,
-      storeId: membership.length > 0 ? membership[0].storeId : undefined,
+      hasStore: memberships.length > 0,
+      storeId: memberships[0]?.storeId,
     };
   } catch (error) {
     console.error("Error checking user store:", error);
@@ -0,0 +1,821 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  inventoryLevels,
+  listing,
+  listingVariants,
+  orderDisputes,
+  orders,
+  productQuestions,
+  productReview,
+  returnRequests,
+  storeBannerImage,
+} from "@/db/schema";
+import { STORE_PERMISSIONS } from "@/lib/permissions";
+import {
+  actAsStaffWithout,
+  expectRefused,
+  resetHarness,
+  STAFF_STORE_ID,
+  type GuardedCall,
+} from "@/test/permission-harness";
+import { getCheckoutRecoveryStats } from "./abandoned-checkouts";
+import {
+  getBundleComponentOptions,
+  getListingBundles,
+  setBundleComponents,
+} from "./bundles";
+import {
+  createCustomer,
+  deleteCustomer,
+  getCustomer,
+  getCustomerOrders,
+  listCustomers,
+  searchCustomers,
+  updateCustomer,
+} from "./customers";
+import {
+  createAmountOffProductsDiscount,
+  deleteDiscount,
+  duplicateDiscount,
+  getDiscountById,
+  listCustomersForPicker,
+  listDiscounts,
+  listListingsForPicker,
+  toggleDiscountActive,
+  updateDiscount,
+} from "./discounts";
+import { getOrderDisputes, submitDisputeEvidence } from "./disputes";
+import {
+  createDraftOrder,
+  deleteDraftOrders,
+  duplicateDraftOrder,
+  getDraftOrder,
+  listDraftOrders,
+  markDraftOrderAsPaid,
+  sendInvoice,
+  updateDraftOrder,
+  updateDraftOrderItems,
+} from "./draft-orders";
+import {
+  exportTransactionsAsCSV,
+  getBalanceSummary,
+  getPayoutSettings,
+  getRecentActivity,
+  updatePayoutSettings,
+} from "./finances";
+import {
+  createInventoryLocation,
+  deleteInventoryLocation,
+  getAllInventoryLocations,
+  updateInventoryLocation,
+} from "./inventory";
+import {
+  adjustInventoryQuantity,
+  deleteInventoryLevel,
+  getAdjustmentHistory,
+  getInventoryRows,
+  getInventoryUpdates,
+  getStoreLocations,
+  updateCostPerItem,
+  updateIncomingQuantity,
+} from "./inventory-management";
+import {
+  createMarket,
+  deleteMarket,
+  getMarketById,
+  listMarkets,
+  updateMarket,
+} from "./markets-management";
+import {
+  cancelOrder,
+  captureOrderPayment,
+  createOrder,
+  deleteOrder,
+  deleteOrders,
+  getCustomerShippingBillingInfo,
+  processRefund,
+  processRefundRequest,
+  searchProductsForOrder,
+  sendInvoiceForOrder,
+  sendInvoicePdfForOrder,
+  updateFulfillmentStatus,
+  updateOrderStatus,
+} from "./orders";
+import { archiveOrders, unarchiveOrders } from "./orders-archive";
+import { fulfillOrder } from "./orders-fulfillment";
+import { updateWorkflowStatus } from "./orders-workflow";
+import {
+  answerProductQuestion,
+  getQuestionModerationQueue,
+  getStoreQuestionsToManage,
+  hideProductQuestion,
+  restoreProductQuestion,
+} from "./product-questions";
+import {
+  adminDeleteProductAction,
+  adminUpdateProductAction,
+  createProductAction,
+  deleteProductAction,
+  exportListingsToCSVAction,
+  importListingsFromCSVAction,
+  toggleProductStatusAction,
+  updateProductAction,
+} from "./products";
+import {
+  closePurchaseOrder,
+  createPurchaseOrder,
+  createSupplier,
+  deleteSupplier,
+  getPurchaseOrder,
+  getPurchaseOrderFormOptions,
+  getPurchaseOrderPdf,
+  getPurchaseOrders,
+  getSuppliers,
+  placePurchaseOrder,
+  receivePurchaseOrder,
+  updatePurchaseOrder,
+  updateSupplier,
+} from "./purchase-orders";
+import { listRefundRequests } from "./refund-requests";
+import {
+  completeReturnInspection,
+  getReturnLabelRates,
+  markReturnReceived,
+  purchaseReturnLabel,
+  reviewReturnRequest,
+} from "./returns";
+import {
+  deleteReviewReply,
+  dismissReviewReports,
+  getReviewModerationQueue,
+  getReviewRequestSettings,
+  getStoreReviewsToManage,
+  hideReview,
+  replyToReview,
+  restoreReview,
+  updateReviewRequestSettings,
+} from "./reviews";
+import { getPayouts, requestPayout } from "./seller-payouts";
+import {
+  generateAnnualEarningsSummary,
+  getSellerStatements,
+} from "./seller-statements";
+import {
+  getShippingAddresses,
+  getShippingRatesForLabel,
+  markOrderShippedManually,
+  purchaseShippingLabel,
+} from "./shipping-labels";
+import {
+  createShippingPackage,
+  deleteShippingPackage,
+  updateShippingPackage,
+} from "./shipping-packages";
+import {
+  addShippingDestination,
+  addShippingRate,
+  createShippingProfile,
+  deleteShippingDestination,
+  deleteShippingProfile,
+  deleteShippingRate,
+  updateShippingDestination,
+  updateShippingProfile,
+  updateShippingRate,
+} from "./shipping-profiles";
+import { upsertStore } from "./store";
+import {
+  getStoreTeam,
+  inviteStoreMember,
+  removeStoreMember,
+  resendStoreInvitation,
+  revokeStoreInvitation,
+  transferStoreOwnership,
+  updateStaffPermissions,
+} from "./store-team";
+import {
+  addBannerImage,
+  deleteBannerImage,
+  reorderBannerImages,
+  updateStoreAbout,
+  updateStoreBankDetails,
+  updateStorePayoutProvider,
+  updateStorePolicies,
+  updateStoreSlug,
+  updateStoreVisibility,
+} from "./storefront-management";
+import {
+  createStripeAccountAndOnboarding,
+  createStripeDashboardLink,
+  generateOnboardingLink,
+} from "./stripe-connect";
+import {
+  createSubscriptionPlan,
+  deleteSubscriptionPlan,
+  getStoreSubscriptions,
+  getSubscriptionPlanOptions,
+  getSubscriptionPlans,
+  updateSubscriptionPlan,
+} from "./subscriptions";
+
+vi.mock("@/db", async () => ({
+  db: (await import("@/test/permission-harness")).db,
+}));
+vi.mock(
+  "@/lib/auth",
+  async () => (await import("@/test/permission-harness")).authModule
+);
+vi.mock(
+  "@/lib/user-role",
+  async () => (await import("@/test/permission-harness")).userRoleModule
+);
+vi.mock(
+  "next/headers",
+  async () => (await import("@/test/permission-harness")).headersModule
+);
+vi.mock("@/lib/permissions", async (importOriginal) =>
+  (await import("@/test/permission-harness")).recordDenials(
+    await importOriginal()
+  )
+);
+vi.mock("next/cache", () => ({
+  revalidatePath: () => {},
+  revalidateTag: () => {},
+}));
+vi.mock("@/lib/taxonomy", () => ({ findCategoryById: () => null }));
+
+// Inputs the guard refuses before reading them
+const input = {} as never;
+
+const parcel = { weightOz: 16, lengthIn: 10, widthIn: 8, heightIn: 4 };
+
+type Rows = NonNullable<GuardedCall["rows"]>;
+
+// Records of the staff member's own store, which some actions look up to
+// find the store before checking the permission
+const ownOrder: Rows = [
+  [orders, [{ id: "order-1", storeId: STAFF_STORE_ID, customerId: null }]],
+];
+const ownReturn: Rows = [
+  [
+    returnRequests,
+    [{ id: "return-1", orderId: "order-1", status: "requested" }],
+  ],
+  ...ownOrder,
+];
+const ownListing: Rows = [
+  [listing, [{ id: "listing-1", storeId: STAFF_STORE_ID }]],
+];
+
+function call(
+  name: string,
+  permission: GuardedCall["permission"],
+  run: GuardedCall["run"],
+  rows?: GuardedCall["rows"]
+): GuardedCall {
+  return { name, permission, run, rows };
+}
+
+const storeActions: GuardedCall[] = [
+  // Orders
+  call("getCheckoutRecoveryStats", "orders.view", () =>
+    getCheckoutRecoveryStats()
+  ),
+  call("listDraftOrders", "orders.view", () => listDraftOrders()),
+  call("getDraftOrder", "orders.view", () => getDraftOrder("draft-1")),
+  call("listRefundRequests", "orders.view", () => listRefundRequests()),
+  call("getStoreSubscriptions", "orders.view", () => getStoreSubscriptions()),
+  call("createOrder", "orders.manage", () => createOrder(input)),
+  call("updateFulfillmentStatus", "orders.manage", () =>
+    updateFulfillmentStatus("order-1", "fulfilled")
+  ),
+  call("updateOrderStatus", "orders.manage", () =>
+    updateOrderStatus("order-1", "archived")
+  ),
+  call("deleteOrder", "orders.manage", () => deleteOrder("order-1")),
+  call("deleteOrders", "orders.manage", () => deleteOrders(["order-1"])),
+  call("cancelOrder", "orders.manage", () =>
+    cancelOrder({
+      orderId: "order-1",
+      refundMethod: "later",
+      cancellationReason: "customer",
+      restock: true,
+      sendNotification: false,
+    })
+  ),
+  call("sendInvoiceForOrder", "orders.manage", () =>
+    sendInvoiceForOrder({
+      orderId: "order-1",
+      fromEmail: "store@example.com",
+      toEmail: "buyer@example.com",
+      lockPrices: false,
+    })
+  ),
+  call("sendInvoicePdfForOrder", "orders.manage", () =>
+    sendInvoicePdfForOrder({
+      orderId: "order-1",
+      fromEmail: "store@example.com",
+      toEmail: "buyer@example.com",
+      lockPrices: false,
+    })
+  ),
+  call("searchProductsForOrder", "orders.manage", () =>
+    searchProductsForOrder("mug")
+  ),
+  call("getCustomerShippingBillingInfo", "orders.manage", () =>
+    getCustomerShippingBillingInfo("customer-1")
+  ),
+  call("captureOrderPayment", "orders.manage", () =>
+    captureOrderPayment("order-1")
+  ),
+  call("archiveOrders", "orders.manage", () => archiveOrders(["order-1"])),
+  call("unarchiveOrders", "orders.manage", () => unarchiveOrders(["order-1"])),
+  call("fulfillOrder", "orders.manage", () =>
+    fulfillOrder({
+      orderId: "order-1",
+      fulfilledItems: [{ orderItemId: "item-1", quantity: 1 }],
+    })
+  ),
+  call("updateWorkflowStatus", "orders.manage", () =>
+    updateWorkflowStatus({ orderId: "order-1", workflowStatus: "in_progress" })
+  ),
+  call("deleteDraftOrders", "orders.manage", () =>
+    deleteDraftOrders(["draft-1"])
+  ),
+  call("sendInvoice", "orders.manage", () =>
+    sendInvoice("draft-1", "buyer@example.com")
+  ),
+  call("markDraftOrderAsPaid", "orders.manage", () =>
+    markDraftOrderAsPaid("draft-1")
+  ),
+  call("updateDraftOrderItems", "orders.manage", () =>
+    updateDraftOrderItems("draft-1", [{ listingId: "listing-1", quantity: 1 }])
+  ),
+  call("createDraftOrder", "orders.manage", () => createDraftOrder(input)),
+  call("duplicateDraftOrder", "orders.manage", () =>
+    duplicateDraftOrder("draft-1")
+  ),
+  call("updateDraftOrder", "orders.manage", () =>
+    updateDraftOrder("draft-1", input)
+  ),
+  call("getShippingAddresses", "orders.manage", () =>
+    getShippingAddresses({ orderId: "order-1", storeId: STAFF_STORE_ID })
+  ),
+  call("getShippingRatesForLabel", "orders.manage", () =>
+    getShippingRatesForLabel(input)
+  ),
+  call("purchaseShippingLabel", "orders.manage", () =>
+    purchaseShippingLabel(input)
+  ),
+  call("markOrderShippedManually", "orders.manage", () =>
+    markOrderShippedManually({
+      orderId: "order-1",
+      storeId: STAFF_STORE_ID,
+      carrier: "Posti",
+      trackingNumber: "JJFI123",
+    })
+  ),
+  call(
+    "getReturnLabelRates",
+    "orders.manage",
+    () => getReturnLabelRates("return-1", parcel),
+    ownReturn
+  ),
+  call(
+    "purchaseReturnLabel",
+    "orders.manage",
+    () => purchaseReturnLabel("return-1", "rate-1", parcel),
+    ownReturn
+  ),
+  call(
+    "markReturnReceived",
+    "orders.manage",
+    () => markReturnReceived("return-1"),
+    ownReturn
+  ),
+  call(
+    "processRefund",
+    "orders.refund",
+    () =>
+      processRefund({
+        orderId: "order-1",
+        refundType: "full",
+        restockItems: false,
+      }),
+    ownOrder
+  ),
+  call("processRefundRequest", "orders.refund", () =>
+    processRefundRequest("refund-request-1", "approve")
+  ),
+  call(
+    "reviewReturnRequest",
+    "orders.refund",
+    () => reviewReturnRequest("return-1", "approve"),
+    ownReturn
+  ),
+  call(
+    "completeReturnInspection",
+    "orders.refund",
+    () =>
+      completeReturnInspection({
+        returnId: "return-1",
+        items: [],
+        refundAmount: "0",
+      }),
+    ownReturn
+  ),
+  call("getOrderDisputes", "orders.refund", () => getOrderDisputes("order-1")),
+  call(
+    "submitDisputeEvidence",
+    "orders.refund",
+    () => {
+      const formData = new FormData();
+      formData.set("orderId", "order-1");
+      formData.set("disputeId", "dispute-1");
+      return submitDisputeEvidence(formData);
+    },
+    [[orderDisputes, [{ id: "dispute-1", orderId: "order-1" }]]]
+  ),
+
+  // Catalog
+  call("createProductAction", "products.manage", () =>
+    createProductAction(input)
+  ),
+  call("updateProductAction", "products.manage", () =>
+    updateProductAction(input)
+  ),
+  call(
+    "adminUpdateProductAction",
+    "products.manage",
+    () => adminUpdateProductAction({ id: "listing-1" }),
+    ownListing
+  ),
+  call("deleteProductAction", "products.manage", () =>
+    deleteProductAction("listing-1")
+  ),
+  call(
+    "adminDeleteProductAction",
+    "products.manage",
+    () => adminDeleteProductAction("listing-1"),
+    ownListing
+  ),
+  call("toggleProductStatusAction", "products.manage", () =>
+    toggleProductStatusAction("listing-1")
+  ),
+  call("exportListingsToCSVAction", "products.manage", () =>
+    exportListingsToCSVAction()
+  ),
+  call("importListingsFromCSVAction", "products.manage", () =>
+    importListingsFromCSVAction("name,price\nMug,10")
+  ),
+  call("getListingBundles", "products.manage", () =>
+    getListingBundles("listing-1")
+  ),
+  call("getBundleComponentOptions", "products.manage", () =>
+    getBundleComponentOptions("listing-1")
+  ),
+  call(
+    "setBundleComponents",
+    "products.manage",
+    () => setBundleComponents("variant-1", []),
+    [[listingVariants, [{ listingId: "listing-1" }]], ...ownListing]
+  ),
+  call("getSubscriptionPlans", "products.manage", () => getSubscriptionPlans()),
+  call("getSubscriptionPlanOptions", "products.manage", () =>
+    getSubscriptionPlanOptions()
+  ),
+  call("createSubscriptionPlan", "products.manage", () =>
+    createSubscriptionPlan({
+      listingId: "listing-1",
+      name: "Monthly refill",
+      interval: "month",
+    })
+  ),
+  call("updateSubscriptionPlan", "products.manage", () =>
+    updateSubscriptionPlan("plan-1", input)
+  ),
+  call("deleteSubscriptionPlan", "products.manage", () =>
+    deleteSubscriptionPlan("plan-1")
+  ),
+  call("getInventoryRows", "inventory.manage", () => getInventoryRows()),
+  call("getStoreLocations", "inventory.manage", () => getStoreLocations()),
+  call("adjustInventoryQuantity", "inventory.manage", () =>
+    adjustInventoryQuantity("level-1", "item-1", "location-1", 5)
+  ),
+  call("updateCostPerItem", "inventory.manage", () =>
+    updateCostPerItem("item-1", 3)
+  ),
+  call("updateIncomingQuantity", "inventory.manage", () =>
+    updateIncomingQuantity("level-1", 5)
+  ),
+  call(
+    "deleteInventoryLevel",
+    "inventory.manage",
+    () => deleteInventoryLevel("level-1"),
+    [[inventoryLevels, [{ locationId: "location-1", storeId: STAFF_STORE_ID }]]]
+  ),
+  call("getInventoryUpdates", "inventory.manage", () =>
+    getInventoryUpdates(["variant-1"])
+  ),
+  call("getAdjustmentHistory", "inventory.manage", () =>
+    getAdjustmentHistory("item-1", "location-1")
+  ),
+  call("createInventoryLocation", "inventory.manage", () =>
+    createInventoryLocation(input)
+  ),
+  call("getAllInventoryLocations", "inventory.manage", () =>
+    getAllInventoryLocations()
+  ),
+  call("updateInventoryLocation", "inventory.manage", () =>
+    updateInventoryLocation("location-1", input)
+  ),
+  call("deleteInventoryLocation", "inventory.manage", () =>
+    deleteInventoryLocation("location-1")
+  ),
+  call("getSuppliers", "inventory.manage", () => getSuppliers()),
+  call("createSupplier", "inventory.manage", () => createSupplier(input)),
+  call("updateSupplier", "inventory.manage", () =>
+    updateSupplier("supplier-1", input)
+  ),
+  call("deleteSupplier", "inventory.manage", () =>
+    deleteSupplier("supplier-1")
+  ),
+  call("getPurchaseOrders", "inventory.manage", () => getPurchaseOrders()),
+  call("getPurchaseOrder", "inventory.manage", () => getPurchaseOrder("po-1")),
+  call("getPurchaseOrderFormOptions", "inventory.manage", () =>
+    getPurchaseOrderFormOptions()
+  ),
+  call("createPurchaseOrder", "inventory.manage", () =>
+    createPurchaseOrder(input)
+  ),
+  call("updatePurchaseOrder", "inventory.manage", () =>
+    updatePurchaseOrder("po-1", input)
+  ),
+  call("placePurchaseOrder", "inventory.manage", () =>
+    placePurchaseOrder("po-1")
+  ),
+  call("receivePurchaseOrder", "inventory.manage", () =>
+    receivePurchaseOrder("po-1", [])
+  ),
+  call("closePurchaseOrder", "inventory.manage", () =>
+    closePurchaseOrder("po-1")
+  ),
+  call("getPurchaseOrderPdf", "inventory.manage", () =>
+    getPurchaseOrderPdf("po-1")
+  ),
+  call("listDiscounts", "discounts.manage", () => listDiscounts({})),
+  call("getDiscountById", "discounts.manage", () =>
+    getDiscountById("discount-1")
+  ),
+  call("createAmountOffProductsDiscount", "discounts.manage", () =>
+    createAmountOffProductsDiscount({
+      type: "amount_off_products",
+      name: "Spring sale",
+      valueType: "percentage",
+      value: 10,
+      targets: { type: "all_products" },
+    })
+  ),
+  call("updateDiscount", "discounts.manage", () =>
+    updateDiscount("discount-1", {})
+  ),
+  call("deleteDiscount", "discounts.manage", () =>
+    deleteDiscount("discount-1")
+  ),
+  call("toggleDiscountActive", "discounts.manage", () =>
+    toggleDiscountActive("discount-1", { isActive: false })
+  ),
+  call("duplicateDiscount", "discounts.manage", () =>
+    duplicateDiscount("discount-1")
+  ),
+  call("listListingsForPicker", "discounts.manage", () =>
+    listListingsForPicker()
+  ),
+  call("listCustomersForPicker", "discounts.manage", () =>
+    listCustomersForPicker()
+  ),
+
+  // Customers
+  call("listCustomers", "customers.manage", () => listCustomers()),
+  call("getCustomer", "customers.manage", () => getCustomer("customer-1")),
+  call("createCustomer", "customers.manage", () =>
+    createCustomer({ email: "buyer@example.com" })
+  ),
+  call("updateCustomer", "customers.manage", () =>
+    updateCustomer("customer-1", { firstName: "Aino" })
+  ),
+  call("deleteCustomer", "customers.manage", () =>
+    deleteCustomer("customer-1")
+  ),
+  call("searchCustomers", "customers.manage", () => searchCustomers("aino")),
+  call("getCustomerOrders", "customers.manage", () =>
+    getCustomerOrders("customer-1")
+  ),
+  call(
+    "answerProductQuestion",
+    "reviews.manage",
+    () =>
+      answerProductQuestion("question-1", "Yes, it is dishwasher safe.", "en"),
+    [[productQuestions, [{ id: "question-1", storeId: STAFF_STORE_ID }]]]
+  ),
+  call("getStoreQuestionsToManage", "reviews.manage", () =>
+    getStoreQuestionsToManage()
+  ),
+  call("getQuestionModerationQueue", "reviews.manage", () =>
+    getQuestionModerationQueue()
+  ),
+  call("hideProductQuestion", "reviews.manage", () =>
+    hideProductQuestion("question-1", "Spam")
+  ),
+  call("restoreProductQuestion", "reviews.manage", () =>
+    restoreProductQuestion("question-1")
+  ),
+  call(
+    "replyToReview",
+    "reviews.manage",
+    () => replyToReview("product", "review-1", "Thank you!"),
+    [[productReview, [{ storeId: STAFF_STORE_ID }]]]
+  ),
+  call(
+    "deleteReviewReply",
+    "reviews.manage",
+    () => deleteReviewReply("product", "review-1"),
+    [[productReview, [{ storeId: STAFF_STORE_ID }]]]
+  ),
+  call("getStoreReviewsToManage", "reviews.manage", () =>
+    getStoreReviewsToManage()
+  ),
+  call("getReviewRequestSettings", "reviews.manage", () =>
+    getReviewRequestSettings()
+  ),
+  call("updateReviewRequestSettings", "reviews.manage", () =>
+    updateReviewRequestSettings(false)
+  ),
+  call("getReviewModerationQueue", "reviews.manage", () =>
+    getReviewModerationQueue()
+  ),
+  call("hideReview", "reviews.manage", () =>
+    hideReview("product", "review-1", "Spam")
+  ),
+  call("restoreReview", "reviews.manage", () =>
+    restoreReview("product", "review-1")
+  ),
+  call("dismissReviewReports", "reviews.manage", () =>
+    dismissReviewReports("product", "review-1")
+  ),
+
+  // Shipping
+  call("createShippingPackage", "shipping.manage", () =>
+    createShippingPackage(input)
+  ),
+  call("updateShippingPackage", "shipping.manage", () =>
+    updateShippingPackage("package-1", {})
+  ),
+  call("deleteShippingPackage", "shipping.manage", () =>
+    deleteShippingPackage("package-1")
+  ),
+  call("createShippingProfile", "shipping.manage", () =>
+    createShippingProfile(input)
+  ),
+  call("updateShippingProfile", "shipping.manage", () =>
+    updateShippingProfile("profile-1", {})
+  ),
+  call("deleteShippingProfile", "shipping.manage", () =>
+    deleteShippingProfile("profile-1")
+  ),
+  call("addShippingDestination", "shipping.manage", () =>
+    addShippingDestination("profile-1", input)
+  ),
+  call("updateShippingDestination", "shipping.manage", () =>
+    updateShippingDestination("destination-1", {})
+  ),
+  call("deleteShippingDestination", "shipping.manage", () =>
+    deleteShippingDestination("destination-1")
+  ),
+  call("addShippingRate", "shipping.manage", () =>
+    addShippingRate("destination-1", input)
+  ),
+  call("updateShippingRate", "shipping.manage", () =>
+    updateShippingRate("rate-1", {})
+  ),
+  call("deleteShippingRate", "shipping.manage", () =>
+    deleteShippingRate("rate-1")
+  ),
+
+  // Finances
+  call("getBalanceSummary", "finances.view", () => getBalanceSummary()),
+  call("getRecentActivity", "finances.view", () => getRecentActivity()),
+  call("exportTransactionsAsCSV", "finances.view", () =>
+    exportTransactionsAsCSV()
+  ),
+  call("getPayoutSettings", "finances.view", () => getPayoutSettings()),
+  call("requestPayout", "finances.payout", () => requestPayout(input)),
+  call("getPayouts", "finances.view", () => getPayouts(STAFF_STORE_ID)),
+  call("getSellerStatements", "finances.view", () => getSellerStatements()),
+  call("generateAnnualEarningsSummary", "finances.view", () =>
+    generateAnnualEarningsSummary({ currency: "EUR", taxYear: 2025 })
+  ),
+
+  // Store settings
+  call("updatePayoutSettings", "store.settings", () =>
+    updatePayoutSettings({ method: "manual" })
+  ),
+  call("upsertStore", "store.settings", () => upsertStore(input)),
+  call("listMarkets", "store.settings", () => listMarkets()),
+  call("getMarketById", "store.settings", () => getMarketById("market-1")),
+  call("createMarket", "store.settings", () =>
+    createMarket({ name: "Nordics", currency: "EUR", countries: ["FI"] })
+  ),
+  call("updateMarket", "store.settings", () =>
+    updateMarket("market-1", { name: "Nordics" })
+  ),
+  call("deleteMarket", "store.settings", () => deleteMarket("market-1")),
+  call("getStoreTeam", "store.settings", () => getStoreTeam()),
+  call("inviteStoreMember", "store.settings", () =>
+    inviteStoreMember("staff@example.com", ["orders.view"])
+  ),
+  call("resendStoreInvitation", "store.settings", () =>
+    resendStoreInvitation("invitation-1")
+  ),
+  call("revokeStoreInvitation", "store.settings", () =>
+    revokeStoreInvitation("invitation-1")
+  ),
+  call("updateStaffPermissions", "store.settings", () =>
+    updateStaffPermissions("member-1", ["orders.view"])
+  ),
+  call("removeStoreMember", "store.settings", () =>
+    removeStoreMember("member-1")
+  ),
+  call("transferStoreOwnership", "store.settings", () =>
+    transferStoreOwnership("member-1")
+  ),
+  call("updateStoreSlug", "store.settings", () =>
+    updateStoreSlug(STAFF_STORE_ID, "new-slug")
+  ),
+  call("updateStoreVisibility", "store.settings", () =>
+    updateStoreVisibility(STAFF_STORE_ID, "hidden")
+  ),
+  call("addBannerImage", "store.settings", () =>
+    addBannerImage(STAFF_STORE_ID, new File(["x"], "banner.png"))
+  ),
+  call("reorderBannerImages", "store.settings", () =>
+    reorderBannerImages(STAFF_STORE_ID, [])
+  ),
+  call(
+    "deleteBannerImage",
+    "store.settings",
+    () => deleteBannerImage("image-1"),
+    [[storeBannerImage, [{ storeId: STAFF_STORE_ID }]]]
+  ),
+  call("updateStoreAbout", "store.settings", () =>
+    updateStoreAbout(STAFF_STORE_ID, { title: "About" })
+  ),
+  call("updateStorePolicies", "store.settings", () =>
+    updateStorePolicies(STAFF_STORE_ID, { returns: "30 days" })
+  ),
+  call("updateStorePayoutProvider", "store.settings", () =>
+    updateStorePayoutProvider(STAFF_STORE_ID, { payoutProvider: "stripe" })
+  ),
+  call("updateStoreBankDetails", "store.settings", () =>
+    updateStoreBankDetails(STAFF_STORE_ID, null)
+  ),
+  call("createStripeAccountAndOnboarding", "store.settings", () =>
+    createStripeAccountAndOnboarding()
+  ),
+  call("generateOnboardingLink", "store.settings", () =>
+    generateOnboardingLink()
+  ),
+  call("createStripeDashboardLink", "store.settings", () =>
+    createStripeDashboardLink()
+  ),
+];
+
+beforeEach(() => {
+  resetHarness();
+});
+
+describe("store actions", () => {
+  it.each(storeActions)(
+    "$name refuses staff without $permission",
+    async (guarded) => {
+      actAsStaffWithout(guarded.permission, STORE_PERMISSIONS);
+      await expectRefused(guarded);
+    }
+  );
+});
+
+describe("finance reads", () => {
+  it.each([
+    ["getBalanceSummary", () => getBalanceSummary()],
+    ["getRecentActivity", () => getRecentActivity()],
+    ["exportTransactionsAsCSV", () => exportTransactionsAsCSV()],
+    ["getPayoutSettings", () => getPayoutSettings()],
+    ["getSellerStatements", () => getSellerStatements()],
+  ])("%s returns the denial as an error result", async (_, run) => {
+    actAsStaffWithout("finances.view", STORE_PERMISSIONS);
+
+    await expect(run()).resolves.toEqual({
+      success: false,
+      error: "You don't have permission to do this (View finances)",
+    });
+  });
+});
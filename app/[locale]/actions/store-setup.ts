@@ -1,10 +1,12 @@
 "use server";
 
 import { db } from "@/db";
-import { store, storeMembers, roles, userRoles } from "@/db/schema";
+import { store, storeMembers } from "@/db/schema";
 import { eq, and } from "drizzle-orm";
 import { auth } from "@/lib/auth";
 import { headers } from "next/headers";
+import { getUserRole } from "@/lib/user-role";
+import { hasPermission } from "@/lib/permissions";
 import { autoAssignMarketToUser } from "./markets";
 import { getStoreIdForUser } from "./store-members";
 import { slugify, generateUniqueSlug } from "@/lib/slug-utils";
@@ -37,22 +39,13 @@ export async function createStoreForUser(input: CreateStoreInput): Promise<{
 
     const userId = session.user.id;
 
-    // Get user role
-    const userRole = await db
-      .select({
-        roleName: roles.name,
-      })
-      .from(userRoles)
-      .innerJoin(roles, eq(userRoles.roleId, roles.id))
-      .where(eq(userRoles.userId, userId))
-      .limit(1);
-
-    if (userRole.length === 0) {
+    const userRole = await getUserRole(userId);
+    if (!userRole.roleName) {
       return { success: false, error: "User role not found" };
     }
 
-    const roleName = userRole[0].roleName.toLowerCase();
-    const isAdmin = roleName === "admin";
+    // Users with access to all stores share the admin store
+    const isAdmin = await hasPermission(session, "stores.all");
 
     return await db.transaction(async (tx) => {
       let storeId: string;
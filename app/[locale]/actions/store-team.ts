@@ -0,0 +1,781 @@
+"use server";
+
+import { db } from "@/db";
+import {
+  roles,
+  store,
+  storeInvitations,
+  storeMembers,
+  user,
+  userRoles,
+} from "@/db/schema";
+import { and, asc, eq, gt, isNull, ne, sql } from "drizzle-orm";
+import { nanoid } from "nanoid";
+import { revalidatePath } from "next/cache";
+import { headers } from "next/headers";
+import { auth } from "@/lib/auth";
+import { ActionResponse } from "@/lib/types";
+import { recordAuditEvent } from "@/lib/audit";
+import {
+  PERMISSION_CATALOG,
+  STORE_PERMISSIONS,
+  getStoreMemberships,
+  requirePermission,
+  type PermissionId,
+} from "@/lib/permissions";
+import { getStoreIdForUser } from "./store-members";
+
+const INVITATION_EXPIRY_DAYS = 7;
+
+export interface TeamMember {
+  id: string;
+  userId: string;
+  name: string;
+  email: string;
+  image: string | null;
+  role: "admin" | "seller" | "staff";
+  permissions: PermissionId[]; // Staff only; owners have every store permission
+  joinedAt: Date;
+  isCurrentUser: boolean;
+}
+
+export interface TeamInvitation {
+  id: string;
+  email: string;
+  permissions: PermissionId[];
+  expiresAt: Date;
+  createdAt: Date;
+  isExpired: boolean;
+}
+
+export interface StoreTeam {
+  storeName: string;
+  canManage: boolean; // Owner of the store, or manages every store
+  members: TeamMember[];
+  invitations: TeamInvitation[];
+  permissionOptions: Array<{
+    id: PermissionId;
+    name: string;
+    description: string;
+  }>;
+}
+
+export interface InvitationPreview {
+  storeName: string;
+  email: string;
+  permissions: string[]; // Readable names
+  status: "pending" | "accepted" | "expired";
+}
+
+function toStorePermissions(permissions: string[]): PermissionId[] {
+  return STORE_PERMISSIONS.filter((id) => permissions.includes(id));
+}
+
+function permissionNames(permissions: string[]): string[] {
+  return PERMISSION_CATALOG.filter((p) => permissions.includes(p.id)).map(
+    (p) => p.name
+  );
+}
+
+function getInvitationExpiry(): Date {
+  const date = new Date();
+  date.setDate(date.getDate() + INVITATION_EXPIRY_DAYS);
+  return date;
+}
+
+/**
+ * The current user's store and whether they may change its team. Viewing
+ * the team needs "store.settings"; inviting, editing and removing members is
+ * left to the store's owner and to users who manage every store, so staff
+ * cannot grant themselves more than they were given.
+ */
+async function getTeamContext(): Promise<
+  | {
+      storeId: string;
+      userId: string;
+      userName: string;
+      canManage: boolean;
+    }
+  | { error: string }
+> {
+  const session = await auth.api.getSession({ headers: await headers() });
+  if (!session?.user?.id) {
+    return { error: "Unauthorized" };
+  }
+
+  const { storeId, error } = await getStoreIdForUser();
+  if (!storeId) {
+    return { error: error || "Store not found" };
+  }
+
+  const { allStores } = await requirePermission(session, "store.settings", {
+    storeId,
+  });
+  const memberships = await getStoreMemberships(session.user.id);
+  const isOwner = memberships.some(
+    (membership) =>
+      membership.storeId === storeId && membership.role !== "staff"
+  );
+
+  return {
+    storeId,
+    userId: session.user.id,
+    userName: session.user.name,
+    canManage: isOwner || allStores,
+  };
+}
+
+async function getManagingContext() {
+  const context = await getTeamContext();
+  if ("error" in context) {
+    return context;
+  }
+  if (!context.canManage) {
+    return { error: "Only the store owner can manage the team" };
+  }
+  return context;
+}
+
+async function sendInvitationEmail(params: {
+  storeId: string;
+  email: string;
+  token: string;
+  permissions: string[];
+  expiresAt: Date;
+  inviterName: string;
+}) {
+  try {
+    const [storeData] = await db
+      .select({ storeName: store.storeName })
+      .from(store)
+      .where(eq(store.id, params.storeId))
+      .limit(1);
+
+    const resend = (await import("@/lib/resend")).default;
+    const StoreInvitationEmail = (
+      await import("@/app/[locale]/components/store-invitation-email")
+    ).default;
+
+    await resend.emails.send({
+      from:
+        process.env.RESEND_FROM_EMAIL ||
+        "Golden Market <goldenmarket@resend.dev>",
+      to: params.email,
+      subject: `You're invited to join ${storeData?.storeName ?? "a store"} on Golden Market`,
+      react: StoreInvitationEmail({
+        storeName: storeData?.storeName ?? "a store",
+        inviterName: params.inviterName,
+        permissions: permissionNames(params.permissions),
+        acceptUrl: `${process.env.NEXT_PUBLIC_APP_URL}/invite/${params.token}`,
+        expiresAt: params.expiresAt,
+      }),
+    });
+  } catch (error) {
+    console.error("Error sending store invitation email:", error);
+    throw new Error("Failed to send the invitation email");
+  }
+}
+
+/**
+ * Members and pending invitations of the current user's store
+ */
+export async function getStoreTeam(): Promise<
+  ActionResponse & { result?: StoreTeam }
+> {
+  try {
+    const context = await getTeamContext();
+    if ("error" in context) {
+      return { success: false, error: context.error };
+    }
+
+    const [storeData] = await db
+      .select({ storeName: store.storeName })
+      .from(store)
+      .where(eq(store.id, context.storeId))
+      .limit(1);
+
+    const members = await db
+      .select({
+        id: storeMembers.id,
+        userId: storeMembers.userId,
+        role: storeMembers.role,
+        permissions: storeMembers.permissions,
+        createdAt: storeMembers.createdAt,
+        name: user.name,
+        email: user.email,
+        image: user.image,
+      })
+      .from(storeMembers)
+      .innerJoin(user, eq(storeMembers.userId, user.id))
+      .where(eq(storeMembers.storeId, context.storeId))
+      .orderBy(asc(storeMembers.createdAt));
+
+    const invitations = await db
+      .select()
+      .from(storeInvitations)
+      .where(
+        and(
+          eq(storeInvitations.storeId, context.storeId),
+          isNull(storeInvitations.acceptedAt)
+        )
+      )
+      .orderBy(asc(storeInvitations.createdAt));
+
+    const now = new Date();
+    return {
+      success: true,
+      result: {
+        storeName: storeData?.storeName ?? "",
+        canManage: context.canManage,
+        members: members
+          // Owners first
+          .sort(
+            (a, b) => Number(a.role === "staff") - Number(b.role === "staff")
+          )
+          .map((member) => ({
+            id: member.id,
+            userId: member.userId,
+            name: member.name,
+            email: member.email,
+            image: member.image,
+            role: member.role,
+            permissions:
+              member.role === "staff"
+                ? toStorePermissions(member.permissions ?? [])
+                : [],
+            joinedAt: member.createdAt,
+            isCurrentUser: member.userId === context.userId,
+          })),
+        invitations: invitations.map((invitation) => ({
+          id: invitation.id,
+          email: invitation.email,
+          permissions: toStorePermissions(invitation.permissions),
+          expiresAt: invitation.expiresAt,
+          createdAt: invitation.createdAt,
+          isExpired: invitation.expiresAt <= now,
+        })),
+        permissionOptions: PERMISSION_CATALOG.filter((p) =>
+          STORE_PERMISSIONS.includes(p.id)
+        ).map((p) => ({
+          id: p.id,
+          name: p.name,
+          description: p.description,
+        })),
+      },
+    };
+  } catch (error) {
+    console.error("Error getting store team:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to load team",
+    };
+  }
+}
+
+/**
+ * Invite someone to the store by email with a set of store permissions.
+ * Inviting an address that already has a pending invitation refreshes it.
+ */
+export async function inviteStoreMember(
+  email: string,
+  permissions: string[]
+): Promise<ActionResponse> {
+  try {
+    const context = await getManagingContext();
+    if ("error" in context) {
+      return { success: false, error: context.error };
+    }
+
+    const normalizedEmail = email.trim().toLowerCase();
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(normalizedEmail)) {
+      return { success: false, error: "Enter a valid email address" };
+    }
+    const granted = toStorePermissions(permissions);
+    if (granted.length === 0) {
+      return { success: false, error: "Choose at least one permission" };
+    }
+
+    const [existingMember] = await db
+      .select({ id: storeMembers.id })
+      .from(storeMembers)
+      .innerJoin(user, eq(storeMembers.userId, user.id))
+      .where(
+        and(
+          eq(storeMembers.storeId, context.storeId),
+          sql`lower(${user.email}) = ${normalizedEmail}`
+        )
+      )
+      .limit(1);
+    if (existingMember) {
+      return { success: false, error: "This person is already on your team" };
+    }
+
+    const token = nanoid(32);
+    const expiresAt = getInvitationExpiry();
+
+    const [pending] = await db
+      .select({ id: storeInvitations.id })
+      .from(storeInvitations)
+      .where(
+        and(
+          eq(storeInvitations.storeId, context.storeId),
+          eq(storeInvitations.email, normalizedEmail),
+          isNull(storeInvitations.acceptedAt)
+        )
+      )
+      .limit(1);
+
+    if (pending) {
+      await db
+        .update(storeInvitations)
+        .set({
+          permissions: granted,
+          token,
+          expiresAt,
+          invitedBy: context.userId,
+        })
+        .where(eq(storeInvitations.id, pending.id));
+    } else {
+      await db.insert(storeInvitations).values({
+        storeId: context.storeId,
+        email: normalizedEmail,
+        permissions: granted,
+        token,
+        expiresAt,
+        invitedBy: context.userId,
+      });
+    }
+
+    await sendInvitationEmail({
+      storeId: context.storeId,
+      email: normalizedEmail,
+      token,
+      permissions: granted,
+      expiresAt,
+      inviterName: context.userName,
+    });
+
+    revalidatePath("/dashboard/settings/team");
+    return { success: true, message: `Invitation sent to ${normalizedEmail}` };
+  } catch (error) {
+    console.error("Error inviting store member:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error ? error.message : "Failed to send invitation",
+    };
+  }
+}
+
+/**
+ * Send a pending invitation again with a new link and expiry
+ */
+export async function resendStoreInvitation(
+  invitationId: string
+): Promise<ActionResponse> {
+  try {
+    const context = await getManagingContext();
+    if ("error" in context) {
+      return { success: false, error: context.error };
+    }
+
+    const token = nanoid(32);
+    const expiresAt = getInvitationExpiry();
+    const [invitation] = await db
+      .update(storeInvitations)
+      .set({ token, expiresAt })
+      .where(
+        and(
+          eq(storeInvitations.id, invitationId),
+          eq(storeInvitations.storeId, context.storeId),
+          isNull(storeInvitations.acceptedAt)
+        )
+      )
+      .returning();
+    if (!invitation) {
+      return { success: false, error: "Invitation not found" };
+    }
+
+    await sendInvitationEmail({
+      storeId: context.storeId,
+      email: invitation.email,
+      token,
+      permissions: invitation.permissions,
+      expiresAt,
+      inviterName: context.userName,
+    });
+
+    revalidatePath("/dashboard/settings/team");
+    return {
+      success: true,
+      message: `Invitation resent to ${invitation.email}`,
+    };
+  } catch (error) {
+    console.error("Error resending store invitation:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error ? error.message : "Failed to resend invitation",
+    };
+  }
+}
+
+/**
+ * Cancel a pending invitation; its link stops working
+ */
+export async function revokeStoreInvitation(
+  invitationId: string
+): Promise<ActionResponse> {
+  try {
+    const context = await getManagingContext();
+    if ("error" in context) {
+      return { success: false, error: context.error };
+    }
+
+    const deleted = await db
+      .delete(storeInvitations)
+      .where(
+        and(
+          eq(storeInvitations.id, invitationId),
+          eq(storeInvitations.storeId, context.storeId),
+          isNull(storeInvitations.acceptedAt)
+        )
+      )
+      .returning({ id: storeInvitations.id });
+    if (deleted.length === 0) {
+      return { success: false, error: "Invitation not found" };
+    }
+
+    revalidatePath("/dashboard/settings/team");
+    return { success: true, message: "Invitation revoked" };
+  } catch (error) {
+    console.error("Error revoking store invitation:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error ? error.message : "Failed to revoke invitation",
+    };
+  }
+}
+
+/**
+ * Replace what a staff member may do in the store
+ */
+export async function updateStaffPermissions(
+  memberId: string,
+  permissions: string[]
+): Promise<ActionResponse> {
+  try {
+    const context = await getManagingContext();
+    if ("error" in context) {
+      return { success: false, error: context.error };
+    }
+
+    const granted = toStorePermissions(permissions);
+    if (granted.length === 0) {
+      return { success: false, error: "Choose at least one permission" };
+    }
+
+    const updated = await db
+      .update(storeMembers)
+      .set({ permissions: granted })
+      .where(
+        and(
+          eq(storeMembers.id, memberId),
+          eq(storeMembers.storeId, context.storeId),
+          eq(storeMembers.role, "staff")
+        )
+      )
+      .returning({ id: storeMembers.id });
+    if (updated.length === 0) {
+      return { success: false, error: "Staff member not found" };
+    }
+
+    revalidatePath("/dashboard/settings/team");
+    return { success: true, message: "Permissions updated" };
+  } catch (error) {
+    console.error("Error updating staff permissions:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error ? error.message : "Failed to update permissions",
+    };
+  }
+}
+
+/**
+ * Remove a staff member from the store. Owners have to transfer ownership
+ * before they can be removed.
+ */
+export async function removeStoreMember(
+  memberId: string
+): Promise<ActionResponse> {
+  try {
+    const context = await getManagingContext();
+    if ("error" in context) {
+      return { success: false, error: context.error };
+    }
+
+    const [member] = await db
+      .select({ role: storeMembers.role })
+      .from(storeMembers)
+      .where(
+        and(
+          eq(storeMembers.id, memberId),
+          eq(storeMembers.storeId, context.storeId)
+        )
+      )
+      .limit(1);
+    if (!member) {
+      return { success: false, error: "Member not found" };
+    }
+    if (member.role !== "staff") {
+      return {
+        success: false,
+        error: "Transfer ownership before removing the store owner",
+      };
+    }
+
+    await db.delete(storeMembers).where(eq(storeMembers.id, memberId));
+
+    revalidatePath("/dashboard/settings/team");
+    return { success: true, message: "Member removed" };
+  } catch (error) {
+    console.error("Error removing store member:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to remove member",
+    };
+  }
+}
+
+/**
+ * Make a staff member the owner of the store. The current owners stay on
+ * the team as staff with every store permission, and the new owner gets
+ * the Seller role if they only had the Customer role.
+ */
+export async function transferStoreOwnership(
+  memberId: string
+): Promise<ActionResponse> {
+  try {
+    const context = await getManagingContext();
+    if ("error" in context) {
+      return { success: false, error: context.error };
+    }
+
+    const [target] = await db
+      .select({
+        id: storeMembers.id,
+        userId: storeMembers.userId,
+        role: storeMembers.role,
+      })
+      .from(storeMembers)
+      .where(
+        and(
+          eq(storeMembers.id, memberId),
+          eq(storeMembers.storeId, context.storeId)
+        )
+      )
+      .limit(1);
+    if (!target) {
+      return { success: false, error: "Member not found" };
+    }
+    if (target.role !== "staff") {
+      return { success: false, error: "This member already owns the store" };
+    }
+
+    const previousOwners = await db
+      .select({ userId: storeMembers.userId, role: storeMembers.role })
+      .from(storeMembers)
+      .where(
+        and(
+          eq(storeMembers.storeId, context.storeId),
+          ne(storeMembers.role, "staff")
+        )
+      );
+
+    const roleRows = await db
+      .select({ id: roles.id, name: roles.name })
+      .from(roles)
+      .where(sql`lower(${roles.name}) in ('seller', 'customer')`);
+    const sellerRole = roleRows.find((r) => r.name.toLowerCase() === "seller");
+    const customerRole = roleRows.find(
+      (r) => r.name.toLowerCase() === "customer"
+    );
+    if (!sellerRole) {
+      return { success: false, error: "Seller role not found" };
+    }
+
+    await db.transaction(async (tx) => {
+      await tx
+        .update(storeMembers)
+        .set({ role: "staff", permissions: STORE_PERMISSIONS })
+        .where(
+          and(
+            eq(storeMembers.storeId, context.storeId),
+            ne(storeMembers.role, "staff")
+          )
+        );
+      await tx
+        .update(storeMembers)
+        .set({ role: "seller", permissions: null })
+        .where(eq(storeMembers.id, target.id));
+
+      // Staff usually signed up as customers
+      if (customerRole) {
+        await tx
+          .delete(userRoles)
+          .where(
+            and(
+              eq(userRoles.userId, target.userId),
+              eq(userRoles.roleId, customerRole.id)
+            )
+          );
+      }
+      await tx
+        .insert(userRoles)
+        .values({ userId: target.userId, roleId: sellerRole.id })
+        .onConflictDoNothing();
+    });
+
+    await recordAuditEvent({
+      action: "store.ownership_transferred",
+      entityType: "store",
+      entityId: context.storeId,
+      actorId: context.userId,
+      before: { owners: previousOwners.map((owner) => owner.userId) },
+      after: { owners: [target.userId] },
+    });
+
+    revalidatePath("/dashboard/settings/team");
+    return { success: true, message: "Ownership transferred" };
+  } catch (error) {
+    console.error("Error transferring store ownership:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error ? error.message : "Failed to transfer ownership",
+    };
+  }
+}
+
+/**
+ * What an invitation link is for, shown before it is accepted
+ */
+export async function getStoreInvitation(
+  token: string
+): Promise<ActionResponse & { result?: InvitationPreview }> {
+  try {
+    const [invitation] = await db
+      .select({
+        email: storeInvitations.email,
+        permissions: storeInvitations.permissions,
+        expiresAt: storeInvitations.expiresAt,
+        acceptedAt: storeInvitations.acceptedAt,
+        storeName: store.storeName,
+      })
+      .from(storeInvitations)
+      .innerJoin(store, eq(storeInvitations.storeId, store.id))
+      .where(eq(storeInvitations.token, token))
+      .limit(1);
+    if (!invitation) {
+      return { success: false, error: "Invitation not found" };
+    }
+
+    return {
+      success: true,
+      result: {
+        storeName: invitation.storeName,
+        email: invitation.email,
+        permissions: permissionNames(invitation.permissions),
+        status: invitation.acceptedAt
+          ? "accepted"
+          : invitation.expiresAt <= new Date()
+            ? "expired"
+            : "pending",
+      },
+    };
+  } catch (error) {
+    console.error("Error getting store invitation:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error ? error.message : "Failed to load invitation",
+    };
+  }
+}
+
+/**
+ * Join the store as staff. The signed-in account's email must be the one
+ * the invitation was sent to.
+ */
+export async function acceptStoreInvitation(
+  token: string
+): Promise<ActionResponse> {
+  try {
+    const session = await auth.api.getSession({ headers: await headers() });
+    if (!session?.user?.id) {
+      return { success: false, error: "Sign in to accept the invitation" };
+    }
+
+    const [invitation] = await db
+      .select()
+      .from(storeInvitations)
+      .where(
+        and(
+          eq(storeInvitations.token, token),
+          isNull(storeInvitations.acceptedAt),
+          gt(storeInvitations.expiresAt, new Date())
+        )
+      )
+      .limit(1);
+    if (!invitation) {
+      return {
+        success: false,
+        error: "This invitation has expired or was already used",
+      };
+    }
+    if (session.user.email.toLowerCase() !== invitation.email) {
+      return {
+        success: false,
+        error: `This invitation was sent to ${invitation.email}. Sign in with that email to accept it.`,
+      };
+    }
+
+    await db.transaction(async (tx) => {
+      const [existingMember] = await tx
+        .select({ id: storeMembers.id })
+        .from(storeMembers)
+        .where(
+          and(
+            eq(storeMembers.storeId, invitation.storeId),
+            eq(storeMembers.userId, session.user.id)
+          )
+        )
+        .limit(1);
+      if (!existingMember) {
+        await tx.insert(storeMembers).values({
+          storeId: invitation.storeId,
+          userId: session.user.id,
+          role: "staff",
+          permissions: toStorePermissions(invitation.permissions),
+        });
+      }
+
+      await tx
+        .update(storeInvitations)
+        .set({ acceptedAt: new Date(), acceptedBy: session.user.id })
+        .where(eq(storeInvitations.id, invitation.id));
+    });
+
+    revalidatePath("/dashboard");
+    return { success: true, message: "You joined the store" };
+  } catch (error) {
+    console.error("Error accepting store invitation:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error ? error.message : "Failed to accept invitation",
+    };
+  }
+}
@@ -9,6 +9,8 @@ import { headers } from "next/headers";
 import { uploadFile } from "@/lib/cloudinary";
 import { revalidatePath } from "next/cache";
 import { slugify, generateUniqueSlug } from "@/lib/slug-utils";
+import { syncStoreToIndex } from "@/lib/search-index";
+import { requirePermission } from "@/lib/permissions";
 
 export interface StoreData {
   storeName: string;
@@ -207,6 +209,7 @@ export async function upsertStore(
     } else {
       // Update existing store
       storeId = userStore[0].storeId;
+      await requirePermission(session, "store.settings", { storeId });
 
       // Upload logo if provided
       let logoUrl: string | null = null;
@@ -224,6 +227,7 @@ export async function upsertStore(
 
       // Update existing store
       await db.update(store).set(storeData).where(eq(store.id, storeId));
+      await syncStoreToIndex(storeId, { listings: true });
 
       // Validate that at least one location has all required fields
       const locations = await db
@@ -7,15 +7,16 @@ import {
   storeBannerImage,
   storeAbout,
   storePolicies,
-  storeMembers,
 } from "@/db/schema";
-import { eq, and, inArray, sql } from "drizzle-orm";
+import { eq, and, sql } from "drizzle-orm";
 import { auth } from "@/lib/auth";
 import { headers } from "next/headers";
 import { uploadFile } from "@/lib/cloudinary";
 import { revalidatePath } from "next/cache";
 import { getStoreIdForUser } from "./store-members";
+import { hasPermission } from "@/lib/permissions";
 import { slugify } from "@/lib/slug-utils";
+import { syncStoreToIndex } from "@/lib/search-index";
 import { encryptEsewaId, decryptEsewaId } from "@/lib/esewa-encrypt";
 import {
   encryptBankDetails,
@@ -25,7 +26,7 @@ import {
 } from "@/lib/bank-encrypt";
 
 /**
- * Verify user is store owner/admin
+ * Verify user may change the store's settings
  */
 async function verifyStoreAccess(storeId: string): Promise<{
   authorized: boolean;
@@ -36,19 +37,7 @@ async function verifyStoreAccess(storeId: string): Promise<{
     return { authorized: false, error: "Unauthorized" };
   }
 
-  const member = await db
-    .select()
-    .from(storeMembers)
-    .where(
-      and(
-        eq(storeMembers.storeId, storeId),
-        eq(storeMembers.userId, session.user.id),
-        inArray(storeMembers.role, ["admin", "seller"])
-      )
-    )
-    .limit(1);
-
-  if (member.length === 0) {
+  if (!(await hasPermission(session, "store.settings", { storeId }))) {
     return { authorized: false, error: "Forbidden" };
   }
 
@@ -109,7 +98,7 @@ export async function updateStoreSlug(
   const slugLower = normalized.toLowerCase();
 
   try {
-    return await db.transaction(async (tx) => {
+    const result = await db.transaction(async (tx) => {
       // Check if slug is taken (excluding current store)
       const existing = await tx
         .select()
@@ -161,6 +150,12 @@ export async function updateStoreSlug(
       revalidatePath(`/store/${normalized}`);
       return { success: true };
     });
+
+    if (result.success) {
+      await syncStoreToIndex(storeId, { listings: true });
+    }
+
+    return result;
   } catch (error) {
     console.error("Error updating slug:", error);
     return {
@@ -184,6 +179,7 @@ export async function updateStoreVisibility(
 
   try {
     await db.update(store).set({ visibility }).where(eq(store.id, storeId));
+    await syncStoreToIndex(storeId);
 
     revalidatePath(`/store/${storeId}`);
     return { success: true };
@@ -449,6 +445,7 @@ export async function updateStorePolicies(
   data: {
     shipping?: string;
     returns?: string;
+    returnWindowDays?: number | null;
     cancellations?: string;
     customOrders?: string;
     privacy?: string;
@@ -467,6 +464,7 @@ export async function updateStorePolicies(
         storeId,
         shipping: data.shipping || null,
         returns: data.returns || null,
+        returnWindowDays: data.returnWindowDays ?? null,
         cancellations: data.cancellations || null,
         customOrders: data.customOrders || null,
         privacy: data.privacy || null,
@@ -477,6 +475,7 @@ export async function updateStorePolicies(
         set: {
           shipping: data.shipping || null,
           returns: data.returns || null,
+          returnWindowDays: data.returnWindowDays ?? null,
           cancellations: data.cancellations || null,
           customOrders: data.customOrders || null,
           privacy: data.privacy || null,
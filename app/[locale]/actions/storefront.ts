@@ -215,12 +215,21 @@ export async function getStorefrontData(slug: string) {
       rating: storeReview.rating,
       title: storeReview.title,
       body: storeReview.body,
+      images: storeReview.images,
+      helpfulCount: storeReview.helpfulCount,
+      sellerReply: storeReview.sellerReply,
+      sellerReplyAt: storeReview.sellerReplyAt,
       createdAt: storeReview.createdAt,
       userName: user.name,
     })
     .from(storeReview)
     .innerJoin(user, eq(storeReview.userId, user.id))
-    .where(eq(storeReview.storeId, storeData.id))
+    .where(
+      and(
+        eq(storeReview.storeId, storeData.id),
+        eq(storeReview.status, "published")
+      )
+    )
     .orderBy(desc(storeReview.createdAt))
     .limit(10);
 
@@ -335,7 +344,7 @@ export async function getStoreListings(
 }
 
 /**
- * Get paginated reviews for a store
+ * Get paginated published reviews for a store
  */
 export async function getStoreReviews(
   storeId: string,
@@ -351,7 +360,9 @@ export async function getStoreReviews(
   const totalCountResult = await db
     .select({ count: sql<number>`COUNT(*)` })
     .from(storeReview)
-    .where(eq(storeReview.storeId, storeId));
+    .where(
+      and(eq(storeReview.storeId, storeId), eq(storeReview.status, "published"))
+    );
 
   const totalCount = Number(totalCountResult[0]?.count || 0);
 
@@ -362,12 +373,18 @@ export async function getStoreReviews(
       rating: storeReview.rating,
       title: storeReview.title,
       body: storeReview.body,
+      images: storeReview.images,
+      helpfulCount: storeReview.helpfulCount,
+      sellerReply: storeReview.sellerReply,
+      sellerReplyAt: storeReview.sellerReplyAt,
       createdAt: storeReview.createdAt,
       userName: user.name,
     })
     .from(storeReview)
     .innerJoin(user, eq(storeReview.userId, user.id))
-    .where(eq(storeReview.storeId, storeId))
+    .where(
+      and(eq(storeReview.storeId, storeId), eq(storeReview.status, "published"))
+    )
     .orderBy(desc(storeReview.createdAt))
     .limit(limit)
     .offset(offset);
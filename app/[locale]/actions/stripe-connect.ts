@@ -5,6 +5,7 @@ import { db } from "@/db";
 import { store } from "@/db/schema";
 import { eq } from "drizzle-orm";
 import { getStoreIdForUser } from "./store-members";
+import { requireCurrentPermission } from "@/lib/permissions";
 
 /**
  * Check if Stripe account is ready to receive payments
@@ -98,6 +99,7 @@ export async function createStripeAccountAndOnboarding(): Promise<{
   error?: string;
 }> {
   try {
+    await requireCurrentPermission("store.settings");
     const { storeId } = await getStoreIdForUser();
 
     if (!storeId) {
@@ -175,6 +177,7 @@ export async function generateOnboardingLink(): Promise<{
   error?: string;
 }> {
   try {
+    await requireCurrentPermission("store.settings");
     const { storeId } = await getStoreIdForUser();
 
     if (!storeId) {
@@ -231,6 +234,7 @@ export async function createStripeDashboardLink(): Promise<{
   error?: string;
 }> {
   try {
+    await requireCurrentPermission("store.settings");
     const { storeId } = await getStoreIdForUser();
 
     if (!storeId) {
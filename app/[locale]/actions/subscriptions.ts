@@ -0,0 +1,962 @@
+"use server";
+
+import { db } from "@/db";
+import {
+  listing,
+  listingVariants,
+  store,
+  subscriptionPlans,
+  subscriptions,
+} from "@/db/schema";
+import { and, asc, desc, eq, inArray } from "drizzle-orm";
+import { auth } from "@/lib/auth";
+import { headers } from "next/headers";
+import { revalidatePath } from "next/cache";
+import { stripe } from "@/lib/stripe";
+import { ActionResponse } from "@/lib/types";
+import {
+  SUBSCRIPTION_INTERVALS,
+  addSubscriptionInterval,
+  type SubscriptionInterval,
+  type SubscriptionStatus,
+} from "@/lib/subscriptions";
+import { getStoreIdForUser } from "./store-id";
+import { requireCurrentPermission } from "@/lib/permissions";
+
+export interface SubscriptionPlanRow {
+  id: string;
+  listingId: string;
+  listingName: string;
+  variantId: string | null;
+  variantTitle: string | null;
+  name: string;
+  interval: SubscriptionInterval;
+  intervalCount: number;
+  discountPercent: string;
+  minCycles: number;
+  isActive: boolean;
+  subscriberCount: number;
+}
+
+export interface SubscriptionPlanInput {
+  listingId: string;
+  variantId?: string | null;
+  name: string;
+  interval: SubscriptionInterval;
+  intervalCount?: number;
+  discountPercent?: string | null;
+  minCycles?: number;
+  isActive?: boolean;
+}
+
+export interface SubscriptionRow {
+  id: string;
+  status: SubscriptionStatus;
+  planName: string;
+  interval: SubscriptionInterval;
+  intervalCount: number;
+  discountPercent: string;
+  minCycles: number;
+  listingId: string;
+  listingName: string;
+  listingSlug: string;
+  imageUrl: string | null;
+  variantTitle: string | null;
+  storeName: string | null;
+  customerEmail: string;
+  quantity: number;
+  currency: string;
+  currentCycle: number;
+  skippedCycles: number;
+  nextBillingAt: Date | null;
+  resumeAt: Date | null;
+  lastError: string | null;
+  cancelledAt: Date | null;
+  createdAt: Date;
+}
+
+// Public plan info for the product page and subscription checkout
+export interface PublicSubscriptionPlan {
+  id: string;
+  listingId: string;
+  variantId: string | null;
+  name: string;
+  interval: SubscriptionInterval;
+  intervalCount: number;
+  discountPercent: number;
+  minCycles: number;
+}
+
+const subscriptionRowFields = {
+  id: subscriptions.id,
+  status: subscriptions.status,
+  planName: subscriptions.planName,
+  interval: subscriptions.interval,
+  intervalCount: subscriptions.intervalCount,
+  discountPercent: subscriptions.discountPercent,
+  minCycles: subscriptions.minCycles,
+  listingId: subscriptions.listingId,
+  listingName: listing.name,
+  listingSlug: listing.slug,
+  imageUrl: listing.imageUrl,
+  variantTitle: listingVariants.title,
+  storeName: store.storeName,
+  customerEmail: subscriptions.customerEmail,
+  quantity: subscriptions.quantity,
+  currency: subscriptions.currency,
+  currentCycle: subscriptions.currentCycle,
+  skippedCycles: subscriptions.skippedCycles,
+  nextBillingAt: subscriptions.nextBillingAt,
+  resumeAt: subscriptions.resumeAt,
+  lastError: subscriptions.lastError,
+  cancelledAt: subscriptions.cancelledAt,
+  createdAt: subscriptions.createdAt,
+};
+
+function normalizeSubscriptionPlanInput(input: SubscriptionPlanInput):
+  | {
+      values: Omit<
+        typeof subscriptionPlans.$inferInsert,
+        "id" | "storeId" | "listingId" | "variantId"
+      >;
+    }
+  | { error: string } {
+  const name = input.name?.trim();
+  if (!name) {
+    return { error: "Name is required" };
+  }
+
+  if (!SUBSCRIPTION_INTERVALS.includes(input.interval)) {
+    return { error: "Choose a weekly or monthly interval" };
+  }
+
+  const intervalCount = input.intervalCount ?? 1;
+  if (!Number.isInteger(intervalCount) || intervalCount < 1) {
+    return { error: "Interval count must be at least 1" };
+  }
+  if (intervalCount > (input.interval === "week" ? 52 : 12)) {
+    return { error: "Deliveries must be at least once a year" };
+  }
+
+  const discountPercent = input.discountPercent
+    ? parseFloat(input.discountPercent)
+    : 0;
+  if (isNaN(discountPercent) || discountPercent < 0 || discountPercent >= 100) {
+    return { error: "Discount must be a percentage between 0 and 100" };
+  }
+
+  const minCycles = input.minCycles ?? 1;
+  if (!Number.isInteger(minCycles) || minCycles < 1) {
+    return { error: "Minimum commitment must be at least 1 delivery" };
+  }
+
+  return {
+    values: {
+      name,
+      interval: input.interval,
+      intervalCount,
+      discountPercent: discountPercent.toFixed(2),
+      minCycles,
+      isActive: input.isActive ?? true,
+    },
+  };
+}
+
+function revalidateSubscriptionPaths() {
+  revalidatePath("/account");
+  revalidatePath("/dashboard/subscriptions");
+}
+
+/**
+ * Listing (and optional variant) a seller may attach a plan to
+ */
+async function getPlanTarget(
+  listingId: string,
+  variantId: string | null | undefined
+): Promise<{ storeId: string } | { error: string }> {
+  await requireCurrentPermission("products.manage");
+  const { storeId, isAdmin } = await getStoreIdForUser();
+  if (!storeId && !isAdmin) {
+    return { error: "Unauthorized" };
+  }
+
+  const [listingRow] = await db
+    .select({ storeId: listing.storeId })
+    .from(listing)
+    .where(eq(listing.id, listingId))
+    .limit(1);
+  if (!listingRow || (!isAdmin && listingRow.storeId !== storeId)) {
+    return { error: "Product not found" };
+  }
+
+  if (variantId) {
+    const [variant] = await db
+      .select({ id: listingVariants.id })
+      .from(listingVariants)
+      .where(
+        and(
+          eq(listingVariants.id, variantId),
+          eq(listingVariants.listingId, listingId)
+        )
+      )
+      .limit(1);
+    if (!variant) {
+      return { error: "Variant not found" };
+    }
+  }
+
+  return { storeId: listingRow.storeId };
+}
+
+async function getPlanAccess(
+  planId: string
+): Promise<
+  { plan: typeof subscriptionPlans.$inferSelect } | { error: string }
+> {
+  await requireCurrentPermission("products.manage");
+  const { storeId, isAdmin } = await getStoreIdForUser();
+  const [plan] = await db
+    .select()
+    .from(subscriptionPlans)
+    .where(eq(subscriptionPlans.id, planId))
+    .limit(1);
+  if (!plan || (!isAdmin && plan.storeId !== storeId)) {
+    return { error: "Plan not found" };
+  }
+  return { plan };
+}
+
+/**
+ * The signed-in customer's subscription
+ */
+async function getOwnSubscription(subscriptionId: string) {
+  const session = await auth.api.getSession({
+    headers: await headers(),
+  });
+  if (!session?.user?.id) {
+    return { error: "Unauthorized" } as const;
+  }
+
+  const [subscription] = await db
+    .select()
+    .from(subscriptions)
+    .where(
+      and(
+        eq(subscriptions.id, subscriptionId),
+        eq(subscriptions.userId, session.user.id)
+      )
+    )
+    .limit(1);
+  if (!subscription) {
+    return { error: "Subscription not found" } as const;
+  }
+  return { subscription } as const;
+}
+
+// ===================================
+// Plans (seller)
+// ===================================
+
+// Plans of the current seller's store (all stores for admins)
+export async function getSubscriptionPlans(): Promise<
+  ActionResponse & { result?: SubscriptionPlanRow[] }
+> {
+  try {
+    await requireCurrentPermission("products.manage");
+    const { storeId, isAdmin } = await getStoreIdForUser();
+    if (!storeId && !isAdmin) {
+      return { success: false, error: "Unauthorized" };
+    }
+
+    const plans = await db
+      .select({
+        id: subscriptionPlans.id,
+        listingId: subscriptionPlans.listingId,
+        listingName: listing.name,
+        variantId: subscriptionPlans.variantId,
+        variantTitle: listingVariants.title,
+        name: subscriptionPlans.name,
+        interval: subscriptionPlans.interval,
+        intervalCount: subscriptionPlans.intervalCount,
+        discountPercent: subscriptionPlans.discountPercent,
+        minCycles: subscriptionPlans.minCycles,
+        isActive: subscriptionPlans.isActive,
+      })
+      .from(subscriptionPlans)
+      .innerJoin(listing, eq(subscriptionPlans.listingId, listing.id))
+      .leftJoin(
+        listingVariants,
+        eq(subscriptionPlans.variantId, listingVariants.id)
+      )
+      .where(isAdmin ? undefined : eq(subscriptionPlans.storeId, storeId!))
+      .orderBy(asc(listing.name), asc(subscriptionPlans.name));
+
+    const counts =
+      plans.length > 0
+        ? await db
+            .select({ planId: subscriptions.planId })
+            .from(subscriptions)
+            .where(
+              and(
+                inArray(
+                  subscriptions.planId,
+                  plans.map((p) => p.id)
+                ),
+                inArray(subscriptions.status, ["active", "paused", "past_due"])
+              )
+            )
+        : [];
+
+    return {
+      success: true,
+      result: plans.map((plan) => ({
+        ...plan,
+        interval: plan.interval as SubscriptionInterval,
+        subscriberCount: counts.filter((c) => c.planId === plan.id).length,
+      })),
+    };
+  } catch (error) {
+    console.error("Error fetching subscription plans:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Failed to fetch subscription plans",
+    };
+  }
+}
+
+// Products (with variants) a plan can be attached to
+export async function getSubscriptionPlanOptions(): Promise<
+  ActionResponse & {
+    result?: Array<{
+      id: string;
+      name: string;
+      variants: Array<{ id: string; title: string }>;
+    }>;
+  }
+> {
+  try {
+    await requireCurrentPermission("products.manage");
+    const { storeId, isAdmin } = await getStoreIdForUser();
+    if (!storeId && !isAdmin) {
+      return { success: false, error: "Unauthorized" };
+    }
+
+    const listings = await db
+      .select({ id: listing.id, name: listing.name })
+      .from(listing)
+      .where(isAdmin ? undefined : eq(listing.storeId, storeId!))
+      .orderBy(asc(listing.name));
+
+    const variants =
+      listings.length > 0
+        ? await db
+            .select({
+              id: listingVariants.id,
+              listingId: listingVariants.listingId,
+              title: listingVariants.title,
+            })
+            .from(listingVariants)
+            .where(
+              inArray(
+                listingVariants.listingId,
+                listings.map((l) => l.id)
+              )
+            )
+            .orderBy(asc(listingVariants.title))
+        : [];
+
+    return {
+      success: true,
+      result: listings.map((l) => ({
+        ...l,
+        variants: variants
+          .filter((v) => v.listingId === l.id)
+          .map((v) => ({ id: v.id, title: v.title })),
+      })),
+    };
+  } catch (error) {
+    console.error("Error fetching subscription plan options:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to fetch options",
+    };
+  }
+}
+
+export async function createSubscriptionPlan(
+  input: SubscriptionPlanInput
+): Promise<ActionResponse> {
+  try {
+    const normalized = normalizeSubscriptionPlanInput(input);
+    if ("error" in normalized) {
+      return { success: false, error: normalized.error };
+    }
+
+    const target = await getPlanTarget(input.listingId, input.variantId);
+    if ("error" in target) {
+      return { success: false, error: target.error };
+    }
+
+    const [plan] = await db
+      .insert(subscriptionPlans)
+      .values({
+        ...normalized.values,
+        storeId: target.storeId,
+        listingId: input.listingId,
+        variantId: input.variantId || null,
+      })
+      .returning();
+
+    revalidateSubscriptionPaths();
+
+    return {
+      success: true,
+      message: "Subscription plan created successfully",
+      result: plan,
+    };
+  } catch (error) {
+    console.error("Error creating subscription plan:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error ? error.message : "Failed to create plan",
+    };
+  }
+}
+
+// Update a plan. Existing subscribers keep the terms they signed up for.
+export async function updateSubscriptionPlan(
+  planId: string,
+  input: SubscriptionPlanInput
+): Promise<ActionResponse> {
+  try {
+    const access = await getPlanAccess(planId);
+    if ("error" in access) {
+      return { success: false, error: access.error };
+    }
+
+    const normalized = normalizeSubscriptionPlanInput(input);
+    if ("error" in normalized) {
+      return { success: false, error: normalized.error };
+    }
+
+    const target = await getPlanTarget(input.listingId, input.variantId);
+    if ("error" in target) {
+      return { success: false, error: target.error };
+    }
+
+    const [plan] = await db
+      .update(subscriptionPlans)
+      .set({
+        ...normalized.values,
+        storeId: target.storeId,
+        listingId: input.listingId,
+        variantId: input.variantId || null,
+      })
+      .where(eq(subscriptionPlans.id, planId))
+      .returning();
+
+    revalidateSubscriptionPaths();
+
+    return {
+      success: true,
+      message: "Subscription plan updated successfully",
+      result: plan,
+    };
+  } catch (error) {
+    console.error("Error updating subscription plan:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error ? error.message : "Failed to update plan",
+    };
+  }
+}
+
+// Delete a plan that has no running subscriptions (deactivate it otherwise)
+export async function deleteSubscriptionPlan(
+  planId: string
+): Promise<ActionResponse> {
+  try {
+    const access = await getPlanAccess(planId);
+    if ("error" in access) {
+      return { success: false, error: access.error };
+    }
+
+    const [running] = await db
+      .select({ id: subscriptions.id })
+      .from(subscriptions)
+      .where(
+        and(
+          eq(subscriptions.planId, planId),
+          inArray(subscriptions.status, ["active", "paused", "past_due"])
+        )
+      )
+      .limit(1);
+    if (running) {
+      return {
+        success: false,
+        error:
+          "This plan has active subscribers. Deactivate it to stop new sign-ups.",
+      };
+    }
+
+    await db.delete(subscriptionPlans).where(eq(subscriptionPlans.id, planId));
+
+    revalidateSubscriptionPaths();
+
+    return { success: true, message: "Subscription plan deleted successfully" };
+  } catch (error) {
+    console.error("Error deleting subscription plan:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error ? error.message : "Failed to delete plan",
+    };
+  }
+}
+
+// ===================================
+// Subscriptions (seller)
+// ===================================
+
+// Subscribers of the current seller's store (all stores for admins)
+export async function getStoreSubscriptions(): Promise<
+  ActionResponse & { result?: SubscriptionRow[] }
+> {
+  try {
+    await requireCurrentPermission("orders.view");
+    const { storeId, isAdmin } = await getStoreIdForUser();
+    if (!storeId && !isAdmin) {
+      return { success: false, error: "Unauthorized" };
+    }
+
+    const rows = await db
+      .select(subscriptionRowFields)
+      .from(subscriptions)
+      .innerJoin(listing, eq(subscriptions.listingId, listing.id))
+      .leftJoin(
+        listingVariants,
+        eq(subscriptions.variantId, listingVariants.id)
+      )
+      .leftJoin(store, eq(subscriptions.storeId, store.id))
+      .where(isAdmin ? undefined : eq(subscriptions.storeId, storeId!))
+      .orderBy(desc(subscriptions.createdAt));
+
+    return { success: true, result: rows as SubscriptionRow[] };
+  } catch (error) {
+    console.error("Error fetching store subscriptions:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Failed to fetch subscriptions",
+    };
+  }
+}
+
+// ===================================
+// Storefront & customer self-service
+// ===================================
+
+// Active plans offered on a product
+export async function getListingSubscriptionPlans(
+  listingId: string
+): Promise<PublicSubscriptionPlan[]> {
+  try {
+    const plans = await db
+      .select()
+      .from(subscriptionPlans)
+      .where(
+        and(
+          eq(subscriptionPlans.listingId, listingId),
+          eq(subscriptionPlans.isActive, true)
+        )
+      )
+      .orderBy(
+        asc(subscriptionPlans.interval),
+        asc(subscriptionPlans.intervalCount)
+      );
+
+    return plans.map((plan) => ({
+      id: plan.id,
+      listingId: plan.listingId,
+      variantId: plan.variantId,
+      name: plan.name,
+      interval: plan.interval as SubscriptionInterval,
+      intervalCount: plan.intervalCount,
+      discountPercent: parseFloat(plan.discountPercent),
+      minCycles: plan.minCycles,
+    }));
+  } catch (error) {
+    console.error("Error fetching listing subscription plans:", error);
+    return [];
+  }
+}
+
+// Plan with the product details shown on the subscription checkout page
+export async function getSubscriptionPlanForCheckout(planId: string): Promise<
+  ActionResponse & {
+    result?: {
+      plan: PublicSubscriptionPlan;
+      listing: {
+        id: string;
+        name: string;
+        imageUrl: string | null;
+        price: string;
+        currency: string;
+      };
+      variants: Array<{
+        id: string;
+        title: string;
+        price: string | null;
+        currency: string | null;
+      }>;
+    };
+  }
+> {
+  try {
+    const [row] = await db
+      .select({ plan: subscriptionPlans, listing })
+      .from(subscriptionPlans)
+      .innerJoin(listing, eq(subscriptionPlans.listingId, listing.id))
+      .where(
+        and(
+          eq(subscriptionPlans.id, planId),
+          eq(subscriptionPlans.isActive, true),
+          eq(listing.status, "active")
+        )
+      )
+      .limit(1);
+    if (!row) {
+      return { success: false, error: "Subscription plan not found" };
+    }
+
+    const variants = await db
+      .select({
+        id: listingVariants.id,
+        title: listingVariants.title,
+        price: listingVariants.price,
+        currency: listingVariants.currency,
+      })
+      .from(listingVariants)
+      .where(
+        row.plan.variantId
+          ? eq(listingVariants.id, row.plan.variantId)
+          : eq(listingVariants.listingId, row.listing.id)
+      )
+      .orderBy(asc(listingVariants.title));
+
+    return {
+      success: true,
+      result: {
+        plan: {
+          id: row.plan.id,
+          listingId: row.plan.listingId,
+          variantId: row.plan.variantId,
+          name: row.plan.name,
+          interval: row.plan.interval as SubscriptionInterval,
+          intervalCount: row.plan.intervalCount,
+          discountPercent: parseFloat(row.plan.discountPercent),
+          minCycles: row.plan.minCycles,
+        },
+        listing: {
+          id: row.listing.id,
+          name: row.listing.name,
+          imageUrl: row.listing.imageUrl,
+          price: row.listing.price,
+          currency: row.listing.currency,
+        },
+        variants,
+      },
+    };
+  } catch (error) {
+    console.error("Error fetching subscription plan:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error ? error.message : "Failed to fetch plan",
+    };
+  }
+}
+
+// The signed-in customer's subscriptions
+export async function getMySubscriptions(): Promise<
+  ActionResponse & { result?: SubscriptionRow[] }
+> {
+  try {
+    const session = await auth.api.getSession({
+      headers: await headers(),
+    });
+    if (!session?.user?.id) {
+      return { success: false, error: "Unauthorized" };
+    }
+
+    const rows = await db
+      .select(subscriptionRowFields)
+      .from(subscriptions)
+      .innerJoin(listing, eq(subscriptions.listingId, listing.id))
+      .leftJoin(
+        listingVariants,
+        eq(subscriptions.variantId, listingVariants.id)
+      )
+      .leftJoin(store, eq(subscriptions.storeId, store.id))
+      .where(eq(subscriptions.userId, session.user.id))
+      .orderBy(desc(subscriptions.createdAt));
+
+    return {
+      success: true,
+      result: (rows as SubscriptionRow[]).filter(
+        (row) => row.status !== "incomplete"
+      ),
+    };
+  } catch (error) {
+    console.error("Error fetching subscriptions:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Failed to fetch subscriptions",
+    };
+  }
+}
+
+// Skip the next delivery; billing moves on by one interval
+export async function skipSubscriptionDelivery(
+  subscriptionId: string
+): Promise<ActionResponse> {
+  try {
+    const access = await getOwnSubscription(subscriptionId);
+    if ("error" in access) {
+      return { success: false, error: access.error };
+    }
+    const { subscription } = access;
+    if (subscription.status !== "active" || !subscription.nextBillingAt) {
+      return {
+        success: false,
+        error: "Only active subscriptions can skip a delivery",
+      };
+    }
+
+    // Conditional on the date so a renewal billing it right now wins
+    const updated = await db
+      .update(subscriptions)
+      .set({
+        nextBillingAt: addSubscriptionInterval(
+          subscription.nextBillingAt,
+          subscription.interval,
+          subscription.intervalCount
+        ),
+        skippedCycles: subscription.skippedCycles + 1,
+      })
+      .where(
+        and(
+          eq(subscriptions.id, subscriptionId),
+          eq(subscriptions.currentCycle, subscription.currentCycle),
+          eq(subscriptions.nextBillingAt, subscription.nextBillingAt)
+        )
+      )
+      .returning({ id: subscriptions.id });
+    if (updated.length === 0) {
+      return {
+        success: false,
+        error: "This delivery is already being processed",
+      };
+    }
+
+    revalidateSubscriptionPaths();
+    return { success: true, message: "Next delivery skipped" };
+  } catch (error) {
+    console.error("Error skipping subscription delivery:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error ? error.message : "Failed to skip delivery",
+    };
+  }
+}
+
+// Pause billing, optionally until a date (YYYY-MM-DD)
+export async function pauseSubscription(
+  subscriptionId: string,
+  resumeOn?: string | null
+): Promise<ActionResponse> {
+  try {
+    const access = await getOwnSubscription(subscriptionId);
+    if ("error" in access) {
+      return { success: false, error: access.error };
+    }
+    if (access.subscription.status !== "active") {
+      return {
+        success: false,
+        error: "Only active subscriptions can be paused",
+      };
+    }
+
+    const resumeAt = resumeOn ? new Date(resumeOn) : null;
+    if (resumeAt && (isNaN(resumeAt.getTime()) || resumeAt <= new Date())) {
+      return { success: false, error: "Resume date must be in the future" };
+    }
+
+    await db
+      .update(subscriptions)
+      .set({ status: "paused", pausedAt: new Date(), resumeAt })
+      .where(
+        and(
+          eq(subscriptions.id, subscriptionId),
+          eq(subscriptions.status, "active")
+        )
+      );
+
+    revalidateSubscriptionPaths();
+    return { success: true, message: "Subscription paused" };
+  } catch (error) {
+    console.error("Error pausing subscription:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error ? error.message : "Failed to pause subscription",
+    };
+  }
+}
+
+export async function resumeSubscription(
+  subscriptionId: string
+): Promise<ActionResponse> {
+  try {
+    const access = await getOwnSubscription(subscriptionId);
+    if ("error" in access) {
+      return { success: false, error: access.error };
+    }
+    const { subscription } = access;
+    if (subscription.status !== "paused") {
+      return { success: false, error: "Subscription is not paused" };
+    }
+
+    // Deliveries missed while paused are not billed afterwards
+    const now = new Date();
+    await db
+      .update(subscriptions)
+      .set({
+        status: "active",
+        pausedAt: null,
+        resumeAt: null,
+        nextBillingAt:
+          subscription.nextBillingAt && subscription.nextBillingAt > now
+            ? subscription.nextBillingAt
+            : now,
+      })
+      .where(
+        and(
+          eq(subscriptions.id, subscriptionId),
+          eq(subscriptions.status, "paused")
+        )
+      );
+
+    revalidateSubscriptionPaths();
+    return { success: true, message: "Subscription resumed" };
+  } catch (error) {
+    console.error("Error resuming subscription:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Failed to resume subscription",
+    };
+  }
+}
+
+// Cancel once the minimum commitment has been billed
+export async function cancelSubscription(
+  subscriptionId: string,
+  reason?: string | null
+): Promise<ActionResponse> {
+  try {
+    const access = await getOwnSubscription(subscriptionId);
+    if ("error" in access) {
+      return { success: false, error: access.error };
+    }
+    const { subscription } = access;
+    if (subscription.status === "cancelled") {
+      return { success: false, error: "Subscription is already cancelled" };
+    }
+
+    const remaining = subscription.minCycles - subscription.currentCycle;
+    if (subscription.status !== "incomplete" && remaining > 0) {
+      return {
+        success: false,
+        error: `This plan has a minimum commitment of ${subscription.minCycles} deliveries. You can cancel after ${remaining} more ${remaining === 1 ? "delivery" : "deliveries"}, or skip or pause in the meantime.`,
+      };
+    }
+
+    await db
+      .update(subscriptions)
+      .set({
+        status: "cancelled",
+        cancelledAt: new Date(),
+        cancelReason: reason?.trim() || null,
+        nextBillingAt: null,
+      })
+      .where(eq(subscriptions.id, subscriptionId));
+
+    revalidateSubscriptionPaths();
+    return { success: true, message: "Subscription cancelled" };
+  } catch (error) {
+    console.error("Error cancelling subscription:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Failed to cancel subscription",
+    };
+  }
+}
+
+// Stripe-hosted page to replace the saved card (setup mode)
+export async function createSubscriptionCardUpdateSession(
+  subscriptionId: string
+): Promise<ActionResponse & { url?: string }> {
+  try {
+    const access = await getOwnSubscription(subscriptionId);
+    if ("error" in access) {
+      return { success: false, error: access.error };
+    }
+    const { subscription } = access;
+    if (
+      subscription.status === "cancelled" ||
+      subscription.status === "incomplete" ||
+      !subscription.stripeCustomerId
+    ) {
+      return {
+        success: false,
+        error: "The card can't be changed for this subscription",
+      };
+    }
+
+    const session = await stripe.checkout.sessions.create({
+      mode: "setup",
+      customer: subscription.stripeCustomerId,
+      currency: subscription.currency.toLowerCase(),
+      payment_method_types: ["card"],
+      metadata: { subscriptionId },
+      success_url: `${process.env.NEXT_PUBLIC_APP_URL}/account?card=updated`,
+      cancel_url: `${process.env.NEXT_PUBLIC_APP_URL}/account`,
+    });
+
+    return { success: true, url: session.url ?? undefined };
+  } catch (error) {
+    console.error("Error creating card update session:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error ? error.message : "Failed to start card update",
+    };
+  }
+}
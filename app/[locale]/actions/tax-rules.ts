@@ -0,0 +1,253 @@
+"use server";
+
+import { db } from "@/db";
+import { taxRules, markets } from "@/db/schema";
+import { eq, asc, desc } from "drizzle-orm";
+import { getCurrentAdmin } from "./admin";
+import { revalidatePath } from "next/cache";
+import { findCategoryById } from "@/lib/taxonomy";
+import { ActionResponse } from "@/lib/types";
+
+export interface TaxRuleRow {
+  id: string;
+  name: string;
+  marketId: string | null;
+  marketName: string | null;
+  countryCode: string;
+  regionCode: string | null;
+  taxonomyCategoryId: string | null;
+  taxonomyCategoryName: string | null;
+  rate: string;
+  appliesToShipping: boolean;
+  priority: number;
+  isActive: boolean;
+  updatedAt: Date;
+}
+
+export interface TaxRuleInput {
+  name: string;
+  marketId?: string | null;
+  countryCode: string;
+  regionCode?: string | null;
+  taxonomyCategoryId?: string | null;
+  rate: string;
+  appliesToShipping?: boolean;
+  priority?: number;
+  isActive?: boolean;
+}
+
+function normalizeTaxRuleInput(
+  input: TaxRuleInput
+): { values: TaxRuleInput } | { error: string } {
+  const name = input.name?.trim();
+  if (!name) {
+    return { error: "Name is required" };
+  }
+
+  const countryCode = input.countryCode?.trim().toUpperCase();
+  if (!countryCode || countryCode.length !== 2) {
+    return { error: "Country must be a 2-letter ISO code" };
+  }
+
+  const rate = parseFloat(input.rate);
+  if (isNaN(rate) || rate < 0 || rate > 100) {
+    return { error: "Rate must be a percentage between 0 and 100" };
+  }
+
+  return {
+    values: {
+      name,
+      marketId: input.marketId || null,
+      countryCode,
+      regionCode: input.regionCode?.trim().toUpperCase() || null,
+      taxonomyCategoryId: input.taxonomyCategoryId || null,
+      rate: rate.toFixed(3),
+      appliesToShipping: input.appliesToShipping ?? false,
+      priority: input.priority ?? 0,
+      isActive: input.isActive ?? true,
+    },
+  };
+}
+
+function revalidateTaxPaths() {
+  revalidatePath("/dashboard/settings/taxes");
+}
+
+// Get all tax rules (admin)
+export async function getTaxRules(): Promise<
+  ActionResponse & { result?: TaxRuleRow[] }
+> {
+  try {
+    await getCurrentAdmin("platform.settings");
+
+    const rows = await db
+      .select({
+        id: taxRules.id,
+        name: taxRules.name,
+        marketId: taxRules.marketId,
+        marketName: markets.name,
+        countryCode: taxRules.countryCode,
+        regionCode: taxRules.regionCode,
+        taxonomyCategoryId: taxRules.taxonomyCategoryId,
+        rate: taxRules.rate,
+        appliesToShipping: taxRules.appliesToShipping,
+        priority: taxRules.priority,
+        isActive: taxRules.isActive,
+        updatedAt: taxRules.updatedAt,
+      })
+      .from(taxRules)
+      .leftJoin(markets, eq(taxRules.marketId, markets.id))
+      .orderBy(
+        asc(taxRules.countryCode),
+        asc(taxRules.regionCode),
+        desc(taxRules.priority)
+      );
+
+    return {
+      success: true,
+      result: rows.map((row) => ({
+        ...row,
+        taxonomyCategoryName: row.taxonomyCategoryId
+          ? findCategoryById(row.taxonomyCategoryId)?.full_name ||
+            row.taxonomyCategoryId
+          : null,
+      })),
+    };
+  } catch (error) {
+    console.error("Error fetching tax rules:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error ? error.message : "Failed to fetch tax rules",
+    };
+  }
+}
+
+// Markets a rule can be scoped to
+export async function getTaxRuleMarkets(): Promise<
+  ActionResponse & {
+    result?: Array<{ id: string; name: string; pricesIncludeTax: boolean }>;
+  }
+> {
+  try {
+    await getCurrentAdmin("platform.settings");
+
+    const rows = await db
+      .select({
+        id: markets.id,
+        name: markets.name,
+        pricesIncludeTax: markets.pricesIncludeTax,
+      })
+      .from(markets)
+      .orderBy(asc(markets.name));
+
+    return { success: true, result: rows };
+  } catch (error) {
+    console.error("Error fetching markets for tax rules:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to fetch markets",
+    };
+  }
+}
+
+// Create a tax rule
+export async function createTaxRule(
+  input: TaxRuleInput
+): Promise<ActionResponse> {
+  try {
+    const admin = await getCurrentAdmin("platform.settings");
+
+    const normalized = normalizeTaxRuleInput(input);
+    if ("error" in normalized) {
+      return { success: false, error: normalized.error };
+    }
+
+    const newRule = await db
+      .insert(taxRules)
+      .values({ ...normalized.values, createdBy: admin.id })
+      .returning();
+
+    revalidateTaxPaths();
+
+    return {
+      success: true,
+      message: "Tax rule created successfully",
+      result: newRule[0],
+    };
+  } catch (error) {
+    console.error("Error creating tax rule:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error ? error.message : "Failed to create tax rule",
+    };
+  }
+}
+
+// Update a tax rule
+export async function updateTaxRule(
+  ruleId: string,
+  input: TaxRuleInput
+): Promise<ActionResponse> {
+  try {
+    await getCurrentAdmin("platform.settings");
+
+    const normalized = normalizeTaxRuleInput(input);
+    if ("error" in normalized) {
+      return { success: false, error: normalized.error };
+    }
+
+    const updatedRule = await db
+      .update(taxRules)
+      .set({ ...normalized.values, updatedAt: new Date() })
+      .where(eq(taxRules.id, ruleId))
+      .returning();
+
+    if (updatedRule.length === 0) {
+      return { success: false, error: "Tax rule not found" };
+    }
+
+    revalidateTaxPaths();
+
+    return {
+      success: true,
+      message: "Tax rule updated successfully",
+      result: updatedRule[0],
+    };
+  } catch (error) {
+    console.error("Error updating tax rule:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error ? error.message : "Failed to update tax rule",
+    };
+  }
+}
+
+// Delete a tax rule
+export async function deleteTaxRule(ruleId: string): Promise<ActionResponse> {
+  try {
+    await getCurrentAdmin("platform.settings");
+
+    const deleted = await db
+      .delete(taxRules)
+      .where(eq(taxRules.id, ruleId))
+      .returning({ id: taxRules.id });
+
+    if (deleted.length === 0) {
+      return { success: false, error: "Tax rule not found" };
+    }
+
+    revalidateTaxPaths();
+
+    return { success: true, message: "Tax rule deleted successfully" };
+  } catch (error) {
+    console.error("Error deleting tax rule:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error ? error.message : "Failed to delete tax rule",
+    };
+  }
+}
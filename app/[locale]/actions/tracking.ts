@@ -4,6 +4,10 @@ import { db } from "@/db";
 import { fulfillments, orders } from "@/db/schema";
 import { eq } from "drizzle-orm";
 import { generateTrackingUrl } from "@/lib/easyship";
+import {
+  getTrackingStatusLabel,
+  type StoredTrackingData,
+} from "@/lib/shipment-tracking";
 import { nanoid } from "nanoid";
 
 /**
@@ -31,10 +35,7 @@ export async function getTrackingInfo(fulfillmentId: string) {
     }
 
     // Use stored tracking data (EasyShip: tracking updates via webhook or carrier link)
-    const trackingData = record.trackingData as
-      | { tracking_details?: Array<{ datetime?: string; message?: string; status?: string; city?: string; state?: string; zip?: string; country?: string }>; est_delivery_date?: string }
-      | null
-      | undefined;
+    const trackingData = record.trackingData as StoredTrackingData | null;
     const events = (trackingData?.tracking_details ?? []).map((d) => ({
       occurred_at: d.datetime ?? "",
       description: d.message ?? "",
@@ -54,9 +55,7 @@ export async function getTrackingInfo(fulfillmentId: string) {
         carrier: record.carrier,
         status: record.trackingStatus ?? "in_transit",
         estimatedDelivery: trackingData?.est_delivery_date ?? undefined,
-        actualDelivery: events.find((e) =>
-          (e.description || "").toLowerCase().includes("delivered")
-        )?.occurred_at,
+        actualDelivery: record.deliveredAt?.toISOString(),
         events,
         trackingUrl,
       },
@@ -85,6 +84,7 @@ export async function getPublicTrackingInfo(trackingToken: string) {
         customerLastName: orders.customerLastName,
         status: orders.status,
         fulfillmentStatus: orders.fulfillmentStatus,
+        deliveredAt: orders.deliveredAt,
       })
       .from(orders)
       .where(eq(orders.trackingToken, trackingToken))
@@ -102,7 +102,7 @@ export async function getPublicTrackingInfo(trackingToken: string) {
       .from(fulfillments)
       .where(eq(fulfillments.orderId, order.id));
 
-    // Use stored tracking data per fulfillment (EasyShip: link to carrier tracking)
+    // Checkpoints are stored per fulfillment by the EasyShip webhook/cron
     const trackingData = orderFulfillments.map((fulfillment) => {
       if (!fulfillment.trackingNumber) {
         return {
@@ -116,18 +116,18 @@ export async function getPublicTrackingInfo(trackingToken: string) {
         };
       }
 
-      const stored = fulfillment.trackingData as
-        | { tracking_details?: Array<{ datetime?: string; message?: string; status?: string }>; est_delivery_date?: string }
-        | null
-        | undefined;
-      const events = (stored?.tracking_details ?? []).map((d) => ({
-        occurred_at: d.datetime ?? "",
-        description: d.message ?? "",
-        city_locality: undefined,
-        state_province: undefined,
-        postal_code: undefined,
-        country_code: undefined,
-      }));
+      const stored = fulfillment.trackingData as StoredTrackingData | null;
+      // Newest checkpoint first; postal codes are left off the public page
+      const events = (stored?.tracking_details ?? [])
+        .map((d) => ({
+          occurred_at: d.datetime ?? "",
+          description: d.message ?? "",
+          city_locality: d.city,
+          state_province: d.state,
+          postal_code: undefined,
+          country_code: d.country,
+        }))
+        .reverse();
 
       return {
         id: fulfillment.id,
@@ -140,11 +140,9 @@ export async function getPublicTrackingInfo(trackingToken: string) {
             fulfillment.carrier || "",
             fulfillment.trackingNumber
           ),
-        status: fulfillment.trackingStatus ?? "in_transit",
+        status: getTrackingStatusLabel(fulfillment.trackingStatus),
         estimatedDelivery: stored?.est_delivery_date ?? null,
-        actualDelivery: events.find((e) =>
-          (e.description || "").toLowerCase().includes("delivered")
-        )?.occurred_at ?? null,
+        actualDelivery: fulfillment.deliveredAt?.toISOString() ?? null,
         events,
         fulfilledAt: fulfillment.fulfilledAt,
       };
@@ -160,6 +158,7 @@ export async function getPublicTrackingInfo(trackingToken: string) {
             : "Customer",
         status: order.status,
         fulfillmentStatus: order.fulfillmentStatus,
+        deliveredAt: order.deliveredAt,
         shipments: trackingData,
       },
     };
@@ -56,7 +56,7 @@ export const getTranslation = async (
 export async function getAllTranslations(): Promise<
   Record<string, TranslationData>
 > {
-  await getCurrentAdmin();
+  await getCurrentAdmin("platform.content");
 
   const allTranslations = await db.select().from(translations);
 
@@ -72,7 +72,7 @@ export async function getAllTranslations(): Promise<
 export async function getTranslationByLang(
   lang: string
 ): Promise<TranslationData | null> {
-  await getCurrentAdmin();
+  await getCurrentAdmin("platform.content");
 
   const result = await db
     .select()
@@ -93,7 +93,7 @@ export async function saveTranslation(
   data: TranslationData
 ): Promise<{ success: boolean; error?: string }> {
   try {
-    await getCurrentAdmin();
+    await getCurrentAdmin("platform.content");
 
     // Validate lang
     const validLangs = ["en", "fi", "ne"];
@@ -238,7 +238,7 @@ export async function translateModifiedKeys(
   modifiedKeys: string[]
 ): Promise<{ success: boolean; data?: TranslationData; error?: string }> {
   try {
-    await getCurrentAdmin();
+    await getCurrentAdmin("platform.content");
 
     const validLangs = ["fi", "ne"];
     if (!validLangs.includes(targetLang)) {
@@ -361,7 +361,7 @@ export async function translateToLanguage(
   targetLang: string
 ): Promise<{ success: boolean; data?: TranslationData; error?: string }> {
   try {
-    await getCurrentAdmin();
+    await getCurrentAdmin("platform.content");
 
     const validLangs = ["fi", "ne"];
     if (!validLangs.includes(targetLang)) {
@@ -0,0 +1,66 @@
+"use client";
+
+import { useCart } from "@/lib/cart-context";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Info } from "lucide-react";
+import { useTranslations } from "next-intl";
+import type { CartNotice } from "../actions/cart";
+
+/**
+ * Changes made to the cart when it was re-validated (price updates, stock
+ * limits, removed products), shown until the shopper dismisses them
+ */
+export function CartNotices() {
+  const { notices, dismissNotices } = useCart();
+  const t = useTranslations("cart");
+
+  if (notices.length === 0) return null;
+
+  const describe = (notice: CartNotice) => {
+    switch (notice.type) {
+      case "price_changed":
+        return notice.previousPrice !== undefined
+          ? t("noticePriceChanged", {
+              name: notice.name,
+              previous: `${notice.currency} ${notice.previousPrice.toFixed(2)}`,
+              current: `${notice.currency} ${notice.currentPrice?.toFixed(2)}`,
+            })
+          : t("noticePriceUpdated", {
+              name: notice.name,
+              current: `${notice.currency} ${notice.currentPrice?.toFixed(2)}`,
+            });
+      case "quantity_reduced":
+        return t("noticeQuantityReduced", {
+          name: notice.name,
+          quantity: notice.quantity ?? 0,
+        });
+      case "removed":
+        return t("noticeRemoved", { name: notice.name });
+    }
+  };
+
+  return (
+    <Alert className="mb-6">
+      <Info className="h-4 w-4" />
+      <AlertTitle>{t("noticesTitle")}</AlertTitle>
+      <AlertDescription>
+        <ul className="list-disc pl-4 space-y-1">
+          {notices.map((notice, index) => (
+            <li key={`${notice.itemId}-${notice.type}-${index}`}>
+              {describe(notice)}
+            </li>
+          ))}
+        </ul>
+        <Button
+          variant="link"
+          size="sm"
+          className="px-0"
+          onClick={dismissNotices}
+        >
+          {t("dismissNotices")}
+        </Button>
+      </AlertDescription>
+    </Alert>
+  );
+}
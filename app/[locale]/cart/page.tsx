@@ -7,11 +7,40 @@ import Image from "next/image";
 import { Separator } from "@/components/ui/separator";
 import { Link } from "@/i18n/navigation";
 import { useTranslations } from "next-intl";
+import { useEffect } from "react";
+import toast from "react-hot-toast";
+import { CartNotices } from "./CartNotices";
 
 export default function CartPage() {
-  const { items, updateQuantity, removeItem, total } = useCart();
+  const { items, updateQuantity, removeItem, total, isLoading, refreshCart } =
+    useCart();
   const t = useTranslations("cart");
 
+  // Re-validate stock and prices every time the cart is opened
+  useEffect(() => {
+    refreshCart();
+  }, [refreshCart]);
+
+  const changeQuantity = async (id: string, quantity: number) => {
+    const result = await updateQuantity(id, quantity);
+    if (!result.success) {
+      toast.error(result.error || "Could not update quantity.");
+    }
+  };
+
+  if (isLoading && items.length === 0) {
+    return (
+      <div className="min-h-screen bg-background">
+        <div className="container mx-auto px-4 py-16">
+          <h1 className="text-4xl font-bold mb-8 text-foreground">
+            {t("title")}
+          </h1>
+          <p className="text-muted-foreground">{t("loading")}</p>
+        </div>
+      </div>
+    );
+  }
+
   if (items.length === 0) {
     return (
       <div className="min-h-screen bg-background">
@@ -19,6 +48,7 @@ export default function CartPage() {
           <h1 className="text-4xl font-bold mb-8 text-foreground">
             {t("title")}
           </h1>
+          <CartNotices />
           <div className="text-center py-16">
             <p className="text-xl text-muted-foreground mb-8">{t("empty")}</p>
             <Button asChild size="lg">
@@ -37,6 +67,8 @@ export default function CartPage() {
           {t("title")}
         </h1>
 
+        <CartNotices />
+
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
           {/* Cart Items */}
           <div className="lg:col-span-2">
@@ -112,7 +144,7 @@ export default function CartPage() {
                             variant="ghost"
                             size="icon-sm"
                             onClick={() =>
-                              updateQuantity(item.id, item.quantity - 1)
+                              changeQuantity(item.id, item.quantity - 1)
                             }
                             className="h-9 w-9"
                           >
@@ -124,7 +156,7 @@ export default function CartPage() {
                             onChange={(e) => {
                               const value = Number.parseInt(e.target.value);
                               if (!isNaN(value) && value >= 0) {
-                                updateQuantity(item.id, value);
+                                changeQuantity(item.id, value);
                               }
                             }}
                             className="w-12 text-center border-x border-border bg-transparent text-foreground text-sm"
@@ -134,7 +166,7 @@ export default function CartPage() {
                             variant="ghost"
                             size="icon-sm"
                             onClick={() =>
-                              updateQuantity(item.id, item.quantity + 1)
+                              changeQuantity(item.id, item.quantity + 1)
                             }
                             className="h-9 w-9"
                           >
@@ -20,6 +20,7 @@ import {
 import Image from "next/image";
 import { useState, useEffect, useMemo } from "react";
 import { useSession } from "@/lib/auth-client";
+import { useLocale } from "next-intl";
 import { getShippingBillingInfo } from "../actions/shipping-billing";
 import { Link } from "@/i18n/navigation";
 import {
@@ -30,18 +31,34 @@ import {
 } from "../actions/order-discounts";
 import { getManualShippingRatesForOrder } from "../actions/shipping-rates";
 import { checkShippingAvailability } from "../actions/shipping-availability";
+import { quoteCheckout, type CheckoutQuote } from "../actions/checkout-pricing";
 import { X, AlertCircle, Info } from "lucide-react";
 import toast from "react-hot-toast";
 import { type CartItem } from "@/lib/types";
+import { CartNotices } from "../cart/CartNotices";
 
 export default function CheckoutPage() {
-  const { items, total } = useCart();
+  const { items, total, refreshCart } = useCart();
   const { data: session } = useSession();
+  const locale = useLocale();
   const [isProcessing, setIsProcessing] = useState(false);
   const [shipToDifferentAddress, setShipToDifferentAddress] = useState(false);
   const [loadingSavedInfo, setLoadingSavedInfo] = useState(true);
   const [orderNotes, setOrderNotes] = useState("");
 
+  // Re-validate stock and prices before the shopper pays
+  useEffect(() => {
+    refreshCart();
+  }, [refreshCart]);
+
+  // Code offered in an abandoned checkout reminder (?discount=...)
+  useEffect(() => {
+    const code = new URLSearchParams(window.location.search).get("discount");
+    if (code) {
+      setDiscountCode(code.toUpperCase());
+    }
+  }, []);
+
   // Discount state
   const [discountCode, setDiscountCode] = useState("");
   const [applyingDiscount, setApplyingDiscount] = useState(false);
@@ -108,6 +125,10 @@ export default function CheckoutPage() {
   } | null>(null);
   const [shippingCost, setShippingCost] = useState(0);
 
+  // Server-side pricing for the current cart (what create-order will charge)
+  const [quote, setQuote] = useState<CheckoutQuote | null>(null);
+  const [quoteError, setQuoteError] = useState<string | null>(null);
+
   // Payment method (eSewa only when billing country is Nepal)
   const [paymentMethod, setPaymentMethod] = useState<"stripe" | "esewa">(
     "stripe"
@@ -145,6 +166,44 @@ export default function CheckoutPage() {
     zip: "",
   });
 
+  // Selected manual rate per vendor (matching the chosen service name)
+  const vendorShippingRates = useMemo(
+    () =>
+      shippingRates
+        .map((vendorRates) => {
+          // Find the selected rate for this vendor matching the service name
+          let selectedRate = vendorRates.rates.find(
+            (r) =>
+              r.id === selectedShippingMethod?.rateId &&
+              r.serviceName === selectedShippingMethod?.serviceName
+          );
+          if (!selectedRate && selectedShippingMethod) {
+            // If exact rate not found, use matching service name
+            selectedRate = vendorRates.rates.find(
+              (r) => r.serviceName === selectedShippingMethod.serviceName
+            );
+          }
+          if (!selectedRate && vendorRates.rates.length > 0) {
+            // Fallback to cheapest
+            selectedRate = vendorRates.rates.reduce((prev, curr) =>
+              curr.priceCents < prev.priceCents ? curr : prev
+            );
+          }
+          if (!selectedRate) {
+            return null;
+          }
+          return {
+            storeId: vendorRates.storeId,
+            rateId: selectedRate.id,
+            serviceName: selectedRate.serviceName,
+            priceCents: selectedRate.priceCents,
+            currency: selectedRate.currency,
+          };
+        })
+        .filter((r): r is NonNullable<typeof r> => r !== null),
+    [shippingRates, selectedShippingMethod]
+  );
+
   // Form validation
   const isFormValid = useMemo(() => {
     // Check billing fields
@@ -280,7 +339,11 @@ export default function CheckoutPage() {
           items.map(async (item) => {
             const availability = await checkShippingAvailability(
               item.listingId,
-              finalShippingData.country
+              finalShippingData.country,
+              {
+                region: finalShippingData.state,
+                postalCode: finalShippingData.zip,
+              }
             );
             return {
               item,
@@ -322,7 +385,11 @@ export default function CheckoutPage() {
         // Use manual shipping rates
         const result = await getManualShippingRatesForOrder(
           orderItems,
-          finalShippingData.country
+          finalShippingData.country,
+          {
+            region: finalShippingData.state,
+            postalCode: finalShippingData.zip,
+          }
         );
 
         if (result.success && result.rates) {
@@ -429,6 +496,71 @@ export default function CheckoutPage() {
     calculateShipping();
   }, [shipToDifferentAddress, shippingData, billingData, items]);
 
+  // Re-price on the server whenever anything affecting the amounts changes
+  const shippingCountry = shipToDifferentAddress
+    ? shippingData.country
+    : billingData.country;
+  const shippingRegion = shipToDifferentAddress
+    ? shippingData.state
+    : billingData.state;
+  const shippingPostalCode = shipToDifferentAddress
+    ? shippingData.zip
+    : billingData.zip;
+  const orderCurrency = paymentMethod === "esewa" ? "NPR" : "EUR";
+
+  useEffect(() => {
+    if (items.length === 0) {
+      setQuote(null);
+      return;
+    }
+
+    let cancelled = false;
+    async function loadQuote() {
+      const result = await quoteCheckout({
+        currency: orderCurrency,
+        lineItems: items.map((item) => {
+          const allocation = appliedDiscount?.allocations?.find(
+            (a) => a.cartItemId === item.id
+          );
+          return {
+            listingId: item.listingId,
+            variantId: item.variantId || null,
+            quantity: item.quantity,
+            discountId: allocation ? allocation.discountId : null,
+          };
+        }),
+        customerEmail: billingData.email || null,
+        discountId: appliedDiscount?.discountId || null,
+        shippingCountry: shippingCountry || null,
+        shippingRegion: shippingRegion || null,
+        shippingPostalCode: shippingPostalCode || null,
+        vendorShippingRates,
+      });
+      if (cancelled) return;
+      if (result.success && result.quote) {
+        setQuote(result.quote);
+        setQuoteError(null);
+      } else {
+        setQuote(null);
+        setQuoteError(result.error || "Failed to calculate order total");
+      }
+    }
+
+    loadQuote();
+    return () => {
+      cancelled = true;
+    };
+  }, [
+    items,
+    appliedDiscount,
+    billingData.email,
+    shippingCountry,
+    shippingRegion,
+    shippingPostalCode,
+    vendorShippingRates,
+    orderCurrency,
+  ]);
+
   // Automatically find and apply best discount when items or email change
   useEffect(() => {
     async function checkAutomaticDiscounts() {
@@ -727,19 +859,16 @@ export default function CheckoutPage() {
       }
     }
 
+    if (!quote) {
+      toast.error(quoteError || "Order total is still being calculated");
+      return;
+    }
+
     setIsProcessing(true);
 
     try {
-      // Calculate totals
-      // Subtotal should be the sum of all items before discounts
-      const subtotal = items.reduce(
-        (sum, item) => sum + item.price * item.quantity,
-        0
-      );
-      const shipping = shippingCost;
-      const tax = 0; // TODO: Calculate tax
-      const discount = appliedDiscount?.totalAmount || 0;
-      const finalTotal = subtotal + shipping + tax - discount;
+      // Amounts come from the server quote; create-order re-prices and
+      // rejects the order if anything changed in the meantime
 
       // Determine shipping data (use shipping if different, else billing)
       const finalShippingData = shipToDifferentAddress
@@ -756,7 +885,6 @@ export default function CheckoutPage() {
           };
 
       const isEsewa = paymentMethod === "esewa";
-      const orderCurrency = isEsewa ? "NPR" : "EUR";
 
       // 1. Create order
       const orderResponse = await fetch("/api/checkout/create-order", {
@@ -767,30 +895,27 @@ export default function CheckoutPage() {
           customerFirstName: billingData.firstName,
           customerLastName: billingData.lastName,
           customerPhone: billingData.phone,
-          lineItems: items.map((item) => {
-            // Find discount allocation for this item
-            const allocation = appliedDiscount?.allocations?.find(
-              (a) => a.cartItemId === item.id
-            );
+          lineItems: items.map((item, index) => {
+            const line = quote.lines[index];
 
             return {
               listingId: item.listingId,
               variantId: item.variantId || null,
               quantity: item.quantity,
-              unitPrice: item.price.toString(),
+              unitPrice: line.unitPrice.toFixed(2),
               title: item.name,
               sku: item.sku || null,
-              discountAmount: allocation ? allocation.amount.toFixed(2) : "0",
-              discountId: allocation ? allocation.discountId : null,
+              discountAmount: line.discountAmount.toFixed(2),
+              discountId: line.discountId,
             };
           }),
-          currency: orderCurrency,
-          subtotalAmount: subtotal.toFixed(2),
-          shippingAmount: shipping.toFixed(2),
-          taxAmount: tax.toFixed(2),
-          discountAmount: discount.toFixed(2),
+          currency: quote.currency,
+          subtotalAmount: quote.subtotal.toFixed(2),
+          shippingAmount: quote.shipping.toFixed(2),
+          taxAmount: quote.tax.toFixed(2),
+          discountAmount: quote.discount.toFixed(2),
           discountId: appliedDiscount?.discountId || null,
-          totalAmount: finalTotal.toFixed(2),
+          totalAmount: quote.total.toFixed(2),
           shippingName: `${finalShippingData.firstName} ${finalShippingData.lastName}`,
           shippingPhone: billingData.phone,
           shippingAddressLine1: finalShippingData.address,
@@ -812,38 +937,7 @@ export default function CheckoutPage() {
             ? selectedShippingMethod.serviceName
             : null,
           shippingService: selectedShippingMethod?.serviceName || null,
-          vendorShippingRates: shippingRates
-            .map((vendorRates) => {
-              // Find the selected rate for this vendor matching the service name
-              let selectedRate = vendorRates.rates.find(
-                (r) =>
-                  r.id === selectedShippingMethod?.rateId &&
-                  r.serviceName === selectedShippingMethod?.serviceName
-              );
-              if (!selectedRate && selectedShippingMethod) {
-                // If exact rate not found, use matching service name
-                selectedRate = vendorRates.rates.find(
-                  (r) => r.serviceName === selectedShippingMethod.serviceName
-                );
-              }
-              if (!selectedRate && vendorRates.rates.length > 0) {
-                // Fallback to cheapest
-                selectedRate = vendorRates.rates.reduce((prev, curr) =>
-                  curr.priceCents < prev.priceCents ? curr : prev
-                );
-              }
-              if (!selectedRate) {
-                return null;
-              }
-              return {
-                storeId: vendorRates.storeId,
-                rateId: selectedRate.id,
-                serviceName: selectedRate.serviceName,
-                priceCents: selectedRate.priceCents,
-                currency: selectedRate.currency,
-              };
-            })
-            .filter((r): r is NonNullable<typeof r> => r !== null),
+          vendorShippingRates,
         }),
       });
 
@@ -870,7 +964,7 @@ export default function CheckoutPage() {
           headers: { "Content-Type": "application/json" },
           body: JSON.stringify({
             orderIds: orderIdsList,
-            totalAmount: finalTotal.toFixed(2),
+            totalAmount: quote.total.toFixed(2),
             currency: "NPR",
             productName: `Order ${orderIdsList[0]}`,
           }),
@@ -907,6 +1001,7 @@ export default function CheckoutPage() {
             quantity: item.quantity,
           })),
           customerEmail: billingData.email,
+          locale,
         }),
       });
 
@@ -956,6 +1051,8 @@ export default function CheckoutPage() {
       <div className="container mx-auto px-4 py-16">
         <h1 className="text-4xl font-bold mb-8 text-foreground">Checkout</h1>
 
+        <CartNotices />
+
         <form onSubmit={handleSubmit}>
           <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
             {/* Billing Details */}
@@ -1849,15 +1946,42 @@ export default function CheckoutPage() {
                       )}
                   </div>
 
+                  {quote && quote.tax > 0 && (
+                    <div className="flex justify-between text-sm">
+                      <span className="text-muted-foreground">
+                        {quote.taxInclusive ? "Tax (included)" : "Tax"}
+                      </span>
+                      <span className="font-medium text-foreground">
+                        {quote.currency === "EUR" ? "€" : `${quote.currency} `}
+                        {quote.tax.toFixed(2)}
+                      </span>
+                    </div>
+                  )}
+
                   <Separator />
 
                   <div className="flex justify-between text-lg">
                     <span className="font-bold text-foreground">Total</span>
                     <span className="font-bold text-foreground">
                       €
-                      {(total + shippingCost - (appliedDiscount?.totalAmount || 0)).toFixed(2)}
+                      {quote && quote.currency === "EUR"
+                        ? quote.total.toFixed(2)
+                        : (total + shippingCost - (appliedDiscount?.totalAmount || 0)).toFixed(2)}
                     </span>
                   </div>
+                  {quote && quote.currency !== "EUR" && (
+                    <div className="flex justify-between text-sm">
+                      <span className="text-muted-foreground">
+                        Charged in {quote.currency}
+                      </span>
+                      <span className="font-medium text-foreground">
+                        {quote.currency} {quote.total.toFixed(2)}
+                      </span>
+                    </div>
+                  )}
+                  {quoteError && (
+                    <p className="text-xs text-destructive">{quoteError}</p>
+                  )}
                 </div>
 
                 <Separator className="my-6" />
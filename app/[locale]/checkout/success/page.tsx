@@ -31,12 +31,28 @@ interface OrderData {
   items: OrderItem[];
 }
 
+interface CheckoutGroupData {
+  checkoutNumber: string;
+  currency: string;
+  totalAmount: string;
+  orders: Array<{
+    id: string;
+    orderNumber: string;
+    storeName: string | null;
+    shippingAmount: string;
+    totalAmount: string;
+  }>;
+}
+
 export default function CheckoutSuccessPage() {
   const searchParams = useSearchParams();
   const { clearCart } = useCart();
   const sessionId = searchParams.get("session_id");
   const orderIdsParam = searchParams.get("orderIds");
   const [orderData, setOrderData] = useState<OrderData | null>(null);
+  const [checkoutGroup, setCheckoutGroup] = useState<CheckoutGroupData | null>(
+    null
+  );
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -62,6 +78,7 @@ export default function CheckoutSuccessPage() {
       const data = await response.json();
       if (data.success && data.order) {
         setOrderData(data.order);
+        setCheckoutGroup(data.checkoutGroup || null);
       } else {
         setError(data.error || "Failed to fetch order details");
       }
@@ -81,6 +98,7 @@ export default function CheckoutSuccessPage() {
       const data = await response.json();
       if (data.success && data.order) {
         setOrderData(data.order);
+        setCheckoutGroup(data.checkoutGroup || null);
       } else {
         setError(data.error || "Failed to fetch order details");
       }
@@ -128,6 +146,9 @@ export default function CheckoutSuccessPage() {
   }
 
   const isPaid = orderData?.paymentStatus === "paid";
+  const isMultiStore = !!checkoutGroup && checkoutGroup.orders.length > 1;
+  const formatAmount = (amount: string) =>
+    `${parseFloat(amount).toFixed(2)} ${checkoutGroup?.currency ?? ""}`;
   const reviewableItems =
     orderData?.items.filter(
       (item) => item.listingId && item.listingSlug && isPaid
@@ -150,13 +171,55 @@ export default function CheckoutSuccessPage() {
                   Thank you for your purchase! Your order has been confirmed and
                   will be processed shortly.
                 </p>
-                {orderData?.orderNumber && (
+                {isMultiStore ? (
                   <p className="text-lg font-semibold">
-                    Order Number: {orderData.orderNumber}
+                    Checkout Number: {checkoutGroup.checkoutNumber}
                   </p>
+                ) : (
+                  orderData?.orderNumber && (
+                    <p className="text-lg font-semibold">
+                      Order Number: {orderData.orderNumber}
+                    </p>
+                  )
                 )}
               </div>
 
+              {/* Per-store orders of a multi-store checkout */}
+              {isMultiStore && (
+                <div className="space-y-3 pt-6 border-t">
+                  <h3 className="font-semibold text-lg">Your Orders</h3>
+                  <p className="text-sm text-muted-foreground">
+                    You paid once, and each store ships its part of your
+                    purchase separately under its own order number.
+                  </p>
+                  <div className="divide-y rounded-md border">
+                    {checkoutGroup.orders.map((order) => (
+                      <div
+                        key={order.id}
+                        className="flex items-center justify-between p-3 text-sm"
+                      >
+                        <div>
+                          <div className="font-medium">
+                            {order.storeName || "Store"}
+                          </div>
+                          <div className="text-muted-foreground">
+                            Order #{order.orderNumber} · Shipping{" "}
+                            {formatAmount(order.shippingAmount)}
+                          </div>
+                        </div>
+                        <div className="font-medium">
+                          {formatAmount(order.totalAmount)}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                  <div className="flex justify-between font-semibold">
+                    <span>Total</span>
+                    <span>{formatAmount(checkoutGroup.totalAmount)}</span>
+                  </div>
+                </div>
+              )}
+
               {/* Review Section for Paid Orders */}
               {isPaid && reviewableItems.length > 0 && (
                 <div className="space-y-4 pt-6 border-t">
@@ -0,0 +1,112 @@
+interface AbandonedCheckoutEmailProps {
+  // Localized copy (locales/*/common.json "abandonedCheckoutEmail")
+  copy: {
+    heading: string;
+    intro: string;
+    itemsTitle: string;
+    discountOffer?: string;
+    button: string;
+    linkNote: string;
+    footer: string;
+  };
+  items: Array<{
+    title: string;
+    quantity: number;
+    unitPrice: string;
+    currency: string;
+  }>;
+  discountCode?: string | null;
+  resumeUrl: string;
+}
+
+export default function AbandonedCheckoutEmail({
+  copy,
+  items,
+  discountCode,
+  resumeUrl,
+}: AbandonedCheckoutEmailProps) {
+  return (
+    <div
+      style={{
+        fontFamily: "Arial, sans-serif",
+        maxWidth: "600px",
+        margin: "0 auto",
+        padding: "20px",
+        backgroundColor: "#ffffff",
+      }}
+    >
+      <h1 style={{ color: "#333", margin: "0 0 10px 0" }}>{copy.heading}</h1>
+      <p style={{ color: "#666", lineHeight: "1.6" }}>{copy.intro}</p>
+
+      <h2 style={{ color: "#333", fontSize: "18px" }}>{copy.itemsTitle}</h2>
+      <table
+        style={{ width: "100%", borderCollapse: "collapse", margin: "10px 0" }}
+      >
+        <tbody>
+          {items.map((item, index) => (
+            <tr key={index}>
+              <td style={{ padding: "8px 0", borderBottom: "1px solid #eee" }}>
+                {item.title} × {item.quantity}
+              </td>
+              <td
+                style={{
+                  padding: "8px 0",
+                  borderBottom: "1px solid #eee",
+                  textAlign: "right",
+                }}
+              >
+                {(parseFloat(item.unitPrice) * item.quantity).toFixed(2)}{" "}
+                {item.currency}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {discountCode && copy.discountOffer && (
+        <div
+          style={{
+            background: "#fff8e1",
+            padding: "15px",
+            margin: "20px 0",
+            borderRadius: "5px",
+            border: "1px solid #ffe082",
+          }}
+        >
+          <p style={{ margin: "0 0 8px 0", color: "#333" }}>
+            {copy.discountOffer}
+          </p>
+          <p
+            style={{
+              margin: 0,
+              fontSize: "20px",
+              fontWeight: "bold",
+              letterSpacing: "2px",
+            }}
+          >
+            {discountCode}
+          </p>
+        </div>
+      )}
+
+      <div style={{ textAlign: "center", margin: "30px 0" }}>
+        <a
+          href={resumeUrl}
+          style={{
+            backgroundColor: "#f59e0b",
+            color: "#ffffff",
+            padding: "12px 24px",
+            borderRadius: "5px",
+            textDecoration: "none",
+            fontWeight: "bold",
+            display: "inline-block",
+          }}
+        >
+          {copy.button}
+        </a>
+      </div>
+      <p style={{ color: "#999", fontSize: "12px" }}>{copy.linkNote}</p>
+      <p style={{ color: "#999", fontSize: "12px" }}>{copy.footer}</p>
+    </div>
+  );
+}
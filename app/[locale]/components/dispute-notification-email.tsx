@@ -0,0 +1,87 @@
+interface DisputeNotificationEmailProps {
+  orderNumber: string;
+  amount: string;
+  currency: string;
+  reason: string | null;
+  evidenceDueBy: Date | null;
+  orderUrl: string;
+}
+
+export default function DisputeNotificationEmail({
+  orderNumber,
+  amount,
+  currency,
+  reason,
+  evidenceDueBy,
+  orderUrl,
+}: DisputeNotificationEmailProps) {
+  return (
+    <div
+      style={{
+        fontFamily: "Arial, sans-serif",
+        maxWidth: "600px",
+        margin: "0 auto",
+      }}
+    >
+      <h1 style={{ color: "#333" }}>Payment Disputed - Order #{orderNumber}</h1>
+
+      <p>
+        The customer&apos;s bank has opened a dispute (chargeback) for this
+        order. The disputed amount has been deducted from your balance and the
+        payout for this order is frozen until the dispute is resolved. The order
+        has been placed on hold.
+      </p>
+
+      <div
+        style={{
+          background: "#fdecea",
+          padding: "20px",
+          margin: "20px 0",
+          borderRadius: "5px",
+        }}
+      >
+        <p style={{ margin: "0 0 10px 0", fontSize: "16px" }}>
+          <strong>Disputed Amount:</strong> {parseFloat(amount).toFixed(2)}{" "}
+          {currency}
+        </p>
+        {reason && (
+          <p style={{ margin: "0 0 10px 0", fontSize: "14px" }}>
+            <strong>Reason:</strong> {reason.replace(/_/g, " ")}
+          </p>
+        )}
+        {evidenceDueBy && (
+          <p style={{ margin: 0, fontSize: "14px" }}>
+            <strong>Evidence Due By:</strong> {evidenceDueBy.toUTCString()}
+          </p>
+        )}
+      </div>
+
+      <p>
+        You can respond by uploading evidence (receipts, shipping proof,
+        customer communication) from the order page. If the dispute is won, the
+        amount is returned to your balance.
+      </p>
+
+      <div style={{ textAlign: "center", margin: "30px 0" }}>
+        <a
+          href={orderUrl}
+          style={{
+            backgroundColor: "#f59e0b",
+            color: "#ffffff",
+            padding: "12px 24px",
+            borderRadius: "5px",
+            textDecoration: "none",
+            fontWeight: "bold",
+            display: "inline-block",
+          }}
+        >
+          Respond to Dispute
+        </a>
+      </div>
+
+      <p style={{ color: "#999", fontSize: "12px" }}>
+        This is an automated notification from Golden Market.
+      </p>
+    </div>
+  );
+}
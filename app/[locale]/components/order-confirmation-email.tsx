@@ -15,6 +15,14 @@ interface OrderConfirmationEmailProps {
     storeSlug?: string | null;
     orderId?: string | null; // Order ID for this specific item (for multi-store orders)
   }>;
+  // Per-store orders when the checkout was split across several stores
+  storeOrders?: Array<{
+    orderNumber: string;
+    storeName?: string | null;
+    subtotal: string;
+    shipping: string;
+    total: string;
+  }>;
   subtotal: string;
   discount: string;
   shipping: string;
@@ -41,6 +49,7 @@ export default function OrderConfirmationEmail({
   customerName,
   customerEmail,
   items,
+  storeOrders,
   subtotal,
   discount,
   shipping,
@@ -281,6 +290,103 @@ export default function OrderConfirmationEmail({
         </table>
       </div>
 
+      {/* Store Orders */}
+      {storeOrders && storeOrders.length > 1 && (
+        <div style={{ marginBottom: "30px" }}>
+          <h2 style={{ color: "#333", fontSize: "18px", marginBottom: "15px" }}>
+            Orders in This Checkout
+          </h2>
+          <p style={{ color: "#666", fontSize: "14px", lineHeight: "1.6" }}>
+            Your purchase was paid once and is shipped separately by each store.
+            Each store order has its own order number for tracking.
+          </p>
+          <table
+            style={{
+              width: "100%",
+              borderCollapse: "collapse",
+              margin: "10px 0",
+            }}
+          >
+            <thead>
+              <tr style={{ background: "#f5f5f5" }}>
+                {["Store", "Order", "Subtotal", "Shipping", "Total"].map(
+                  (heading) => (
+                    <th
+                      key={heading}
+                      style={{
+                        padding: "10px",
+                        textAlign: heading === "Store" ? "left" : "right",
+                        border: "1px solid #ddd",
+                        fontSize: "13px",
+                        fontWeight: "bold",
+                      }}
+                    >
+                      {heading}
+                    </th>
+                  )
+                )}
+              </tr>
+            </thead>
+            <tbody>
+              {storeOrders.map((storeOrder) => (
+                <tr key={storeOrder.orderNumber}>
+                  <td
+                    style={{
+                      padding: "10px",
+                      border: "1px solid #ddd",
+                      fontSize: "13px",
+                    }}
+                  >
+                    {storeOrder.storeName || "Store"}
+                  </td>
+                  <td
+                    style={{
+                      padding: "10px",
+                      textAlign: "right",
+                      border: "1px solid #ddd",
+                      fontSize: "13px",
+                    }}
+                  >
+                    #{storeOrder.orderNumber}
+                  </td>
+                  <td
+                    style={{
+                      padding: "10px",
+                      textAlign: "right",
+                      border: "1px solid #ddd",
+                      fontSize: "13px",
+                    }}
+                  >
+                    {formatCurrency(storeOrder.subtotal)}
+                  </td>
+                  <td
+                    style={{
+                      padding: "10px",
+                      textAlign: "right",
+                      border: "1px solid #ddd",
+                      fontSize: "13px",
+                    }}
+                  >
+                    {formatCurrency(storeOrder.shipping)}
+                  </td>
+                  <td
+                    style={{
+                      padding: "10px",
+                      textAlign: "right",
+                      border: "1px solid #ddd",
+                      fontSize: "13px",
+                      fontWeight: "bold",
+                    }}
+                  >
+                    {formatCurrency(storeOrder.total)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
       {/* Order Summary */}
       <div
         style={{
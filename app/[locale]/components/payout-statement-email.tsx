@@ -0,0 +1,123 @@
+interface PayoutStatementEmailProps {
+  storeName: string;
+  amount: string;
+  currency: string;
+  status: "completed" | "queued" | "failed";
+  periodStart: Date | null;
+  periodEnd: Date;
+  lines: Array<{ label: string; amount: string; count: number }>;
+  failureReason?: string | null;
+  payoutsUrl: string;
+}
+
+const STATUS_TEXT: Record<PayoutStatementEmailProps["status"], string> = {
+  completed:
+    "Your scheduled payout has been sent. It usually reaches your bank within a few business days.",
+  queued:
+    "Your scheduled payout has been queued. Our team sends NPR payouts to your eSewa or bank account within the next business days.",
+  failed:
+    "We could not complete your scheduled payout after several attempts. The amount remains in your balance and will be included in your next payout.",
+};
+
+export default function PayoutStatementEmail({
+  storeName,
+  amount,
+  currency,
+  status,
+  periodStart,
+  periodEnd,
+  lines,
+  failureReason,
+  payoutsUrl,
+}: PayoutStatementEmailProps) {
+  return (
+    <div
+      style={{
+        fontFamily: "Arial, sans-serif",
+        maxWidth: "600px",
+        margin: "0 auto",
+      }}
+    >
+      <h1 style={{ color: "#333" }}>Payout Statement - {storeName}</h1>
+
+      <p>{STATUS_TEXT[status]}</p>
+
+      <div
+        style={{
+          background: status === "failed" ? "#fdecea" : "#f5f5f5",
+          padding: "20px",
+          margin: "20px 0",
+          borderRadius: "5px",
+        }}
+      >
+        <p style={{ margin: "0 0 10px 0", fontSize: "16px" }}>
+          <strong>Payout Amount:</strong> {parseFloat(amount).toFixed(2)}{" "}
+          {currency}
+        </p>
+        <p style={{ margin: 0, fontSize: "14px" }}>
+          <strong>Period:</strong>{" "}
+          {periodStart ? periodStart.toDateString() : "Start of account"} -{" "}
+          {periodEnd.toDateString()}
+        </p>
+        {failureReason && (
+          <p style={{ margin: "10px 0 0 0", fontSize: "14px" }}>
+            <strong>Reason:</strong> {failureReason}
+          </p>
+        )}
+      </div>
+
+      {lines.length > 0 && (
+        <table
+          style={{
+            width: "100%",
+            borderCollapse: "collapse",
+            margin: "20px 0",
+            fontSize: "14px",
+          }}
+        >
+          <thead>
+            <tr>
+              <th style={{ textAlign: "left", padding: "8px 0" }}>Activity</th>
+              <th style={{ textAlign: "right", padding: "8px 0" }}>Entries</th>
+              <th style={{ textAlign: "right", padding: "8px 0" }}>Amount</th>
+            </tr>
+          </thead>
+          <tbody>
+            {lines.map((line) => (
+              <tr key={line.label} style={{ borderTop: "1px solid #eee" }}>
+                <td style={{ padding: "8px 0" }}>{line.label}</td>
+                <td style={{ textAlign: "right", padding: "8px 0" }}>
+                  {line.count}
+                </td>
+                <td style={{ textAlign: "right", padding: "8px 0" }}>
+                  {line.amount} {currency}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      <div style={{ textAlign: "center", margin: "30px 0" }}>
+        <a
+          href={payoutsUrl}
+          style={{
+            backgroundColor: "#f59e0b",
+            color: "#ffffff",
+            padding: "12px 24px",
+            borderRadius: "5px",
+            textDecoration: "none",
+            fontWeight: "bold",
+            display: "inline-block",
+          }}
+        >
+          View Payouts
+        </a>
+      </div>
+
+      <p style={{ color: "#999", fontSize: "12px" }}>
+        This is an automated notification from Golden Market.
+      </p>
+    </div>
+  );
+}
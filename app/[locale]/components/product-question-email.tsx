@@ -0,0 +1,62 @@
+interface ProductQuestionEmailProps {
+  productName: string;
+  question: string;
+  answerUrl: string;
+}
+
+export default function ProductQuestionEmail({
+  productName,
+  question,
+  answerUrl,
+}: ProductQuestionEmailProps) {
+  return (
+    <div
+      style={{
+        fontFamily: "Arial, sans-serif",
+        maxWidth: "600px",
+        margin: "0 auto",
+      }}
+    >
+      <h1 style={{ color: "#333" }}>New question about {productName}</h1>
+
+      <p>
+        A shopper asked a question on your product page. Your answer is shown
+        publicly, so every shopper with the same question can read it.
+      </p>
+
+      <div
+        style={{
+          background: "#f9f9f9",
+          padding: "20px",
+          margin: "20px 0",
+          borderRadius: "5px",
+        }}
+      >
+        <p style={{ margin: 0, fontSize: "16px", whiteSpace: "pre-wrap" }}>
+          {question}
+        </p>
+      </div>
+
+      <div style={{ textAlign: "center", margin: "30px 0" }}>
+        <a
+          href={answerUrl}
+          style={{
+            backgroundColor: "#f59e0b",
+            color: "#ffffff",
+            padding: "12px 24px",
+            borderRadius: "5px",
+            textDecoration: "none",
+            fontWeight: "bold",
+            display: "inline-block",
+          }}
+        >
+          Answer Question
+        </a>
+      </div>
+
+      <p style={{ color: "#999", fontSize: "12px" }}>
+        This is an automated notification from Golden Market.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,211 @@
+import { Document, Page, StyleSheet, Text, View } from "@react-pdf/renderer";
+
+interface PurchaseOrderPdfLine {
+  description: string;
+  sku: string | null;
+  quantityOrdered: number;
+  quantityReceived: number;
+  unitCost: number;
+}
+
+interface PurchaseOrderPdfProps {
+  poNumber: string;
+  status: string;
+  storeName: string;
+  supplierName: string;
+  supplierContact: string;
+  supplierAddress: string | null;
+  locationName: string;
+  locationAddress: string;
+  currency: string;
+  orderedAt: Date | null;
+  expectedAt: Date | null;
+  notes: string | null;
+  items: PurchaseOrderPdfLine[];
+  generatedAt: Date;
+}
+
+const styles = StyleSheet.create({
+  page: {
+    padding: 48,
+    fontSize: 10,
+    fontFamily: "Helvetica",
+    color: "#111827",
+  },
+  header: {
+    marginBottom: 24,
+  },
+  title: {
+    fontSize: 20,
+    fontFamily: "Helvetica-Bold",
+    marginBottom: 6,
+  },
+  muted: {
+    color: "#6b7280",
+  },
+  parties: {
+    flexDirection: "row",
+    marginBottom: 18,
+  },
+  party: {
+    flex: 1,
+    paddingRight: 12,
+  },
+  section: {
+    marginBottom: 18,
+  },
+  sectionTitle: {
+    fontSize: 12,
+    fontFamily: "Helvetica-Bold",
+    marginBottom: 8,
+  },
+  row: {
+    flexDirection: "row",
+    paddingVertical: 5,
+    borderBottomWidth: 1,
+    borderBottomColor: "#e5e7eb",
+  },
+  headRow: {
+    flexDirection: "row",
+    paddingVertical: 5,
+    borderBottomWidth: 1,
+    borderBottomColor: "#9ca3af",
+    fontFamily: "Helvetica-Bold",
+  },
+  colItem: {
+    flex: 3,
+  },
+  colNumber: {
+    flex: 1,
+    textAlign: "right",
+  },
+  totalRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    paddingVertical: 6,
+    fontFamily: "Helvetica-Bold",
+  },
+  note: {
+    color: "#374151",
+  },
+  footer: {
+    position: "absolute",
+    bottom: 32,
+    left: 48,
+    right: 48,
+    fontSize: 8,
+    color: "#9ca3af",
+  },
+});
+
+function formatDate(date: Date) {
+  return date.toLocaleDateString("en-GB", {
+    day: "numeric",
+    month: "short",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+export default function PurchaseOrderPdf({
+  poNumber,
+  status,
+  storeName,
+  supplierName,
+  supplierContact,
+  supplierAddress,
+  locationName,
+  locationAddress,
+  currency,
+  orderedAt,
+  expectedAt,
+  notes,
+  items,
+  generatedAt,
+}: PurchaseOrderPdfProps) {
+  const formatAmount = (amount: number) => `${amount.toFixed(2)} ${currency}`;
+  const total = items.reduce(
+    (sum, item) => sum + item.quantityOrdered * item.unitCost,
+    0
+  );
+  const showReceived = items.some((item) => item.quantityReceived > 0);
+
+  return (
+    <Document title={`Purchase Order ${poNumber} - ${storeName}`}>
+      <Page size="A4" style={styles.page}>
+        <View style={styles.header}>
+          <Text style={styles.title}>Purchase Order {poNumber}</Text>
+          <Text>{storeName}</Text>
+          <Text style={styles.muted}>
+            {orderedAt ? `Ordered ${formatDate(orderedAt)}` : "Draft"}
+            {expectedAt && ` | Expected ${formatDate(expectedAt)}`}
+            {" | "}
+            {status}
+          </Text>
+        </View>
+
+        <View style={styles.parties}>
+          <View style={styles.party}>
+            <Text style={styles.sectionTitle}>Supplier</Text>
+            <Text>{supplierName}</Text>
+            {supplierContact && (
+              <Text style={styles.muted}>{supplierContact}</Text>
+            )}
+            {supplierAddress && (
+              <Text style={styles.muted}>{supplierAddress}</Text>
+            )}
+          </View>
+          <View style={styles.party}>
+            <Text style={styles.sectionTitle}>Deliver to</Text>
+            <Text>{locationName}</Text>
+            {locationAddress && (
+              <Text style={styles.muted}>{locationAddress}</Text>
+            )}
+          </View>
+        </View>
+
+        <View style={styles.section}>
+          <View style={styles.headRow}>
+            <Text style={styles.colItem}>Item</Text>
+            <Text style={styles.colNumber}>Qty</Text>
+            {showReceived && <Text style={styles.colNumber}>Received</Text>}
+            <Text style={styles.colNumber}>Unit cost</Text>
+            <Text style={styles.colNumber}>Total</Text>
+          </View>
+          {items.map((item, index) => (
+            <View key={index} style={styles.row}>
+              <View style={styles.colItem}>
+                <Text>{item.description}</Text>
+                {item.sku && <Text style={styles.muted}>SKU {item.sku}</Text>}
+              </View>
+              <Text style={styles.colNumber}>{item.quantityOrdered}</Text>
+              {showReceived && (
+                <Text style={styles.colNumber}>{item.quantityReceived}</Text>
+              )}
+              <Text style={styles.colNumber}>{item.unitCost.toFixed(2)}</Text>
+              <Text style={styles.colNumber}>
+                {(item.quantityOrdered * item.unitCost).toFixed(2)}
+              </Text>
+            </View>
+          ))}
+          <View style={styles.totalRow}>
+            <Text>Order total</Text>
+            <Text>{formatAmount(total)}</Text>
+          </View>
+        </View>
+
+        {notes && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Notes</Text>
+            <Text style={styles.note}>{notes}</Text>
+          </View>
+        )}
+
+        <Text style={styles.footer} fixed>
+          Generated by Golden Market on {formatDate(generatedAt)}. Please quote
+          {` ${poNumber}`} on delivery notes and invoices.
+        </Text>
+      </Page>
+    </Document>
+  );
+}
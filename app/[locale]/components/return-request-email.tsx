@@ -0,0 +1,114 @@
+interface ReturnRequestEmailProps {
+  heading: string;
+  message: string;
+  rmaNumber: string;
+  orderNumber: string;
+  items: Array<{
+    title: string;
+    quantity: number;
+  }>;
+  note?: string | null;
+  actionUrl?: string | null;
+  actionLabel?: string;
+}
+
+export default function ReturnRequestEmail({
+  heading,
+  message,
+  rmaNumber,
+  orderNumber,
+  items,
+  note,
+  actionUrl,
+  actionLabel,
+}: ReturnRequestEmailProps) {
+  return (
+    <div
+      style={{
+        fontFamily: "Arial, sans-serif",
+        maxWidth: "600px",
+        margin: "0 auto",
+      }}
+    >
+      <h1 style={{ color: "#333" }}>{heading}</h1>
+
+      <p>{message}</p>
+
+      <div
+        style={{
+          background: "#f9f9f9",
+          padding: "20px",
+          margin: "20px 0",
+          borderRadius: "5px",
+        }}
+      >
+        <p style={{ margin: "0 0 10px 0", fontSize: "16px" }}>
+          <strong>Return Number:</strong> {rmaNumber}
+        </p>
+        <p style={{ margin: 0, fontSize: "14px" }}>
+          <strong>Order Number:</strong> #{orderNumber}
+        </p>
+      </div>
+
+      {items.length > 0 && (
+        <table
+          style={{
+            width: "100%",
+            borderCollapse: "collapse",
+            margin: "10px 0",
+          }}
+        >
+          <tbody>
+            {items.map((item, idx) => (
+              <tr key={idx}>
+                <td
+                  style={{ padding: "8px 0", borderBottom: "1px solid #eee" }}
+                >
+                  {item.title}
+                </td>
+                <td
+                  style={{
+                    padding: "8px 0",
+                    borderBottom: "1px solid #eee",
+                    textAlign: "right",
+                  }}
+                >
+                  × {item.quantity}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {note && (
+        <p style={{ color: "#666", lineHeight: "1.6" }}>
+          <strong>Note:</strong> {note}
+        </p>
+      )}
+
+      {actionUrl && actionLabel && (
+        <div style={{ textAlign: "center", margin: "30px 0" }}>
+          <a
+            href={actionUrl}
+            style={{
+              backgroundColor: "#f59e0b",
+              color: "#ffffff",
+              padding: "12px 24px",
+              borderRadius: "5px",
+              textDecoration: "none",
+              fontWeight: "bold",
+              display: "inline-block",
+            }}
+          >
+            {actionLabel}
+          </a>
+        </div>
+      )}
+
+      <p style={{ color: "#999", fontSize: "12px" }}>
+        This is an automated notification from Golden Market.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,112 @@
+interface ReviewRequestEmailProps {
+  // Localized copy (locales/*/common.json "reviewRequestEmail")
+  copy: {
+    heading: string;
+    intro: string;
+    itemsTitle: string;
+    reviewButton: string;
+    storeTitle: string;
+    storeButton: string;
+    linkNote: string;
+    footer: string;
+  };
+  items: Array<{
+    title: string;
+    reviewUrl: string;
+  }>;
+  storeReviewUrl: string | null; // null once the store was reviewed
+}
+
+export default function ReviewRequestEmail({
+  copy,
+  items,
+  storeReviewUrl,
+}: ReviewRequestEmailProps) {
+  const buttonStyle = {
+    backgroundColor: "#f59e0b",
+    color: "#ffffff",
+    padding: "8px 16px",
+    borderRadius: "5px",
+    textDecoration: "none",
+    fontWeight: "bold",
+    fontSize: "14px",
+    display: "inline-block",
+  };
+
+  return (
+    <div
+      style={{
+        fontFamily: "Arial, sans-serif",
+        maxWidth: "600px",
+        margin: "0 auto",
+        padding: "20px",
+        backgroundColor: "#ffffff",
+      }}
+    >
+      <h1 style={{ color: "#333", margin: "0 0 10px 0" }}>{copy.heading}</h1>
+      <p style={{ color: "#666", lineHeight: "1.6" }}>{copy.intro}</p>
+
+      {items.length > 0 && (
+        <>
+          <h2 style={{ color: "#333", fontSize: "18px" }}>{copy.itemsTitle}</h2>
+          <table
+            style={{
+              width: "100%",
+              borderCollapse: "collapse",
+              margin: "10px 0",
+            }}
+          >
+            <tbody>
+              {items.map((item, index) => (
+                <tr key={index}>
+                  <td
+                    style={{
+                      padding: "10px 0",
+                      borderBottom: "1px solid #eee",
+                      color: "#333",
+                    }}
+                  >
+                    {item.title}
+                  </td>
+                  <td
+                    style={{
+                      padding: "10px 0",
+                      borderBottom: "1px solid #eee",
+                      textAlign: "right",
+                    }}
+                  >
+                    <a href={item.reviewUrl} style={buttonStyle}>
+                      {copy.reviewButton}
+                    </a>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+
+      {storeReviewUrl && (
+        <div
+          style={{
+            background: "#f9f9f9",
+            padding: "20px",
+            margin: "20px 0",
+            borderRadius: "5px",
+            textAlign: "center",
+          }}
+        >
+          <p style={{ margin: "0 0 12px 0", color: "#333" }}>
+            <strong>{copy.storeTitle}</strong>
+          </p>
+          <a href={storeReviewUrl} style={buttonStyle}>
+            {copy.storeButton}
+          </a>
+        </div>
+      )}
+
+      <p style={{ color: "#999", fontSize: "12px" }}>{copy.linkNote}</p>
+      <p style={{ color: "#999", fontSize: "12px" }}>{copy.footer}</p>
+    </div>
+  );
+}
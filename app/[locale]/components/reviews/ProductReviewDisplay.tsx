@@ -9,6 +9,9 @@ import toast from "react-hot-toast";
 import { useRouter } from "@/i18n/navigation";
 import { formatDistanceToNow } from "date-fns";
 import { useState } from "react";
+import { ReviewActions } from "./ReviewActions";
+import { ReviewPhotos } from "./ReviewPhotos";
+import { SellerReply } from "./SellerReply";
 
 interface ProductReview {
   id: string;
@@ -20,6 +23,11 @@ interface ProductReview {
   reviewerName: string;
   reviewerEmail: string | null;
   isGuest: boolean;
+  images?: string[];
+  helpfulCount?: number;
+  votedHelpful?: boolean;
+  sellerReply?: string | null;
+  sellerReplyAt?: Date | null;
 }
 
 interface ProductReviewDisplayProps {
@@ -87,11 +95,24 @@ export function ProductReviewDisplay({ reviews }: ProductReviewDisplayProps) {
                 <h4 className="font-semibold mb-1">{review.title}</h4>
               )}
               <p className="text-muted-foreground mb-2">{review.comment}</p>
+              <ReviewPhotos images={review.images ?? []} />
               <p className="text-xs text-muted-foreground">
                 {formatDistanceToNow(new Date(review.createdAt), {
                   addSuffix: true,
                 })}
               </p>
+              {review.sellerReply && (
+                <SellerReply
+                  reply={review.sellerReply}
+                  repliedAt={review.sellerReplyAt ?? null}
+                />
+              )}
+              <ReviewActions
+                type="product"
+                reviewId={review.id}
+                helpfulCount={review.helpfulCount ?? 0}
+                votedHelpful={review.votedHelpful ?? false}
+              />
             </div>
             {/* Delete button - visibility controlled by server action */}
             <Button
@@ -6,6 +6,7 @@ import { Textarea } from "@/components/ui/textarea";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { StarRating } from "./StarRating";
+import { ReviewPhotoPicker } from "./ReviewPhotoPicker";
 import {
   submitProductReview,
   type ProductReviewInput,
@@ -23,6 +24,7 @@ interface ProductReviewFormProps {
   isAuthenticated: boolean;
   userName?: string;
   userEmail?: string;
+  guest?: { name: string; email: string }; // Buyer from a review request link
   onSuccess?: () => void;
 }
 
@@ -34,14 +36,16 @@ export function ProductReviewForm({
   storeName,
   isAuthenticated,
   userName,
+  guest,
   onSuccess,
 }: ProductReviewFormProps) {
   const router = useRouter();
   const [rating, setRating] = useState(0);
   const [title, setTitle] = useState("");
   const [comment, setComment] = useState("");
-  const [guestName, setGuestName] = useState("");
-  const [guestEmail, setGuestEmail] = useState("");
+  const [guestName, setGuestName] = useState(guest?.name ?? "");
+  const [guestEmail, setGuestEmail] = useState(guest?.email ?? "");
+  const [photos, setPhotos] = useState<File[]>([]);
   const [submitting, setSubmitting] = useState(false);
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -73,6 +77,7 @@ export function ProductReviewForm({
         rating,
         title: title.trim() || undefined,
         comment: comment.trim(),
+        images: photos.length > 0 ? photos : undefined,
         ...(!isAuthenticated && {
           guestName: guestName.trim(),
           guestEmail: guestEmail.trim(),
@@ -158,6 +163,13 @@ export function ProductReviewForm({
         </p>
       </div>
 
+      {/* Photos */}
+      <ReviewPhotoPicker
+        photos={photos}
+        onChange={setPhotos}
+        disabled={submitting}
+      />
+
       {/* Guest Fields */}
       {!isAuthenticated && (
         <div className="space-y-4 p-4 bg-muted rounded-lg">
@@ -183,6 +195,7 @@ export function ProductReviewForm({
               value={guestEmail}
               onChange={(e) => setGuestEmail(e.target.value)}
               placeholder="john@example.com"
+              readOnly={!!guest?.email}
               required
               className="mt-2"
             />
@@ -0,0 +1,164 @@
+"use client";
+
+import { useState } from "react";
+import { Flag, ThumbsUp } from "lucide-react";
+import toast from "react-hot-toast";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  reportReview,
+  toggleReviewHelpful,
+  type ReviewReportReason,
+  type ReviewType,
+} from "@/app/[locale]/actions/reviews";
+
+const REPORT_REASONS: Array<{ value: ReviewReportReason; label: string }> = [
+  { value: "spam", label: "Spam or advertising" },
+  { value: "offensive", label: "Offensive or abusive" },
+  { value: "fake", label: "Fake or not a real purchase" },
+  { value: "off_topic", label: "Not about the product or store" },
+  { value: "other", label: "Something else" },
+];
+
+interface ReviewActionsProps {
+  type: ReviewType;
+  reviewId: string;
+  helpfulCount: number;
+  votedHelpful: boolean;
+}
+
+/**
+ * "Helpful" vote and abuse report buttons shown under a review
+ */
+export function ReviewActions({
+  type,
+  reviewId,
+  helpfulCount: initialCount,
+  votedHelpful: initialVoted,
+}: ReviewActionsProps) {
+  const [helpfulCount, setHelpfulCount] = useState(initialCount);
+  const [voted, setVoted] = useState(initialVoted);
+  const [voting, setVoting] = useState(false);
+  const [reportOpen, setReportOpen] = useState(false);
+  const [reason, setReason] = useState<ReviewReportReason>("spam");
+  const [details, setDetails] = useState("");
+  const [reporting, setReporting] = useState(false);
+
+  const handleHelpful = async () => {
+    setVoting(true);
+    try {
+      const result = await toggleReviewHelpful(type, reviewId);
+      if (result.success) {
+        setVoted(result.helpful ?? false);
+        setHelpfulCount(result.helpfulCount ?? 0);
+      } else {
+        toast.error(result.error || "Failed to save vote");
+      }
+    } catch (error) {
+      console.error("Error voting on review:", error);
+      toast.error("An error occurred");
+    } finally {
+      setVoting(false);
+    }
+  };
+
+  const handleReport = async () => {
+    setReporting(true);
+    try {
+      const result = await reportReview(type, reviewId, reason, details);
+      if (result.success) {
+        toast.success("Thanks, our team will take a look");
+        setReportOpen(false);
+        setDetails("");
+      } else {
+        toast.error(result.error || "Failed to report review");
+      }
+    } catch (error) {
+      console.error("Error reporting review:", error);
+      toast.error("An error occurred");
+    } finally {
+      setReporting(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2 mt-2">
+      <Button
+        variant={voted ? "secondary" : "ghost"}
+        size="sm"
+        onClick={handleHelpful}
+        disabled={voting}
+        className="h-7 text-xs"
+      >
+        <ThumbsUp className="h-3.5 w-3.5 mr-1" />
+        Helpful{helpfulCount > 0 && ` (${helpfulCount})`}
+      </Button>
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => setReportOpen(true)}
+        className="h-7 text-xs text-muted-foreground"
+      >
+        <Flag className="h-3.5 w-3.5 mr-1" />
+        Report
+      </Button>
+
+      <Dialog open={reportOpen} onOpenChange={setReportOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Report review</DialogTitle>
+            <DialogDescription>
+              Tell us what is wrong with this review. Our moderators will review
+              it.
+            </DialogDescription>
+          </DialogHeader>
+          <RadioGroup
+            value={reason}
+            onValueChange={(value) => setReason(value as ReviewReportReason)}
+          >
+            {REPORT_REASONS.map((option) => (
+              <div key={option.value} className="flex items-center gap-2">
+                <RadioGroupItem
+                  value={option.value}
+                  id={`report-${reviewId}-${option.value}`}
+                />
+                <Label htmlFor={`report-${reviewId}-${option.value}`}>
+                  {option.label}
+                </Label>
+              </div>
+            ))}
+          </RadioGroup>
+          <Textarea
+            value={details}
+            onChange={(e) => setDetails(e.target.value)}
+            placeholder="Anything else we should know? (optional)"
+            maxLength={500}
+            rows={3}
+          />
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setReportOpen(false)}
+              disabled={reporting}
+            >
+              Cancel
+            </Button>
+            <Button onClick={handleReport} disabled={reporting}>
+              {reporting ? "Sending..." : "Report"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
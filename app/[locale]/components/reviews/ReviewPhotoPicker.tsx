@@ -0,0 +1,104 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Image from "next/image";
+import { ImagePlus, X } from "lucide-react";
+import toast from "react-hot-toast";
+import { Label } from "@/components/ui/label";
+
+// Keep in sync with the checks in actions/reviews.ts
+const MAX_PHOTOS = 4;
+const MAX_PHOTO_SIZE = 2 * 1024 * 1024;
+const PHOTO_TYPES = ["image/jpeg", "image/png", "image/webp"];
+
+interface ReviewPhotoPickerProps {
+  photos: File[];
+  onChange: (photos: File[]) => void;
+  disabled?: boolean;
+}
+
+export function ReviewPhotoPicker({
+  photos,
+  onChange,
+  disabled,
+}: ReviewPhotoPickerProps) {
+  const [previews, setPreviews] = useState<string[]>([]);
+
+  useEffect(() => {
+    const urls = photos.map((photo) => URL.createObjectURL(photo));
+    setPreviews(urls);
+    return () => urls.forEach((url) => URL.revokeObjectURL(url));
+  }, [photos]);
+
+  const handleSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(e.target.files || []);
+    e.target.value = "";
+
+    const valid: File[] = [];
+    for (const file of selected) {
+      if (!PHOTO_TYPES.includes(file.type)) {
+        toast.error(`${file.name} must be a JPEG, PNG or WebP image`);
+        continue;
+      }
+      if (file.size > MAX_PHOTO_SIZE) {
+        toast.error(`${file.name} is larger than 2MB`);
+        continue;
+      }
+      valid.push(file);
+    }
+
+    const next = [...photos, ...valid];
+    if (next.length > MAX_PHOTOS) {
+      toast.error(`You can add at most ${MAX_PHOTOS} photos`);
+    }
+    onChange(next.slice(0, MAX_PHOTOS));
+  };
+
+  return (
+    <div>
+      <Label>Photos (optional)</Label>
+      <div className="flex flex-wrap gap-2 mt-2">
+        {previews.map((preview, index) => (
+          <div
+            key={preview}
+            className="relative w-20 h-20 rounded overflow-hidden border"
+          >
+            <Image
+              width={80}
+              height={80}
+              src={preview}
+              alt={`Photo ${index + 1}`}
+              className="w-full h-full object-cover"
+            />
+            <button
+              type="button"
+              onClick={() => onChange(photos.filter((_, i) => i !== index))}
+              disabled={disabled}
+              className="absolute top-1 right-1 rounded-full bg-black/60 p-0.5 text-white"
+              aria-label="Remove photo"
+            >
+              <X className="h-3 w-3" />
+            </button>
+          </div>
+        ))}
+        {photos.length < MAX_PHOTOS && (
+          <label className="flex w-20 h-20 cursor-pointer flex-col items-center justify-center rounded border border-dashed text-muted-foreground hover:bg-muted">
+            <ImagePlus className="h-5 w-5" />
+            <span className="text-xs mt-1">Add</span>
+            <input
+              type="file"
+              accept={PHOTO_TYPES.join(",")}
+              multiple
+              onChange={handleSelect}
+              disabled={disabled}
+              className="hidden"
+            />
+          </label>
+        )}
+      </div>
+      <p className="text-xs text-muted-foreground mt-1">
+        Up to {MAX_PHOTOS} photos, JPEG, PNG or WebP (max 2MB each)
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,31 @@
+import Image from "next/image";
+
+interface ReviewPhotosProps {
+  images: string[];
+}
+
+export function ReviewPhotos({ images }: ReviewPhotosProps) {
+  if (images.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap gap-2 mb-2">
+      {images.map((url, index) => (
+        <a
+          key={url}
+          href={url}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="block w-20 h-20 rounded overflow-hidden border"
+        >
+          <Image
+            width={80}
+            height={80}
+            src={url}
+            alt={`Review photo ${index + 1}`}
+            className="w-full h-full object-cover"
+          />
+        </a>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,22 @@
+import { formatDistanceToNow } from "date-fns";
+
+interface SellerReplyProps {
+  reply: string;
+  repliedAt: Date | null;
+}
+
+export function SellerReply({ reply, repliedAt }: SellerReplyProps) {
+  return (
+    <div className="mt-3 ml-4 border-l-2 border-amber-400 pl-3">
+      <p className="text-sm font-medium">Response from the seller</p>
+      <p className="text-sm text-muted-foreground whitespace-pre-line">
+        {reply}
+      </p>
+      {repliedAt && (
+        <p className="text-xs text-muted-foreground mt-1">
+          {formatDistanceToNow(new Date(repliedAt), { addSuffix: true })}
+        </p>
+      )}
+    </div>
+  );
+}
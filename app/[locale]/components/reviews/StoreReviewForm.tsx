@@ -6,6 +6,7 @@ import { Textarea } from "@/components/ui/textarea";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { StarRating } from "./StarRating";
+import { ReviewPhotoPicker } from "./ReviewPhotoPicker";
 import {
   submitStoreReview,
   type StoreReviewInput,
@@ -22,6 +23,7 @@ interface StoreReviewFormProps {
   isAuthenticated: boolean;
   userName?: string;
   userEmail?: string;
+  guest?: { name: string; email: string }; // Buyer from a review request link
   onSuccess?: () => void;
 }
 
@@ -32,14 +34,16 @@ export function StoreReviewForm({
   storeLogo,
   isAuthenticated,
   userName,
+  guest,
   onSuccess,
 }: StoreReviewFormProps) {
   const router = useRouter();
   const [rating, setRating] = useState(0);
   const [title, setTitle] = useState("");
   const [body, setBody] = useState("");
-  const [guestName, setGuestName] = useState("");
-  const [guestEmail, setGuestEmail] = useState("");
+  const [guestName, setGuestName] = useState(guest?.name ?? "");
+  const [guestEmail, setGuestEmail] = useState(guest?.email ?? "");
+  const [photos, setPhotos] = useState<File[]>([]);
   const [submitting, setSubmitting] = useState(false);
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -71,6 +75,7 @@ export function StoreReviewForm({
         rating,
         title: title.trim() || undefined,
         body: body.trim(),
+        images: photos.length > 0 ? photos : undefined,
         ...(!isAuthenticated && {
           guestName: guestName.trim(),
           guestEmail: guestEmail.trim(),
@@ -155,6 +160,13 @@ export function StoreReviewForm({
         </p>
       </div>
 
+      {/* Photos */}
+      <ReviewPhotoPicker
+        photos={photos}
+        onChange={setPhotos}
+        disabled={submitting}
+      />
+
       {/* Guest Fields */}
       {!isAuthenticated && (
         <div className="space-y-4 p-4 bg-muted rounded-lg">
@@ -180,6 +192,7 @@ export function StoreReviewForm({
               value={guestEmail}
               onChange={(e) => setGuestEmail(e.target.value)}
               placeholder="john@example.com"
+              readOnly={!!guest?.email}
               required
               className="mt-2"
             />
@@ -0,0 +1,81 @@
+interface SellerStatementEmailProps {
+  storeName: string;
+  title: string;
+  periodLabel: string;
+  currency: string;
+  openingBalance: string;
+  closingBalance: string;
+  pdfUrl: string;
+  statementsUrl: string;
+}
+
+export default function SellerStatementEmail({
+  storeName,
+  title,
+  periodLabel,
+  currency,
+  openingBalance,
+  closingBalance,
+  pdfUrl,
+  statementsUrl,
+}: SellerStatementEmailProps) {
+  return (
+    <div
+      style={{
+        fontFamily: "Arial, sans-serif",
+        maxWidth: "600px",
+        margin: "0 auto",
+      }}
+    >
+      <h1 style={{ color: "#333" }}>
+        {title} - {storeName}
+      </h1>
+
+      <p>
+        Your {title.toLowerCase()} for {periodLabel} ({currency}) is ready.
+      </p>
+
+      <div
+        style={{
+          background: "#f5f5f5",
+          padding: "20px",
+          margin: "20px 0",
+          borderRadius: "5px",
+        }}
+      >
+        <p style={{ margin: "0 0 10px 0", fontSize: "14px" }}>
+          <strong>Opening balance:</strong> {openingBalance} {currency}
+        </p>
+        <p style={{ margin: 0, fontSize: "14px" }}>
+          <strong>Closing balance:</strong> {closingBalance} {currency}
+        </p>
+      </div>
+
+      <div style={{ textAlign: "center", margin: "30px 0" }}>
+        <a
+          href={pdfUrl}
+          style={{
+            backgroundColor: "#f59e0b",
+            color: "#ffffff",
+            padding: "12px 24px",
+            borderRadius: "5px",
+            textDecoration: "none",
+            fontWeight: "bold",
+            display: "inline-block",
+          }}
+        >
+          Download PDF
+        </a>
+      </div>
+
+      <p style={{ fontSize: "14px" }}>
+        All your statements are available in{" "}
+        <a href={statementsUrl}>your finances dashboard</a>.
+      </p>
+
+      <p style={{ color: "#999", fontSize: "12px" }}>
+        This is an automated notification from Golden Market.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,166 @@
+import { Document, Page, StyleSheet, Text, View } from "@react-pdf/renderer";
+
+interface StatementLine {
+  label: string;
+  amount: number;
+}
+
+interface SellerStatementPdfProps {
+  title: string; // "Monthly Statement" | "Annual Earnings Summary"
+  storeName: string;
+  periodLabel: string;
+  periodStart: Date;
+  periodEnd: Date; // Exclusive
+  currency: string;
+  openingBalance: number;
+  closingBalance: number;
+  lines: StatementLine[];
+  netEarnings?: number; // Annual summaries: sales less refunds, disputes and fees
+  notes: string[];
+  generatedAt: Date;
+}
+
+const styles = StyleSheet.create({
+  page: {
+    padding: 48,
+    fontSize: 10,
+    fontFamily: "Helvetica",
+    color: "#111827",
+  },
+  header: {
+    marginBottom: 24,
+  },
+  title: {
+    fontSize: 20,
+    fontFamily: "Helvetica-Bold",
+    marginBottom: 6,
+  },
+  muted: {
+    color: "#6b7280",
+  },
+  section: {
+    marginBottom: 18,
+  },
+  sectionTitle: {
+    fontSize: 12,
+    fontFamily: "Helvetica-Bold",
+    marginBottom: 8,
+  },
+  row: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    paddingVertical: 5,
+    borderBottomWidth: 1,
+    borderBottomColor: "#e5e7eb",
+  },
+  totalRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    paddingVertical: 6,
+    fontFamily: "Helvetica-Bold",
+  },
+  note: {
+    marginBottom: 4,
+    color: "#374151",
+  },
+  footer: {
+    position: "absolute",
+    bottom: 32,
+    left: 48,
+    right: 48,
+    fontSize: 8,
+    color: "#9ca3af",
+  },
+});
+
+function formatDate(date: Date) {
+  return date.toLocaleDateString("en-GB", {
+    day: "numeric",
+    month: "short",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+export default function SellerStatementPdf({
+  title,
+  storeName,
+  periodLabel,
+  periodStart,
+  periodEnd,
+  currency,
+  openingBalance,
+  closingBalance,
+  lines,
+  netEarnings,
+  notes,
+  generatedAt,
+}: SellerStatementPdfProps) {
+  const formatAmount = (amount: number) => `${amount.toFixed(2)} ${currency}`;
+  const lastDay = new Date(periodEnd.getTime() - 1);
+
+  return (
+    <Document title={`${title} - ${storeName} - ${periodLabel}`}>
+      <Page size="A4" style={styles.page}>
+        <View style={styles.header}>
+          <Text style={styles.title}>{title}</Text>
+          <Text>{storeName}</Text>
+          <Text style={styles.muted}>
+            {periodLabel} ({formatDate(periodStart)} - {formatDate(lastDay)})
+            {" | "}
+            {currency}
+          </Text>
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Balance</Text>
+          <View style={styles.row}>
+            <Text>Opening balance</Text>
+            <Text>{formatAmount(openingBalance)}</Text>
+          </View>
+          <View style={styles.row}>
+            <Text>Closing balance</Text>
+            <Text>{formatAmount(closingBalance)}</Text>
+          </View>
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Activity</Text>
+          {lines.map((line) => (
+            <View key={line.label} style={styles.row}>
+              <Text>{line.label}</Text>
+              <Text>{formatAmount(line.amount)}</Text>
+            </View>
+          ))}
+          <View style={styles.totalRow}>
+            <Text>Change in balance</Text>
+            <Text>{formatAmount(closingBalance - openingBalance)}</Text>
+          </View>
+          {netEarnings !== undefined && (
+            <View style={styles.totalRow}>
+              <Text>Net earnings</Text>
+              <Text>{formatAmount(netEarnings)}</Text>
+            </View>
+          )}
+        </View>
+
+        {notes.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Notes</Text>
+            {notes.map((note) => (
+              <Text key={note} style={styles.note}>
+                {note}
+              </Text>
+            ))}
+          </View>
+        )}
+
+        <Text style={styles.footer} fixed>
+          Generated by Golden Market on {formatDate(generatedAt)}. Balances
+          include funds still on hold. This statement is provided for your
+          records and is not tax advice.
+        </Text>
+      </Page>
+    </Document>
+  );
+}
@@ -0,0 +1,78 @@
+interface StoreInvitationEmailProps {
+  storeName: string;
+  inviterName: string;
+  permissions: string[]; // Readable names of what the invite allows
+  acceptUrl: string;
+  expiresAt: Date;
+}
+
+export default function StoreInvitationEmail({
+  storeName,
+  inviterName,
+  permissions,
+  acceptUrl,
+  expiresAt,
+}: StoreInvitationEmailProps) {
+  return (
+    <div
+      style={{
+        fontFamily: "Arial, sans-serif",
+        maxWidth: "600px",
+        margin: "0 auto",
+      }}
+    >
+      <h1 style={{ color: "#333" }}>Join {storeName} on Golden Market</h1>
+
+      <p>
+        {inviterName} invited you to help run <strong>{storeName}</strong>.
+        Accept the invitation with an account using this email address.
+      </p>
+
+      {permissions.length > 0 && (
+        <div
+          style={{
+            background: "#f9f9f9",
+            padding: "20px",
+            margin: "20px 0",
+            borderRadius: "5px",
+          }}
+        >
+          <p style={{ margin: "0 0 10px 0", fontSize: "16px" }}>
+            <strong>You will be able to:</strong>
+          </p>
+          <ul style={{ margin: 0, paddingLeft: "20px", fontSize: "14px" }}>
+            {permissions.map((permission) => (
+              <li key={permission}>{permission}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div style={{ textAlign: "center", margin: "30px 0" }}>
+        <a
+          href={acceptUrl}
+          style={{
+            backgroundColor: "#f59e0b",
+            color: "#ffffff",
+            padding: "12px 24px",
+            borderRadius: "5px",
+            textDecoration: "none",
+            fontWeight: "bold",
+            display: "inline-block",
+          }}
+        >
+          Accept Invitation
+        </a>
+      </div>
+
+      <p style={{ color: "#666", lineHeight: "1.6" }}>
+        This invitation expires on {expiresAt.toDateString()}. If you
+        weren&apos;t expecting it, you can ignore this email.
+      </p>
+
+      <p style={{ color: "#999", fontSize: "12px" }}>
+        This is an automated notification from Golden Market.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+interface SubscriptionPaymentFailedEmailProps {
+  planName: string;
+  error: string;
+  nextRetryAt: Date | null;
+  manageUrl: string;
+}
+
+export default function SubscriptionPaymentFailedEmail({
+  planName,
+  error,
+  nextRetryAt,
+  manageUrl,
+}: SubscriptionPaymentFailedEmailProps) {
+  return (
+    <div
+      style={{
+        fontFamily: "Arial, sans-serif",
+        maxWidth: "600px",
+        margin: "0 auto",
+      }}
+    >
+      <h1 style={{ color: "#333" }}>
+        {nextRetryAt
+          ? `We couldn't charge your ${planName}`
+          : `Your ${planName} is on hold`}
+      </h1>
+
+      <p>
+        We tried to charge the card saved for your subscription for the next
+        delivery, but the payment didn&apos;t go through.
+      </p>
+
+      <div
+        style={{
+          background: "#fdecea",
+          padding: "20px",
+          margin: "20px 0",
+          borderRadius: "5px",
+        }}
+      >
+        <p style={{ margin: "0 0 10px 0", fontSize: "14px" }}>
+          <strong>Reason:</strong> {error}
+        </p>
+        <p style={{ margin: 0, fontSize: "14px" }}>
+          {nextRetryAt ? (
+            <>
+              <strong>Next attempt:</strong> {nextRetryAt.toUTCString()}
+            </>
+          ) : (
+            "No more attempts will be made until you update your card."
+          )}
+        </p>
+      </div>
+
+      <p>
+        You can update your card, skip this delivery or manage the
+        subscription from your account.
+      </p>
+
+      <div style={{ textAlign: "center", margin: "30px 0" }}>
+        <a
+          href={manageUrl}
+          style={{
+            backgroundColor: "#f59e0b",
+            color: "#ffffff",
+            padding: "12px 24px",
+            borderRadius: "5px",
+            textDecoration: "none",
+            fontWeight: "bold",
+            display: "inline-block",
+          }}
+        >
+          Manage Subscription
+        </a>
+      </div>
+
+      <p style={{ color: "#999", fontSize: "12px" }}>
+        This is an automated notification from Golden Market.
+      </p>
+    </div>
+  );
+}
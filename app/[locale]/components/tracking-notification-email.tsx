@@ -8,7 +8,43 @@ interface OrderItem {
   listingSlug?: string | null;
 }
 
+export type TrackingMilestone =
+  | "shipped"
+  | "in_transit"
+  | "out_for_delivery"
+  | "delivered"
+  | "exception";
+
+const milestoneCopy: Record<
+  TrackingMilestone,
+  { heading: string; intro: string }
+> = {
+  shipped: {
+    heading: "Your Order Has Shipped! 📦",
+    intro: "Great news! Your order has been shipped and is on its way to you.",
+  },
+  in_transit: {
+    heading: "Your Package Is on Its Way 🚚",
+    intro: "The carrier has your package and it is moving toward you.",
+  },
+  out_for_delivery: {
+    heading: "Out for Delivery Today 📬",
+    intro: "Your package is out for delivery and should arrive today.",
+  },
+  delivered: {
+    heading: "Your Package Was Delivered ✅",
+    intro: "The carrier reports that your package has been delivered. Enjoy!",
+  },
+  exception: {
+    heading: "There's a Problem With Your Delivery ⚠️",
+    intro:
+      "The carrier reported an issue with your package. Check the tracking page for details or contact us if it isn't resolved soon.",
+  },
+};
+
 interface TrackingNotificationEmailProps {
+  milestone?: TrackingMilestone;
+  statusDetail?: string; // Latest carrier checkpoint message
   orderNumber: string;
   customerName: string;
   trackingUrl: string;
@@ -25,6 +61,8 @@ interface TrackingNotificationEmailProps {
 }
 
 export default function TrackingNotificationEmail({
+  milestone = "shipped",
+  statusDetail,
   orderNumber,
   customerName,
   trackingUrl,
@@ -39,6 +77,8 @@ export default function TrackingNotificationEmail({
   tax,
   total,
 }: TrackingNotificationEmailProps) {
+  const copy = milestoneCopy[milestone];
+
   return (
     <div
       style={{
@@ -50,9 +90,7 @@ export default function TrackingNotificationEmail({
       }}
     >
       <div style={{ marginBottom: "30px" }}>
-        <h1 style={{ color: "#333", margin: "0 0 10px 0" }}>
-          Your Order Has Shipped! 📦
-        </h1>
+        <h1 style={{ color: "#333", margin: "0 0 10px 0" }}>{copy.heading}</h1>
         <p style={{ color: "#666", margin: 0, fontSize: "14px" }}>
           Order #{orderNumber}
         </p>
@@ -62,9 +100,12 @@ export default function TrackingNotificationEmail({
         <p style={{ color: "#333", margin: "0 0 10px 0" }}>
           Hi {customerName},
         </p>
-        <p style={{ color: "#666", lineHeight: "1.6" }}>
-          Great news! Your order has been shipped and is on its way to you.
-        </p>
+        <p style={{ color: "#666", lineHeight: "1.6" }}>{copy.intro}</p>
+        {statusDetail && (
+          <p style={{ color: "#666", lineHeight: "1.6", fontStyle: "italic" }}>
+            Latest update: {statusDetail}
+          </p>
+        )}
       </div>
 
       {/* Tracking Info */}
@@ -0,0 +1,29 @@
+import { DashboardWrapper } from "../components/shared/DashboardWrapper";
+import { protectDashboardRoute } from "@/app/[locale]/lib/dashboard-auth";
+import Analytics from "../components/admin/Analytics";
+import { getAnalyticsMarkets } from "@/app/[locale]/actions/analytics";
+import DashboardNotFound from "../not-found";
+
+export default async function AdminAnalyticsPage() {
+  // Automatically checks route access based on navigation config
+  const result = await protectDashboardRoute({
+    allowedRoles: ["admin"],
+    showNotFound: true,
+  });
+
+  // Render 404 content directly instead of calling notFound()
+  // This ensures proper layout inheritance
+  if (result.shouldShowNotFound) {
+    return <DashboardNotFound />;
+  }
+
+  const { role } = result;
+
+  const markets = await getAnalyticsMarkets();
+
+  return (
+    <DashboardWrapper userRole={role}>
+      <Analytics markets={markets} />
+    </DashboardWrapper>
+  );
+}
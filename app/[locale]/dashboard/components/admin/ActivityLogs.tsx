@@ -20,271 +20,206 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
 import {
   Activity,
   Search,
   Download,
   Eye,
-  User,
   Shield,
   Key,
-  Edit,
-  Plus,
+  Package,
+  Store,
+  Wallet,
+  RotateCcw,
+  Loader2,
 } from "lucide-react";
+import {
+  getAuditLogs,
+  getAuditLogFilterOptions,
+  exportAuditLogsAsCSV,
+  type AuditLogEntry,
+  type AuditLogFilters,
+} from "../../../actions/audit-log";
+import toast from "react-hot-toast";
 
-interface ActivityLog {
-  id: string;
-  userId: string;
-  userName: string;
-  userEmail: string;
-  action: string;
-  description: string;
-  timestamp: string;
-  ipAddress: string;
-  userAgent: string;
-  status: "success" | "failed" | "warning";
-  category:
-    | "authentication"
-    | "user_management"
-    | "product_management"
-    | "system";
-}
+const ALL = "all";
+const ITEMS_PER_PAGE = 25;
 
 export default function ActivityLogs() {
-  const [logs, setLogs] = useState<ActivityLog[]>([]);
-  const [filteredLogs, setFilteredLogs] = useState<ActivityLog[]>([]);
+  const [logs, setLogs] = useState<AuditLogEntry[]>([]);
+  const [total, setTotal] = useState(0);
   const [loading, setLoading] = useState(true);
+  const [isExporting, setIsExporting] = useState(false);
   const [searchTerm, setSearchTerm] = useState("");
-  const [actionFilter, setActionFilter] = useState("all");
-  const [categoryFilter, setCategoryFilter] = useState("all");
-  const [statusFilter, setStatusFilter] = useState("all");
+  const [debouncedSearch, setDebouncedSearch] = useState("");
+  const [actionFilter, setActionFilter] = useState(ALL);
+  const [entityFilter, setEntityFilter] = useState(ALL);
+  const [dateFrom, setDateFrom] = useState("");
+  const [dateTo, setDateTo] = useState("");
   const [currentPage, setCurrentPage] = useState(1);
-  const [itemsPerPage] = useState(20);
+  const [filterOptions, setFilterOptions] = useState<{
+    actions: string[];
+    entityTypes: string[];
+  }>({ actions: [], entityTypes: [] });
+  const [selectedLog, setSelectedLog] = useState<AuditLogEntry | null>(null);
 
-  // Mock data - replace with real API calls
-  useEffect(() => {
-    const mockLogs: ActivityLog[] = [
-      {
-        id: "1",
-        userId: "1",
-        userName: "John Doe",
-        userEmail: "john@example.com",
-        action: "login",
-        description: "User logged in successfully",
-        timestamp: "2024-01-20T10:30:00Z",
-        ipAddress: "192.168.1.100",
-        userAgent:
-          "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36",
-        status: "success",
-        category: "authentication",
-      },
-      {
-        id: "2",
-        userId: "2",
-        userName: "Jane Smith",
-        userEmail: "jane@example.com",
-        action: "create_user",
-        description: "Created new user account for bob@example.com",
-        timestamp: "2024-01-20T09:15:00Z",
-        ipAddress: "192.168.1.101",
-        userAgent:
-          "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36",
-        status: "success",
-        category: "user_management",
-      },
-      {
-        id: "3",
-        userId: "3",
-        userName: "Bob Johnson",
-        userEmail: "bob@example.com",
-        action: "failed_login",
-        description: "Failed login attempt - incorrect password",
-        timestamp: "2024-01-20T08:45:00Z",
-        ipAddress: "192.168.1.102",
-        userAgent:
-          "Mozilla/5.0 (iPhone; CPU iPhone OS 15_0 like Mac OS X) AppleWebKit/605.1.15",
-        status: "failed",
-        category: "authentication",
-      },
-      {
-        id: "4",
-        userId: "1",
-        userName: "John Doe",
-        userEmail: "john@example.com",
-        action: "update_profile",
-        description: "Updated user profile information",
-        timestamp: "2024-01-20T07:20:00Z",
-        ipAddress: "192.168.1.100",
-        userAgent:
-          "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36",
-        status: "success",
-        category: "user_management",
-      },
-      {
-        id: "5",
-        userId: "2",
-        userName: "Jane Smith",
-        userEmail: "jane@example.com",
-        action: "delete_user",
-        description: "Deleted user account for olduser@example.com",
-        timestamp: "2024-01-19T16:30:00Z",
-        ipAddress: "192.168.1.101",
-        userAgent:
-          "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36",
-        status: "success",
-        category: "user_management",
-      },
-      {
-        id: "6",
-        userId: "1",
-        userName: "John Doe",
-        userEmail: "john@example.com",
-        action: "create_product",
-        description: "Created new product: Organic Honey",
-        timestamp: "2024-01-19T14:15:00Z",
-        ipAddress: "192.168.1.100",
-        userAgent:
-          "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36",
-        status: "success",
-        category: "product_management",
-      },
-      {
-        id: "7",
-        userId: "3",
-        userName: "Bob Johnson",
-        userEmail: "bob@example.com",
-        action: "password_reset",
-        description: "Requested password reset",
-        timestamp: "2024-01-19T11:45:00Z",
-        ipAddress: "192.168.1.102",
-        userAgent:
-          "Mozilla/5.0 (iPhone; CPU iPhone OS 15_0 like Mac OS X) AppleWebKit/605.1.15",
-        status: "success",
-        category: "authentication",
-      },
-      {
-        id: "8",
-        userId: "2",
-        userName: "Jane Smith",
-        userEmail: "jane@example.com",
-        action: "suspend_user",
-        description: "Suspended user account for spammer@example.com",
-        timestamp: "2024-01-19T09:30:00Z",
-        ipAddress: "192.168.1.101",
-        userAgent:
-          "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36",
-        status: "success",
-        category: "user_management",
-      },
-    ];
+  const filters: AuditLogFilters = {
+    search: debouncedSearch || undefined,
+    action: actionFilter === ALL ? undefined : actionFilter,
+    entityType: entityFilter === ALL ? undefined : entityFilter,
+    dateFrom: dateFrom || undefined,
+    dateTo: dateTo || undefined,
+  };
 
-    setLogs(mockLogs);
-    setFilteredLogs(mockLogs);
-    setLoading(false);
+  useEffect(() => {
+    getAuditLogFilterOptions()
+      .then(setFilterOptions)
+      .catch((error) =>
+        console.error("Error loading audit log filters:", error)
+      );
   }, []);
 
-  // Filter logs based on search and filters
+  // Debounce search input
   useEffect(() => {
-    let filtered = logs;
+    const timer = setTimeout(() => {
+      setDebouncedSearch(searchTerm.trim());
+      setCurrentPage(1);
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [searchTerm]);
 
-    // Search filter
-    if (searchTerm) {
-      filtered = filtered.filter(
-        (log) =>
-          log.userName.toLowerCase().includes(searchTerm.toLowerCase()) ||
-          log.userEmail.toLowerCase().includes(searchTerm.toLowerCase()) ||
-          log.action.toLowerCase().includes(searchTerm.toLowerCase()) ||
-          log.description.toLowerCase().includes(searchTerm.toLowerCase())
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadLogs = async () => {
+      setLoading(true);
+      const result = await getAuditLogs(
+        {
+          search: debouncedSearch || undefined,
+          action: actionFilter === ALL ? undefined : actionFilter,
+          entityType: entityFilter === ALL ? undefined : entityFilter,
+          dateFrom: dateFrom || undefined,
+          dateTo: dateTo || undefined,
+        },
+        currentPage,
+        ITEMS_PER_PAGE
       );
-    }
+      if (cancelled) return;
+      if (result.success) {
+        setLogs(result.logs || []);
+        setTotal(result.total || 0);
+      } else {
+        toast.error(result.error || "Failed to load activity logs");
+      }
+      setLoading(false);
+    };
 
-    // Action filter
-    if (actionFilter !== "all") {
-      filtered = filtered.filter((log) => log.action === actionFilter);
-    }
+    loadLogs();
+    return () => {
+      cancelled = true;
+    };
+  }, [
+    debouncedSearch,
+    actionFilter,
+    entityFilter,
+    dateFrom,
+    dateTo,
+    currentPage,
+  ]);
 
-    // Category filter
-    if (categoryFilter !== "all") {
-      filtered = filtered.filter((log) => log.category === categoryFilter);
-    }
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const result = await exportAuditLogsAsCSV(filters);
 
-    // Status filter
-    if (statusFilter !== "all") {
-      filtered = filtered.filter((log) => log.status === statusFilter);
+      if (result.success && result.data) {
+        const blob = new Blob([result.data], {
+          type: "text/csv;charset=utf-8;",
+        });
+        const url = window.URL.createObjectURL(blob);
+        const a = document.createElement("a");
+        a.href = url;
+        a.download = result.filename || "audit-log.csv";
+        document.body.appendChild(a);
+        a.click();
+        document.body.removeChild(a);
+        window.URL.revokeObjectURL(url);
+      } else {
+        toast.error(result.error || "Failed to export activity logs");
+      }
+    } catch (error) {
+      toast.error("An error occurred while exporting");
+      console.error(error);
+    } finally {
+      setIsExporting(false);
     }
-
-    setFilteredLogs(filtered);
-    setCurrentPage(1);
-  }, [logs, searchTerm, actionFilter, categoryFilter, statusFilter]);
+  };
 
   // Pagination
-  const totalPages = Math.ceil(filteredLogs.length / itemsPerPage);
-  const startIndex = (currentPage - 1) * itemsPerPage;
-  const paginatedLogs = filteredLogs.slice(
-    startIndex,
-    startIndex + itemsPerPage
-  );
+  const totalPages = Math.max(1, Math.ceil(total / ITEMS_PER_PAGE));
+  const startIndex = (currentPage - 1) * ITEMS_PER_PAGE;
 
-  const getActionIcon = (action: string) => {
-    switch (action) {
-      case "login":
-      case "failed_login":
-        return <User className="w-4 h-4" />;
-      case "create_user":
-      case "update_user":
-      case "delete_user":
-      case "suspend_user":
+  const getEntityIcon = (entityType: string) => {
+    switch (entityType) {
+      case "user":
         return <Shield className="w-4 h-4" />;
-      case "password_reset":
+      case "role":
+      case "permission":
         return <Key className="w-4 h-4" />;
-      case "create_product":
-      case "update_product":
-      case "delete_product":
-        return <Plus className="w-4 h-4" />;
-      case "update_profile":
-        return <Edit className="w-4 h-4" />;
+      case "product":
+        return <Package className="w-4 h-4" />;
+      case "store":
+        return <Store className="w-4 h-4" />;
+      case "payout":
+        return <Wallet className="w-4 h-4" />;
+      case "order":
+        return <RotateCcw className="w-4 h-4" />;
       default:
         return <Activity className="w-4 h-4" />;
     }
   };
 
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case "success":
-        return "bg-green-100 text-green-800";
-      case "failed":
-        return "bg-red-100 text-red-800";
-      case "warning":
-        return "bg-yellow-100 text-yellow-800";
-      default:
-        return "bg-gray-100 text-gray-800";
-    }
-  };
-
-  const getCategoryColor = (category: string) => {
-    switch (category) {
-      case "authentication":
-        return "bg-blue-100 text-blue-800";
-      case "user_management":
+  const getEntityColor = (entityType: string) => {
+    switch (entityType) {
+      case "user":
+      case "role":
+      case "permission":
         return "bg-purple-100 text-purple-800";
-      case "product_management":
+      case "product":
         return "bg-green-100 text-green-800";
-      case "system":
+      case "store":
+        return "bg-blue-100 text-blue-800";
+      case "payout":
+      case "order":
         return "bg-orange-100 text-orange-800";
       default:
         return "bg-gray-100 text-gray-800";
     }
   };
 
-  const formatTimestamp = (timestamp: string) => {
-    return new Date(timestamp).toLocaleString();
-  };
+  const formatAction = (action: string) =>
+    action.replace(/[._]/g, " ").replace(/\b\w/g, (c) => c.toUpperCase());
+
+  const formatValue = (value: unknown) =>
+    value === null || value === undefined
+      ? "—"
+      : typeof value === "object"
+        ? JSON.stringify(value)
+        : String(value);
 
-  if (loading) {
-    return (
-      <div className="flex justify-center p-8">Loading activity logs...</div>
-    );
-  }
+  const describeChanges = (log: AuditLogEntry) => {
+    const fields = Object.keys(log.changes || {});
+    if (fields.length === 0) return "—";
+    return fields.length > 3
+      ? `${fields.slice(0, 3).join(", ")} +${fields.length - 3} more`
+      : fields.join(", ");
+  };
 
   return (
     <div className="space-y-6">
@@ -293,11 +228,20 @@ export default function ActivityLogs() {
         <div>
           <h2 className="text-2xl font-bold">Activity Logs</h2>
           <p className="text-gray-600">
-            Monitor system activity and user actions
+            Audit trail of sensitive admin and payment actions
           </p>
         </div>
-        <Button variant="outline" className="flex items-center gap-2">
-          <Download className="w-4 h-4" />
+        <Button
+          variant="outline"
+          className="flex items-center gap-2"
+          onClick={handleExport}
+          disabled={isExporting}
+        >
+          {isExporting ? (
+            <Loader2 className="w-4 h-4 animate-spin" />
+          ) : (
+            <Download className="w-4 h-4" />
+          )}
           Export Logs
         </Button>
       </div>
@@ -308,14 +252,14 @@ export default function ActivityLogs() {
           <CardTitle>Filters</CardTitle>
         </CardHeader>
         <CardContent>
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
-            <div>
+          <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-4">
+            <div className="lg:col-span-2">
               <Label htmlFor="search">Search</Label>
               <div className="relative">
                 <Search className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
                 <Input
                   id="search"
-                  placeholder="Search logs..."
+                  placeholder="Actor, email or entity ID..."
                   value={searchTerm}
                   onChange={(e) => setSearchTerm(e.target.value)}
                   className="pl-10"
@@ -324,73 +268,88 @@ export default function ActivityLogs() {
             </div>
             <div>
               <Label>Action</Label>
-              <Select value={actionFilter} onValueChange={setActionFilter}>
+              <Select
+                value={actionFilter}
+                onValueChange={(value) => {
+                  setActionFilter(value);
+                  setCurrentPage(1);
+                }}
+              >
                 <SelectTrigger>
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="all">All Actions</SelectItem>
-                  <SelectItem value="login">Login</SelectItem>
-                  <SelectItem value="failed_login">Failed Login</SelectItem>
-                  <SelectItem value="create_user">Create User</SelectItem>
-                  <SelectItem value="update_user">Update User</SelectItem>
-                  <SelectItem value="delete_user">Delete User</SelectItem>
-                  <SelectItem value="suspend_user">Suspend User</SelectItem>
-                  <SelectItem value="password_reset">Password Reset</SelectItem>
-                  <SelectItem value="create_product">Create Product</SelectItem>
-                  <SelectItem value="update_product">Update Product</SelectItem>
-                  <SelectItem value="delete_product">Delete Product</SelectItem>
+                  <SelectItem value={ALL}>All Actions</SelectItem>
+                  {filterOptions.actions.map((action) => (
+                    <SelectItem key={action} value={action}>
+                      {formatAction(action)}
+                    </SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
             </div>
             <div>
-              <Label>Category</Label>
-              <Select value={categoryFilter} onValueChange={setCategoryFilter}>
+              <Label>Entity</Label>
+              <Select
+                value={entityFilter}
+                onValueChange={(value) => {
+                  setEntityFilter(value);
+                  setCurrentPage(1);
+                }}
+              >
                 <SelectTrigger>
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="all">All Categories</SelectItem>
-                  <SelectItem value="authentication">Authentication</SelectItem>
-                  <SelectItem value="user_management">
-                    User Management
-                  </SelectItem>
-                  <SelectItem value="product_management">
-                    Product Management
-                  </SelectItem>
-                  <SelectItem value="system">System</SelectItem>
+                  <SelectItem value={ALL}>All Entities</SelectItem>
+                  {filterOptions.entityTypes.map((entityType) => (
+                    <SelectItem key={entityType} value={entityType}>
+                      <span className="capitalize">{entityType}</span>
+                    </SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
             </div>
             <div>
-              <Label>Status</Label>
-              <Select value={statusFilter} onValueChange={setStatusFilter}>
-                <SelectTrigger>
-                  <SelectValue />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="all">All Status</SelectItem>
-                  <SelectItem value="success">Success</SelectItem>
-                  <SelectItem value="failed">Failed</SelectItem>
-                  <SelectItem value="warning">Warning</SelectItem>
-                </SelectContent>
-              </Select>
+              <Label htmlFor="dateFrom">From</Label>
+              <Input
+                id="dateFrom"
+                type="date"
+                value={dateFrom}
+                onChange={(e) => {
+                  setDateFrom(e.target.value);
+                  setCurrentPage(1);
+                }}
+              />
             </div>
-            <div className="flex items-end">
-              <Button
-                variant="outline"
-                onClick={() => {
-                  setSearchTerm("");
-                  setActionFilter("all");
-                  setCategoryFilter("all");
-                  setStatusFilter("all");
+            <div>
+              <Label htmlFor="dateTo">To</Label>
+              <Input
+                id="dateTo"
+                type="date"
+                value={dateTo}
+                onChange={(e) => {
+                  setDateTo(e.target.value);
+                  setCurrentPage(1);
                 }}
-                className="w-full"
-              >
-                Clear Filters
-              </Button>
+              />
             </div>
           </div>
+          <div className="flex justify-end mt-4">
+            <Button
+              variant="outline"
+              onClick={() => {
+                setSearchTerm("");
+                setActionFilter(ALL);
+                setEntityFilter(ALL);
+                setDateFrom("");
+                setDateTo("");
+                setCurrentPage(1);
+              }}
+            >
+              Clear Filters
+            </Button>
+          </div>
         </CardContent>
       </Card>
 
@@ -400,65 +359,82 @@ export default function ActivityLogs() {
           <Table>
             <TableHeader>
               <TableRow>
-                <TableHead>User</TableHead>
+                <TableHead>Actor</TableHead>
                 <TableHead>Action</TableHead>
-                <TableHead>Description</TableHead>
-                <TableHead>Category</TableHead>
-                <TableHead>Status</TableHead>
+                <TableHead>Entity</TableHead>
+                <TableHead>Changed Fields</TableHead>
                 <TableHead>Timestamp</TableHead>
                 <TableHead>IP Address</TableHead>
-                <TableHead>Actions</TableHead>
+                <TableHead>Details</TableHead>
               </TableRow>
             </TableHeader>
             <TableBody>
-              {paginatedLogs.map((log) => (
-                <TableRow key={log.id}>
-                  <TableCell>
-                    <div>
-                      <div className="font-medium">{log.userName}</div>
-                      <div className="text-sm text-gray-500">
-                        {log.userEmail}
-                      </div>
-                    </div>
-                  </TableCell>
-                  <TableCell>
-                    <div className="flex items-center gap-2">
-                      {getActionIcon(log.action)}
-                      <span className="capitalize">
-                        {log.action.replace("_", " ")}
-                      </span>
-                    </div>
-                  </TableCell>
-                  <TableCell className="max-w-xs truncate">
-                    {log.description}
+              {loading ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center py-8">
+                    Loading activity logs...
                   </TableCell>
-                  <TableCell>
-                    <span
-                      className={`px-2 py-1 text-xs rounded-full ${getCategoryColor(log.category)}`}
-                    >
-                      {log.category.replace("_", " ")}
-                    </span>
-                  </TableCell>
-                  <TableCell>
-                    <span
-                      className={`px-2 py-1 text-xs rounded-full ${getStatusColor(log.status)}`}
-                    >
-                      {log.status}
-                    </span>
-                  </TableCell>
-                  <TableCell className="text-sm">
-                    {formatTimestamp(log.timestamp)}
-                  </TableCell>
-                  <TableCell className="text-sm font-mono">
-                    {log.ipAddress}
-                  </TableCell>
-                  <TableCell>
-                    <Button variant="outline" size="sm">
-                      <Eye className="w-4 h-4" />
-                    </Button>
+                </TableRow>
+              ) : logs.length === 0 ? (
+                <TableRow>
+                  <TableCell
+                    colSpan={7}
+                    className="text-center py-8 text-gray-500"
+                  >
+                    No activity found for these filters.
                   </TableCell>
                 </TableRow>
-              ))}
+              ) : (
+                logs.map((log) => (
+                  <TableRow key={log.id}>
+                    <TableCell>
+                      <div>
+                        <div className="font-medium">
+                          {log.actorName ||
+                            (log.actorId ? "Deleted user" : "System")}
+                        </div>
+                        <div className="text-sm text-gray-500">
+                          {log.actorEmail}
+                        </div>
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        {getEntityIcon(log.entityType)}
+                        <span>{formatAction(log.action)}</span>
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <span
+                        className={`px-2 py-1 text-xs rounded-full capitalize ${getEntityColor(log.entityType)}`}
+                      >
+                        {log.entityType}
+                      </span>
+                      <div className="text-xs text-gray-500 font-mono mt-1 max-w-[10rem] truncate">
+                        {log.entityId}
+                      </div>
+                    </TableCell>
+                    <TableCell className="max-w-xs truncate text-sm">
+                      {describeChanges(log)}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {new Date(log.createdAt).toLocaleString()}
+                    </TableCell>
+                    <TableCell className="text-sm font-mono">
+                      {log.ipAddress || "—"}
+                    </TableCell>
+                    <TableCell>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setSelectedLog(log)}
+                      >
+                        <Eye className="w-4 h-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
             </TableBody>
           </Table>
         </CardContent>
@@ -467,16 +443,16 @@ export default function ActivityLogs() {
       {/* Pagination */}
       <div className="flex justify-between items-center">
         <p className="text-sm text-gray-600">
-          Showing {startIndex + 1} to{" "}
-          {Math.min(startIndex + itemsPerPage, filteredLogs.length)} of{" "}
-          {filteredLogs.length} logs
+          {total === 0
+            ? "No logs"
+            : `Showing ${startIndex + 1} to ${Math.min(startIndex + ITEMS_PER_PAGE, total)} of ${total} logs`}
         </p>
         <div className="flex gap-2">
           <Button
             variant="outline"
             size="sm"
             onClick={() => setCurrentPage((prev) => Math.max(prev - 1, 1))}
-            disabled={currentPage === 1}
+            disabled={currentPage === 1 || loading}
           >
             Previous
           </Button>
@@ -486,12 +462,93 @@ export default function ActivityLogs() {
             onClick={() =>
               setCurrentPage((prev) => Math.min(prev + 1, totalPages))
             }
-            disabled={currentPage === totalPages}
+            disabled={currentPage >= totalPages || loading}
           >
             Next
           </Button>
         </div>
       </div>
+
+      {/* Details Dialog */}
+      <Dialog
+        open={!!selectedLog}
+        onOpenChange={(open) => !open && setSelectedLog(null)}
+      >
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>
+              {selectedLog ? formatAction(selectedLog.action) : ""}
+            </DialogTitle>
+          </DialogHeader>
+          {selectedLog && (
+            <div className="space-y-4 text-sm">
+              <div className="grid grid-cols-2 gap-2">
+                <span className="text-gray-500">When</span>
+                <span>{new Date(selectedLog.createdAt).toLocaleString()}</span>
+                <span className="text-gray-500">Actor</span>
+                <span>
+                  {selectedLog.actorName || "System"}
+                  {selectedLog.actorEmail ? ` (${selectedLog.actorEmail})` : ""}
+                </span>
+                <span className="text-gray-500">Entity</span>
+                <span className="font-mono break-all">
+                  {selectedLog.entityType} / {selectedLog.entityId}
+                </span>
+                <span className="text-gray-500">IP Address</span>
+                <span className="font-mono">
+                  {selectedLog.ipAddress || "—"}
+                </span>
+                <span className="text-gray-500">User Agent</span>
+                <span className="break-all">
+                  {selectedLog.userAgent || "—"}
+                </span>
+              </div>
+
+              {selectedLog.changes &&
+                Object.keys(selectedLog.changes).length > 0 && (
+                  <div>
+                    <h4 className="font-semibold mb-2">Changes</h4>
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Field</TableHead>
+                          <TableHead>Before</TableHead>
+                          <TableHead>After</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {Object.entries(selectedLog.changes).map(
+                          ([field, change]) => (
+                            <TableRow key={field}>
+                              <TableCell className="font-medium">
+                                {field}
+                              </TableCell>
+                              <TableCell className="text-red-700 break-all">
+                                {formatValue(change.before)}
+                              </TableCell>
+                              <TableCell className="text-green-700 break-all">
+                                {formatValue(change.after)}
+                              </TableCell>
+                            </TableRow>
+                          )
+                        )}
+                      </TableBody>
+                    </Table>
+                  </div>
+                )}
+
+              {selectedLog.metadata && (
+                <div>
+                  <h4 className="font-semibold mb-2">Metadata</h4>
+                  <pre className="bg-gray-50 rounded p-3 text-xs overflow-x-auto">
+                    {JSON.stringify(selectedLog.metadata, null, 2)}
+                  </pre>
+                </div>
+              )}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
@@ -3,6 +3,7 @@
 import React, { useState, useEffect } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import {
   Select,
   SelectContent,
@@ -10,418 +11,559 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
 import {
   BarChart3,
   Users,
   UserCheck,
-  UserX,
+  ShoppingCart,
   TrendingUp,
+  RotateCcw,
   Download,
+  Loader2,
 } from "lucide-react";
+import {
+  getMarketplaceAnalytics,
+  exportMarketplaceAnalyticsAsCSV,
+  type MarketplaceAnalytics,
+} from "../../../actions/analytics";
+import { formatCurrency } from "@/lib/utils";
+import toast from "react-hot-toast";
 
-interface AnalyticsData {
-  totalUsers: number;
-  activeUsers: number;
-  newUsers: number;
-  adminUsers: number;
-  verifiedUsers: number;
-  userGrowth: {
-    daily: number[];
-    weekly: number[];
-    monthly: number[];
-  };
-  userDistribution: {
-    byRole: { role: string; count: number }[];
-    byStatus: { status: string; count: number }[];
-    byVerification: { verified: boolean; count: number }[];
-  };
-  activityMetrics: {
-    loginsToday: number;
-    loginsThisWeek: number;
-    loginsThisMonth: number;
-    averageSessionTime: string;
-  };
+interface AnalyticsProps {
+  markets: Array<{ id: string; name: string; currency: string }>;
 }
 
-export default function Analytics() {
-  const [analyticsData, setAnalyticsData] = useState<AnalyticsData | null>(
-    null
-  );
-  const [timeRange, setTimeRange] = useState("7d");
+const ALL_MARKETS = "all";
+
+function toDateInput(date: Date): string {
+  return date.toISOString().split("T")[0];
+}
+
+function daysAgo(days: number): string {
+  const date = new Date();
+  date.setDate(date.getDate() - days);
+  return toDateInput(date);
+}
+
+function formatPercent(value: number): string {
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+export default function Analytics({ markets }: AnalyticsProps) {
+  const [analyticsData, setAnalyticsData] =
+    useState<MarketplaceAnalytics | null>(null);
+  const [timeRange, setTimeRange] = useState("30");
+  const [dateFrom, setDateFrom] = useState(daysAgo(30));
+  const [dateTo, setDateTo] = useState(toDateInput(new Date()));
+  const [marketId, setMarketId] = useState(ALL_MARKETS);
   const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const filters = {
+    from: dateFrom,
+    to: dateTo,
+    marketId: marketId === ALL_MARKETS ? null : marketId,
+  };
 
-  // Mock data - replace with real API calls
   useEffect(() => {
-    const mockData: AnalyticsData = {
-      totalUsers: 167,
-      activeUsers: 142,
-      newUsers: 23,
-      adminUsers: 3,
-      verifiedUsers: 156,
-      userGrowth: {
-        daily: [5, 8, 12, 7, 15, 9, 11],
-        weekly: [45, 52, 38, 67, 71, 58, 63],
-        monthly: [120, 135, 142, 158, 167],
-      },
-      userDistribution: {
-        byRole: [
-          { role: "Admin", count: 3 },
-          { role: "Seller", count: 15 },
-          { role: "Customer", count: 149 },
-        ],
-        byStatus: [
-          { status: "Active", count: 142 },
-          { status: "Suspended", count: 5 },
-          { status: "Pending", count: 20 },
-        ],
-        byVerification: [
-          { verified: true, count: 156 },
-          { verified: false, count: 11 },
-        ],
-      },
-      activityMetrics: {
-        loginsToday: 89,
-        loginsThisWeek: 567,
-        loginsThisMonth: 2341,
-        averageSessionTime: "12m 34s",
-      },
+    let cancelled = false;
+
+    const loadAnalytics = async () => {
+      setLoading(true);
+      const result = await getMarketplaceAnalytics({
+        from: dateFrom,
+        to: dateTo,
+        marketId: marketId === ALL_MARKETS ? null : marketId,
+      });
+      if (cancelled) return;
+      if (result.success && result.data) {
+        setAnalyticsData(result.data);
+        setError(null);
+      } else {
+        setError(result.error || "Failed to load analytics");
+      }
+      setLoading(false);
+    };
+
+    loadAnalytics();
+    return () => {
+      cancelled = true;
     };
+  }, [dateFrom, dateTo, marketId]);
+
+  const handleTimeRangeChange = (value: string) => {
+    setTimeRange(value);
+    if (value !== "custom") {
+      setDateFrom(daysAgo(parseInt(value)));
+      setDateTo(toDateInput(new Date()));
+    }
+  };
 
-    setAnalyticsData(mockData);
-    setLoading(false);
-  }, [timeRange]);
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const result = await exportMarketplaceAnalyticsAsCSV(filters);
 
-  if (loading) {
-    return <div className="flex justify-center p-8">Loading analytics...</div>;
-  }
+      if (result.success && result.data) {
+        const blob = new Blob([result.data], {
+          type: "text/csv;charset=utf-8;",
+        });
+        const url = window.URL.createObjectURL(blob);
+        const a = document.createElement("a");
+        a.href = url;
+        a.download = result.filename || "marketplace-analytics.csv";
+        document.body.appendChild(a);
+        a.click();
+        document.body.removeChild(a);
+        window.URL.revokeObjectURL(url);
+      } else {
+        toast.error(result.error || "Failed to export analytics");
+      }
+    } catch (error) {
+      toast.error("An error occurred while exporting");
+      console.error(error);
+    } finally {
+      setIsExporting(false);
+    }
+  };
 
-  if (!analyticsData) {
-    return <div className="text-center p-8">No analytics data available</div>;
-  }
+  const currency = analyticsData?.currency || "EUR";
+  const summary = analyticsData?.summary;
+  const maxSeriesGmv = Math.max(
+    1,
+    ...(analyticsData?.series.map((s) => s.gmv) || [])
+  );
+  const maxSeriesUsers = Math.max(
+    1,
+    ...(analyticsData?.series.map((s) => s.newUsers) || [])
+  );
 
   return (
     <div className="space-y-6">
       {/* Header */}
-      <div className="flex justify-between items-center">
+      <div className="flex flex-col lg:flex-row justify-between lg:items-center gap-4">
         <div>
-          <h2 className="text-2xl font-bold">User Analytics</h2>
+          <h2 className="text-2xl font-bold">Marketplace Analytics</h2>
           <p className="text-gray-600">
-            Monitor user activity and system metrics
+            Sales, customers and growth across all stores. Amounts are shown in{" "}
+            {currency}.
           </p>
         </div>
-        <div className="flex gap-2">
-          <Select value={timeRange} onValueChange={setTimeRange}>
-            <SelectTrigger className="w-32">
+        <div className="flex flex-wrap gap-2">
+          <Select value={timeRange} onValueChange={handleTimeRangeChange}>
+            <SelectTrigger className="w-36">
               <SelectValue />
             </SelectTrigger>
             <SelectContent>
-              <SelectItem value="1d">Last 24h</SelectItem>
-              <SelectItem value="7d">Last 7 days</SelectItem>
-              <SelectItem value="30d">Last 30 days</SelectItem>
-              <SelectItem value="90d">Last 90 days</SelectItem>
+              <SelectItem value="7">Last 7 days</SelectItem>
+              <SelectItem value="30">Last 30 days</SelectItem>
+              <SelectItem value="90">Last 90 days</SelectItem>
+              <SelectItem value="365">Last 12 months</SelectItem>
+              <SelectItem value="custom">Custom range</SelectItem>
+            </SelectContent>
+          </Select>
+          {timeRange === "custom" && (
+            <>
+              <Input
+                type="date"
+                className="w-40"
+                value={dateFrom}
+                max={dateTo}
+                onChange={(e) => e.target.value && setDateFrom(e.target.value)}
+              />
+              <Input
+                type="date"
+                className="w-40"
+                value={dateTo}
+                min={dateFrom}
+                onChange={(e) => e.target.value && setDateTo(e.target.value)}
+              />
+            </>
+          )}
+          <Select value={marketId} onValueChange={setMarketId}>
+            <SelectTrigger className="w-40">
+              <SelectValue placeholder="All markets" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_MARKETS}>All markets</SelectItem>
+              {markets.map((market) => (
+                <SelectItem key={market.id} value={market.id}>
+                  {market.name}
+                </SelectItem>
+              ))}
             </SelectContent>
           </Select>
-          <Button variant="outline" className="flex items-center gap-2">
-            <Download className="w-4 h-4" />
-            Export
+          <Button
+            variant="outline"
+            className="flex items-center gap-2"
+            onClick={handleExport}
+            disabled={isExporting || !analyticsData}
+          >
+            {isExporting ? (
+              <Loader2 className="w-4 h-4 animate-spin" />
+            ) : (
+              <Download className="w-4 h-4" />
+            )}
+            Export CSV
           </Button>
         </div>
       </div>
 
-      {/* Key Metrics */}
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-6">
-        <Card>
-          <CardContent className="p-6">
-            <div className="flex items-center">
-              <div className="p-2 bg-blue-100 rounded-lg">
-                <Users className="w-6 h-6 text-blue-600" />
-              </div>
-              <div className="ml-4">
-                <p className="text-sm font-medium text-gray-600">Total Users</p>
-                <p className="text-2xl font-bold text-gray-900">
-                  {analyticsData.totalUsers}
-                </p>
-                <div className="flex items-center text-sm text-green-600">
-                  <TrendingUp className="w-4 h-4 mr-1" />+
-                  {analyticsData.newUsers} this month
-                </div>
-              </div>
-            </div>
-          </CardContent>
-        </Card>
-
-        <Card>
-          <CardContent className="p-6">
-            <div className="flex items-center">
-              <div className="p-2 bg-green-100 rounded-lg">
-                <UserCheck className="w-6 h-6 text-green-600" />
-              </div>
-              <div className="ml-4">
-                <p className="text-sm font-medium text-gray-600">
-                  Active Users
-                </p>
-                <p className="text-2xl font-bold text-gray-900">
-                  {analyticsData.activeUsers}
-                </p>
-                <p className="text-sm text-gray-500">
-                  {Math.round(
-                    (analyticsData.activeUsers / analyticsData.totalUsers) * 100
-                  )}
-                  % of total
-                </p>
-              </div>
-            </div>
-          </CardContent>
-        </Card>
-
-        <Card>
-          <CardContent className="p-6">
-            <div className="flex items-center">
-              <div className="p-2 bg-purple-100 rounded-lg">
-                <BarChart3 className="w-6 h-6 text-purple-600" />
-              </div>
-              <div className="ml-4">
-                <p className="text-sm font-medium text-gray-600">Admins</p>
-                <p className="text-2xl font-bold text-gray-900">
-                  {analyticsData.adminUsers}
-                </p>
-                <p className="text-sm text-gray-500">
-                  {Math.round(
-                    (analyticsData.adminUsers / analyticsData.totalUsers) * 100
-                  )}
-                  % of total
-                </p>
-              </div>
-            </div>
-          </CardContent>
-        </Card>
-
-        <Card>
-          <CardContent className="p-6">
-            <div className="flex items-center">
-              <div className="p-2 bg-orange-100 rounded-lg">
-                <UserCheck className="w-6 h-6 text-orange-600" />
-              </div>
-              <div className="ml-4">
-                <p className="text-sm font-medium text-gray-600">Verified</p>
-                <p className="text-2xl font-bold text-gray-900">
-                  {analyticsData.verifiedUsers}
-                </p>
-                <p className="text-sm text-gray-500">
-                  {Math.round(
-                    (analyticsData.verifiedUsers / analyticsData.totalUsers) *
-                      100
-                  )}
-                  % verified
-                </p>
-              </div>
-            </div>
-          </CardContent>
-        </Card>
-
-        <Card>
-          <CardContent className="p-6">
-            <div className="flex items-center">
-              <div className="p-2 bg-red-100 rounded-lg">
-                <UserX className="w-6 h-6 text-red-600" />
-              </div>
-              <div className="ml-4">
-                <p className="text-sm font-medium text-gray-600">Suspended</p>
-                <p className="text-2xl font-bold text-gray-900">
-                  {analyticsData.userDistribution.byStatus.find(
-                    (s) => s.status === "Suspended"
-                  )?.count || 0}
-                </p>
-                <p className="text-sm text-gray-500">Inactive accounts</p>
-              </div>
-            </div>
-          </CardContent>
-        </Card>
-      </div>
+      {error && (
+        <div className="rounded-lg border border-red-200 bg-red-50 p-4 text-sm text-red-700">
+          {error}
+        </div>
+      )}
 
-      {/* Activity Metrics */}
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
-        <Card>
-          <CardHeader className="pb-2">
-            <CardTitle className="text-sm font-medium">Logins Today</CardTitle>
-          </CardHeader>
-          <CardContent>
-            <div className="text-2xl font-bold">
-              {analyticsData.activityMetrics.loginsToday}
+      {loading && !analyticsData ? (
+        <div className="flex justify-center p-8">Loading analytics...</div>
+      ) : !analyticsData || !summary ? (
+        <div className="text-center p-8">No analytics data available</div>
+      ) : (
+        <div className={`space-y-6 ${loading ? "opacity-60" : ""}`}>
+          {analyticsData.unconvertedCurrencies.length > 0 && (
+            <div className="rounded-lg border border-yellow-200 bg-yellow-50 p-4 text-sm text-yellow-800">
+              Orders in {analyticsData.unconvertedCurrencies.join(", ")} are
+              excluded from money totals because no active market provides an
+              exchange rate.
             </div>
-            <p className="text-xs text-gray-600">Active sessions</p>
-          </CardContent>
-        </Card>
+          )}
 
-        <Card>
-          <CardHeader className="pb-2">
-            <CardTitle className="text-sm font-medium">
-              Logins This Week
-            </CardTitle>
-          </CardHeader>
-          <CardContent>
-            <div className="text-2xl font-bold">
-              {analyticsData.activityMetrics.loginsThisWeek}
-            </div>
-            <p className="text-xs text-gray-600">Total logins</p>
-          </CardContent>
-        </Card>
+          {/* Key Metrics */}
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+            <Card>
+              <CardContent className="p-6">
+                <div className="flex items-center">
+                  <div className="p-2 bg-blue-100 rounded-lg">
+                    <TrendingUp className="w-6 h-6 text-blue-600" />
+                  </div>
+                  <div className="ml-4">
+                    <p className="text-sm font-medium text-gray-600">GMV</p>
+                    <p className="text-2xl font-bold text-gray-900">
+                      {formatCurrency(summary.gmv, currency)}
+                    </p>
+                    <p className="text-sm text-gray-500">
+                      AOV {formatCurrency(summary.averageOrderValue, currency)}
+                    </p>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
 
-        <Card>
-          <CardHeader className="pb-2">
-            <CardTitle className="text-sm font-medium">
-              Logins This Month
-            </CardTitle>
-          </CardHeader>
-          <CardContent>
-            <div className="text-2xl font-bold">
-              {analyticsData.activityMetrics.loginsThisMonth}
-            </div>
-            <p className="text-xs text-gray-600">Total logins</p>
-          </CardContent>
-        </Card>
+            <Card>
+              <CardContent className="p-6">
+                <div className="flex items-center">
+                  <div className="p-2 bg-green-100 rounded-lg">
+                    <ShoppingCart className="w-6 h-6 text-green-600" />
+                  </div>
+                  <div className="ml-4">
+                    <p className="text-sm font-medium text-gray-600">
+                      Paid Orders
+                    </p>
+                    <p className="text-2xl font-bold text-gray-900">
+                      {summary.paidOrders}
+                    </p>
+                    <p className="text-sm text-gray-500">
+                      of {summary.placedOrders} placed
+                    </p>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
 
-        <Card>
-          <CardHeader className="pb-2">
-            <CardTitle className="text-sm font-medium">
-              Avg Session Time
-            </CardTitle>
-          </CardHeader>
-          <CardContent>
-            <div className="text-2xl font-bold">
-              {analyticsData.activityMetrics.averageSessionTime}
-            </div>
-            <p className="text-xs text-gray-600">Per session</p>
-          </CardContent>
-        </Card>
-      </div>
+            <Card>
+              <CardContent className="p-6">
+                <div className="flex items-center">
+                  <div className="p-2 bg-red-100 rounded-lg">
+                    <RotateCcw className="w-6 h-6 text-red-600" />
+                  </div>
+                  <div className="ml-4">
+                    <p className="text-sm font-medium text-gray-600">
+                      Refund Rate
+                    </p>
+                    <p className="text-2xl font-bold text-gray-900">
+                      {formatPercent(summary.refundRate)}
+                    </p>
+                    <p className="text-sm text-gray-500">
+                      {formatCurrency(summary.refundedAmount, currency)} on{" "}
+                      {summary.refundedOrders} orders
+                    </p>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
 
-      {/* User Distribution */}
-      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
-        {/* By Role */}
-        <Card>
-          <CardHeader>
-            <CardTitle className="text-lg">Users by Role</CardTitle>
-          </CardHeader>
-          <CardContent>
-            <div className="space-y-3">
-              {analyticsData.userDistribution.byRole.map((item) => (
-                <div
-                  key={item.role}
-                  className="flex justify-between items-center"
-                >
-                  <span className="text-sm font-medium">{item.role}</span>
-                  <div className="flex items-center gap-2">
-                    <div className="w-20 bg-gray-200 rounded-full h-2">
-                      <div
-                        className="bg-blue-600 h-2 rounded-full"
-                        style={{
-                          width: `${(item.count / analyticsData.totalUsers) * 100}%`,
-                        }}
-                      ></div>
-                    </div>
-                    <span className="text-sm text-gray-600 w-8">
-                      {item.count}
-                    </span>
+            <Card>
+              <CardContent className="p-6">
+                <div className="flex items-center">
+                  <div className="p-2 bg-purple-100 rounded-lg">
+                    <UserCheck className="w-6 h-6 text-purple-600" />
+                  </div>
+                  <div className="ml-4">
+                    <p className="text-sm font-medium text-gray-600">
+                      Customers
+                    </p>
+                    <p className="text-2xl font-bold text-gray-900">
+                      {summary.newCustomers + summary.returningCustomers}
+                    </p>
+                    <p className="text-sm text-gray-500">
+                      {summary.newCustomers} new / {summary.returningCustomers}{" "}
+                      returning
+                    </p>
                   </div>
                 </div>
-              ))}
-            </div>
-          </CardContent>
-        </Card>
+              </CardContent>
+            </Card>
+          </div>
 
-        {/* By Status */}
-        <Card>
-          <CardHeader>
-            <CardTitle className="text-lg">Users by Status</CardTitle>
-          </CardHeader>
-          <CardContent>
-            <div className="space-y-3">
-              {analyticsData.userDistribution.byStatus.map((item) => (
-                <div
-                  key={item.status}
-                  className="flex justify-between items-center"
-                >
-                  <span className="text-sm font-medium">{item.status}</span>
-                  <div className="flex items-center gap-2">
-                    <div className="w-20 bg-gray-200 rounded-full h-2">
+          {/* Sales and User Growth */}
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">
+                  GMV by {analyticsData.range.bucket}
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                {analyticsData.series.length === 0 ? (
+                  <div className="h-48 flex flex-col items-center justify-center bg-gray-50 rounded-lg">
+                    <BarChart3 className="w-12 h-12 text-gray-400 mb-2" />
+                    <p className="text-gray-600">No sales in this period</p>
+                  </div>
+                ) : (
+                  <div className="space-y-2 max-h-80 overflow-y-auto">
+                    {analyticsData.series.map((point) => (
                       <div
-                        className={`h-2 rounded-full ${
-                          item.status === "Active"
-                            ? "bg-green-600"
-                            : item.status === "Suspended"
-                              ? "bg-red-600"
-                              : "bg-yellow-600"
-                        }`}
-                        style={{
-                          width: `${(item.count / analyticsData.totalUsers) * 100}%`,
-                        }}
-                      ></div>
-                    </div>
-                    <span className="text-sm text-gray-600 w-8">
-                      {item.count}
-                    </span>
+                        key={point.period}
+                        className="flex justify-between items-center gap-2"
+                      >
+                        <span className="text-sm text-gray-600 w-24">
+                          {point.period}
+                        </span>
+                        <div className="flex-1 bg-gray-200 rounded-full h-2">
+                          <div
+                            className="bg-blue-600 h-2 rounded-full"
+                            style={{
+                              width: `${(point.gmv / maxSeriesGmv) * 100}%`,
+                            }}
+                          ></div>
+                        </div>
+                        <span className="text-sm font-medium w-28 text-right">
+                          {formatCurrency(point.gmv, currency)}
+                        </span>
+                      </div>
+                    ))}
                   </div>
-                </div>
-              ))}
-            </div>
-          </CardContent>
-        </Card>
+                )}
+              </CardContent>
+            </Card>
 
-        {/* By Verification */}
-        <Card>
-          <CardHeader>
-            <CardTitle className="text-lg">Email Verification</CardTitle>
-          </CardHeader>
-          <CardContent>
-            <div className="space-y-3">
-              {analyticsData.userDistribution.byVerification.map((item) => (
-                <div
-                  key={item.verified.toString()}
-                  className="flex justify-between items-center"
-                >
-                  <span className="text-sm font-medium">
-                    {item.verified ? "Verified" : "Unverified"}
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg flex items-center justify-between">
+                  <span>User Growth</span>
+                  <span className="flex items-center text-sm font-normal text-gray-600">
+                    <Users className="w-4 h-4 mr-1" />
+                    {summary.totalUsers} total, +{summary.newUsers} in period
                   </span>
-                  <div className="flex items-center gap-2">
-                    <div className="w-20 bg-gray-200 rounded-full h-2">
-                      <div
-                        className={`h-2 rounded-full ${
-                          item.verified ? "bg-green-600" : "bg-orange-600"
-                        }`}
-                        style={{
-                          width: `${(item.count / analyticsData.totalUsers) * 100}%`,
-                        }}
-                      ></div>
-                    </div>
-                    <span className="text-sm text-gray-600 w-8">
-                      {item.count}
-                    </span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                {summary.newUsers === 0 ? (
+                  <div className="h-48 flex flex-col items-center justify-center bg-gray-50 rounded-lg">
+                    <Users className="w-12 h-12 text-gray-400 mb-2" />
+                    <p className="text-gray-600">No new users in this period</p>
                   </div>
-                </div>
-              ))}
-            </div>
-          </CardContent>
-        </Card>
-      </div>
+                ) : (
+                  <div className="space-y-2 max-h-80 overflow-y-auto">
+                    {analyticsData.series
+                      .filter((point) => point.newUsers > 0)
+                      .map((point) => (
+                        <div
+                          key={point.period}
+                          className="flex justify-between items-center gap-2"
+                        >
+                          <span className="text-sm text-gray-600 w-24">
+                            {point.period}
+                          </span>
+                          <div className="flex-1 bg-gray-200 rounded-full h-2">
+                            <div
+                              className="bg-green-600 h-2 rounded-full"
+                              style={{
+                                width: `${(point.newUsers / maxSeriesUsers) * 100}%`,
+                              }}
+                            ></div>
+                          </div>
+                          <span className="text-sm font-medium w-12 text-right">
+                            {point.newUsers}
+                          </span>
+                        </div>
+                      ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+
+          {/* Top Stores and Listings */}
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Top Stores</CardTitle>
+              </CardHeader>
+              <CardContent className="p-0">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Store</TableHead>
+                      <TableHead className="text-right">Orders</TableHead>
+                      <TableHead className="text-right">GMV</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {analyticsData.topStores.length === 0 ? (
+                      <TableRow>
+                        <TableCell
+                          colSpan={3}
+                          className="text-center py-6 text-gray-500"
+                        >
+                          No sales in this period
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      analyticsData.topStores.map((s) => (
+                        <TableRow key={s.storeId}>
+                          <TableCell className="font-medium">
+                            {s.storeName}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {s.paidOrders}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {formatCurrency(s.gmv, currency)}
+                          </TableCell>
+                        </TableRow>
+                      ))
+                    )}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Top Listings</CardTitle>
+              </CardHeader>
+              <CardContent className="p-0">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Listing</TableHead>
+                      <TableHead className="text-right">Units</TableHead>
+                      <TableHead className="text-right">Revenue</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {analyticsData.topListings.length === 0 ? (
+                      <TableRow>
+                        <TableCell
+                          colSpan={3}
+                          className="text-center py-6 text-gray-500"
+                        >
+                          No sales in this period
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      analyticsData.topListings.map((l) => (
+                        <TableRow key={l.listingId}>
+                          <TableCell>
+                            <div className="font-medium">{l.name}</div>
+                            {l.storeName && (
+                              <div className="text-xs text-gray-500">
+                                {l.storeName}
+                              </div>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {l.unitsSold}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {formatCurrency(l.revenue, currency)}
+                          </TableCell>
+                        </TableRow>
+                      ))
+                    )}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          </div>
 
-      {/* Growth Chart Placeholder */}
-      <Card>
-        <CardHeader>
-          <CardTitle className="text-lg">User Growth</CardTitle>
-        </CardHeader>
-        <CardContent>
-          <div className="h-64 flex items-center justify-center bg-gray-50 rounded-lg">
-            <div className="text-center">
-              <BarChart3 className="w-12 h-12 text-gray-400 mx-auto mb-2" />
-              <p className="text-gray-600">Chart visualization would go here</p>
+          {/* Markets */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Conversion by Market</CardTitle>
               <p className="text-sm text-gray-500">
-                Integration with charting library needed
+                Share of placed orders that were paid
               </p>
-            </div>
-          </div>
-        </CardContent>
-      </Card>
+            </CardHeader>
+            <CardContent className="p-0">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Market</TableHead>
+                    <TableHead className="text-right">Placed</TableHead>
+                    <TableHead className="text-right">Paid</TableHead>
+                    <TableHead className="text-right">Conversion</TableHead>
+                    <TableHead className="text-right">GMV</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {analyticsData.markets.length === 0 ? (
+                    <TableRow>
+                      <TableCell
+                        colSpan={5}
+                        className="text-center py-6 text-gray-500"
+                      >
+                        No orders in this period
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    analyticsData.markets.map((m) => (
+                      <TableRow key={m.marketId ?? "none"}>
+                        <TableCell className="font-medium">
+                          {m.marketName}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {m.placedOrders}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {m.paidOrders}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {formatPercent(m.conversionRate)}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {formatCurrency(m.gmv, currency)}
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </div>
+      )}
     </div>
   );
 }
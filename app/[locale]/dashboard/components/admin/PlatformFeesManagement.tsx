@@ -0,0 +1,569 @@
+"use client";
+
+import React, { useState } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Plus, Edit, Trash2 } from "lucide-react";
+import {
+  usePlatformFeeRules,
+  usePlatformFeeRuleOptions,
+  useCreatePlatformFeeRule,
+  useUpdatePlatformFeeRule,
+  useDeletePlatformFeeRule,
+} from "../../../hooks/usePlatformFeeQueries";
+import type {
+  PlatformFeeRuleInput,
+  PlatformFeeRuleRow,
+} from "../../../actions/platform-fees";
+import { TaxonomyCategorySelector } from "../shared/TaxonomyCategorySelector";
+
+const ALL = "all";
+
+const emptyForm: PlatformFeeRuleInput = {
+  name: "",
+  storeId: null,
+  taxonomyCategoryId: "",
+  marketId: null,
+  currency: null,
+  ratePercent: "",
+  fixedFee: "",
+  maxFee: "",
+  maxStoreAgeDays: null,
+  startsAt: "",
+  endsAt: "",
+  priority: 0,
+  isActive: true,
+  notes: "",
+};
+
+function toDateInput(value: Date | null) {
+  return value ? new Date(value).toISOString().slice(0, 10) : "";
+}
+
+function formatDate(value: Date) {
+  return new Date(value).toLocaleDateString(undefined, { timeZone: "UTC" });
+}
+
+function describeFee(rule: PlatformFeeRuleRow) {
+  let fee = `${parseFloat(rule.ratePercent)}%`;
+  if (parseFloat(rule.fixedFee) > 0) {
+    fee += ` + ${rule.fixedFee} ${rule.currency}`;
+  }
+  return fee;
+}
+
+export default function PlatformFeesManagement() {
+  const { data: rulesData, isLoading } = usePlatformFeeRules();
+  const { data: optionsData } = usePlatformFeeRuleOptions();
+
+  const createRuleMutation = useCreatePlatformFeeRule();
+  const updateRuleMutation = useUpdatePlatformFeeRule();
+  const deleteRuleMutation = useDeletePlatformFeeRule();
+
+  const feeRules = rulesData?.result || [];
+  const storeOptions = optionsData?.result?.stores || [];
+  const marketOptions = optionsData?.result?.markets || [];
+  const currencyOptions = [
+    ...new Set(["EUR", "NPR", ...marketOptions.map((m) => m.currency)]),
+  ].sort();
+
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingRule, setEditingRule] = useState<PlatformFeeRuleRow | null>(
+    null
+  );
+  const [formData, setFormData] = useState<PlatformFeeRuleInput>(emptyForm);
+
+  const openCreateDialog = () => {
+    setEditingRule(null);
+    setFormData(emptyForm);
+    setIsDialogOpen(true);
+  };
+
+  const openEditDialog = (rule: PlatformFeeRuleRow) => {
+    setEditingRule(rule);
+    setFormData({
+      name: rule.name,
+      storeId: rule.storeId,
+      taxonomyCategoryId: rule.taxonomyCategoryId || "",
+      marketId: rule.marketId,
+      currency: rule.currency,
+      ratePercent: rule.ratePercent,
+      fixedFee: parseFloat(rule.fixedFee) > 0 ? rule.fixedFee : "",
+      maxFee: rule.maxFee || "",
+      maxStoreAgeDays: rule.maxStoreAgeDays,
+      startsAt: toDateInput(rule.startsAt),
+      endsAt: toDateInput(rule.endsAt),
+      priority: rule.priority,
+      isActive: rule.isActive,
+      notes: rule.notes || "",
+    });
+    setIsDialogOpen(true);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const onSuccess = () => setIsDialogOpen(false);
+
+    if (editingRule) {
+      updateRuleMutation.mutate(
+        { ruleId: editingRule.id, data: formData },
+        { onSuccess }
+      );
+    } else {
+      createRuleMutation.mutate(formData, { onSuccess });
+    }
+  };
+
+  const handleDeleteRule = (ruleId: string) => {
+    if (!confirm("Are you sure you want to delete this fee rule?")) {
+      return;
+    }
+    deleteRuleMutation.mutate(ruleId);
+  };
+
+  const isSaving = createRuleMutation.isPending || updateRuleMutation.isPending;
+
+  if (isLoading) {
+    return <div className="flex justify-center p-8">Loading fee rules...</div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-2xl font-bold">Platform Fees</h2>
+          <p className="text-gray-600">
+            Commission charged on each order. The most specific rule wins:
+            store, new producer, category, market, then currency. A rule without
+            scope is the default rate. Changes apply to new payments only.
+          </p>
+        </div>
+        <Button className="flex items-center gap-2" onClick={openCreateDialog}>
+          <Plus className="w-4 h-4" />
+          Add Fee Rule
+        </Button>
+      </div>
+
+      {/* Fee Rules Table */}
+      <Card>
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Store</TableHead>
+                <TableHead>Category</TableHead>
+                <TableHead>Market</TableHead>
+                <TableHead>Fee</TableHead>
+                <TableHead>Cap</TableHead>
+                <TableHead>Valid</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {feeRules.length === 0 ? (
+                <TableRow>
+                  <TableCell
+                    colSpan={9}
+                    className="text-center py-8 text-gray-500"
+                  >
+                    No fee rules found. Orders are charged the built-in 5%
+                    default until a rule exists.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                feeRules.map((rule) => (
+                  <TableRow key={rule.id}>
+                    <TableCell className="font-medium">
+                      {rule.name}
+                      {rule.notes && (
+                        <p className="text-xs text-gray-500 font-normal">
+                          {rule.notes}
+                        </p>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {rule.storeName ||
+                        (rule.maxStoreAgeDays !== null ? (
+                          `New producers (${rule.maxStoreAgeDays} days)`
+                        ) : (
+                          <span className="text-gray-400">All stores</span>
+                        ))}
+                    </TableCell>
+                    <TableCell>
+                      {rule.taxonomyCategoryName || (
+                        <span className="text-gray-400">All categories</span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {rule.marketName || rule.currency || (
+                        <span className="text-gray-400">All markets</span>
+                      )}
+                    </TableCell>
+                    <TableCell>{describeFee(rule)}</TableCell>
+                    <TableCell>
+                      {rule.maxFee ? (
+                        `${rule.maxFee} ${rule.currency}`
+                      ) : (
+                        <span className="text-gray-400">None</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {rule.startsAt || rule.endsAt ? (
+                        <>
+                          {rule.startsAt ? formatDate(rule.startsAt) : "…"}
+                          {" – "}
+                          {rule.endsAt ? formatDate(rule.endsAt) : "…"}
+                        </>
+                      ) : (
+                        <span className="text-gray-400">Always</span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {rule.isActive ? (
+                        <span className="text-green-600 font-medium">
+                          Active
+                        </span>
+                      ) : (
+                        <span className="text-gray-400">Inactive</span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex gap-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => openEditDialog(rule)}
+                        >
+                          <Edit className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleDeleteRule(rule.id)}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {/* Create / Edit Dialog */}
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-2xl max-h-[95vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>
+              {editingRule
+                ? `Edit Fee Rule: ${editingRule.name}`
+                : "New Fee Rule"}
+            </DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <Label htmlFor="fee-name">Name *</Label>
+              <Input
+                id="fee-name"
+                value={formData.name}
+                onChange={(e) =>
+                  setFormData({ ...formData, name: e.target.value })
+                }
+                placeholder="e.g. Default, Cooperative rate, New producer promo"
+                required
+              />
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label>Store</Label>
+                <Select
+                  value={formData.storeId || ALL}
+                  onValueChange={(value) =>
+                    setFormData({
+                      ...formData,
+                      storeId: value === ALL ? null : value,
+                    })
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="All stores" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>All stores</SelectItem>
+                    {storeOptions.map((s) => (
+                      <SelectItem key={s.id} value={s.id}>
+                        {s.storeName}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="fee-store-age">New producers only (days)</Label>
+                <Input
+                  id="fee-store-age"
+                  type="number"
+                  min="1"
+                  value={formData.maxStoreAgeDays ?? ""}
+                  onChange={(e) =>
+                    setFormData({
+                      ...formData,
+                      maxStoreAgeDays: e.target.value
+                        ? parseInt(e.target.value)
+                        : null,
+                    })
+                  }
+                  placeholder="e.g. 90"
+                />
+                <p className="text-sm text-gray-500 mt-1">
+                  Applies while the store is younger than this
+                </p>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label>Market</Label>
+                <Select
+                  value={formData.marketId || ALL}
+                  onValueChange={(value) =>
+                    setFormData({
+                      ...formData,
+                      marketId: value === ALL ? null : value,
+                    })
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="All markets" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>All markets</SelectItem>
+                    {marketOptions.map((market) => (
+                      <SelectItem key={market.id} value={market.id}>
+                        {market.name} ({market.currency})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Currency</Label>
+                <Select
+                  value={formData.currency || ALL}
+                  onValueChange={(value) =>
+                    setFormData({
+                      ...formData,
+                      currency: value === ALL ? null : value,
+                    })
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Any currency" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>Any currency</SelectItem>
+                    {currencyOptions.map((currency) => (
+                      <SelectItem key={currency} value={currency}>
+                        {currency}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-sm text-gray-500 mt-1">
+                  Required for a fixed fee or cap
+                </p>
+              </div>
+            </div>
+
+            <TaxonomyCategorySelector
+              value={formData.taxonomyCategoryId || ""}
+              onChange={(value) =>
+                setFormData({ ...formData, taxonomyCategoryId: value })
+              }
+              label="Category"
+              description="Leave empty for all products. Applies to order lines in the selected category and its subcategories."
+            />
+            {formData.taxonomyCategoryId && (
+              <Button
+                type="button"
+                variant="link"
+                className="px-0"
+                onClick={() =>
+                  setFormData({ ...formData, taxonomyCategoryId: "" })
+                }
+              >
+                Clear category
+              </Button>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <Label htmlFor="fee-rate">Rate (%) *</Label>
+                <Input
+                  id="fee-rate"
+                  type="number"
+                  step="0.001"
+                  min="0"
+                  max="100"
+                  value={formData.ratePercent}
+                  onChange={(e) =>
+                    setFormData({ ...formData, ratePercent: e.target.value })
+                  }
+                  placeholder="5"
+                  required
+                />
+              </div>
+              <div>
+                <Label htmlFor="fee-fixed">Fixed fee per order</Label>
+                <Input
+                  id="fee-fixed"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={formData.fixedFee || ""}
+                  onChange={(e) =>
+                    setFormData({ ...formData, fixedFee: e.target.value })
+                  }
+                  placeholder="0.00"
+                />
+              </div>
+              <div>
+                <Label htmlFor="fee-cap">Fee cap per order</Label>
+                <Input
+                  id="fee-cap"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={formData.maxFee || ""}
+                  onChange={(e) =>
+                    setFormData({ ...formData, maxFee: e.target.value })
+                  }
+                  placeholder="No cap"
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="fee-starts">Starts</Label>
+                <Input
+                  id="fee-starts"
+                  type="date"
+                  value={formData.startsAt || ""}
+                  onChange={(e) =>
+                    setFormData({ ...formData, startsAt: e.target.value })
+                  }
+                />
+              </div>
+              <div>
+                <Label htmlFor="fee-ends">Ends</Label>
+                <Input
+                  id="fee-ends"
+                  type="date"
+                  value={formData.endsAt || ""}
+                  onChange={(e) =>
+                    setFormData({ ...formData, endsAt: e.target.value })
+                  }
+                />
+                <p className="text-sm text-gray-500 mt-1">
+                  The rule stops applying at the start of this day (UTC)
+                </p>
+              </div>
+            </div>
+
+            <div>
+              <Label htmlFor="fee-priority">Priority</Label>
+              <Input
+                id="fee-priority"
+                type="number"
+                value={formData.priority ?? 0}
+                onChange={(e) =>
+                  setFormData({
+                    ...formData,
+                    priority: parseInt(e.target.value) || 0,
+                  })
+                }
+              />
+              <p className="text-sm text-gray-500 mt-1">
+                Breaks ties between equally specific rules (higher wins)
+              </p>
+            </div>
+
+            <div>
+              <Label htmlFor="fee-notes">Internal notes</Label>
+              <Input
+                id="fee-notes"
+                value={formData.notes || ""}
+                onChange={(e) =>
+                  setFormData({ ...formData, notes: e.target.value })
+                }
+                placeholder="e.g. Agreement signed 2026-03, renew yearly"
+              />
+            </div>
+
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="fee-active"
+                checked={formData.isActive}
+                onCheckedChange={(checked) =>
+                  setFormData({ ...formData, isActive: checked as boolean })
+                }
+              />
+              <Label htmlFor="fee-active" className="text-sm font-medium">
+                Active
+              </Label>
+            </div>
+
+            <div className="flex justify-end gap-2 pt-4 border-t">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setIsDialogOpen(false)}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSaving}>
+                {isSaving
+                  ? "Saving..."
+                  : editingRule
+                    ? "Update Fee Rule"
+                    : "Create Fee Rule"}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
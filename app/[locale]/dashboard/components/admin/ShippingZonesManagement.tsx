@@ -0,0 +1,429 @@
+"use client";
+
+import React, { useState } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Plus, Edit, Trash2 } from "lucide-react";
+import {
+  useShippingZones,
+  useCreateShippingZone,
+  useUpdateShippingZone,
+  useDeleteShippingZone,
+} from "../../../hooks/useShippingZoneQueries";
+import type { ShippingZoneRow } from "../../../actions/shipping-zones";
+import type { ShippingZoneType } from "@/lib/shipping-zones";
+
+const ZONE_TYPE_LABELS: Record<ShippingZoneType, string> = {
+  countries: "Countries",
+  regions: "States / provinces",
+  postal_codes: "Postal codes",
+};
+
+// Lists are edited as comma or newline separated text
+interface ShippingZoneFormData {
+  code: string;
+  name: string;
+  description: string;
+  zoneType: ShippingZoneType;
+  countryCodes: string;
+  regionCodes: string;
+  postalCodeRanges: string;
+  isActive: boolean;
+}
+
+const emptyForm: ShippingZoneFormData = {
+  code: "",
+  name: "",
+  description: "",
+  zoneType: "countries",
+  countryCodes: "",
+  regionCodes: "",
+  postalCodeRanges: "",
+  isActive: true,
+};
+
+function splitList(value: string): string[] {
+  return value
+    .split(/[,\n]/)
+    .map((v) => v.trim())
+    .filter(Boolean);
+}
+
+function summarizeList(values: string[], max = 8) {
+  if (values.length <= max) return values.join(", ");
+  return `${values.slice(0, max).join(", ")} +${values.length - max} more`;
+}
+
+export default function ShippingZonesManagement() {
+  const { data: zonesData, isLoading } = useShippingZones();
+
+  const createZoneMutation = useCreateShippingZone();
+  const updateZoneMutation = useUpdateShippingZone();
+  const deleteZoneMutation = useDeleteShippingZone();
+
+  const shippingZones = zonesData?.result || [];
+
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingZone, setEditingZone] = useState<ShippingZoneRow | null>(null);
+  const [formData, setFormData] = useState<ShippingZoneFormData>(emptyForm);
+
+  const openCreateDialog = () => {
+    setEditingZone(null);
+    setFormData(emptyForm);
+    setIsDialogOpen(true);
+  };
+
+  const openEditDialog = (zone: ShippingZoneRow) => {
+    setEditingZone(zone);
+    setFormData({
+      code: zone.code,
+      name: zone.name,
+      description: zone.description || "",
+      zoneType: zone.zoneType,
+      countryCodes: zone.countryCodes.join(", "),
+      regionCodes: zone.regionCodes.join(", "),
+      postalCodeRanges: zone.postalCodeRanges.join("\n"),
+      isActive: zone.isActive,
+    });
+    setIsDialogOpen(true);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const onSuccess = () => setIsDialogOpen(false);
+    const data = {
+      code: formData.code,
+      name: formData.name,
+      description: formData.description || null,
+      zoneType: formData.zoneType,
+      countryCodes: splitList(formData.countryCodes),
+      regionCodes: splitList(formData.regionCodes),
+      postalCodeRanges: splitList(formData.postalCodeRanges),
+      isActive: formData.isActive,
+    };
+
+    if (editingZone) {
+      updateZoneMutation.mutate(
+        { zoneId: editingZone.id, data },
+        { onSuccess }
+      );
+    } else {
+      createZoneMutation.mutate(data, { onSuccess });
+    }
+  };
+
+  const handleDeleteZone = (zoneId: string) => {
+    if (!confirm("Are you sure you want to delete this shipping zone?")) {
+      return;
+    }
+    deleteZoneMutation.mutate(zoneId);
+  };
+
+  const isSaving = createZoneMutation.isPending || updateZoneMutation.isPending;
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center p-8">Loading shipping zones...</div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-2xl font-bold">Shipping Zones</h2>
+          <p className="text-gray-600">
+            Groups of countries, states or postal codes that sellers can attach
+            shipping rates to. The most specific match wins: postal codes, then
+            states, then a single country, then country zones, then everywhere
+            else.
+          </p>
+        </div>
+        <Button className="flex items-center gap-2" onClick={openCreateDialog}>
+          <Plus className="w-4 h-4" />
+          Add Zone
+        </Button>
+      </div>
+
+      {/* Shipping Zones Table */}
+      <Card>
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Code</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead>Covers</TableHead>
+                <TableHead>Used by</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {shippingZones.length === 0 ? (
+                <TableRow>
+                  <TableCell
+                    colSpan={7}
+                    className="text-center py-8 text-gray-500"
+                  >
+                    No shipping zones found. Sellers can still ship to single
+                    countries and everywhere else.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                shippingZones.map((zone) => (
+                  <TableRow key={zone.id}>
+                    <TableCell className="font-medium">
+                      {zone.name}
+                      {zone.description && (
+                        <div className="text-sm font-normal text-gray-500">
+                          {zone.description}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell className="font-mono text-sm">
+                      {zone.code}
+                    </TableCell>
+                    <TableCell>{ZONE_TYPE_LABELS[zone.zoneType]}</TableCell>
+                    <TableCell className="max-w-xs text-sm">
+                      {summarizeList(zone.countryCodes)}
+                      {zone.zoneType === "regions" &&
+                        ` / ${summarizeList(zone.regionCodes)}`}
+                      {zone.zoneType === "postal_codes" &&
+                        ` / ${summarizeList(zone.postalCodeRanges, 4)}`}
+                    </TableCell>
+                    <TableCell>
+                      {zone.destinationCount === 1
+                        ? "1 destination"
+                        : `${zone.destinationCount} destinations`}
+                    </TableCell>
+                    <TableCell>
+                      {zone.isActive ? (
+                        <span className="text-green-600 font-medium">
+                          Active
+                        </span>
+                      ) : (
+                        <span className="text-gray-400">Inactive</span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex gap-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => openEditDialog(zone)}
+                        >
+                          <Edit className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleDeleteZone(zone.id)}
+                          disabled={zone.destinationCount > 0}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {/* Create / Edit Dialog */}
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-2xl max-h-[95vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>
+              {editingZone
+                ? `Edit Shipping Zone: ${editingZone.name}`
+                : "New Shipping Zone"}
+            </DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="zone-name">Name *</Label>
+                <Input
+                  id="zone-name"
+                  value={formData.name}
+                  onChange={(e) =>
+                    setFormData({ ...formData, name: e.target.value })
+                  }
+                  placeholder="e.g. European Union"
+                  required
+                />
+              </div>
+              <div>
+                <Label htmlFor="zone-code">Code *</Label>
+                <Input
+                  id="zone-code"
+                  value={formData.code}
+                  onChange={(e) =>
+                    setFormData({ ...formData, code: e.target.value })
+                  }
+                  placeholder="e.g. EU"
+                  required
+                  disabled={!!editingZone && editingZone.destinationCount > 0}
+                />
+              </div>
+            </div>
+
+            <div>
+              <Label htmlFor="zone-description">Description</Label>
+              <Input
+                id="zone-description"
+                value={formData.description}
+                onChange={(e) =>
+                  setFormData({ ...formData, description: e.target.value })
+                }
+                placeholder="Shown to sellers when they pick a zone"
+              />
+            </div>
+
+            <div>
+              <Label>Zone type *</Label>
+              <Select
+                value={formData.zoneType}
+                onValueChange={(value) =>
+                  setFormData({
+                    ...formData,
+                    zoneType: value as ShippingZoneType,
+                  })
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(ZONE_TYPE_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div>
+              <Label htmlFor="zone-countries">Countries *</Label>
+              <Textarea
+                id="zone-countries"
+                value={formData.countryCodes}
+                onChange={(e) =>
+                  setFormData({ ...formData, countryCodes: e.target.value })
+                }
+                placeholder="e.g. FI, SE, NO"
+                rows={2}
+                required
+              />
+              <p className="text-sm text-gray-500 mt-1">
+                2-letter ISO codes, separated by commas
+              </p>
+            </div>
+
+            {formData.zoneType === "regions" && (
+              <div>
+                <Label htmlFor="zone-regions">States / provinces *</Label>
+                <Textarea
+                  id="zone-regions"
+                  value={formData.regionCodes}
+                  onChange={(e) =>
+                    setFormData({ ...formData, regionCodes: e.target.value })
+                  }
+                  placeholder="e.g. AK, HI"
+                  rows={3}
+                />
+                <p className="text-sm text-gray-500 mt-1">
+                  Codes as customers enter them at checkout, separated by commas
+                </p>
+              </div>
+            )}
+
+            {formData.zoneType === "postal_codes" && (
+              <div>
+                <Label htmlFor="zone-postal">Postal codes *</Label>
+                <Textarea
+                  id="zone-postal"
+                  value={formData.postalCodeRanges}
+                  onChange={(e) =>
+                    setFormData({
+                      ...formData,
+                      postalCodeRanges: e.target.value,
+                    })
+                  }
+                  placeholder={"e.g. 995\n96700-96899"}
+                  rows={4}
+                />
+                <p className="text-sm text-gray-500 mt-1">
+                  One prefix or range per line. Ranges compare the leading
+                  digits, so &quot;967-968&quot; covers 96701 through 96898.
+                </p>
+              </div>
+            )}
+
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="zone-active"
+                checked={formData.isActive}
+                onCheckedChange={(checked) =>
+                  setFormData({ ...formData, isActive: checked as boolean })
+                }
+              />
+              <Label htmlFor="zone-active" className="text-sm font-medium">
+                Active (inactive zones stop matching at checkout)
+              </Label>
+            </div>
+
+            <div className="flex justify-end gap-2 pt-4 border-t">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setIsDialogOpen(false)}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSaving}>
+                {isSaving
+                  ? "Saving..."
+                  : editingZone
+                    ? "Update Zone"
+                    : "Create Zone"}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
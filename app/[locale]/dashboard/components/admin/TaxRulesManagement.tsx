@@ -0,0 +1,403 @@
+"use client";
+
+import React, { useState } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { CountrySelect } from "@/components/ui/country-select";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Plus, Edit, Trash2 } from "lucide-react";
+import {
+  useTaxRules,
+  useTaxRuleMarkets,
+  useCreateTaxRule,
+  useUpdateTaxRule,
+  useDeleteTaxRule,
+} from "../../../hooks/useTaxRuleQueries";
+import type { TaxRuleInput, TaxRuleRow } from "../../../actions/tax-rules";
+import { TaxonomyCategorySelector } from "../shared/TaxonomyCategorySelector";
+
+const ALL_MARKETS = "all";
+
+const emptyForm: TaxRuleInput = {
+  name: "",
+  marketId: null,
+  countryCode: "",
+  regionCode: "",
+  taxonomyCategoryId: "",
+  rate: "",
+  appliesToShipping: false,
+  priority: 0,
+  isActive: true,
+};
+
+export default function TaxRulesManagement() {
+  const { data: rulesData, isLoading } = useTaxRules();
+  const { data: marketsData } = useTaxRuleMarkets();
+
+  const createRuleMutation = useCreateTaxRule();
+  const updateRuleMutation = useUpdateTaxRule();
+  const deleteRuleMutation = useDeleteTaxRule();
+
+  const taxRules = rulesData?.result || [];
+  const marketOptions = marketsData?.result || [];
+
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingRule, setEditingRule] = useState<TaxRuleRow | null>(null);
+  const [formData, setFormData] = useState<TaxRuleInput>(emptyForm);
+
+  const openCreateDialog = () => {
+    setEditingRule(null);
+    setFormData(emptyForm);
+    setIsDialogOpen(true);
+  };
+
+  const openEditDialog = (rule: TaxRuleRow) => {
+    setEditingRule(rule);
+    setFormData({
+      name: rule.name,
+      marketId: rule.marketId,
+      countryCode: rule.countryCode,
+      regionCode: rule.regionCode || "",
+      taxonomyCategoryId: rule.taxonomyCategoryId || "",
+      rate: rule.rate,
+      appliesToShipping: rule.appliesToShipping,
+      priority: rule.priority,
+      isActive: rule.isActive,
+    });
+    setIsDialogOpen(true);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const onSuccess = () => setIsDialogOpen(false);
+
+    if (editingRule) {
+      updateRuleMutation.mutate(
+        { ruleId: editingRule.id, data: formData },
+        { onSuccess }
+      );
+    } else {
+      createRuleMutation.mutate(formData, { onSuccess });
+    }
+  };
+
+  const handleDeleteRule = (ruleId: string) => {
+    if (!confirm("Are you sure you want to delete this tax rule?")) {
+      return;
+    }
+    deleteRuleMutation.mutate(ruleId);
+  };
+
+  const isSaving = createRuleMutation.isPending || updateRuleMutation.isPending;
+
+  if (isLoading) {
+    return <div className="flex justify-center p-8">Loading tax rules...</div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-2xl font-bold">Tax Rules</h2>
+          <p className="text-gray-600">
+            Rates per country or region. Category rules override the general
+            rate for products in that category. Whether prices include tax is
+            set per market.
+          </p>
+        </div>
+        <Button className="flex items-center gap-2" onClick={openCreateDialog}>
+          <Plus className="w-4 h-4" />
+          Add Tax Rule
+        </Button>
+      </div>
+
+      {/* Tax Rules Table */}
+      <Card>
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Destination</TableHead>
+                <TableHead>Market</TableHead>
+                <TableHead>Category</TableHead>
+                <TableHead>Rate</TableHead>
+                <TableHead>Shipping</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {taxRules.length === 0 ? (
+                <TableRow>
+                  <TableCell
+                    colSpan={8}
+                    className="text-center py-8 text-gray-500"
+                  >
+                    No tax rules found. Orders are not taxed until a rule exists
+                    for the shipping country.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                taxRules.map((rule) => (
+                  <TableRow key={rule.id}>
+                    <TableCell className="font-medium">{rule.name}</TableCell>
+                    <TableCell>
+                      {rule.countryCode}
+                      {rule.regionCode ? ` / ${rule.regionCode}` : ""}
+                    </TableCell>
+                    <TableCell>{rule.marketName || "All markets"}</TableCell>
+                    <TableCell>
+                      {rule.taxonomyCategoryName || (
+                        <span className="text-gray-400">All categories</span>
+                      )}
+                    </TableCell>
+                    <TableCell>{parseFloat(rule.rate)}%</TableCell>
+                    <TableCell>
+                      {rule.appliesToShipping ? (
+                        <span className="text-green-600 font-medium">Yes</span>
+                      ) : (
+                        <span className="text-gray-400">No</span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {rule.isActive ? (
+                        <span className="text-green-600 font-medium">
+                          Active
+                        </span>
+                      ) : (
+                        <span className="text-gray-400">Inactive</span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex gap-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => openEditDialog(rule)}
+                        >
+                          <Edit className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleDeleteRule(rule.id)}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {/* Create / Edit Dialog */}
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-2xl max-h-[95vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>
+              {editingRule
+                ? `Edit Tax Rule: ${editingRule.name}`
+                : "New Tax Rule"}
+            </DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <Label htmlFor="tax-name">Name *</Label>
+              <Input
+                id="tax-name"
+                value={formData.name}
+                onChange={(e) =>
+                  setFormData({ ...formData, name: e.target.value })
+                }
+                placeholder="e.g. VAT, Sales tax, Reduced VAT (food)"
+                required
+              />
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="tax-country">Country *</Label>
+                <CountrySelect
+                  id="tax-country"
+                  value={formData.countryCode}
+                  onValueChange={(value) =>
+                    setFormData({ ...formData, countryCode: value })
+                  }
+                />
+              </div>
+              <div>
+                <Label htmlFor="tax-region">Region / State</Label>
+                <Input
+                  id="tax-region"
+                  value={formData.regionCode || ""}
+                  onChange={(e) =>
+                    setFormData({ ...formData, regionCode: e.target.value })
+                  }
+                  placeholder="e.g. CA (leave empty for the whole country)"
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="tax-rate">Rate (%) *</Label>
+                <Input
+                  id="tax-rate"
+                  type="number"
+                  step="0.001"
+                  min="0"
+                  max="100"
+                  value={formData.rate}
+                  onChange={(e) =>
+                    setFormData({ ...formData, rate: e.target.value })
+                  }
+                  placeholder="25.5"
+                  required
+                />
+              </div>
+              <div>
+                <Label>Market</Label>
+                <Select
+                  value={formData.marketId || ALL_MARKETS}
+                  onValueChange={(value) =>
+                    setFormData({
+                      ...formData,
+                      marketId: value === ALL_MARKETS ? null : value,
+                    })
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="All markets" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL_MARKETS}>All markets</SelectItem>
+                    {marketOptions.map((market) => (
+                      <SelectItem key={market.id} value={market.id}>
+                        {market.name}
+                        {market.pricesIncludeTax ? " (tax-inclusive)" : ""}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <TaxonomyCategorySelector
+              value={formData.taxonomyCategoryId || ""}
+              onChange={(value) =>
+                setFormData({ ...formData, taxonomyCategoryId: value })
+              }
+              label="Category override"
+              description="Leave empty for the general rate. Applies to the selected category and its subcategories."
+            />
+            {formData.taxonomyCategoryId && (
+              <Button
+                type="button"
+                variant="link"
+                className="px-0"
+                onClick={() =>
+                  setFormData({ ...formData, taxonomyCategoryId: "" })
+                }
+              >
+                Clear category
+              </Button>
+            )}
+
+            <div>
+              <Label htmlFor="tax-priority">Priority</Label>
+              <Input
+                id="tax-priority"
+                type="number"
+                value={formData.priority ?? 0}
+                onChange={(e) =>
+                  setFormData({
+                    ...formData,
+                    priority: parseInt(e.target.value) || 0,
+                  })
+                }
+              />
+              <p className="text-sm text-gray-500 mt-1">
+                Breaks ties between equally specific rules (higher wins)
+              </p>
+            </div>
+
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="tax-shipping"
+                checked={formData.appliesToShipping}
+                onCheckedChange={(checked) =>
+                  setFormData({
+                    ...formData,
+                    appliesToShipping: checked as boolean,
+                  })
+                }
+              />
+              <Label htmlFor="tax-shipping" className="text-sm font-medium">
+                Also tax shipping (general rules only)
+              </Label>
+            </div>
+
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="tax-active"
+                checked={formData.isActive}
+                onCheckedChange={(checked) =>
+                  setFormData({ ...formData, isActive: checked as boolean })
+                }
+              />
+              <Label htmlFor="tax-active" className="text-sm font-medium">
+                Active
+              </Label>
+            </div>
+
+            <div className="flex justify-end gap-2 pt-4 border-t">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setIsDialogOpen(false)}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSaving}>
+                {isSaving
+                  ? "Saving..."
+                  : editingRule
+                    ? "Update Tax Rule"
+                    : "Create Tax Rule"}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
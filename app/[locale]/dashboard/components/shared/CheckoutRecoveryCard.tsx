@@ -0,0 +1,47 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { MailCheck } from "lucide-react";
+import {
+  getCheckoutRecoveryStats,
+  type CheckoutRecoveryStats,
+} from "@/app/[locale]/actions/abandoned-checkouts";
+
+export function CheckoutRecoveryCard() {
+  const [stats, setStats] = useState<CheckoutRecoveryStats | null>(null);
+
+  useEffect(() => {
+    getCheckoutRecoveryStats().then((result) => {
+      if (result.success && result.data) {
+        setStats(result.data);
+      }
+    });
+  }, []);
+
+  if (!stats) return null;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+        <CardTitle className="text-sm font-medium">Checkout Recovery</CardTitle>
+        <MailCheck className="h-4 w-4 text-muted-foreground" />
+      </CardHeader>
+      <CardContent>
+        <div className="text-2xl font-bold">{stats.recoveryRate}%</div>
+        <p className="text-xs text-muted-foreground mt-1">
+          {stats.recovered} of {stats.abandoned} abandoned checkouts recovered
+          in the last {stats.days} days
+        </p>
+        {stats.recoveredRevenue.length > 0 && (
+          <p className="text-xs text-muted-foreground mt-1">
+            Recovered:{" "}
+            {stats.recoveredRevenue
+              .map((r) => `${r.amount.toFixed(2)} ${r.currency}`)
+              .join(", ")}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
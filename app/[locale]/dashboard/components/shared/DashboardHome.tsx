@@ -4,6 +4,7 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { useSession } from "@/lib/auth-client";
 import { Package, Users, ShoppingCart, TrendingUp } from "lucide-react";
 import { DashboardSetupTodo } from "./DashboardSetupTodo";
+import { CheckoutRecoveryCard } from "./CheckoutRecoveryCard";
 
 interface DashboardHomeProps {
   userRole: "admin" | "seller" | "customer";
@@ -100,6 +101,8 @@ export function DashboardHome({ userRole, stats }: DashboardHomeProps) {
                 </CardContent>
               </Card>
             )}
+
+            <CheckoutRecoveryCard />
           </>
         )}
       </div>
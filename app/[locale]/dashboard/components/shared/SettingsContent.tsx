@@ -3,12 +3,17 @@
 import { useEffect, useState, Suspense } from "react";
 import { getAllCategoryRules } from "../../../actions/category-rules";
 import CategoryManagement from "../admin/CategoryManagement";
+import TaxRulesManagement from "../admin/TaxRulesManagement";
+import ShippingZonesManagement from "../admin/ShippingZonesManagement";
+import PlatformFeesManagement from "../admin/PlatformFeesManagement";
+import ActivityLogs from "../admin/ActivityLogs";
 import TranslationsPageClient from "../../translations/TranslationsPageClient";
 import ProfileTab from "./settings/ProfileTab";
 import SecurityTab from "./settings/SecurityTab";
 import PaymentsTab from "./settings/PaymentsTab";
 import ShippingTab from "./settings/ShippingTab";
 import StoreTab from "./settings/StoreTab";
+import TeamTab from "./settings/TeamTab";
 import ShippingProfilesTab from "./settings/ShippingProfilesTab";
 import UserManagement from "../admin/UserManagement";
 import RoleManagement from "../admin/RoleManagement";
@@ -23,6 +28,7 @@ import { CategoryRules } from "@/db/schema";
 
 type SettingsSection =
   | "store"
+  | "team"
   | "users"
   | "roles"
   | "permissions"
@@ -30,6 +36,10 @@ type SettingsSection =
   | "contents"
   | "translations"
   | "categories"
+  | "taxes"
+  | "shipping-zones"
+  | "platform-fees"
+  | "activity-logs"
   | "feedbacks"
   | "communications"
   | "payments"
@@ -133,6 +143,8 @@ export default function SettingsContent({
       return <ShippingTab />;
     case "store":
       return <StoreTab />;
+    case "team":
+      return <TeamTab />;
     case "shipping-settings":
       return <ShippingProfilesTab />;
     case "translations":
@@ -146,6 +158,14 @@ export default function SettingsContent({
         );
       }
       return <CategoryManagement initialCategoryRules={categoryRules} />;
+    case "taxes":
+      return <TaxRulesManagement />;
+    case "shipping-zones":
+      return <ShippingZonesManagement />;
+    case "platform-fees":
+      return <PlatformFeesManagement />;
+    case "activity-logs":
+      return <ActivityLogs />;
     case "feedbacks":
       if (loadingFeedbacks) {
         return (
@@ -33,6 +33,10 @@ type SettingsSection =
   | "contents"
   | "translations"
   | "categories"
+  | "taxes"
+  | "shipping-zones"
+  | "platform-fees"
+  | "activity-logs"
   | "feedbacks"
   | "communications"
   | "payments"
@@ -40,7 +44,8 @@ type SettingsSection =
   | "security"
   | "shipping-billing"
   | "shipping-settings"
-  | "store";
+  | "store"
+  | "team";
 
 interface SettingsModalProps {
   isOpen: boolean;
@@ -66,6 +71,10 @@ export function SettingsModal({
     "contents",
     "translations",
     "categories",
+    "taxes",
+    "shipping-zones",
+    "platform-fees",
+    "activity-logs",
     "feedbacks",
     "communications",
     "payments",
@@ -74,6 +83,7 @@ export function SettingsModal({
     "shipping-billing",
     "shipping-settings",
     "store",
+    "team",
   ];
 
   // Extract section from URL
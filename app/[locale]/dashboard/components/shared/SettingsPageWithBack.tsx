@@ -4,6 +4,7 @@ import SettingsContent from "./SettingsContent";
 
 type SettingsSection =
   | "store"
+  | "team"
   | "users"
   | "roles"
   | "permissions"
@@ -11,6 +12,10 @@ type SettingsSection =
   | "contents"
   | "translations"
   | "categories"
+  | "taxes"
+  | "shipping-zones"
+  | "platform-fees"
+  | "activity-logs"
   | "feedbacks"
   | "communications"
   | "payments"
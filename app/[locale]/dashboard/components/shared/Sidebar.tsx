@@ -50,6 +50,10 @@ export function Sidebar({ onSettingsClick, userRole }: SidebarProps) {
           if (child.href === "/dashboard/finances/esewa-payouts") {
             return userRole === "admin";
           }
+          // Ledger (Admin) is only for admin
+          if (child.href === "/dashboard/finances/ledger") {
+            return userRole === "admin";
+          }
           return true;
         });
         return {
@@ -31,6 +31,7 @@ import {
   type ShippingDestinationData,
   type ShippingRateData,
 } from "@/app/[locale]/actions/shipping-profiles";
+import { useShippingZoneOptions } from "@/app/[locale]/hooks/useShippingZoneQueries";
 import { CountrySelect } from "@/components/ui/country-select";
 import { postcodeValidator } from "postcode-validator";
 import { Separator } from "@/components/ui/separator";
@@ -46,6 +47,7 @@ interface ShippingProfile {
   processingDaysMin: number;
   processingDaysMax: number;
   isDefault: boolean;
+  combinedShippingCapCents: number | null;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -60,22 +62,61 @@ type ProcessingTimeOption =
   | "3-4weeks"
   | "custom";
 
-type DestinationLocation = "domestic" | "everywhere_else" | "country";
+type DestinationLocation = "domestic" | "everywhere_else" | "country" | "zone";
+
+// Common carrier divisor for dimensional weight (in³ per lb)
+const DIMENSIONAL_DIVISOR = 139;
+
+interface WeightBracketRow {
+  id: string; // Temporary ID
+  upToOz: string; // Empty = no upper limit
+  price: string;
+}
 
 interface DestinationRow {
   id: string; // Temporary ID for new rows
   location: DestinationLocation;
   countryCode?: string;
+  zoneCode?: string; // shipping_zones.code for "zone"
+  excluded: boolean; // Don't ship here (no rates)
   freeShipping: boolean;
+  pricingMethod: "per_item" | "weight";
   firstItemPrice: string;
   additionalItemPrice: string;
+  weightBrackets: WeightBracketRow[];
+  useDimensionalWeight: boolean;
+  freeShippingThreshold: string;
   currency: string;
   minDeliveryDays: string;
   maxDeliveryDays: string;
   existingDestinationId?: string; // If editing existing
-  existingRateId?: string; // If editing existing rate
+  existingRateIds?: string[]; // If editing existing rates
 }
 
+const usesWeightPricing = (dest: DestinationRow) =>
+  !dest.freeShipping && dest.pricingMethod === "weight";
+
+// "domestic" maps to "country" with the origin country, "zone" to "region"
+const toDestinationData = (
+  dest: DestinationRow,
+  originCountry: string
+): ShippingDestinationData => ({
+  destinationType:
+    dest.location === "zone"
+      ? "region"
+      : dest.location === "everywhere_else"
+        ? "everywhere_else"
+        : "country",
+  countryCode:
+    dest.location === "country"
+      ? dest.countryCode
+      : dest.location === "domestic"
+        ? originCountry
+        : undefined,
+  regionCode: dest.location === "zone" ? dest.zoneCode : undefined,
+  excluded: dest.excluded,
+});
+
 interface UpgradeRow {
   id: string; // Temporary ID
   name: string;
@@ -104,6 +145,7 @@ export default function ShippingProfilesTab() {
   const [processingDaysMin, setProcessingDaysMin] = useState(1);
   const [processingDaysMax, setProcessingDaysMax] = useState(2);
   const [isDefault, setIsDefault] = useState(false);
+  const [combinedShippingCap, setCombinedShippingCap] = useState("");
 
   // Destinations (repeatable rows)
   const [destinations, setDestinations] = useState<DestinationRow[]>([]);
@@ -114,6 +156,10 @@ export default function ShippingProfilesTab() {
   // Store currency (for price inputs)
   const [storeCurrency] = useState("EUR");
 
+  // Admin-defined zones destinations can target
+  const { data: zoneOptionsData } = useShippingZoneOptions();
+  const zoneOptions = zoneOptionsData?.result || [];
+
   const validatePostalCode = (postalCode: string, country: string): boolean => {
     if (!postalCode || !country) return true;
     try {
@@ -178,6 +224,7 @@ export default function ShippingProfilesTab() {
     setProcessingDaysMin(1);
     setProcessingDaysMax(2);
     setIsDefault(false);
+    setCombinedShippingCap("");
     setDestinations([]);
     setUpgrades([]);
     setEditingProfileId(null);
@@ -191,6 +238,11 @@ export default function ShippingProfilesTab() {
     setProcessingDaysMin(profile.processingDaysMin);
     setProcessingDaysMax(profile.processingDaysMax);
     setIsDefault(profile.isDefault);
+    setCombinedShippingCap(
+      profile.combinedShippingCapCents !== null
+        ? (profile.combinedShippingCapCents / 100).toFixed(2)
+        : ""
+    );
 
     // Determine processing time option
     let option: ProcessingTimeOption = "custom";
@@ -242,8 +294,12 @@ export default function ShippingProfilesTab() {
             rateResult.result &&
             rateResult.result.length > 0
           ) {
-            // Use the first rate (primary rate)
+            // Use the first rate (primary rate); weight rates are one per
+            // bracket, in bracket order
             const rate = rateResult.result[0];
+            const brackets = rateResult.result.filter(
+              (r) => r.pricingMethod === "weight"
+            );
             // Determine location type: if country matches origin, it's domestic
             const isDomestic =
               dest.destinationType === "country" &&
@@ -256,20 +312,35 @@ export default function ShippingProfilesTab() {
                   ? "country"
                   : dest.destinationType === "everywhere_else"
                     ? "everywhere_else"
-                    : "domestic",
+                    : dest.destinationType === "region"
+                      ? "zone"
+                      : "domestic",
               countryCode: dest.countryCode || undefined,
+              zoneCode: dest.regionCode || undefined,
+              excluded: dest.excluded,
               freeShipping: rate.freeShipping,
+              pricingMethod:
+                rate.pricingMethod === "weight" ? "weight" : "per_item",
               firstItemPrice: rate.firstItemPriceCents
                 ? (rate.firstItemPriceCents / 100).toFixed(2)
                 : "0",
               additionalItemPrice: rate.additionalItemPriceCents
                 ? (rate.additionalItemPriceCents / 100).toFixed(2)
                 : "0",
+              weightBrackets: brackets.map((b) => ({
+                id: `bracket-${b.id}`,
+                upToOz: b.maxWeightOz?.toString() || "",
+                price: ((b.firstItemPriceCents || 0) / 100).toFixed(2),
+              })),
+              useDimensionalWeight: !!rate.dimensionalDivisor,
+              freeShippingThreshold: rate.freeShippingThresholdCents
+                ? (rate.freeShippingThresholdCents / 100).toFixed(2)
+                : "",
               currency: rate.currency,
               minDeliveryDays: rate.transitDaysMin?.toString() || "",
               maxDeliveryDays: rate.transitDaysMax?.toString() || "",
               existingDestinationId: dest.id,
-              existingRateId: rate.id,
+              existingRateIds: rateResult.result.map((r) => r.id),
             });
           } else {
             // No rates, create empty row
@@ -285,11 +356,19 @@ export default function ShippingProfilesTab() {
                   ? "country"
                   : dest.destinationType === "everywhere_else"
                     ? "everywhere_else"
-                    : "domestic",
+                    : dest.destinationType === "region"
+                      ? "zone"
+                      : "domestic",
               countryCode: dest.countryCode || undefined,
+              zoneCode: dest.regionCode || undefined,
+              excluded: dest.excluded,
               freeShipping: false,
+              pricingMethod: "per_item",
               firstItemPrice: "0",
               additionalItemPrice: "0",
+              weightBrackets: [],
+              useDimensionalWeight: false,
+              freeShippingThreshold: "",
               currency: storeCurrency,
               minDeliveryDays: "",
               maxDeliveryDays: "",
@@ -331,9 +410,14 @@ export default function ShippingProfilesTab() {
       {
         id: `new-${Date.now()}`,
         location: "domestic",
+        excluded: false,
         freeShipping: false,
+        pricingMethod: "per_item",
         firstItemPrice: "0",
         additionalItemPrice: "0",
+        weightBrackets: [],
+        useDimensionalWeight: false,
+        freeShippingThreshold: "",
         currency: storeCurrency,
         minDeliveryDays: "",
         maxDeliveryDays: "",
@@ -354,6 +438,33 @@ export default function ShippingProfilesTab() {
     );
   };
 
+  const addWeightBracket = (dest: DestinationRow) => {
+    updateDestinationRow(dest.id, {
+      weightBrackets: [
+        ...dest.weightBrackets,
+        { id: `bracket-${Date.now()}`, upToOz: "", price: "0" },
+      ],
+    });
+  };
+
+  const updateWeightBracket = (
+    dest: DestinationRow,
+    bracketId: string,
+    updates: Partial<WeightBracketRow>
+  ) => {
+    updateDestinationRow(dest.id, {
+      weightBrackets: dest.weightBrackets.map((b) =>
+        b.id === bracketId ? { ...b, ...updates } : b
+      ),
+    });
+  };
+
+  const removeWeightBracket = (dest: DestinationRow, bracketId: string) => {
+    updateDestinationRow(dest.id, {
+      weightBrackets: dest.weightBrackets.filter((b) => b.id !== bracketId),
+    });
+  };
+
   const addUpgradeRow = () => {
     setUpgrades([
       ...upgrades,
@@ -417,7 +528,16 @@ export default function ShippingProfilesTab() {
           return;
         }
 
-        if (!dest.freeShipping) {
+        if (dest.location === "zone" && !dest.zoneCode) {
+          toast.error("Please select a zone for all destination rows");
+          setIsSaving(false);
+          return;
+        }
+
+        // Excluded destinations have no rates to validate
+        if (dest.excluded) continue;
+
+        if (!dest.freeShipping && dest.pricingMethod === "per_item") {
           const firstPrice = parseFloat(dest.firstItemPrice);
           if (isNaN(firstPrice) || firstPrice < 0) {
             toast.error("First item price must be a valid number ≥ 0");
@@ -426,6 +546,45 @@ export default function ShippingProfilesTab() {
           }
         }
 
+        if (!dest.freeShipping && dest.pricingMethod === "weight") {
+          if (dest.weightBrackets.length === 0) {
+            toast.error("Add at least one weight bracket");
+            setIsSaving(false);
+            return;
+          }
+          let previousMax = 0;
+          for (const [i, bracket] of dest.weightBrackets.entries()) {
+            const price = parseFloat(bracket.price);
+            if (isNaN(price) || price <= 0) {
+              toast.error("Weight bracket prices must be greater than 0");
+              setIsSaving(false);
+              return;
+            }
+            const isLast = i === dest.weightBrackets.length - 1;
+            const upTo = parseFloat(bracket.upToOz);
+            if (
+              (!isLast || bracket.upToOz) &&
+              (isNaN(upTo) || upTo <= previousMax)
+            ) {
+              toast.error(
+                "Weight brackets must go up in weight; only the last can be open-ended"
+              );
+              setIsSaving(false);
+              return;
+            }
+            previousMax = upTo;
+          }
+        }
+
+        if (dest.freeShippingThreshold) {
+          const threshold = parseFloat(dest.freeShippingThreshold);
+          if (isNaN(threshold) || threshold <= 0) {
+            toast.error("Free shipping threshold must be greater than 0");
+            setIsSaving(false);
+            return;
+          }
+        }
+
         const additionalPrice = parseFloat(dest.additionalItemPrice);
         if (isNaN(additionalPrice) || additionalPrice < 0) {
           toast.error("Additional item price must be a valid number ≥ 0");
@@ -444,6 +603,13 @@ export default function ShippingProfilesTab() {
         }
       }
 
+      const cap = combinedShippingCap ? parseFloat(combinedShippingCap) : null;
+      if (cap !== null && (isNaN(cap) || cap < 0)) {
+        toast.error("Combined shipping cap must be a valid number ≥ 0");
+        setIsSaving(false);
+        return;
+      }
+
       // Get processing time
       const processingTime =
         processingTimeOption === "custom"
@@ -459,6 +625,7 @@ export default function ShippingProfilesTab() {
         processingDaysMin: processingTime.min,
         processingDaysMax: processingTime.max,
         isDefault,
+        combinedShippingCapCents: cap !== null ? Math.round(cap * 100) : null,
       };
 
       let profileId: string;
@@ -489,21 +656,7 @@ export default function ShippingProfilesTab() {
 
         if (dest.existingDestinationId) {
           // Update existing destination if country code or location type changed
-          const destData: ShippingDestinationData = {
-            destinationType:
-              dest.location === "country"
-                ? "country"
-                : dest.location === "everywhere_else"
-                  ? "everywhere_else"
-                  : "country", // "domestic" maps to "country" with origin country
-            countryCode:
-              dest.location === "country"
-                ? dest.countryCode
-                : dest.location === "domestic"
-                  ? originCountry // Use origin country for domestic
-                  : undefined,
-            excluded: false,
-          };
+          const destData = toDestinationData(dest, originCountry);
 
           const updateResult = await updateShippingDestination(
             dest.existingDestinationId,
@@ -517,21 +670,7 @@ export default function ShippingProfilesTab() {
         } else {
           // Create new destination
           // Map "domestic" to "country" with origin country
-          const destData: ShippingDestinationData = {
-            destinationType:
-              dest.location === "country"
-                ? "country"
-                : dest.location === "everywhere_else"
-                  ? "everywhere_else"
-                  : "country", // "domestic" maps to "country" with origin country
-            countryCode:
-              dest.location === "country"
-                ? dest.countryCode
-                : dest.location === "domestic"
-                  ? originCountry // Use origin country for domestic
-                  : undefined,
-            excluded: false,
-          };
+          const destData = toDestinationData(dest, originCountry);
 
           const destResult = await addShippingDestination(profileId, destData);
           if (!destResult.success || !destResult.result) {
@@ -545,12 +684,16 @@ export default function ShippingProfilesTab() {
         const rateData: ShippingRateData = {
           serviceName: "Standard",
           freeShipping: dest.freeShipping,
+          pricingMethod: dest.freeShipping ? "per_item" : dest.pricingMethod,
           firstItemPriceCents: dest.freeShipping
             ? undefined
             : Math.round(parseFloat(dest.firstItemPrice) * 100),
           additionalItemPriceCents: Math.round(
             parseFloat(dest.additionalItemPrice) * 100
           ),
+          freeShippingThresholdCents: dest.freeShippingThreshold
+            ? Math.round(parseFloat(dest.freeShippingThreshold) * 100)
+            : null,
           currency: dest.currency,
           transitDaysMin: dest.minDeliveryDays
             ? parseInt(dest.minDeliveryDays)
@@ -561,12 +704,37 @@ export default function ShippingProfilesTab() {
           sortOrder: 0,
         };
 
-        if (dest.existingRateId) {
-          // For now, we'll delete and recreate (update not implemented yet)
-          await deleteShippingRate(dest.existingRateId);
+        // For now, we'll delete and recreate (update not implemented yet)
+        for (const rateId of dest.existingRateIds ?? []) {
+          await deleteShippingRate(rateId);
         }
 
-        await addShippingRate(destinationId, rateData);
+        // Excluded destinations only block shipping there
+        if (dest.excluded) continue;
+
+        if (rateData.pricingMethod === "weight") {
+          // One rate per bracket, each starting where the previous one ends
+          let minWeightOz: number | null = null;
+          for (const [i, bracket] of dest.weightBrackets.entries()) {
+            const maxWeightOz = bracket.upToOz
+              ? parseFloat(bracket.upToOz)
+              : null;
+            await addShippingRate(destinationId, {
+              ...rateData,
+              firstItemPriceCents: Math.round(parseFloat(bracket.price) * 100),
+              additionalItemPriceCents: 0,
+              minWeightOz,
+              maxWeightOz,
+              dimensionalDivisor: dest.useDimensionalWeight
+                ? DIMENSIONAL_DIVISOR
+                : null,
+              sortOrder: i,
+            });
+            minWeightOz = maxWeightOz;
+          }
+        } else {
+          await addShippingRate(destinationId, rateData);
+        }
       }
 
       // Handle upgrades (optional - for future implementation)
@@ -838,6 +1006,10 @@ export default function ShippingProfilesTab() {
                                   value === "country"
                                     ? undefined
                                     : dest.countryCode,
+                                zoneCode:
+                                  value === "zone" ? dest.zoneCode : undefined,
+                                excluded:
+                                  value === "domestic" ? false : dest.excluded,
                               })
                             }
                           >
@@ -854,6 +1026,11 @@ export default function ShippingProfilesTab() {
                               <SelectItem value="country">
                                 Specific country
                               </SelectItem>
+                              {zoneOptions.length > 0 && (
+                                <SelectItem value="zone">
+                                  Shipping zone (e.g. EU, Alaska/Hawaii)
+                                </SelectItem>
+                              )}
                             </SelectContent>
                           </Select>
                         </div>
@@ -873,134 +1050,357 @@ export default function ShippingProfilesTab() {
                           </div>
                         )}
 
-                        <div className="flex items-center space-x-2">
-                          <Checkbox
-                            id={`free-${dest.id}`}
-                            checked={dest.freeShipping}
-                            onCheckedChange={(checked) =>
-                              updateDestinationRow(dest.id, {
-                                freeShipping: checked as boolean,
-                              })
-                            }
-                          />
-                          <Label
-                            htmlFor={`free-${dest.id}`}
-                            className="cursor-pointer"
-                          >
-                            Free shipping
-                          </Label>
-                        </div>
+                        {dest.location === "zone" && (
+                          <div className="space-y-2">
+                            <Label>Zone</Label>
+                            <Select
+                              value={dest.zoneCode || ""}
+                              onValueChange={(value) =>
+                                updateDestinationRow(dest.id, {
+                                  zoneCode: value,
+                                })
+                              }
+                            >
+                              <SelectTrigger>
+                                <SelectValue placeholder="Select zone" />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {zoneOptions.map((zone) => (
+                                  <SelectItem
+                                    key={zone.code}
+                                    value={zone.code}
+                                  >
+                                    {zone.name}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            <p className="text-xs text-muted-foreground">
+                              Postal code and state zones take precedence over
+                              a specific country; country zones only apply
+                              where no specific country is set.
+                            </p>
+                          </div>
+                        )}
 
-                        {!dest.freeShipping && (
-                          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                            <div className="space-y-2">
-                              <Label>First Item Price</Label>
-                              <div className="flex gap-2">
-                                <Input
-                                  type="number"
-                                  step="0.01"
-                                  min="0"
-                                  value={dest.firstItemPrice}
-                                  onChange={(e) =>
-                                    updateDestinationRow(dest.id, {
-                                      firstItemPrice: e.target.value,
-                                    })
-                                  }
-                                  placeholder="0.00"
-                                  required={!dest.freeShipping}
-                                />
+                        {dest.location !== "domestic" && (
+                          <div className="flex items-center space-x-2">
+                            <Checkbox
+                              id={`excluded-${dest.id}`}
+                              checked={dest.excluded}
+                              onCheckedChange={(checked) =>
+                                updateDestinationRow(dest.id, {
+                                  excluded: checked as boolean,
+                                })
+                              }
+                            />
+                            <Label
+                              htmlFor={`excluded-${dest.id}`}
+                              className="cursor-pointer"
+                            >
+                              Don&apos;t ship here
+                            </Label>
+                          </div>
+                        )}
+
+                        {!dest.excluded && (
+                          <div className="space-y-4">
+                            <div className="flex items-center space-x-2">
+                              <Checkbox
+                                id={`free-${dest.id}`}
+                                checked={dest.freeShipping}
+                                onCheckedChange={(checked) =>
+                                  updateDestinationRow(dest.id, {
+                                    freeShipping: checked as boolean,
+                                  })
+                                }
+                              />
+                              <Label
+                                htmlFor={`free-${dest.id}`}
+                                className="cursor-pointer"
+                              >
+                                Free shipping
+                              </Label>
+                            </div>
+
+                            {!dest.freeShipping && (
+                              <div className="space-y-2">
+                                <Label>Pricing</Label>
                                 <Select
-                                  value={dest.currency}
-                                  onValueChange={(value) =>
+                                  value={dest.pricingMethod}
+                                  onValueChange={(
+                                    value: DestinationRow["pricingMethod"]
+                                  ) =>
                                     updateDestinationRow(dest.id, {
-                                      currency: value,
+                                      pricingMethod: value,
+                                      weightBrackets:
+                                        value === "weight" &&
+                                        dest.weightBrackets.length === 0
+                                          ? [
+                                              {
+                                                id: `bracket-${Date.now()}`,
+                                                upToOz: "",
+                                                price: dest.firstItemPrice,
+                                              },
+                                            ]
+                                          : dest.weightBrackets,
                                     })
                                   }
                                 >
-                                  <SelectTrigger className="w-24">
+                                  <SelectTrigger>
                                     <SelectValue />
                                   </SelectTrigger>
                                   <SelectContent>
-                                    <SelectItem value="EUR">EUR</SelectItem>
-                                    <SelectItem value="USD">USD</SelectItem>
-                                    <SelectItem value="NPR">NPR</SelectItem>
+                                    <SelectItem value="per_item">
+                                      Per item (first + additional)
+                                    </SelectItem>
+                                    <SelectItem value="weight">
+                                      By order weight
+                                    </SelectItem>
                                   </SelectContent>
                                 </Select>
                               </div>
-                            </div>
-                            <div className="space-y-2">
-                              <Label>Each Additional Item</Label>
-                              <div className="flex gap-2">
+                            )}
+
+                            {usesWeightPricing(dest) && (
+                              <div className="space-y-3">
+                                <Label>Weight Brackets ({dest.currency})</Label>
+                                {dest.weightBrackets.map((bracket, i) => (
+                                  <div
+                                    key={bracket.id}
+                                    className="flex items-center gap-2"
+                                  >
+                                    <span className="w-24 text-sm text-muted-foreground">
+                                      {i === 0
+                                        ? "From 0 oz"
+                                        : `From ${dest.weightBrackets[i - 1].upToOz || "?"} oz`}
+                                    </span>
+                                    <Input
+                                      type="number"
+                                      step="0.1"
+                                      min="0"
+                                      value={bracket.upToOz}
+                                      onChange={(e) =>
+                                        updateWeightBracket(dest, bracket.id, {
+                                          upToOz: e.target.value,
+                                        })
+                                      }
+                                      placeholder={
+                                        i === dest.weightBrackets.length - 1
+                                          ? "Below (oz), empty = no limit"
+                                          : "Below (oz)"
+                                      }
+                                    />
+                                    <Input
+                                      type="number"
+                                      step="0.01"
+                                      min="0"
+                                      value={bracket.price}
+                                      onChange={(e) =>
+                                        updateWeightBracket(dest, bracket.id, {
+                                          price: e.target.value,
+                                        })
+                                      }
+                                      placeholder="0.00"
+                                      className="w-28"
+                                    />
+                                    <Button
+                                      type="button"
+                                      variant="ghost"
+                                      size="sm"
+                                      onClick={() =>
+                                        removeWeightBracket(dest, bracket.id)
+                                      }
+                                    >
+                                      <Trash2 className="w-4 h-4" />
+                                    </Button>
+                                  </div>
+                                ))}
+                                <Button
+                                  type="button"
+                                  variant="outline"
+                                  size="sm"
+                                  onClick={() => addWeightBracket(dest)}
+                                >
+                                  <Plus className="w-4 h-4 mr-2" />
+                                  Add Bracket
+                                </Button>
+                                <div className="flex items-center space-x-2">
+                                  <Checkbox
+                                    id={`dim-${dest.id}`}
+                                    checked={dest.useDimensionalWeight}
+                                    onCheckedChange={(checked) =>
+                                      updateDestinationRow(dest.id, {
+                                        useDimensionalWeight: checked as boolean,
+                                      })
+                                    }
+                                  />
+                                  <Label
+                                    htmlFor={`dim-${dest.id}`}
+                                    className="cursor-pointer"
+                                  >
+                                    Charge by dimensional weight when the package
+                                    is bulky
+                                  </Label>
+                                </div>
+                                <p className="text-xs text-muted-foreground">
+                                  Order weight is the items&apos; weight plus the
+                                  smallest custom package they fit in.
+                                </p>
+                              </div>
+                            )}
+
+                            {!dest.freeShipping && !usesWeightPricing(dest) && (
+                              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                                <div className="space-y-2">
+                                  <Label>First Item Price</Label>
+                                  <div className="flex gap-2">
+                                    <Input
+                                      type="number"
+                                      step="0.01"
+                                      min="0"
+                                      value={dest.firstItemPrice}
+                                      onChange={(e) =>
+                                        updateDestinationRow(dest.id, {
+                                          firstItemPrice: e.target.value,
+                                        })
+                                      }
+                                      placeholder="0.00"
+                                      required={!dest.freeShipping}
+                                    />
+                                    <Select
+                                      value={dest.currency}
+                                      onValueChange={(value) =>
+                                        updateDestinationRow(dest.id, {
+                                          currency: value,
+                                        })
+                                      }
+                                    >
+                                      <SelectTrigger className="w-24">
+                                        <SelectValue />
+                                      </SelectTrigger>
+                                      <SelectContent>
+                                        <SelectItem value="EUR">EUR</SelectItem>
+                                        <SelectItem value="USD">USD</SelectItem>
+                                        <SelectItem value="NPR">NPR</SelectItem>
+                                      </SelectContent>
+                                    </Select>
+                                  </div>
+                                </div>
+                                <div className="space-y-2">
+                                  <Label>Each Additional Item</Label>
+                                  <div className="flex gap-2">
+                                    <Input
+                                      type="number"
+                                      step="0.01"
+                                      min="0"
+                                      value={dest.additionalItemPrice}
+                                      onChange={(e) =>
+                                        updateDestinationRow(dest.id, {
+                                          additionalItemPrice: e.target.value,
+                                        })
+                                      }
+                                      placeholder="0.00"
+                                      required
+                                    />
+                                    <Select
+                                      value={dest.currency}
+                                      onValueChange={(value) =>
+                                        updateDestinationRow(dest.id, {
+                                          currency: value,
+                                        })
+                                      }
+                                    >
+                                      <SelectTrigger className="w-24">
+                                        <SelectValue />
+                                      </SelectTrigger>
+                                      <SelectContent>
+                                        <SelectItem value="EUR">EUR</SelectItem>
+                                        <SelectItem value="USD">USD</SelectItem>
+                                        <SelectItem value="NPR">NPR</SelectItem>
+                                      </SelectContent>
+                                    </Select>
+                                  </div>
+                                </div>
+                              </div>
+                            )}
+
+                            {!dest.freeShipping && (
+                              <div className="space-y-2">
+                                <Label>
+                                  Free shipping on orders over ({dest.currency})
+                                </Label>
                                 <Input
                                   type="number"
                                   step="0.01"
                                   min="0"
-                                  value={dest.additionalItemPrice}
+                                  value={dest.freeShippingThreshold}
                                   onChange={(e) =>
                                     updateDestinationRow(dest.id, {
-                                      additionalItemPrice: e.target.value,
+                                      freeShippingThreshold: e.target.value,
                                     })
                                   }
-                                  placeholder="0.00"
-                                  required
+                                  placeholder="Optional"
                                 />
-                                <Select
-                                  value={dest.currency}
-                                  onValueChange={(value) =>
+                              </div>
+                            )}
+
+                            <div className="grid grid-cols-2 gap-4">
+                              <div className="space-y-2">
+                                <Label>Estimated Delivery: From (days)</Label>
+                                <Input
+                                  type="number"
+                                  min="1"
+                                  value={dest.minDeliveryDays}
+                                  onChange={(e) =>
                                     updateDestinationRow(dest.id, {
-                                      currency: value,
+                                      minDeliveryDays: e.target.value,
                                     })
                                   }
-                                >
-                                  <SelectTrigger className="w-24">
-                                    <SelectValue />
-                                  </SelectTrigger>
-                                  <SelectContent>
-                                    <SelectItem value="EUR">EUR</SelectItem>
-                                    <SelectItem value="USD">USD</SelectItem>
-                                    <SelectItem value="NPR">NPR</SelectItem>
-                                  </SelectContent>
-                                </Select>
+                                  placeholder="Optional"
+                                />
+                              </div>
+                              <div className="space-y-2">
+                                <Label>To (days)</Label>
+                                <Input
+                                  type="number"
+                                  min="1"
+                                  value={dest.maxDeliveryDays}
+                                  onChange={(e) =>
+                                    updateDestinationRow(dest.id, {
+                                      maxDeliveryDays: e.target.value,
+                                    })
+                                  }
+                                  placeholder="Optional"
+                                />
                               </div>
                             </div>
                           </div>
                         )}
-
-                        <div className="grid grid-cols-2 gap-4">
-                          <div className="space-y-2">
-                            <Label>Estimated Delivery: From (days)</Label>
-                            <Input
-                              type="number"
-                              min="1"
-                              value={dest.minDeliveryDays}
-                              onChange={(e) =>
-                                updateDestinationRow(dest.id, {
-                                  minDeliveryDays: e.target.value,
-                                })
-                              }
-                              placeholder="Optional"
-                            />
-                          </div>
-                          <div className="space-y-2">
-                            <Label>To (days)</Label>
-                            <Input
-                              type="number"
-                              min="1"
-                              value={dest.maxDeliveryDays}
-                              onChange={(e) =>
-                                updateDestinationRow(dest.id, {
-                                  maxDeliveryDays: e.target.value,
-                                })
-                              }
-                              placeholder="Optional"
-                            />
-                          </div>
-                        </div>
                       </div>
                     </Card>
                   ))}
                 </div>
               )}
+
+              <div className="space-y-2">
+                <Label htmlFor="combinedShippingCap">
+                  Combined shipping cap
+                </Label>
+                <Input
+                  id="combinedShippingCap"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={combinedShippingCap}
+                  onChange={(e) => setCombinedShippingCap(e.target.value)}
+                  placeholder="Optional"
+                />
+                <p className="text-xs text-muted-foreground">
+                  The most a buyer pays for shipping from your store on one
+                  order, in the destination&apos;s rate currency.
+                </p>
+              </div>
             </div>
 
             <Separator />
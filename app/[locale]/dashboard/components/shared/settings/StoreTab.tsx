@@ -100,6 +100,7 @@ export default function StoreTab() {
   const [policiesData, setPoliciesData] = useState({
     shipping: "",
     returns: "",
+    returnWindowDays: "",
     cancellations: "",
     customOrders: "",
     privacy: "",
@@ -186,6 +187,8 @@ export default function StoreTab() {
           setPoliciesData({
             shipping: policiesResult.policies.shipping || "",
             returns: policiesResult.policies.returns || "",
+            returnWindowDays:
+              policiesResult.policies.returnWindowDays?.toString() ?? "",
             cancellations: policiesResult.policies.cancellations || "",
             customOrders: policiesResult.policies.customOrders || "",
             privacy: policiesResult.policies.privacy || "",
@@ -409,7 +412,12 @@ export default function StoreTab() {
 
     setIsLoading(true);
     try {
-      const result = await updateStorePolicies(storeId, policiesData);
+      const result = await updateStorePolicies(storeId, {
+        ...policiesData,
+        returnWindowDays: policiesData.returnWindowDays
+          ? parseInt(policiesData.returnWindowDays, 10)
+          : null,
+      });
       if (result.success) {
         toast.success("Policies updated successfully");
       } else {
@@ -1169,6 +1177,28 @@ export default function StoreTab() {
                 />
               </div>
 
+              <div className="space-y-2">
+                <Label htmlFor="returnWindowDays">Return Window (days)</Label>
+                <Input
+                  id="returnWindowDays"
+                  type="number"
+                  min={1}
+                  value={policiesData.returnWindowDays}
+                  onChange={(e) =>
+                    setPoliciesData((prev) => ({
+                      ...prev,
+                      returnWindowDays: e.target.value,
+                    }))
+                  }
+                  placeholder="e.g. 30"
+                  className="max-w-[200px]"
+                />
+                <p className="text-xs text-muted-foreground">
+                  Customers can request a return this many days after their
+                  order ships. Leave empty if you don&apos;t accept returns.
+                </p>
+              </div>
+
               <div className="space-y-2">
                 <Label htmlFor="cancellations">Cancellations</Label>
                 <Textarea
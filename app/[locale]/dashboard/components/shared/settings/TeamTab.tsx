@@ -0,0 +1,463 @@
+"use client";
+
+import React, { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Crown, Edit, Mail, RefreshCw, Trash2, UserPlus } from "lucide-react";
+import { format } from "date-fns";
+import toast from "react-hot-toast";
+import {
+  getStoreTeam,
+  inviteStoreMember,
+  removeStoreMember,
+  resendStoreInvitation,
+  revokeStoreInvitation,
+  transferStoreOwnership,
+  updateStaffPermissions,
+  type StoreTeam,
+  type TeamMember,
+} from "@/app/[locale]/actions/store-team";
+
+// Common staff setups; the checkboxes below can adjust any of them
+const PERMISSION_PRESETS: Array<{ label: string; permissions: string[] }> = [
+  { label: "Orders only", permissions: ["orders.view", "orders.manage"] },
+  { label: "Inventory only", permissions: ["inventory.manage"] },
+  { label: "Finances (read-only)", permissions: ["finances.view"] },
+  {
+    label: "Finances and payouts",
+    permissions: ["finances.view", "finances.payout"],
+  },
+  { label: "Chat", permissions: ["chat.respond"] },
+];
+
+interface PermissionPickerProps {
+  idPrefix: string;
+  options: StoreTeam["permissionOptions"];
+  value: string[];
+  onChange: (permissions: string[]) => void;
+}
+
+function PermissionPicker({
+  idPrefix,
+  options,
+  value,
+  onChange,
+}: PermissionPickerProps) {
+  const toggle = (id: string, checked: boolean) => {
+    onChange(checked ? [...value, id] : value.filter((p) => p !== id));
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-2">
+        {PERMISSION_PRESETS.map((preset) => (
+          <Button
+            key={preset.label}
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => onChange(preset.permissions)}
+          >
+            {preset.label}
+          </Button>
+        ))}
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        {options.map((option) => (
+          <div key={option.id} className="flex items-start gap-2">
+            <Checkbox
+              id={`${idPrefix}-${option.id}`}
+              checked={value.includes(option.id)}
+              onCheckedChange={(checked) => toggle(option.id, checked === true)}
+            />
+            <div>
+              <Label htmlFor={`${idPrefix}-${option.id}`}>{option.name}</Label>
+              <p className="text-xs text-muted-foreground">
+                {option.description}
+              </p>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default function TeamTab() {
+  const [team, setTeam] = useState<StoreTeam | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [inviteEmail, setInviteEmail] = useState("");
+  const [invitePermissions, setInvitePermissions] = useState<string[]>(
+    PERMISSION_PRESETS[0].permissions
+  );
+  const [isInviting, setIsInviting] = useState(false);
+  const [editingMember, setEditingMember] = useState<TeamMember | null>(null);
+  const [editPermissions, setEditPermissions] = useState<string[]>([]);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadTeam();
+  }, []);
+
+  const loadTeam = async () => {
+    setLoading(true);
+    try {
+      const result = await getStoreTeam();
+      if (result.success && result.result) {
+        setTeam(result.result);
+      } else {
+        toast.error(result.error || "Failed to load team");
+      }
+    } catch (error) {
+      console.error("Error loading team:", error);
+      toast.error("Failed to load team");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const runAction = async (
+    id: string,
+    action: () => Promise<{
+      success: boolean;
+      error?: string;
+      message?: string;
+    }>
+  ) => {
+    setBusyId(id);
+    try {
+      const result = await action();
+      if (!result.success) {
+        toast.error(result.error || "Something went wrong");
+        return false;
+      }
+      if (result.message) toast.success(result.message);
+      await loadTeam();
+      return true;
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsInviting(true);
+    try {
+      const result = await inviteStoreMember(inviteEmail, invitePermissions);
+      if (!result.success) {
+        toast.error(result.error || "Failed to send invitation");
+        return;
+      }
+      toast.success(result.message || "Invitation sent");
+      setInviteEmail("");
+      await loadTeam();
+    } finally {
+      setIsInviting(false);
+    }
+  };
+
+  const openEditDialog = (member: TeamMember) => {
+    setEditingMember(member);
+    setEditPermissions(member.permissions);
+  };
+
+  const handleSavePermissions = async () => {
+    if (!editingMember) return;
+    const saved = await runAction(editingMember.id, () =>
+      updateStaffPermissions(editingMember.id, editPermissions)
+    );
+    if (saved) setEditingMember(null);
+  };
+
+  const handleRemove = (member: TeamMember) => {
+    if (!confirm(`Remove ${member.name} from the store?`)) return;
+    runAction(member.id, () => removeStoreMember(member.id));
+  };
+
+  const handleTransfer = (member: TeamMember) => {
+    if (
+      !confirm(
+        `Make ${member.name} the owner of this store? You will stay on the team as staff.`
+      )
+    ) {
+      return;
+    }
+    runAction(member.id, () => transferStoreOwnership(member.id));
+  };
+
+  if (loading && !team) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  if (!team) {
+    return (
+      <Card className="p-8 text-center text-muted-foreground">
+        Set up your store before adding team members.
+      </Card>
+    );
+  }
+
+  const permissionName = (id: string) =>
+    team.permissionOptions.find((option) => option.id === id)?.name ?? id;
+
+  return (
+    <div className="space-y-6">
+      <Card className="p-8">
+        <h3 className="text-lg font-semibold">Team</h3>
+        <p className="text-sm text-muted-foreground mt-1">
+          People who help run {team.storeName}. Each staff member signs in with
+          their own account and can only do what you allow.
+        </p>
+
+        {team.canManage && (
+          <form onSubmit={handleInvite} className="space-y-4 mt-6">
+            <div>
+              <Label htmlFor="invite-email">Invite by email</Label>
+              <Input
+                id="invite-email"
+                type="email"
+                value={inviteEmail}
+                onChange={(e) => setInviteEmail(e.target.value)}
+                placeholder="name@example.com"
+                required
+              />
+            </div>
+            <PermissionPicker
+              idPrefix="invite"
+              options={team.permissionOptions}
+              value={invitePermissions}
+              onChange={setInvitePermissions}
+            />
+            <div className="flex justify-end">
+              <Button
+                type="submit"
+                disabled={isInviting || invitePermissions.length === 0}
+              >
+                <UserPlus className="h-4 w-4 mr-2" />
+                {isInviting ? "Sending..." : "Send Invitation"}
+              </Button>
+            </div>
+          </form>
+        )}
+      </Card>
+
+      <Card className="p-8">
+        <h3 className="text-lg font-semibold mb-4">
+          Members ({team.members.length})
+        </h3>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Name</TableHead>
+              <TableHead>Role</TableHead>
+              <TableHead>Permissions</TableHead>
+              <TableHead>Joined</TableHead>
+              {team.canManage && <TableHead>Actions</TableHead>}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {team.members.map((member) => (
+              <TableRow key={member.id}>
+                <TableCell>
+                  <div className="font-medium">
+                    {member.name}
+                    {member.isCurrentUser && (
+                      <span className="text-muted-foreground"> (you)</span>
+                    )}
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    {member.email}
+                  </div>
+                </TableCell>
+                <TableCell>
+                  <Badge
+                    variant={member.role === "staff" ? "secondary" : "default"}
+                  >
+                    {member.role === "staff" ? "Staff" : "Owner"}
+                  </Badge>
+                </TableCell>
+                <TableCell>
+                  {member.role === "staff" ? (
+                    <div className="flex flex-wrap gap-1">
+                      {member.permissions.map((id) => (
+                        <Badge key={id} variant="outline">
+                          {permissionName(id)}
+                        </Badge>
+                      ))}
+                    </div>
+                  ) : (
+                    <span className="text-sm text-muted-foreground">
+                      Everything
+                    </span>
+                  )}
+                </TableCell>
+                <TableCell>
+                  {format(new Date(member.joinedAt), "MMM d, yyyy")}
+                </TableCell>
+                {team.canManage && (
+                  <TableCell>
+                    {member.role === "staff" && (
+                      <div className="flex gap-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => openEditDialog(member)}
+                          disabled={busyId !== null}
+                        >
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          title="Make owner"
+                          onClick={() => handleTransfer(member)}
+                          disabled={busyId !== null}
+                        >
+                          <Crown className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleRemove(member)}
+                          disabled={busyId !== null}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    )}
+                  </TableCell>
+                )}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </Card>
+
+      {team.invitations.length > 0 && (
+        <Card className="p-8">
+          <h3 className="text-lg font-semibold mb-4">
+            Pending invitations ({team.invitations.length})
+          </h3>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Email</TableHead>
+                <TableHead>Permissions</TableHead>
+                <TableHead>Expires</TableHead>
+                {team.canManage && <TableHead>Actions</TableHead>}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {team.invitations.map((invitation) => (
+                <TableRow key={invitation.id}>
+                  <TableCell className="font-medium">
+                    <Mail className="h-4 w-4 inline mr-2 text-muted-foreground" />
+                    {invitation.email}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {invitation.permissions.map((id) => (
+                        <Badge key={id} variant="outline">
+                          {permissionName(id)}
+                        </Badge>
+                      ))}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    {invitation.isExpired ? (
+                      <Badge variant="destructive">Expired</Badge>
+                    ) : (
+                      format(new Date(invitation.expiresAt), "MMM d, yyyy")
+                    )}
+                  </TableCell>
+                  {team.canManage && (
+                    <TableCell>
+                      <div className="flex gap-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          title="Resend"
+                          onClick={() =>
+                            runAction(invitation.id, () =>
+                              resendStoreInvitation(invitation.id)
+                            )
+                          }
+                          disabled={busyId !== null}
+                        >
+                          <RefreshCw className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          title="Revoke"
+                          onClick={() =>
+                            runAction(invitation.id, () =>
+                              revokeStoreInvitation(invitation.id)
+                            )
+                          }
+                          disabled={busyId !== null}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </Card>
+      )}
+
+      <Dialog
+        open={editingMember !== null}
+        onOpenChange={(open) => !open && setEditingMember(null)}
+      >
+        <DialogContent className="max-w-xl max-h-[95vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Permissions for {editingMember?.name}</DialogTitle>
+          </DialogHeader>
+          <PermissionPicker
+            idPrefix="edit"
+            options={team.permissionOptions}
+            value={editPermissions}
+            onChange={setEditPermissions}
+          />
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => setEditingMember(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSavePermissions}
+              disabled={busyId !== null || editPermissions.length === 0}
+            >
+              {busyId !== null ? "Saving..." : "Save"}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
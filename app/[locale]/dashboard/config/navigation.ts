@@ -9,6 +9,10 @@ import {
   Percent,
   Store,
   Wallet,
+  BarChart3,
+  Repeat,
+  Star,
+  MessageCircleQuestion,
 } from "lucide-react";
 import {
   Users as UsersIcon,
@@ -22,6 +26,9 @@ import {
   User,
   Truck,
   Package as PackageIcon,
+  Receipt,
+  History,
+  Map as MapIcon,
 } from "lucide-react";
 
 export type UserRole = "admin" | "seller" | "customer";
@@ -59,6 +66,7 @@ export const allNavItems: NavItem[] = [
     children: [
       { label: "Drafts", href: "/dashboard/draft_orders" },
       { label: "Refund Requests", href: "/dashboard/orders/refund-requests" },
+      { label: "Returns", href: "/dashboard/orders/returns" },
     ],
     roles: ["admin", "seller", "customer"],
   },
@@ -78,7 +86,13 @@ export const allNavItems: NavItem[] = [
     label: "Products",
     href: "/dashboard/products",
     icon: Package,
-    children: [{ label: "Inventory", href: "/dashboard/inventory" }],
+    children: [
+      { label: "Inventory", href: "/dashboard/inventory" },
+      {
+        label: "Purchase Orders",
+        href: "/dashboard/inventory/purchase-orders",
+      },
+    ],
     roles: ["admin", "seller"],
   },
   {
@@ -87,6 +101,24 @@ export const allNavItems: NavItem[] = [
     icon: Percent,
     roles: ["admin", "seller"],
   },
+  {
+    label: "Subscriptions",
+    href: "/dashboard/subscriptions",
+    icon: Repeat,
+    roles: ["admin", "seller"],
+  },
+  {
+    label: "Reviews",
+    href: "/dashboard/reviews",
+    icon: Star,
+    roles: ["admin", "seller"],
+  },
+  {
+    label: "Questions",
+    href: "/dashboard/questions",
+    icon: MessageCircleQuestion,
+    roles: ["admin", "seller"],
+  },
   {
     label: "Documentation",
     href: "/dashboard/documentation",
@@ -105,6 +137,12 @@ export const allNavItems: NavItem[] = [
     icon: Store,
     roles: ["admin"],
   },
+  {
+    label: "Analytics",
+    href: "/dashboard/analytics",
+    icon: BarChart3,
+    roles: ["admin"],
+  },
   {
     label: "Finances",
     href: "/dashboard/finances/payouts",
@@ -115,7 +153,9 @@ export const allNavItems: NavItem[] = [
         label: "Transaction History",
         href: "/dashboard/finances/transactions",
       },
+      { label: "Statements", href: "/dashboard/finances/statements" },
       { label: "eSewa Payouts (Admin)", href: "/dashboard/finances/esewa-payouts" },
+      { label: "Ledger (Admin)", href: "/dashboard/finances/ledger" },
     ],
     roles: ["admin", "seller"],
   },
@@ -128,6 +168,12 @@ export const settingsSections: SettingsSectionConfig[] = [
     icon: Store,
     roles: ["admin", "seller"],
   },
+  {
+    id: "team",
+    label: "Team",
+    icon: Users,
+    roles: ["admin", "seller"],
+  },
   {
     id: "users",
     label: "Users",
@@ -177,6 +223,30 @@ export const settingsSections: SettingsSectionConfig[] = [
     icon: Tag,
     roles: ["admin"],
   },
+  {
+    id: "taxes",
+    label: "Taxes",
+    icon: Receipt,
+    roles: ["admin"],
+  },
+  {
+    id: "shipping-zones",
+    label: "Shipping Zones",
+    icon: MapIcon,
+    roles: ["admin"],
+  },
+  {
+    id: "platform-fees",
+    label: "Platform Fees",
+    icon: Percent,
+    roles: ["admin"],
+  },
+  {
+    id: "activity-logs",
+    label: "Activity Logs",
+    icon: History,
+    roles: ["admin"],
+  },
   {
     id: "feedbacks",
     label: "Feedbacks",
@@ -5,6 +5,7 @@ import { formatCurrency } from "@/lib/utils";
 import { Info } from "lucide-react";
 import { useState } from "react";
 import type { WalletSummary } from "@/app/[locale]/actions/finances";
+import type { StorePlatformFee } from "@/lib/platform-fees";
 
 interface BalanceSummaryProps {
   /** Two wallets: EUR (Stripe) and NPR (eSewa) */
@@ -44,6 +45,20 @@ function InfoTooltip({ content }: { content: string }) {
   );
 }
 
+function describePlatformFee(fee: StorePlatformFee, currency: string) {
+  let text = `${fee.ratePercent}%`;
+  if (fee.fixedFee > 0) text += ` + ${formatCurrency(fee.fixedFee, currency)}`;
+  if (fee.maxFee !== null) text += `, max ${formatCurrency(fee.maxFee, currency)}`;
+  if (fee.isNegotiated) text += ` (${fee.name})`;
+  if (fee.endsAt) {
+    text += ` until ${new Date(fee.endsAt).toLocaleDateString(undefined, { timeZone: "UTC" })}`;
+  }
+  const overrides = fee.overrides.map(
+    (o) => `${[o.categoryName, o.marketName].filter(Boolean).join(", ")} ${o.ratePercent}%`
+  );
+  return overrides.length > 0 ? `${text}; ${overrides.join("; ")}` : text;
+}
+
 export function BalanceSummary({
   wallets,
   holdPeriodDays = 7,
@@ -101,6 +116,17 @@ export function BalanceSummary({
           </div>
         </CardContent>
       </Card>
+      {(EUR.platformFee || NPR.platformFee) && (
+        <p className="text-sm text-muted-foreground md:col-span-2 lg:col-span-4">
+          Platform fee on new orders:{" "}
+          {[
+            EUR.platformFee && `EUR ${describePlatformFee(EUR.platformFee, "EUR")}`,
+            NPR.platformFee && `NPR ${describePlatformFee(NPR.platformFee, "NPR")}`,
+          ]
+            .filter(Boolean)
+            .join(" · ")}
+        </p>
+      )}
     </div>
   );
 }
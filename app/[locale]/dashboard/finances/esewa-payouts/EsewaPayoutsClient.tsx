@@ -31,6 +31,7 @@ interface PayoutRow {
   bankAccountMasked: string | null;
   hasBankDetails: boolean;
   requestedAt: string;
+  batchId: string | null; // Set for scheduled payouts, e.g. NPR-20260101
 }
 
 export function EsewaPayoutsClient() {
@@ -178,6 +179,7 @@ export function EsewaPayoutsClient() {
                     <th className="text-left py-2 font-medium">eSewa ID</th>
                     <th className="text-left py-2 font-medium">Bank</th>
                     <th className="text-left py-2 font-medium">Requested</th>
+                    <th className="text-left py-2 font-medium">Batch</th>
                     <th className="text-right py-2 font-medium">Action</th>
                   </tr>
                 </thead>
@@ -231,6 +233,9 @@ export function EsewaPayoutsClient() {
                       <td className="py-2 text-muted-foreground">
                         {new Date(p.requestedAt).toLocaleString()}
                       </td>
+                      <td className="py-2 font-mono text-sm text-muted-foreground">
+                        {p.batchId ?? "Manual"}
+                      </td>
                       <td className="py-2 text-right">
                         <Button
                           size="sm"
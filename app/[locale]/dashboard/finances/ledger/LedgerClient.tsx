@@ -0,0 +1,271 @@
+"use client";
+
+import { useState } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Loader2, RefreshCw } from "lucide-react";
+import {
+  useLedgerTrialBalance,
+  useLedgerReconciliationRuns,
+  useRunLedgerReconciliation,
+} from "../../../hooks/useLedgerQueries";
+
+const ISSUE_LABELS = {
+  amount_mismatch: "Amount differs",
+  missing_in_ledger: "Missing in ledger",
+  missing_in_stripe: "Missing in Stripe",
+} as const;
+
+function currentMonth() {
+  return new Date().toISOString().slice(0, 7);
+}
+
+function formatAmount(amount: number | null) {
+  return amount === null ? "—" : amount.toFixed(2);
+}
+
+export function LedgerClient() {
+  const [month, setMonth] = useState(currentMonth);
+  const { data: trialBalanceData, isLoading: trialBalanceLoading } =
+    useLedgerTrialBalance(month);
+  const { data: runsData, isLoading: runsLoading } =
+    useLedgerReconciliationRuns();
+  const reconcileMutation = useRunLedgerReconciliation();
+
+  const trialBalances = trialBalanceData?.result || [];
+  const runs = runsData?.result || [];
+  const latestIssues = runs[0]?.issues || [];
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex flex-wrap items-start justify-between gap-4">
+            <div>
+              <CardTitle>Trial Balance</CardTitle>
+              <CardDescription>
+                Double-entry ledger per currency. Debits and credits must match
+                before the month can be closed.
+              </CardDescription>
+            </div>
+            <div className="flex items-center gap-2">
+              <Input
+                type="month"
+                value={month}
+                max={currentMonth()}
+                onChange={(e) => e.target.value && setMonth(e.target.value)}
+                className="w-40"
+              />
+              <Button
+                onClick={() => reconcileMutation.mutate(month)}
+                disabled={reconcileMutation.isPending}
+              >
+                {reconcileMutation.isPending ? (
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                ) : (
+                  <RefreshCw className="w-4 h-4 mr-2" />
+                )}
+                Reconcile with Stripe
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {trialBalanceLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+            </div>
+          ) : trialBalances.length === 0 ? (
+            <p className="text-muted-foreground text-center py-8">
+              No journal entries up to this month.
+            </p>
+          ) : (
+            trialBalances.map((balance) => (
+              <div key={balance.currency} className="space-y-2">
+                <div className="flex items-center gap-2">
+                  <h3 className="font-semibold">{balance.currency}</h3>
+                  {balance.balanced ? (
+                    <Badge variant="secondary">Balanced</Badge>
+                  ) : (
+                    <Badge variant="destructive">Out of balance</Badge>
+                  )}
+                </div>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Account</TableHead>
+                      <TableHead className="text-right">Opening</TableHead>
+                      <TableHead className="text-right">Debits</TableHead>
+                      <TableHead className="text-right">Credits</TableHead>
+                      <TableHead className="text-right">Closing</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {balance.accounts.map((account) => (
+                      <TableRow key={account.account}>
+                        <TableCell>
+                          {account.name}
+                          <span className="ml-2 text-xs text-muted-foreground">
+                            {account.kind}
+                          </span>
+                        </TableCell>
+                        <TableCell className="text-right font-mono">
+                          {formatAmount(account.opening)}
+                        </TableCell>
+                        <TableCell className="text-right font-mono">
+                          {formatAmount(account.debits)}
+                        </TableCell>
+                        <TableCell className="text-right font-mono">
+                          {formatAmount(account.credits)}
+                        </TableCell>
+                        <TableCell className="text-right font-mono">
+                          {formatAmount(account.closing)}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                    <TableRow className="font-semibold">
+                      <TableCell>Total</TableCell>
+                      <TableCell />
+                      <TableCell className="text-right font-mono">
+                        {formatAmount(balance.totalDebits)}
+                      </TableCell>
+                      <TableCell className="text-right font-mono">
+                        {formatAmount(balance.totalCredits)}
+                      </TableCell>
+                      <TableCell />
+                    </TableRow>
+                  </TableBody>
+                </Table>
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Stripe Reconciliation</CardTitle>
+          <CardDescription>
+            Platform cash in the ledger matched against Stripe balance
+            transactions. Runs daily for the previous day.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {runsLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+            </div>
+          ) : runs.length === 0 ? (
+            <p className="text-muted-foreground text-center py-8">
+              No reconciliation runs yet.
+            </p>
+          ) : (
+            <>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Period</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Matched</TableHead>
+                    <TableHead className="text-right">Issues</TableHead>
+                    <TableHead>Net cash (Stripe / ledger)</TableHead>
+                    <TableHead>Run at</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {runs.map((run) => (
+                    <TableRow key={run.id}>
+                      <TableCell>
+                        {new Date(run.periodStart).toLocaleDateString()} –{" "}
+                        {new Date(run.periodEnd).toLocaleDateString()}
+                      </TableCell>
+                      <TableCell>
+                        {run.status === "matched" ? (
+                          <Badge variant="secondary">Matched</Badge>
+                        ) : run.status === "drift" ? (
+                          <Badge variant="destructive">Drift</Badge>
+                        ) : (
+                          <Badge
+                            variant="outline"
+                            title={run.errorMessage ?? ""}
+                          >
+                            Error
+                          </Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {run.matchedCount} / {run.stripeTransactionCount}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {run.issues?.length ?? 0}
+                      </TableCell>
+                      <TableCell className="font-mono text-sm">
+                        {Object.entries(run.totals ?? {})
+                          .map(
+                            ([currency, t]) =>
+                              `${currency} ${t.stripe.toFixed(2)} / ${t.ledger.toFixed(2)}`
+                          )
+                          .join(", ") || "—"}
+                      </TableCell>
+                      <TableCell className="text-muted-foreground">
+                        {new Date(run.createdAt).toLocaleString()}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+
+              {latestIssues.length > 0 && (
+                <div className="space-y-2">
+                  <h3 className="font-semibold">Latest run discrepancies</h3>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Issue</TableHead>
+                        <TableHead>Stripe object</TableHead>
+                        <TableHead className="text-right">Stripe</TableHead>
+                        <TableHead className="text-right">Ledger</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {latestIssues.map((issue) => (
+                        <TableRow key={`${issue.kind}:${issue.ref}`}>
+                          <TableCell>{ISSUE_LABELS[issue.issue]}</TableCell>
+                          <TableCell className="font-mono text-sm">
+                            {issue.kind} {issue.ref}
+                          </TableCell>
+                          <TableCell className="text-right font-mono">
+                            {formatAmount(issue.stripeAmount)} {issue.currency}
+                          </TableCell>
+                          <TableCell className="text-right font-mono">
+                            {formatAmount(issue.ledgerAmount)} {issue.currency}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,21 @@
+import { protectDashboardRoute } from "@/app/[locale]/lib/dashboard-auth";
+import { DashboardWrapper } from "../../components/shared/DashboardWrapper";
+import DashboardNotFound from "../../not-found";
+import { LedgerClient } from "./LedgerClient";
+
+export default async function LedgerPage() {
+  const result = await protectDashboardRoute({
+    allowedRoles: ["admin"],
+    showNotFound: true,
+  });
+
+  if (result.shouldShowNotFound) {
+    return <DashboardNotFound />;
+  }
+
+  return (
+    <DashboardWrapper userRole={result.role}>
+      <LedgerClient />
+    </DashboardWrapper>
+  );
+}
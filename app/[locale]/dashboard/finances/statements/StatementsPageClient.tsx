@@ -0,0 +1,225 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Download, FileText, Loader2 } from "lucide-react";
+import toast from "react-hot-toast";
+import {
+  generateAnnualEarningsSummary,
+  type SellerStatementRow,
+} from "@/app/[locale]/actions/seller-statements";
+
+interface StatementsPageClientProps {
+  statements: SellerStatementRow[];
+  currencies: string[];
+}
+
+// EUR follows the calendar year, NPR the Nepali fiscal year starting in July
+function completedTaxYears(currency: string) {
+  const now = new Date();
+  const latest =
+    currency === "NPR"
+      ? now.getUTCMonth() >= 7
+        ? now.getUTCFullYear() - 1
+        : now.getUTCFullYear() - 2
+      : now.getUTCFullYear() - 1;
+  return [latest, latest - 1, latest - 2];
+}
+
+function taxYearLabel(currency: string, year: number) {
+  if (currency !== "NPR") return String(year);
+  const bsYear = year + 57;
+  return `${bsYear}/${String((bsYear + 1) % 100).padStart(2, "0")} (${year}/${String((year + 1) % 100).padStart(2, "0")})`;
+}
+
+function formatPeriod(statement: SellerStatementRow) {
+  const start = new Date(statement.periodStart);
+  if (statement.periodType === "monthly") {
+    return start.toLocaleDateString("en-US", {
+      month: "long",
+      year: "numeric",
+      timeZone: "UTC",
+    });
+  }
+  const lastDay = new Date(new Date(statement.periodEnd).getTime() - 1);
+  return `${start.toLocaleDateString(undefined, { timeZone: "UTC" })} – ${lastDay.toLocaleDateString(undefined, { timeZone: "UTC" })}`;
+}
+
+export default function StatementsPageClient({
+  statements,
+  currencies,
+}: StatementsPageClientProps) {
+  const router = useRouter();
+  const [currency, setCurrency] = useState(currencies[0] ?? "EUR");
+  const [taxYear, setTaxYear] = useState(
+    String(completedTaxYears(currencies[0] ?? "EUR")[0])
+  );
+  const [isGenerating, setIsGenerating] = useState(false);
+
+  const monthly = statements.filter((s) => s.periodType === "monthly");
+  const annual = statements.filter((s) => s.periodType === "annual");
+
+  const handleCurrencyChange = (value: string) => {
+    setCurrency(value);
+    setTaxYear(String(completedTaxYears(value)[0]));
+  };
+
+  const handleGenerate = async () => {
+    setIsGenerating(true);
+    try {
+      const result = await generateAnnualEarningsSummary({
+        currency,
+        taxYear: parseInt(taxYear, 10),
+      });
+      if (result.success) {
+        toast.success("Earnings summary ready");
+        window.open(result.pdfUrl, "_blank", "noopener,noreferrer");
+        router.refresh();
+      } else {
+        toast.error(result.error || "Failed to generate earnings summary");
+      }
+    } catch (error) {
+      toast.error("An error occurred while generating the summary");
+      console.error(error);
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const renderTable = (rows: SellerStatementRow[]) => (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b">
+            <th className="text-left py-2 font-medium">Period</th>
+            <th className="text-left py-2 font-medium">Currency</th>
+            <th className="text-right py-2 font-medium">Opening</th>
+            <th className="text-right py-2 font-medium">Gross sales</th>
+            <th className="text-right py-2 font-medium">Payouts</th>
+            <th className="text-right py-2 font-medium">Closing</th>
+            <th className="text-right py-2 font-medium">PDF</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((s) => (
+            <tr key={s.id} className="border-b">
+              <td className="py-2">{formatPeriod(s)}</td>
+              <td className="py-2">{s.currency}</td>
+              <td className="py-2 text-right">{s.openingBalance.toFixed(2)}</td>
+              <td className="py-2 text-right">
+                {(s.totals.grossSales ?? 0).toFixed(2)}
+              </td>
+              <td className="py-2 text-right">
+                {(s.totals.payouts ?? 0).toFixed(2)}
+              </td>
+              <td className="py-2 text-right">{s.closingBalance.toFixed(2)}</td>
+              <td className="py-2 text-right">
+                <Button variant="ghost" size="sm" asChild>
+                  <a href={s.pdfUrl} target="_blank" rel="noopener noreferrer">
+                    <Download className="h-4 w-4" />
+                  </a>
+                </Button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Statements</h1>
+        <p className="text-muted-foreground mt-2">
+          Monthly statements are generated at the start of each month and
+          emailed to you
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Annual Earnings Summary</CardTitle>
+          <CardDescription>
+            For your tax return: the calendar year for EUR (Finland) and the
+            fiscal year from Shrawan to Asar for NPR (Nepal).
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="flex flex-wrap items-center gap-2">
+            <Select value={currency} onValueChange={handleCurrencyChange}>
+              <SelectTrigger className="w-28">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(currencies.length > 0 ? currencies : ["EUR"]).map((c) => (
+                  <SelectItem key={c} value={c}>
+                    {c}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={taxYear} onValueChange={setTaxYear}>
+              <SelectTrigger className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {completedTaxYears(currency).map((year) => (
+                  <SelectItem key={year} value={String(year)}>
+                    {taxYearLabel(currency, year)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button onClick={handleGenerate} disabled={isGenerating}>
+              {isGenerating ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <FileText className="mr-2 h-4 w-4" />
+              )}
+              Get PDF
+            </Button>
+          </div>
+          {annual.length > 0 && (
+            <div className="mt-6">{renderTable(annual)}</div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Monthly Statements</CardTitle>
+          <CardDescription>
+            Opening and closing balance, sales, fees, label costs, refunds,
+            disputes and payouts per month
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {monthly.length === 0 ? (
+            <p className="text-muted-foreground text-center py-8">
+              No statements yet. Your first one arrives after your first full
+              month of sales.
+            </p>
+          ) : (
+            renderTable(monthly)
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
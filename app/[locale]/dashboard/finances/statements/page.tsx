@@ -0,0 +1,42 @@
+import { protectDashboardRoute } from "@/app/[locale]/lib/dashboard-auth";
+import { DashboardWrapper } from "../../components/shared/DashboardWrapper";
+import DashboardNotFound from "../../not-found";
+import StatementsPageClient from "./StatementsPageClient";
+import { getSellerStatements } from "@/app/[locale]/actions/seller-statements";
+import { getStoreIdForUser } from "@/app/[locale]/actions/store-id";
+
+export default async function StatementsPage() {
+  const result = await protectDashboardRoute({
+    allowedRoles: ["admin", "seller"],
+    showNotFound: true,
+  });
+
+  if (result.shouldShowNotFound) {
+    return <DashboardNotFound />;
+  }
+
+  const { role: roleName } = result;
+  const { storeId, isAdmin } = await getStoreIdForUser();
+
+  // Sellers need a store; admins have no storeId so we show the page with empty data
+  if (!storeId && !isAdmin) {
+    return <DashboardNotFound />;
+  }
+
+  const statementsResult = storeId
+    ? await getSellerStatements()
+    : { success: false as const, error: "Store not found" };
+
+  return (
+    <DashboardWrapper userRole={roleName}>
+      <StatementsPageClient
+        statements={
+          statementsResult.success ? statementsResult.data.statements : []
+        }
+        currencies={
+          statementsResult.success ? statementsResult.data.currencies : []
+        }
+      />
+    </DashboardWrapper>
+  );
+}
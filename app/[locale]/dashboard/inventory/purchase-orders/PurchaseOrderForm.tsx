@@ -0,0 +1,330 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Plus, Trash2 } from "lucide-react";
+import toast from "react-hot-toast";
+import { Link, useRouter } from "@/i18n/navigation";
+import {
+  createPurchaseOrder,
+  updatePurchaseOrder,
+  type PurchaseOrderData,
+  type PurchaseOrderFormOptions,
+} from "@/app/[locale]/actions/purchase-orders";
+
+interface FormLine {
+  variantId: string;
+  quantity: string;
+  unitCost: string;
+}
+
+interface PurchaseOrderFormProps {
+  options: PurchaseOrderFormOptions;
+  purchaseOrderId?: string; // Editing a draft
+  initialData?: PurchaseOrderData;
+}
+
+export default function PurchaseOrderForm({
+  options,
+  purchaseOrderId,
+  initialData,
+}: PurchaseOrderFormProps) {
+  const router = useRouter();
+  const [supplierId, setSupplierId] = useState(initialData?.supplierId || "");
+  const [locationId, setLocationId] = useState(
+    initialData?.locationId || options.locations[0]?.id || ""
+  );
+  const [expectedAt, setExpectedAt] = useState(initialData?.expectedAt || "");
+  const [notes, setNotes] = useState(initialData?.notes || "");
+  const [lines, setLines] = useState<FormLine[]>(
+    initialData?.items.map((item) => ({
+      variantId: item.variantId,
+      quantity: String(item.quantity),
+      unitCost: item.unitCost.toFixed(2),
+    })) || []
+  );
+  const [adding, setAdding] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const variantById = new Map(options.variants.map((v) => [v.variantId, v]));
+  const addable = options.variants.filter(
+    (v) => !lines.some((line) => line.variantId === v.variantId)
+  );
+  const total = lines.reduce(
+    (sum, line) =>
+      sum + (parseInt(line.quantity) || 0) * (parseFloat(line.unitCost) || 0),
+    0
+  );
+
+  const updateLine = (variantId: string, update: Partial<FormLine>) => {
+    setLines((prev) =>
+      prev.map((line) =>
+        line.variantId === variantId ? { ...line, ...update } : line
+      )
+    );
+  };
+
+  const handleAdd = () => {
+    const variant = variantById.get(adding);
+    if (!variant) return;
+    // Start from the current average cost
+    setLines((prev) => [
+      ...prev,
+      {
+        variantId: variant.variantId,
+        quantity: "1",
+        unitCost: variant.costPerItem.toFixed(2),
+      },
+    ]);
+    setAdding("");
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!supplierId || !locationId) {
+      toast.error("Choose a supplier and a destination");
+      return;
+    }
+
+    const data: PurchaseOrderData = {
+      supplierId,
+      locationId,
+      expectedAt: expectedAt || null,
+      notes,
+      items: lines.map((line) => ({
+        variantId: line.variantId,
+        quantity: parseInt(line.quantity) || 0,
+        unitCost: parseFloat(line.unitCost) || 0,
+      })),
+    };
+
+    setIsSaving(true);
+    try {
+      if (purchaseOrderId) {
+        const result = await updatePurchaseOrder(purchaseOrderId, data);
+        if (!result.success) {
+          toast.error(result.error || "Failed to save purchase order");
+          return;
+        }
+        toast.success(result.message || "Purchase order saved");
+        router.refresh();
+      } else {
+        const result = await createPurchaseOrder(data);
+        if (!result.success || !result.result) {
+          toast.error(result.error || "Failed to create purchase order");
+          return;
+        }
+        toast.success(result.message || "Purchase order created");
+        router.push(`/dashboard/inventory/purchase-orders/${result.result.id}`);
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (options.suppliers.length === 0 || options.locations.length === 0) {
+    return (
+      <Card>
+        <CardContent className="py-6 text-center text-muted-foreground">
+          {options.suppliers.length === 0 ? (
+            <>
+              Add a supplier before creating a purchase order.{" "}
+              <Link href="/dashboard/inventory/suppliers" className="underline">
+                Manage suppliers
+              </Link>
+            </>
+          ) : (
+            <>
+              Add an active inventory location to receive stock into.{" "}
+              <Link href="/dashboard/settings/store" className="underline">
+                Store settings
+              </Link>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Order details</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <Label>Supplier *</Label>
+              <Select value={supplierId} onValueChange={setSupplierId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a supplier" />
+                </SelectTrigger>
+                <SelectContent>
+                  {options.suppliers.map((supplier) => (
+                    <SelectItem key={supplier.id} value={supplier.id}>
+                      {supplier.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Deliver to *</Label>
+              <Select value={locationId} onValueChange={setLocationId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a location" />
+                </SelectTrigger>
+                <SelectContent>
+                  {options.locations.map((location) => (
+                    <SelectItem key={location.id} value={location.id}>
+                      {location.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="po-expected">Expected</Label>
+              <Input
+                id="po-expected"
+                type="date"
+                value={expectedAt}
+                onChange={(e) => setExpectedAt(e.target.value)}
+              />
+            </div>
+          </div>
+          <div>
+            <Label htmlFor="po-notes">Notes for the supplier</Label>
+            <Textarea
+              id="po-notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              rows={3}
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Items</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {lines.length === 0 && (
+            <p className="text-sm text-muted-foreground">
+              No items yet. Add the products you are ordering.
+            </p>
+          )}
+          {lines.map((line) => {
+            const variant = variantById.get(line.variantId);
+            return (
+              <div key={line.variantId} className="flex items-end gap-2">
+                <div className="flex-1 text-sm pb-2">
+                  {variant
+                    ? `${variant.listingName} – ${variant.variantTitle}`
+                    : "Unavailable product"}
+                  {variant?.sku && (
+                    <span className="text-muted-foreground">
+                      {" "}
+                      (SKU {variant.sku})
+                    </span>
+                  )}
+                </div>
+                <div className="w-24">
+                  <Label className="text-xs">Quantity</Label>
+                  <Input
+                    type="number"
+                    min={1}
+                    value={line.quantity}
+                    onChange={(e) =>
+                      updateLine(line.variantId, { quantity: e.target.value })
+                    }
+                  />
+                </div>
+                <div className="w-32">
+                  <Label className="text-xs">
+                    Unit cost ({options.currency})
+                  </Label>
+                  <Input
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    value={line.unitCost}
+                    onChange={(e) =>
+                      updateLine(line.variantId, { unitCost: e.target.value })
+                    }
+                  />
+                </div>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() =>
+                    setLines((prev) =>
+                      prev.filter((l) => l.variantId !== line.variantId)
+                    )
+                  }
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            );
+          })}
+
+          <div className="flex items-center gap-2 pt-2">
+            <Select value={adding} onValueChange={setAdding}>
+              <SelectTrigger className="flex-1">
+                <SelectValue placeholder="Add a product" />
+              </SelectTrigger>
+              <SelectContent>
+                {addable.map((variant) => (
+                  <SelectItem key={variant.variantId} value={variant.variantId}>
+                    {variant.listingName} – {variant.variantTitle}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={handleAdd}
+              disabled={!adding}
+            >
+              <Plus className="h-4 w-4" />
+            </Button>
+          </div>
+
+          <div className="flex justify-between border-t pt-3 font-medium">
+            <span>Order total</span>
+            <span>
+              {options.currency} {total.toFixed(2)}
+            </span>
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="flex justify-end">
+        <Button type="submit" disabled={isSaving || lines.length === 0}>
+          {isSaving
+            ? "Saving..."
+            : purchaseOrderId
+              ? "Save Draft"
+              : "Create Draft"}
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,167 @@
+"use client";
+
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Plus, Truck } from "lucide-react";
+import { format } from "date-fns";
+import { Link } from "@/i18n/navigation";
+import type { PurchaseOrderListRow } from "@/app/[locale]/actions/purchase-orders";
+import {
+  getPurchaseOrderStatusColor,
+  getPurchaseOrderStatusLabel,
+} from "./purchase-order-status";
+
+const ALL_STATUSES = "all";
+const OPEN_STATUSES = ["draft", "ordered", "partial"];
+
+interface PurchaseOrdersPageClientProps {
+  purchaseOrders: PurchaseOrderListRow[];
+  canCreate: boolean;
+}
+
+export default function PurchaseOrdersPageClient({
+  purchaseOrders,
+  canCreate,
+}: PurchaseOrdersPageClientProps) {
+  const [statusFilter, setStatusFilter] = useState("open");
+
+  const visible = purchaseOrders.filter((po) =>
+    statusFilter === ALL_STATUSES
+      ? true
+      : statusFilter === "open"
+        ? OPEN_STATUSES.includes(po.status)
+        : po.status === statusFilter
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Purchase Orders</h1>
+          <p className="text-muted-foreground mt-1">
+            Order stock from your suppliers and receive it into a location.
+            Placed orders show as incoming until they arrive.
+          </p>
+        </div>
+        {canCreate && (
+          <div className="flex gap-2">
+            <Button variant="outline" asChild>
+              <Link href="/dashboard/inventory/suppliers">
+                <Truck className="h-4 w-4 mr-2" />
+                Suppliers
+              </Link>
+            </Button>
+            <Button asChild>
+              <Link href="/dashboard/inventory/purchase-orders/new">
+                <Plus className="h-4 w-4 mr-2" />
+                New Purchase Order
+              </Link>
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <CardTitle>
+            {visible.length} purchase order{visible.length === 1 ? "" : "s"}
+          </CardTitle>
+          <Select value={statusFilter} onValueChange={setStatusFilter}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="open">Open</SelectItem>
+              <SelectItem value={ALL_STATUSES}>All</SelectItem>
+              {[
+                "draft",
+                "ordered",
+                "partial",
+                "received",
+                "closed",
+                "cancelled",
+              ].map((status) => (
+                <SelectItem key={status} value={status}>
+                  {getPurchaseOrderStatusLabel(status)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </CardHeader>
+        <CardContent>
+          {visible.length === 0 ? (
+            <p className="text-muted-foreground text-center py-6">
+              No purchase orders here yet.
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Number</TableHead>
+                  <TableHead>Supplier</TableHead>
+                  <TableHead>Destination</TableHead>
+                  <TableHead>Received</TableHead>
+                  <TableHead>Total</TableHead>
+                  <TableHead>Expected</TableHead>
+                  <TableHead>Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {visible.map((po) => (
+                  <TableRow key={po.id}>
+                    <TableCell className="font-medium">
+                      <Link
+                        href={`/dashboard/inventory/purchase-orders/${po.id}`}
+                        className="hover:underline"
+                      >
+                        {po.number}
+                      </Link>
+                    </TableCell>
+                    <TableCell>{po.supplierName}</TableCell>
+                    <TableCell>{po.locationName}</TableCell>
+                    <TableCell>
+                      {po.quantityReceived} / {po.quantityOrdered}
+                    </TableCell>
+                    <TableCell>
+                      {po.currency} {po.total.toFixed(2)}
+                    </TableCell>
+                    <TableCell>
+                      {po.expectedAt
+                        ? format(new Date(po.expectedAt), "MMM d, yyyy")
+                        : "-"}
+                    </TableCell>
+                    <TableCell>
+                      <Badge
+                        variant="outline"
+                        className={getPurchaseOrderStatusColor(po.status)}
+                      >
+                        {getPurchaseOrderStatusLabel(po.status)}
+                      </Badge>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
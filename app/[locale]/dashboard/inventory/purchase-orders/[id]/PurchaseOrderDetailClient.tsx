@@ -0,0 +1,301 @@
+"use client";
+
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ArrowLeft, FileDown, PackageCheck, Send, XCircle } from "lucide-react";
+import { format } from "date-fns";
+import toast from "react-hot-toast";
+import { Link, useRouter } from "@/i18n/navigation";
+import {
+  closePurchaseOrder,
+  getPurchaseOrderPdf,
+  placePurchaseOrder,
+  receivePurchaseOrder,
+  type PurchaseOrderDetail,
+  type PurchaseOrderFormOptions,
+} from "@/app/[locale]/actions/purchase-orders";
+import PurchaseOrderForm from "../PurchaseOrderForm";
+import {
+  getPurchaseOrderStatusColor,
+  getPurchaseOrderStatusLabel,
+} from "../purchase-order-status";
+
+interface PurchaseOrderDetailClientProps {
+  detail: PurchaseOrderDetail;
+  formOptions: PurchaseOrderFormOptions | null; // Set for editable drafts
+}
+
+export default function PurchaseOrderDetailClient({
+  detail,
+  formOptions,
+}: PurchaseOrderDetailClientProps) {
+  const router = useRouter();
+  const { purchaseOrder, supplier, items } = detail;
+  const [receiving, setReceiving] = useState<Record<string, string>>({});
+  const [busyAction, setBusyAction] = useState<string | null>(null);
+
+  const isAwaitingDelivery = ["ordered", "partial"].includes(
+    purchaseOrder.status
+  );
+  const canClose = ["draft", "ordered", "partial"].includes(
+    purchaseOrder.status
+  );
+  const total = items.reduce(
+    (sum, item) => sum + item.quantityOrdered * parseFloat(item.unitCost),
+    0
+  );
+
+  const runAction = async (
+    name: string,
+    action: () => Promise<{
+      success: boolean;
+      error?: string;
+      message?: string;
+    }>
+  ) => {
+    setBusyAction(name);
+    try {
+      const result = await action();
+      if (!result.success) {
+        toast.error(result.error || "Something went wrong");
+        return false;
+      }
+      if (result.message) toast.success(result.message);
+      router.refresh();
+      return true;
+    } finally {
+      setBusyAction(null);
+    }
+  };
+
+  const handlePlace = () =>
+    runAction("place", () => placePurchaseOrder(purchaseOrder.id));
+
+  const handleClose = () => {
+    const message =
+      purchaseOrder.status === "partial"
+        ? "Close this purchase order? Items not yet received will be removed from incoming stock."
+        : "Cancel this purchase order?";
+    if (!confirm(message)) return;
+    runAction("close", () => closePurchaseOrder(purchaseOrder.id));
+  };
+
+  const handleReceive = async () => {
+    const receipts = Object.entries(receiving)
+      .map(([itemId, value]) => ({ itemId, quantity: parseInt(value) || 0 }))
+      .filter((r) => r.quantity > 0);
+    const received = await runAction("receive", () =>
+      receivePurchaseOrder(purchaseOrder.id, receipts)
+    );
+    if (received) setReceiving({});
+  };
+
+  const handleReceiveAll = () => {
+    setReceiving(
+      Object.fromEntries(
+        items.map((item) => [
+          item.id,
+          String(item.quantityOrdered - item.quantityReceived),
+        ])
+      )
+    );
+  };
+
+  const handleDownload = async () => {
+    setBusyAction("pdf");
+    try {
+      const result = await getPurchaseOrderPdf(purchaseOrder.id);
+      if (!result.success || !result.result) {
+        toast.error(result.error || "Failed to generate PDF");
+        return;
+      }
+      window.open(result.result.url, "_blank", "noopener,noreferrer");
+    } finally {
+      setBusyAction(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Link
+        href="/dashboard/inventory/purchase-orders"
+        className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground"
+      >
+        <ArrowLeft className="h-4 w-4 mr-1" />
+        Purchase orders
+      </Link>
+
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <div className="flex items-center gap-3">
+            <h1 className="text-3xl font-bold">{detail.number}</h1>
+            <Badge
+              variant="outline"
+              className={getPurchaseOrderStatusColor(purchaseOrder.status)}
+            >
+              {getPurchaseOrderStatusLabel(purchaseOrder.status)}
+            </Badge>
+          </div>
+          <p className="text-muted-foreground mt-1">
+            {supplier.name} → {detail.locationName}
+            {purchaseOrder.expectedAt &&
+              ` · Expected ${format(new Date(purchaseOrder.expectedAt), "MMM d, yyyy")}`}
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <Button
+            variant="outline"
+            onClick={handleDownload}
+            disabled={busyAction !== null}
+          >
+            <FileDown className="h-4 w-4 mr-2" />
+            {busyAction === "pdf" ? "Generating..." : "PDF"}
+          </Button>
+          {canClose && (
+            <Button
+              variant="outline"
+              onClick={handleClose}
+              disabled={busyAction !== null}
+            >
+              <XCircle className="h-4 w-4 mr-2" />
+              {purchaseOrder.status === "partial" ? "Close Short" : "Cancel"}
+            </Button>
+          )}
+          {purchaseOrder.status === "draft" && (
+            <Button onClick={handlePlace} disabled={busyAction !== null}>
+              <Send className="h-4 w-4 mr-2" />
+              {busyAction === "place" ? "Placing..." : "Place Order"}
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {formOptions ? (
+        <PurchaseOrderForm
+          options={formOptions}
+          purchaseOrderId={purchaseOrder.id}
+          initialData={{
+            supplierId: purchaseOrder.supplierId,
+            locationId: purchaseOrder.locationId,
+            expectedAt: purchaseOrder.expectedAt
+              ? format(new Date(purchaseOrder.expectedAt), "yyyy-MM-dd")
+              : null,
+            notes: purchaseOrder.notes,
+            items: items
+              .filter((item) => item.variantId)
+              .map((item) => ({
+                variantId: item.variantId!,
+                quantity: item.quantityOrdered,
+                unitCost: parseFloat(item.unitCost),
+              })),
+          }}
+        />
+      ) : (
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between">
+            <CardTitle>Items</CardTitle>
+            {isAwaitingDelivery && (
+              <Button variant="outline" size="sm" onClick={handleReceiveAll}>
+                Fill outstanding
+              </Button>
+            )}
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Product</TableHead>
+                  <TableHead>Unit cost</TableHead>
+                  <TableHead>Ordered</TableHead>
+                  <TableHead>Received</TableHead>
+                  {isAwaitingDelivery && <TableHead>Receive now</TableHead>}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {items.map((item) => {
+                  const outstanding =
+                    item.quantityOrdered - item.quantityReceived;
+                  return (
+                    <TableRow key={item.id}>
+                      <TableCell>
+                        <div className="font-medium">{item.productName}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {item.variantTitle}
+                          {item.sku && ` · SKU ${item.sku}`}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        {purchaseOrder.currency}{" "}
+                        {parseFloat(item.unitCost).toFixed(2)}
+                      </TableCell>
+                      <TableCell>{item.quantityOrdered}</TableCell>
+                      <TableCell>{item.quantityReceived}</TableCell>
+                      {isAwaitingDelivery && (
+                        <TableCell>
+                          {outstanding > 0 && item.variantId ? (
+                            <Input
+                              type="number"
+                              min={0}
+                              max={outstanding}
+                              className="w-24"
+                              value={receiving[item.id] ?? ""}
+                              placeholder="0"
+                              onChange={(e) =>
+                                setReceiving((prev) => ({
+                                  ...prev,
+                                  [item.id]: e.target.value,
+                                }))
+                              }
+                            />
+                          ) : (
+                            <span className="text-muted-foreground">-</span>
+                          )}
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+
+            <div className="flex items-center justify-between border-t mt-4 pt-4">
+              <span className="font-medium">
+                Order total: {purchaseOrder.currency} {total.toFixed(2)}
+              </span>
+              {isAwaitingDelivery && (
+                <Button onClick={handleReceive} disabled={busyAction !== null}>
+                  <PackageCheck className="h-4 w-4 mr-2" />
+                  {busyAction === "receive"
+                    ? "Receiving..."
+                    : "Receive Delivery"}
+                </Button>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {purchaseOrder.notes && !formOptions && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Notes</CardTitle>
+          </CardHeader>
+          <CardContent className="whitespace-pre-wrap text-sm">
+            {purchaseOrder.notes}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
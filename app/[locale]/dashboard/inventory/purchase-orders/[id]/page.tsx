@@ -0,0 +1,44 @@
+import { protectDashboardRoute } from "@/app/[locale]/lib/dashboard-auth";
+import { DashboardWrapper } from "@/app/[locale]/dashboard/components/shared/DashboardWrapper";
+import {
+  getPurchaseOrder,
+  getPurchaseOrderFormOptions,
+} from "@/app/[locale]/actions/purchase-orders";
+import PurchaseOrderDetailClient from "./PurchaseOrderDetailClient";
+import DashboardNotFound from "../../../not-found";
+
+export default async function PurchaseOrderPage({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}) {
+  const { role, shouldShowNotFound } = await protectDashboardRoute({
+    allowedRoles: ["admin", "seller"],
+    showNotFound: true,
+  });
+
+  if (shouldShowNotFound) {
+    return <DashboardNotFound />;
+  }
+
+  const { id } = await params;
+  const result = await getPurchaseOrder(id);
+  if (!result.success || !result.result) {
+    return <DashboardNotFound />;
+  }
+
+  // Drafts are edited in place
+  const optionsResult =
+    result.result.purchaseOrder.status === "draft" && role === "seller"
+      ? await getPurchaseOrderFormOptions()
+      : null;
+
+  return (
+    <DashboardWrapper userRole={role}>
+      <PurchaseOrderDetailClient
+        detail={result.result}
+        formOptions={optionsResult?.result ?? null}
+      />
+    </DashboardWrapper>
+  );
+}
@@ -0,0 +1,38 @@
+import { protectDashboardRoute } from "@/app/[locale]/lib/dashboard-auth";
+import { DashboardWrapper } from "@/app/[locale]/dashboard/components/shared/DashboardWrapper";
+import { getPurchaseOrderFormOptions } from "@/app/[locale]/actions/purchase-orders";
+import PurchaseOrderForm from "../PurchaseOrderForm";
+import DashboardNotFound from "../../../not-found";
+
+export default async function NewPurchaseOrderPage() {
+  const { role, shouldShowNotFound } = await protectDashboardRoute({
+    allowedRoles: ["seller"],
+    showNotFound: true,
+  });
+
+  if (shouldShowNotFound) {
+    return <DashboardNotFound />;
+  }
+
+  const result = await getPurchaseOrderFormOptions();
+
+  return (
+    <DashboardWrapper userRole={role}>
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold">New Purchase Order</h1>
+          <p className="text-muted-foreground mt-1">
+            Save it as a draft, then place it once the supplier confirms.
+          </p>
+        </div>
+        {result.success && result.result ? (
+          <PurchaseOrderForm options={result.result} />
+        ) : (
+          <div className="text-red-600">
+            {result.error || "Failed to load purchase order options"}
+          </div>
+        )}
+      </div>
+    </DashboardWrapper>
+  );
+}
@@ -0,0 +1,39 @@
+import { protectDashboardRoute } from "@/app/[locale]/lib/dashboard-auth";
+import { DashboardWrapper } from "@/app/[locale]/dashboard/components/shared/DashboardWrapper";
+import { getPurchaseOrders } from "@/app/[locale]/actions/purchase-orders";
+import PurchaseOrdersPageClient from "./PurchaseOrdersPageClient";
+import DashboardNotFound from "../../not-found";
+
+export default async function PurchaseOrdersPage() {
+  const { role, shouldShowNotFound } = await protectDashboardRoute({
+    allowedRoles: ["admin", "seller"],
+    showNotFound: true,
+  });
+
+  if (shouldShowNotFound) {
+    return <DashboardNotFound />;
+  }
+
+  const result = await getPurchaseOrders();
+
+  if (!result.success) {
+    return (
+      <DashboardWrapper userRole={role}>
+        <div className="p-6">
+          <div className="text-red-600">
+            {result.error || "Failed to load purchase orders"}
+          </div>
+        </div>
+      </DashboardWrapper>
+    );
+  }
+
+  return (
+    <DashboardWrapper userRole={role}>
+      <PurchaseOrdersPageClient
+        purchaseOrders={result.result || []}
+        canCreate={role === "seller"}
+      />
+    </DashboardWrapper>
+  );
+}
@@ -0,0 +1,23 @@
+export function getPurchaseOrderStatusColor(status: string) {
+  const colors: Record<string, string> = {
+    draft: "bg-gray-100 text-gray-800 border-gray-200",
+    ordered: "bg-blue-100 text-blue-800 border-blue-200",
+    partial: "bg-yellow-100 text-yellow-800 border-yellow-200",
+    received: "bg-green-100 text-green-800 border-green-200",
+    closed: "bg-purple-100 text-purple-800 border-purple-200",
+    cancelled: "bg-gray-100 text-gray-800 border-gray-200",
+  };
+  return colors[status] || colors.draft;
+}
+
+export function getPurchaseOrderStatusLabel(status: string) {
+  const labels: Record<string, string> = {
+    draft: "Draft",
+    ordered: "Ordered",
+    partial: "Partially Received",
+    received: "Received",
+    closed: "Closed Short",
+    cancelled: "Cancelled",
+  };
+  return labels[status] || status;
+}
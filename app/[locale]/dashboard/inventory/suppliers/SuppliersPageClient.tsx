@@ -0,0 +1,298 @@
+"use client";
+
+import React, { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Plus, Edit, Trash2 } from "lucide-react";
+import toast from "react-hot-toast";
+import { useRouter } from "@/i18n/navigation";
+import type { Supplier } from "@/db/schema";
+import {
+  createSupplier,
+  deleteSupplier,
+  updateSupplier,
+  type SupplierData,
+} from "@/app/[locale]/actions/purchase-orders";
+
+const emptyForm: SupplierData = {
+  name: "",
+  contactName: "",
+  email: "",
+  phone: "",
+  address: "",
+  notes: "",
+  isActive: true,
+};
+
+interface SuppliersPageClientProps {
+  suppliers: Supplier[];
+}
+
+export default function SuppliersPageClient({
+  suppliers,
+}: SuppliersPageClientProps) {
+  const router = useRouter();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingSupplier, setEditingSupplier] = useState<Supplier | null>(null);
+  const [formData, setFormData] = useState<SupplierData>(emptyForm);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const openCreateDialog = () => {
+    setEditingSupplier(null);
+    setFormData(emptyForm);
+    setIsDialogOpen(true);
+  };
+
+  const openEditDialog = (supplier: Supplier) => {
+    setEditingSupplier(supplier);
+    setFormData({
+      name: supplier.name,
+      contactName: supplier.contactName || "",
+      email: supplier.email || "",
+      phone: supplier.phone || "",
+      address: supplier.address || "",
+      notes: supplier.notes || "",
+      isActive: supplier.isActive,
+    });
+    setIsDialogOpen(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    try {
+      const result = editingSupplier
+        ? await updateSupplier(editingSupplier.id, formData)
+        : await createSupplier(formData);
+      if (!result.success) {
+        toast.error(result.error || "Failed to save supplier");
+        return;
+      }
+      toast.success(result.message || "Supplier saved");
+      setIsDialogOpen(false);
+      router.refresh();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (supplierId: string) => {
+    if (!confirm("Are you sure you want to delete this supplier?")) {
+      return;
+    }
+    const result = await deleteSupplier(supplierId);
+    if (!result.success) {
+      toast.error(result.error || "Failed to delete supplier");
+      return;
+    }
+    toast.success(result.message || "Supplier deleted");
+    router.refresh();
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Suppliers</h1>
+          <p className="text-muted-foreground mt-1">
+            The producers and cooperatives you buy stock from.
+          </p>
+        </div>
+        <Button className="flex items-center gap-2" onClick={openCreateDialog}>
+          <Plus className="h-4 w-4" />
+          Add Supplier
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Suppliers ({suppliers.length})</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {suppliers.length === 0 ? (
+            <p className="text-muted-foreground text-center py-6">
+              No suppliers yet. Add one to start creating purchase orders.
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Contact</TableHead>
+                  <TableHead>Address</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {suppliers.map((supplier) => (
+                  <TableRow key={supplier.id}>
+                    <TableCell className="font-medium">
+                      {supplier.name}
+                    </TableCell>
+                    <TableCell>
+                      <div>{supplier.contactName || "-"}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {[supplier.phone, supplier.email]
+                          .filter(Boolean)
+                          .join(" · ")}
+                      </div>
+                    </TableCell>
+                    <TableCell>{supplier.address || "-"}</TableCell>
+                    <TableCell>
+                      <Badge
+                        variant={supplier.isActive ? "default" : "secondary"}
+                      >
+                        {supplier.isActive ? "Active" : "Inactive"}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex gap-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => openEditDialog(supplier)}
+                        >
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleDelete(supplier.id)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-xl max-h-[95vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>
+              {editingSupplier ? "Edit Supplier" : "Add Supplier"}
+            </DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <Label htmlFor="supplier-name">Name *</Label>
+              <Input
+                id="supplier-name"
+                value={formData.name}
+                onChange={(e) =>
+                  setFormData({ ...formData, name: e.target.value })
+                }
+                placeholder="e.g. Ilam Beekeepers Cooperative"
+                required
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="supplier-contact">Contact person</Label>
+                <Input
+                  id="supplier-contact"
+                  value={formData.contactName || ""}
+                  onChange={(e) =>
+                    setFormData({ ...formData, contactName: e.target.value })
+                  }
+                />
+              </div>
+              <div>
+                <Label htmlFor="supplier-phone">Phone</Label>
+                <Input
+                  id="supplier-phone"
+                  value={formData.phone || ""}
+                  onChange={(e) =>
+                    setFormData({ ...formData, phone: e.target.value })
+                  }
+                />
+              </div>
+            </div>
+            <div>
+              <Label htmlFor="supplier-email">Email</Label>
+              <Input
+                id="supplier-email"
+                type="email"
+                value={formData.email || ""}
+                onChange={(e) =>
+                  setFormData({ ...formData, email: e.target.value })
+                }
+              />
+            </div>
+            <div>
+              <Label htmlFor="supplier-address">Address</Label>
+              <Textarea
+                id="supplier-address"
+                value={formData.address || ""}
+                onChange={(e) =>
+                  setFormData({ ...formData, address: e.target.value })
+                }
+                rows={2}
+              />
+            </div>
+            <div>
+              <Label htmlFor="supplier-notes">Notes</Label>
+              <Textarea
+                id="supplier-notes"
+                value={formData.notes || ""}
+                onChange={(e) =>
+                  setFormData({ ...formData, notes: e.target.value })
+                }
+                rows={2}
+              />
+            </div>
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="supplier-active"
+                checked={formData.isActive ?? true}
+                onCheckedChange={(checked) =>
+                  setFormData({ ...formData, isActive: checked === true })
+                }
+              />
+              <Label htmlFor="supplier-active">
+                Active (available for new purchase orders)
+              </Label>
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setIsDialogOpen(false)}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSaving}>
+                {isSaving ? "Saving..." : "Save"}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
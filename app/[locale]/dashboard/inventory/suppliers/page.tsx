@@ -0,0 +1,36 @@
+import { protectDashboardRoute } from "@/app/[locale]/lib/dashboard-auth";
+import { DashboardWrapper } from "@/app/[locale]/dashboard/components/shared/DashboardWrapper";
+import { getSuppliers } from "@/app/[locale]/actions/purchase-orders";
+import SuppliersPageClient from "./SuppliersPageClient";
+import DashboardNotFound from "../../not-found";
+
+export default async function SuppliersPage() {
+  const { role, shouldShowNotFound } = await protectDashboardRoute({
+    allowedRoles: ["seller"],
+    showNotFound: true,
+  });
+
+  if (shouldShowNotFound) {
+    return <DashboardNotFound />;
+  }
+
+  const result = await getSuppliers();
+
+  if (!result.success) {
+    return (
+      <DashboardWrapper userRole={role}>
+        <div className="p-6">
+          <div className="text-red-600">
+            {result.error || "Failed to load suppliers"}
+          </div>
+        </div>
+      </DashboardWrapper>
+    );
+  }
+
+  return (
+    <DashboardWrapper userRole={role}>
+      <SuppliersPageClient suppliers={result.result || []} />
+    </DashboardWrapper>
+  );
+}
@@ -15,6 +15,7 @@ interface MarketFormClientProps {
     countries: string[] | null;
     exchangeRate: string;
     roundingRule: string | null;
+    pricesIncludeTax: boolean;
     isDefault: boolean;
   };
   marketId: string;
@@ -32,6 +33,7 @@ export default function MarketFormClient({
     currency: string;
     countries: string[];
     roundingRule?: string;
+    pricesIncludeTax?: boolean;
     status?: "active" | "draft";
     isDefault?: boolean;
   }) => {
@@ -39,6 +39,7 @@ interface MarketFormProps {
     countries: string[] | null;
     exchangeRate: string;
     roundingRule: string | null;
+    pricesIncludeTax?: boolean;
     isDefault: boolean;
   };
   onSubmit: (data: {
@@ -46,6 +47,7 @@ interface MarketFormProps {
     currency: string;
     countries: string[];
     roundingRule?: string;
+    pricesIncludeTax?: boolean;
     status?: "active" | "draft";
     isDefault?: boolean;
   }) => Promise<void>;
@@ -68,6 +70,9 @@ export default function MarketForm({
   const [roundingRule, setRoundingRule] = useState(
     initialData?.roundingRule || "none"
   );
+  const [pricesIncludeTax, setPricesIncludeTax] = useState(
+    initialData?.pricesIncludeTax || false
+  );
   const [isDefault, setIsDefault] = useState(initialData?.isDefault || false);
   const [fetchingRate, setFetchingRate] = useState(false);
   const [exchangeRate, setExchangeRate] = useState(
@@ -125,6 +130,7 @@ export default function MarketForm({
       currency,
       countries: selectedCountries,
       roundingRule: roundingRule || "none",
+      pricesIncludeTax,
       status,
       isDefault,
     });
@@ -260,6 +266,19 @@ export default function MarketForm({
             </ShadcnSelect>
           </div>
 
+          <div className="flex items-center space-x-2">
+            <input
+              type="checkbox"
+              id="pricesIncludeTax"
+              checked={pricesIncludeTax}
+              onChange={(e) => setPricesIncludeTax(e.target.checked)}
+              className="rounded"
+            />
+            <Label htmlFor="pricesIncludeTax" className="cursor-pointer">
+              Prices include tax (e.g. VAT in the EU)
+            </Label>
+          </div>
+
           <div className="flex items-center space-x-2">
             <input
               type="checkbox"
@@ -15,6 +15,7 @@ export default function MarketFormClient() {
     currency: string;
     countries: string[];
     roundingRule?: string;
+    pricesIncludeTax?: boolean;
     status?: "active" | "draft";
     isDefault?: boolean;
   }) => {
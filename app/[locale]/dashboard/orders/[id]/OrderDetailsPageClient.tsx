@@ -30,6 +30,7 @@ import { useRouter } from "@/i18n/navigation";
 import { format } from "date-fns";
 import { FulfillmentCard } from "./components/FulfillmentCard";
 import { PaymentSummary } from "./components/PaymentSummary";
+import { DisputeCard } from "./components/DisputeCard";
 import { OrderTimeline } from "./components/OrderTimeline";
 import { OrderSidebar } from "./components/OrderSidebar";
 import { CancelOrderDialog } from "./components/CancelOrderDialog";
@@ -37,6 +38,7 @@ import { SendInvoiceDialog } from "./components/SendInvoiceDialog";
 import { SendInvoicePdfDialog } from "./components/SendInvoicePdfDialog";
 import { CancelOrderModal } from "../components/CancelOrderModal";
 import { RefundRequestForm } from "../components/RefundRequestForm";
+import { ReturnRequestForm } from "../components/ReturnRequestForm";
 import { archiveOrders, unarchiveOrders } from "@/app/[locale]/actions/orders-archive";
 import { getStoreOwnerEmail } from "@/app/[locale]/actions/orders";
 import toast from "react-hot-toast";
@@ -202,6 +204,15 @@ export default function OrderDetailsPageClient({
     orderData.refundRequestStatus !== "approved" &&
     orderData.refundRequestStatus !== "rejected";
 
+  const canRequestReturn =
+    userRole === "customer" &&
+    !isArchived &&
+    !isCanceled &&
+    (orderData.fulfillmentStatus === "fulfilled" ||
+      orderData.fulfillmentStatus === "partial") &&
+    (orderData.paymentStatus === "paid" ||
+      orderData.paymentStatus === "partially_refunded");
+
   const isRefundRequestRejected = orderData.refundRequestStatus === "rejected";
 
   // Dialog states
@@ -212,6 +223,7 @@ export default function OrderDetailsPageClient({
     useState(false);
   const [showCancelModal, setShowCancelModal] = useState(false);
   const [showRefundRequestForm, setShowRefundRequestForm] = useState(false);
+  const [showReturnRequestForm, setShowReturnRequestForm] = useState(false);
   const [archiving, setArchiving] = useState(false);
   const [storeOwnerEmail, setStoreOwnerEmail] = useState<string | null>(null);
 
@@ -465,6 +477,14 @@ export default function OrderDetailsPageClient({
                     Request Refund
                   </Button>
                 )}
+                {canRequestReturn && (
+                  <Button
+                    variant="outline"
+                    onClick={() => setShowReturnRequestForm(true)}
+                  >
+                    Return Items
+                  </Button>
+                )}
               </div>
               {isRefundRequestRejected &&
                 orderData.refundRequest?.rejectionReason && (
@@ -502,6 +522,11 @@ export default function OrderDetailsPageClient({
             orderId={orderData.id}
           />
 
+          {/* Disputes */}
+          {(userRole === "admin" || userRole === "seller") && (
+            <DisputeCard orderId={orderData.id} />
+          )}
+
           {/* Timeline */}
           <OrderTimeline
             orderId={orderData.id}
@@ -607,6 +632,14 @@ export default function OrderDetailsPageClient({
         currency={orderData.currency}
         onSuccess={handleRefresh}
       />
+
+      {/* Customer Return Request Form */}
+      <ReturnRequestForm
+        open={showReturnRequestForm}
+        onOpenChange={setShowReturnRequestForm}
+        orderId={orderData.id}
+        orderNumber={orderData.orderNumber}
+      />
     </div>
   );
 }
@@ -0,0 +1,210 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { ShieldAlert } from "lucide-react";
+import { format } from "date-fns";
+import toast from "react-hot-toast";
+import { useRouter } from "@/i18n/navigation";
+import {
+  getOrderDisputes,
+  submitDisputeEvidence,
+  type OrderDisputeData,
+} from "@/app/[locale]/actions/disputes";
+
+interface DisputeCardProps {
+  orderId: string;
+}
+
+const FILE_FIELDS = [
+  { name: "receipt", label: "Receipt or invoice" },
+  { name: "customerCommunication", label: "Customer communication" },
+  { name: "shippingDocumentation", label: "Proof of shipping or delivery" },
+  { name: "uncategorizedFile", label: "Other document" },
+];
+
+function statusVariant(
+  status: string
+): "default" | "secondary" | "destructive" | "outline" {
+  if (status === "won" || status === "warning_closed") return "default";
+  if (status === "lost") return "destructive";
+  if (status.endsWith("needs_response")) return "destructive";
+  return "secondary";
+}
+
+export function DisputeCard({ orderId }: DisputeCardProps) {
+  const router = useRouter();
+  const [disputes, setDisputes] = useState<OrderDisputeData[]>([]);
+  const [submittingId, setSubmittingId] = useState<string | null>(null);
+
+  const loadDisputes = useCallback(async () => {
+    const result = await getOrderDisputes(orderId);
+    if (result.success && result.data) {
+      setDisputes(result.data);
+    }
+  }, [orderId]);
+
+  useEffect(() => {
+    loadDisputes();
+  }, [loadDisputes]);
+
+  const handleSubmit = async (
+    e: React.FormEvent<HTMLFormElement>,
+    disputeId: string
+  ) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+    formData.set("disputeId", disputeId);
+
+    setSubmittingId(disputeId);
+    try {
+      const result = await submitDisputeEvidence(formData);
+      if (result.success) {
+        toast.success("Evidence submitted to Stripe");
+        await loadDisputes();
+        router.refresh();
+      } else {
+        toast.error(result.error || "Failed to submit evidence");
+      }
+    } catch (error) {
+      console.error("Error submitting dispute evidence:", error);
+      toast.error("Failed to submit evidence");
+    } finally {
+      setSubmittingId(null);
+    }
+  };
+
+  if (disputes.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldAlert className="h-5 w-5 text-destructive" />
+          Disputes
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {disputes.map((dispute) => (
+          <div key={dispute.id} className="space-y-4">
+            <div className="flex items-start justify-between gap-4">
+              <div className="space-y-1 text-sm">
+                <p className="font-medium">
+                  {parseFloat(dispute.amount).toFixed(2)} {dispute.currency}
+                  {dispute.reason && (
+                    <span className="text-muted-foreground font-normal">
+                      {" "}
+                      · {dispute.reason.replace(/_/g, " ")}
+                    </span>
+                  )}
+                </p>
+                <p className="text-muted-foreground">
+                  Opened {format(new Date(dispute.createdAt), "MMM d, yyyy")}
+                  {dispute.evidenceDueBy &&
+                    !dispute.closedAt &&
+                    ` · Evidence due ${format(new Date(dispute.evidenceDueBy), "MMM d, yyyy h:mm a")}`}
+                </p>
+                {parseFloat(dispute.ledgerAmount) > 0 && (
+                  <p className="text-muted-foreground">
+                    Deducted from balance:{" "}
+                    {parseFloat(dispute.ledgerAmount).toFixed(2)}{" "}
+                    {dispute.currency}
+                  </p>
+                )}
+                {dispute.evidenceSubmittedAt && (
+                  <p className="text-muted-foreground">
+                    Evidence submitted{" "}
+                    {format(
+                      new Date(dispute.evidenceSubmittedAt),
+                      "MMM d, yyyy"
+                    )}
+                  </p>
+                )}
+              </div>
+              <Badge variant={statusVariant(dispute.status)}>
+                {dispute.status.replace(/_/g, " ")}
+              </Badge>
+            </div>
+
+            {dispute.canSubmitEvidence && (
+              <form
+                onSubmit={(e) => handleSubmit(e, dispute.id)}
+                className="space-y-4 border-t pt-4"
+              >
+                <p className="text-sm text-muted-foreground">
+                  Evidence can only be submitted once. PDF, JPEG or PNG files up
+                  to 5MB each.
+                </p>
+                <div className="space-y-2">
+                  <Label htmlFor={`productDescription-${dispute.id}`}>
+                    Product description
+                  </Label>
+                  <Textarea
+                    id={`productDescription-${dispute.id}`}
+                    name="productDescription"
+                    rows={3}
+                  />
+                </div>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor={`shippingCarrier-${dispute.id}`}>
+                      Shipping carrier
+                    </Label>
+                    <Input
+                      id={`shippingCarrier-${dispute.id}`}
+                      name="shippingCarrier"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor={`shippingTrackingNumber-${dispute.id}`}>
+                      Tracking number
+                    </Label>
+                    <Input
+                      id={`shippingTrackingNumber-${dispute.id}`}
+                      name="shippingTrackingNumber"
+                    />
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor={`uncategorizedText-${dispute.id}`}>
+                    Additional information
+                  </Label>
+                  <Textarea
+                    id={`uncategorizedText-${dispute.id}`}
+                    name="uncategorizedText"
+                    rows={4}
+                  />
+                </div>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  {FILE_FIELDS.map((field) => (
+                    <div key={field.name} className="space-y-2">
+                      <Label htmlFor={`${field.name}-${dispute.id}`}>
+                        {field.label}
+                      </Label>
+                      <Input
+                        id={`${field.name}-${dispute.id}`}
+                        name={field.name}
+                        type="file"
+                        accept="application/pdf,image/jpeg,image/png"
+                      />
+                    </div>
+                  ))}
+                </div>
+                <Button type="submit" disabled={submittingId === dispute.id}>
+                  {submittingId === dispute.id
+                    ? "Submitting..."
+                    : "Submit Evidence"}
+                </Button>
+              </form>
+            )}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
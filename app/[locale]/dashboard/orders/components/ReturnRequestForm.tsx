@@ -0,0 +1,236 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2 } from "lucide-react";
+import { format } from "date-fns";
+import {
+  createReturnRequest,
+  getReturnEligibility,
+  type ReturnEligibility,
+} from "@/app/[locale]/actions/returns";
+import { returnReasons } from "../returns/return-status";
+import toast from "react-hot-toast";
+import { useRouter } from "@/i18n/navigation";
+
+interface ReturnRequestFormProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  orderId: string;
+  orderNumber: string;
+  onSuccess?: () => void;
+}
+
+export function ReturnRequestForm({
+  open,
+  onOpenChange,
+  orderId,
+  orderNumber,
+  onSuccess,
+}: ReturnRequestFormProps) {
+  const router = useRouter();
+  const [loading, setLoading] = useState(false);
+  const [checking, setChecking] = useState(false);
+  const [eligibility, setEligibility] = useState<ReturnEligibility | null>(
+    null
+  );
+  const [quantities, setQuantities] = useState<Record<string, string>>({});
+  const [reason, setReason] = useState("");
+  const [description, setDescription] = useState("");
+
+  useEffect(() => {
+    if (!open) return;
+
+    setChecking(true);
+    getReturnEligibility(orderId)
+      .then((result) => {
+        if (result.success && result.data) {
+          setEligibility(result.data);
+          setQuantities({});
+        } else {
+          toast.error(result.error || "Failed to check return eligibility");
+        }
+      })
+      .finally(() => setChecking(false));
+  }, [open, orderId]);
+
+  const selectedItems = Object.entries(quantities)
+    .map(([orderItemId, quantity]) => ({
+      orderItemId,
+      quantity: parseInt(quantity) || 0,
+    }))
+    .filter((i) => i.quantity > 0);
+
+  const handleSubmit = async () => {
+    if (!reason) {
+      toast.error("Please select a reason for the return");
+      return;
+    }
+    if (selectedItems.length === 0) {
+      toast.error("Please select at least one item to return");
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const result = await createReturnRequest({
+        orderId,
+        reason,
+        description: description || undefined,
+        items: selectedItems,
+      });
+
+      if (result.success) {
+        toast.success(
+          "Return request submitted. The seller will review it shortly."
+        );
+        onOpenChange(false);
+        setReason("");
+        setDescription("");
+        onSuccess?.();
+        if (result.returnId) {
+          router.push(`/dashboard/orders/returns/${result.returnId}`);
+        } else {
+          router.refresh();
+        }
+      } else {
+        toast.error(result.error || "Failed to submit return request");
+      }
+    } catch (error) {
+      toast.error("Failed to submit return request");
+      console.error("Return request error:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[550px]">
+        <DialogHeader>
+          <DialogTitle>Return Items from Order #{orderNumber}</DialogTitle>
+          <DialogDescription>
+            Select the items you want to send back. The seller will review your
+            request and send return instructions.
+          </DialogDescription>
+        </DialogHeader>
+
+        {checking || !eligibility ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : !eligibility.eligible ? (
+          <div className="rounded-lg bg-muted p-4 text-sm">
+            {eligibility.reason}
+          </div>
+        ) : (
+          <div className="space-y-4 py-4">
+            {eligibility.deadline && (
+              <p className="text-sm text-muted-foreground">
+                Returns accepted until{" "}
+                {format(new Date(eligibility.deadline), "MMM d, yyyy")} (
+                {eligibility.returnWindowDays}-day return window)
+              </p>
+            )}
+
+            <div className="space-y-2">
+              <Label>Items</Label>
+              {eligibility.items.map((item) => (
+                <div
+                  key={item.orderItemId}
+                  className="flex items-center justify-between gap-4 rounded-md border p-3"
+                >
+                  <div className="text-sm">
+                    <div className="font-medium">{item.title}</div>
+                    <div className="text-muted-foreground">
+                      Up to {item.returnableQuantity} can be returned
+                    </div>
+                  </div>
+                  <Input
+                    type="number"
+                    className="w-20"
+                    min={0}
+                    max={item.returnableQuantity}
+                    value={quantities[item.orderItemId] ?? "0"}
+                    onChange={(e) =>
+                      setQuantities((prev) => ({
+                        ...prev,
+                        [item.orderItemId]: e.target.value,
+                      }))
+                    }
+                  />
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="return-reason">Reason for return *</Label>
+              <Select value={reason} onValueChange={setReason}>
+                <SelectTrigger id="return-reason">
+                  <SelectValue placeholder="Select a reason" />
+                </SelectTrigger>
+                <SelectContent>
+                  {returnReasons.map((r) => (
+                    <SelectItem key={r.value} value={r.value}>
+                      {r.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="return-description">
+                Additional details (optional)
+              </Label>
+              <Textarea
+                id="return-description"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                rows={3}
+              />
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={loading}
+          >
+            Cancel
+          </Button>
+          {eligibility?.eligible && (
+            <Button
+              type="button"
+              onClick={handleSubmit}
+              disabled={loading || !reason || selectedItems.length === 0}
+            >
+              {loading ? "Submitting..." : "Request Return"}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,142 @@
+"use client";
+
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Link } from "@/i18n/navigation";
+import { format } from "date-fns";
+import type { ReturnRequestRow } from "@/app/[locale]/actions/returns";
+import {
+  getReturnReasonLabel,
+  getReturnStatusColor,
+  getReturnStatusLabel,
+} from "./return-status";
+
+interface ReturnsPageClientProps {
+  initialData: ReturnRequestRow[];
+  userRole: "admin" | "seller" | "customer";
+}
+
+export default function ReturnsPageClient({
+  initialData,
+  userRole,
+}: ReturnsPageClientProps) {
+  const openReturns = initialData.filter(
+    (r) => !["refunded", "rejected", "cancelled"].includes(r.status)
+  );
+  const closedReturns = initialData.filter((r) =>
+    ["refunded", "rejected", "cancelled"].includes(r.status)
+  );
+
+  const renderTable = (rows: ReturnRequestRow[]) => (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Return #</TableHead>
+          <TableHead>Order #</TableHead>
+          {userRole === "customer" ? (
+            <TableHead>Store</TableHead>
+          ) : (
+            <TableHead>Customer</TableHead>
+          )}
+          <TableHead>Reason</TableHead>
+          <TableHead>Items</TableHead>
+          <TableHead>Requested</TableHead>
+          <TableHead>Status</TableHead>
+          <TableHead>Actions</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {rows.map((row) => (
+          <TableRow key={row.id}>
+            <TableCell className="font-medium">{row.rmaNumber}</TableCell>
+            <TableCell>
+              <Link
+                href={`/dashboard/orders/${row.orderId}`}
+                className="text-blue-600 hover:underline"
+              >
+                {row.orderNumber}
+              </Link>
+            </TableCell>
+            <TableCell>
+              {userRole === "customer"
+                ? row.storeName || "-"
+                : row.customerName}
+            </TableCell>
+            <TableCell>
+              <div className="max-w-xs truncate">
+                {getReturnReasonLabel(row.reason)}
+              </div>
+            </TableCell>
+            <TableCell>{row.itemCount}</TableCell>
+            <TableCell>
+              {format(new Date(row.createdAt), "MMM d, yyyy")}
+            </TableCell>
+            <TableCell>
+              <Badge
+                variant="outline"
+                className={getReturnStatusColor(row.status)}
+              >
+                {getReturnStatusLabel(row.status)}
+              </Badge>
+            </TableCell>
+            <TableCell>
+              <Button variant="outline" size="sm" asChild>
+                <Link href={`/dashboard/orders/returns/${row.id}`}>View</Link>
+              </Button>
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Returns</h1>
+          <p className="text-muted-foreground mt-1">
+            {userRole === "customer"
+              ? "Track the items you are sending back"
+              : "Approve returns, track inbound shipments and restock items"}
+          </p>
+        </div>
+      </div>
+
+      {openReturns.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Open Returns ({openReturns.length})</CardTitle>
+          </CardHeader>
+          <CardContent>{renderTable(openReturns)}</CardContent>
+        </Card>
+      )}
+
+      {closedReturns.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Closed Returns ({closedReturns.length})</CardTitle>
+          </CardHeader>
+          <CardContent>{renderTable(closedReturns)}</CardContent>
+        </Card>
+      )}
+
+      {initialData.length === 0 && (
+        <Card>
+          <CardContent className="py-12 text-center">
+            <p className="text-muted-foreground">No returns found.</p>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
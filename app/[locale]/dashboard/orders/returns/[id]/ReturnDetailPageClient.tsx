@@ -0,0 +1,678 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { ArrowLeft, Loader2 } from "lucide-react";
+import { format } from "date-fns";
+import toast from "react-hot-toast";
+import { Link, useRouter } from "@/i18n/navigation";
+import { kilogramsToOunces, centimetersToInches } from "@/lib/shipping-utils";
+import type { EasyShipRate } from "@/lib/easyship";
+import {
+  cancelReturnRequest,
+  completeReturnInspection,
+  getReturnLabelRates,
+  markReturnReceived,
+  markReturnShipped,
+  purchaseReturnLabel,
+  reviewReturnRequest,
+  type ReturnRequestDetail,
+} from "@/app/[locale]/actions/returns";
+import {
+  getReturnReasonLabel,
+  getReturnStatusColor,
+  getReturnStatusLabel,
+} from "../return-status";
+
+interface ReturnDetailPageClientProps {
+  returnRequest: ReturnRequestDetail;
+}
+
+export default function ReturnDetailPageClient({
+  returnRequest,
+}: ReturnDetailPageClientProps) {
+  const router = useRouter();
+  const isStaff =
+    returnRequest.viewerRole === "admin" ||
+    returnRequest.viewerRole === "seller";
+  const [processing, setProcessing] = useState(false);
+  const [rejectionReason, setRejectionReason] = useState("");
+  const [tracking, setTracking] = useState({ carrier: "", trackingNumber: "" });
+  const [parcel, setParcel] = useState({
+    weightKg: "",
+    lengthCm: "",
+    widthCm: "",
+    heightCm: "",
+  });
+  const [rates, setRates] = useState<EasyShipRate[]>([]);
+  const [selectedRate, setSelectedRate] = useState("");
+  const [inspection, setInspection] = useState<
+    Record<string, { restocked: string; damaged: string }>
+  >(() =>
+    Object.fromEntries(
+      returnRequest.items.map((item) => [
+        item.id,
+        { restocked: String(item.quantity), damaged: "0" },
+      ])
+    )
+  );
+  const defaultRefund = returnRequest.items
+    .reduce(
+      (total, item) => total + parseFloat(item.unitRefund) * item.quantity,
+      0
+    )
+    .toFixed(2);
+  const [refundAmount, setRefundAmount] = useState(defaultRefund);
+
+  const run = async (
+    action: () => Promise<{ success: boolean; error?: string }>,
+    successMessage: string
+  ) => {
+    setProcessing(true);
+    try {
+      const result = await action();
+      if (result.success) {
+        toast.success(successMessage);
+        router.refresh();
+      } else {
+        toast.error(result.error || "Something went wrong");
+      }
+    } catch (error) {
+      console.error("Return action error:", error);
+      toast.error("Something went wrong");
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const getParcel = () => {
+    const weight = parseFloat(parcel.weightKg);
+    const length = parseFloat(parcel.lengthCm);
+    const width = parseFloat(parcel.widthCm);
+    const height = parseFloat(parcel.heightCm);
+    if ([weight, length, width, height].some((v) => isNaN(v) || v <= 0)) {
+      toast.error("Please enter the parcel weight and dimensions");
+      return null;
+    }
+    return {
+      weightOz: kilogramsToOunces(weight),
+      lengthIn: centimetersToInches(length),
+      widthIn: centimetersToInches(width),
+      heightIn: centimetersToInches(height),
+    };
+  };
+
+  const handleGetRates = async () => {
+    const parcelInput = getParcel();
+    if (!parcelInput) return;
+
+    setProcessing(true);
+    try {
+      const result = await getReturnLabelRates(returnRequest.id, parcelInput);
+      if (result.success && result.rates) {
+        setRates(result.rates);
+        setSelectedRate(result.rates[0]?.id || "");
+      } else {
+        toast.error(result.error || "Failed to get return rates");
+      }
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const handlePurchaseLabel = async () => {
+    const parcelInput = getParcel();
+    if (!parcelInput || !selectedRate) return;
+    await run(
+      () => purchaseReturnLabel(returnRequest.id, selectedRate, parcelInput),
+      "Return label purchased"
+    );
+    setRates([]);
+  };
+
+  const handleInspection = () =>
+    run(
+      () =>
+        completeReturnInspection({
+          returnId: returnRequest.id,
+          items: returnRequest.items.map((item) => ({
+            returnItemId: item.id,
+            restockedQuantity: parseInt(inspection[item.id]?.restocked) || 0,
+            damagedQuantity: parseInt(inspection[item.id]?.damaged) || 0,
+          })),
+          refundAmount,
+        }),
+      "Return inspected and refunded"
+    );
+
+  const { status } = returnRequest;
+
+  return (
+    <div className="space-y-6">
+      <Button variant="outline" size="sm" asChild>
+        <Link href="/dashboard/orders/returns">
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Back to Returns
+        </Link>
+      </Button>
+
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold">{returnRequest.rmaNumber}</h1>
+          <p className="text-muted-foreground mt-1">
+            Order{" "}
+            <Link
+              href={`/dashboard/orders/${returnRequest.orderId}`}
+              className="text-blue-600 hover:underline"
+            >
+              #{returnRequest.orderNumber}
+            </Link>{" "}
+            · Requested{" "}
+            {format(new Date(returnRequest.createdAt), "MMM d, yyyy")}
+          </p>
+        </div>
+        <Badge variant="outline" className={getReturnStatusColor(status)}>
+          {getReturnStatusLabel(status)}
+        </Badge>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2 space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Items</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Item</TableHead>
+                    <TableHead>Quantity</TableHead>
+                    <TableHead>Unit refund</TableHead>
+                    {status === "refunded" && (
+                      <>
+                        <TableHead>Restocked</TableHead>
+                        <TableHead>Damaged</TableHead>
+                      </>
+                    )}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {returnRequest.items.map((item) => (
+                    <TableRow key={item.id}>
+                      <TableCell>
+                        <div className="font-medium">{item.title}</div>
+                        {item.sku && (
+                          <div className="text-sm text-muted-foreground">
+                            SKU: {item.sku}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell>{item.quantity}</TableCell>
+                      <TableCell>
+                        {item.unitRefund} {returnRequest.currency}
+                      </TableCell>
+                      {status === "refunded" && (
+                        <>
+                          <TableCell>{item.restockedQuantity}</TableCell>
+                          <TableCell>{item.damagedQuantity}</TableCell>
+                        </>
+                      )}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+
+          {isStaff && status === "received" && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Inspect &amp; Refund</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <p className="text-sm text-muted-foreground">
+                  Restocked units go back to available stock. Damaged units are
+                  recorded as damaged and not restocked.
+                </p>
+                {returnRequest.items.map((item) => (
+                  <div
+                    key={item.id}
+                    className="grid grid-cols-1 sm:grid-cols-3 gap-4 items-end"
+                  >
+                    <div className="text-sm font-medium">
+                      {item.title} × {item.quantity}
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor={`restocked-${item.id}`}>Restock</Label>
+                      <Input
+                        id={`restocked-${item.id}`}
+                        type="number"
+                        min={0}
+                        max={item.quantity}
+                        value={inspection[item.id]?.restocked ?? ""}
+                        onChange={(e) =>
+                          setInspection((prev) => ({
+                            ...prev,
+                            [item.id]: {
+                              ...prev[item.id],
+                              restocked: e.target.value,
+                            },
+                          }))
+                        }
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor={`damaged-${item.id}`}>Damaged</Label>
+                      <Input
+                        id={`damaged-${item.id}`}
+                        type="number"
+                        min={0}
+                        max={item.quantity}
+                        value={inspection[item.id]?.damaged ?? ""}
+                        onChange={(e) =>
+                          setInspection((prev) => ({
+                            ...prev,
+                            [item.id]: {
+                              ...prev[item.id],
+                              damaged: e.target.value,
+                            },
+                          }))
+                        }
+                      />
+                    </div>
+                  </div>
+                ))}
+                <div className="space-y-2">
+                  <Label htmlFor="refund-amount">
+                    Refund amount ({returnRequest.currency})
+                  </Label>
+                  <Input
+                    id="refund-amount"
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    value={refundAmount}
+                    onChange={(e) => setRefundAmount(e.target.value)}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Defaults to the value of the returned items. Lower it to
+                    deduct for damage.
+                  </p>
+                </div>
+                <Button onClick={handleInspection} disabled={processing}>
+                  {processing
+                    ? "Processing..."
+                    : "Complete Inspection & Refund"}
+                </Button>
+              </CardContent>
+            </Card>
+          )}
+        </div>
+
+        <div className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Details</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2 text-sm">
+              <div>
+                <span className="text-muted-foreground">Customer: </span>
+                {returnRequest.customerName}
+              </div>
+              {returnRequest.storeName && (
+                <div>
+                  <span className="text-muted-foreground">Store: </span>
+                  {returnRequest.storeName}
+                </div>
+              )}
+              <div>
+                <span className="text-muted-foreground">Reason: </span>
+                {getReturnReasonLabel(returnRequest.reason)}
+              </div>
+              {returnRequest.description && (
+                <div>
+                  <span className="text-muted-foreground">Details: </span>
+                  {returnRequest.description}
+                </div>
+              )}
+              {returnRequest.rejectionReason && (
+                <div className="text-red-600">
+                  Rejected: {returnRequest.rejectionReason}
+                </div>
+              )}
+              {returnRequest.refundAmount && (
+                <div>
+                  <span className="text-muted-foreground">Refunded: </span>
+                  {parseFloat(returnRequest.refundAmount).toFixed(2)}{" "}
+                  {returnRequest.currency}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {(returnRequest.trackingNumber || returnRequest.labelUrl) && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Return Shipment</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2 text-sm">
+                {returnRequest.carrier && (
+                  <div>
+                    <span className="text-muted-foreground">Carrier: </span>
+                    {returnRequest.carrier}
+                  </div>
+                )}
+                {returnRequest.trackingNumber && (
+                  <div>
+                    <span className="text-muted-foreground">Tracking: </span>
+                    {returnRequest.trackingUrl ? (
+                      <a
+                        href={returnRequest.trackingUrl}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-blue-600 hover:underline"
+                      >
+                        {returnRequest.trackingNumber}
+                      </a>
+                    ) : (
+                      returnRequest.trackingNumber
+                    )}
+                  </div>
+                )}
+                {isStaff && returnRequest.labelCost && (
+                  <div>
+                    <span className="text-muted-foreground">Label cost: </span>
+                    {returnRequest.labelCost} {returnRequest.labelCurrency}
+                  </div>
+                )}
+                {returnRequest.shippedAt && (
+                  <div>
+                    <span className="text-muted-foreground">Shipped: </span>
+                    {format(new Date(returnRequest.shippedAt), "MMM d, yyyy")}
+                  </div>
+                )}
+                {returnRequest.receivedAt && (
+                  <div>
+                    <span className="text-muted-foreground">Received: </span>
+                    {format(new Date(returnRequest.receivedAt), "MMM d, yyyy")}
+                  </div>
+                )}
+                {returnRequest.labelUrl && (
+                  <Button variant="outline" size="sm" asChild>
+                    <a
+                      href={returnRequest.labelUrl}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                    >
+                      Download Label
+                    </a>
+                  </Button>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
+          {isStaff && status === "requested" && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Review</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <Button
+                  className="w-full"
+                  onClick={() =>
+                    run(
+                      () => reviewReturnRequest(returnRequest.id, "approve"),
+                      "Return approved"
+                    )
+                  }
+                  disabled={processing}
+                >
+                  Approve Return
+                </Button>
+                <div className="space-y-2">
+                  <Label htmlFor="rejection-reason">Rejection reason</Label>
+                  <Textarea
+                    id="rejection-reason"
+                    value={rejectionReason}
+                    onChange={(e) => setRejectionReason(e.target.value)}
+                    rows={3}
+                  />
+                </div>
+                <Button
+                  variant="destructive"
+                  className="w-full"
+                  onClick={() =>
+                    run(
+                      () =>
+                        reviewReturnRequest(
+                          returnRequest.id,
+                          "reject",
+                          rejectionReason
+                        ),
+                      "Return rejected"
+                    )
+                  }
+                  disabled={processing || !rejectionReason.trim()}
+                >
+                  Reject Return
+                </Button>
+              </CardContent>
+            </Card>
+          )}
+
+          {isStaff && status === "approved" && !returnRequest.labelUrl && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Return Label</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <p className="text-sm text-muted-foreground">
+                  Optionally buy a prepaid label from the customer to your
+                  store. The cost is deducted from your balance.
+                </p>
+                <div className="grid grid-cols-2 gap-2">
+                  <div className="space-y-1">
+                    <Label htmlFor="parcel-weight">Weight (kg)</Label>
+                    <Input
+                      id="parcel-weight"
+                      type="number"
+                      min={0}
+                      step="0.01"
+                      value={parcel.weightKg}
+                      onChange={(e) =>
+                        setParcel({ ...parcel, weightKg: e.target.value })
+                      }
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="parcel-length">Length (cm)</Label>
+                    <Input
+                      id="parcel-length"
+                      type="number"
+                      min={0}
+                      value={parcel.lengthCm}
+                      onChange={(e) =>
+                        setParcel({ ...parcel, lengthCm: e.target.value })
+                      }
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="parcel-width">Width (cm)</Label>
+                    <Input
+                      id="parcel-width"
+                      type="number"
+                      min={0}
+                      value={parcel.widthCm}
+                      onChange={(e) =>
+                        setParcel({ ...parcel, widthCm: e.target.value })
+                      }
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="parcel-height">Height (cm)</Label>
+                    <Input
+                      id="parcel-height"
+                      type="number"
+                      min={0}
+                      value={parcel.heightCm}
+                      onChange={(e) =>
+                        setParcel({ ...parcel, heightCm: e.target.value })
+                      }
+                    />
+                  </div>
+                </div>
+                {rates.length === 0 ? (
+                  <Button
+                    variant="outline"
+                    className="w-full"
+                    onClick={handleGetRates}
+                    disabled={processing}
+                  >
+                    {processing && (
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    )}
+                    Get Rates
+                  </Button>
+                ) : (
+                  <>
+                    <RadioGroup
+                      value={selectedRate}
+                      onValueChange={setSelectedRate}
+                    >
+                      {rates.map((rate) => (
+                        <div
+                          key={rate.id}
+                          className="flex items-center space-x-2 rounded-md border p-2"
+                        >
+                          <RadioGroupItem value={rate.id} id={rate.id} />
+                          <Label
+                            htmlFor={rate.id}
+                            className="flex-1 cursor-pointer font-normal"
+                          >
+                            <div className="flex justify-between">
+                              <span>
+                                {rate.carrier} {rate.service}
+                              </span>
+                              <span className="font-medium">
+                                {rate.rate} {rate.currency}
+                              </span>
+                            </div>
+                          </Label>
+                        </div>
+                      ))}
+                    </RadioGroup>
+                    <Button
+                      className="w-full"
+                      onClick={handlePurchaseLabel}
+                      disabled={processing || !selectedRate}
+                    >
+                      {processing ? "Purchasing..." : "Buy Return Label"}
+                    </Button>
+                  </>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
+          {status === "approved" && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Ship Items Back</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {!returnRequest.trackingNumber && (
+                  <>
+                    <div className="space-y-1">
+                      <Label htmlFor="return-carrier">Carrier</Label>
+                      <Input
+                        id="return-carrier"
+                        value={tracking.carrier}
+                        onChange={(e) =>
+                          setTracking({ ...tracking, carrier: e.target.value })
+                        }
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label htmlFor="return-tracking">Tracking number</Label>
+                      <Input
+                        id="return-tracking"
+                        value={tracking.trackingNumber}
+                        onChange={(e) =>
+                          setTracking({
+                            ...tracking,
+                            trackingNumber: e.target.value,
+                          })
+                        }
+                      />
+                    </div>
+                  </>
+                )}
+                <Button
+                  variant="outline"
+                  className="w-full"
+                  onClick={() =>
+                    run(
+                      () => markReturnShipped(returnRequest.id, tracking),
+                      "Return marked as shipped"
+                    )
+                  }
+                  disabled={processing}
+                >
+                  Mark as Shipped
+                </Button>
+              </CardContent>
+            </Card>
+          )}
+
+          {isStaff && (status === "approved" || status === "in_transit") && (
+            <Button
+              className="w-full"
+              onClick={() =>
+                run(
+                  () => markReturnReceived(returnRequest.id),
+                  "Return marked as received"
+                )
+              }
+              disabled={processing}
+            >
+              Mark as Received
+            </Button>
+          )}
+
+          {returnRequest.viewerRole !== "seller" &&
+            (status === "requested" || status === "approved") && (
+              <Button
+                variant="outline"
+                className="w-full"
+                onClick={() =>
+                  run(
+                    () => cancelReturnRequest(returnRequest.id),
+                    "Return cancelled"
+                  )
+                }
+                disabled={processing}
+              >
+                Cancel Return
+              </Button>
+            )}
+        </div>
+      </div>
+    </div>
+  );
+}
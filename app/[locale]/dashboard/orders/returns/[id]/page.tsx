@@ -0,0 +1,43 @@
+import { protectDashboardRoute } from "@/app/[locale]/lib/dashboard-auth";
+import { DashboardWrapper } from "@/app/[locale]/dashboard/components/shared/DashboardWrapper";
+import { getReturnRequest } from "@/app/[locale]/actions/returns";
+import ReturnDetailPageClient from "./ReturnDetailPageClient";
+import DashboardNotFound from "../../../not-found";
+
+interface ReturnDetailPageProps {
+  params: Promise<{ id: string }>;
+}
+
+export default async function ReturnDetailPage({
+  params,
+}: ReturnDetailPageProps) {
+  const { role, shouldShowNotFound } = await protectDashboardRoute({
+    allowedRoles: ["admin", "seller", "customer"],
+    showNotFound: true,
+  });
+
+  if (shouldShowNotFound) {
+    return <DashboardNotFound />;
+  }
+
+  const { id } = await params;
+  const result = await getReturnRequest(id);
+
+  if (!result.success || !result.data) {
+    return (
+      <DashboardWrapper userRole={role}>
+        <div className="p-6">
+          <div className="text-red-600">
+            {result.error || "Failed to load return request"}
+          </div>
+        </div>
+      </DashboardWrapper>
+    );
+  }
+
+  return (
+    <DashboardWrapper userRole={role}>
+      <ReturnDetailPageClient returnRequest={result.data} />
+    </DashboardWrapper>
+  );
+}
@@ -0,0 +1,36 @@
+import { protectDashboardRoute } from "@/app/[locale]/lib/dashboard-auth";
+import { DashboardWrapper } from "@/app/[locale]/dashboard/components/shared/DashboardWrapper";
+import { listReturnRequests } from "@/app/[locale]/actions/returns";
+import ReturnsPageClient from "./ReturnsPageClient";
+import DashboardNotFound from "../../not-found";
+
+export default async function ReturnsPage() {
+  const { role, shouldShowNotFound } = await protectDashboardRoute({
+    allowedRoles: ["admin", "seller", "customer"],
+    showNotFound: true,
+  });
+
+  if (shouldShowNotFound) {
+    return <DashboardNotFound />;
+  }
+
+  const result = await listReturnRequests();
+
+  if (!result.success) {
+    return (
+      <DashboardWrapper userRole={role}>
+        <div className="p-6">
+          <div className="text-red-600">
+            {result.error || "Failed to load returns"}
+          </div>
+        </div>
+      </DashboardWrapper>
+    );
+  }
+
+  return (
+    <DashboardWrapper userRole={role}>
+      <ReturnsPageClient initialData={result.data || []} userRole={role} />
+    </DashboardWrapper>
+  );
+}
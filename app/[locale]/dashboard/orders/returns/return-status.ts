@@ -0,0 +1,38 @@
+export function getReturnStatusColor(status: string) {
+  const colors: Record<string, string> = {
+    requested: "bg-yellow-100 text-yellow-800 border-yellow-200",
+    approved: "bg-blue-100 text-blue-800 border-blue-200",
+    in_transit: "bg-indigo-100 text-indigo-800 border-indigo-200",
+    received: "bg-purple-100 text-purple-800 border-purple-200",
+    refunded: "bg-green-100 text-green-800 border-green-200",
+    rejected: "bg-red-100 text-red-800 border-red-200",
+    cancelled: "bg-gray-100 text-gray-800 border-gray-200",
+  };
+  return colors[status] || colors.requested;
+}
+
+export function getReturnStatusLabel(status: string) {
+  const labels: Record<string, string> = {
+    requested: "Requested",
+    approved: "Approved",
+    in_transit: "In Transit",
+    received: "Received",
+    refunded: "Refunded",
+    rejected: "Rejected",
+    cancelled: "Cancelled",
+  };
+  return labels[status] || status;
+}
+
+export const returnReasons = [
+  { value: "defective", label: "Defective or damaged item" },
+  { value: "wrong_item", label: "Wrong item received" },
+  { value: "not_as_described", label: "Item not as described" },
+  { value: "doesnt_fit", label: "Doesn't fit or wrong size" },
+  { value: "changed_mind", label: "Changed my mind" },
+  { value: "other", label: "Other" },
+];
+
+export function getReturnReasonLabel(reason: string) {
+  return returnReasons.find((r) => r.value === reason)?.label || reason;
+}
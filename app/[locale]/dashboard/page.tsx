@@ -7,7 +7,7 @@ import { eq } from "drizzle-orm";
 import { getLocale } from "next-intl/server";
 import DashboardHomeServer from "./components/shared/DashboardHomeServer";
 import { autoAssignMarketToUser } from "@/app/[locale]/actions/markets";
-import { getUserRole } from "@/lib/user-role";
+import { getDashboardUser } from "@/app/[locale]/lib/dashboard-auth";
 
 // Optimize page rendering - allow dynamic rendering but cache when possible
 export const dynamic = "force-dynamic";
@@ -25,16 +25,9 @@ export default async function DashboardPage() {
     redirect({ href: "/login", locale });
   }
 
-  // Use cached function to get user role (deduplicates within same render)
-  const { roleName: rawRoleName, error: roleError } = await getUserRole(
-    session?.user?.id ?? ""
-  );
-
-  if (roleError || !rawRoleName) {
-    redirect({ href: "/onboarding", locale });
-  }
-
-  const roleName = rawRoleName as "admin" | "seller" | "customer";
+  // Cached per request; sends users without a role to onboarding and opens
+  // the seller dashboard for invited store staff
+  const { role: roleName } = await getDashboardUser();
 
   // Auto-assign market for new seller/admin users (first successful dashboard login)
   // Run in parallel with page render to avoid blocking
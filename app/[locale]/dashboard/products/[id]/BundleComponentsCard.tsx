@@ -0,0 +1,210 @@
+"use client";
+
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Plus, Trash2 } from "lucide-react";
+import toast from "react-hot-toast";
+import { useRouter } from "@/i18n/navigation";
+import {
+  setBundleComponents,
+  type BundleComponentOption,
+  type BundleComponentRow,
+  type BundleVariantRow,
+} from "@/app/[locale]/actions/bundles";
+
+interface BundleComponentsCardProps {
+  bundles: BundleVariantRow[];
+  options: BundleComponentOption[];
+}
+
+export default function BundleComponentsCard({
+  bundles,
+  options,
+}: BundleComponentsCardProps) {
+  const router = useRouter();
+  const [drafts, setDrafts] = useState<Record<string, BundleComponentRow[]>>(
+    () => Object.fromEntries(bundles.map((b) => [b.variantId, b.components]))
+  );
+  const [adding, setAdding] = useState<Record<string, string>>({});
+  const [savingId, setSavingId] = useState<string | null>(null);
+
+  const updateDraft = (
+    variantId: string,
+    update: (components: BundleComponentRow[]) => BundleComponentRow[]
+  ) => {
+    setDrafts((prev) => ({
+      ...prev,
+      [variantId]: update(prev[variantId] || []),
+    }));
+  };
+
+  const handleAdd = (variantId: string) => {
+    const option = options.find((o) => o.variantId === adding[variantId]);
+    if (!option) return;
+    updateDraft(variantId, (components) =>
+      components.some((c) => c.variantId === option.variantId)
+        ? components
+        : [...components, { ...option, quantity: 1 }]
+    );
+    setAdding((prev) => ({ ...prev, [variantId]: "" }));
+  };
+
+  const handleSave = async (variantId: string) => {
+    setSavingId(variantId);
+    try {
+      const result = await setBundleComponents(
+        variantId,
+        (drafts[variantId] || []).map((c) => ({
+          variantId: c.variantId,
+          quantity: c.quantity,
+        }))
+      );
+      if (!result.success) {
+        toast.error(result.error || "Failed to save bundle");
+        return;
+      }
+      toast.success(result.message || "Bundle saved");
+      router.refresh();
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  if (bundles.length === 0) return null;
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle>Bundle contents</CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Make a variant a bundle of other products from your store. Bundles
+          have no stock of their own: availability comes from the components,
+          and orders, shipments and returns move the components&apos; stock.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {bundles.map((bundle) => {
+          const components = drafts[bundle.variantId] || [];
+          const available = options.filter(
+            (o) => !components.some((c) => c.variantId === o.variantId)
+          );
+
+          return (
+            <div key={bundle.variantId} className="border rounded-lg p-4">
+              <div className="flex items-center justify-between gap-2 mb-3">
+                <div className="font-medium">{bundle.title}</div>
+                {bundle.available !== null && (
+                  <Badge variant="outline">
+                    {bundle.available} bundles available
+                  </Badge>
+                )}
+              </div>
+
+              {components.length === 0 && (
+                <p className="text-sm text-muted-foreground mb-3">
+                  Not a bundle. This variant uses its own stock.
+                </p>
+              )}
+
+              <div className="space-y-2 mb-3">
+                {components.map((component) => (
+                  <div
+                    key={component.variantId}
+                    className="flex items-center gap-2"
+                  >
+                    <Input
+                      type="number"
+                      min={1}
+                      className="w-20"
+                      value={component.quantity}
+                      onChange={(e) => {
+                        const quantity = Math.max(
+                          1,
+                          parseInt(e.target.value) || 1
+                        );
+                        updateDraft(bundle.variantId, (list) =>
+                          list.map((c) =>
+                            c.variantId === component.variantId
+                              ? { ...c, quantity }
+                              : c
+                          )
+                        );
+                      }}
+                    />
+                    <span className="flex-1 text-sm">
+                      × {component.listingName} – {component.variantTitle}
+                    </span>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() =>
+                        updateDraft(bundle.variantId, (list) =>
+                          list.filter(
+                            (c) => c.variantId !== component.variantId
+                          )
+                        )
+                      }
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+
+              <div className="flex items-center gap-2">
+                <Select
+                  value={adding[bundle.variantId] || ""}
+                  onValueChange={(value) =>
+                    setAdding((prev) => ({
+                      ...prev,
+                      [bundle.variantId]: value,
+                    }))
+                  }
+                >
+                  <SelectTrigger className="flex-1">
+                    <SelectValue placeholder="Add a product to the bundle" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {available.map((option) => (
+                      <SelectItem
+                        key={option.variantId}
+                        value={option.variantId}
+                      >
+                        {option.listingName} – {option.variantTitle}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleAdd(bundle.variantId)}
+                  disabled={!adding[bundle.variantId]}
+                >
+                  <Plus className="h-4 w-4" />
+                </Button>
+                <Button
+                  size="sm"
+                  onClick={() => handleSave(bundle.variantId)}
+                  disabled={savingId !== null}
+                >
+                  {savingId === bundle.variantId ? "Saving..." : "Save"}
+                </Button>
+              </div>
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
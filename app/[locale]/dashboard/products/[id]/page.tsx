@@ -2,6 +2,11 @@ import { redirect } from "@/i18n/navigation";
 import { getListingById, getListingVariantsWithInventory } from "@/lib/listing";
 import { notFound } from "next/navigation";
 import EditProductForm from "./EditProductForm";
+import BundleComponentsCard from "./BundleComponentsCard";
+import {
+  getBundleComponentOptions,
+  getListingBundles,
+} from "@/app/[locale]/actions/bundles";
 import { DashboardWrapper } from "../../components/shared/DashboardWrapper";
 import { protectDashboardRoute } from "@/app/[locale]/lib/dashboard-auth";
 import DashboardNotFound from "../../not-found";
@@ -43,8 +48,13 @@ export default async function EditProductPage({
     redirect({ href: "/dashboard/products", locale });
   }
 
-  // Fetch variants with inventory data
-  const variantsWithInventory = await getListingVariantsWithInventory(id);
+  // Fetch variants with inventory data and bundle contents
+  const [variantsWithInventory, bundlesResult, bundleOptionsResult] =
+    await Promise.all([
+      getListingVariantsWithInventory(id),
+      getListingBundles(id),
+      getBundleComponentOptions(id),
+    ]);
 
   const isAdmin = roleName === "admin";
 
@@ -55,6 +65,10 @@ export default async function EditProductPage({
         initialVariants={variantsWithInventory}
         isAdmin={isAdmin}
       />
+      <BundleComponentsCard
+        bundles={bundlesResult.result || []}
+        options={bundleOptionsResult.result || []}
+      />
     </DashboardWrapper>
   );
 }
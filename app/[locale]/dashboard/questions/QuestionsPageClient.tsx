@@ -0,0 +1,331 @@
+"use client";
+
+import { useState } from "react";
+import { format } from "date-fns";
+import toast from "react-hot-toast";
+import { useLocale } from "next-intl";
+import { Link, useRouter } from "@/i18n/navigation";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  answerProductQuestion,
+  hideProductQuestion,
+  restoreProductQuestion,
+  type ManagedProductQuestion,
+} from "@/app/[locale]/actions/product-questions";
+
+type QuestionsTab = "recent" | "hidden" | "unanswered" | "answered";
+
+interface QuestionsPageClientProps {
+  storeQuestions: ManagedProductQuestion[];
+  recentQuestions: ManagedProductQuestion[];
+  hiddenQuestions: ManagedProductQuestion[];
+  hasStore: boolean;
+  isModerator: boolean;
+}
+
+export default function QuestionsPageClient({
+  storeQuestions,
+  recentQuestions,
+  hiddenQuestions,
+  hasStore,
+  isModerator,
+}: QuestionsPageClientProps) {
+  const router = useRouter();
+  const locale = useLocale();
+  const showStoreTabs = hasStore || !isModerator;
+  const [activeTab, setActiveTab] = useState<QuestionsTab>(
+    showStoreTabs ? "unanswered" : "recent"
+  );
+  const [answerDrafts, setAnswerDrafts] = useState<Record<string, string>>({});
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [hideTarget, setHideTarget] = useState<ManagedProductQuestion | null>(
+    null
+  );
+  const [hideReason, setHideReason] = useState("");
+
+  const unanswered = storeQuestions.filter(
+    (question) => !question.answer && question.status === "published"
+  );
+  const answered = storeQuestions.filter(
+    (question) => question.answer || question.status === "hidden"
+  );
+
+  const runAction = async (
+    question: ManagedProductQuestion,
+    action: () => Promise<{ success: boolean; error?: string }>,
+    successMessage: string
+  ) => {
+    setBusyId(question.id);
+    try {
+      const result = await action();
+      if (!result.success) {
+        toast.error(result.error || "Something went wrong");
+        return false;
+      }
+      toast.success(successMessage);
+      router.refresh();
+      return true;
+    } catch (error) {
+      console.error("Error updating question:", error);
+      toast.error("An error occurred");
+      return false;
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleSaveAnswer = async (question: ManagedProductQuestion) => {
+    const draft = answerDrafts[question.id] ?? question.answer ?? "";
+    const saved = await runAction(
+      question,
+      () => answerProductQuestion(question.id, draft, locale),
+      "Answer published"
+    );
+    if (saved) {
+      setAnswerDrafts((prev) => {
+        const next = { ...prev };
+        delete next[question.id];
+        return next;
+      });
+    }
+  };
+
+  const handleHide = async () => {
+    if (!hideTarget) return;
+    const hidden = await runAction(
+      hideTarget,
+      () => hideProductQuestion(hideTarget.id, hideReason),
+      "Question hidden"
+    );
+    if (hidden) {
+      setHideTarget(null);
+      setHideReason("");
+    }
+  };
+
+  const renderQuestion = (
+    question: ManagedProductQuestion,
+    mode: "answer" | "moderate"
+  ) => {
+    const answerDraft = answerDrafts[question.id] ?? question.answer ?? "";
+    const busy = busyId === question.id;
+
+    return (
+      <Card key={question.id}>
+        <CardContent className="space-y-3 pt-6">
+          <div className="flex flex-wrap items-center gap-2">
+            <Link
+              href={`/products/${question.productSlug}`}
+              className="font-medium hover:underline"
+            >
+              {question.productName}
+            </Link>
+            {mode === "moderate" && question.storeName && (
+              <span className="text-sm text-muted-foreground">
+                by {question.storeName}
+              </span>
+            )}
+            {question.status === "hidden" && (
+              <Badge variant="destructive">Hidden</Badge>
+            )}
+          </div>
+
+          <p className="text-sm text-muted-foreground">
+            {question.askerName} ·{" "}
+            {format(new Date(question.createdAt), "MMM d, yyyy")} · asked in{" "}
+            {question.locale.toUpperCase()}
+          </p>
+          <p className="text-sm font-medium whitespace-pre-line">
+            {question.question}
+          </p>
+
+          {question.status === "hidden" && question.hiddenReason && (
+            <p className="text-sm text-red-600">
+              Hidden by a moderator: {question.hiddenReason}
+            </p>
+          )}
+
+          {mode === "answer" && question.status === "published" && (
+            <div className="space-y-2 border-t pt-3">
+              <Textarea
+                value={answerDraft}
+                onChange={(e) =>
+                  setAnswerDrafts((prev) => ({
+                    ...prev,
+                    [question.id]: e.target.value,
+                  }))
+                }
+                placeholder="Write a public answer. It is translated for shoppers in other languages."
+                maxLength={2000}
+                rows={3}
+                disabled={busy}
+              />
+              <Button
+                size="sm"
+                onClick={() => handleSaveAnswer(question)}
+                disabled={busy || !answerDraft.trim()}
+              >
+                {question.answer ? "Update Answer" : "Answer"}
+              </Button>
+            </div>
+          )}
+
+          {mode === "moderate" && (
+            <div className="space-y-3 border-t pt-3">
+              {question.answer && (
+                <p className="text-sm text-muted-foreground">
+                  <span className="font-medium">Store answer:</span>{" "}
+                  {question.answer}
+                </p>
+              )}
+              {question.status === "published" ? (
+                <Button
+                  size="sm"
+                  variant="destructive"
+                  onClick={() => setHideTarget(question)}
+                  disabled={busy}
+                >
+                  Hide Question
+                </Button>
+              ) : (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() =>
+                    runAction(
+                      question,
+                      () => restoreProductQuestion(question.id),
+                      "Question restored"
+                    )
+                  }
+                  disabled={busy}
+                >
+                  Restore Question
+                </Button>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    );
+  };
+
+  const tabQuestions: Record<QuestionsTab, ManagedProductQuestion[]> = {
+    recent: recentQuestions,
+    hidden: hiddenQuestions,
+    unanswered,
+    answered,
+  };
+  const visibleQuestions = tabQuestions[activeTab];
+  const mode =
+    activeTab === "recent" || activeTab === "hidden" ? "moderate" : "answer";
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Questions</h1>
+        <p className="text-muted-foreground mt-1">
+          {isModerator
+            ? "Moderate product questions across stores and answer questions about your products."
+            : "Answer shoppers' questions about your products. Answers are public and shown to every shopper."}
+        </p>
+      </div>
+
+      <Tabs
+        value={activeTab}
+        onValueChange={(value) => setActiveTab(value as QuestionsTab)}
+      >
+        <TabsList>
+          {showStoreTabs && (
+            <>
+              <TabsTrigger value="unanswered">
+                Unanswered ({unanswered.length})
+              </TabsTrigger>
+              <TabsTrigger value="answered">
+                Answered ({answered.length})
+              </TabsTrigger>
+            </>
+          )}
+          {isModerator && (
+            <>
+              <TabsTrigger value="recent">
+                All Stores ({recentQuestions.length})
+              </TabsTrigger>
+              <TabsTrigger value="hidden">
+                Hidden ({hiddenQuestions.length})
+              </TabsTrigger>
+            </>
+          )}
+        </TabsList>
+      </Tabs>
+
+      {visibleQuestions.length === 0 ? (
+        <div className="text-center py-12 text-muted-foreground">
+          {activeTab === "unanswered"
+            ? "No unanswered questions. All caught up!"
+            : "No questions here yet."}
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {visibleQuestions.map((question) => renderQuestion(question, mode))}
+        </div>
+      )}
+
+      <Dialog
+        open={hideTarget !== null}
+        onOpenChange={(open) => {
+          if (!open) {
+            setHideTarget(null);
+            setHideReason("");
+          }
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Hide question</DialogTitle>
+            <DialogDescription>
+              The question and its answer disappear from the product page and
+              search.
+            </DialogDescription>
+          </DialogHeader>
+          <Textarea
+            value={hideReason}
+            onChange={(e) => setHideReason(e.target.value)}
+            placeholder="Reason (kept internally)"
+            rows={3}
+          />
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => {
+                setHideTarget(null);
+                setHideReason("");
+              }}
+            >
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={handleHide}
+              disabled={!hideReason.trim() || busyId === hideTarget?.id}
+            >
+              Hide
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
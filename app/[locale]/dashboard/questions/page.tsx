@@ -0,0 +1,60 @@
+import { headers } from "next/headers";
+import { protectDashboardRoute } from "@/app/[locale]/lib/dashboard-auth";
+import { DashboardWrapper } from "@/app/[locale]/dashboard/components/shared/DashboardWrapper";
+import { auth } from "@/lib/auth";
+import { hasPermission } from "@/lib/permissions";
+import {
+  getQuestionModerationQueue,
+  getStoreQuestionsToManage,
+} from "@/app/[locale]/actions/product-questions";
+import QuestionsPageClient from "./QuestionsPageClient";
+import DashboardNotFound from "../not-found";
+
+export default async function QuestionsPage() {
+  const { role, shouldShowNotFound } = await protectDashboardRoute({
+    allowedRoles: ["admin", "seller"],
+    showNotFound: true,
+  });
+
+  if (shouldShowNotFound) {
+    return <DashboardNotFound />;
+  }
+
+  // Same check as the moderation actions: reviews.manage on every store
+  const session = await auth.api.getSession({ headers: await headers() });
+  const isModerator =
+    (await hasPermission(session, "stores.all")) &&
+    (await hasPermission(session, "reviews.manage"));
+  const [storeResult, recentResult, hiddenResult] = await Promise.all([
+    getStoreQuestionsToManage(),
+    isModerator ? getQuestionModerationQueue("recent") : null,
+    isModerator ? getQuestionModerationQueue("hidden") : null,
+  ]);
+
+  // Moderators may moderate without running a store of their own
+  const error = isModerator
+    ? recentResult?.error || hiddenResult?.error
+    : storeResult.error;
+
+  if (error) {
+    return (
+      <DashboardWrapper userRole={role}>
+        <div className="p-6">
+          <div className="text-red-600">{error}</div>
+        </div>
+      </DashboardWrapper>
+    );
+  }
+
+  return (
+    <DashboardWrapper userRole={role}>
+      <QuestionsPageClient
+        storeQuestions={storeResult.questions}
+        recentQuestions={recentResult?.questions ?? []}
+        hiddenQuestions={hiddenResult?.questions ?? []}
+        hasStore={storeResult.success}
+        isModerator={isModerator}
+      />
+    </DashboardWrapper>
+  );
+}
@@ -0,0 +1,462 @@
+"use client";
+
+import { useState } from "react";
+import { format } from "date-fns";
+import toast from "react-hot-toast";
+import { Link, useRouter } from "@/i18n/navigation";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Switch } from "@/components/ui/switch";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  deleteReviewReply,
+  dismissReviewReports,
+  hideReview,
+  replyToReview,
+  restoreReview,
+  updateReviewRequestSettings,
+  type ManagedReview,
+  type ModerationReview,
+} from "@/app/[locale]/actions/reviews";
+import { StarRating } from "@/app/[locale]/components/reviews/StarRating";
+import { ReviewPhotos } from "@/app/[locale]/components/reviews/ReviewPhotos";
+
+const REPORT_REASON_LABELS: Record<string, string> = {
+  spam: "Spam",
+  offensive: "Offensive",
+  fake: "Fake",
+  off_topic: "Off topic",
+  other: "Other",
+};
+
+type ReviewsTab = "reported" | "hidden" | "all" | "unanswered";
+
+interface ReviewsPageClientProps {
+  storeReviews: ManagedReview[];
+  reportedReviews: ModerationReview[];
+  hiddenReviews: ModerationReview[];
+  hasStore: boolean;
+  isModerator: boolean;
+  reviewRequests: { enabled: boolean; sentLast30Days: number } | null; // Store's review request emails
+}
+
+export default function ReviewsPageClient({
+  storeReviews,
+  reportedReviews,
+  hiddenReviews,
+  hasStore,
+  isModerator,
+  reviewRequests,
+}: ReviewsPageClientProps) {
+  const router = useRouter();
+  const [activeTab, setActiveTab] = useState<ReviewsTab>(
+    isModerator ? "reported" : "all"
+  );
+  const [replyDrafts, setReplyDrafts] = useState<Record<string, string>>({});
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [hideTarget, setHideTarget] = useState<ManagedReview | null>(null);
+  const [hideReason, setHideReason] = useState("");
+  const [requestsEnabled, setRequestsEnabled] = useState(
+    reviewRequests?.enabled ?? false
+  );
+  const [savingRequests, setSavingRequests] = useState(false);
+
+  const handleToggleRequests = async (enabled: boolean) => {
+    setSavingRequests(true);
+    setRequestsEnabled(enabled);
+    const result = await updateReviewRequestSettings(enabled);
+    setSavingRequests(false);
+    if (result.success) {
+      toast.success(
+        enabled ? "Review requests turned on" : "Review requests turned off"
+      );
+      router.refresh();
+    } else {
+      setRequestsEnabled(!enabled);
+      toast.error(result.error || "Failed to update review requests");
+    }
+  };
+
+  const unanswered = storeReviews.filter((review) => !review.sellerReply);
+
+  const runAction = async (
+    review: ManagedReview,
+    action: () => Promise<{ success: boolean; error?: string }>,
+    successMessage: string
+  ) => {
+    setBusyId(review.id);
+    try {
+      const result = await action();
+      if (!result.success) {
+        toast.error(result.error || "Something went wrong");
+        return false;
+      }
+      toast.success(successMessage);
+      router.refresh();
+      return true;
+    } catch (error) {
+      console.error("Error updating review:", error);
+      toast.error("An error occurred");
+      return false;
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleSaveReply = async (review: ManagedReview) => {
+    const draft = replyDrafts[review.id] ?? review.sellerReply ?? "";
+    const saved = await runAction(
+      review,
+      () => replyToReview(review.type, review.id, draft),
+      "Reply saved"
+    );
+    if (saved) {
+      setReplyDrafts((prev) => {
+        const next = { ...prev };
+        delete next[review.id];
+        return next;
+      });
+    }
+  };
+
+  const handleDeleteReply = async (review: ManagedReview) => {
+    if (!confirm("Remove your reply from this review?")) return;
+    await runAction(
+      review,
+      () => deleteReviewReply(review.type, review.id),
+      "Reply removed"
+    );
+  };
+
+  const handleHide = async () => {
+    if (!hideTarget) return;
+    const hidden = await runAction(
+      hideTarget,
+      () => hideReview(hideTarget.type, hideTarget.id, hideReason),
+      "Review hidden"
+    );
+    if (hidden) {
+      setHideTarget(null);
+      setHideReason("");
+    }
+  };
+
+  const renderReview = (
+    review: ManagedReview | ModerationReview,
+    mode: "reply" | "moderate"
+  ) => {
+    const reports = "reports" in review ? review.reports : [];
+    const replyDraft = replyDrafts[review.id] ?? review.sellerReply ?? "";
+    const busy = busyId === review.id;
+
+    return (
+      <Card key={`${review.type}-${review.id}`}>
+        <CardContent className="space-y-3 pt-6">
+          <div className="flex flex-wrap items-center gap-2">
+            <Badge variant="outline">
+              {review.type === "product" ? "Product" : "Store"}
+            </Badge>
+            {review.type === "product" && review.productSlug ? (
+              <Link
+                href={`/products/${review.productSlug}`}
+                className="font-medium hover:underline"
+              >
+                {review.productName}
+              </Link>
+            ) : (
+              <span className="font-medium">{review.storeName}</span>
+            )}
+            {isModerator && review.type === "product" && review.storeName && (
+              <span className="text-sm text-muted-foreground">
+                by {review.storeName}
+              </span>
+            )}
+            {review.status === "hidden" && (
+              <Badge variant="destructive">Hidden</Badge>
+            )}
+          </div>
+
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <StarRating value={review.rating} readonly size="sm" />
+            <span>
+              {review.reviewerName} ·{" "}
+              {format(new Date(review.createdAt), "MMM d, yyyy")}
+            </span>
+            {review.helpfulCount > 0 && (
+              <span>· {review.helpfulCount} found this helpful</span>
+            )}
+          </div>
+
+          {review.title && <h4 className="font-semibold">{review.title}</h4>}
+          <p className="text-sm whitespace-pre-line">{review.text}</p>
+          <ReviewPhotos images={review.images} />
+
+          {review.status === "hidden" && review.hiddenReason && (
+            <p className="text-sm text-red-600">
+              Hidden by a moderator: {review.hiddenReason}
+            </p>
+          )}
+
+          {mode === "reply" && (
+            <div className="space-y-2 border-t pt-3">
+              <Textarea
+                value={replyDraft}
+                onChange={(e) =>
+                  setReplyDrafts((prev) => ({
+                    ...prev,
+                    [review.id]: e.target.value,
+                  }))
+                }
+                placeholder="Write a public reply"
+                maxLength={2000}
+                rows={3}
+                disabled={busy}
+              />
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  onClick={() => handleSaveReply(review)}
+                  disabled={busy || !replyDraft.trim()}
+                >
+                  {review.sellerReply ? "Update Reply" : "Reply"}
+                </Button>
+                {review.sellerReply && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleDeleteReply(review)}
+                    disabled={busy}
+                  >
+                    Remove Reply
+                  </Button>
+                )}
+              </div>
+            </div>
+          )}
+
+          {mode === "moderate" && (
+            <div className="space-y-3 border-t pt-3">
+              {review.sellerReply && (
+                <p className="text-sm text-muted-foreground">
+                  <span className="font-medium">Seller reply:</span>{" "}
+                  {review.sellerReply}
+                </p>
+              )}
+              {reports.length > 0 && (
+                <div className="space-y-1">
+                  <p className="text-sm font-medium">Reports</p>
+                  {reports.map((report) => (
+                    <div key={report.id} className="text-sm">
+                      <Badge
+                        variant={
+                          report.status === "open" ? "secondary" : "outline"
+                        }
+                        className="mr-2"
+                      >
+                        {REPORT_REASON_LABELS[report.reason] ?? report.reason}
+                      </Badge>
+                      <span className="text-muted-foreground">
+                        {report.reporterName || "Deleted user"},{" "}
+                        {format(new Date(report.createdAt), "MMM d, yyyy")}
+                        {report.status !== "open" && ` (${report.status})`}
+                      </span>
+                      {report.details && (
+                        <p className="ml-1 mt-1 text-muted-foreground">
+                          &ldquo;{report.details}&rdquo;
+                        </p>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+              <div className="flex gap-2">
+                {review.status === "published" ? (
+                  <>
+                    <Button
+                      size="sm"
+                      variant="destructive"
+                      onClick={() => setHideTarget(review)}
+                      disabled={busy}
+                    >
+                      Hide Review
+                    </Button>
+                    {"openReportCount" in review &&
+                      review.openReportCount > 0 && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() =>
+                            runAction(
+                              review,
+                              () =>
+                                dismissReviewReports(review.type, review.id),
+                              "Reports dismissed"
+                            )
+                          }
+                          disabled={busy}
+                        >
+                          Keep Review
+                        </Button>
+                      )}
+                  </>
+                ) : (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() =>
+                      runAction(
+                        review,
+                        () => restoreReview(review.type, review.id),
+                        "Review restored"
+                      )
+                    }
+                    disabled={busy}
+                  >
+                    Restore Review
+                  </Button>
+                )}
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    );
+  };
+
+  const tabReviews: Record<ReviewsTab, ManagedReview[]> = {
+    reported: reportedReviews,
+    hidden: hiddenReviews,
+    all: storeReviews,
+    unanswered,
+  };
+  const visibleReviews = tabReviews[activeTab];
+  const mode =
+    activeTab === "reported" || activeTab === "hidden" ? "moderate" : "reply";
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Reviews</h1>
+        <p className="text-muted-foreground mt-1">
+          {isModerator
+            ? "Handle reported reviews and answer reviews of your store. Hidden reviews no longer count towards ratings."
+            : "Answer your customers' reviews. Each review can have one public reply."}
+        </p>
+      </div>
+
+      {reviewRequests && (
+        <Card>
+          <CardContent className="flex items-center justify-between gap-4 py-4">
+            <div>
+              <p className="font-medium">Review request emails</p>
+              <p className="text-sm text-muted-foreground">
+                Ask buyers once per order to review their items a few days after
+                delivery. {reviewRequests.sentLast30Days} sent in the last 30
+                days.
+              </p>
+            </div>
+            <Switch
+              checked={requestsEnabled}
+              onCheckedChange={handleToggleRequests}
+              disabled={savingRequests}
+            />
+          </CardContent>
+        </Card>
+      )}
+
+      <Tabs
+        value={activeTab}
+        onValueChange={(value) => setActiveTab(value as ReviewsTab)}
+      >
+        <TabsList>
+          {isModerator && (
+            <>
+              <TabsTrigger value="reported">
+                Reported ({reportedReviews.length})
+              </TabsTrigger>
+              <TabsTrigger value="hidden">
+                Hidden ({hiddenReviews.length})
+              </TabsTrigger>
+            </>
+          )}
+          {(hasStore || !isModerator) && (
+            <>
+              <TabsTrigger value="all">
+                {isModerator ? "My Store" : "All"} ({storeReviews.length})
+              </TabsTrigger>
+              <TabsTrigger value="unanswered">
+                Unanswered ({unanswered.length})
+              </TabsTrigger>
+            </>
+          )}
+        </TabsList>
+      </Tabs>
+
+      {visibleReviews.length === 0 ? (
+        <div className="text-center py-12 text-muted-foreground">
+          {activeTab === "reported"
+            ? "No reported reviews. All caught up!"
+            : "No reviews here yet."}
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {visibleReviews.map((review) => renderReview(review, mode))}
+        </div>
+      )}
+
+      <Dialog
+        open={hideTarget !== null}
+        onOpenChange={(open) => {
+          if (!open) {
+            setHideTarget(null);
+            setHideReason("");
+          }
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Hide review</DialogTitle>
+            <DialogDescription>
+              The review disappears from the store and product pages and stops
+              counting towards the rating. Open reports are marked resolved.
+            </DialogDescription>
+          </DialogHeader>
+          <Textarea
+            value={hideReason}
+            onChange={(e) => setHideReason(e.target.value)}
+            placeholder="Reason (kept internally)"
+            rows={3}
+          />
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => {
+                setHideTarget(null);
+                setHideReason("");
+              }}
+            >
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={handleHide}
+              disabled={!hideReason.trim() || busyId === hideTarget?.id}
+            >
+              Hide Review
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,71 @@
+import { headers } from "next/headers";
+import { protectDashboardRoute } from "@/app/[locale]/lib/dashboard-auth";
+import { DashboardWrapper } from "@/app/[locale]/dashboard/components/shared/DashboardWrapper";
+import { auth } from "@/lib/auth";
+import { hasPermission } from "@/lib/permissions";
+import {
+  getReviewModerationQueue,
+  getReviewRequestSettings,
+  getStoreReviewsToManage,
+} from "@/app/[locale]/actions/reviews";
+import ReviewsPageClient from "./ReviewsPageClient";
+import DashboardNotFound from "../not-found";
+
+export default async function ReviewsPage() {
+  const { role, shouldShowNotFound } = await protectDashboardRoute({
+    allowedRoles: ["admin", "seller"],
+    showNotFound: true,
+  });
+
+  if (shouldShowNotFound) {
+    return <DashboardNotFound />;
+  }
+
+  // Same check as the moderation actions: reviews.manage on every store
+  const session = await auth.api.getSession({ headers: await headers() });
+  const isModerator =
+    (await hasPermission(session, "stores.all")) &&
+    (await hasPermission(session, "reviews.manage"));
+  const [storeResult, requestSettings, reportedResult, hiddenResult] =
+    await Promise.all([
+      getStoreReviewsToManage(),
+      getReviewRequestSettings(),
+      isModerator ? getReviewModerationQueue("reported") : null,
+      isModerator ? getReviewModerationQueue("hidden") : null,
+    ]);
+
+  // Moderators may moderate without running a store of their own
+  const error = isModerator
+    ? reportedResult?.error || hiddenResult?.error
+    : storeResult.error;
+
+  if (error) {
+    return (
+      <DashboardWrapper userRole={role}>
+        <div className="p-6">
+          <div className="text-red-600">{error}</div>
+        </div>
+      </DashboardWrapper>
+    );
+  }
+
+  return (
+    <DashboardWrapper userRole={role}>
+      <ReviewsPageClient
+        storeReviews={storeResult.reviews}
+        reportedReviews={reportedResult?.reviews ?? []}
+        hiddenReviews={hiddenResult?.reviews ?? []}
+        hasStore={storeResult.success}
+        isModerator={isModerator}
+        reviewRequests={
+          requestSettings.success
+            ? {
+                enabled: requestSettings.enabled ?? true,
+                sentLast30Days: requestSettings.sentLast30Days ?? 0,
+              }
+            : null
+        }
+      />
+    </DashboardWrapper>
+  );
+}
@@ -6,6 +6,7 @@ import DashboardNotFound from "../../not-found";
 
 type SettingsSection =
   | "store"
+  | "team"
   | "users"
   | "roles"
   | "permissions"
@@ -13,6 +14,10 @@ type SettingsSection =
   | "contents"
   | "translations"
   | "categories"
+  | "taxes"
+  | "shipping-zones"
+  | "platform-fees"
+  | "activity-logs"
   | "feedbacks"
   | "communications"
   | "payments"
@@ -55,6 +60,10 @@ export default async function SettingsSectionPage({
     "contents",
     "translations",
     "categories",
+    "taxes",
+    "shipping-zones",
+    "platform-fees",
+    "activity-logs",
     "feedbacks",
     "communications",
     "payments",
@@ -64,6 +73,7 @@ export default async function SettingsSectionPage({
     "shipping-billing",
     "shipping-settings",
     "store",
+    "team",
   ];
 
   if (!validSections.includes(section)) {
@@ -0,0 +1,526 @@
+"use client";
+
+import React, { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Plus, Edit, Trash2 } from "lucide-react";
+import { format } from "date-fns";
+import toast from "react-hot-toast";
+import { useRouter } from "@/i18n/navigation";
+import {
+  createSubscriptionPlan,
+  deleteSubscriptionPlan,
+  updateSubscriptionPlan,
+  type SubscriptionPlanInput,
+  type SubscriptionPlanRow,
+  type SubscriptionRow,
+} from "@/app/[locale]/actions/subscriptions";
+import {
+  formatSubscriptionInterval,
+  getSubscriptionStatusColor,
+  getSubscriptionStatusLabel,
+} from "./subscription-status";
+
+const ALL_VARIANTS = "all";
+
+const emptyForm: SubscriptionPlanInput = {
+  listingId: "",
+  variantId: null,
+  name: "",
+  interval: "month",
+  intervalCount: 1,
+  discountPercent: "",
+  minCycles: 1,
+  isActive: true,
+};
+
+interface SubscriptionsPageClientProps {
+  subscriptions: SubscriptionRow[];
+  plans: SubscriptionPlanRow[];
+  products: Array<{
+    id: string;
+    name: string;
+    variants: Array<{ id: string; title: string }>;
+  }>;
+  userRole: "admin" | "seller" | "customer";
+}
+
+export default function SubscriptionsPageClient({
+  subscriptions,
+  plans,
+  products,
+  userRole,
+}: SubscriptionsPageClientProps) {
+  const router = useRouter();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingPlan, setEditingPlan] = useState<SubscriptionPlanRow | null>(
+    null
+  );
+  const [formData, setFormData] = useState<SubscriptionPlanInput>(emptyForm);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const runningSubscriptions = subscriptions.filter((s) =>
+    ["active", "paused", "past_due"].includes(s.status)
+  );
+  const endedSubscriptions = subscriptions.filter(
+    (s) => s.status === "cancelled"
+  );
+  const selectedProduct = products.find((p) => p.id === formData.listingId);
+
+  const openCreateDialog = () => {
+    setEditingPlan(null);
+    setFormData(emptyForm);
+    setIsDialogOpen(true);
+  };
+
+  const openEditDialog = (plan: SubscriptionPlanRow) => {
+    setEditingPlan(plan);
+    setFormData({
+      listingId: plan.listingId,
+      variantId: plan.variantId,
+      name: plan.name,
+      interval: plan.interval,
+      intervalCount: plan.intervalCount,
+      discountPercent: plan.discountPercent,
+      minCycles: plan.minCycles,
+      isActive: plan.isActive,
+    });
+    setIsDialogOpen(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    try {
+      const result = editingPlan
+        ? await updateSubscriptionPlan(editingPlan.id, formData)
+        : await createSubscriptionPlan(formData);
+      if (!result.success) {
+        toast.error(result.error || "Failed to save plan");
+        return;
+      }
+      toast.success(result.message || "Plan saved");
+      setIsDialogOpen(false);
+      router.refresh();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDeletePlan = async (planId: string) => {
+    if (!confirm("Are you sure you want to delete this subscription plan?")) {
+      return;
+    }
+    const result = await deleteSubscriptionPlan(planId);
+    if (!result.success) {
+      toast.error(result.error || "Failed to delete plan");
+      return;
+    }
+    toast.success(result.message || "Plan deleted");
+    router.refresh();
+  };
+
+  const renderSubscriptionTable = (rows: SubscriptionRow[]) => (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Customer</TableHead>
+          <TableHead>Product</TableHead>
+          {userRole === "admin" && <TableHead>Store</TableHead>}
+          <TableHead>Plan</TableHead>
+          <TableHead>Deliveries</TableHead>
+          <TableHead>Next Billing</TableHead>
+          <TableHead>Status</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {rows.map((row) => (
+          <TableRow key={row.id}>
+            <TableCell className="font-medium">{row.customerEmail}</TableCell>
+            <TableCell>
+              {row.quantity} × {row.listingName}
+              {row.variantTitle && (
+                <span className="text-muted-foreground">
+                  {" "}
+                  ({row.variantTitle})
+                </span>
+              )}
+            </TableCell>
+            {userRole === "admin" && (
+              <TableCell>{row.storeName || "-"}</TableCell>
+            )}
+            <TableCell>
+              <div>{row.planName}</div>
+              <div className="text-xs text-muted-foreground">
+                {formatSubscriptionInterval(row.interval, row.intervalCount)}
+                {parseFloat(row.discountPercent) > 0 &&
+                  `, ${parseFloat(row.discountPercent)}% off`}
+              </div>
+            </TableCell>
+            <TableCell>
+              {row.currentCycle}
+              {row.skippedCycles > 0 && (
+                <span className="text-xs text-muted-foreground">
+                  {" "}
+                  ({row.skippedCycles} skipped)
+                </span>
+              )}
+            </TableCell>
+            <TableCell>
+              {row.status === "active" && row.nextBillingAt
+                ? format(new Date(row.nextBillingAt), "MMM d, yyyy")
+                : row.status === "paused" && row.resumeAt
+                  ? `Resumes ${format(new Date(row.resumeAt), "MMM d, yyyy")}`
+                  : "-"}
+            </TableCell>
+            <TableCell>
+              <Badge
+                variant="outline"
+                className={getSubscriptionStatusColor(row.status)}
+              >
+                {getSubscriptionStatusLabel(row.status)}
+              </Badge>
+              {row.status === "past_due" && row.lastError && (
+                <div className="text-xs text-red-600 mt-1">{row.lastError}</div>
+              )}
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Subscriptions</h1>
+          <p className="text-muted-foreground mt-1">
+            Offer recurring deliveries and follow your subscribers. Each
+            delivery arrives as a regular order.
+          </p>
+        </div>
+        <Button className="flex items-center gap-2" onClick={openCreateDialog}>
+          <Plus className="h-4 w-4" />
+          Add Plan
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Plans ({plans.length})</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {plans.length === 0 ? (
+            <p className="text-muted-foreground text-center py-6">
+              No subscription plans yet. Add one to let customers subscribe
+              to a product.
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Plan</TableHead>
+                  <TableHead>Product</TableHead>
+                  <TableHead>Interval</TableHead>
+                  <TableHead>Discount</TableHead>
+                  <TableHead>Minimum</TableHead>
+                  <TableHead>Subscribers</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {plans.map((plan) => (
+                  <TableRow key={plan.id}>
+                    <TableCell className="font-medium">{plan.name}</TableCell>
+                    <TableCell>
+                      {plan.listingName}
+                      {plan.variantTitle && (
+                        <span className="text-muted-foreground">
+                          {" "}
+                          ({plan.variantTitle})
+                        </span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {formatSubscriptionInterval(
+                        plan.interval,
+                        plan.intervalCount
+                      )}
+                    </TableCell>
+                    <TableCell>{parseFloat(plan.discountPercent)}%</TableCell>
+                    <TableCell>
+                      {plan.minCycles}{" "}
+                      {plan.minCycles === 1 ? "delivery" : "deliveries"}
+                    </TableCell>
+                    <TableCell>{plan.subscriberCount}</TableCell>
+                    <TableCell>
+                      <Badge variant={plan.isActive ? "default" : "secondary"}>
+                        {plan.isActive ? "Active" : "Inactive"}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex gap-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => openEditDialog(plan)}
+                        >
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleDeletePlan(plan.id)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {runningSubscriptions.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Subscribers ({runningSubscriptions.length})</CardTitle>
+          </CardHeader>
+          <CardContent>{renderSubscriptionTable(runningSubscriptions)}</CardContent>
+        </Card>
+      )}
+
+      {endedSubscriptions.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Cancelled ({endedSubscriptions.length})</CardTitle>
+          </CardHeader>
+          <CardContent>{renderSubscriptionTable(endedSubscriptions)}</CardContent>
+        </Card>
+      )}
+
+      {/* Create / Edit Dialog */}
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-xl max-h-[95vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>
+              {editingPlan ? "Edit Subscription Plan" : "Add Subscription Plan"}
+            </DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <Label htmlFor="plan-name">Name *</Label>
+              <Input
+                id="plan-name"
+                value={formData.name}
+                onChange={(e) =>
+                  setFormData({ ...formData, name: e.target.value })
+                }
+                placeholder="e.g. Monthly honey box"
+                required
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label>Product *</Label>
+                <Select
+                  value={formData.listingId}
+                  onValueChange={(value) =>
+                    setFormData({ ...formData, listingId: value, variantId: null })
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a product" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {products.map((product) => (
+                      <SelectItem key={product.id} value={product.id}>
+                        {product.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Variant</Label>
+                <Select
+                  value={formData.variantId || ALL_VARIANTS}
+                  onValueChange={(value) =>
+                    setFormData({
+                      ...formData,
+                      variantId: value === ALL_VARIANTS ? null : value,
+                    })
+                  }
+                  disabled={!selectedProduct?.variants.length}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL_VARIANTS}>Any variant</SelectItem>
+                    {selectedProduct?.variants.map((variant) => (
+                      <SelectItem key={variant.id} value={variant.id}>
+                        {variant.title}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="plan-interval-count">Deliver every *</Label>
+                <Input
+                  id="plan-interval-count"
+                  type="number"
+                  min={1}
+                  value={formData.intervalCount ?? 1}
+                  onChange={(e) =>
+                    setFormData({
+                      ...formData,
+                      intervalCount: parseInt(e.target.value) || 1,
+                    })
+                  }
+                />
+              </div>
+              <div>
+                <Label>Interval *</Label>
+                <Select
+                  value={formData.interval}
+                  onValueChange={(value) =>
+                    setFormData({
+                      ...formData,
+                      interval: value as SubscriptionPlanInput["interval"],
+                    })
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="week">Week(s)</SelectItem>
+                    <SelectItem value="month">Month(s)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="plan-discount">Subscriber discount (%)</Label>
+                <Input
+                  id="plan-discount"
+                  type="number"
+                  step="0.01"
+                  min={0}
+                  max={99}
+                  value={formData.discountPercent || ""}
+                  onChange={(e) =>
+                    setFormData({
+                      ...formData,
+                      discountPercent: e.target.value,
+                    })
+                  }
+                  placeholder="0"
+                />
+                <p className="text-xs text-muted-foreground mt-1">
+                  Off the one-time price on every delivery
+                </p>
+              </div>
+              <div>
+                <Label htmlFor="plan-min-cycles">Minimum commitment</Label>
+                <Input
+                  id="plan-min-cycles"
+                  type="number"
+                  min={1}
+                  value={formData.minCycles ?? 1}
+                  onChange={(e) =>
+                    setFormData({
+                      ...formData,
+                      minCycles: parseInt(e.target.value) || 1,
+                    })
+                  }
+                />
+                <p className="text-xs text-muted-foreground mt-1">
+                  Deliveries before the customer can cancel
+                </p>
+              </div>
+            </div>
+
+            {editingPlan && (
+              <p className="text-xs text-muted-foreground">
+                Changes apply to new subscribers. Existing subscribers keep the
+                terms they signed up for.
+              </p>
+            )}
+
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="plan-active"
+                checked={formData.isActive}
+                onCheckedChange={(checked) =>
+                  setFormData({ ...formData, isActive: checked as boolean })
+                }
+              />
+              <Label htmlFor="plan-active" className="text-sm font-medium">
+                Open for new subscribers
+              </Label>
+            </div>
+
+            <div className="flex justify-end gap-2 pt-4 border-t">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setIsDialogOpen(false)}
+              >
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                disabled={isSaving || !formData.listingId}
+              >
+                {isSaving
+                  ? "Saving..."
+                  : editingPlan
+                    ? "Update Plan"
+                    : "Create Plan"}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
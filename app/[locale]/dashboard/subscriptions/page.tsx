@@ -0,0 +1,51 @@
+import { protectDashboardRoute } from "@/app/[locale]/lib/dashboard-auth";
+import { DashboardWrapper } from "@/app/[locale]/dashboard/components/shared/DashboardWrapper";
+import {
+  getStoreSubscriptions,
+  getSubscriptionPlanOptions,
+  getSubscriptionPlans,
+} from "@/app/[locale]/actions/subscriptions";
+import SubscriptionsPageClient from "./SubscriptionsPageClient";
+import DashboardNotFound from "../not-found";
+
+export default async function SubscriptionsPage() {
+  const { role, shouldShowNotFound } = await protectDashboardRoute({
+    allowedRoles: ["admin", "seller"],
+    showNotFound: true,
+  });
+
+  if (shouldShowNotFound) {
+    return <DashboardNotFound />;
+  }
+
+  const [subscriptionsResult, plansResult, optionsResult] = await Promise.all([
+    getStoreSubscriptions(),
+    getSubscriptionPlans(),
+    getSubscriptionPlanOptions(),
+  ]);
+
+  if (!subscriptionsResult.success || !plansResult.success) {
+    return (
+      <DashboardWrapper userRole={role}>
+        <div className="p-6">
+          <div className="text-red-600">
+            {subscriptionsResult.error ||
+              plansResult.error ||
+              "Failed to load subscriptions"}
+          </div>
+        </div>
+      </DashboardWrapper>
+    );
+  }
+
+  return (
+    <DashboardWrapper userRole={role}>
+      <SubscriptionsPageClient
+        subscriptions={subscriptionsResult.result || []}
+        plans={plansResult.result || []}
+        products={optionsResult.result || []}
+        userRole={role}
+      />
+    </DashboardWrapper>
+  );
+}
@@ -0,0 +1,31 @@
+export function getSubscriptionStatusColor(status: string) {
+  const colors: Record<string, string> = {
+    incomplete: "bg-gray-100 text-gray-800 border-gray-200",
+    active: "bg-green-100 text-green-800 border-green-200",
+    paused: "bg-yellow-100 text-yellow-800 border-yellow-200",
+    past_due: "bg-red-100 text-red-800 border-red-200",
+    cancelled: "bg-gray-100 text-gray-800 border-gray-200",
+  };
+  return colors[status] || colors.incomplete;
+}
+
+export function getSubscriptionStatusLabel(status: string) {
+  const labels: Record<string, string> = {
+    incomplete: "Awaiting Payment",
+    active: "Active",
+    paused: "Paused",
+    past_due: "Payment Failed",
+    cancelled: "Cancelled",
+  };
+  return labels[status] || status;
+}
+
+/** e.g. "Every month", "Every 2 weeks" */
+export function formatSubscriptionInterval(
+  interval: string,
+  intervalCount: number
+) {
+  return intervalCount === 1
+    ? `Every ${interval}`
+    : `Every ${intervalCount} ${interval}s`;
+}
@@ -0,0 +1,62 @@
+"use client";
+
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  getLedgerTrialBalance,
+  getLedgerReconciliationRuns,
+  runLedgerReconciliation,
+} from "../actions/ledger";
+import type { ActionResponse } from "@/lib/types";
+import toast from "react-hot-toast";
+
+// Query Keys
+export const ledgerQueryKeys = {
+  trialBalance: (month: string) => ["ledger", "trialBalance", month] as const,
+  reconciliationRuns: ["ledger", "reconciliationRuns"] as const,
+};
+
+// Server actions report failures in the response; surface them to onError
+function unwrap<T extends ActionResponse>(result: T): T {
+  if (!result.success) {
+    throw new Error(result.error || "Request failed");
+  }
+  return result;
+}
+
+// Ledger Queries
+export function useLedgerTrialBalance(month: string) {
+  return useQuery({
+    queryKey: ledgerQueryKeys.trialBalance(month),
+    queryFn: async () => unwrap(await getLedgerTrialBalance(month)),
+  });
+}
+
+export function useLedgerReconciliationRuns() {
+  return useQuery({
+    queryKey: ledgerQueryKeys.reconciliationRuns,
+    queryFn: async () => unwrap(await getLedgerReconciliationRuns()),
+  });
+}
+
+export function useRunLedgerReconciliation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (month: string) =>
+      unwrap(await runLedgerReconciliation(month)),
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["ledger"] });
+      if (data.result?.status === "matched") {
+        toast.success(data.message || "Ledger matches Stripe");
+      } else {
+        toast.error(data.message || "Reconciliation found discrepancies");
+      }
+    },
+    onError: (error: Error) => {
+      queryClient.invalidateQueries({
+        queryKey: ledgerQueryKeys.reconciliationRuns,
+      });
+      toast.error(error.message || "Failed to reconcile ledger");
+    },
+  });
+}
@@ -0,0 +1,96 @@
+"use client";
+
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  getPlatformFeeRules,
+  getPlatformFeeRuleOptions,
+  createPlatformFeeRule,
+  updatePlatformFeeRule,
+  deletePlatformFeeRule,
+  type PlatformFeeRuleInput,
+} from "../actions/platform-fees";
+import type { ActionResponse } from "@/lib/types";
+import toast from "react-hot-toast";
+
+// Query Keys
+export const platformFeeQueryKeys = {
+  rules: ["platformFeeRules"] as const,
+  options: ["platformFeeRules", "options"] as const,
+};
+
+// Server actions report failures in the response; surface them to onError
+function unwrap<T extends ActionResponse>(result: T): T {
+  if (!result.success) {
+    throw new Error(result.error || "Request failed");
+  }
+  return result;
+}
+
+// Platform Fee Rule Queries
+export function usePlatformFeeRules() {
+  return useQuery({
+    queryKey: platformFeeQueryKeys.rules,
+    queryFn: async () => unwrap(await getPlatformFeeRules()),
+  });
+}
+
+export function usePlatformFeeRuleOptions() {
+  return useQuery({
+    queryKey: platformFeeQueryKeys.options,
+    queryFn: async () => unwrap(await getPlatformFeeRuleOptions()),
+    staleTime: 10 * 60 * 1000, // 10 minutes
+  });
+}
+
+export function useCreatePlatformFeeRule() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: PlatformFeeRuleInput) =>
+      unwrap(await createPlatformFeeRule(data)),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: platformFeeQueryKeys.rules });
+      toast.success("Fee rule created successfully");
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to create fee rule");
+    },
+  });
+}
+
+export function useUpdatePlatformFeeRule() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      ruleId,
+      data,
+    }: {
+      ruleId: string;
+      data: PlatformFeeRuleInput;
+    }) => unwrap(await updatePlatformFeeRule(ruleId, data)),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: platformFeeQueryKeys.rules });
+      toast.success("Fee rule updated successfully");
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to update fee rule");
+    },
+  });
+}
+
+export function useDeletePlatformFeeRule() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (ruleId: string) =>
+      unwrap(await deletePlatformFeeRule(ruleId)),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: platformFeeQueryKeys.rules });
+      toast.success("Fee rule deleted successfully");
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to delete fee rule");
+    },
+  });
+}
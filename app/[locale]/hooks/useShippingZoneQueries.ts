@@ -0,0 +1,102 @@
+"use client";
+
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  getShippingZones,
+  getShippingZoneOptions,
+  createShippingZone,
+  updateShippingZone,
+  deleteShippingZone,
+  type ShippingZoneInput,
+} from "../actions/shipping-zones";
+import type { ActionResponse } from "@/lib/types";
+import toast from "react-hot-toast";
+
+// Query Keys
+export const shippingZoneQueryKeys = {
+  shippingZones: ["shippingZones"] as const,
+  options: ["shippingZones", "options"] as const,
+};
+
+// Server actions report failures in the response; surface them to onError
+function unwrap<T extends ActionResponse>(result: T): T {
+  if (!result.success) {
+    throw new Error(result.error || "Request failed");
+  }
+  return result;
+}
+
+// Shipping Zone Queries
+export function useShippingZones() {
+  return useQuery({
+    queryKey: shippingZoneQueryKeys.shippingZones,
+    queryFn: async () => unwrap(await getShippingZones()),
+  });
+}
+
+export function useShippingZoneOptions() {
+  return useQuery({
+    queryKey: shippingZoneQueryKeys.options,
+    queryFn: async () => unwrap(await getShippingZoneOptions()),
+    staleTime: 10 * 60 * 1000, // 10 minutes
+  });
+}
+
+export function useCreateShippingZone() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: ShippingZoneInput) =>
+      unwrap(await createShippingZone(data)),
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: shippingZoneQueryKeys.shippingZones,
+      });
+      toast.success("Shipping zone created successfully");
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to create shipping zone");
+    },
+  });
+}
+
+export function useUpdateShippingZone() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      zoneId,
+      data,
+    }: {
+      zoneId: string;
+      data: ShippingZoneInput;
+    }) => unwrap(await updateShippingZone(zoneId, data)),
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: shippingZoneQueryKeys.shippingZones,
+      });
+      toast.success("Shipping zone updated successfully");
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to update shipping zone");
+    },
+  });
+}
+
+export function useDeleteShippingZone() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (zoneId: string) =>
+      unwrap(await deleteShippingZone(zoneId)),
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: shippingZoneQueryKeys.shippingZones,
+      });
+      toast.success("Shipping zone deleted successfully");
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to delete shipping zone");
+    },
+  });
+}
@@ -0,0 +1,94 @@
+"use client";
+
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  getTaxRules,
+  getTaxRuleMarkets,
+  createTaxRule,
+  updateTaxRule,
+  deleteTaxRule,
+  type TaxRuleInput,
+} from "../actions/tax-rules";
+import type { ActionResponse } from "@/lib/types";
+import toast from "react-hot-toast";
+
+// Query Keys
+export const taxRuleQueryKeys = {
+  taxRules: ["taxRules"] as const,
+  markets: ["taxRules", "markets"] as const,
+};
+
+// Server actions report failures in the response; surface them to onError
+function unwrap<T extends ActionResponse>(result: T): T {
+  if (!result.success) {
+    throw new Error(result.error || "Request failed");
+  }
+  return result;
+}
+
+// Tax Rule Queries
+export function useTaxRules() {
+  return useQuery({
+    queryKey: taxRuleQueryKeys.taxRules,
+    queryFn: async () => unwrap(await getTaxRules()),
+  });
+}
+
+export function useTaxRuleMarkets() {
+  return useQuery({
+    queryKey: taxRuleQueryKeys.markets,
+    queryFn: async () => unwrap(await getTaxRuleMarkets()),
+    staleTime: 10 * 60 * 1000, // 10 minutes
+  });
+}
+
+export function useCreateTaxRule() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: TaxRuleInput) => unwrap(await createTaxRule(data)),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: taxRuleQueryKeys.taxRules });
+      toast.success("Tax rule created successfully");
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to create tax rule");
+    },
+  });
+}
+
+export function useUpdateTaxRule() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      ruleId,
+      data,
+    }: {
+      ruleId: string;
+      data: TaxRuleInput;
+    }) => unwrap(await updateTaxRule(ruleId, data)),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: taxRuleQueryKeys.taxRules });
+      toast.success("Tax rule updated successfully");
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to update tax rule");
+    },
+  });
+}
+
+export function useDeleteTaxRule() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (ruleId: string) => unwrap(await deleteTaxRule(ruleId)),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: taxRuleQueryKeys.taxRules });
+      toast.success("Tax rule deleted successfully");
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to delete tax rule");
+    },
+  });
+}
@@ -0,0 +1,116 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import toast from "react-hot-toast";
+import { Link, useRouter } from "@/i18n/navigation";
+import {
+  acceptStoreInvitation,
+  type InvitationPreview,
+} from "@/app/[locale]/actions/store-team";
+
+interface StoreInvitationPageClientProps {
+  token: string;
+  invitation: InvitationPreview;
+  signedInEmail: string | null;
+}
+
+export default function StoreInvitationPageClient({
+  token,
+  invitation,
+  signedInEmail,
+}: StoreInvitationPageClientProps) {
+  const router = useRouter();
+  const [isAccepting, setIsAccepting] = useState(false);
+
+  const isInvitedAccount = signedInEmail?.toLowerCase() === invitation.email;
+
+  const handleAccept = async () => {
+    setIsAccepting(true);
+    try {
+      const result = await acceptStoreInvitation(token);
+      if (!result.success) {
+        toast.error(result.error || "Failed to accept invitation");
+        return;
+      }
+      toast.success(result.message || "You joined the store");
+      router.push("/dashboard");
+    } finally {
+      setIsAccepting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center px-4">
+      <Card className="w-full max-w-lg">
+        <CardHeader>
+          <CardTitle>Join {invitation.storeName}</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {invitation.status === "accepted" && (
+            <p className="text-muted-foreground">
+              This invitation has already been accepted.{" "}
+              <Link href="/dashboard" className="underline">
+                Go to your dashboard
+              </Link>
+            </p>
+          )}
+
+          {invitation.status === "expired" && (
+            <p className="text-muted-foreground">
+              This invitation has expired. Ask the store owner to send you a new
+              one.
+            </p>
+          )}
+
+          {invitation.status === "pending" && (
+            <>
+              <p>
+                You were invited to help run{" "}
+                <strong>{invitation.storeName}</strong> as{" "}
+                <strong>{invitation.email}</strong>.
+              </p>
+              {invitation.permissions.length > 0 && (
+                <div>
+                  <p className="text-sm font-medium mb-1">
+                    You will be able to:
+                  </p>
+                  <ul className="list-disc pl-5 text-sm text-muted-foreground">
+                    {invitation.permissions.map((permission) => (
+                      <li key={permission}>{permission}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {isInvitedAccount ? (
+                <Button
+                  className="w-full"
+                  onClick={handleAccept}
+                  disabled={isAccepting}
+                >
+                  {isAccepting ? "Joining..." : "Accept Invitation"}
+                </Button>
+              ) : (
+                <p className="text-sm text-muted-foreground">
+                  {signedInEmail
+                    ? `You're signed in as ${signedInEmail}. `
+                    : ""}
+                  <Link href="/login" className="underline">
+                    Sign in
+                  </Link>{" "}
+                  or{" "}
+                  <Link href="/register" className="underline">
+                    create an account
+                  </Link>{" "}
+                  with {invitation.email}, then open this link again.
+                </p>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,42 @@
+import { headers } from "next/headers";
+import { auth } from "@/lib/auth";
+import { getStoreInvitation } from "@/app/[locale]/actions/store-team";
+import StoreInvitationPageClient from "./StoreInvitationPageClient";
+
+export const dynamic = "force-dynamic";
+
+interface StoreInvitationPageProps {
+  params: Promise<{ token: string }>;
+}
+
+export default async function StoreInvitationPage({
+  params,
+}: StoreInvitationPageProps) {
+  const { token } = await params;
+
+  const invitationResult = await getStoreInvitation(token);
+
+  if (!invitationResult.success || !invitationResult.result) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <h1 className="text-2xl font-bold mb-4">Invitation Not Found</h1>
+          <p className="text-muted-foreground">
+            {invitationResult.error ||
+              "This invitation link is invalid or has been revoked."}
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  const session = await auth.api.getSession({ headers: await headers() });
+
+  return (
+    <StoreInvitationPageClient
+      token={token}
+      invitation={invitationResult.result}
+      signedInEmail={session?.user?.email ?? null}
+    />
+  );
+}
@@ -7,6 +7,10 @@ import {
   type UserRole,
 } from "@/app/[locale]/dashboard/config/navigation";
 import { getUserRole } from "@/lib/user-role";
+import {
+  getDashboardRoleForPermissions,
+  getStoreMemberships,
+} from "@/lib/permissions";
 import { cache } from "react";
 
 export type { UserRole };
@@ -47,9 +51,23 @@ export const getDashboardUser = cache(async () => {
   }
 
   // Use the optimized getUserRole function which is already cached
-  const { roleName, error } = await getUserRole(userId);
-
-  const role = roleName?.toLowerCase() as UserRole;
+  const { roleName, permissions, error } = await getUserRole(userId);
+
+  // Custom roles (e.g. "Support") get the dashboard their permissions fit
+  let role = (
+    roleName && !["admin", "seller", "customer"].includes(roleName)
+      ? getDashboardRoleForPermissions(permissions)
+      : roleName
+  ) as UserRole;
+
+  // Invited staff keep their customer role; their store membership opens the
+  // seller dashboard and decides what they may do there
+  if (role === "customer") {
+    const memberships = await getStoreMemberships(userId);
+    if (memberships.some((membership) => membership.role === "staff")) {
+      role = "seller";
+    }
+  }
 
   if (error || !role) {
     redirect({ href: "/onboarding", locale });
@@ -35,6 +35,8 @@ import toast from "react-hot-toast";
 import { useTranslations } from "next-intl";
 import { Link } from "@/i18n/navigation";
 import { ProductReviews } from "./ProductReviews";
+import { ProductQuestions } from "./ProductQuestions";
+import { SubscriptionOptions } from "./SubscriptionOptions";
 import { useSession } from "@/lib/auth-client";
 import {
   toggleListingFavorite,
@@ -45,6 +47,7 @@ import {
   removeGuestFavorite,
   isGuestFavorite,
 } from "@/lib/guest-favorites";
+import type { PublicSubscriptionPlan } from "../../actions/subscriptions";
 
 type Variant = {
   id: string;
@@ -62,12 +65,14 @@ interface ProductDetailClientProps {
   initialProduct: PublicProduct;
   initialVariants: Variant[];
   initialRelatedProducts: PublicProduct[];
+  subscriptionPlans?: PublicSubscriptionPlan[];
 }
 
 export function ProductDetailClient({
   initialProduct: product,
   initialVariants: variants,
   initialRelatedProducts: relatedProducts,
+  subscriptionPlans = [],
 }: ProductDetailClientProps) {
   const { addItem } = useCart();
   const { data: session } = useSession();
@@ -387,7 +392,7 @@ export function ProductDetailClient({
       return;
     }
 
-    addItem(
+    const result = await addItem(
       {
         id: selectedVariant
           ? `${product.id}-${selectedVariant.id}`
@@ -406,6 +411,13 @@ export function ProductDetailClient({
       },
       quantity
     );
+    if (!result.success) {
+      toast.error(result.error || "Could not add this item to your cart.");
+      if (result.available !== undefined && result.available > 0) {
+        setQuantity(result.available);
+      }
+      return;
+    }
     toast.success(t("addToCartSuccess", { quantity, name: product.name }));
     setQuantity(1);
   };
@@ -799,6 +811,18 @@ export function ProductDetailClient({
               </Button>
             </div>
 
+            {/* Subscribe and save */}
+            {!isOutOfStock && (
+              <SubscriptionOptions
+                plans={subscriptionPlans}
+                variantId={selectedVariant?.id ?? null}
+                hasVariants={variants.length > 0}
+                quantity={quantity}
+                price={currentPrice}
+                currency={currentCurrency}
+              />
+            )}
+
             {/* Categories and Tags */}
             <div className="space-y-2 mb-6">
               {product.categoryName && (
@@ -948,6 +972,12 @@ export function ProductDetailClient({
           ratingCount={product.ratingCount}
         />
 
+        {/* Questions & Answers */}
+        <ProductQuestions
+          listingId={product.id}
+          isAuthenticated={isAuthenticated}
+        />
+
         {/* Related Products */}
         {relatedProducts.length > 0 && (
           <div>
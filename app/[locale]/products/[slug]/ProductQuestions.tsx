@@ -0,0 +1,180 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useFormatter, useLocale, useTranslations } from "next-intl";
+import { Search } from "lucide-react";
+import toast from "react-hot-toast";
+import { Link } from "@/i18n/navigation";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  askProductQuestion,
+  getProductQuestions,
+  type PublicProductQuestion,
+} from "../../actions/product-questions";
+
+interface ProductQuestionsProps {
+  listingId: string;
+  isAuthenticated: boolean;
+}
+
+export function ProductQuestions({
+  listingId,
+  isAuthenticated,
+}: ProductQuestionsProps) {
+  const t = useTranslations("productQuestions");
+  const locale = useLocale();
+  const formatter = useFormatter();
+  const [questions, setQuestions] = useState<PublicProductQuestion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [search, setSearch] = useState("");
+  const [draft, setDraft] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  const fetchQuestions = useCallback(async () => {
+    try {
+      const result = await getProductQuestions(listingId, locale);
+      if (result.success) {
+        setQuestions(result.questions);
+      }
+    } catch (error) {
+      console.error("Error fetching questions:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [listingId, locale]);
+
+  useEffect(() => {
+    if (listingId) {
+      fetchQuestions();
+    }
+  }, [listingId, fetchQuestions]);
+
+  const handleAsk = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (draft.trim().length < 10) {
+      toast.error(t("minLength"));
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const result = await askProductQuestion({
+        listingId,
+        question: draft,
+        locale,
+      });
+      if (result.success) {
+        toast.success(t("asked"));
+        setDraft("");
+        await fetchQuestions();
+      } else {
+        toast.error(result.error || "Failed to submit question");
+      }
+    } catch (error) {
+      console.error("Error asking question:", error);
+      toast.error("An error occurred. Please try again.");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const query = search.trim().toLowerCase();
+  const visibleQuestions = query
+    ? questions.filter((q) =>
+        `${q.question} ${q.answer ?? ""}`.toLowerCase().includes(query)
+      )
+    : questions;
+
+  return (
+    <div className="mt-12">
+      <div className="mb-6">
+        <h2 className="text-3xl font-bold mb-2">{t("title")}</h2>
+        <p className="text-muted-foreground">{t("subtitle")}</p>
+      </div>
+
+      {isAuthenticated ? (
+        <form onSubmit={handleAsk} className="mb-6 space-y-2">
+          <Textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            placeholder={t("askPlaceholder")}
+            maxLength={500}
+            rows={2}
+            disabled={submitting}
+          />
+          <Button
+            type="submit"
+            disabled={submitting || draft.trim().length < 10}
+          >
+            {submitting ? t("asking") : t("askButton")}
+          </Button>
+        </form>
+      ) : (
+        <p className="mb-6 text-sm">
+          <Link href="/login" className="text-primary hover:underline">
+            {t("signInToAsk")}
+          </Link>
+        </p>
+      )}
+
+      {questions.length > 3 && (
+        <div className="relative mb-4">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder={t("searchPlaceholder")}
+            className="pl-9"
+          />
+        </div>
+      )}
+
+      {loading ? (
+        <p className="text-muted-foreground">{t("loading")}</p>
+      ) : visibleQuestions.length === 0 ? (
+        <p className="text-muted-foreground">
+          {questions.length === 0 ? t("empty") : t("noMatches")}
+        </p>
+      ) : (
+        <div className="space-y-4">
+          {visibleQuestions.map((q) => (
+            <div key={q.id} className="border-b pb-4">
+              <div className="flex items-start gap-2">
+                <p className="font-medium whitespace-pre-line">{q.question}</p>
+                {q.isTranslated && (
+                  <Badge variant="outline" className="shrink-0">
+                    {t("translated")}
+                  </Badge>
+                )}
+              </div>
+              <p className="text-xs text-muted-foreground mt-1">
+                {t("askedBy", {
+                  name: q.askerName,
+                  date: formatter.dateTime(new Date(q.createdAt), {
+                    dateStyle: "medium",
+                  }),
+                })}
+              </p>
+              {q.answer ? (
+                <div className="mt-3 ml-4 pl-4 border-l-2 border-primary">
+                  <p className="text-sm font-medium">{t("storeAnswer")}</p>
+                  <p className="text-sm text-muted-foreground whitespace-pre-line">
+                    {q.answer}
+                  </p>
+                </div>
+              ) : (
+                <p className="mt-2 text-sm text-muted-foreground italic">
+                  {t("awaitingAnswer")}
+                </p>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
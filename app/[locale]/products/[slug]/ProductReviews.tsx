@@ -15,6 +15,11 @@ interface ProductReview {
   reviewerName: string;
   reviewerEmail: string | null;
   isGuest: boolean;
+  images: string[];
+  helpfulCount: number;
+  votedHelpful: boolean;
+  sellerReply: string | null;
+  sellerReplyAt: Date | null;
 }
 
 interface ProductReviewsProps {
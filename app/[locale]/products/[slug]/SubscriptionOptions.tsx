@@ -0,0 +1,78 @@
+"use client";
+
+import { Repeat } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Link } from "@/i18n/navigation";
+import type { PublicSubscriptionPlan } from "../../actions/subscriptions";
+import { formatSubscriptionInterval } from "../../dashboard/subscriptions/subscription-status";
+
+interface SubscriptionOptionsProps {
+  plans: PublicSubscriptionPlan[];
+  variantId: string | null;
+  hasVariants: boolean;
+  quantity: number;
+  price: number;
+  currency: string;
+}
+
+export function SubscriptionOptions({
+  plans,
+  variantId,
+  hasVariants,
+  quantity,
+  price,
+  currency,
+}: SubscriptionOptionsProps) {
+  // Listing-wide plans apply to every variant; variant plans only to theirs
+  const available = plans.filter(
+    (plan) => !plan.variantId || plan.variantId === variantId
+  );
+  if (available.length === 0) return null;
+
+  const canSubscribe = !hasVariants || variantId !== null;
+
+  return (
+    <div className="border border-border rounded-lg p-4 mb-8 space-y-3">
+      <div className="flex items-center gap-2 font-medium text-foreground">
+        <Repeat className="h-4 w-4" />
+        Subscribe and save
+      </div>
+      {available.map((plan) => {
+        const params = new URLSearchParams({
+          plan: plan.id,
+          quantity: String(quantity),
+        });
+        if (variantId) params.set("variant", variantId);
+        const discounted = price * (1 - plan.discountPercent / 100);
+
+        return (
+          <div
+            key={plan.id}
+            className="flex items-center justify-between gap-4"
+          >
+            <div>
+              <p className="text-sm font-medium text-foreground">{plan.name}</p>
+              <p className="text-xs text-muted-foreground">
+                {formatSubscriptionInterval(plan.interval, plan.intervalCount)}{" "}
+                · {currency} {discounted.toFixed(2)} each
+                {plan.discountPercent > 0 && ` (${plan.discountPercent}% off)`}
+                {plan.minCycles > 1 && ` · min. ${plan.minCycles} deliveries`}
+              </p>
+            </div>
+            {canSubscribe ? (
+              <Button variant="outline" size="sm" asChild>
+                <Link href={`/account/subscriptions/new?${params.toString()}`}>
+                  Subscribe
+                </Link>
+              </Button>
+            ) : (
+              <Button variant="outline" size="sm" disabled>
+                Subscribe
+              </Button>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 import { notFound } from "next/navigation";
 import { Suspense } from "react";
 import { getPublicProductBySlug, getPublicProductVariants, getRelatedProducts } from "../../actions/public-products";
+import { getListingSubscriptionPlans } from "../../actions/subscriptions";
 import { getLocale } from "next-intl/server";
 import { ProductDetailClient } from "./ProductDetailClient";
 
@@ -24,9 +25,10 @@ export default async function ProductDetailPage({
   const product = productResult.result;
   
   // Fetch variants and related products in parallel
-  const [variantsResult, relatedProductsResult] = await Promise.all([
+  const [variantsResult, relatedProductsResult, subscriptionPlans] = await Promise.all([
     getPublicProductVariants(product.id),
     getRelatedProducts(product.id, product.category, locale, 4),
+    getListingSubscriptionPlans(product.id),
   ]);
   
   const variants = variantsResult?.success ? variantsResult.result || [] : [];
@@ -49,6 +51,7 @@ export default async function ProductDetailPage({
         initialProduct={product}
         initialVariants={variants}
         initialRelatedProducts={relatedProducts}
+        subscriptionPlans={subscriptionPlans}
       />
     </Suspense>
   );
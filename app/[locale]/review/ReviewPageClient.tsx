@@ -24,6 +24,7 @@ interface ReviewPageClientProps {
   isAuthenticated: boolean;
   userName?: string;
   userEmail?: string;
+  guest?: { name: string; email: string }; // Prefilled from a review link
   hasProductParam?: boolean;
   hasStoreParam?: boolean;
 }
@@ -36,6 +37,7 @@ export function ReviewPageClient({
   isAuthenticated,
   userName,
   userEmail,
+  guest,
   hasProductParam = false,
   hasStoreParam = false,
 }: ReviewPageClientProps) {
@@ -90,6 +92,7 @@ export function ReviewPageClient({
                   isAuthenticated={isAuthenticated}
                   userName={userName}
                   userEmail={userEmail}
+                  guest={guest}
                   onSuccess={() => setProductSubmitted(true)}
                 />
               )}
@@ -116,6 +119,7 @@ export function ReviewPageClient({
                   isAuthenticated={isAuthenticated}
                   userName={userName}
                   userEmail={userEmail}
+                  guest={guest}
                   onSuccess={() => setStoreSubmitted(true)}
                 />
               )}
@@ -146,6 +150,7 @@ export function ReviewPageClient({
               isAuthenticated={isAuthenticated}
               userName={userName}
               userEmail={userEmail}
+              guest={guest}
               onSuccess={() => setProductSubmitted(true)}
             />
           )}
@@ -173,6 +178,7 @@ export function ReviewPageClient({
               isAuthenticated={isAuthenticated}
               userName={userName}
               userEmail={userEmail}
+              guest={guest}
               onSuccess={() => setStoreSubmitted(true)}
             />
           )}
@@ -6,6 +6,7 @@ import { orders, orderItems, listing, store } from "@/db/schema";
 import { eq, and } from "drizzle-orm";
 import { auth } from "@/lib/auth";
 import { headers } from "next/headers";
+import { verifyReviewLinkToken } from "@/lib/review-requests";
 
 // Helper to check if string is a valid UUID
 function isValidUUID(str: string): boolean {
@@ -21,14 +22,42 @@ interface ReviewPageProps {
     order?: string;
     product?: string;
     store?: string;
+    token?: string; // Signed link from a review request email
   }>;
 }
 
 export default async function ReviewPage({ searchParams }: ReviewPageProps) {
   const params = await searchParams;
-  const orderId = params.order;
-  const listingId = params.product;
-  const storeId = params.store;
+  let orderId = params.order;
+  let listingId = params.product;
+  let storeId = params.store;
+
+  // Review request links carry the order and what to review in a signed token
+  const reviewLink = params.token ? verifyReviewLinkToken(params.token) : null;
+  if (params.token && !reviewLink) {
+    return (
+      <div className="container mx-auto px-4 py-16">
+        <div className="max-w-2xl mx-auto text-center">
+          <h1 className="text-2xl font-bold mb-4">Review Link Expired</h1>
+          <p className="text-muted-foreground">
+            This review link is invalid or has expired. You can still review
+            your purchase from your order page.
+          </p>
+        </div>
+      </div>
+    );
+  }
+  if (reviewLink) {
+    orderId = reviewLink.orderId;
+    listingId =
+      reviewLink.target.type === "product"
+        ? reviewLink.target.listingId
+        : undefined;
+    storeId =
+      reviewLink.target.type === "store"
+        ? reviewLink.target.storeId
+        : undefined;
+  }
 
   if (!orderId) {
     notFound();
@@ -40,6 +69,8 @@ export default async function ReviewPage({ searchParams }: ReviewPageProps) {
       id: orders.id,
       orderNumber: orders.orderNumber,
       customerEmail: orders.customerEmail,
+      customerFirstName: orders.customerFirstName,
+      customerLastName: orders.customerLastName,
       paymentStatus: orders.paymentStatus,
       storeId: orders.storeId,
     })
@@ -69,6 +100,16 @@ export default async function ReviewPage({ searchParams }: ReviewPageProps) {
   const session = await auth.api.getSession({ headers: await headers() });
   const isAuthenticated = !!session?.user;
 
+  // Guests arriving from a review request email review as the order's buyer
+  const guest = reviewLink
+    ? {
+        name: [order[0].customerFirstName, order[0].customerLastName]
+          .filter(Boolean)
+          .join(" "),
+        email: order[0].customerEmail || "",
+      }
+    : undefined;
+
   // Get product info if productId provided (can be UUID or slug)
   let productData = null;
   if (listingId) {
@@ -193,6 +234,7 @@ export default async function ReviewPage({ searchParams }: ReviewPageProps) {
             isAuthenticated={isAuthenticated}
             userName={session?.user?.name || undefined}
             userEmail={session?.user?.email || undefined}
+            guest={guest}
             hasProductParam={!!listingId}
             hasStoreParam={!!storeId}
           />
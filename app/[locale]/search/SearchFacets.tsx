@@ -0,0 +1,255 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { CountrySelect } from "@/components/ui/country-select";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+import { Star } from "lucide-react";
+import type {
+  FacetCount,
+  ProductSearchFacets,
+  ProductSearchSort,
+} from "@/lib/search-index";
+
+export interface SearchFilterState {
+  categoryId?: string;
+  storeId?: string;
+  minPrice?: number;
+  maxPrice?: number;
+  minRating?: number;
+  shipsTo?: string;
+  sort: ProductSearchSort;
+}
+
+const SORT_OPTIONS: Array<{ value: ProductSearchSort; label: string }> = [
+  { value: "relevance", label: "Most relevant" },
+  { value: "best_selling", label: "Best selling" },
+  { value: "rating", label: "Top rated" },
+  { value: "newest", label: "Newest" },
+  { value: "price_asc", label: "Price: low to high" },
+  { value: "price_desc", label: "Price: high to low" },
+];
+
+function FacetList({
+  title,
+  items,
+  selected,
+  onSelect,
+}: {
+  title: string;
+  items: FacetCount[];
+  selected?: string;
+  onSelect: (value: string | undefined) => void;
+}) {
+  if (items.length === 0 && !selected) return null;
+
+  return (
+    <div className="space-y-2">
+      <h4 className="text-sm font-semibold text-foreground">{title}</h4>
+      <div className="space-y-1">
+        {items.slice(0, 10).map((item) => (
+          <button
+            key={item.value}
+            type="button"
+            onClick={() =>
+              onSelect(item.value === selected ? undefined : item.value)
+            }
+            className={cn(
+              "flex w-full items-center justify-between rounded px-2 py-1 text-left text-sm hover:bg-muted",
+              item.value === selected
+                ? "bg-muted font-medium text-foreground"
+                : "text-muted-foreground"
+            )}
+          >
+            <span className="truncate">{item.label}</span>
+            <span className="ml-2 text-xs">{item.count}</span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export function SearchFacets({
+  facets,
+  filters,
+  onChange,
+}: {
+  facets?: ProductSearchFacets;
+  filters: SearchFilterState;
+  onChange: (filters: SearchFilterState) => void;
+}) {
+  const [minPrice, setMinPrice] = useState(filters.minPrice?.toString() ?? "");
+  const [maxPrice, setMaxPrice] = useState(filters.maxPrice?.toString() ?? "");
+
+  useEffect(() => {
+    setMinPrice(filters.minPrice?.toString() ?? "");
+    setMaxPrice(filters.maxPrice?.toString() ?? "");
+  }, [filters.minPrice, filters.maxPrice]);
+
+  const update = (patch: Partial<SearchFilterState>) =>
+    onChange({ ...filters, ...patch });
+
+  const applyPrice = () => {
+    const min = parseFloat(minPrice);
+    const max = parseFloat(maxPrice);
+    update({
+      minPrice: Number.isFinite(min) ? min : undefined,
+      maxPrice: Number.isFinite(max) ? max : undefined,
+    });
+  };
+
+  const hasFilters = Boolean(
+    filters.categoryId ||
+    filters.storeId ||
+    filters.minPrice !== undefined ||
+    filters.maxPrice !== undefined ||
+    filters.minRating !== undefined ||
+    filters.shipsTo
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-foreground">Filters</h3>
+        {hasFilters && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => onChange({ sort: filters.sort })}
+          >
+            Clear all
+          </Button>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <Label>Sort by</Label>
+        <Select
+          value={filters.sort}
+          onValueChange={(value) =>
+            update({ sort: value as ProductSearchSort })
+          }
+        >
+          <SelectTrigger className="w-full">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {SORT_OPTIONS.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <FacetList
+        title="Category"
+        items={facets?.categories ?? []}
+        selected={filters.categoryId}
+        onSelect={(categoryId) => update({ categoryId })}
+      />
+
+      <div className="space-y-2">
+        <h4 className="text-sm font-semibold text-foreground">Price (EUR)</h4>
+        <div className="flex items-center gap-2">
+          <Input
+            type="number"
+            min={0}
+            inputMode="decimal"
+            placeholder={
+              facets?.priceRange
+                ? String(Math.floor(facets.priceRange.min))
+                : "Min"
+            }
+            value={minPrice}
+            onChange={(e) => setMinPrice(e.target.value)}
+          />
+          <span className="text-muted-foreground">—</span>
+          <Input
+            type="number"
+            min={0}
+            inputMode="decimal"
+            placeholder={
+              facets?.priceRange
+                ? String(Math.ceil(facets.priceRange.max))
+                : "Max"
+            }
+            value={maxPrice}
+            onChange={(e) => setMaxPrice(e.target.value)}
+          />
+        </div>
+        <Button variant="outline" size="sm" onClick={applyPrice}>
+          Apply
+        </Button>
+      </div>
+
+      <div className="space-y-2">
+        <h4 className="text-sm font-semibold text-foreground">Rating</h4>
+        <div className="space-y-1">
+          {(facets?.ratings ?? []).map((rating) => {
+            const stars = Number(rating.value);
+            const selected = filters.minRating === stars;
+            return (
+              <button
+                key={rating.value}
+                type="button"
+                onClick={() =>
+                  update({ minRating: selected ? undefined : stars })
+                }
+                className={cn(
+                  "flex w-full items-center justify-between rounded px-2 py-1 text-sm hover:bg-muted",
+                  selected
+                    ? "bg-muted font-medium text-foreground"
+                    : "text-muted-foreground"
+                )}
+              >
+                <span className="flex items-center gap-1">
+                  {stars}
+                  <Star className="h-3 w-3 fill-yellow-400 text-yellow-400" />
+                  &amp; up
+                </span>
+                <span className="text-xs">{rating.count}</span>
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      <FacetList
+        title="Store"
+        items={facets?.stores ?? []}
+        selected={filters.storeId}
+        onSelect={(storeId) => update({ storeId })}
+      />
+
+      <div className="space-y-2">
+        <h4 className="text-sm font-semibold text-foreground">Ships to</h4>
+        <CountrySelect
+          value={filters.shipsTo}
+          onValueChange={(shipsTo) => update({ shipsTo: shipsTo || undefined })}
+          placeholder="Any country"
+        />
+        {filters.shipsTo && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => update({ shipsTo: undefined })}
+          >
+            Any country
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -8,6 +8,8 @@ import { ProductCard } from "../components/product-card";
 import { Button } from "@/components/ui/button";
 import { Loader2 } from "lucide-react";
 import { useDebounce } from "@/hooks/useDebounce";
+import { SearchFacets, type SearchFilterState } from "./SearchFacets";
+import type { ProductSearchFacets } from "@/lib/search-index";
 
 export function SearchResultsClient({
   initialQuery,
@@ -24,6 +26,10 @@ export function SearchResultsClient({
   const [total, setTotal] = useState(0);
   const [totalPages, setTotalPages] = useState(0);
   const [error, setError] = useState<string | null>(null);
+  const [facets, setFacets] = useState<ProductSearchFacets>();
+  const [filters, setFilters] = useState<SearchFilterState>({
+    sort: "relevance",
+  });
 
   // Get current query and page from URL params
   const currentQuery = searchParams.get("q") || initialQuery;
@@ -53,6 +59,7 @@ export function SearchResultsClient({
 
       try {
         const response = await searchProducts(debouncedQuery.trim(), "en", {
+          ...filters,
           page,
           limit: 24,
         });
@@ -61,6 +68,7 @@ export function SearchResultsClient({
           setResults(response.results);
           setTotal(response.total);
           setTotalPages(response.totalPages);
+          setFacets(response.facets);
         } else {
           setError(response.error || "Search failed");
         }
@@ -72,7 +80,7 @@ export function SearchResultsClient({
     }
 
     fetchResults();
-  }, [debouncedQuery, page]);
+  }, [debouncedQuery, page, filters]);
 
   const handlePageChange = (newPage: number) => {
     const params = new URLSearchParams(searchParams.toString());
@@ -88,113 +96,143 @@ export function SearchResultsClient({
     window.scrollTo({ top: 0, behavior: "smooth" });
   };
 
+  const handleFiltersChange = (newFilters: SearchFilterState) => {
+    setFilters(newFilters);
+    if (page > 1) {
+      handlePageChange(1);
+    }
+  };
+
   return (
-    <div className="space-y-6">
-      {/* Results Header */}
+    <div
+      className={
+        debouncedQuery.trim()
+          ? "grid grid-cols-1 gap-8 lg:grid-cols-[240px_1fr]"
+          : undefined
+      }
+    >
       {debouncedQuery.trim() && (
-        <div className="flex items-center justify-between">
-          <p className="text-sm text-muted-foreground">
-            {loading ? (
-              "Searching..."
-            ) : error ? (
-              <span className="text-destructive">{error}</span>
-            ) : (
-              `Found ${total} result${total !== 1 ? "s" : ""} for "${debouncedQuery}"`
-            )}
-          </p>
-        </div>
-      )}
-
-      {/* Loading State */}
-      {loading && (
-        <div className="flex items-center justify-center py-12">
-          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
-        </div>
+        <aside>
+          <SearchFacets
+            facets={facets}
+            filters={filters}
+            onChange={handleFiltersChange}
+          />
+        </aside>
       )}
+      <div className="space-y-6">
+        {/* Results Header */}
+        {debouncedQuery.trim() && (
+          <div className="flex items-center justify-between">
+            <p className="text-sm text-muted-foreground">
+              {loading ? (
+                "Searching..."
+              ) : error ? (
+                <span className="text-destructive">{error}</span>
+              ) : (
+                `Found ${total} result${total !== 1 ? "s" : ""} for "${debouncedQuery}"`
+              )}
+            </p>
+          </div>
+        )}
 
-      {/* Results */}
-      {!loading && !error && results.length > 0 && (
-        <>
-          <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-8">
-            {results
-              .filter((result) => result.type === "product")
-              .map((result) => (
-                <ProductCard
-                  key={result.id}
-                  product={{
-                    id: result.id,
-                    slug: result.slug || null,
-                    name: result.name,
-                    description: result.description || null,
-                    imageUrl: result.imageUrl || null,
-                    price: result.price || "0",
-                    compareAtPrice: null,
-                    currency: "EUR",
-                    unit: "kg",
-                    category: result.categoryName || null,
-                    categoryName: result.categoryName || null,
-                    gallery: null,
-                    tags: null,
-                    stockQuantity: null,
-                    isActive: true,
-                    isFeatured: false,
-                    marketType: null,
-                    originVillage: null,
-                    harvestDate: null,
-                    ratingAverage: null,
-                    ratingCount: null,
-                    salesCount: null,
-                    createdAt: new Date(),
-                    updatedAt: new Date(),
-                    storeName: result.storeName || null,
-                    storeSlug: result.storeSlug || null,
-                  }}
-                />
-              ))}
+        {/* Loading State */}
+        {loading && (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
           </div>
+        )}
+
+        {/* Results */}
+        {!loading && !error && results.length > 0 && (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-8">
+              {results
+                .filter((result) => result.type === "product")
+                .map((result) => (
+                  <ProductCard
+                    key={result.id}
+                    product={{
+                      id: result.id,
+                      slug: result.slug || null,
+                      name: result.name,
+                      description: result.description || null,
+                      imageUrl: result.imageUrl || null,
+                      price: result.price || "0",
+                      compareAtPrice: null,
+                      currency: result.currency || "EUR",
+                      unit: "kg",
+                      category: result.categoryName || null,
+                      categoryName: result.categoryName || null,
+                      gallery: null,
+                      tags: null,
+                      stockQuantity: null,
+                      isActive: true,
+                      isFeatured: false,
+                      marketType: null,
+                      originVillage: null,
+                      harvestDate: null,
+                      ratingAverage:
+                        result.ratingAverage != null
+                          ? String(result.ratingAverage)
+                          : null,
+                      ratingCount: result.ratingCount ?? null,
+                      salesCount: null,
+                      createdAt: new Date(),
+                      updatedAt: new Date(),
+                      storeName: result.storeName || null,
+                      storeSlug: result.storeSlug || null,
+                    }}
+                  />
+                ))}
+            </div>
 
-          {/* Pagination */}
-          {totalPages > 1 && (
-            <div className="flex items-center justify-center gap-2 pt-8">
-              <Button
-                variant="outline"
-                onClick={() => handlePageChange(page - 1)}
-                disabled={page === 1}
-              >
-                Previous
-              </Button>
-              <span className="text-sm text-muted-foreground">
-                Page {page} of {totalPages}
-              </span>
-              <Button
-                variant="outline"
-                onClick={() => handlePageChange(page + 1)}
-                disabled={page >= totalPages}
-              >
-                Next
-              </Button>
+            {/* Pagination */}
+            {totalPages > 1 && (
+              <div className="flex items-center justify-center gap-2 pt-8">
+                <Button
+                  variant="outline"
+                  onClick={() => handlePageChange(page - 1)}
+                  disabled={page === 1}
+                >
+                  Previous
+                </Button>
+                <span className="text-sm text-muted-foreground">
+                  Page {page} of {totalPages}
+                </span>
+                <Button
+                  variant="outline"
+                  onClick={() => handlePageChange(page + 1)}
+                  disabled={page >= totalPages}
+                >
+                  Next
+                </Button>
+              </div>
+            )}
+          </>
+        )}
+
+        {/* No Results */}
+        {!loading &&
+          !error &&
+          debouncedQuery.trim() &&
+          results.length === 0 && (
+            <div className="text-center py-12">
+              <p className="text-muted-foreground">
+                No results found for &quot;{debouncedQuery}&quot;
+              </p>
             </div>
           )}
-        </>
-      )}
 
-      {/* No Results */}
-      {!loading && !error && debouncedQuery.trim() && results.length === 0 && (
-        <div className="text-center py-12">
-          <p className="text-muted-foreground">
-            No results found for &quot;{debouncedQuery}&quot;
-          </p>
-        </div>
-      )}
-
-      {/* Empty State */}
-      {!debouncedQuery.trim() && (
-        <div className="text-center py-12">
-          <p className="text-muted-foreground">
-            Enter a search query to find products, stores, or categories
-          </p>
-        </div>
-      )}
+        {/* Empty State */}
+        {!debouncedQuery.trim() && (
+          <div className="text-center py-12">
+            <p className="text-muted-foreground">
+              Enter a search query to find products, stores, or categories
+            </p>
+          </div>
+        )}
+      </div>
     </div>
   );
 }
@@ -73,6 +73,10 @@ interface StorefrontClientProps {
       rating: number;
       title: string | null;
       body: string;
+      images: string[];
+      helpfulCount: number;
+      sellerReply: string | null;
+      sellerReplyAt: Date | null;
       verified: boolean;
       createdAt: Date;
       reviewerName: string;
@@ -158,6 +162,10 @@ export function StorefrontClient({
             rating: r.rating,
             title: r.title,
             body: r.body,
+            images: r.images ?? [],
+            helpfulCount: r.helpfulCount,
+            sellerReply: r.sellerReply,
+            sellerReplyAt: r.sellerReplyAt,
             verified: false, // Store reviews don't have verified field in the query
             createdAt: r.createdAt,
             reviewerName: r.userName ?? "Anonymous",
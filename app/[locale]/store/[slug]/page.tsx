@@ -71,6 +71,10 @@ export default async function StorePage({ params }: StorePageProps) {
       rating: review.rating,
       title: review.title,
       body: review.body,
+      images: review.images ?? [],
+      helpfulCount: review.helpfulCount,
+      sellerReply: review.sellerReply,
+      sellerReplyAt: review.sellerReplyAt,
       verified: false, // Store reviews don't have verified field in the query
       createdAt: review.createdAt,
       reviewerName: review.userName ?? "Anonymous",
@@ -33,6 +33,7 @@ interface TrackingData {
   customerName: string;
   status: string;
   fulfillmentStatus: string;
+  deliveredAt?: Date | null;
   shipments: Shipment[];
 }
 
@@ -93,8 +94,16 @@ export default function TrackingPageClient({
         </div>
 
         <div className="flex gap-2">
-          <Badge className={getStatusColor(trackingData.fulfillmentStatus)}>
-            {trackingData.fulfillmentStatus}
+          <Badge
+            className={getStatusColor(
+              trackingData.deliveredAt
+                ? "delivered"
+                : trackingData.fulfillmentStatus
+            )}
+          >
+            {trackingData.deliveredAt
+              ? "delivered"
+              : trackingData.fulfillmentStatus}
           </Badge>
           <Badge variant="outline">{trackingData.status}</Badge>
         </div>
@@ -205,7 +214,9 @@ export default function TrackingPageClient({
                               "MMM dd, yyyy 'at' h:mm a"
                             )}
                           </span>
-                          {(event.city_locality || event.state_province) && (
+                          {(event.city_locality ||
+                            event.state_province ||
+                            event.country_code) && (
                             <span className="flex items-center gap-1">
                               <MapPin className="h-3 w-3" />
                               {[
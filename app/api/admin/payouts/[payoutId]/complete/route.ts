@@ -1,9 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@/lib/auth";
 import { headers } from "next/headers";
-import { db } from "@/db";
-import { userRoles, roles } from "@/db/schema";
-import { eq } from "drizzle-orm";
+import { hasPermission } from "@/lib/permissions";
 import { markEsewaPayoutCompleted } from "@/app/[locale]/actions/seller-payouts";
 
 async function requireAdminOrCronSecret(req: NextRequest) {
@@ -17,19 +15,10 @@ async function requireAdminOrCronSecret(req: NextRequest) {
   if (!session?.user?.id) {
     return { allowed: false, status: 401 as const };
   }
-  const userRole = await db
-    .select({ roleName: roles.name })
-    .from(userRoles)
-    .innerJoin(roles, eq(userRoles.roleId, roles.id))
-    .where(eq(userRoles.userId, session.user.id))
-    .limit(1);
-  const isAdmin = userRole.some(
-    (r) => r.roleName?.toLowerCase() === "admin"
-  );
-  if (!isAdmin) {
+  if (!(await hasPermission(session, "platform.finances"))) {
     return { allowed: false, status: 403 as const };
   }
-  return { allowed: true };
+  return { allowed: true, userId: session.user.id };
 }
 
 /**
@@ -65,7 +54,11 @@ export async function POST(
     // No body or invalid JSON
   }
 
-  const result = await markEsewaPayoutCompleted(payoutId, deliveryMethod);
+  const result = await markEsewaPayoutCompleted(
+    payoutId,
+    deliveryMethod,
+    "userId" in authResult ? authResult.userId : null
+  );
   if (!result.success) {
     return NextResponse.json(
       { error: result.error },
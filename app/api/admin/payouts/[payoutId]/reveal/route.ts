@@ -1,11 +1,13 @@
 import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@/lib/auth";
 import { headers } from "next/headers";
+import { hasPermission } from "@/lib/permissions";
 import { db } from "@/db";
-import { sellerPayouts, store, userRoles, roles, auditLog } from "@/db/schema";
+import { sellerPayouts, store } from "@/db/schema";
 import { eq } from "drizzle-orm";
 import { decryptEsewaId } from "@/lib/esewa-encrypt";
 import { decryptBankDetails } from "@/lib/bank-encrypt";
+import { recordAuditEvent } from "@/lib/audit";
 
 async function requireAdmin() {
   const session = await auth.api.getSession({
@@ -14,16 +16,7 @@ async function requireAdmin() {
   if (!session?.user?.id) {
     return { allowed: false, status: 401 as const };
   }
-  const userRole = await db
-    .select({ roleName: roles.name })
-    .from(userRoles)
-    .innerJoin(roles, eq(userRoles.roleId, roles.id))
-    .where(eq(userRoles.userId, session.user.id))
-    .limit(1);
-  const isAdmin = userRole.some(
-    (r) => r.roleName?.toLowerCase() === "admin"
-  );
-  if (!isAdmin) {
+  if (!(await hasPermission(session, "platform.finances"))) {
     return { allowed: false, status: 403 as const };
   }
   return { allowed: true, userId: session.user.id };
@@ -85,11 +78,11 @@ export async function GET(
     return NextResponse.json({ bankDetails: null });
   }
 
-  await db.insert(auditLog).values({
+  await recordAuditEvent({
     action: "bank_details_viewed",
     entityType: "store",
     entityId: payout.storeId,
-    userId: authResult.userId,
+    actorId: authResult.userId,
     metadata: {
       payoutId,
       storeId: payout.storeId,
@@ -1,8 +1,9 @@
 import { NextResponse } from "next/server";
 import { auth } from "@/lib/auth";
 import { headers } from "next/headers";
+import { hasPermission } from "@/lib/permissions";
 import { db } from "@/db";
-import { sellerPayouts, store, userRoles, roles } from "@/db/schema";
+import { sellerPayouts, store } from "@/db/schema";
 import { eq, and, desc } from "drizzle-orm";
 import { decryptEsewaId } from "@/lib/esewa-encrypt";
 import { decryptBankDetails, maskAccountNumber } from "@/lib/bank-encrypt";
@@ -14,16 +15,7 @@ async function requireAdmin() {
   if (!session?.user?.id) {
     return { error: "Unauthorized", status: 401 as const };
   }
-  const userRole = await db
-    .select({ roleName: roles.name })
-    .from(userRoles)
-    .innerJoin(roles, eq(userRoles.roleId, roles.id))
-    .where(eq(userRoles.userId, session.user.id))
-    .limit(1);
-  const isAdmin = userRole.some(
-    (r) => r.roleName?.toLowerCase() === "admin"
-  );
-  if (!isAdmin) {
+  if (!(await hasPermission(session, "platform.finances"))) {
     return { error: "Admin only", status: 403 as const };
   }
   return { session };
@@ -49,6 +41,7 @@ export async function GET() {
       amount: sellerPayouts.amount,
       currency: sellerPayouts.currency,
       requestedAt: sellerPayouts.requestedAt,
+      batchId: sellerPayouts.batchId,
       storeName: store.storeName,
       esewaId: store.esewaId,
       bankDetailsEncrypted: store.bankDetailsEncrypted,
@@ -83,6 +76,7 @@ export async function GET() {
           : null,
         hasBankDetails: !!bankDecrypted,
         requestedAt: p.requestedAt,
+        batchId: p.batchId,
       };
     }),
   });
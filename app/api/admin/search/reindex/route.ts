@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { headers } from "next/headers";
+import { hasPermission } from "@/lib/permissions";
+import { reindexSearch } from "@/lib/search-index";
+import { recordAuditEvent } from "@/lib/audit";
+
+async function requireAdminOrCronSecret(req: NextRequest) {
+  const authHeader = req.headers.get("authorization");
+  if (authHeader === `Bearer ${process.env.CRON_SECRET}`) {
+    return { allowed: true };
+  }
+  const session = await auth.api.getSession({
+    headers: await headers(),
+  });
+  if (!session?.user?.id) {
+    return { allowed: false, status: 401 as const };
+  }
+  if (!(await hasPermission(session, "platform.settings"))) {
+    return { allowed: false, status: 403 as const };
+  }
+  return { allowed: true, userId: session.user.id };
+}
+
+/**
+ * POST /api/admin/search/reindex
+ * Rebuild the product and store search indexes from the database.
+ * Auth: admin session or CRON_SECRET, e.g.
+ *   curl -X POST -H "Authorization: Bearer $CRON_SECRET" <host>/api/admin/search/reindex
+ */
+export async function POST(req: NextRequest) {
+  const authResult = await requireAdminOrCronSecret(req);
+  if (!authResult.allowed) {
+    const status = "status" in authResult ? authResult.status : 401;
+    return NextResponse.json({ error: "Unauthorized" }, { status });
+  }
+
+  try {
+    const result = await reindexSearch();
+
+    await recordAuditEvent({
+      action: "search.reindexed",
+      entityType: "search_index",
+      entityId: result.engine,
+      actorId: "userId" in authResult ? authResult.userId : null,
+      metadata: { products: result.products, stores: result.stores },
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: `Indexed ${result.products} products and ${result.stores} stores`,
+      ...result,
+    });
+  } catch (error) {
+    console.error("Error reindexing search:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Reindex failed" },
+      { status: 500 }
+    );
+  }
+}
@@ -6,6 +6,7 @@ import { chatMessages } from "@/db/schema";
 import { eq } from "drizzle-orm";
 import { v2 as cloudinary } from "cloudinary";
 import { extractPublicId } from "@/lib/cloudinary";
+import { hasPermission } from "@/lib/permissions";
 
 // Configure Cloudinary
 cloudinary.config({
@@ -28,17 +29,7 @@ export async function POST() {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
-    // Check if user is admin
-    const { roles, userRoles } = await import("@/db/schema");
-    const userRole = await db
-      .select()
-      .from(userRoles)
-      .innerJoin(roles, eq(userRoles.roleId, roles.id))
-      .where(eq(userRoles.userId, session.user.id))
-      .limit(1);
-
-    const isAdmin = userRole.some((r) => r.roles.name.toLowerCase() === "admin");
-    if (!isAdmin) {
+    if (!(await hasPermission(session, "stores.all"))) {
       return NextResponse.json({ error: "Admin only" }, { status: 403 });
     }
 
@@ -6,6 +6,7 @@ import { chatMessages, chatRooms } from "@/db/schema";
 import { eq, and, desc, isNull } from "drizzle-orm";
 import { v2 as cloudinary } from "cloudinary";
 import { extractPublicId } from "@/lib/cloudinary";
+import { hasPermission } from "@/lib/permissions";
 
 // Configure Cloudinary
 cloudinary.config({
@@ -48,8 +49,8 @@ export async function DELETE(
       return NextResponse.json({ error: "Message not found" }, { status: 404 });
     }
 
-    // Check permission (sender or admin)
-    const isAdmin = await checkIsAdmin(userId);
+    // Check permission (sender or platform admin)
+    const isAdmin = await hasPermission(session, "stores.all");
     if (message.senderId !== userId && !isAdmin) {
       return NextResponse.json({ error: "Permission denied" }, { status: 403 });
     }
@@ -180,15 +181,3 @@ export async function DELETE(
     );
   }
 }
-
-async function checkIsAdmin(userId: string): Promise<boolean> {
-  const { roles, userRoles } = await import("@/db/schema");
-  const userRole = await db
-    .select()
-    .from(userRoles)
-    .innerJoin(roles, eq(userRoles.roleId, roles.id))
-    .where(eq(userRoles.userId, userId))
-    .limit(1);
-
-  return userRole.some((r) => r.roles.name.toLowerCase() === "admin");
-}
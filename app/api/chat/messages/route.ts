@@ -10,6 +10,7 @@ import {
   store,
 } from "@/db/schema";
 import { eq, and } from "drizzle-orm";
+import { hasMemberPermission, hasPermission } from "@/lib/permissions";
 
 export async function POST(req: NextRequest) {
   try {
@@ -59,10 +60,16 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ error: "Room not found" }, { status: 404 });
     }
 
+    // Staff answering the store's chat write as the seller
+    const isStoreStaff =
+      room.sellerId !== userId &&
+      (await hasMemberPermission(userId, room.storeId, "chat.respond"));
+
     const hasAccess =
       room.buyerId === userId ||
       room.sellerId === userId ||
-      (await checkIsAdmin(userId));
+      isStoreStaff ||
+      (await hasPermission(session, "stores.all"));
 
     if (!hasAccess) {
       // Check participants
@@ -90,9 +97,9 @@ export async function POST(req: NextRequest) {
     let senderRole: "customer" | "seller" | "admin" = "customer";
     if (room.buyerId === userId) {
       senderRole = "customer";
-    } else if (room.sellerId === userId) {
+    } else if (room.sellerId === userId || isStoreStaff) {
       senderRole = "seller";
-    } else if (await checkIsAdmin(userId)) {
+    } else if (await hasPermission(session, "stores.all")) {
       senderRole = "admin";
     }
 
@@ -163,15 +170,3 @@ export async function POST(req: NextRequest) {
     );
   }
 }
-
-async function checkIsAdmin(userId: string): Promise<boolean> {
-  const { roles, userRoles } = await import("@/db/schema");
-  const userRole = await db
-    .select()
-    .from(userRoles)
-    .innerJoin(roles, eq(userRoles.roleId, roles.id))
-    .where(eq(userRoles.userId, userId))
-    .limit(1);
-
-  return userRole.some((r) => r.roles.name.toLowerCase() === "admin");
-}
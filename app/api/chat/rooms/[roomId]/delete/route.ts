@@ -4,6 +4,7 @@ import { headers } from "next/headers";
 import { db } from "@/db";
 import { chatRooms } from "@/db/schema";
 import { eq } from "drizzle-orm";
+import { hasPermission } from "@/lib/permissions";
 
 export async function POST(
   req: NextRequest,
@@ -38,17 +39,8 @@ export async function POST(
       return NextResponse.json({ error: "Room not found" }, { status: 404 });
     }
 
-    // Check if user is admin (admins cannot delete chats)
-    const { roles, userRoles } = await import("@/db/schema");
-    const userRole = await db
-      .select()
-      .from(userRoles)
-      .innerJoin(roles, eq(userRoles.roleId, roles.id))
-      .where(eq(userRoles.userId, userId))
-      .limit(1);
-
-    const isAdmin = userRole.some((r) => r.roles.name.toLowerCase() === "admin");
-    if (isAdmin) {
+    // Platform admins moderate chats, they cannot delete them
+    if (await hasPermission(session, "stores.all")) {
       return NextResponse.json(
         { error: "Admins cannot delete chats" },
         { status: 403 }
@@ -4,6 +4,7 @@ import { headers } from "next/headers";
 import { db } from "@/db";
 import { chatRooms, store, user, chatMessages } from "@/db/schema";
 import { eq, or, desc, ilike, and, inArray } from "drizzle-orm";
+import { getPermittedStoreIds, hasPermission } from "@/lib/permissions";
 
 export async function GET(req: NextRequest) {
   try {
@@ -23,15 +24,14 @@ export async function GET(req: NextRequest) {
     const offset = (page - 1) * limit;
 
     // Check if user is admin (admins see all chats regardless of deletion status)
-    const { roles, userRoles } = await import("@/db/schema");
-    const userRole = await db
-      .select()
-      .from(userRoles)
-      .innerJoin(roles, eq(userRoles.roleId, roles.id))
-      .where(eq(userRoles.userId, userId))
-      .limit(1);
+    const isAdmin = await hasPermission(session, "stores.all");
 
-    const isAdmin = userRole.some((r) => r.roles.name.toLowerCase() === "admin");
+    // Staff answering chat see their stores' rooms like the seller does
+    const chatStoreIds = await getPermittedStoreIds(userId, "chat.respond");
+    const staffRooms =
+      chatStoreIds.length > 0
+        ? inArray(chatRooms.storeId, chatStoreIds)
+        : undefined;
 
     // Build base conditions
     // For regular users: exclude chats they deleted
@@ -41,20 +41,23 @@ export async function GET(req: NextRequest) {
       // Admins see all chats
       baseCondition = or(
         eq(chatRooms.buyerId, userId),
-        eq(chatRooms.sellerId, userId)
+        eq(chatRooms.sellerId, userId),
+        staffRooms
       );
     } else {
       // Regular users: exclude deleted chats
       baseCondition = and(
         or(
           eq(chatRooms.buyerId, userId),
-          eq(chatRooms.sellerId, userId)
+          eq(chatRooms.sellerId, userId),
+          staffRooms
         ),
         // If user is buyer, exclude if buyerDeleted is true
         // If user is seller, exclude if sellerDeleted is true
         or(
           and(eq(chatRooms.buyerId, userId), eq(chatRooms.buyerDeleted, false)),
-          and(eq(chatRooms.sellerId, userId), eq(chatRooms.sellerDeleted, false))
+          and(eq(chatRooms.sellerId, userId), eq(chatRooms.sellerDeleted, false)),
+          staffRooms && and(staffRooms, eq(chatRooms.sellerDeleted, false))
         )
       );
     }
@@ -4,6 +4,7 @@ import { headers } from "next/headers";
 import { db } from "@/db";
 import { chatRooms, chatMessages, user, orders, store } from "@/db/schema";
 import { eq, desc } from "drizzle-orm";
+import { hasMemberPermission, hasPermission } from "@/lib/permissions";
 
 export async function GET(req: NextRequest) {
   try {
@@ -48,7 +49,8 @@ export async function GET(req: NextRequest) {
       const hasAccess =
         room.buyerId === userId ||
         room.sellerId === userId ||
-        (await checkIsAdmin(userId));
+        (await hasMemberPermission(userId, room.storeId, "chat.respond")) ||
+        (await hasPermission(session, "stores.all"));
 
       if (!hasAccess) {
         return NextResponse.json({ error: "Access denied" }, { status: 403 });
@@ -153,7 +155,8 @@ export async function GET(req: NextRequest) {
       const hasAccess =
         room.buyerId === userId ||
         room.sellerId === userId ||
-        (await checkIsAdmin(userId));
+        (await hasMemberPermission(userId, room.storeId, "chat.respond")) ||
+        (await hasPermission(session, "stores.all"));
 
       if (!hasAccess) {
         return NextResponse.json({ error: "Access denied" }, { status: 403 });
@@ -177,15 +180,3 @@ export async function GET(req: NextRequest) {
     );
   }
 }
-
-async function checkIsAdmin(userId: string): Promise<boolean> {
-  const { roles, userRoles } = await import("@/db/schema");
-  const userRole = await db
-    .select()
-    .from(userRoles)
-    .innerJoin(roles, eq(userRoles.roleId, roles.id))
-    .where(eq(userRoles.userId, userId))
-    .limit(1);
-
-  return userRole.some((r) => r.roles.name.toLowerCase() === "admin");
-}
@@ -1,18 +1,26 @@
 import { NextRequest, NextResponse } from "next/server";
 import { db } from "@/db";
 import {
+  checkoutGroups,
   orders,
   orderItems,
-  listing,
-  listingVariants,
   customers,
   store,
   orderDiscounts,
   discounts,
   orderShipments,
+  orderItemDiscounts,
 } from "@/db/schema";
 import { eq, inArray, and, isNull } from "drizzle-orm";
-import { generateOrderNumber } from "@/lib/order-number";
+import {
+  generateCheckoutNumber,
+  generateOrderNumber,
+} from "@/lib/order-number";
+import {
+  priceCheckout,
+  reconcileClientTotals,
+  isPricingError,
+} from "@/lib/pricing";
 import { auth } from "@/lib/auth";
 import { headers } from "next/headers";
 
@@ -117,7 +125,11 @@ export async function POST(req: NextRequest) {
         body.lineItems.map(async (item) => {
           const availability = await checkShippingAvailability(
             item.listingId,
-            body.shippingCountry!
+            body.shippingCountry!,
+            {
+              region: body.shippingRegion,
+              postalCode: body.shippingPostalCode,
+            }
           );
           return {
             listingId: item.listingId,
@@ -145,47 +157,20 @@ export async function POST(req: NextRequest) {
       }
     }
 
-    // Get storeId from line items (all items should be from the same store)
-    const listingIds = [
-      ...new Set(body.lineItems.map((item) => item.listingId)),
-    ];
-    const listings = await db
-      .select({ id: listing.id, storeId: listing.storeId })
-      .from(listing)
-      .where(inArray(listing.id, listingIds));
-
-    if (listings.length !== listingIds.length) {
-      return NextResponse.json(
-        { error: "One or more listings not found" },
-        { status: 400 }
-      );
-    }
-
-    // Get unique store IDs
-    const storeIds = [
-      ...new Set(
-        listings.map((l) => l.storeId).filter((id): id is string => id !== null)
-      ),
-    ];
-
-    if (storeIds.length === 0) {
-      return NextResponse.json(
-        { error: "No store found for listings" },
-        { status: 400 }
-      );
-    }
-
-    // Group line items by store
-    const itemsByStore = new Map<string, typeof body.lineItems>();
-    for (const item of body.lineItems) {
-      const listing = listings.find((l) => l.id === item.listingId);
-      if (!listing?.storeId) continue;
+    // Recompute every amount server-side; client values are only compared
+    const priced = await priceCheckout({
+      currency: body.currency,
+      lineItems: body.lineItems,
+      customerEmail: body.customerEmail,
+      discountId: body.discountId,
+      shippingCountry: body.shippingCountry,
+      shippingRegion: body.shippingRegion,
+      shippingPostalCode: body.shippingPostalCode,
+      vendorShippingRates: body.vendorShippingRates,
+    });
+    reconcileClientTotals(priced, body, "reject", "create-order");
 
-      if (!itemsByStore.has(listing.storeId)) {
-        itemsByStore.set(listing.storeId, []);
-      }
-      itemsByStore.get(listing.storeId)!.push(item);
-    }
+    const storeIds = priced.stores.map((s) => s.storeId);
 
     // Verify all stores exist and have Stripe accounts
     const allStores = await db
@@ -229,8 +214,28 @@ export async function POST(req: NextRequest) {
         storeId: string;
       }> = [];
 
+      // One checkout group carries the single customer payment for all the
+      // per-store orders below
+      const checkoutNumber = await generateCheckoutNumber();
+      const [checkoutGroup] = await tx
+        .insert(checkoutGroups)
+        .values({
+          checkoutNumber,
+          userId: loggedInUserId || null,
+          customerEmail: body.customerEmail,
+          currency: priced.currency,
+          subtotalAmount: priced.subtotal.toFixed(2),
+          discountAmount: priced.discount.toFixed(2),
+          shippingAmount: priced.shipping.toFixed(2),
+          taxAmount: priced.tax.toFixed(2),
+          taxInclusive: priced.taxInclusive,
+          totalAmount: priced.total.toFixed(2),
+        })
+        .returning({ id: checkoutGroups.id });
+
       // Process each store separately
-      for (const [storeId, storeLineItems] of itemsByStore.entries()) {
+      for (const pricedStore of priced.stores) {
+        const storeId = pricedStore.storeId;
         const storeData = allStores.find((s) => s.id === storeId);
         if (!storeData) continue;
         // Find or create customer for this store
@@ -328,85 +333,6 @@ export async function POST(req: NextRequest) {
           }
         }
 
-        // Calculate totals for this store's items
-        const storeSubtotal = storeLineItems.reduce(
-          (sum, item) => sum + parseFloat(item.unitPrice) * item.quantity,
-          0
-        );
-
-        // Calculate discount for this store's items based on item-level discounts
-        // If item-level discount information is provided, use it; otherwise pro-rate
-        let storeDiscount = 0;
-        if (
-          body.lineItems.some(
-            (item) =>
-              item.discountAmount && parseFloat(item.discountAmount || "0") > 0
-          )
-        ) {
-          // Calculate discount from item-level discount amounts
-          for (const item of storeLineItems) {
-            const originalItem = body.lineItems.find(
-              (li) =>
-                li.listingId === item.listingId &&
-                li.variantId === item.variantId
-            );
-            if (originalItem?.discountAmount) {
-              storeDiscount += parseFloat(originalItem.discountAmount);
-            }
-          }
-        } else {
-          // Fallback: Pro-rate discount based on store's subtotal percentage
-          const totalSubtotal = body.lineItems.reduce(
-            (sum, item) => sum + parseFloat(item.unitPrice) * item.quantity,
-            0
-          );
-          const storePercentage =
-            totalSubtotal > 0
-              ? storeSubtotal / totalSubtotal
-              : 1 / storeIds.length;
-          storeDiscount =
-            parseFloat(body.discountAmount || "0") * storePercentage;
-        }
-
-        // Pro-rate shipping and tax based on store's subtotal percentage
-        const totalSubtotal = body.lineItems.reduce(
-          (sum, item) => sum + parseFloat(item.unitPrice) * item.quantity,
-          0
-        );
-        const storePercentage =
-          totalSubtotal > 0
-            ? storeSubtotal / totalSubtotal
-            : 1 / storeIds.length;
-        const storeShipping = (
-          parseFloat(body.shippingAmount || "0") * storePercentage
-        ).toFixed(2);
-        const storeTax = (
-          parseFloat(body.taxAmount || "0") * storePercentage
-        ).toFixed(2);
-        const storeDiscountStr = storeDiscount.toFixed(2);
-        const storeTotal = (
-          storeSubtotal +
-          parseFloat(storeShipping) +
-          parseFloat(storeTax) -
-          storeDiscount
-        ).toFixed(2);
-
-        // Get variant prices if needed
-        const variantIds = storeLineItems
-          .map((item) => item.variantId)
-          .filter((id): id is string => id !== null);
-
-        let variants: Array<{ id: string; price: string | null }> = [];
-        if (variantIds.length > 0) {
-          variants = await tx
-            .select({
-              id: listingVariants.id,
-              price: listingVariants.price,
-            })
-            .from(listingVariants)
-            .where(inArray(listingVariants.id, variantIds));
-        }
-
         // Generate unique order number
         const generatedOrderNumber = await generateOrderNumber();
 
@@ -418,15 +344,19 @@ export async function POST(req: NextRequest) {
             storeId: storeId,
             marketId: null, // Guest orders don't have market
             customerId: customerId,
+            checkoutGroupId: checkoutGroup.id,
             customerEmail: body.customerEmail,
             customerFirstName: body.customerFirstName || null,
             customerLastName: body.customerLastName || null,
-            currency: body.currency,
-            subtotalAmount: storeSubtotal.toFixed(2),
-            discountAmount: storeDiscountStr,
-            shippingAmount: storeShipping,
-            taxAmount: storeTax,
-            totalAmount: storeTotal,
+            currency: priced.currency,
+            subtotalAmount: pricedStore.subtotal.toFixed(2),
+            discountAmount: pricedStore.discount.toFixed(2),
+            discountTotal: pricedStore.discount.toFixed(2),
+            shippingAmount: pricedStore.shipping.toFixed(2),
+            taxAmount: pricedStore.tax.toFixed(2),
+            taxInclusive: priced.taxInclusive,
+            taxBreakdown: pricedStore.taxBreakdown,
+            totalAmount: pricedStore.total.toFixed(2),
             status: "open", // This reserves inventory
             paymentStatus: "pending",
             fulfillmentStatus: "unfulfilled",
@@ -456,70 +386,39 @@ export async function POST(req: NextRequest) {
         const orderId = newOrder[0].id;
         const orderNumber = newOrder[0].orderNumber;
 
-        // Create order discounts for this store's items
-        // Collect unique discount IDs used by items in this store
-        const storeDiscountIds = new Set<string>();
-        let storeTotalDiscountAmount = 0;
-
-        for (const item of storeLineItems) {
-          const originalItem = body.lineItems.find(
-            (li) =>
-              li.listingId === item.listingId && li.variantId === item.variantId
-          );
-          if (originalItem?.discountId && originalItem?.discountAmount) {
-            const itemDiscountAmount = parseFloat(originalItem.discountAmount);
-            if (itemDiscountAmount > 0) {
-              storeDiscountIds.add(originalItem.discountId);
-              storeTotalDiscountAmount += itemDiscountAmount;
-            }
-          }
-        }
-
-        // Create order discount records for each unique discount used
-        // If multiple discounts are used, we'll create multiple orderDiscount records
-        // But for now, we'll create one record with the total amount
-        if (storeDiscountIds.size > 0 && storeTotalDiscountAmount > 0) {
-          // Get the primary discount (first one, or we could use the one with highest amount)
-          const primaryDiscountId = Array.from(storeDiscountIds)[0];
+        // One order_discounts row per discount granted to this store's lines
+        const storeDiscountIds = [
+          ...new Set(
+            pricedStore.lines
+              .map((line) => line.discountId)
+              .filter((id): id is string => id !== null)
+          ),
+        ];
+        const orderDiscountIdByDiscount = new Map<string, string>();
+        if (storeDiscountIds.length > 0) {
           const discountData = await tx
             .select()
             .from(discounts)
-            .where(eq(discounts.id, primaryDiscountId))
-            .limit(1);
-
-          if (discountData.length > 0) {
-            const discount = discountData[0];
-            await tx.insert(orderDiscounts).values({
-              orderId: orderId,
-              discountId: discount.id,
-              code: discount.code,
-              type: discount.type,
-              valueType: discount.valueType,
-              value: discount.value,
-              amount: storeTotalDiscountAmount.toFixed(2),
-              currency: body.currency,
-            });
-          }
-        } else if (body.discountId && parseFloat(storeDiscountStr) > 0) {
-          // Fallback: Use the provided discountId if no item-level discounts
-          const discountData = await tx
-            .select()
-            .from(discounts)
-            .where(eq(discounts.id, body.discountId))
-            .limit(1);
-
-          if (discountData.length > 0) {
-            const discount = discountData[0];
-            await tx.insert(orderDiscounts).values({
-              orderId: orderId,
-              discountId: discount.id,
-              code: discount.code,
-              type: discount.type,
-              valueType: discount.valueType,
-              value: discount.value,
-              amount: storeDiscountStr,
-              currency: body.currency,
-            });
+            .where(inArray(discounts.id, storeDiscountIds));
+
+          for (const discount of discountData) {
+            const amount = pricedStore.lines
+              .filter((line) => line.discountId === discount.id)
+              .reduce((sum, line) => sum + line.discountAmount, 0);
+            const [orderDiscount] = await tx
+              .insert(orderDiscounts)
+              .values({
+                orderId: orderId,
+                discountId: discount.id,
+                code: discount.code,
+                type: discount.type,
+                valueType: discount.valueType,
+                value: discount.value,
+                amount: amount.toFixed(2),
+                currency: priced.currency,
+              })
+              .returning({ id: orderDiscounts.id });
+            orderDiscountIdByDiscount.set(discount.id, orderDiscount.id);
           }
         }
 
@@ -529,42 +428,38 @@ export async function POST(req: NextRequest) {
           storeId,
         });
 
-        // Create order items for this store with item-level discounts
-        for (const item of storeLineItems) {
-          const variant = item.variantId
-            ? variants.find((v) => v.id === item.variantId)
-            : null;
-          const unitPrice = variant?.price || item.unitPrice;
-          const lineSubtotal = (parseFloat(unitPrice) * item.quantity).toFixed(
-            2
-          );
-
-          // Get discount amount for this specific item
-          const originalItem = body.lineItems.find(
-            (li) =>
-              li.listingId === item.listingId && li.variantId === item.variantId
-          );
-          const itemDiscountAmount = originalItem?.discountAmount
-            ? parseFloat(originalItem.discountAmount)
-            : 0;
-          const lineTotal = (
-            parseFloat(lineSubtotal) - itemDiscountAmount
-          ).toFixed(2);
-
-          await tx.insert(orderItems).values({
-            orderId: orderId,
-            listingId: item.listingId,
-            variantId: item.variantId || null,
-            title: item.title,
-            sku: item.sku || null,
-            quantity: item.quantity,
-            unitPrice: unitPrice,
-            currency: body.currency,
-            lineSubtotal: lineSubtotal,
-            lineTotal: lineTotal,
-            discountAmount: itemDiscountAmount.toFixed(2),
-            taxAmount: "0",
-          });
+        // Create order items for this store with server-priced amounts
+        for (const line of pricedStore.lines) {
+          const [orderItem] = await tx
+            .insert(orderItems)
+            .values({
+              orderId: orderId,
+              listingId: line.listingId,
+              variantId: line.variantId,
+              title: line.title,
+              sku: line.sku,
+              quantity: line.quantity,
+              unitPrice: line.unitPrice.toFixed(2),
+              currency: priced.currency,
+              lineSubtotal: line.lineSubtotal.toFixed(2),
+              lineTotal: line.lineTotal.toFixed(2),
+              discountAmount: line.discountAmount.toFixed(2),
+              taxAmount: line.taxAmount.toFixed(2),
+              taxRate: line.taxRate?.toFixed(3) ?? null,
+              taxName: line.taxName,
+            })
+            .returning({ id: orderItems.id });
+
+          const orderDiscountId = line.discountId
+            ? orderDiscountIdByDiscount.get(line.discountId)
+            : undefined;
+          if (orderDiscountId && line.discountAmount > 0) {
+            await tx.insert(orderItemDiscounts).values({
+              orderItemId: orderItem.id,
+              orderDiscountId,
+              amount: line.discountAmount.toFixed(2),
+            });
+          }
         }
 
         // Adjust inventory (reserve items) - status="open" reserves inventory
@@ -573,9 +468,9 @@ export async function POST(req: NextRequest) {
           "@/app/[locale]/actions/orders"
         );
         const inventoryResult = await adjustInventoryForOrder(
-          storeLineItems.map((item) => ({
-            variantId: item.variantId || null,
-            quantity: item.quantity,
+          pricedStore.lines.map((line) => ({
+            variantId: line.variantId,
+            quantity: line.quantity,
           })),
           storeId,
           "reserve",
@@ -590,34 +485,39 @@ export async function POST(req: NextRequest) {
           );
         }
 
-        // Store shipping snapshot for this vendor if provided (manual rates)
-        if (body.vendorShippingRates) {
-          const vendorRate = body.vendorShippingRates.find(
-            (r) => r.storeId === storeId
-          );
-          if (vendorRate) {
-            // Get shipping profile name from the rate (if available)
-            // For now, we'll use the service name as profile name
-            await tx.insert(orderShipments).values({
-              orderId: orderId,
-              storeId: storeId,
-              shippingProfileName: null, // Will be populated from rate lookup if needed
-              serviceName: vendorRate.serviceName,
-              priceCents: vendorRate.priceCents,
-              currency: vendorRate.currency,
-              carrier: null, // Manual rates don't have carrier
-              trackingNumber: null,
-              rateId: vendorRate.rateId, // Store the rate ID for reference
-              estimatedDeliveryMin: null, // Will be calculated from processing + transit days
-              estimatedDeliveryMax: null,
-            });
-          }
+        // Store shipping snapshot for this vendor (server-selected manual rate)
+        if (pricedStore.shippingRate) {
+          const rate = pricedStore.shippingRate;
+          await tx.insert(orderShipments).values({
+            orderId: orderId,
+            storeId: storeId,
+            shippingProfileName: null, // Will be populated from rate lookup if needed
+            serviceName: rate.serviceName,
+            priceCents: rate.priceCents,
+            currency: rate.currency,
+            carrier: null, // Manual rates don't have carrier
+            trackingNumber: null,
+            rateId: rate.rateId, // Store the rate ID for reference
+            estimatedDeliveryMin: null, // Will be calculated from processing + transit days
+            estimatedDeliveryMax: null,
+          });
         }
       }
 
       // Return all created orders
       const response = NextResponse.json({
         success: true,
+        totals: {
+          currency: priced.currency,
+          subtotalAmount: priced.subtotal.toFixed(2),
+          discountAmount: priced.discount.toFixed(2),
+          shippingAmount: priced.shipping.toFixed(2),
+          taxAmount: priced.tax.toFixed(2),
+          taxInclusive: priced.taxInclusive,
+          totalAmount: priced.total.toFixed(2),
+        },
+        checkoutGroupId: checkoutGroup.id,
+        checkoutNumber,
         orders: createdOrders, // Array of orders, one per store
         primaryOrderId: createdOrders[0]?.orderId, // First order ID for backward compatibility
       });
@@ -688,6 +588,16 @@ export async function POST(req: NextRequest) {
       return response;
     });
   } catch (error) {
+    if (isPricingError(error)) {
+      return NextResponse.json(
+        {
+          error: error.message,
+          code: error.code,
+          mismatches: error.mismatches,
+        },
+        { status: error.code === "PRICE_MISMATCH" ? 409 : 400 }
+      );
+    }
     console.error("Error creating guest order:", error);
     const message =
       error instanceof Error ? error.message : "Failed to create order";
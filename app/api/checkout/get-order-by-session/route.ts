@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { db } from "@/db";
 import { orders, orderItems, listing, store } from "@/db/schema";
 import { inArray } from "drizzle-orm";
+import { getCheckoutGroupSummary } from "@/lib/checkout-groups";
 import { stripe } from "@/lib/stripe";
 
 export async function GET(req: NextRequest) {
@@ -139,8 +140,12 @@ export async function GET(req: NextRequest) {
       };
     });
 
+    // Multi-store checkouts are shown as one purchase with per-store orders
+    const checkoutGroup = await getCheckoutGroupSummary(orderIdsToFetch);
+
     return NextResponse.json({
       success: true,
+      checkoutGroup,
       order: {
         id: primaryOrder.id,
         orderNumber: primaryOrder.orderNumber,
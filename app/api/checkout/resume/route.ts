@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/db";
+import { abandonedCheckouts } from "@/db/schema";
+import { and, eq, isNull } from "drizzle-orm";
+import { verifyResumeToken } from "@/lib/checkout-recovery";
+import { restoreCartItems } from "@/app/[locale]/actions/cart";
+import { routing } from "@/i18n/routing";
+
+/**
+ * Resume link from an abandoned checkout reminder: restores the cart of the
+ * checkout and sends the shopper back to checkout. Links work once.
+ */
+export async function GET(req: NextRequest) {
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL || req.nextUrl.origin;
+  const token = req.nextUrl.searchParams.get("token") || "";
+
+  let checkoutId: string | null = null;
+  try {
+    checkoutId = verifyResumeToken(token);
+  } catch (error) {
+    console.error("Error verifying resume token:", error);
+  }
+
+  const [checkout] = checkoutId
+    ? await db
+        .select()
+        .from(abandonedCheckouts)
+        .where(eq(abandonedCheckouts.id, checkoutId))
+        .limit(1)
+    : [];
+
+  const locale =
+    checkout &&
+    routing.locales.includes(
+      checkout.locale as (typeof routing.locales)[number]
+    )
+      ? checkout.locale
+      : routing.defaultLocale;
+
+  if (!checkout || checkout.status !== "open" || checkout.resumedAt) {
+    // Invalid, expired, already used or already paid: the cart page shows
+    // whatever the shopper still has
+    return NextResponse.redirect(`${appUrl}/${locale}/cart`);
+  }
+
+  // Claim the link for the whole checkout session (multi-store checkouts)
+  const claimed = await db
+    .update(abandonedCheckouts)
+    .set({ resumedAt: new Date() })
+    .where(
+      and(
+        eq(abandonedCheckouts.stripeSessionId, checkout.stripeSessionId),
+        isNull(abandonedCheckouts.resumedAt)
+      )
+    )
+    .returning();
+
+  if (claimed.length === 0) {
+    return NextResponse.redirect(`${appUrl}/${locale}/cart`);
+  }
+
+  const result = await restoreCartItems(
+    claimed.flatMap((row) =>
+      row.items.map((item) => ({
+        listingId: item.listingId,
+        variantId: item.variantId,
+        quantity: item.quantity,
+      }))
+    )
+  );
+  if (!result.success) {
+    console.error("Failed to restore abandoned checkout cart:", result.error);
+    return NextResponse.redirect(`${appUrl}/${locale}/cart`);
+  }
+
+  const discountCode = claimed.find((row) => row.discountCode)?.discountCode;
+  const query = discountCode
+    ? `?discount=${encodeURIComponent(discountCode)}`
+    : "";
+  return NextResponse.redirect(`${appUrl}/${locale}/checkout${query}`);
+}
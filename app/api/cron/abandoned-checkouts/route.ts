@@ -0,0 +1,241 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/db";
+import {
+  abandonedCheckouts,
+  discounts,
+  discountTargets,
+  orders,
+  type AbandonedCheckout,
+} from "@/db/schema";
+import { and, eq, inArray, isNull, lt, lte } from "drizzle-orm";
+import { getTranslations } from "next-intl/server";
+import { generateUniqueDiscountCode } from "@/lib/discount-code";
+import {
+  getRecoveryDiscountPercent,
+  getReminderDelaysHours,
+  getResumeUrl,
+  markCheckoutSessionCompleted,
+} from "@/lib/checkout-recovery";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DISCOUNT_VALID_DAYS = 7;
+
+/**
+ * Single-use, seller-owned discount on the products of an abandoned checkout
+ */
+async function createRecoveryDiscount(
+  checkout: AbandonedCheckout,
+  percent: number
+) {
+  const code = await generateUniqueDiscountCode(
+    async (candidate) => {
+      const existing = await db
+        .select({ id: discounts.id })
+        .from(discounts)
+        .where(eq(discounts.code, candidate))
+        .limit(1);
+      return existing.length > 0;
+    },
+    { prefix: "BACK", groups: 2 }
+  );
+
+  const endsAt = new Date(Date.now() + DISCOUNT_VALID_DAYS * 24 * HOUR_MS);
+  return db.transaction(async (tx) => {
+    const [discount] = await tx
+      .insert(discounts)
+      .values({
+        type: "amount_off_products",
+        name: `Checkout recovery (${checkout.email})`,
+        code,
+        valueType: "percentage",
+        value: percent.toString(),
+        usageLimit: 1,
+        usageCount: 0,
+        customerEligibilityType: "all",
+        startsAt: new Date(),
+        endsAt,
+        isActive: true,
+        ownerType: "seller",
+        ownerId: checkout.storeId,
+      })
+      .returning();
+
+    await tx.insert(discountTargets).values({
+      discountId: discount.id,
+      targetType: "product_ids",
+      productIds: [...new Set(checkout.items.map((i) => i.listingId))],
+    });
+
+    return { id: discount.id, code };
+  });
+}
+
+export async function POST(req: NextRequest) {
+  // Verify cron secret
+  const authHeader = req.headers.get("authorization");
+  if (authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  // Reminders are only counted once actually sent
+  if (!process.env.RESEND_API_KEY) {
+    return NextResponse.json(
+      { error: "RESEND_API_KEY is not configured" },
+      { status: 500 }
+    );
+  }
+
+  try {
+    const now = new Date();
+    const delays = getReminderDelaysHours();
+    const discountPercent = getRecoveryDiscountPercent();
+    const results = {
+      sent: 0,
+      completed: 0,
+      errors: [] as string[],
+    };
+
+    const candidates = await db
+      .select({
+        checkout: abandonedCheckouts,
+        paymentStatus: orders.paymentStatus,
+      })
+      .from(abandonedCheckouts)
+      .leftJoin(orders, eq(abandonedCheckouts.orderId, orders.id))
+      .where(
+        and(
+          eq(abandonedCheckouts.status, "open"),
+          // Shoppers who used their resume link are not chased further
+          isNull(abandonedCheckouts.resumedAt),
+          lt(abandonedCheckouts.remindersSent, delays.length),
+          lte(
+            abandonedCheckouts.createdAt,
+            new Date(now.getTime() - delays[0] * HOUR_MS)
+          )
+        )
+      );
+
+    // Rows of one Stripe session (multi-store checkout) get a single email
+    const sessions = new Map<string, typeof candidates>();
+    for (const candidate of candidates) {
+      const key = candidate.checkout.stripeSessionId;
+      sessions.set(key, [...(sessions.get(key) ?? []), candidate]);
+    }
+
+    for (const [stripeSessionId, group] of sessions) {
+      try {
+        // Paid through another path (or the webhook was missed)
+        if (
+          group.some(
+            (g) => g.paymentStatus !== null && g.paymentStatus !== "pending"
+          )
+        ) {
+          await markCheckoutSessionCompleted(stripeSessionId);
+          results.completed++;
+          continue;
+        }
+
+        const rows = group.map((g) => g.checkout);
+        const primary = rows[0];
+        const step = Math.min(...rows.map((r) => r.remindersSent));
+        const dueAt = primary.createdAt.getTime() + delays[step] * HOUR_MS;
+        if (dueAt > now.getTime()) continue;
+
+        // The discount goes out with the last reminder; single-store only,
+        // as checkout applies one code per order
+        let discount: { id: string; code: string } | null = null;
+        if (
+          step === delays.length - 1 &&
+          discountPercent > 0 &&
+          rows.length === 1 &&
+          primary.storeId &&
+          !primary.discountCode
+        ) {
+          discount = await createRecoveryDiscount(primary, discountPercent);
+        }
+        const discountCode = discount?.code ?? primary.discountCode;
+
+        const t = await getTranslations({
+          locale: primary.locale,
+          namespace: "abandonedCheckoutEmail",
+        });
+
+        const resend = (await import("@/lib/resend")).default;
+        const AbandonedCheckoutEmail = (
+          await import("@/app/[locale]/components/abandoned-checkout-email")
+        ).default;
+
+        const { error: sendError } = await resend.emails.send({
+          from:
+            process.env.RESEND_FROM_EMAIL ||
+            "Golden Market <goldenmarket@resend.dev>",
+          to: primary.email,
+          subject: t("subject"),
+          react: AbandonedCheckoutEmail({
+            copy: {
+              heading: t("heading"),
+              intro: t("intro"),
+              itemsTitle: t("itemsTitle"),
+              discountOffer: discountCode
+                ? t("discountOffer", { percent: discountPercent })
+                : undefined,
+              button: t("button"),
+              linkNote: t("linkNote"),
+              footer: t("footer"),
+            },
+            items: rows.flatMap((row) =>
+              row.items.map((item) => ({
+                ...item,
+                currency: row.currency,
+              }))
+            ),
+            discountCode,
+            resumeUrl: getResumeUrl(primary.id),
+          }),
+        });
+        if (sendError) {
+          throw new Error(sendError.message);
+        }
+
+        await db
+          .update(abandonedCheckouts)
+          .set({
+            remindersSent: step + 1,
+            lastReminderAt: now,
+            ...(discount && {
+              discountId: discount.id,
+              discountCode: discount.code,
+            }),
+          })
+          .where(
+            inArray(
+              abandonedCheckouts.id,
+              rows.map((r) => r.id)
+            )
+          );
+        results.sent++;
+      } catch (error) {
+        console.error(
+          `[abandoned-checkouts] Reminder for ${stripeSessionId} failed:`,
+          error
+        );
+        results.errors.push(
+          `${stripeSessionId}: ${error instanceof Error ? error.message : "Unknown error"}`
+        );
+      }
+    }
+
+    return NextResponse.json({ success: true, ...results });
+  } catch (error) {
+    console.error("Error sending abandoned checkout reminders:", error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : "Failed to send abandoned checkout reminders",
+      },
+      { status: 500 }
+    );
+  }
+}
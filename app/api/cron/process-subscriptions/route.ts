@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from "next/server";
+import { runSubscriptionRenewals } from "@/lib/subscriptions";
+
+export async function POST(req: NextRequest) {
+  // Verify cron secret
+  const authHeader = req.headers.get("authorization");
+  if (authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const results = await runSubscriptionRenewals();
+
+    return NextResponse.json({
+      success: true,
+      results,
+    });
+  } catch (error) {
+    console.error("Error processing subscription renewals:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  postMissingJournalEntries,
+  reconcileLedgerWithStripe,
+} from "@/lib/ledger";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Posts journal entries that are missing (failed postings, history) and
+ * reconciles the previous UTC day against Stripe. `?from=&to=` (ISO dates)
+ * reconciles another period, e.g. a whole month at close.
+ */
+export async function POST(req: NextRequest) {
+  // Verify cron secret
+  const authHeader = req.headers.get("authorization");
+  if (authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const today = new Date();
+    today.setUTCHours(0, 0, 0, 0);
+    const fromParam = req.nextUrl.searchParams.get("from");
+    const toParam = req.nextUrl.searchParams.get("to");
+    const from = fromParam
+      ? new Date(fromParam)
+      : new Date(today.getTime() - DAY_MS);
+    const to = toParam ? new Date(toParam) : today;
+    if (isNaN(from.getTime()) || isNaN(to.getTime()) || from >= to) {
+      return NextResponse.json({ error: "Invalid period" }, { status: 400 });
+    }
+
+    const backfill = await postMissingJournalEntries();
+    const run = await reconcileLedgerWithStripe({ from, to });
+
+    return NextResponse.json({
+      success: true,
+      posted: backfill.posted,
+      postingErrors: backfill.errors,
+      run: {
+        id: run.id,
+        status: run.status,
+        stripeTransactionCount: run.stripeTransactionCount,
+        matchedCount: run.matchedCount,
+        issueCount: run.issues?.length ?? 0,
+        errorMessage: run.errorMessage,
+      },
+    });
+  } catch (error) {
+    console.error("Error reconciling ledger:", error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error ? error.message : "Failed to reconcile ledger",
+      },
+      { status: 500 }
+    );
+  }
+}
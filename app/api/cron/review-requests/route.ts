@@ -0,0 +1,273 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/db";
+import {
+  abandonedCheckouts,
+  fulfillments,
+  listing,
+  orderItems,
+  orders,
+  productReview,
+  reviewRequests,
+  store,
+  storeReview,
+} from "@/db/schema";
+import {
+  and,
+  desc,
+  eq,
+  gte,
+  inArray,
+  isNotNull,
+  isNull,
+  lte,
+  ne,
+  sql,
+} from "drizzle-orm";
+import { getTranslations } from "next-intl/server";
+import { routing } from "@/i18n/routing";
+import {
+  getReviewLinkUrl,
+  getReviewRequestDelayDays,
+  getReviewRequestMaxAgeDays,
+} from "@/lib/review-requests";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// When the parcel reached the buyer: the carrier's delivery date, or the
+// fulfillment date for shipments sent without tracking
+const arrivedAt = sql`COALESCE(${fulfillments.deliveredAt}, CASE WHEN ${fulfillments.trackingNumber} IS NULL THEN ${fulfillments.fulfilledAt} END)`;
+
+/**
+ * The checkout locale of each order, when it went through Stripe checkout
+ */
+async function getOrderLocales(orderIds: string[]) {
+  const rows = await db
+    .select({
+      orderId: abandonedCheckouts.orderId,
+      locale: abandonedCheckouts.locale,
+    })
+    .from(abandonedCheckouts)
+    .where(inArray(abandonedCheckouts.orderId, orderIds))
+    .orderBy(desc(abandonedCheckouts.createdAt));
+
+  const locales = new Map<string, string>();
+  for (const row of rows) {
+    if (
+      row.orderId &&
+      !locales.has(row.orderId) &&
+      (routing.locales as readonly string[]).includes(row.locale)
+    ) {
+      locales.set(row.orderId, row.locale);
+    }
+  }
+  return locales;
+}
+
+export async function POST(req: NextRequest) {
+  // Verify cron secret
+  const authHeader = req.headers.get("authorization");
+  if (authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  // Orders are only marked as asked once the email actually went out
+  if (!process.env.RESEND_API_KEY) {
+    return NextResponse.json(
+      { error: "RESEND_API_KEY is not configured" },
+      { status: 500 }
+    );
+  }
+
+  try {
+    const now = Date.now();
+    const dueBefore = new Date(now - getReviewRequestDelayDays() * DAY_MS);
+    const notBefore = new Date(now - getReviewRequestMaxAgeDays() * DAY_MS);
+    const results = {
+      sent: 0,
+      skipped: 0,
+      errors: [] as string[],
+    };
+
+    // Paid orders of opted-in stores whose first shipment arrived within the
+    // window and that were not asked yet
+    const candidates = await db
+      .select({
+        orderId: orders.id,
+        orderNumber: orders.orderNumber,
+        email: orders.customerEmail,
+        storeId: store.id,
+        storeName: store.storeName,
+      })
+      .from(fulfillments)
+      .innerJoin(orders, eq(fulfillments.orderId, orders.id))
+      .innerJoin(store, eq(orders.storeId, store.id))
+      .leftJoin(reviewRequests, eq(reviewRequests.orderId, orders.id))
+      .where(
+        and(
+          isNull(reviewRequests.id),
+          eq(store.reviewRequestsEnabled, true),
+          eq(orders.paymentStatus, "paid"),
+          ne(orders.status, "canceled"),
+          isNotNull(orders.customerEmail)
+        )
+      )
+      .groupBy(orders.id, store.id)
+      .having(
+        and(
+          lte(sql`MIN(${arrivedAt})`, dueBefore),
+          gte(sql`MIN(${arrivedAt})`, notBefore)
+        )
+      );
+
+    if (candidates.length === 0) {
+      return NextResponse.json({ success: true, ...results });
+    }
+
+    const locales = await getOrderLocales(candidates.map((c) => c.orderId));
+
+    for (const candidate of candidates) {
+      const email = candidate.email!;
+      const locale = locales.get(candidate.orderId) ?? routing.defaultLocale;
+
+      try {
+        // Claim the order first so overlapping runs never email twice
+        const claimed = await db
+          .insert(reviewRequests)
+          .values({
+            orderId: candidate.orderId,
+            storeId: candidate.storeId,
+            email,
+            locale,
+            status: "sent",
+          })
+          .onConflictDoNothing()
+          .returning({ id: reviewRequests.id });
+        if (claimed.length === 0) continue;
+        const requestId = claimed[0].id;
+
+        const [items, reviewed, storeReviewed] = await Promise.all([
+          db
+            .selectDistinctOn([orderItems.listingId], {
+              listingId: listing.id,
+              title: listing.name,
+            })
+            .from(orderItems)
+            .innerJoin(listing, eq(orderItems.listingId, listing.id))
+            .where(eq(orderItems.orderId, candidate.orderId)),
+          db
+            .select({ listingId: productReview.listingId })
+            .from(productReview)
+            .where(eq(productReview.orderId, candidate.orderId)),
+          db
+            .select({ id: storeReview.id })
+            .from(storeReview)
+            .where(eq(storeReview.orderId, candidate.orderId))
+            .limit(1),
+        ]);
+
+        const reviewedIds = new Set(reviewed.map((r) => r.listingId));
+        const toReview = items.filter(
+          (item) => !reviewedIds.has(item.listingId)
+        );
+
+        // Reviewed everything already (e.g. from the order page)
+        if (toReview.length === 0 && storeReviewed.length > 0) {
+          await db
+            .update(reviewRequests)
+            .set({ status: "skipped" })
+            .where(eq(reviewRequests.id, requestId));
+          results.skipped++;
+          continue;
+        }
+
+        const t = await getTranslations({
+          locale,
+          namespace: "reviewRequestEmail",
+        });
+        const copyValues = {
+          storeName: candidate.storeName,
+          orderNumber: candidate.orderNumber,
+        };
+
+        const resend = (await import("@/lib/resend")).default;
+        const ReviewRequestEmail = (
+          await import("@/app/[locale]/components/review-request-email")
+        ).default;
+
+        const { error: sendError } = await resend.emails.send({
+          from:
+            process.env.RESEND_FROM_EMAIL ||
+            "Golden Market <goldenmarket@resend.dev>",
+          to: email,
+          subject: t("subject", copyValues),
+          react: ReviewRequestEmail({
+            copy: {
+              heading: t("heading"),
+              intro: t("intro", copyValues),
+              itemsTitle: t("itemsTitle"),
+              reviewButton: t("reviewButton"),
+              storeTitle: t("storeTitle", copyValues),
+              storeButton: t("storeButton"),
+              linkNote: t("linkNote"),
+              footer: t("footer", copyValues),
+            },
+            items: toReview.map((item) => ({
+              title: item.title,
+              reviewUrl: getReviewLinkUrl(
+                {
+                  orderId: candidate.orderId,
+                  target: { type: "product", listingId: item.listingId },
+                },
+                locale
+              ),
+            })),
+            storeReviewUrl:
+              storeReviewed.length > 0
+                ? null
+                : getReviewLinkUrl(
+                    {
+                      orderId: candidate.orderId,
+                      target: { type: "store", storeId: candidate.storeId },
+                    },
+                    locale
+                  ),
+          }),
+        });
+        if (sendError) {
+          // Release the claim so the next run retries
+          await db
+            .delete(reviewRequests)
+            .where(eq(reviewRequests.id, requestId));
+          throw new Error(sendError.message);
+        }
+
+        await db
+          .update(reviewRequests)
+          .set({ sentAt: new Date() })
+          .where(eq(reviewRequests.id, requestId));
+        results.sent++;
+      } catch (error) {
+        console.error(
+          `[review-requests] Request for order ${candidate.orderId} failed:`,
+          error
+        );
+        results.errors.push(
+          `${candidate.orderId}: ${error instanceof Error ? error.message : "Unknown error"}`
+        );
+      }
+    }
+
+    return NextResponse.json({ success: true, ...results });
+  } catch (error) {
+    console.error("Error sending review requests:", error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : "Failed to send review requests",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  generateMonthlyStatements,
+  monthPeriod,
+} from "@/lib/seller-statements";
+
+/**
+ * Generates and emails last month's seller statements. `?month=YYYY-MM`
+ * generates another (past) month. Re-runs only pick up unfinished wallets.
+ */
+export async function POST(req: NextRequest) {
+  // Verify cron secret
+  const authHeader = req.headers.get("authorization");
+  if (authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const now = new Date();
+    const monthParam = req.nextUrl.searchParams.get("month");
+    const match = monthParam ? /^(\d{4})-(\d{2})$/.exec(monthParam) : null;
+    if (monthParam && !match) {
+      return NextResponse.json(
+        { error: "month must be in YYYY-MM format" },
+        { status: 400 }
+      );
+    }
+
+    const period = match
+      ? monthPeriod(parseInt(match[1], 10), parseInt(match[2], 10) - 1)
+      : monthPeriod(now.getUTCFullYear(), now.getUTCMonth() - 1);
+    if (period.end > now) {
+      return NextResponse.json(
+        { error: "Month hasn't ended yet" },
+        { status: 400 }
+      );
+    }
+
+    const results = await generateMonthlyStatements(period);
+
+    return NextResponse.json({
+      success: true,
+      period: period.label,
+      ...results,
+    });
+  } catch (error) {
+    console.error("Error generating seller statements:", error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : "Failed to generate statements",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server";
+import { pollTrackingUpdates } from "@/lib/shipment-tracking";
+
+// Shipments are polled only when no webhook has updated them for this long
+const STALE_HOURS = 6;
+const BATCH_SIZE = 100;
+
+/**
+ * Fallback for missed EasyShip tracking webhooks: refreshes shipments that
+ * are still in flight
+ */
+export async function POST(req: NextRequest) {
+  // Verify cron secret
+  const authHeader = req.headers.get("authorization");
+  if (authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const results = await pollTrackingUpdates({
+      staleHours: STALE_HOURS,
+      limit: BATCH_SIZE,
+    });
+
+    return NextResponse.json({ success: true, ...results });
+  } catch (error) {
+    console.error("Error syncing shipment tracking:", error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error ? error.message : "Failed to sync tracking",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,14 +1,9 @@
 import { NextRequest, NextResponse } from "next/server";
 import { db } from "@/db";
-import {
-  sellerBalanceTransactions,
-  sellerBalances,
-  orderPayments,
-  store,
-} from "@/db/schema";
+import { sellerBalanceTransactions, sellerBalances } from "@/db/schema";
 import { eq, and, lte, sql } from "drizzle-orm";
 import { revalidatePath } from "next/cache";
-import { stripe } from "@/lib/stripe";
+import { transferOrderPaymentToStore } from "@/lib/seller-transfers";
 
 export async function POST(req: NextRequest) {
   // Verify cron secret
@@ -116,61 +111,23 @@ export async function POST(req: NextRequest) {
           transaction.orderPaymentId
         ) {
           try {
-            const [op] = await db
-              .select()
-              .from(orderPayments)
-              .where(eq(orderPayments.id, transaction.orderPaymentId))
-              .limit(1);
-            if (!op || op.transferStatus !== "held") continue;
-            if (op.provider === "esewa") continue;
-            const netAmount = parseFloat(op.netAmountToStore || "0");
-            if (netAmount <= 0) continue;
-            const [storeRow] = await db
-              .select()
-              .from(store)
-              .where(eq(store.id, transaction.storeId))
-              .limit(1);
-            if (!storeRow?.stripeAccountId) {
-              console.warn(
-                `[Hold Period] No Stripe account for store ${transaction.storeId}, skipping transfer`
-              );
-              continue;
-            }
-            let chargeId = op.stripeChargeId;
-            if (!chargeId && op.stripePaymentIntentId) {
-              const pi = await stripe.paymentIntents.retrieve(
-                op.stripePaymentIntentId
-              );
-              chargeId =
-                typeof pi.latest_charge === "string"
-                  ? pi.latest_charge
-                  : pi.latest_charge?.id ?? null;
-            }
-            if (!chargeId) {
+            const result = await transferOrderPaymentToStore(
+              transaction.orderPaymentId,
+              transaction.storeId
+            );
+            if (result.transferred) {
+              console.log("[Hold Period] Transferred to connected account:", {
+                orderPaymentId: transaction.orderPaymentId,
+                transferId: result.transferId,
+              });
+            } else if (
+              result.reason === "no_stripe_account" ||
+              result.reason === "no_charge"
+            ) {
               console.warn(
-                `[Hold Period] No charge ID for order payment ${op.id}, skipping transfer`
+                `[Hold Period] Skipping transfer for order payment ${transaction.orderPaymentId}: ${result.reason}`
               );
-              continue;
             }
-            const transfer = await stripe.transfers.create({
-              amount: Math.round(netAmount * 100),
-              currency: op.currency.toLowerCase(),
-              destination: storeRow.stripeAccountId,
-              source_transaction: chargeId,
-            });
-            await db
-              .update(orderPayments)
-              .set({
-                transferStatus: "transferred",
-                stripeTransferId: transfer.id,
-                updatedAt: new Date(),
-              })
-              .where(eq(orderPayments.id, op.id));
-            console.log("[Hold Period] Transferred to connected account:", {
-              orderPaymentId: op.id,
-              transferId: transfer.id,
-              amount: netAmount,
-            });
           } catch (transferError) {
             console.error(
               `[Hold Period] Transfer failed for order payment ${transaction.orderPaymentId}:`,
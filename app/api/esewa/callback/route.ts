@@ -8,16 +8,23 @@ import {
 import { eq, inArray } from "drizzle-orm";
 import { updateSellerBalance } from "@/app/[locale]/actions/seller-balance";
 import { verifyEsewaCallback } from "@/lib/esewa";
+import {
+  recordCheckoutGroupPayment,
+  sendOrderConfirmationEmail,
+} from "@/lib/checkout-groups";
+import {
+  calculateOrderPlatformFee,
+  describePlatformFee,
+} from "@/lib/platform-fees";
 
-/** Platform fee rate (5%) - applied in order currency for consistency (NPR for eSewa, etc.) */
-const PLATFORM_FEE_RATE = 0.05;
 /** eSewa fee per order in order currency (set > 0 when eSewa charges a fee) */
 const ESEWA_FEE_AMOUNT = 0;
 
 /**
  * GET /api/esewa/callback?status=success|failure&ref=<base64url orderIds json>
  * eSewa may append &data=...&signature=... on success.
- * On success: create order_payments (provider esewa), ledger entries, mark orders paid, redirect to success.
+ * On success: create order_payments (provider esewa), ledger entries, mark orders paid,
+ * send the combined confirmation email, redirect to success.
  * On failure: redirect to cancel/failure.
  */
 export async function GET(req: NextRequest) {
@@ -121,7 +128,9 @@ export async function GET(req: NextRequest) {
     if (order.paymentStatus === "paid") continue;
 
     const orderAmount = parseFloat(order.totalAmount || "0");
-    const orderPlatformFee = orderAmount * PLATFORM_FEE_RATE; // 5% in order currency (NPR for eSewa)
+    // Fee schedule in order currency (NPR for eSewa)
+    const { fee: orderPlatformFee, snapshot: platformFeeRule } =
+      await calculateOrderPlatformFee(order.id, orderAmount);
     const esewaFee = ESEWA_FEE_AMOUNT;
 
     const [paymentRecord] = await db
@@ -133,6 +142,7 @@ export async function GET(req: NextRequest) {
         provider: "esewa",
         providerPaymentId: `esewa_${order.id}_${Date.now()}`,
         platformFeeAmount: orderPlatformFee.toFixed(2),
+        platformFeeRule,
         netAmountToStore: (
           orderAmount -
           orderPlatformFee -
@@ -160,7 +170,7 @@ export async function GET(req: NextRequest) {
       currency: order.currency,
       orderId: order.id,
       orderPaymentId: paymentRecord.id,
-      description: "Platform fee (5%) for order",
+      description: `Platform fee (${describePlatformFee(platformFeeRule, order.currency)}) for order`,
     });
 
     if (esewaFee > 0) {
@@ -203,6 +213,14 @@ export async function GET(req: NextRequest) {
     });
   }
 
+  await recordCheckoutGroupPayment(orderIds, { provider: "esewa", paid: true });
+
+  try {
+    await sendOrderConfirmationEmail(orderIds);
+  } catch (emailError) {
+    console.error("[eSewa callback] Failed to send confirmation email:", emailError);
+  }
+
   console.log("[eSewa callback] Payment processing complete, redirecting to success for orderIds:", orderIds.join(","));
   return NextResponse.redirect(
     `${baseUrl}/checkout/success?orderIds=${encodeURIComponent(orderIds.join(","))}`
@@ -2,12 +2,15 @@ import { NextRequest, NextResponse } from "next/server";
 import { buildEsewaPaymentPayload, getEsewaFormSubmitUrl } from "@/lib/esewa";
 import { db } from "@/db";
 import { orders } from "@/db/schema";
-import {  inArray } from "drizzle-orm";
+import { inArray } from "drizzle-orm";
 import crypto from "crypto";
+import { assertAmountMatches, isPricingError } from "@/lib/pricing";
+import { roundMoney } from "@/lib/utils-discount";
 
 /**
  * POST /api/esewa/init
  * Body: { orderIds: string[], totalAmount: string, currency: string (e.g. NPR), productName?: string }
+ * The amount charged is the sum of the server-priced order totals; totalAmount and currency are only checked against it.
  * Returns: { success, formPayload } for client to POST to eSewa, or { error }.
  */
 export async function POST(req: NextRequest) {
@@ -43,7 +46,12 @@ export async function POST(req: NextRequest) {
     }
 
     const orderRows = await db
-      .select({ id: orders.id, totalAmount: orders.totalAmount, paymentStatus: orders.paymentStatus })
+      .select({
+        id: orders.id,
+        totalAmount: orders.totalAmount,
+        currency: orders.currency,
+        paymentStatus: orders.paymentStatus,
+      })
       .from(orders)
       .where(inArray(orders.id, orderIds))
       .limit(orderIds.length);
@@ -63,6 +71,27 @@ export async function POST(req: NextRequest) {
       );
     }
 
+    if (orderRows.some((o) => o.currency !== "NPR")) {
+      return NextResponse.json(
+        { error: "eSewa payments are only available for NPR orders" },
+        { status: 400 }
+      );
+    }
+
+    if (currency && currency.toUpperCase() !== "NPR") {
+      return NextResponse.json(
+        {
+          error: `Currency mismatch: orders are priced in NPR, not ${currency}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const orderTotal = roundMoney(
+      orderRows.reduce((sum, o) => sum + parseFloat(o.totalAmount), 0)
+    );
+    assertAmountMatches("totalAmount", orderTotal, totalAmount);
+
     const ref = Buffer.from(JSON.stringify({ orderIds })).toString("base64url");
     const transactionUuid = `esewa_${ref}_${crypto.randomBytes(6).toString("hex")}`;
     const baseUrl = process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000";
@@ -73,11 +102,11 @@ export async function POST(req: NextRequest) {
       successUrl,
       failureUrl,
       orderIds,
-      totalAmount,
+      totalAmount: orderTotal.toFixed(2),
     });
 
     const formPayload = buildEsewaPaymentPayload({
-      totalAmount: amount.toFixed(2),
+      totalAmount: orderTotal.toFixed(2),
       transactionUuid,
       productCode: process.env.ESEWA_PRODUCT_CODE || "EPAYTEST",
       productName: productName || `Order ${orderIds[0]}`,
@@ -92,6 +121,16 @@ export async function POST(req: NextRequest) {
       transactionUuid,
     });
   } catch (error) {
+    if (isPricingError(error)) {
+      return NextResponse.json(
+        {
+          error: error.message,
+          code: error.code,
+          mismatches: error.mismatches,
+        },
+        { status: 409 }
+      );
+    }
     console.error("[eSewa init]", error);
     return NextResponse.json(
       { error: error instanceof Error ? error.message : "Failed to init eSewa payment" },
@@ -0,0 +1,163 @@
+import { NextRequest } from "next/server";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { chatMessages, chatRooms } from "@/db/schema";
+import { PERMISSION_CATALOG, STORE_PERMISSIONS } from "@/lib/permissions";
+import {
+  actAsRoleWithout,
+  actAsStaffWithout,
+  expectRefused,
+  resetHarness,
+  STAFF_STORE_ID,
+  type GuardedCall,
+} from "@/test/permission-harness";
+import { POST as completePayout } from "./admin/payouts/[payoutId]/complete/route";
+import { GET as revealPayout } from "./admin/payouts/[payoutId]/reveal/route";
+import { GET as getPendingEsewaPayouts } from "./admin/payouts/pending-esewa/route";
+import { POST as reindexSearch } from "./admin/search/reindex/route";
+import { POST as cleanupOrphanedFiles } from "./chat/cleanup-orphaned-files/route";
+import { DELETE as deleteMessage } from "./chat/messages/[messageId]/route";
+import { POST as sendMessage } from "./chat/messages/route";
+import { GET as getRoom } from "./chat/rooms/route";
+import { POST as createAccountLink } from "./stripe/connect/account-link/route";
+import { POST as createConnectAccount } from "./stripe/connect/create-account/route";
+
+vi.mock("@/db", async () => ({
+  db: (await import("@/test/permission-harness")).db,
+}));
+vi.mock(
+  "@/lib/auth",
+  async () => (await import("@/test/permission-harness")).authModule
+);
+vi.mock(
+  "@/lib/user-role",
+  async () => (await import("@/test/permission-harness")).userRoleModule
+);
+vi.mock(
+  "next/headers",
+  async () => (await import("@/test/permission-harness")).headersModule
+);
+vi.mock("@/lib/permissions", async (importOriginal) =>
+  (await import("@/test/permission-harness")).recordDenials(
+    await importOriginal()
+  )
+);
+vi.mock("@/lib/taxonomy", () => ({ findCategoryById: () => null }));
+
+function get(path: string) {
+  return new NextRequest(`http://localhost${path}`);
+}
+
+function post(path: string, body: unknown = {}) {
+  return new NextRequest(`http://localhost${path}`, {
+    method: "POST",
+    body: JSON.stringify(body),
+  });
+}
+
+function route(
+  name: string,
+  permission: GuardedCall["permission"],
+  run: GuardedCall["run"],
+  rows?: GuardedCall["rows"]
+): GuardedCall {
+  return { name, permission, run, rows };
+}
+
+const payout = { params: Promise.resolve({ payoutId: "payout-1" }) };
+
+// Someone else's conversation with the store
+const storeChat: GuardedCall["rows"] = [
+  [
+    chatRooms,
+    [
+      {
+        id: "room-1",
+        storeId: STAFF_STORE_ID,
+        buyerId: "buyer-1",
+        sellerId: "seller-1",
+        status: "active",
+      },
+    ],
+  ],
+];
+
+const platformRoutes: GuardedCall[] = [
+  route(
+    "POST /api/admin/payouts/[payoutId]/complete",
+    "platform.finances",
+    () => completePayout(post("/api/admin/payouts/payout-1/complete"), payout)
+  ),
+  route("GET /api/admin/payouts/[payoutId]/reveal", "platform.finances", () =>
+    revealPayout(get("/api/admin/payouts/payout-1/reveal"), payout)
+  ),
+  route("GET /api/admin/payouts/pending-esewa", "platform.finances", () =>
+    getPendingEsewaPayouts()
+  ),
+  route("POST /api/admin/search/reindex", "platform.settings", () =>
+    reindexSearch(post("/api/admin/search/reindex"))
+  ),
+  route("POST /api/chat/cleanup-orphaned-files", "stores.all", () =>
+    cleanupOrphanedFiles()
+  ),
+  route(
+    "DELETE /api/chat/messages/[messageId]",
+    "stores.all",
+    () =>
+      deleteMessage(new NextRequest("http://localhost/api/chat/messages/1"), {
+        params: Promise.resolve({ messageId: "message-1" }),
+      }),
+    [[chatMessages, [{ id: "message-1", senderId: "buyer-1" }]]]
+  ),
+];
+
+const storeRoutes: GuardedCall[] = [
+  route(
+    "GET /api/chat/rooms",
+    "chat.respond",
+    () => getRoom(get("/api/chat/rooms?roomId=room-1")),
+    storeChat
+  ),
+  route(
+    "POST /api/chat/messages",
+    "chat.respond",
+    () =>
+      sendMessage(post("/api/chat/messages", { roomId: "room-1", text: "Hi" })),
+    storeChat
+  ),
+  route("POST /api/stripe/connect/account-link", "store.settings", () =>
+    createAccountLink(
+      post("/api/stripe/connect/account-link", { storeId: STAFF_STORE_ID })
+    )
+  ),
+  route("POST /api/stripe/connect/create-account", "store.settings", () =>
+    createConnectAccount(
+      post("/api/stripe/connect/create-account", { storeId: STAFF_STORE_ID })
+    )
+  ),
+];
+
+beforeEach(() => {
+  resetHarness();
+});
+
+describe("platform routes", () => {
+  it.each(platformRoutes)(
+    "$name answers 403 to a role without $permission",
+    async (guarded) => {
+      actAsRoleWithout(guarded.permission, PERMISSION_CATALOG);
+      const response = (await expectRefused(guarded)) as Response;
+      expect(response.status).toBe(403);
+    }
+  );
+});
+
+describe("store routes", () => {
+  it.each(storeRoutes)(
+    "$name answers 403 to staff without $permission",
+    async (guarded) => {
+      actAsStaffWithout(guarded.permission, STORE_PERMISSIONS);
+      const response = (await expectRefused(guarded)) as Response;
+      expect(response.status).toBe(403);
+    }
+  );
+});
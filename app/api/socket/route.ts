@@ -9,6 +9,7 @@ import {
   user,
 } from "@/db/schema";
 import { eq, and } from "drizzle-orm";
+import { hasMemberPermission, hasPermission } from "@/lib/permissions";
 
 // Global Socket.io server instance (reused across requests)
 let io: SocketIOServer | null = null;
@@ -412,6 +413,7 @@ async function verifyRoomAccess(
     room.buyerId === userId ||
     room.sellerId === userId ||
     participant !== undefined ||
+    (await hasMemberPermission(userId, room.storeId, "chat.respond")) ||
     (await checkIsAdmin(userId))
   );
 }
@@ -430,21 +432,17 @@ async function getUserRoleInRoom(
 
   if (room.buyerId === userId) return "customer";
   if (room.sellerId === userId) return "seller";
+  if (await hasMemberPermission(userId, room.storeId, "chat.respond")) {
+    return "seller";
+  }
   if (await checkIsAdmin(userId)) return "admin";
 
   throw new Error("User not authorized in room");
 }
 
+/** Platform admins can moderate every store's chats */
 async function checkIsAdmin(userId: string): Promise<boolean> {
-  const { roles, userRoles } = await import("@/db/schema");
-  const userRole = await db
-    .select()
-    .from(userRoles)
-    .innerJoin(roles, eq(userRoles.roleId, roles.id))
-    .where(eq(userRoles.userId, userId))
-    .limit(1);
-
-  return userRole.some((r) => r.roles.name.toLowerCase() === "admin");
+  return hasPermission({ user: { id: userId } }, "stores.all");
 }
 
 // Next.js API Route handlers
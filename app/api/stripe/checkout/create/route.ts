@@ -8,13 +8,15 @@ import {
   listing,
   listingVariants,
   storeMembers,
-  roles,
-  userRoles,
 } from "@/db/schema";
 import { eq, inArray } from "drizzle-orm";
 import { auth } from "@/lib/auth";
 import { headers } from "next/headers";
+import { getUserRole } from "@/lib/user-role";
 import { generateOrderNumber } from "@/lib/order-number";
+import { priceCheckout, isPricingError } from "@/lib/pricing";
+import { trackCheckoutSession } from "@/lib/checkout-recovery";
+import { recordCheckoutGroupPayment } from "@/lib/checkout-groups";
 
 /**
  * Helper to get store ID for user
@@ -32,18 +34,9 @@ async function getStoreIdForUser(): Promise<{
     return { storeId: null, isAdmin: false, error: "Unauthorized" };
   }
 
-  // Check if user is admin
-  const userRole = await db
-    .select({
-      roleName: roles.name,
-    })
-    .from(userRoles)
-    .innerJoin(roles, eq(userRoles.roleId, roles.id))
-    .where(eq(userRoles.userId, session.user.id))
-    .limit(1);
-
-  const isAdmin =
-    userRole.length > 0 && userRole[0].roleName.toLowerCase() === "admin";
+  // Users who can act on every store may check out any draft
+  const { permissions } = await getUserRole(session.user.id);
+  const isAdmin = permissions.includes("stores.all");
 
   if (isAdmin) {
     return { storeId: null, isAdmin: true };
@@ -63,6 +56,36 @@ async function getStoreIdForUser(): Promise<{
   return { storeId: member[0].storeId, isAdmin: false };
 }
 
+/**
+ * Record a storefront checkout session for abandoned checkout recovery and
+ * on the orders' checkout group. Never fails the checkout itself.
+ */
+async function recordCheckoutSession(
+  stripeSessionId: string,
+  orderIds: string[],
+  email: string | undefined,
+  locale: string | undefined
+) {
+  try {
+    const session = await auth.api.getSession({
+      headers: await headers(),
+    });
+    await trackCheckoutSession({
+      stripeSessionId,
+      orderIds,
+      email,
+      userId: session?.user?.id ?? null,
+      locale,
+    });
+    await recordCheckoutGroupPayment(orderIds, {
+      provider: "stripe",
+      stripeCheckoutSessionId: stripeSessionId,
+    });
+  } catch (error) {
+    console.error("Failed to record checkout session:", error);
+  }
+}
+
 export async function POST(req: NextRequest) {
   try {
     const body = await req.json();
@@ -73,6 +96,7 @@ export async function POST(req: NextRequest) {
       currency,
       items,
       customerEmail,
+      locale,
     } = body;
 
     // If orderId or orderIds is provided, allow guest access (order already created)
@@ -226,7 +250,10 @@ export async function POST(req: NextRequest) {
         // Add shipping, tax, discount from order totals
         const orderSubtotal = parseFloat(order.subtotalAmount || "0");
         const orderShipping = parseFloat(order.shippingAmount || "0");
-        const orderTax = parseFloat(order.taxAmount || "0");
+        // Tax-inclusive orders already carry tax in the item prices
+        const orderTax = order.taxInclusive
+          ? 0
+          : parseFloat(order.taxAmount || "0");
         const orderDiscount = parseFloat(order.discountAmount || "0");
         const orderTotal =
           orderSubtotal + orderShipping + orderTax - orderDiscount;
@@ -330,6 +357,13 @@ export async function POST(req: NextRequest) {
         },
       });
 
+      await recordCheckoutSession(
+        checkoutSession.id,
+        orderIdsArray,
+        customerEmail,
+        locale
+      );
+
       return NextResponse.json({
         url: checkoutSession.url,
         orderId: orderIdsArray[0], // Primary order ID for backward compatibility
@@ -376,7 +410,9 @@ export async function POST(req: NextRequest) {
       };
       finalStoreId = existingOrder[0].storeId!;
       orderShippingAmount = parseFloat(existingOrder[0].shippingAmount || "0");
-      orderTaxAmount = parseFloat(existingOrder[0].taxAmount || "0");
+      orderTaxAmount = existingOrder[0].taxInclusive
+        ? 0
+        : parseFloat(existingOrder[0].taxAmount || "0");
       orderTotalAmount = parseFloat(existingOrder[0].totalAmount || "0");
 
       // Fetch order items (including lineTotal which has discounts applied)
@@ -565,49 +601,33 @@ export async function POST(req: NextRequest) {
           .where(inArray(listingVariants.id, variantIds));
       }
 
-      // Compute totals
-      let subtotal = 0;
-
-      for (const item of items as Array<{
-        listingId: string;
-        variantId?: string | null;
-        quantity: number;
-      }>) {
-        const listingItem = listings.find((l) => l.id === item.listingId);
-        if (!listingItem) {
-          return NextResponse.json(
-            { error: `Listing not found: ${item.listingId}` },
-            { status: 400 }
-          );
-        }
-
-        let unitPrice = parseFloat(listingItem.price);
-        let variant: typeof listingVariants.$inferSelect | null = null;
-
-        if (item.variantId) {
-          variant = variants.find((v) => v.id === item.variantId) || null;
-          if (!variant) {
-            return NextResponse.json(
-              { error: `Variant not found: ${item.variantId}` },
-              { status: 400 }
-            );
-          }
-          unitPrice = parseFloat(variant.price || listingItem.price);
-        }
+      // Compute totals from the catalog (server-authoritative pricing)
+      const priced = await priceCheckout({
+        currency,
+        lineItems: items as Array<{
+          listingId: string;
+          variantId?: string | null;
+          quantity: number;
+        }>,
+      });
+      const subtotal = priced.subtotal;
 
-        const lineTotal = unitPrice * item.quantity;
-        subtotal += lineTotal;
+      for (const line of priced.lines) {
+        const listingItem = listings.find((l) => l.id === line.listingId)!;
+        const variant = line.variantId
+          ? variants.find((v) => v.id === line.variantId) || null
+          : null;
 
         lineItemsData.push({
           listing: listingItem,
           variant,
-          quantity: item.quantity,
-          unitPrice,
+          quantity: line.quantity,
+          unitPrice: line.unitPrice,
         });
       }
 
       total = subtotal; // Add shipping/tax later if needed
-      finalCurrency = currency;
+      finalCurrency = priced.currency;
 
       // Generate unique order number
       const generatedOrderNumber = await generateOrderNumber();
@@ -618,7 +638,7 @@ export async function POST(req: NextRequest) {
         .values({
           orderNumber: generatedOrderNumber,
           storeId: finalStoreId,
-          currency,
+          currency: finalCurrency,
           subtotalAmount: subtotal.toFixed(2),
           totalAmount: total.toFixed(2),
           paymentStatus: "pending",
@@ -644,7 +664,7 @@ export async function POST(req: NextRequest) {
           sku: item.variant?.sku || null,
           quantity: item.quantity,
           unitPrice: item.unitPrice.toFixed(2),
-          currency,
+          currency: finalCurrency,
           lineSubtotal: (item.unitPrice * item.quantity).toFixed(2),
           lineTotal: (item.unitPrice * item.quantity).toFixed(2),
           discountAmount: "0",
@@ -743,12 +763,28 @@ export async function POST(req: NextRequest) {
       },
     });
 
+    // Only storefront checkouts (existing orders) are followed up
+    if (singleOrderId) {
+      await recordCheckoutSession(
+        checkoutSession.id,
+        [singleOrderId],
+        customerEmail,
+        locale
+      );
+    }
+
     return NextResponse.json({
       url: checkoutSession.url,
       orderId: finalOrderId,
       orderNumber: orderRow.orderNumber,
     });
   } catch (error) {
+    if (isPricingError(error)) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: 400 }
+      );
+    }
     console.error("Error creating checkout session:", error);
     return NextResponse.json(
       {
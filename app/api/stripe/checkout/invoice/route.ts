@@ -63,7 +63,6 @@ export async function POST(req: NextRequest) {
     // IMPORTANT: Use the draft.totalAmount which already includes discounts
     // Don't recalculate from line items as that would charge the full price
     const totalAmountCents = Math.round(parseFloat(draft.totalAmount) * 100);
-    const platformFeeCents = Math.round(totalAmountCents * 0.05); // 5% platform fee
 
     // Create a single line item with the total amount (which already includes discount)
     // This ensures the customer pays the discounted price, not the full price
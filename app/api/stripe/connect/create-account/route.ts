@@ -1,10 +1,11 @@
 import { NextRequest, NextResponse } from "next/server";
 import { stripe } from "@/lib/stripe";
 import { db } from "@/db";
-import { store, storeMembers } from "@/db/schema";
-import { eq, and } from "drizzle-orm";
+import { store } from "@/db/schema";
+import { eq } from "drizzle-orm";
 import { auth } from "@/lib/auth";
 import { headers } from "next/headers";
+import { hasPermission } from "@/lib/permissions";
 
 export async function POST(req: NextRequest) {
   try {
@@ -26,19 +27,8 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    // 1) Authorize membership - check if user is a member of this store
-    const member = await db
-      .select()
-      .from(storeMembers)
-      .where(
-        and(
-          eq(storeMembers.storeId, storeId),
-          eq(storeMembers.userId, session.user.id)
-        )
-      )
-      .limit(1);
-
-    if (member.length === 0) {
+    // 1) Authorize membership - members need the store settings permission
+    if (!(await hasPermission(session, "store.settings", { storeId }))) {
       return NextResponse.json({ error: "Forbidden" }, { status: 403 });
     }
 
@@ -0,0 +1,254 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/db";
+import {
+  listing,
+  listingVariants,
+  store,
+  subscriptionPlans,
+  subscriptions,
+} from "@/db/schema";
+import { and, eq } from "drizzle-orm";
+import { auth } from "@/lib/auth";
+import { headers } from "next/headers";
+import { stripe } from "@/lib/stripe";
+import { isPricingError } from "@/lib/pricing";
+import {
+  createSubscriptionOrder,
+  getOrCreateStripeCustomer,
+} from "@/lib/subscriptions";
+
+interface SubscriptionCheckoutRequest {
+  planId: string;
+  variantId?: string | null;
+  quantity: number;
+  shippingName: string;
+  shippingPhone?: string | null;
+  shippingAddressLine1: string;
+  shippingAddressLine2?: string | null;
+  shippingCity: string;
+  shippingRegion?: string | null;
+  shippingPostalCode?: string | null;
+  shippingCountry: string;
+}
+
+/**
+ * Start a subscription: creates it (incomplete) with the order for the first
+ * delivery, and a Stripe Checkout Session that pays that order and saves the
+ * card for renewals. The webhook activates the subscription.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const session = await auth.api.getSession({
+      headers: await headers(),
+    });
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "Please sign in to subscribe" },
+        { status: 401 }
+      );
+    }
+
+    const body: SubscriptionCheckoutRequest = await req.json();
+    const quantity = Math.floor(Number(body.quantity));
+    if (
+      !body.planId ||
+      !Number.isFinite(quantity) ||
+      quantity < 1 ||
+      !body.shippingName?.trim() ||
+      !body.shippingAddressLine1?.trim() ||
+      !body.shippingCity?.trim() ||
+      !body.shippingCountry
+    ) {
+      return NextResponse.json(
+        { error: "Missing required fields" },
+        { status: 400 }
+      );
+    }
+
+    const [row] = await db
+      .select({ plan: subscriptionPlans, listing, store })
+      .from(subscriptionPlans)
+      .innerJoin(listing, eq(subscriptionPlans.listingId, listing.id))
+      .innerJoin(store, eq(subscriptionPlans.storeId, store.id))
+      .where(
+        and(
+          eq(subscriptionPlans.id, body.planId),
+          eq(subscriptionPlans.isActive, true),
+          eq(listing.status, "active")
+        )
+      )
+      .limit(1);
+    if (!row) {
+      return NextResponse.json(
+        { error: "Subscription plan not found" },
+        { status: 404 }
+      );
+    }
+    const { plan } = row;
+
+    if (!row.store.stripeAccountId) {
+      return NextResponse.json(
+        { error: "Store has not connected Stripe account" },
+        { status: 400 }
+      );
+    }
+
+    // A variant plan fixes the variant; otherwise the customer picks one
+    const variantId = plan.variantId ?? body.variantId ?? null;
+    let variantCurrency: string | null = null;
+    if (variantId) {
+      const [variant] = await db
+        .select({ currency: listingVariants.currency })
+        .from(listingVariants)
+        .where(
+          and(
+            eq(listingVariants.id, variantId),
+            eq(listingVariants.listingId, plan.listingId)
+          )
+        )
+        .limit(1);
+      if (!variant) {
+        return NextResponse.json(
+          { error: "Variant not found" },
+          { status: 404 }
+        );
+      }
+      variantCurrency = variant.currency;
+    }
+
+    const { validateCheckoutPermissions } = await import(
+      "@/app/[locale]/actions/checkout-validation"
+    );
+    const permissionCheck = await validateCheckoutPermissions([
+      plan.listingId,
+    ]);
+    if (!permissionCheck.allowed) {
+      return NextResponse.json(
+        {
+          error: permissionCheck.error || "Checkout not allowed",
+          code: "CHECKOUT_NOT_ALLOWED",
+        },
+        { status: 403 }
+      );
+    }
+
+    const { checkShippingAvailability } = await import(
+      "@/app/[locale]/actions/shipping-availability"
+    );
+    const availability = await checkShippingAvailability(
+      plan.listingId,
+      body.shippingCountry,
+      { region: body.shippingRegion, postalCode: body.shippingPostalCode }
+    );
+    if (!availability.available) {
+      return NextResponse.json(
+        {
+          error:
+            availability.message ||
+            "This product cannot be shipped to the selected country",
+        },
+        { status: 400 }
+      );
+    }
+
+    const customerEmail = session.user.email;
+    const stripeCustomerId = await getOrCreateStripeCustomer(
+      session.user.id,
+      customerEmail
+    );
+
+    const [subscription] = await db
+      .insert(subscriptions)
+      .values({
+        planId: plan.id,
+        storeId: plan.storeId,
+        listingId: plan.listingId,
+        variantId,
+        userId: session.user.id,
+        customerEmail,
+        quantity,
+        currency: variantCurrency || row.listing.currency,
+        status: "incomplete",
+        planName: plan.name,
+        interval: plan.interval,
+        intervalCount: plan.intervalCount,
+        discountPercent: plan.discountPercent,
+        minCycles: plan.minCycles,
+        shippingName: body.shippingName.trim(),
+        shippingPhone: body.shippingPhone || null,
+        shippingAddressLine1: body.shippingAddressLine1.trim(),
+        shippingAddressLine2: body.shippingAddressLine2 || null,
+        shippingCity: body.shippingCity.trim(),
+        shippingRegion: body.shippingRegion || null,
+        shippingPostalCode: body.shippingPostalCode || null,
+        shippingCountry: body.shippingCountry,
+        stripeCustomerId,
+        currentCycle: 1, // The first delivery is ordered right away
+      })
+      .returning();
+
+    let order: Awaited<ReturnType<typeof createSubscriptionOrder>>;
+    try {
+      order = await createSubscriptionOrder(subscription, 1);
+    } catch (error) {
+      await db
+        .delete(subscriptions)
+        .where(eq(subscriptions.id, subscription.id));
+      throw error;
+    }
+
+    const metadata = {
+      orderId: order.orderId,
+      storeId: plan.storeId,
+      subscriptionId: subscription.id,
+    };
+
+    // One line for the whole first order so the charge matches its total
+    const checkoutSession = await stripe.checkout.sessions.create({
+      mode: "payment",
+      customer: stripeCustomerId,
+      line_items: [
+        {
+          quantity: 1,
+          price_data: {
+            currency: order.currency.toLowerCase(),
+            unit_amount: Math.round(order.totalAmount * 100),
+            product_data: {
+              name: `${plan.name}: ${row.listing.name}`,
+              description: `${quantity} × ${row.listing.name}, first delivery (incl. shipping and tax)`,
+            },
+          },
+        },
+      ],
+      payment_intent_data: {
+        capture_method: "manual", // Seller captures, as for other orders
+        setup_future_usage: "off_session", // Renewals charge the saved card
+        metadata,
+      },
+      success_url: `${process.env.NEXT_PUBLIC_APP_URL}/checkout/success?session_id={CHECKOUT_SESSION_ID}`,
+      cancel_url: `${process.env.NEXT_PUBLIC_APP_URL}/checkout/cancel?orderId=${order.orderId}`,
+      metadata,
+    });
+
+    return NextResponse.json({
+      url: checkoutSession.url,
+      subscriptionId: subscription.id,
+      orderId: order.orderId,
+      orderNumber: order.orderNumber,
+    });
+  } catch (error) {
+    if (isPricingError(error)) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: 400 }
+      );
+    }
+    console.error("Error starting subscription checkout:", error);
+    const message =
+      error instanceof Error ? error.message : "Failed to start subscription";
+    return NextResponse.json(
+      { error: message },
+      { status: message.includes("Insufficient inventory") ? 400 : 500 }
+    );
+  }
+}
@@ -3,7 +3,7 @@ import { NextResponse } from "next/server";
 /**
  * EasyPost webhook endpoint deprecated.
  * Shipping is now via EasyShip. This route returns 200 for backward compatibility.
- * Configure EasyShip webhooks in EasyShip dashboard when needed for tracking updates.
+ * EasyShip tracking webhooks are handled by /api/webhooks/easyship.
  */
 export async function POST() {
   return NextResponse.json({ received: true });
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  parseEasyshipTracking,
+  verifyEasyshipWebhookSignature,
+  type EasyShipTrackingPayload,
+} from "@/lib/easyship";
+import { applyEasyshipTracking } from "@/lib/shipment-tracking";
+
+/**
+ * EasyShip tracking webhooks (tracking.status.changed,
+ * tracking.checkpoints.created). Payloads carry the tracking object under a
+ * key named after the event, so the first object with an
+ * easyship_shipment_id is used.
+ */
+export async function POST(req: NextRequest) {
+  const signature = req.headers.get("x-easyship-signature");
+  if (!verifyEasyshipWebhookSignature(signature)) {
+    console.error("EasyShip webhook signature verification failed");
+    return NextResponse.json({ error: "Invalid signature" }, { status: 401 });
+  }
+
+  let body: Record<string, unknown>;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid payload" }, { status: 400 });
+  }
+
+  const payload = [body, ...Object.values(body)].find(
+    (value): value is EasyShipTrackingPayload =>
+      !!value && typeof value === "object" && "easyship_shipment_id" in value
+  );
+  const tracking = payload ? parseEasyshipTracking(payload) : null;
+
+  if (!tracking) {
+    // Not a tracking event; acknowledge so EasyShip doesn't retry
+    return NextResponse.json({ received: true });
+  }
+
+  try {
+    await applyEasyshipTracking(tracking);
+    return NextResponse.json({ received: true });
+  } catch (error) {
+    console.error("EasyShip webhook processing error:", error);
+    return NextResponse.json(
+      { error: "Webhook processing failed" },
+      { status: 500 }
+    );
+  }
+}
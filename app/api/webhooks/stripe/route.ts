@@ -6,226 +6,26 @@ import {
   orders,
   orderEvents,
   orderPayments,
-  orderItems,
-  listing,
-  store,
+  orderRefunds,
 } from "@/db/schema";
-import { eq, inArray } from "drizzle-orm";
+import { and, eq, or } from "drizzle-orm";
 import { headers } from "next/headers";
 import { completeDraftOrderFromWebhook } from "@/app/[locale]/actions/draft-orders";
 import Stripe from "stripe";
-
-/**
- * Helper function to send order confirmation email
- */
-async function sendOrderConfirmationEmail(
-  primaryOrderId: string,
-  sessionId: string,
-  allOrderIds?: string[]
-): Promise<void> {
-  try {
-    const resend = (await import("@/lib/resend")).default;
-    const OrderConfirmationEmail = (
-      await import("@/app/[locale]/components/order-confirmation-email")
-    ).default;
-
-    // Fetch primary order data
-    const primaryOrder = await db
-      .select()
-      .from(orders)
-      .where(eq(orders.id, primaryOrderId))
-      .limit(1);
-
-    if (primaryOrder.length === 0) {
-      console.error(`Order not found: ${primaryOrderId}`);
-      return;
-    }
-
-    const order = primaryOrder[0];
-
-    // If multi-store, fetch all order items from all orders
-    const orderIdsToFetch = allOrderIds || [primaryOrderId];
-    const allItems = await db
-      .select({
-        id: orderItems.id,
-        orderId: orderItems.orderId, // Include orderId for each item
-        listingId: orderItems.listingId,
-        title: orderItems.title,
-        quantity: orderItems.quantity,
-        unitPrice: orderItems.unitPrice,
-        lineTotal: orderItems.lineTotal,
-        sku: orderItems.sku,
-      })
-      .from(orderItems)
-      .where(inArray(orderItems.orderId, orderIdsToFetch));
-
-    // Get listing and store info for review links
-    const listingIds = allItems
-      .map((item) => item.listingId)
-      .filter((id): id is string => !!id);
-
-    const listingMap = new Map<
-      string,
-      { slug: string | null; storeId: string | null }
-    >();
-    const storeMap = new Map<string, { slug: string | null }>();
-
-    if (listingIds.length > 0) {
-      const listings = await db
-        .select({
-          id: listing.id,
-          slug: listing.slug,
-          storeId: listing.storeId,
-        })
-        .from(listing)
-        .where(inArray(listing.id, listingIds));
-
-      for (const l of listings) {
-        listingMap.set(l.id, { slug: l.slug, storeId: l.storeId });
-      }
-
-      const storeIds = Array.from(
-        new Set(
-          Array.from(listingMap.values())
-            .map((l) => l.storeId)
-            .filter((id): id is string => !!id)
-        )
-      );
-
-      if (storeIds.length > 0) {
-        const stores = await db
-          .select({
-            id: store.id,
-            slug: store.slug,
-          })
-          .from(store)
-          .where(inArray(store.id, storeIds));
-
-        for (const s of stores) {
-          storeMap.set(s.id, { slug: s.slug });
-        }
-      }
-    }
-
-    const customerName =
-      order.customerFirstName && order.customerLastName
-        ? `${order.customerFirstName} ${order.customerLastName}`
-        : order.customerEmail || "Customer";
-
-    const orderUrl = `${process.env.NEXT_PUBLIC_APP_URL}/dashboard/orders/${primaryOrderId}`;
-
-    if (!order.customerEmail) {
-      console.error("Customer email is required to send confirmation email");
-      return;
-    }
-
-    // Calculate totals from all items if multi-store
-    const subtotal = allOrderIds
-      ? allItems
-          .reduce((sum, item) => sum + parseFloat(item.lineTotal || "0"), 0)
-          .toFixed(2)
-      : order.subtotalAmount;
-
-    // For multi-store, fetch all orders to sum up shipping, discount, and tax
-    let totalShipping = "0";
-    let totalDiscount = "0";
-    let totalTax = "0";
-
-    if (allOrderIds && allOrderIds.length > 1) {
-      const allOrders = await db
-        .select({
-          shippingAmount: orders.shippingAmount,
-          discountAmount: orders.discountAmount,
-          taxAmount: orders.taxAmount,
-        })
-        .from(orders)
-        .where(inArray(orders.id, allOrderIds));
-
-      totalShipping = allOrders
-        .reduce((sum, o) => sum + parseFloat(o.shippingAmount || "0"), 0)
-        .toFixed(2);
-      totalDiscount = allOrders
-        .reduce((sum, o) => sum + parseFloat(o.discountAmount || "0"), 0)
-        .toFixed(2);
-      totalTax = allOrders
-        .reduce((sum, o) => sum + parseFloat(o.taxAmount || "0"), 0)
-        .toFixed(2);
-    } else {
-      totalShipping = order.shippingAmount || "0";
-      totalDiscount = order.discountAmount || "0";
-      totalTax = order.taxAmount || "0";
-    }
-
-    // Calculate total: subtotal - discount + shipping + tax
-    const total = (
-      parseFloat(subtotal) -
-      parseFloat(totalDiscount) +
-      parseFloat(totalShipping) +
-      parseFloat(totalTax)
-    ).toFixed(2);
-
-    await resend.emails.send({
-      from: "Golden Market <goldenmarket@resend.dev>",
-      to: order.customerEmail,
-      subject: `Order Confirmation #${order.orderNumber}`,
-      react: OrderConfirmationEmail({
-        orderNumber: order.orderNumber,
-        orderId: primaryOrderId,
-        customerName,
-        customerEmail: order.customerEmail,
-        items: allItems.map((item) => {
-          const listingInfo = item.listingId
-            ? listingMap.get(item.listingId)
-            : null;
-          const storeInfo = listingInfo?.storeId
-            ? storeMap.get(listingInfo.storeId)
-            : null;
-          return {
-            title: item.title,
-            quantity: item.quantity,
-            unitPrice: item.unitPrice,
-            lineTotal: item.lineTotal || "0",
-            sku: item.sku || null,
-            listingId: item.listingId || null,
-            listingSlug: listingInfo?.slug || null,
-            storeId: listingInfo?.storeId || null,
-            storeSlug: storeInfo?.slug || null,
-            orderId: item.orderId || null, // Include the orderId for this specific item
-          };
-        }),
-        subtotal: subtotal,
-        discount: totalDiscount,
-        shipping: totalShipping,
-        tax: totalTax,
-        total: total,
-        currency: order.currency,
-        paymentStatus: order.paymentStatus === "paid" ? "paid" : "pending",
-        orderStatus:
-          order.status === "completed"
-            ? "fulfilled"
-            : (order.status as "open" | "fulfilled" | "cancelled"),
-        shippingAddress:
-          order.shippingAddressLine1 ||
-          order.shippingCity ||
-          order.shippingCountry
-            ? {
-                name: order.shippingName || null,
-                line1: order.shippingAddressLine1 || null,
-                line2: order.shippingAddressLine2 || null,
-                city: order.shippingCity || null,
-                region: order.shippingRegion || null,
-                postalCode: order.shippingPostalCode || null,
-                country: order.shippingCountry || null,
-              }
-            : null,
-        orderUrl,
-      }),
-    });
-  } catch (error) {
-    console.error("Error sending order confirmation email:", error);
-    throw error;
-  }
-}
+import { markCheckoutSessionCompleted } from "@/lib/checkout-recovery";
+import { syncStripeDispute } from "@/lib/disputes";
+import {
+  recordCheckoutGroupPayment,
+  sendOrderConfirmationEmail,
+} from "@/lib/checkout-groups";
+import {
+  calculateOrderPlatformFee,
+  describePlatformFee,
+} from "@/lib/platform-fees";
+import {
+  activateSubscription,
+  saveSubscriptionPaymentMethod,
+} from "@/lib/subscriptions";
 
 export async function POST(req: NextRequest) {
   console.log("=== WEBHOOK RECEIVED ===");
@@ -265,6 +65,19 @@ export async function POST(req: NextRequest) {
 
       const metadata = fullSession.metadata || {};
 
+      try {
+        await markCheckoutSessionCompleted(fullSession.id);
+      } catch (error) {
+        console.error("Failed to close abandoned checkout:", error);
+      }
+
+      // Subscription card updates collect no payment
+      if (fullSession.mode === "setup") {
+        await saveSubscriptionPaymentMethod(fullSession);
+        console.log("✅ Subscription payment method updated");
+        return NextResponse.json({ received: true });
+      }
+
       console.log("📋 Session metadata:", JSON.stringify(metadata, null, 2));
       console.log("📋 Session ID:", fullSession.id);
       console.log("📋 Payment Intent (raw):", fullSession.payment_intent);
@@ -380,12 +193,10 @@ export async function POST(req: NextRequest) {
 
         for (const [storeId, storeInfo] of Object.entries(storeBreakdown)) {
           const storeAmount = storeInfo.amount / 100; // Convert cents to currency
-          const platformFee = storeAmount * 0.05; // 5% platform fee
           const storeStripeFee = (stripeFee * storeAmount) / totalAmount; // Proportional Stripe fee
 
           console.log(`💰 Processing payment for store ${storeId}:`, {
             storeAmount: storeAmount.toFixed(2),
-            platformFee: platformFee.toFixed(2),
             stripeFee: storeStripeFee.toFixed(2),
           });
 
@@ -412,7 +223,8 @@ export async function POST(req: NextRequest) {
 
               const order = orderData[0];
               const orderAmount = parseFloat(order.totalAmount || "0");
-              const orderPlatformFee = orderAmount * 0.05;
+              const { fee: orderPlatformFee, snapshot: platformFeeRule } =
+                await calculateOrderPlatformFee(orderId, orderAmount);
               const orderStripeFee = (stripeFee * orderAmount) / totalAmount;
 
               // Store charge ID for transfer when hold ends (separate charges + transfers)
@@ -431,6 +243,7 @@ export async function POST(req: NextRequest) {
                   provider: "stripe",
                   providerPaymentId: paymentIntentId,
                   platformFeeAmount: orderPlatformFee.toFixed(2),
+                  platformFeeRule,
                   netAmountToStore: (
                     orderAmount -
                     orderPlatformFee -
@@ -473,7 +286,7 @@ export async function POST(req: NextRequest) {
                   currency: order.currency,
                   orderId: orderId,
                   orderPaymentId: paymentRecord.id,
-                  description: `Platform fee (5%) for order`,
+                  description: `Platform fee (${describePlatformFee(platformFeeRule, order.currency)}) for order`,
                 });
 
                 // 3. Stripe fee (DEBIT)
@@ -550,6 +363,14 @@ export async function POST(req: NextRequest) {
           "✅ Multi-store payments processed (ledger entries created)"
         );
 
+        // One Stripe payment covers every store order of the checkout group
+        await recordCheckoutGroupPayment(orderIdsArray, {
+          provider: "stripe",
+          stripeCheckoutSessionId: session.id,
+          stripePaymentIntentId: paymentIntentId,
+          paid: paymentIntent.status === "succeeded",
+        });
+
         // Generate invoices for all orders in background (don't await to avoid blocking)
         if (orderIdsArray.length > 0) {
           for (const orderId of orderIdsArray) {
@@ -595,11 +416,7 @@ export async function POST(req: NextRequest) {
           const allOrderIds = orderIdsArray;
           if (allOrderIds.length > 0) {
             // Send email for the first order (primary order) which will include all items
-            await sendOrderConfirmationEmail(
-              allOrderIds[0],
-              session.id,
-              allOrderIds
-            );
+            await sendOrderConfirmationEmail(allOrderIds);
             console.log("✅ Confirmation email sent for multi-store checkout");
           }
         } catch (emailError) {
@@ -613,18 +430,9 @@ export async function POST(req: NextRequest) {
       // Single order flow (ledger system)
       // Calculate amounts - payment amount already includes discount
       const totalAmount = paymentIntent.amount / 100; // Already includes discount
-      const platformFee = totalAmount * 0.05; // 5% platform fee
       const stripeFeeRate = 0.029;
       const stripeFeeFixed = 0.3;
       const stripeFee = totalAmount * stripeFeeRate + stripeFeeFixed;
-      const netAmountToStore = totalAmount - platformFee - stripeFee;
-
-      console.log("💰 Payment amounts:", {
-        totalAmount: totalAmount.toFixed(2),
-        platformFee: platformFee.toFixed(2),
-        stripeFee: stripeFee.toFixed(2),
-        netAmountToStore: netAmountToStore.toFixed(2),
-      });
 
       let finalOrderId: string;
       let currency: string;
@@ -821,6 +629,18 @@ export async function POST(req: NextRequest) {
 
       const orderStoreId = orderStoreData[0].storeId;
 
+      // Platform fee per the fee schedule (order lines are known only now)
+      const { fee: platformFee, snapshot: platformFeeRule } =
+        await calculateOrderPlatformFee(finalOrderId, totalAmount);
+      const netAmountToStore = totalAmount - platformFee - stripeFee;
+
+      console.log("💰 Payment amounts:", {
+        totalAmount: totalAmount.toFixed(2),
+        platformFee: platformFee.toFixed(2),
+        stripeFee: stripeFee.toFixed(2),
+        netAmountToStore: netAmountToStore.toFixed(2),
+      });
+
       // Store charge ID for transfer when hold ends (separate charges + transfers)
       const chargeId =
         typeof paymentIntent.latest_charge === "string"
@@ -838,6 +658,7 @@ export async function POST(req: NextRequest) {
           provider: "stripe",
           providerPaymentId: paymentIntentId,
           platformFeeAmount: platformFee.toFixed(2),
+          platformFeeRule,
           netAmountToStore: netAmountToStore.toFixed(2),
           stripePaymentIntentId: paymentIntentId,
           stripeCheckoutSessionId: session.id,
@@ -881,7 +702,7 @@ export async function POST(req: NextRequest) {
           currency: currency,
           orderId: finalOrderId,
           orderPaymentId: paymentRecord.id,
-          description: `Platform fee (5%) for order`,
+          description: `Platform fee (${describePlatformFee(platformFeeRule, currency)}) for order`,
         });
 
         // 3. Stripe fee (DEBIT)
@@ -921,9 +742,24 @@ export async function POST(req: NextRequest) {
       });
       console.log("✅ Order event created");
 
+      await recordCheckoutGroupPayment([finalOrderId], {
+        provider: "stripe",
+        stripeCheckoutSessionId: session.id,
+        stripePaymentIntentId: paymentIntentId,
+        paid: isPaymentCaptured,
+      });
+
+      // First delivery of a subscription: keep the card for renewals
+      const subscriptionId =
+        paymentIntent.metadata?.subscriptionId || metadata.subscriptionId;
+      if (subscriptionId) {
+        await activateSubscription(subscriptionId, paymentIntent);
+        console.log("✅ Subscription activated:", subscriptionId);
+      }
+
       // Send confirmation email
       try {
-        await sendOrderConfirmationEmail(finalOrderId, session.id);
+        await sendOrderConfirmationEmail([finalOrderId]);
         console.log("✅ Confirmation email sent");
       } catch (emailError) {
         console.error("❌ Failed to send confirmation email:", emailError);
@@ -952,24 +788,18 @@ export async function POST(req: NextRequest) {
 
     try {
       // For thin payloads, we might need to retrieve the full refund
-      // Find the payment intent associated with this refund
-      let paymentIntentId: string | null = null;
-
-      if (refund.payment_intent) {
-        paymentIntentId =
-          typeof refund.payment_intent === "string"
-            ? refund.payment_intent
-            : refund.payment_intent.id;
-      } else {
+      let stripeRefund = refund;
+      if (!refund.payment_intent) {
         // Thin payload might not include payment_intent, retrieve full refund
         console.log("📋 Thin payload detected, retrieving full refund object");
-        const fullRefund = await stripe.refunds.retrieve(refund.id);
-        paymentIntentId =
-          typeof fullRefund.payment_intent === "string"
-            ? fullRefund.payment_intent
-            : fullRefund.payment_intent?.id || null;
+        stripeRefund = await stripe.refunds.retrieve(refund.id);
       }
 
+      const paymentIntentId =
+        typeof stripeRefund.payment_intent === "string"
+          ? stripeRefund.payment_intent
+          : stripeRefund.payment_intent?.id || null;
+
       if (!paymentIntentId) {
         console.error("❌ No payment intent found in refund");
         return NextResponse.json(
@@ -978,14 +808,14 @@ export async function POST(req: NextRequest) {
         );
       }
 
-      // Find the order payment record
-      const paymentRecord = await db
+      // Find the order payment records (several when a checkout group shares
+      // one payment intent across store orders)
+      const paymentRecords = await db
         .select()
         .from(orderPayments)
-        .where(eq(orderPayments.stripePaymentIntentId, paymentIntentId))
-        .limit(1);
+        .where(eq(orderPayments.stripePaymentIntentId, paymentIntentId));
 
-      if (paymentRecord.length === 0) {
+      if (paymentRecords.length === 0) {
         console.error("❌ Payment record not found for refund");
         return NextResponse.json(
           { error: "Payment record not found" },
@@ -993,20 +823,88 @@ export async function POST(req: NextRequest) {
         );
       }
 
-      const payment = paymentRecord[0];
+      // Refunds issued through processRefund are linked to their refund record,
+      // which says which store order the money came back from
+      const refundRecordId = stripeRefund.metadata?.refundId;
+      const [refundRecord] = await db
+        .select()
+        .from(orderRefunds)
+        .where(
+          refundRecordId
+            ? or(
+                eq(orderRefunds.stripeRefundId, stripeRefund.id),
+                eq(orderRefunds.id, refundRecordId)
+              )
+            : eq(orderRefunds.stripeRefundId, stripeRefund.id)
+        )
+        .limit(1);
+
+      if (!refundRecord && refundRecordId) {
+        // The refund transaction hasn't committed yet - let Stripe retry
+        return NextResponse.json(
+          { error: "Refund record not found" },
+          { status: 404 }
+        );
+      }
+
+      if (refundRecord) {
+        await db
+          .update(orderRefunds)
+          .set({
+            stripeRefundId: stripeRefund.id,
+            status:
+              stripeRefund.status === "succeeded"
+                ? "succeeded"
+                : stripeRefund.status === "failed" ||
+                    stripeRefund.status === "canceled"
+                  ? "failed"
+                  : "pending",
+          })
+          .where(eq(orderRefunds.id, refundRecord.id));
+      }
 
-      // Get all succeeded refunds for this payment intent
-      const refunds = await stripe.refunds.list({
-        payment_intent: paymentIntentId,
-      });
+      const payment = refundRecord
+        ? paymentRecords.find((p) => p.id === refundRecord.orderPaymentId)
+        : paymentRecords.length === 1
+          ? paymentRecords[0]
+          : undefined;
+
+      if (!payment) {
+        // A refund made outside the dashboard on a shared payment intent
+        // can't be attributed to one store order
+        console.error(
+          `❌ Refund ${stripeRefund.id} on shared payment intent ${paymentIntentId} has no refund record`
+        );
+        return NextResponse.json({ received: true });
+      }
 
-      const succeededRefunds = refunds.data.filter(
-        (r) => r.status === "succeeded"
-      );
-      const totalRefundedAmount = succeededRefunds.reduce(
-        (sum, r) => sum + r.amount,
-        0
-      );
+      let totalRefundedAmount: number;
+      if (paymentRecords.length === 1) {
+        // Get all succeeded refunds for this payment intent
+        const refunds = await stripe.refunds.list({
+          payment_intent: paymentIntentId,
+        });
+
+        totalRefundedAmount = refunds.data
+          .filter((r) => r.status === "succeeded")
+          .reduce((sum, r) => sum + r.amount, 0);
+      } else {
+        // Only this order's share of the payment intent counts
+        const paymentRefunds = await db
+          .select({ amount: orderRefunds.amount })
+          .from(orderRefunds)
+          .where(
+            and(
+              eq(orderRefunds.orderPaymentId, payment.id),
+              eq(orderRefunds.status, "succeeded")
+            )
+          );
+
+        totalRefundedAmount = Math.round(
+          paymentRefunds.reduce((sum, r) => sum + parseFloat(r.amount), 0) *
+            100
+        );
+      }
 
       const refundedAmount = totalRefundedAmount / 100; // Convert from cents to currency
       const previousRefundedAmount = parseFloat(payment.refundedAmount || "0");
@@ -1088,13 +986,17 @@ export async function POST(req: NextRequest) {
 
     try {
       // Find orders associated with this payment intent
-      const paymentRecords = await db
-        .select({
-          orderId: orderPayments.orderId,
-          id: orderPayments.id,
-        })
-        .from(orderPayments)
-        .where(eq(orderPayments.stripePaymentIntentId, paymentIntent.id));
+      // Payments voided by a cancellation were left out of the capture
+      const paymentRecords = (
+        await db
+          .select({
+            orderId: orderPayments.orderId,
+            id: orderPayments.id,
+            status: orderPayments.status,
+          })
+          .from(orderPayments)
+          .where(eq(orderPayments.stripePaymentIntentId, paymentIntent.id))
+      ).filter((p) => p.status !== "void");
 
       if (paymentRecords.length === 0) {
         console.log(
@@ -1165,6 +1067,15 @@ export async function POST(req: NextRequest) {
         );
       }
 
+      await recordCheckoutGroupPayment(
+        paymentRecords.map((p) => p.orderId),
+        {
+          provider: "stripe",
+          stripePaymentIntentId: paymentIntent.id,
+          paid: true,
+        }
+      );
+
       return NextResponse.json({ received: true });
     } catch (error) {
       console.error("❌ Error processing payment_intent.succeeded:", error);
@@ -1186,17 +1097,16 @@ export async function POST(req: NextRequest) {
     const paymentIntent = event.data.object as Stripe.PaymentIntent;
 
     try {
-      // Find the order payment record
-      const paymentRecord = await db
+      // Find the order payment records (one per store order in a checkout group)
+      const paymentRecords = await db
         .select({
           id: orderPayments.id,
           orderId: orderPayments.orderId,
         })
         .from(orderPayments)
-        .where(eq(orderPayments.stripePaymentIntentId, paymentIntent.id))
-        .limit(1);
+        .where(eq(orderPayments.stripePaymentIntentId, paymentIntent.id));
 
-      if (paymentRecord.length === 0) {
+      if (paymentRecords.length === 0) {
         console.error("❌ Payment record not found for canceled payment intent");
         return NextResponse.json(
           { error: "Payment record not found" },
@@ -1204,25 +1114,25 @@ export async function POST(req: NextRequest) {
         );
       }
 
-      const payment = paymentRecord[0];
-
-      // Update payment status to "void"
-      await db
-        .update(orderPayments)
-        .set({
-          status: "void",
-          updatedAt: new Date(),
-        })
-        .where(eq(orderPayments.id, payment.id));
+      for (const payment of paymentRecords) {
+        // Update payment status to "void"
+        await db
+          .update(orderPayments)
+          .set({
+            status: "void",
+            updatedAt: new Date(),
+          })
+          .where(eq(orderPayments.id, payment.id));
 
-      // Update order payment status to "void"
-      await db
-        .update(orders)
-        .set({
-          paymentStatus: "void",
-          updatedAt: new Date(),
-        })
-        .where(eq(orders.id, payment.orderId));
+        // Update order payment status to "void"
+        await db
+          .update(orders)
+          .set({
+            paymentStatus: "void",
+            updatedAt: new Date(),
+          })
+          .where(eq(orders.id, payment.orderId));
+      }
 
       console.log("✅ Payment voided successfully");
       return NextResponse.json({ received: true });
@@ -1240,6 +1150,42 @@ export async function POST(req: NextRequest) {
     }
   }
 
+  // Handle charge.dispute.* events (chargebacks)
+  if (
+    event.type === "charge.dispute.created" ||
+    event.type === "charge.dispute.updated" ||
+    event.type === "charge.dispute.closed" ||
+    event.type === "charge.dispute.funds_withdrawn" ||
+    event.type === "charge.dispute.funds_reinstated"
+  ) {
+    console.log(`⚖️ Processing ${event.type} event`);
+    const dispute = event.data.object as Stripe.Dispute;
+
+    try {
+      const result = await syncStripeDispute(dispute);
+      if (!result.handled) {
+        console.warn("⚠️ No order payment found for dispute:", dispute.id);
+        return NextResponse.json({ received: true });
+      }
+
+      console.log("✅ Dispute synced:", {
+        disputeId: dispute.id,
+        status: dispute.status,
+        orderIds: result.orderIds,
+      });
+      return NextResponse.json({ received: true });
+    } catch (error) {
+      console.error(`❌ Error processing ${event.type}:`, error);
+      return NextResponse.json(
+        {
+          error:
+            error instanceof Error ? error.message : "Failed to process dispute",
+        },
+        { status: 500 }
+      );
+    }
+  }
+
   // Handle other event types
   console.log(`⚠️ Unhandled event type: ${event.type}`);
   return NextResponse.json({ received: true });
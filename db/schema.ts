@@ -91,6 +91,7 @@ export const transferStatusEnum = pgEnum("transfer_status", [
   "held",
   "transferred",
   "pending_payout",
+  "frozen", // Payment disputed; not transferred until the dispute is won
 ]);
 
 // Shopify-style status enum: active | draft | archived
@@ -135,6 +136,7 @@ export const orderStatusEnum = pgEnum("order_status", [
 export const storeMemberRoleEnum = pgEnum("store_member_role", [
   "admin",
   "seller",
+  "staff", // Invited team member, limited to their permissions
 ]);
 
 export const storeVisibilityEnum = pgEnum("store_visibility", [
@@ -460,6 +462,7 @@ export const markets = pgTable("markets", {
     .notNull()
     .default("1"), // Relative to base currency (EUR)
   roundingRule: text("rounding_rule").default("none"), // "none" | "0.99" | "nearest_0.05"
+  pricesIncludeTax: boolean("prices_include_tax").default(false).notNull(), // true = catalog prices are tax-inclusive (EU VAT style)
   status: marketStatusEnum("status").default("active").notNull(),
   isDefault: boolean("is_default").default(false).notNull(),
   // @ts-expect-error - Circular reference with user table (resolved at runtime by Drizzle)
@@ -473,6 +476,80 @@ export const markets = pgTable("markets", {
     .notNull(),
 });
 
+// ===================================
+// TAX RULES
+// ===================================
+// Admin-managed tax rates. The most specific active rule wins:
+// category override > region > country, then market-scoped > any market, then priority.
+export const taxRules = pgTable(
+  "tax_rules",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    name: text("name").notNull(), // "Finland VAT", "Nepal VAT", "California sales tax"
+    marketId: uuid("market_id").references(() => markets.id, {
+      onDelete: "cascade",
+    }), // Optional - only applies to orders in this market
+    countryCode: text("country_code").notNull(), // ISO 3166-1 alpha-2, e.g. "FI"
+    regionCode: text("region_code"), // State/province, e.g. "CA" (null = whole country)
+    taxonomyCategoryId: text("taxonomy_category_id"), // Category override incl. subcategories (null = all products)
+    rate: numeric("rate", { precision: 6, scale: 3 }).notNull(), // Percentage, e.g. "25.500"
+    appliesToShipping: boolean("applies_to_shipping").default(false).notNull(),
+    priority: integer("priority").default(0).notNull(), // Tie-breaker, higher wins
+    isActive: boolean("is_active").default(true).notNull(),
+    createdBy: text("created_by").references(() => user.id, {
+      onDelete: "set null",
+    }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at")
+      .defaultNow()
+      .$onUpdate(() => new Date())
+      .notNull(),
+  },
+  (t) => [index("tax_rules_country_region_idx").on(t.countryCode, t.regionCode)]
+);
+
+// ===================================
+// PLATFORM FEE RULES
+// ===================================
+// Admin-managed platform commission (see lib/platform-fees.ts). The most
+// specific active rule wins: store > category > market > currency, then
+// priority. A rule with no scope is the default rate.
+export const platformFeeRules = pgTable(
+  "platform_fee_rules",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    name: text("name").notNull(), // "Default", "Cooperative rate", "New producer promo"
+    storeId: uuid("store_id").references(() => store.id, {
+      onDelete: "cascade",
+    }), // Negotiated per-store rate (null = all stores)
+    taxonomyCategoryId: text("taxonomy_category_id"), // Category incl. subcategories (null = all products)
+    marketId: uuid("market_id").references(() => markets.id, {
+      onDelete: "cascade",
+    }), // Only orders in this market (null = any market)
+    currency: text("currency"), // Only orders in this currency; required for fixed fee / cap
+    ratePercent: numeric("rate_percent", { precision: 6, scale: 3 }).notNull(), // e.g. "5.000"
+    fixedFee: numeric("fixed_fee", { precision: 10, scale: 2 })
+      .default("0")
+      .notNull(), // Per order, in the rule currency
+    maxFee: numeric("max_fee", { precision: 10, scale: 2 }), // Cap per order (null = uncapped)
+    maxStoreAgeDays: integer("max_store_age_days"), // Only stores created within N days (new producer promos)
+    startsAt: timestamp("starts_at"),
+    endsAt: timestamp("ends_at"), // Exclusive
+    priority: integer("priority").default(0).notNull(), // Tie-breaker, higher wins
+    isActive: boolean("is_active").default(true).notNull(),
+    notes: text("notes"), // Internal, e.g. agreement reference
+    createdBy: text("created_by").references(() => user.id, {
+      onDelete: "set null",
+    }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at")
+      .defaultNow()
+      .$onUpdate(() => new Date())
+      .notNull(),
+  },
+  (t) => [index("platform_fee_rules_store_idx").on(t.storeId)]
+);
+
 // ===================================
 // STORE (formerly vendor)
 // ===================================
@@ -513,6 +590,10 @@ export const store = pgTable(
     approvedBy: text("approved_by").references(() => user.id, {
       onDelete: "set null",
     }),
+    // Post-purchase review request emails (review-requests cron)
+    reviewRequestsEnabled: boolean("review_requests_enabled")
+      .default(true)
+      .notNull(),
     createdAt: timestamp("created_at").defaultNow().notNull(),
     updatedAt: timestamp("updated_at")
       .defaultNow()
@@ -540,9 +621,41 @@ export const storeMembers = pgTable("store_members", {
     .notNull()
     .references(() => user.id, { onDelete: "cascade" }),
   role: storeMemberRoleEnum("role").notNull(),
+  // Staff only: the store permissions they were given. Owners ("seller",
+  // "admin") get the permissions of their roles.
+  permissions: text("permissions").array(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// ===================================
+// STORE INVITATIONS (staff joining a store)
+// ===================================
+export const storeInvitations = pgTable(
+  "store_invitations",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    storeId: uuid("store_id")
+      .notNull()
+      .references(() => store.id, { onDelete: "cascade" }),
+    email: text("email").notNull(), // Lowercased; must match the accepting account
+    permissions: text("permissions").array().notNull(),
+    token: text("token").notNull().unique(),
+    invitedBy: text("invited_by").references(() => user.id, {
+      onDelete: "set null",
+    }),
+    expiresAt: timestamp("expires_at").notNull(),
+    acceptedAt: timestamp("accepted_at"),
+    acceptedBy: text("accepted_by").references(() => user.id, {
+      onDelete: "set null",
+    }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (t) => [
+    index("store_invitations_store_idx").on(t.storeId),
+    index("store_invitations_email_idx").on(t.email),
+  ]
+);
+
 // ===================================
 // STORE SLUG HISTORY (SEO-safe redirects)
 // ===================================
@@ -610,6 +723,7 @@ export const storePolicies = pgTable("store_policies", {
     .references(() => store.id, { onDelete: "cascade" }),
   shipping: text("shipping"),
   returns: text("returns"),
+  returnWindowDays: integer("return_window_days"), // Days after fulfillment a return can be requested; null = no returns
   cancellations: text("cancellations"),
   customOrders: text("custom_orders"),
   privacy: text("privacy"),
@@ -641,6 +755,21 @@ export const storeFollow = pgTable(
   ]
 );
 
+// Hidden reviews stay in the database but are left out of listings and
+// rating aggregates
+export const reviewStatusEnum = pgEnum("review_status", [
+  "published",
+  "hidden", // By a moderator
+]);
+
+export const reviewTypeEnum = pgEnum("review_type", ["product", "store"]);
+
+export const reviewReportStatusEnum = pgEnum("review_report_status", [
+  "open",
+  "resolved", // The review was hidden
+  "dismissed", // The review was kept
+]);
+
 // ===================================
 // PRODUCT REVIEWS
 // ===================================
@@ -661,10 +790,24 @@ export const productReview = pgTable(
     rating: integer("rating").notNull(), // 1-5
     title: text("title"),
     comment: text("comment").notNull(), // Required comment
+    images: text("images").array(), // Cloudinary URLs of the buyer's photos
     orderId: uuid("order_id")
       .notNull()
       .references(() => orders.id, { onDelete: "cascade" }), // Required for verification
     verified: boolean("verified").default(true).notNull(), // All reviews are verified purchases
+    status: reviewStatusEnum("status").default("published").notNull(),
+    hiddenReason: text("hidden_reason"),
+    hiddenAt: timestamp("hidden_at"),
+    hiddenBy: text("hidden_by").references(() => user.id, {
+      onDelete: "set null",
+    }),
+    helpfulCount: integer("helpful_count").default(0).notNull(),
+    // One public reply from the store
+    sellerReply: text("seller_reply"),
+    sellerReplyAt: timestamp("seller_reply_at"),
+    sellerReplyBy: text("seller_reply_by").references(() => user.id, {
+      onDelete: "set null",
+    }),
     createdAt: timestamp("created_at").defaultNow().notNull(),
     updatedAt: timestamp("updated_at")
       .defaultNow()
@@ -698,10 +841,24 @@ export const storeReview = pgTable(
     rating: integer("rating").notNull(), // 1-5
     title: text("title"),
     body: text("body").notNull(), // Required comment
+    images: text("images").array(), // Cloudinary URLs of the buyer's photos
     orderId: uuid("order_id")
       .notNull()
       .references(() => orders.id, { onDelete: "cascade" }), // Required for verification
     verified: boolean("verified").default(true).notNull(), // All reviews are verified purchases
+    status: reviewStatusEnum("status").default("published").notNull(),
+    hiddenReason: text("hidden_reason"),
+    hiddenAt: timestamp("hidden_at"),
+    hiddenBy: text("hidden_by").references(() => user.id, {
+      onDelete: "set null",
+    }),
+    helpfulCount: integer("helpful_count").default(0).notNull(),
+    // One public reply from the store
+    sellerReply: text("seller_reply"),
+    sellerReplyAt: timestamp("seller_reply_at"),
+    sellerReplyBy: text("seller_reply_by").references(() => user.id, {
+      onDelete: "set null",
+    }),
     createdAt: timestamp("created_at").defaultNow().notNull(),
     updatedAt: timestamp("updated_at")
       .defaultNow()
@@ -717,6 +874,153 @@ export const storeReview = pgTable(
   ]
 );
 
+// ===================================
+// REVIEW VOTES ("helpful") AND REPORTS
+// ===================================
+// reviewId points at product_review or store_review depending on reviewType
+export const reviewVotes = pgTable(
+  "review_votes",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    reviewType: reviewTypeEnum("review_type").notNull(),
+    reviewId: uuid("review_id").notNull(),
+    userId: text("user_id")
+      .notNull()
+      .references(() => user.id, { onDelete: "cascade" }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (t) => [
+    unique("review_votes_review_user_unique").on(
+      t.reviewType,
+      t.reviewId,
+      t.userId
+    ),
+  ]
+);
+
+export const reviewReports = pgTable(
+  "review_reports",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    reviewType: reviewTypeEnum("review_type").notNull(),
+    reviewId: uuid("review_id").notNull(),
+    reporterId: text("reporter_id")
+      .notNull()
+      .references(() => user.id, { onDelete: "cascade" }),
+    reason: text("reason").notNull(), // "spam" | "offensive" | "fake" | "off_topic" | "other"
+    details: text("details"),
+    status: reviewReportStatusEnum("status").default("open").notNull(),
+    resolvedAt: timestamp("resolved_at"),
+    resolvedBy: text("resolved_by").references(() => user.id, {
+      onDelete: "set null",
+    }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (t) => [
+    index("review_reports_review_idx").on(t.reviewType, t.reviewId),
+    index("review_reports_status_idx").on(t.status),
+    // One report per user per review
+    unique("review_reports_review_reporter_unique").on(
+      t.reviewType,
+      t.reviewId,
+      t.reporterId
+    ),
+  ]
+);
+
+// ===================================
+// REVIEW REQUESTS
+// ===================================
+// One row per order once the review-requests cron has handled it, so a buyer
+// is asked at most once per order
+export const reviewRequests = pgTable(
+  "review_requests",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    orderId: uuid("order_id")
+      .notNull()
+      .references(() => orders.id, { onDelete: "cascade" }),
+    storeId: uuid("store_id").references(() => store.id, {
+      onDelete: "set null",
+    }),
+    email: text("email").notNull(),
+    locale: varchar("locale", { length: 10 }).default("en").notNull(),
+    status: text("status").notNull(), // "sent" | "skipped" (nothing left to review)
+    sentAt: timestamp("sent_at"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (t) => [
+    unique("review_requests_order_unique").on(t.orderId),
+    index("review_requests_store_idx").on(t.storeId),
+  ]
+);
+
+// ===================================
+// PRODUCT QUESTIONS (public Q&A on product pages)
+// ===================================
+export const productQuestionStatusEnum = pgEnum("product_question_status", [
+  "published",
+  "hidden", // By a moderator
+]);
+
+export const productQuestions = pgTable(
+  "product_questions",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    listingId: uuid("listing_id")
+      .notNull()
+      .references(() => listing.id, { onDelete: "cascade" }),
+    storeId: uuid("store_id")
+      .notNull()
+      .references(() => store.id, { onDelete: "cascade" }),
+    userId: text("user_id").references(() => user.id, {
+      onDelete: "set null",
+    }),
+    question: text("question").notNull(), // As asked, in `locale`
+    locale: varchar("locale", { length: 10 }).default("en").notNull(), // Locale the question was asked in
+    answer: text("answer"), // As written by the store
+    answeredAt: timestamp("answered_at"),
+    answeredBy: text("answered_by").references(() => user.id, {
+      onDelete: "set null",
+    }),
+    status: productQuestionStatusEnum("status").default("published").notNull(),
+    hiddenReason: text("hidden_reason"),
+    hiddenAt: timestamp("hidden_at"),
+    hiddenBy: text("hidden_by").references(() => user.id, {
+      onDelete: "set null",
+    }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at")
+      .defaultNow()
+      .$onUpdate(() => new Date())
+      .notNull(),
+  },
+  (t) => [
+    index("product_questions_listing_idx").on(t.listingId, t.status),
+    index("product_questions_store_idx").on(t.storeId),
+  ]
+);
+
+// Machine translations of each question and its answer (lib/translate.ts)
+export const productQuestionTranslations = pgTable(
+  "product_question_translations",
+  {
+    id: serial("id").primaryKey(),
+    questionId: uuid("question_id")
+      .notNull()
+      .references(() => productQuestions.id, { onDelete: "cascade" }),
+    locale: varchar("locale", { length: 10 }).notNull(), // 'en', 'fi', 'ne'
+    question: text("question").notNull(),
+    answer: text("answer"),
+  },
+  (t) => [
+    unique("product_question_translations_locale_unique").on(
+      t.questionId,
+      t.locale
+    ),
+  ]
+);
+
 // ===================================
 // LISTING FAVORITES (product favorites)
 // ===================================
@@ -738,6 +1042,63 @@ export const listingFavorite = pgTable(
   ]
 );
 
+// ===================================
+// CARTS (server-side shopping carts)
+// ===================================
+// One cart per signed-in user or per guest (cart_token cookie). A guest cart
+// is merged into the user's cart on login.
+export const carts = pgTable(
+  "carts",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    userId: text("user_id").references(() => user.id, {
+      onDelete: "cascade",
+    }),
+    guestToken: text("guest_token"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at")
+      .defaultNow()
+      .$onUpdate(() => new Date())
+      .notNull(),
+  },
+  (t) => [
+    uniqueIndex("carts_user_unique").on(t.userId),
+    uniqueIndex("carts_guest_token_unique").on(t.guestToken),
+    index("carts_updated_at_idx").on(t.updatedAt),
+  ]
+);
+
+export const cartItems = pgTable(
+  "cart_items",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    cartId: uuid("cart_id")
+      .notNull()
+      .references(() => carts.id, { onDelete: "cascade" }),
+    listingId: uuid("listing_id")
+      .notNull()
+      .references(() => listing.id, { onDelete: "cascade" }),
+    variantId: uuid("variant_id").references(() => listingVariants.id, {
+      onDelete: "cascade",
+    }),
+    quantity: integer("quantity").notNull().default(1),
+    // Price the customer last saw; compared with the catalog on every load
+    unitPrice: numeric("unit_price", { precision: 10, scale: 2 }).notNull(),
+    currency: text("currency").notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at")
+      .defaultNow()
+      .$onUpdate(() => new Date())
+      .notNull(),
+  },
+  (t) => [
+    unique("cart_items_line_unique")
+      .on(t.cartId, t.listingId, t.variantId)
+      .nullsNotDistinct(),
+    index("cart_items_cart_idx").on(t.cartId),
+  ]
+);
+
 // ===================================
 // LISTING SLUG HISTORY (SEO-safe redirects)
 // ===================================
@@ -885,28 +1246,321 @@ export const inventoryLevels = pgTable("inventory_levels", {
 });
 
 // ===================================
-// CUSTOMERS
+// BUNDLE COMPONENTS
+// ===================================
+// A variant with components is a bundle: it has no stock of its own, its
+// availability comes from the components and orders move component stock.
+export const bundleComponents = pgTable(
+  "bundle_components",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    bundleVariantId: uuid("bundle_variant_id")
+      .notNull()
+      .references(() => listingVariants.id, { onDelete: "cascade" }),
+    componentVariantId: uuid("component_variant_id")
+      .notNull()
+      .references(() => listingVariants.id, { onDelete: "cascade" }),
+    quantity: integer("quantity").default(1).notNull(), // units per bundle
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (t) => [
+    uniqueIndex("bundle_components_unique").on(
+      t.bundleVariantId,
+      t.componentVariantId
+    ),
+    index("bundle_components_component_idx").on(t.componentVariantId),
+  ]
+);
+
+// ===================================
+// SUPPLIERS
+// ===================================
+// Who a store buys stock from (e.g. a cooperative or a village producer)
+export const suppliers = pgTable(
+  "suppliers",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    storeId: uuid("store_id")
+      .notNull()
+      .references(() => store.id, { onDelete: "cascade" }),
+    name: text("name").notNull(),
+    contactName: text("contact_name"),
+    email: text("email"),
+    phone: text("phone"),
+    address: text("address"), // Free-form: village, district, country
+    notes: text("notes"),
+    isActive: boolean("is_active").default(true).notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at")
+      .defaultNow()
+      .$onUpdate(() => new Date())
+      .notNull(),
+  },
+  (t) => [index("suppliers_store_idx").on(t.storeId)]
+);
+
+// ===================================
+// PURCHASE ORDERS
+// ===================================
+// Stock ordered from a supplier for one inventory location. Ordering adds
+// the quantities to inventory_levels.incoming; receiving moves them to
+// available (see lib/purchase-orders.ts).
+export const purchaseOrders = pgTable(
+  "purchase_orders",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    storeId: uuid("store_id")
+      .notNull()
+      .references(() => store.id, { onDelete: "cascade" }),
+    supplierId: uuid("supplier_id")
+      .notNull()
+      .references(() => suppliers.id, { onDelete: "restrict" }),
+    locationId: uuid("location_id")
+      .notNull()
+      .references(() => inventoryLocations.id, { onDelete: "restrict" }),
+    sequence: integer("sequence").notNull(), // Per store, shown as PO-0001
+    status: text("status").notNull().default("draft"), // draft | ordered | partial | received | closed | cancelled
+    currency: text("currency").notNull(),
+    expectedAt: timestamp("expected_at"),
+    orderedAt: timestamp("ordered_at"),
+    receivedAt: timestamp("received_at"), // Last receipt
+    closedAt: timestamp("closed_at"), // Cancelled, or closed short
+    notes: text("notes"),
+    pdfUrl: text("pdf_url"),
+    pdfPublicId: text("pdf_public_id"),
+    createdBy: text("created_by").references(() => user.id, {
+      onDelete: "set null",
+    }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at")
+      .defaultNow()
+      .$onUpdate(() => new Date())
+      .notNull(),
+  },
+  (t) => [
+    uniqueIndex("purchase_orders_store_sequence_unique").on(
+      t.storeId,
+      t.sequence
+    ),
+    index("purchase_orders_supplier_idx").on(t.supplierId),
+  ]
+);
+
+export const purchaseOrderItems = pgTable(
+  "purchase_order_items",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    purchaseOrderId: uuid("purchase_order_id")
+      .notNull()
+      .references(() => purchaseOrders.id, { onDelete: "cascade" }),
+    variantId: uuid("variant_id").references(() => listingVariants.id, {
+      onDelete: "set null",
+    }),
+    // Snapshot so the PO still reads right if the product changes
+    productName: text("product_name").notNull(),
+    variantTitle: text("variant_title"),
+    sku: text("sku"),
+    quantityOrdered: integer("quantity_ordered").notNull(),
+    quantityReceived: integer("quantity_received").default(0).notNull(),
+    unitCost: numeric("unit_cost", { precision: 10, scale: 2 })
+      .default("0")
+      .notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (t) => [index("purchase_order_items_po_idx").on(t.purchaseOrderId)]
+);
+
+// ===================================
+// CUSTOMERS
+// ===================================
+export const customers = pgTable(
+  "customers",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    storeId: uuid("store_id").references(() => store.id, {
+      onDelete: "set null",
+    }),
+    userId: text("user_id").references(() => user.id, { onDelete: "set null" }), // optional link to auth user
+    email: text("email").notNull(),
+    firstName: text("first_name"),
+    lastName: text("last_name"),
+    phone: text("phone"),
+    // Optional default address snapshot
+    addressLine1: text("address_line_1"),
+    addressLine2: text("address_line_2"),
+    city: text("city"),
+    region: text("region"),
+    postalCode: text("postal_code"),
+    country: text("country"),
+    notes: text("notes"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at")
+      .defaultNow()
+      .$onUpdate(() => new Date())
+      .notNull(),
+  },
+  (table) => [
+    unique("customers_store_id_email_unique").on(table.storeId, table.email),
+  ]
+);
+
+// ===================================
+// CHECKOUT GROUPS
+// ===================================
+// One customer payment covering the per-store orders created by a checkout
+export const checkoutGroups = pgTable(
+  "checkout_groups",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    // Human-friendly reference in format: GM-CHK-YYYY-XXXXXX
+    checkoutNumber: text("checkout_number").notNull().unique(),
+    userId: text("user_id").references(() => user.id, {
+      onDelete: "set null",
+    }),
+    customerEmail: text("customer_email").notNull(),
+
+    // Combined totals of the child orders at checkout time
+    currency: text("currency").notNull(),
+    subtotalAmount: numeric("subtotal_amount", { precision: 10, scale: 2 })
+      .default("0")
+      .notNull(),
+    discountAmount: numeric("discount_amount", { precision: 10, scale: 2 })
+      .default("0")
+      .notNull(),
+    shippingAmount: numeric("shipping_amount", { precision: 10, scale: 2 })
+      .default("0")
+      .notNull(),
+    taxAmount: numeric("tax_amount", { precision: 10, scale: 2 })
+      .default("0")
+      .notNull(),
+    taxInclusive: boolean("tax_inclusive").default(false).notNull(),
+    totalAmount: numeric("total_amount", { precision: 10, scale: 2 })
+      .default("0")
+      .notNull(),
+
+    // The single payment shared by all orders in the group
+    paymentProvider: text("payment_provider"), // "stripe" | "esewa"
+    stripeCheckoutSessionId: text("stripe_checkout_session_id"),
+    stripePaymentIntentId: text("stripe_payment_intent_id"),
+    paidAt: timestamp("paid_at"),
+    confirmationSentAt: timestamp("confirmation_sent_at"),
+
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at")
+      .defaultNow()
+      .$onUpdate(() => new Date())
+      .notNull(),
+  },
+  (table) => [
+    index("checkout_groups_payment_intent_idx").on(
+      table.stripePaymentIntentId
+    ),
+  ]
+);
+
+// ===================================
+// SUBSCRIPTION PLANS
+// ===================================
+// Recurring purchase options a seller offers on a listing (or one variant)
+export const subscriptionPlans = pgTable(
+  "subscription_plans",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    storeId: uuid("store_id")
+      .notNull()
+      .references(() => store.id, { onDelete: "cascade" }),
+    listingId: uuid("listing_id")
+      .notNull()
+      .references(() => listing.id, { onDelete: "cascade" }),
+    // Null = the plan applies to every variant of the listing
+    variantId: uuid("variant_id").references(() => listingVariants.id, {
+      onDelete: "cascade",
+    }),
+    name: text("name").notNull(), // e.g. "Monthly honey box"
+    interval: text("interval").notNull(), // "week" | "month"
+    intervalCount: integer("interval_count").default(1).notNull(),
+    // Off the one-time price on every delivery
+    discountPercent: numeric("discount_percent", { precision: 5, scale: 2 })
+      .default("0")
+      .notNull(),
+    // Deliveries to be billed before the customer can cancel
+    minCycles: integer("min_cycles").default(1).notNull(),
+    isActive: boolean("is_active").default(true).notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at")
+      .defaultNow()
+      .$onUpdate(() => new Date())
+      .notNull(),
+  },
+  (table) => [index("subscription_plans_listing_idx").on(table.listingId)]
+);
+
+// ===================================
+// SUBSCRIPTIONS
 // ===================================
-export const customers = pgTable(
-  "customers",
+// A customer's recurring order. Each billing cycle creates a regular order
+// charged off-session to the card saved at the first checkout.
+export const subscriptions = pgTable(
+  "subscriptions",
   {
     id: uuid("id").defaultRandom().primaryKey(),
-    storeId: uuid("store_id").references(() => store.id, {
+    planId: uuid("plan_id").references(() => subscriptionPlans.id, {
       onDelete: "set null",
     }),
-    userId: text("user_id").references(() => user.id, { onDelete: "set null" }), // optional link to auth user
-    email: text("email").notNull(),
-    firstName: text("first_name"),
-    lastName: text("last_name"),
-    phone: text("phone"),
-    // Optional default address snapshot
-    addressLine1: text("address_line_1"),
-    addressLine2: text("address_line_2"),
-    city: text("city"),
-    region: text("region"),
-    postalCode: text("postal_code"),
-    country: text("country"),
-    notes: text("notes"),
+    storeId: uuid("store_id")
+      .notNull()
+      .references(() => store.id, { onDelete: "cascade" }),
+    listingId: uuid("listing_id")
+      .notNull()
+      .references(() => listing.id, { onDelete: "cascade" }),
+    variantId: uuid("variant_id").references(() => listingVariants.id, {
+      onDelete: "set null",
+    }),
+    userId: text("user_id")
+      .notNull()
+      .references(() => user.id, { onDelete: "cascade" }),
+    customerEmail: text("customer_email").notNull(),
+    quantity: integer("quantity").default(1).notNull(),
+    currency: text("currency").notNull(),
+    // "incomplete" (first checkout pending) | "active" | "paused" | "past_due" | "cancelled"
+    status: text("status").default("incomplete").notNull(),
+
+    // Plan terms at signup; later plan edits don't change them
+    planName: text("plan_name").notNull(),
+    interval: text("interval").notNull(),
+    intervalCount: integer("interval_count").default(1).notNull(),
+    discountPercent: numeric("discount_percent", { precision: 5, scale: 2 })
+      .default("0")
+      .notNull(),
+    minCycles: integer("min_cycles").default(1).notNull(),
+
+    // Delivery address used for every cycle
+    shippingName: text("shipping_name"),
+    shippingPhone: text("shipping_phone"),
+    shippingAddressLine1: text("shipping_address_line_1"),
+    shippingAddressLine2: text("shipping_address_line_2"),
+    shippingCity: text("shipping_city"),
+    shippingRegion: text("shipping_region"),
+    shippingPostalCode: text("shipping_postal_code"),
+    shippingCountry: text("shipping_country"),
+
+    stripeCustomerId: text("stripe_customer_id"),
+    stripePaymentMethodId: text("stripe_payment_method_id"),
+
+    // Billing schedule. currentCycle = cycles billed so far; the renewal
+    // cron claims a cycle by advancing it.
+    currentCycle: integer("current_cycle").default(0).notNull(),
+    skippedCycles: integer("skipped_cycles").default(0).notNull(),
+    nextBillingAt: timestamp("next_billing_at"),
+    lastOrderId: uuid("last_order_id"),
+    failedAttempts: integer("failed_attempts").default(0).notNull(),
+    lastError: text("last_error"),
+
+    pausedAt: timestamp("paused_at"),
+    resumeAt: timestamp("resume_at"), // Null while paused = until resumed
+    cancelledAt: timestamp("cancelled_at"),
+    cancelReason: text("cancel_reason"),
+
     createdAt: timestamp("created_at").defaultNow().notNull(),
     updatedAt: timestamp("updated_at")
       .defaultNow()
@@ -914,7 +1568,9 @@ export const customers = pgTable(
       .notNull(),
   },
   (table) => [
-    unique("customers_store_id_email_unique").on(table.storeId, table.email),
+    index("subscriptions_user_idx").on(table.userId),
+    index("subscriptions_store_idx").on(table.storeId),
+    index("subscriptions_due_idx").on(table.status, table.nextBillingAt),
   ]
 );
 
@@ -932,6 +1588,16 @@ export const orders = pgTable("orders", {
   customerId: uuid("customer_id").references(() => customers.id, {
     onDelete: "set null",
   }),
+  // Set when the order was paid together with other stores' orders
+  checkoutGroupId: uuid("checkout_group_id").references(
+    () => checkoutGroups.id,
+    { onDelete: "set null" }
+  ),
+  // Set on orders created by a subscription billing cycle
+  subscriptionId: uuid("subscription_id").references(() => subscriptions.id, {
+    onDelete: "set null",
+  }),
+  subscriptionCycle: integer("subscription_cycle"),
 
   // Market snapshot (at transaction time)
   marketId: uuid("market_id").references(() => markets.id, {
@@ -960,6 +1626,16 @@ export const orders = pgTable("orders", {
   taxAmount: numeric("tax_amount", { precision: 10, scale: 2 })
     .default("0")
     .notNull(),
+  taxInclusive: boolean("tax_inclusive").default(false).notNull(), // true = taxAmount is included in item prices
+  // Tax by rate at time of order (lines + shipping), used for invoices
+  taxBreakdown: jsonb("tax_breakdown").$type<
+    Array<{
+      name: string;
+      rate: string;
+      taxableAmount: string;
+      taxAmount: string;
+    }>
+  >(),
   totalAmount: numeric("total_amount", { precision: 10, scale: 2 })
     .default("0")
     .notNull(),
@@ -1028,6 +1704,7 @@ export const orders = pgTable("orders", {
   placedAt: timestamp("placed_at").defaultNow(), // when the order is placed
   paidAt: timestamp("paid_at"),
   fulfilledAt: timestamp("fulfilled_at"),
+  deliveredAt: timestamp("delivered_at"), // All tracked shipments delivered
   canceledAt: timestamp("canceled_at"),
   archivedAt: timestamp("archived_at"), // When order was archived
 
@@ -1094,6 +1771,40 @@ export const shippingProfiles = pgTable("shipping_profiles", {
   // Default profile for new listings
   isDefault: boolean("is_default").default(false).notNull(),
 
+  // Most a customer pays for shipping from this store per order, in the
+  // currency of the matching rate (null = no cap)
+  combinedShippingCapCents: integer("combined_shipping_cap_cents"),
+
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at")
+    .defaultNow()
+    .$onUpdate(() => new Date())
+    .notNull(),
+});
+
+// ===================================
+// SHIPPING ZONES
+// ===================================
+// Admin-defined groups of destinations that sellers can attach rates to.
+// Precedence when resolving a destination:
+// postal codes > region > country > country zone > everywhere else.
+export const shippingZones = pgTable("shipping_zones", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  code: text("code").notNull().unique(), // "EU", "NORDICS", "US_AK_HI"
+  name: text("name").notNull(),
+  description: text("description"),
+
+  zoneType: text("zone_type").notNull(),
+  // "countries" | "regions" | "postal_codes"
+
+  countryCodes: jsonb("country_codes").$type<string[]>().notNull(), // ISO 3166-1 alpha-2
+  regionCodes: jsonb("region_codes").$type<string[]>(), // State/province codes ("regions" zones)
+  postalCodeRanges: jsonb("postal_code_ranges").$type<string[]>(), // Prefixes or "FROM-TO" prefix ranges ("postal_codes" zones)
+
+  isActive: boolean("is_active").default(true).notNull(),
+  createdBy: text("created_by").references(() => user.id, {
+    onDelete: "set null",
+  }),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at")
     .defaultNow()
@@ -1113,8 +1824,8 @@ export const shippingDestinations = pgTable("shipping_destinations", {
   destinationType: text("destination_type").notNull(),
   // "country" | "region" | "everywhere_else"
 
-  countryCode: text("country_code"), // "FI", "NP", null for "everywhere_else"
-  regionCode: text("region_code"), // "EU", "ASIA" (future use)
+  countryCode: text("country_code"), // "FI", "NP", null for "region" and "everywhere_else"
+  regionCode: text("region_code"), // shipping_zones.code for "region", e.g. "EU", "US_AK_HI"
 
   excluded: boolean("excluded").default(false), // For exclusions
 
@@ -1134,14 +1845,24 @@ export const shippingRates = pgTable("shipping_rates", {
 
   freeShipping: boolean("free_shipping").default(false).notNull(),
 
+  // "per_item": first item + additional items
+  // "weight": one rate per bracket, priced at firstItemPriceCents
+  pricingMethod: text("pricing_method").default("per_item").notNull(),
+
   // Etsy-style pricing: first item + additional items
   firstItemPriceCents: integer("first_item_price_cents"), // null if freeShipping
   additionalItemPriceCents: integer("additional_item_price_cents").default(0),
 
-  // Weight brackets (optional - for future use)
+  // Weight bracket (billable oz): over min, up to and including max
   minWeightOz: numeric("min_weight_oz", { precision: 8, scale: 1 }),
   maxWeightOz: numeric("max_weight_oz", { precision: 8, scale: 1 }),
 
+  // Bill the greater of actual and dimensional weight (in³ per lb, e.g. 139)
+  dimensionalDivisor: integer("dimensional_divisor"),
+
+  // Free when the store's order subtotal reaches this amount
+  freeShippingThresholdCents: integer("free_shipping_threshold_cents"),
+
   currency: text("currency").default("EUR").notNull(),
 
   // Transit time estimates
@@ -1254,6 +1975,15 @@ export const draftOrders = pgTable("draft_orders", {
   taxAmount: numeric("tax_amount", { precision: 10, scale: 2 })
     .default("0")
     .notNull(),
+  taxInclusive: boolean("tax_inclusive").default(false).notNull(),
+  taxBreakdown: jsonb("tax_breakdown").$type<
+    Array<{
+      name: string;
+      rate: string;
+      taxableAmount: string;
+      taxAmount: string;
+    }>
+  >(),
   totalAmount: numeric("total_amount", { precision: 10, scale: 2 })
     .default("0")
     .notNull(),
@@ -1344,6 +2074,8 @@ export const draftOrderItems = pgTable("draft_order_items", {
   taxAmount: numeric("tax_amount", { precision: 10, scale: 2 })
     .default("0")
     .notNull(),
+  taxRate: numeric("tax_rate", { precision: 6, scale: 3 }), // Percentage applied to this line
+  taxName: text("tax_name"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -1377,6 +2109,8 @@ export const orderItems = pgTable("order_items", {
     scale: 2,
   }).default("0"),
   taxAmount: numeric("tax_amount", { precision: 10, scale: 2 }).default("0"),
+  taxRate: numeric("tax_rate", { precision: 6, scale: 3 }), // Percentage applied to this line (null = untaxed)
+  taxName: text("tax_name"), // Rule name at time of order, e.g. "Finland VAT (reduced)"
 
   // Fulfillment tracking (per inst.md)
   fulfilledQuantity: integer("fulfilled_quantity").default(0).notNull(), // How many of this item have been fulfilled
@@ -1403,7 +2137,23 @@ export const orderPayments = pgTable("order_payments", {
   platformFeeAmount: numeric("platform_fee_amount", {
     precision: 10,
     scale: 2,
-  }), // 5% platform fee
+  }), // Per the platform fee schedule (lib/platform-fees.ts)
+  // Fee rule(s) in effect when the payment was recorded
+  platformFeeRule: jsonb("platform_fee_rule").$type<{
+    ruleId: string | null; // null = built-in default rate
+    name: string;
+    ratePercent: number;
+    fixedFee: number;
+    maxFee: number | null;
+    capped: boolean;
+    // Order lines charged at a category rate instead of ratePercent
+    categoryRules?: Array<{
+      ruleId: string;
+      name: string;
+      ratePercent: number;
+      amount: number;
+    }>;
+  }>(),
   netAmountToStore: numeric("net_amount_to_store", { precision: 10, scale: 2 }), // Amount store receives
   stripePaymentIntentId: text("stripe_payment_intent_id"), // Stripe PaymentIntent ID
   stripeCheckoutSessionId: text("stripe_checkout_session_id"), // Stripe Checkout Session ID
@@ -1457,6 +2207,58 @@ export const orderRefunds = pgTable("order_refunds", {
     .notNull(),
 });
 
+// ===================================
+// ORDER DISPUTES (Stripe chargebacks)
+// ===================================
+// One row per order covered by a Stripe dispute; a multi-store charge has one
+// row per store order, each with its share of the disputed amount.
+export const orderDisputes = pgTable(
+  "order_disputes",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    orderId: uuid("order_id")
+      .notNull()
+      .references(() => orders.id, { onDelete: "cascade" }),
+    orderPaymentId: uuid("order_payment_id").references(
+      () => orderPayments.id,
+      { onDelete: "set null" }
+    ),
+    storeId: uuid("store_id").references(() => store.id, {
+      onDelete: "set null",
+    }),
+    stripeDisputeId: text("stripe_dispute_id").notNull(),
+    stripeChargeId: text("stripe_charge_id"),
+    amount: numeric("amount", { precision: 10, scale: 2 }).notNull(), // This order's share of the disputed amount
+    currency: text("currency").notNull(),
+    reason: text("reason"), // Stripe reason: fraudulent, product_not_received, ...
+    status: text("status").notNull(), // Stripe status: needs_response | under_review | won | lost | ...
+    // Net amount debited from the seller so far (disputed amount + fees - reinstatements)
+    ledgerAmount: numeric("ledger_amount", { precision: 10, scale: 2 })
+      .default("0")
+      .notNull(),
+    previousTransferStatus: text("previous_transfer_status"), // Restored if the dispute is won
+    evidenceDueBy: timestamp("evidence_due_by"),
+    evidenceSubmittedAt: timestamp("evidence_submitted_at"),
+    evidenceSubmittedBy: text("evidence_submitted_by").references(
+      () => user.id,
+      { onDelete: "set null" }
+    ),
+    closedAt: timestamp("closed_at"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at")
+      .defaultNow()
+      .$onUpdate(() => new Date())
+      .notNull(),
+  },
+  (t) => [
+    unique("order_disputes_dispute_order_unique").on(
+      t.stripeDisputeId,
+      t.orderId
+    ),
+    index("order_disputes_store_idx").on(t.storeId),
+  ]
+);
+
 // ===================================
 // ORDER REFUND ITEMS
 // ===================================
@@ -1499,6 +2301,86 @@ export const refundRequests = pgTable("refund_requests", {
     .notNull(),
 });
 
+// ===================================
+// RETURN REQUESTS (RMA)
+// ===================================
+export const returnRequestStatusEnum = pgEnum("return_request_status", [
+  "requested", // Submitted by the customer, awaiting seller review
+  "approved", // Seller accepted; customer ships the items back
+  "rejected",
+  "in_transit", // Return shipment has tracking
+  "received", // Seller received the parcel, awaiting inspection
+  "refunded", // Inspected and refunded
+  "cancelled", // Withdrawn by the customer
+]);
+
+export const returnRequests = pgTable(
+  "return_requests",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    rmaNumber: text("rma_number").notNull().unique(), // Shown to customer, e.g. RMA-7K2M9QXD
+    orderId: uuid("order_id")
+      .notNull()
+      .references(() => orders.id, { onDelete: "cascade" }),
+    storeId: uuid("store_id").references(() => store.id, {
+      onDelete: "set null",
+    }),
+    customerId: uuid("customer_id").references(() => customers.id, {
+      onDelete: "set null",
+    }),
+    requestedBy: text("requested_by").references(() => user.id, {
+      onDelete: "set null",
+    }),
+    reason: text("reason").notNull(),
+    description: text("description"),
+    status: returnRequestStatusEnum("status").default("requested").notNull(),
+    reviewedBy: text("reviewed_by").references(() => user.id, {
+      onDelete: "set null",
+    }),
+    reviewedAt: timestamp("reviewed_at"),
+    rejectionReason: text("rejection_reason"),
+    // Inbound shipment (label bought through EasyShip or entered manually)
+    carrier: text("carrier"),
+    trackingNumber: text("tracking_number"),
+    trackingUrl: text("tracking_url"),
+    labelUrl: text("label_url"),
+    easyshipShipmentId: text("easyship_shipment_id"),
+    labelCost: numeric("label_cost", { precision: 10, scale: 2 }),
+    labelCurrency: text("label_currency"),
+    shippedAt: timestamp("shipped_at"),
+    receivedAt: timestamp("received_at"),
+    inspectedBy: text("inspected_by").references(() => user.id, {
+      onDelete: "set null",
+    }),
+    inspectedAt: timestamp("inspected_at"),
+    refundAmount: numeric("refund_amount", { precision: 10, scale: 2 }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at")
+      .defaultNow()
+      .$onUpdate(() => new Date())
+      .notNull(),
+  },
+  (t) => [
+    index("return_requests_order_idx").on(t.orderId),
+    index("return_requests_store_status_idx").on(t.storeId, t.status),
+  ]
+);
+
+export const returnRequestItems = pgTable("return_request_items", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  returnRequestId: uuid("return_request_id")
+    .notNull()
+    .references(() => returnRequests.id, { onDelete: "cascade" }),
+  orderItemId: uuid("order_item_id")
+    .notNull()
+    .references(() => orderItems.id, { onDelete: "cascade" }),
+  quantity: integer("quantity").notNull(),
+  // Set at inspection: restocked + damaged = quantity received
+  restockedQuantity: integer("restocked_quantity").default(0).notNull(),
+  damagedQuantity: integer("damaged_quantity").default(0).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
 // ===================================
 // FULFILLMENTS
 // ===================================
@@ -1528,6 +2410,7 @@ export const fulfillments = pgTable("fulfillments", {
   trackingStatus: text("tracking_status"), // Latest status from EasyPost
   trackingData: jsonb("tracking_data"), // Full tracking response from EasyPost
   lastTrackedAt: timestamp("last_tracked_at"), // When tracking was last updated
+  deliveredAt: timestamp("delivered_at"), // Carrier-reported delivery
   easypostShipmentId: text("easypost_shipment_id"), // External shipment ID (EasyShip easyship_shipment_id)
   labelUrl: text("label_url"), // URL to shipping label PDF
   labelFileType: text("label_file_type"), // "application/pdf", "image/png", "application/zpl"
@@ -1945,6 +2828,81 @@ export const orderItemDiscounts = pgTable("order_item_discounts", {
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// ===================================
+// ABANDONED CHECKOUTS (recovery emails)
+// ===================================
+export const abandonedCheckoutStatusEnum = pgEnum(
+  "abandoned_checkout_status",
+  [
+    "open", // Checkout started, not paid
+    "completed", // Paid before any reminder went out
+    "recovered", // Paid after at least one reminder
+  ]
+);
+
+// One row per store order in a Stripe checkout session; rows of a multi-store
+// checkout share stripeSessionId and are reminded together.
+export const abandonedCheckouts = pgTable(
+  "abandoned_checkouts",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    stripeSessionId: text("stripe_session_id").notNull(),
+    orderId: uuid("order_id").references(() => orders.id, {
+      onDelete: "set null",
+    }),
+    storeId: uuid("store_id").references(() => store.id, {
+      onDelete: "cascade",
+    }),
+    marketId: uuid("market_id").references(() => markets.id, {
+      onDelete: "set null",
+    }),
+    userId: text("user_id").references(() => user.id, {
+      onDelete: "set null",
+    }),
+    email: text("email").notNull(),
+    locale: varchar("locale", { length: 10 }).default("en").notNull(),
+
+    // Cart snapshot used for the email and to restore the cart
+    items: jsonb("items")
+      .$type<
+        Array<{
+          listingId: string;
+          variantId: string | null;
+          title: string;
+          quantity: number;
+          unitPrice: string;
+        }>
+      >()
+      .notNull(),
+    currency: text("currency").notNull(),
+    totalAmount: numeric("total_amount", { precision: 10, scale: 2 })
+      .default("0")
+      .notNull(),
+
+    status: abandonedCheckoutStatusEnum("status").default("open").notNull(),
+    remindersSent: integer("reminders_sent").default(0).notNull(),
+    lastReminderAt: timestamp("last_reminder_at"),
+    // Single-use discount generated for the last reminder (optional)
+    discountId: uuid("discount_id").references(() => discounts.id, {
+      onDelete: "set null",
+    }),
+    discountCode: varchar("discount_code", { length: 100 }),
+    resumedAt: timestamp("resumed_at"), // Resume link used (links are single-use)
+    completedAt: timestamp("completed_at"),
+
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at")
+      .defaultNow()
+      .$onUpdate(() => new Date())
+      .notNull(),
+  },
+  (t) => [
+    index("abandoned_checkouts_session_idx").on(t.stripeSessionId),
+    index("abandoned_checkouts_status_created_idx").on(t.status, t.createdAt),
+    index("abandoned_checkouts_store_idx").on(t.storeId),
+  ]
+);
+
 // ===================================
 // ORDER EVENTS (Timeline)
 // ===================================
@@ -2042,6 +3000,8 @@ export type FaqSectionTranslation = InferSelectModel<
 export type FaqItem = InferSelectModel<typeof faqItems>;
 export type FaqItemTranslation = InferSelectModel<typeof faqItemTranslations>;
 export type Store = InferSelectModel<typeof store>;
+export type StoreMember = InferSelectModel<typeof storeMembers>;
+export type StoreInvitation = InferSelectModel<typeof storeInvitations>;
 export type StoreFollow = InferSelectModel<typeof storeFollow>;
 export type ListingFavorite = InferSelectModel<typeof listingFavorite>;
 export type ListingVariant = InferSelectModel<typeof listingVariants>;
@@ -2054,6 +3014,10 @@ export type InventoryLocationTranslation = InferSelectModel<
   typeof inventoryLocationTranslations
 >;
 export type InventoryLevel = InferSelectModel<typeof inventoryLevels>;
+export type BundleComponent = InferSelectModel<typeof bundleComponents>;
+export type Supplier = InferSelectModel<typeof suppliers>;
+export type PurchaseOrder = InferSelectModel<typeof purchaseOrders>;
+export type PurchaseOrderItem = InferSelectModel<typeof purchaseOrderItems>;
 export type Fulfillment = InferSelectModel<typeof fulfillments>;
 export type InventoryAdjustment = InferSelectModel<typeof inventoryAdjustments>;
 export type Customer = InferSelectModel<typeof customers>;
@@ -2066,6 +3030,7 @@ export type RefundRequest = InferSelectModel<typeof refundRequests>;
 export type OrderEvent = InferSelectModel<typeof orderEvents>;
 export type OrderShippingRates = InferSelectModel<typeof orderShippingRates>;
 export type ShippingProfile = InferSelectModel<typeof shippingProfiles>;
+export type ShippingZone = InferSelectModel<typeof shippingZones>;
 export type ShippingDestination = InferSelectModel<typeof shippingDestinations>;
 export type ShippingRate = InferSelectModel<typeof shippingRates>;
 export type ShippingService = InferSelectModel<typeof shippingServices>;
@@ -2073,6 +3038,8 @@ export type OrderShipment = InferSelectModel<typeof orderShipments>;
 export type DraftOrder = InferSelectModel<typeof draftOrders>;
 export type DraftOrderItem = InferSelectModel<typeof draftOrderItems>;
 export type Market = InferSelectModel<typeof markets>;
+export type TaxRule = InferSelectModel<typeof taxRules>;
+export type PlatformFeeRule = InferSelectModel<typeof platformFeeRules>;
 export type Discount = InferSelectModel<typeof discounts>;
 export type DiscountTarget = InferSelectModel<typeof discountTargets>;
 export type DiscountCustomer = InferSelectModel<typeof discountCustomers>;
@@ -2080,6 +3047,12 @@ export type OrderDiscount = InferSelectModel<typeof orderDiscounts>;
 export type OrderItemDiscount = InferSelectModel<typeof orderItemDiscounts>;
 export type ProductReview = InferSelectModel<typeof productReview>;
 export type StoreReview = InferSelectModel<typeof storeReview>;
+export type ReviewReport = InferSelectModel<typeof reviewReports>;
+export type ReviewRequest = InferSelectModel<typeof reviewRequests>;
+export type ProductQuestion = InferSelectModel<typeof productQuestions>;
+export type ProductQuestionTranslation = InferSelectModel<
+  typeof productQuestionTranslations
+>;
 
 // ===================================
 // SELLER BALANCES (Ledger System) — one row per (store, currency): EUR (Stripe) and NPR (eSewa)
@@ -2227,6 +3200,18 @@ export const sellerPayouts = pgTable("seller_payouts", {
   failureReason: text("failure_reason"),
   metadata: jsonb("metadata").$type<Record<string, unknown>>(),
 
+  // Scheduled (automatic) payouts: the seller_payout_settings.next_payout_at
+  // slot they pay out, keyed "scheduled:<storeId>:<currency>:<slot>" so a
+  // retried cron can't create a second payout for the same slot
+  scheduledFor: timestamp("scheduled_for"),
+  idempotencyKey: text("idempotency_key").unique(),
+  batchId: text("batch_id"), // NPR work-queue batch, e.g. "NPR-20261019"
+
+  // Stripe attempts; failed scheduled payouts are retried until nextRetryAt is null
+  attemptCount: integer("attempt_count").default(0).notNull(),
+  nextRetryAt: timestamp("next_retry_at"),
+  statementSentAt: timestamp("statement_sent_at"),
+
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at")
     .defaultNow()
@@ -2235,17 +3220,169 @@ export const sellerPayouts = pgTable("seller_payouts", {
 });
 
 // ===================================
-// AUDIT LOG (e.g. bank details viewed)
+// SELLER STATEMENTS (monthly statements and annual earnings summaries, PDF)
 // ===================================
-export const auditLog = pgTable("audit_log", {
-  id: uuid("id").defaultRandom().primaryKey(),
-  action: text("action").notNull(), // e.g. "bank_details_viewed"
-  entityType: text("entity_type").notNull(), // e.g. "store"
-  entityId: text("entity_id").notNull(),
-  userId: text("user_id").references(() => user.id, { onDelete: "set null" }),
-  metadata: jsonb("metadata").$type<Record<string, unknown>>(),
-  createdAt: timestamp("created_at").defaultNow().notNull(),
-});
+export const sellerStatements = pgTable(
+  "seller_statements",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    storeId: uuid("store_id")
+      .notNull()
+      .references(() => store.id, { onDelete: "cascade" }),
+    currency: text("currency").notNull(),
+    periodType: text("period_type").notNull(), // "monthly" | "annual"
+    periodStart: timestamp("period_start").notNull(),
+    periodEnd: timestamp("period_end").notNull(), // Exclusive
+
+    openingBalance: numeric("opening_balance", { precision: 12, scale: 2 })
+      .default("0")
+      .notNull(),
+    closingBalance: numeric("closing_balance", { precision: 12, scale: 2 })
+      .default("0")
+      .notNull(),
+    // Period totals by category (see StatementTotals in lib/seller-statements.ts)
+    totals: jsonb("totals").$type<Record<string, number>>(),
+
+    pdfUrl: text("pdf_url"), // null until rendered and uploaded
+    pdfPublicId: text("pdf_public_id"),
+    emailedAt: timestamp("emailed_at"),
+
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at")
+      .defaultNow()
+      .$onUpdate(() => new Date())
+      .notNull(),
+  },
+  (t) => [
+    unique("seller_statements_period_unique").on(
+      t.storeId,
+      t.currency,
+      t.periodType,
+      t.periodStart
+    ),
+    index("seller_statements_store_idx").on(t.storeId),
+  ]
+);
+
+// ===================================
+// AUDIT LOG (sensitive admin actions, e.g. bank details viewed, user suspended)
+// ===================================
+export const auditLog = pgTable(
+  "audit_log",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    action: text("action").notNull(), // e.g. "bank_details_viewed", "user.suspended"
+    entityType: text("entity_type").notNull(), // e.g. "store"
+    entityId: text("entity_id").notNull(),
+    userId: text("user_id").references(() => user.id, { onDelete: "set null" }), // Actor
+    ipAddress: text("ip_address"),
+    userAgent: text("user_agent"),
+    // Changed fields only: { field: { before, after } }
+    changes:
+      jsonb("changes").$type<
+        Record<string, { before: unknown; after: unknown }>
+      >(),
+    metadata: jsonb("metadata").$type<Record<string, unknown>>(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (t) => [
+    index("audit_log_created_at_idx").on(t.createdAt),
+    index("audit_log_entity_idx").on(t.entityType, t.entityId),
+    index("audit_log_user_idx").on(t.userId),
+  ]
+);
+
+// ===================================
+// PLATFORM LEDGER (double-entry journal, see lib/ledger.ts)
+// ===================================
+export const ledgerJournalEntries = pgTable(
+  "ledger_journal_entries",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    // What posted the entry; (source, sourceId) is unique so posting is idempotent
+    source: text("source").notNull(), // "seller_transaction" | "stripe_transfer"
+    sourceId: text("source_id").notNull(),
+    entryType: text("entry_type").notNull(), // Seller ledger type or "transfer"
+    currency: text("currency").notNull(),
+    description: text("description"),
+
+    // References
+    storeId: uuid("store_id").references(() => store.id, {
+      onDelete: "set null",
+    }),
+    orderId: uuid("order_id").references(() => orders.id, {
+      onDelete: "set null",
+    }),
+    payoutId: uuid("payout_id").references(() => sellerPayouts.id, {
+      onDelete: "set null",
+    }),
+    // Stripe charge (payments, fees, refunds, disputes) or transfer ID, for reconciliation
+    stripeRef: text("stripe_ref"),
+
+    postedAt: timestamp("posted_at").notNull(), // Accounting date
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (t) => [
+    unique("ledger_journal_entries_source_unique").on(t.source, t.sourceId),
+    index("ledger_journal_entries_posted_at_idx").on(t.postedAt),
+    index("ledger_journal_entries_stripe_ref_idx").on(t.stripeRef),
+  ]
+);
+
+export const ledgerJournalLines = pgTable(
+  "ledger_journal_lines",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    entryId: uuid("entry_id")
+      .notNull()
+      .references(() => ledgerJournalEntries.id, { onDelete: "cascade" }),
+    account: text("account").notNull(), // LedgerAccount in lib/ledger.ts
+    debit: numeric("debit", { precision: 12, scale: 2 }).default("0").notNull(),
+    credit: numeric("credit", { precision: 12, scale: 2 })
+      .default("0")
+      .notNull(),
+  },
+  (t) => [
+    index("ledger_journal_lines_entry_idx").on(t.entryId),
+    index("ledger_journal_lines_account_idx").on(t.account),
+  ]
+);
+
+// Results of matching journal entries against Stripe balance transactions
+export const ledgerReconciliationRuns = pgTable(
+  "ledger_reconciliation_runs",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    periodStart: timestamp("period_start").notNull(),
+    periodEnd: timestamp("period_end").notNull(),
+    status: text("status").notNull(), // "matched" | "drift" | "error"
+    stripeTransactionCount: integer("stripe_transaction_count")
+      .default(0)
+      .notNull(),
+    matchedCount: integer("matched_count").default(0).notNull(),
+    // Net platform cash per currency: { EUR: { stripe, ledger } }
+    totals:
+      jsonb("totals").$type<
+        Record<string, { stripe: number; ledger: number }>
+      >(),
+    issues: jsonb("issues").$type<
+      Array<{
+        issue: "amount_mismatch" | "missing_in_ledger" | "missing_in_stripe";
+        kind: string;
+        ref: string;
+        currency: string;
+        stripeAmount: number | null;
+        ledgerAmount: number | null;
+      }>
+    >(),
+    errorMessage: text("error_message"),
+    triggeredBy: text("triggered_by").references(() => user.id, {
+      onDelete: "set null",
+    }), // null = cron
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (t) => [index("ledger_reconciliation_runs_created_at_idx").on(t.createdAt)]
+);
 
 // ===================================
 // SELLER PAYOUT SETTINGS
@@ -2443,6 +3580,7 @@ export type SellerBalanceTransaction = InferSelectModel<
   typeof sellerBalanceTransactions
 >;
 export type SellerPayout = InferSelectModel<typeof sellerPayouts>;
+export type SellerStatement = InferSelectModel<typeof sellerStatements>;
 export type SellerPayoutSettings = InferSelectModel<
   typeof sellerPayoutSettings
 >;
@@ -2450,3 +3588,18 @@ export type ShippingPackage = InferSelectModel<typeof shippingPackages>;
 export type ChatRoom = InferSelectModel<typeof chatRooms>;
 export type ChatMessage = InferSelectModel<typeof chatMessages>;
 export type ChatRoomParticipant = InferSelectModel<typeof chatRoomParticipants>;
+export type AuditLog = InferSelectModel<typeof auditLog>;
+export type LedgerJournalEntry = InferSelectModel<typeof ledgerJournalEntries>;
+export type LedgerJournalLine = InferSelectModel<typeof ledgerJournalLines>;
+export type LedgerReconciliationRun = InferSelectModel<
+  typeof ledgerReconciliationRuns
+>;
+export type Cart = InferSelectModel<typeof carts>;
+export type CartItemRow = InferSelectModel<typeof cartItems>;
+export type AbandonedCheckout = InferSelectModel<typeof abandonedCheckouts>;
+export type OrderDispute = InferSelectModel<typeof orderDisputes>;
+export type ReturnRequest = InferSelectModel<typeof returnRequests>;
+export type ReturnRequestItem = InferSelectModel<typeof returnRequestItems>;
+export type CheckoutGroup = InferSelectModel<typeof checkoutGroups>;
+export type SubscriptionPlan = InferSelectModel<typeof subscriptionPlans>;
+export type Subscription = InferSelectModel<typeof subscriptions>;
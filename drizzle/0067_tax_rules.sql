@@ -0,0 +1,32 @@
+-- Markets: tax-inclusive catalog prices (EU VAT style) vs tax added at checkout
+ALTER TABLE "markets" ADD COLUMN IF NOT EXISTS "prices_include_tax" boolean DEFAULT false NOT NULL;
+
+-- Tax rules per country/region, optionally scoped to a market or taxonomy category
+CREATE TABLE IF NOT EXISTS "tax_rules" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "name" text NOT NULL,
+  "market_id" uuid REFERENCES "markets"("id") ON DELETE CASCADE,
+  "country_code" text NOT NULL,
+  "region_code" text,
+  "taxonomy_category_id" text,
+  "rate" numeric(6, 3) NOT NULL,
+  "applies_to_shipping" boolean DEFAULT false NOT NULL,
+  "priority" integer DEFAULT 0 NOT NULL,
+  "is_active" boolean DEFAULT true NOT NULL,
+  "created_by" text REFERENCES "user"("id") ON DELETE SET NULL,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL
+);
+CREATE INDEX IF NOT EXISTS "tax_rules_country_region_idx" ON "tax_rules" ("country_code", "region_code");
+
+-- Orders / drafts: tax mode and per-rate breakdown snapshot for invoices
+ALTER TABLE "orders" ADD COLUMN IF NOT EXISTS "tax_inclusive" boolean DEFAULT false NOT NULL;
+ALTER TABLE "orders" ADD COLUMN IF NOT EXISTS "tax_breakdown" jsonb;
+ALTER TABLE "draft_orders" ADD COLUMN IF NOT EXISTS "tax_inclusive" boolean DEFAULT false NOT NULL;
+ALTER TABLE "draft_orders" ADD COLUMN IF NOT EXISTS "tax_breakdown" jsonb;
+
+-- Line-level tax allocation
+ALTER TABLE "order_items" ADD COLUMN IF NOT EXISTS "tax_rate" numeric(6, 3);
+ALTER TABLE "order_items" ADD COLUMN IF NOT EXISTS "tax_name" text;
+ALTER TABLE "draft_order_items" ADD COLUMN IF NOT EXISTS "tax_rate" numeric(6, 3);
+ALTER TABLE "draft_order_items" ADD COLUMN IF NOT EXISTS "tax_name" text;
@@ -0,0 +1,8 @@
+-- Audit log: actor request context and before/after diff
+ALTER TABLE "audit_log" ADD COLUMN IF NOT EXISTS "ip_address" text;
+ALTER TABLE "audit_log" ADD COLUMN IF NOT EXISTS "user_agent" text;
+ALTER TABLE "audit_log" ADD COLUMN IF NOT EXISTS "changes" jsonb;
+
+CREATE INDEX IF NOT EXISTS "audit_log_created_at_idx" ON "audit_log" ("created_at");
+CREATE INDEX IF NOT EXISTS "audit_log_entity_idx" ON "audit_log" ("entity_type", "entity_id");
+CREATE INDEX IF NOT EXISTS "audit_log_user_idx" ON "audit_log" ("user_id");
@@ -0,0 +1,26 @@
+-- Server-side carts: one per signed-in user or guest token (cart_token cookie)
+CREATE TABLE IF NOT EXISTS "carts" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "user_id" text REFERENCES "user"("id") ON DELETE CASCADE,
+  "guest_token" text,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL
+);
+CREATE UNIQUE INDEX IF NOT EXISTS "carts_user_unique" ON "carts" ("user_id");
+CREATE UNIQUE INDEX IF NOT EXISTS "carts_guest_token_unique" ON "carts" ("guest_token");
+CREATE INDEX IF NOT EXISTS "carts_updated_at_idx" ON "carts" ("updated_at");
+
+-- Cart lines keep the price last shown so changes can be reported on load
+CREATE TABLE IF NOT EXISTS "cart_items" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "cart_id" uuid NOT NULL REFERENCES "carts"("id") ON DELETE CASCADE,
+  "listing_id" uuid NOT NULL REFERENCES "listing"("id") ON DELETE CASCADE,
+  "variant_id" uuid REFERENCES "listing_variants"("id") ON DELETE CASCADE,
+  "quantity" integer DEFAULT 1 NOT NULL,
+  "unit_price" numeric(10, 2) NOT NULL,
+  "currency" text NOT NULL,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL,
+  CONSTRAINT "cart_items_line_unique" UNIQUE NULLS NOT DISTINCT ("cart_id", "listing_id", "variant_id")
+);
+CREATE INDEX IF NOT EXISTS "cart_items_cart_idx" ON "cart_items" ("cart_id");
@@ -0,0 +1,32 @@
+-- Abandoned checkout tracking for recovery emails
+DO $$ BEGIN
+  CREATE TYPE "public"."abandoned_checkout_status" AS ENUM('open', 'completed', 'recovered');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+CREATE TABLE IF NOT EXISTS "abandoned_checkouts" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "stripe_session_id" text NOT NULL,
+  "order_id" uuid REFERENCES "orders"("id") ON DELETE SET NULL,
+  "store_id" uuid REFERENCES "store"("id") ON DELETE CASCADE,
+  "market_id" uuid REFERENCES "markets"("id") ON DELETE SET NULL,
+  "user_id" text REFERENCES "user"("id") ON DELETE SET NULL,
+  "email" text NOT NULL,
+  "locale" varchar(10) DEFAULT 'en' NOT NULL,
+  "items" jsonb NOT NULL,
+  "currency" text NOT NULL,
+  "total_amount" numeric(10, 2) DEFAULT '0' NOT NULL,
+  "status" "abandoned_checkout_status" DEFAULT 'open' NOT NULL,
+  "reminders_sent" integer DEFAULT 0 NOT NULL,
+  "last_reminder_at" timestamp,
+  "discount_id" uuid REFERENCES "discounts"("id") ON DELETE SET NULL,
+  "discount_code" varchar(100),
+  "resumed_at" timestamp,
+  "completed_at" timestamp,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL
+);
+CREATE INDEX IF NOT EXISTS "abandoned_checkouts_session_idx" ON "abandoned_checkouts" ("stripe_session_id");
+CREATE INDEX IF NOT EXISTS "abandoned_checkouts_status_created_idx" ON "abandoned_checkouts" ("status", "created_at");
+CREATE INDEX IF NOT EXISTS "abandoned_checkouts_store_idx" ON "abandoned_checkouts" ("store_id");
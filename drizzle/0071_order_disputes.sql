@@ -0,0 +1,26 @@
+-- Disputed payments: transfers to the seller are frozen until the dispute closes
+ALTER TYPE "public"."transfer_status" ADD VALUE IF NOT EXISTS 'frozen';
+
+-- Stripe disputes (chargebacks), one row per disputed store order
+CREATE TABLE IF NOT EXISTS "order_disputes" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "order_id" uuid NOT NULL REFERENCES "orders"("id") ON DELETE CASCADE,
+  "order_payment_id" uuid REFERENCES "order_payments"("id") ON DELETE SET NULL,
+  "store_id" uuid REFERENCES "store"("id") ON DELETE SET NULL,
+  "stripe_dispute_id" text NOT NULL,
+  "stripe_charge_id" text,
+  "amount" numeric(10, 2) NOT NULL,
+  "currency" text NOT NULL,
+  "reason" text,
+  "status" text NOT NULL,
+  "ledger_amount" numeric(10, 2) DEFAULT '0' NOT NULL,
+  "previous_transfer_status" text,
+  "evidence_due_by" timestamp,
+  "evidence_submitted_at" timestamp,
+  "evidence_submitted_by" text REFERENCES "user"("id") ON DELETE SET NULL,
+  "closed_at" timestamp,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL,
+  CONSTRAINT "order_disputes_dispute_order_unique" UNIQUE ("stripe_dispute_id", "order_id")
+);
+CREATE INDEX IF NOT EXISTS "order_disputes_store_idx" ON "order_disputes" ("store_id");
@@ -0,0 +1,50 @@
+-- Return window driving return (RMA) eligibility; NULL = returns not accepted
+ALTER TABLE "store_policies" ADD COLUMN IF NOT EXISTS "return_window_days" integer;
+
+DO $$ BEGIN
+  CREATE TYPE "public"."return_request_status" AS ENUM('requested', 'approved', 'rejected', 'in_transit', 'received', 'refunded', 'cancelled');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+-- Return merchandise authorizations
+CREATE TABLE IF NOT EXISTS "return_requests" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "rma_number" text NOT NULL UNIQUE,
+  "order_id" uuid NOT NULL REFERENCES "orders"("id") ON DELETE CASCADE,
+  "store_id" uuid REFERENCES "store"("id") ON DELETE SET NULL,
+  "customer_id" uuid REFERENCES "customers"("id") ON DELETE SET NULL,
+  "requested_by" text REFERENCES "user"("id") ON DELETE SET NULL,
+  "reason" text NOT NULL,
+  "description" text,
+  "status" "return_request_status" DEFAULT 'requested' NOT NULL,
+  "reviewed_by" text REFERENCES "user"("id") ON DELETE SET NULL,
+  "reviewed_at" timestamp,
+  "rejection_reason" text,
+  "carrier" text,
+  "tracking_number" text,
+  "tracking_url" text,
+  "label_url" text,
+  "easyship_shipment_id" text,
+  "label_cost" numeric(10, 2),
+  "label_currency" text,
+  "shipped_at" timestamp,
+  "received_at" timestamp,
+  "inspected_by" text REFERENCES "user"("id") ON DELETE SET NULL,
+  "inspected_at" timestamp,
+  "refund_amount" numeric(10, 2),
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL
+);
+CREATE INDEX IF NOT EXISTS "return_requests_order_idx" ON "return_requests" ("order_id");
+CREATE INDEX IF NOT EXISTS "return_requests_store_status_idx" ON "return_requests" ("store_id", "status");
+
+CREATE TABLE IF NOT EXISTS "return_request_items" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "return_request_id" uuid NOT NULL REFERENCES "return_requests"("id") ON DELETE CASCADE,
+  "order_item_id" uuid NOT NULL REFERENCES "order_items"("id") ON DELETE CASCADE,
+  "quantity" integer NOT NULL,
+  "restocked_quantity" integer DEFAULT 0 NOT NULL,
+  "damaged_quantity" integer DEFAULT 0 NOT NULL,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
@@ -0,0 +1,24 @@
+-- One customer payment shared by the per-store orders of a checkout
+CREATE TABLE IF NOT EXISTS "checkout_groups" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "checkout_number" text NOT NULL UNIQUE,
+  "user_id" text REFERENCES "user"("id") ON DELETE SET NULL,
+  "customer_email" text NOT NULL,
+  "currency" text NOT NULL,
+  "subtotal_amount" numeric(10, 2) DEFAULT '0' NOT NULL,
+  "discount_amount" numeric(10, 2) DEFAULT '0' NOT NULL,
+  "shipping_amount" numeric(10, 2) DEFAULT '0' NOT NULL,
+  "tax_amount" numeric(10, 2) DEFAULT '0' NOT NULL,
+  "tax_inclusive" boolean DEFAULT false NOT NULL,
+  "total_amount" numeric(10, 2) DEFAULT '0' NOT NULL,
+  "payment_provider" text,
+  "stripe_checkout_session_id" text,
+  "stripe_payment_intent_id" text,
+  "paid_at" timestamp,
+  "confirmation_sent_at" timestamp,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL
+);
+CREATE INDEX IF NOT EXISTS "checkout_groups_payment_intent_idx" ON "checkout_groups" ("stripe_payment_intent_id");
+
+ALTER TABLE "orders" ADD COLUMN IF NOT EXISTS "checkout_group_id" uuid REFERENCES "checkout_groups"("id") ON DELETE SET NULL;
@@ -0,0 +1,3 @@
+-- Delivery timestamps reported by EasyShip tracking updates
+ALTER TABLE "orders" ADD COLUMN IF NOT EXISTS "delivered_at" timestamp;
+ALTER TABLE "fulfillments" ADD COLUMN IF NOT EXISTS "delivered_at" timestamp;
@@ -0,0 +1,5 @@
+-- Weight-bracket, dimensional and free-over-threshold manual shipping rates
+ALTER TABLE "shipping_profiles" ADD COLUMN IF NOT EXISTS "combined_shipping_cap_cents" integer;
+ALTER TABLE "shipping_rates" ADD COLUMN IF NOT EXISTS "pricing_method" text DEFAULT 'per_item' NOT NULL;
+ALTER TABLE "shipping_rates" ADD COLUMN IF NOT EXISTS "dimensional_divisor" integer;
+ALTER TABLE "shipping_rates" ADD COLUMN IF NOT EXISTS "free_shipping_threshold_cents" integer;
@@ -0,0 +1,30 @@
+-- Admin-defined shipping zones that shipping destinations ("region" type) can target
+CREATE TABLE IF NOT EXISTS "shipping_zones" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "code" text NOT NULL,
+  "name" text NOT NULL,
+  "description" text,
+  "zone_type" text NOT NULL,
+  "country_codes" jsonb NOT NULL,
+  "region_codes" jsonb,
+  "postal_code_ranges" jsonb,
+  "is_active" boolean DEFAULT true NOT NULL,
+  "created_by" text REFERENCES "user"("id") ON DELETE SET NULL,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL,
+  CONSTRAINT "shipping_zones_code_unique" UNIQUE("code")
+);
+
+-- Default zones
+INSERT INTO "shipping_zones" ("code", "name", "description", "zone_type", "country_codes", "region_codes") VALUES
+  ('EU', 'European Union', 'The 27 EU member states', 'countries',
+    '["AT","BE","BG","HR","CY","CZ","DK","EE","FI","FR","DE","GR","HU","IE","IT","LV","LT","LU","MT","NL","PL","PT","RO","SK","SI","ES","SE"]', NULL),
+  ('NORDICS', 'Nordic countries', 'Denmark, Finland, Iceland, Norway and Sweden', 'countries',
+    '["DK","FI","IS","NO","SE"]', NULL),
+  ('SOUTH_ASIA', 'South Asia', 'Afghanistan, Bangladesh, Bhutan, India, Maldives, Nepal, Pakistan and Sri Lanka', 'countries',
+    '["AF","BD","BT","IN","MV","NP","PK","LK"]', NULL),
+  ('US_LOWER_48', 'US lower 48', 'Contiguous United States and the District of Columbia', 'regions',
+    '["US"]', '["AL","AZ","AR","CA","CO","CT","DE","DC","FL","GA","ID","IL","IN","IA","KS","KY","LA","ME","MD","MA","MI","MN","MS","MO","MT","NE","NV","NH","NJ","NM","NY","NC","ND","OH","OK","OR","PA","RI","SC","SD","TN","TX","UT","VT","VA","WA","WV","WI","WY"]'),
+  ('US_AK_HI', 'Alaska and Hawaii', 'US states outside the contiguous United States', 'regions',
+    '["US"]', '["AK","HI"]')
+ON CONFLICT ("code") DO NOTHING;
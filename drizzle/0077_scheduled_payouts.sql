@@ -0,0 +1,8 @@
+-- Automatic payout scheduler: per-slot idempotency, NPR batches, Stripe retries and statements
+ALTER TABLE "seller_payouts" ADD COLUMN IF NOT EXISTS "scheduled_for" timestamp;
+ALTER TABLE "seller_payouts" ADD COLUMN IF NOT EXISTS "idempotency_key" text;
+ALTER TABLE "seller_payouts" ADD COLUMN IF NOT EXISTS "batch_id" text;
+ALTER TABLE "seller_payouts" ADD COLUMN IF NOT EXISTS "attempt_count" integer DEFAULT 0 NOT NULL;
+ALTER TABLE "seller_payouts" ADD COLUMN IF NOT EXISTS "next_retry_at" timestamp;
+ALTER TABLE "seller_payouts" ADD COLUMN IF NOT EXISTS "statement_sent_at" timestamp;
+CREATE UNIQUE INDEX IF NOT EXISTS "seller_payouts_idempotency_key_unique" ON "seller_payouts" ("idempotency_key");
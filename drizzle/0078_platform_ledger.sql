@@ -0,0 +1,43 @@
+-- Double-entry platform ledger and Stripe reconciliation runs
+CREATE TABLE IF NOT EXISTS "ledger_journal_entries" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "source" text NOT NULL,
+  "source_id" text NOT NULL,
+  "entry_type" text NOT NULL,
+  "currency" text NOT NULL,
+  "description" text,
+  "store_id" uuid REFERENCES "store"("id") ON DELETE SET NULL,
+  "order_id" uuid REFERENCES "orders"("id") ON DELETE SET NULL,
+  "payout_id" uuid REFERENCES "seller_payouts"("id") ON DELETE SET NULL,
+  "stripe_ref" text,
+  "posted_at" timestamp NOT NULL,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  CONSTRAINT "ledger_journal_entries_source_unique" UNIQUE("source", "source_id")
+);
+CREATE INDEX IF NOT EXISTS "ledger_journal_entries_posted_at_idx" ON "ledger_journal_entries" ("posted_at");
+CREATE INDEX IF NOT EXISTS "ledger_journal_entries_stripe_ref_idx" ON "ledger_journal_entries" ("stripe_ref");
+
+CREATE TABLE IF NOT EXISTS "ledger_journal_lines" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "entry_id" uuid NOT NULL REFERENCES "ledger_journal_entries"("id") ON DELETE CASCADE,
+  "account" text NOT NULL,
+  "debit" numeric(12, 2) DEFAULT '0' NOT NULL,
+  "credit" numeric(12, 2) DEFAULT '0' NOT NULL
+);
+CREATE INDEX IF NOT EXISTS "ledger_journal_lines_entry_idx" ON "ledger_journal_lines" ("entry_id");
+CREATE INDEX IF NOT EXISTS "ledger_journal_lines_account_idx" ON "ledger_journal_lines" ("account");
+
+CREATE TABLE IF NOT EXISTS "ledger_reconciliation_runs" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "period_start" timestamp NOT NULL,
+  "period_end" timestamp NOT NULL,
+  "status" text NOT NULL,
+  "stripe_transaction_count" integer DEFAULT 0 NOT NULL,
+  "matched_count" integer DEFAULT 0 NOT NULL,
+  "totals" jsonb,
+  "issues" jsonb,
+  "error_message" text,
+  "triggered_by" text REFERENCES "user"("id") ON DELETE SET NULL,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+CREATE INDEX IF NOT EXISTS "ledger_reconciliation_runs_created_at_idx" ON "ledger_reconciliation_runs" ("created_at");
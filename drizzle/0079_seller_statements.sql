@@ -0,0 +1,19 @@
+-- Monthly seller statements and annual earnings summaries rendered as PDF
+CREATE TABLE IF NOT EXISTS "seller_statements" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "store_id" uuid NOT NULL REFERENCES "store"("id") ON DELETE CASCADE,
+  "currency" text NOT NULL,
+  "period_type" text NOT NULL,
+  "period_start" timestamp NOT NULL,
+  "period_end" timestamp NOT NULL,
+  "opening_balance" numeric(12, 2) DEFAULT '0' NOT NULL,
+  "closing_balance" numeric(12, 2) DEFAULT '0' NOT NULL,
+  "totals" jsonb,
+  "pdf_url" text,
+  "pdf_public_id" text,
+  "emailed_at" timestamp,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL,
+  CONSTRAINT "seller_statements_period_unique" UNIQUE("store_id", "currency", "period_type", "period_start")
+);
+CREATE INDEX IF NOT EXISTS "seller_statements_store_idx" ON "seller_statements" ("store_id");
@@ -0,0 +1,29 @@
+-- Admin-managed platform fee schedule, snapshotted on each order payment
+CREATE TABLE IF NOT EXISTS "platform_fee_rules" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "name" text NOT NULL,
+  "store_id" uuid REFERENCES "store"("id") ON DELETE CASCADE,
+  "taxonomy_category_id" text,
+  "market_id" uuid REFERENCES "markets"("id") ON DELETE CASCADE,
+  "currency" text,
+  "rate_percent" numeric(6, 3) NOT NULL,
+  "fixed_fee" numeric(10, 2) DEFAULT '0' NOT NULL,
+  "max_fee" numeric(10, 2),
+  "max_store_age_days" integer,
+  "starts_at" timestamp,
+  "ends_at" timestamp,
+  "priority" integer DEFAULT 0 NOT NULL,
+  "is_active" boolean DEFAULT true NOT NULL,
+  "notes" text,
+  "created_by" text REFERENCES "user"("id") ON DELETE SET NULL,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL
+);
+CREATE INDEX IF NOT EXISTS "platform_fee_rules_store_idx" ON "platform_fee_rules" ("store_id");
+
+ALTER TABLE "order_payments" ADD COLUMN IF NOT EXISTS "platform_fee_rule" jsonb;
+
+-- Keep the previous flat 5% as the editable default rate
+INSERT INTO "platform_fee_rules" ("name", "rate_percent")
+SELECT 'Default', '5.000'
+WHERE NOT EXISTS (SELECT 1 FROM "platform_fee_rules");
@@ -0,0 +1,62 @@
+-- Subscription plans on listings and the customer subscriptions billed from them
+CREATE TABLE IF NOT EXISTS "subscription_plans" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "store_id" uuid NOT NULL REFERENCES "store"("id") ON DELETE CASCADE,
+  "listing_id" uuid NOT NULL REFERENCES "listing"("id") ON DELETE CASCADE,
+  "variant_id" uuid REFERENCES "listing_variants"("id") ON DELETE CASCADE,
+  "name" text NOT NULL,
+  "interval" text NOT NULL,
+  "interval_count" integer DEFAULT 1 NOT NULL,
+  "discount_percent" numeric(5, 2) DEFAULT '0' NOT NULL,
+  "min_cycles" integer DEFAULT 1 NOT NULL,
+  "is_active" boolean DEFAULT true NOT NULL,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL
+);
+CREATE INDEX IF NOT EXISTS "subscription_plans_listing_idx" ON "subscription_plans" ("listing_id");
+
+CREATE TABLE IF NOT EXISTS "subscriptions" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "plan_id" uuid REFERENCES "subscription_plans"("id") ON DELETE SET NULL,
+  "store_id" uuid NOT NULL REFERENCES "store"("id") ON DELETE CASCADE,
+  "listing_id" uuid NOT NULL REFERENCES "listing"("id") ON DELETE CASCADE,
+  "variant_id" uuid REFERENCES "listing_variants"("id") ON DELETE SET NULL,
+  "user_id" text NOT NULL REFERENCES "user"("id") ON DELETE CASCADE,
+  "customer_email" text NOT NULL,
+  "quantity" integer DEFAULT 1 NOT NULL,
+  "currency" text NOT NULL,
+  "status" text DEFAULT 'incomplete' NOT NULL,
+  "plan_name" text NOT NULL,
+  "interval" text NOT NULL,
+  "interval_count" integer DEFAULT 1 NOT NULL,
+  "discount_percent" numeric(5, 2) DEFAULT '0' NOT NULL,
+  "min_cycles" integer DEFAULT 1 NOT NULL,
+  "shipping_name" text,
+  "shipping_phone" text,
+  "shipping_address_line_1" text,
+  "shipping_address_line_2" text,
+  "shipping_city" text,
+  "shipping_region" text,
+  "shipping_postal_code" text,
+  "shipping_country" text,
+  "stripe_customer_id" text,
+  "stripe_payment_method_id" text,
+  "current_cycle" integer DEFAULT 0 NOT NULL,
+  "skipped_cycles" integer DEFAULT 0 NOT NULL,
+  "next_billing_at" timestamp,
+  "last_order_id" uuid,
+  "failed_attempts" integer DEFAULT 0 NOT NULL,
+  "last_error" text,
+  "paused_at" timestamp,
+  "resume_at" timestamp,
+  "cancelled_at" timestamp,
+  "cancel_reason" text,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL
+);
+CREATE INDEX IF NOT EXISTS "subscriptions_user_idx" ON "subscriptions" ("user_id");
+CREATE INDEX IF NOT EXISTS "subscriptions_store_idx" ON "subscriptions" ("store_id");
+CREATE INDEX IF NOT EXISTS "subscriptions_due_idx" ON "subscriptions" ("status", "next_billing_at");
+
+ALTER TABLE "orders" ADD COLUMN IF NOT EXISTS "subscription_id" uuid REFERENCES "subscriptions"("id") ON DELETE SET NULL;
+ALTER TABLE "orders" ADD COLUMN IF NOT EXISTS "subscription_cycle" integer;
@@ -0,0 +1,10 @@
+-- Bundle variants composed of other variants; stock moves on the components
+CREATE TABLE IF NOT EXISTS "bundle_components" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "bundle_variant_id" uuid NOT NULL REFERENCES "listing_variants"("id") ON DELETE CASCADE,
+  "component_variant_id" uuid NOT NULL REFERENCES "listing_variants"("id") ON DELETE CASCADE,
+  "quantity" integer DEFAULT 1 NOT NULL,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+CREATE UNIQUE INDEX IF NOT EXISTS "bundle_components_unique" ON "bundle_components" ("bundle_variant_id", "component_variant_id");
+CREATE INDEX IF NOT EXISTS "bundle_components_component_idx" ON "bundle_components" ("component_variant_id");
@@ -0,0 +1,51 @@
+-- Suppliers and purchase orders for incoming stock
+CREATE TABLE IF NOT EXISTS "suppliers" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "store_id" uuid NOT NULL REFERENCES "store"("id") ON DELETE CASCADE,
+  "name" text NOT NULL,
+  "contact_name" text,
+  "email" text,
+  "phone" text,
+  "address" text,
+  "notes" text,
+  "is_active" boolean DEFAULT true NOT NULL,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL
+);
+CREATE INDEX IF NOT EXISTS "suppliers_store_idx" ON "suppliers" ("store_id");
+
+CREATE TABLE IF NOT EXISTS "purchase_orders" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "store_id" uuid NOT NULL REFERENCES "store"("id") ON DELETE CASCADE,
+  "supplier_id" uuid NOT NULL REFERENCES "suppliers"("id") ON DELETE RESTRICT,
+  "location_id" uuid NOT NULL REFERENCES "inventory_locations"("id") ON DELETE RESTRICT,
+  "sequence" integer NOT NULL,
+  "status" text DEFAULT 'draft' NOT NULL,
+  "currency" text NOT NULL,
+  "expected_at" timestamp,
+  "ordered_at" timestamp,
+  "received_at" timestamp,
+  "closed_at" timestamp,
+  "notes" text,
+  "pdf_url" text,
+  "pdf_public_id" text,
+  "created_by" text REFERENCES "user"("id") ON DELETE SET NULL,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL
+);
+CREATE UNIQUE INDEX IF NOT EXISTS "purchase_orders_store_sequence_unique" ON "purchase_orders" ("store_id", "sequence");
+CREATE INDEX IF NOT EXISTS "purchase_orders_supplier_idx" ON "purchase_orders" ("supplier_id");
+
+CREATE TABLE IF NOT EXISTS "purchase_order_items" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "purchase_order_id" uuid NOT NULL REFERENCES "purchase_orders"("id") ON DELETE CASCADE,
+  "variant_id" uuid REFERENCES "listing_variants"("id") ON DELETE SET NULL,
+  "product_name" text NOT NULL,
+  "variant_title" text,
+  "sku" text,
+  "quantity_ordered" integer NOT NULL,
+  "quantity_received" integer DEFAULT 0 NOT NULL,
+  "unit_cost" numeric(10, 2) DEFAULT '0' NOT NULL,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+CREATE INDEX IF NOT EXISTS "purchase_order_items_po_idx" ON "purchase_order_items" ("purchase_order_id");
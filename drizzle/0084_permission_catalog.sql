@@ -0,0 +1,43 @@
+-- Permission catalog used by requirePermission (lib/permissions.ts), with
+-- default grants: Admin gets every permission, Seller the store permissions.
+INSERT INTO "permissions" ("id", "name", "description", "category", "updated_at")
+VALUES
+  ('users.manage', 'Manage users and roles', 'Edit users, suspend accounts, and edit roles and permissions', 'Platform', now()),
+  ('stores.all', 'Access all stores', 'Use the store permissions below on every store, not only stores the user is a member of', 'Platform', now()),
+  ('platform.settings', 'Manage platform settings', 'Fee schedule, tax rules, markets, categories, shipping zones and store approval', 'Platform', now()),
+  ('platform.content', 'Manage site content', 'Homepage, site pages, FAQ, documentation and translations', 'Platform', now()),
+  ('platform.finances', 'Platform finances', 'Ledger, reconciliation, disputes and platform analytics', 'Platform', now()),
+  ('audit.view', 'View audit log', 'Read the audit trail of sensitive actions', 'Platform', now()),
+  ('orders.view', 'View orders', 'See orders, drafts, returns and customer details on them', 'Orders', now()),
+  ('orders.manage', 'Manage orders', 'Create, edit, fulfill and cancel orders and drafts, send invoices', 'Orders', now()),
+  ('orders.refund', 'Refund orders', 'Issue refunds and decide refund requests and returns', 'Orders', now()),
+  ('products.manage', 'Manage products', 'Create and edit products, variants, bundles and plans', 'Catalog', now()),
+  ('inventory.manage', 'Manage inventory', 'Stock levels, locations, suppliers and purchase orders', 'Catalog', now()),
+  ('discounts.manage', 'Manage discounts', 'Create and edit discounts and discount codes', 'Catalog', now()),
+  ('customers.manage', 'Manage customers', 'View and edit the store''s customers', 'Customers', now()),
+  ('reviews.manage', 'Manage reviews', 'Moderate and answer product reviews', 'Customers', now()),
+  ('shipping.manage', 'Manage shipping', 'Shipping profiles, packages and labels', 'Store', now()),
+  ('finances.view', 'View finances', 'Balance, payouts, statements and store analytics', 'Store', now()),
+  ('finances.payout', 'Withdraw funds', 'Request payouts of the store''s balance', 'Store', now()),
+  ('store.settings', 'Manage store settings', 'Store profile, storefront, payments setup and members', 'Store', now())
+ON CONFLICT ("id") DO UPDATE SET
+  "name" = EXCLUDED."name",
+  "description" = EXCLUDED."description",
+  "category" = EXCLUDED."category",
+  "updated_at" = now();
+
+INSERT INTO "role_permissions" ("role_id", "permission_id")
+SELECT r."id", p."id"
+FROM "roles" r
+CROSS JOIN "permissions" p
+WHERE lower(r."name") = 'admin'
+  AND p."id" IN ('users.manage', 'stores.all', 'platform.settings', 'platform.content', 'platform.finances', 'audit.view', 'orders.view', 'orders.manage', 'orders.refund', 'products.manage', 'inventory.manage', 'discounts.manage', 'customers.manage', 'reviews.manage', 'shipping.manage', 'finances.view', 'finances.payout', 'store.settings')
+ON CONFLICT DO NOTHING;
+
+INSERT INTO "role_permissions" ("role_id", "permission_id")
+SELECT r."id", p."id"
+FROM "roles" r
+CROSS JOIN "permissions" p
+WHERE lower(r."name") = 'seller'
+  AND p."id" IN ('orders.view', 'orders.manage', 'orders.refund', 'products.manage', 'inventory.manage', 'discounts.manage', 'customers.manage', 'reviews.manage', 'shipping.manage', 'finances.view', 'finances.payout', 'store.settings')
+ON CONFLICT DO NOTHING;
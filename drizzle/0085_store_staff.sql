@@ -0,0 +1,37 @@
+-- Store staff: invited members with their own permission sets
+ALTER TYPE "store_member_role" ADD VALUE IF NOT EXISTS 'staff';
+
+ALTER TABLE "store_members" ADD COLUMN IF NOT EXISTS "permissions" text[];
+
+CREATE TABLE IF NOT EXISTS "store_invitations" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "store_id" uuid NOT NULL REFERENCES "store"("id") ON DELETE CASCADE,
+  "email" text NOT NULL,
+  "permissions" text[] NOT NULL,
+  "token" text NOT NULL,
+  "invited_by" text REFERENCES "user"("id") ON DELETE SET NULL,
+  "expires_at" timestamp NOT NULL,
+  "accepted_at" timestamp,
+  "accepted_by" text REFERENCES "user"("id") ON DELETE SET NULL,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  CONSTRAINT "store_invitations_token_unique" UNIQUE ("token")
+);
+CREATE INDEX IF NOT EXISTS "store_invitations_store_idx" ON "store_invitations" ("store_id");
+CREATE INDEX IF NOT EXISTS "store_invitations_email_idx" ON "store_invitations" ("email");
+
+-- Answering customer chats is a store permission of its own, so staff can be
+-- given it without order access
+INSERT INTO "permissions" ("id", "name", "description", "category", "updated_at")
+VALUES
+  ('chat.respond', 'Answer customer chat', 'Read and reply to the store''s customer conversations', 'Customers', now())
+ON CONFLICT ("id") DO UPDATE SET
+  "name" = EXCLUDED."name",
+  "description" = EXCLUDED."description",
+  "category" = EXCLUDED."category",
+  "updated_at" = now();
+
+INSERT INTO "role_permissions" ("role_id", "permission_id")
+SELECT r."id", 'chat.respond'
+FROM "roles" r
+WHERE lower(r."name") IN ('admin', 'seller')
+ON CONFLICT DO NOTHING;
@@ -0,0 +1,60 @@
+-- Review photos, seller replies, helpful votes, abuse reports and moderation
+DO $$ BEGIN
+  CREATE TYPE "review_status" AS ENUM ('published', 'hidden');
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$ BEGIN
+  CREATE TYPE "review_type" AS ENUM ('product', 'store');
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$ BEGIN
+  CREATE TYPE "review_report_status" AS ENUM ('open', 'resolved', 'dismissed');
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+ALTER TABLE "product_review" ADD COLUMN IF NOT EXISTS "images" text[];
+ALTER TABLE "product_review" ADD COLUMN IF NOT EXISTS "status" "review_status" DEFAULT 'published' NOT NULL;
+ALTER TABLE "product_review" ADD COLUMN IF NOT EXISTS "hidden_reason" text;
+ALTER TABLE "product_review" ADD COLUMN IF NOT EXISTS "hidden_at" timestamp;
+ALTER TABLE "product_review" ADD COLUMN IF NOT EXISTS "hidden_by" text REFERENCES "user"("id") ON DELETE SET NULL;
+ALTER TABLE "product_review" ADD COLUMN IF NOT EXISTS "helpful_count" integer DEFAULT 0 NOT NULL;
+ALTER TABLE "product_review" ADD COLUMN IF NOT EXISTS "seller_reply" text;
+ALTER TABLE "product_review" ADD COLUMN IF NOT EXISTS "seller_reply_at" timestamp;
+ALTER TABLE "product_review" ADD COLUMN IF NOT EXISTS "seller_reply_by" text REFERENCES "user"("id") ON DELETE SET NULL;
+
+ALTER TABLE "store_review" ADD COLUMN IF NOT EXISTS "images" text[];
+ALTER TABLE "store_review" ADD COLUMN IF NOT EXISTS "status" "review_status" DEFAULT 'published' NOT NULL;
+ALTER TABLE "store_review" ADD COLUMN IF NOT EXISTS "hidden_reason" text;
+ALTER TABLE "store_review" ADD COLUMN IF NOT EXISTS "hidden_at" timestamp;
+ALTER TABLE "store_review" ADD COLUMN IF NOT EXISTS "hidden_by" text REFERENCES "user"("id") ON DELETE SET NULL;
+ALTER TABLE "store_review" ADD COLUMN IF NOT EXISTS "helpful_count" integer DEFAULT 0 NOT NULL;
+ALTER TABLE "store_review" ADD COLUMN IF NOT EXISTS "seller_reply" text;
+ALTER TABLE "store_review" ADD COLUMN IF NOT EXISTS "seller_reply_at" timestamp;
+ALTER TABLE "store_review" ADD COLUMN IF NOT EXISTS "seller_reply_by" text REFERENCES "user"("id") ON DELETE SET NULL;
+
+CREATE TABLE IF NOT EXISTS "review_votes" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "review_type" "review_type" NOT NULL,
+  "review_id" uuid NOT NULL,
+  "user_id" text NOT NULL REFERENCES "user"("id") ON DELETE CASCADE,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  CONSTRAINT "review_votes_review_user_unique" UNIQUE ("review_type", "review_id", "user_id")
+);
+
+CREATE TABLE IF NOT EXISTS "review_reports" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "review_type" "review_type" NOT NULL,
+  "review_id" uuid NOT NULL,
+  "reporter_id" text NOT NULL REFERENCES "user"("id") ON DELETE CASCADE,
+  "reason" text NOT NULL,
+  "details" text,
+  "status" "review_report_status" DEFAULT 'open' NOT NULL,
+  "resolved_at" timestamp,
+  "resolved_by" text REFERENCES "user"("id") ON DELETE SET NULL,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  CONSTRAINT "review_reports_review_reporter_unique" UNIQUE ("review_type", "review_id", "reporter_id")
+);
+CREATE INDEX IF NOT EXISTS "review_reports_review_idx" ON "review_reports" ("review_type", "review_id");
+CREATE INDEX IF NOT EXISTS "review_reports_status_idx" ON "review_reports" ("status");
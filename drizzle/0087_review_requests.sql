@@ -0,0 +1,15 @@
+-- Post-purchase review request emails
+ALTER TABLE "store" ADD COLUMN IF NOT EXISTS "review_requests_enabled" boolean DEFAULT true NOT NULL;
+
+CREATE TABLE IF NOT EXISTS "review_requests" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "order_id" uuid NOT NULL REFERENCES "orders"("id") ON DELETE CASCADE,
+  "store_id" uuid REFERENCES "store"("id") ON DELETE SET NULL,
+  "email" text NOT NULL,
+  "locale" varchar(10) DEFAULT 'en' NOT NULL,
+  "status" text NOT NULL,
+  "sent_at" timestamp,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  CONSTRAINT "review_requests_order_unique" UNIQUE ("order_id")
+);
+CREATE INDEX IF NOT EXISTS "review_requests_store_idx" ON "review_requests" ("store_id");
@@ -0,0 +1,39 @@
+-- Public product questions answered by stores, with per-locale translations
+DO $$ BEGIN
+  CREATE TYPE "product_question_status" AS ENUM ('published', 'hidden');
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+CREATE TABLE IF NOT EXISTS "product_questions" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "listing_id" uuid NOT NULL REFERENCES "listing"("id") ON DELETE CASCADE,
+  "store_id" uuid NOT NULL REFERENCES "store"("id") ON DELETE CASCADE,
+  "user_id" text REFERENCES "user"("id") ON DELETE SET NULL,
+  "question" text NOT NULL,
+  "locale" varchar(10) DEFAULT 'en' NOT NULL,
+  "answer" text,
+  "answered_at" timestamp,
+  "answered_by" text REFERENCES "user"("id") ON DELETE SET NULL,
+  "status" "product_question_status" DEFAULT 'published' NOT NULL,
+  "hidden_reason" text,
+  "hidden_at" timestamp,
+  "hidden_by" text REFERENCES "user"("id") ON DELETE SET NULL,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL
+);
+CREATE INDEX IF NOT EXISTS "product_questions_listing_idx" ON "product_questions" ("listing_id", "status");
+CREATE INDEX IF NOT EXISTS "product_questions_store_idx" ON "product_questions" ("store_id");
+
+CREATE TABLE IF NOT EXISTS "product_question_translations" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "question_id" uuid NOT NULL REFERENCES "product_questions"("id") ON DELETE CASCADE,
+  "locale" varchar(10) NOT NULL,
+  "question" text NOT NULL,
+  "answer" text,
+  CONSTRAINT "product_question_translations_locale_unique" UNIQUE ("question_id", "locale")
+);
+
+-- Answering questions falls under managing reviews
+UPDATE "permissions"
+SET "description" = 'Moderate and answer product reviews and questions', "updated_at" = now()
+WHERE "id" = 'reviews.manage';
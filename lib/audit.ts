@@ -0,0 +1,111 @@
+/**
+ * Audit trail for sensitive actions (audit_log).
+ *
+ * Call recordAuditEvent after the change has been written. It captures the
+ * request's IP and user agent, stores only the fields that changed between
+ * `before` and `after`, and never throws so auditing cannot break the action
+ * being audited.
+ */
+
+import { headers } from "next/headers";
+import { db } from "@/db";
+import { auditLog } from "@/db/schema";
+
+export type AuditChanges = Record<string, { before: unknown; after: unknown }>;
+
+export interface AuditEvent {
+  action: string; // "<entity>.<verb>", e.g. "user.suspended"
+  entityType: string;
+  entityId: string | number;
+  actorId?: string | null;
+  before?: object | null; // Snapshot before the change (omit on create)
+  after?: object | null; // Snapshot after the change (omit on delete)
+  metadata?: Record<string, unknown>;
+}
+
+// Never persisted, even when part of before/after snapshots
+const REDACTED_FIELDS = new Set([
+  "password",
+  "token",
+  "bankDetailsEncrypted",
+  "esewaId",
+  "accountNumber",
+]);
+
+function normalizeValue(value: unknown): unknown {
+  if (value instanceof Date) return value.toISOString();
+  return value ?? null;
+}
+
+/**
+ * Fields whose values differ between two snapshots. A missing snapshot
+ * (create / delete) reports every field of the other one.
+ */
+export function diffSnapshots(
+  beforeSnapshot?: object | null,
+  afterSnapshot?: object | null
+): AuditChanges {
+  const before = beforeSnapshot as Record<string, unknown> | null | undefined;
+  const after = afterSnapshot as Record<string, unknown> | null | undefined;
+  const changes: AuditChanges = {};
+  const keys = new Set([
+    ...Object.keys(before ?? {}),
+    ...Object.keys(after ?? {}),
+  ]);
+
+  for (const key of keys) {
+    if (key === "updatedAt" || key === "createdAt") continue;
+    const prev = normalizeValue(before?.[key]);
+    const next = normalizeValue(after?.[key]);
+    if (JSON.stringify(prev) === JSON.stringify(next)) continue;
+
+    changes[key] = REDACTED_FIELDS.has(key)
+      ? { before: "[redacted]", after: "[redacted]" }
+      : { before: prev, after: next };
+  }
+
+  return changes;
+}
+
+async function getRequestContext(): Promise<{
+  ipAddress: string | null;
+  userAgent: string | null;
+}> {
+  try {
+    const requestHeaders = await headers();
+    const forwarded = requestHeaders.get("x-forwarded-for");
+    const ipAddress = forwarded
+      ? forwarded.split(",")[0].trim()
+      : requestHeaders.get("x-real-ip");
+    return {
+      ipAddress: ipAddress || null,
+      userAgent: requestHeaders.get("user-agent"),
+    };
+  } catch {
+    // Outside a request (webhooks replayed from scripts, cron jobs)
+    return { ipAddress: null, userAgent: null };
+  }
+}
+
+export async function recordAuditEvent(event: AuditEvent): Promise<void> {
+  try {
+    const { ipAddress, userAgent } = await getRequestContext();
+    const changes =
+      event.before || event.after
+        ? diffSnapshots(event.before, event.after)
+        : null;
+
+    await db.insert(auditLog).values({
+      action: event.action,
+      entityType: event.entityType,
+      entityId: String(event.entityId),
+      userId: event.actorId ?? null,
+      ipAddress,
+      userAgent,
+      changes,
+      metadata: event.metadata ?? null,
+    });
+  } catch (error) {
+    console.error(`Failed to record audit event ${event.action}:`, error);
+  }
+}
@@ -0,0 +1,147 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { bundleComponents, inventoryItems } from "@/db/schema";
+import {
+  expandBundleItems,
+  getBundleAvailability,
+  getInventoryLines,
+  type BundleComponentLine,
+} from "./bundles";
+
+// Rows returned by db.select().from(table), keyed by table
+const dbRows = vi.hoisted(() => new Map<unknown, unknown[]>());
+
+vi.mock("@/db", () => ({
+  db: {
+    select: () => ({
+      from: (table: unknown) => {
+        const query = {
+          innerJoin: () => query,
+          leftJoin: () => query,
+          where: () => query,
+          groupBy: () => query,
+          then: (resolve: (rows: unknown[]) => unknown) =>
+            resolve(dbRows.get(table) ?? []),
+        };
+        return query;
+      },
+    }),
+  },
+}));
+
+function component(
+  bundleVariantId: string,
+  variantId: string,
+  quantity: number
+) {
+  return {
+    bundleVariantId,
+    variantId,
+    listingId: `listing-${variantId}`,
+    quantity,
+  };
+}
+
+// A tasting set of 3 jars of honey and a spoon
+const tastingSet = [
+  component("tasting-set", "honey-jar", 3),
+  component("tasting-set", "spoon", 1),
+];
+
+function stock(variantId: string, available: number) {
+  return { variantId, available };
+}
+
+beforeEach(() => {
+  dbRows.clear();
+  dbRows.set(bundleComponents, tastingSet);
+});
+
+describe("getInventoryLines", () => {
+  const componentMap = new Map<string, BundleComponentLine[]>([
+    [
+      "tasting-set",
+      tastingSet.map(({ variantId, listingId, quantity }) => ({
+        variantId,
+        listingId,
+        quantity,
+      })),
+    ],
+  ]);
+
+  it("moves a plain variant itself", () => {
+    expect(getInventoryLines(componentMap, "honey-jar", 2)).toEqual([
+      { variantId: "honey-jar", quantity: 2 },
+    ]);
+  });
+
+  it("moves each component of a bundle, scaled by the line quantity", () => {
+    expect(getInventoryLines(componentMap, "tasting-set", 2)).toEqual([
+      { variantId: "honey-jar", quantity: 6 },
+      { variantId: "spoon", quantity: 2 },
+    ]);
+  });
+
+  it("moves nothing for a line without a variant", () => {
+    expect(getInventoryLines(componentMap, null, 2)).toEqual([]);
+  });
+});
+
+describe("expandBundleItems", () => {
+  it("merges bundle components with the same variant bought on its own", async () => {
+    const items = await expandBundleItems([
+      { variantId: "tasting-set", quantity: 2 },
+      { variantId: "honey-jar", quantity: 1 },
+      { variantId: null, quantity: 4 },
+    ]);
+
+    expect(items).toEqual([
+      { variantId: "honey-jar", quantity: 7 },
+      { variantId: "spoon", quantity: 2 },
+      { variantId: null, quantity: 4 },
+    ]);
+  });
+
+  it("leaves the items alone when none is a bundle", async () => {
+    dbRows.set(bundleComponents, []);
+    const items = [{ variantId: "honey-jar", quantity: 1 }];
+
+    expect(await expandBundleItems(items)).toBe(items);
+  });
+});
+
+describe("getBundleAvailability", () => {
+  it("is limited by the scarcest component", async () => {
+    // Jars for 4 sets, spoons for 2
+    dbRows.set(inventoryItems, [stock("honey-jar", 13), stock("spoon", 2)]);
+
+    const availability = await getBundleAvailability(["tasting-set"]);
+
+    expect(availability.get("tasting-set")).toBe(2);
+  });
+
+  it("counts only complete bundles", async () => {
+    dbRows.set(inventoryItems, [stock("honey-jar", 8), stock("spoon", 10)]);
+
+    const availability = await getBundleAvailability(["tasting-set"]);
+
+    expect(availability.get("tasting-set")).toBe(2);
+  });
+
+  it("makes none when a component has no stock or is oversold", async () => {
+    dbRows.set(inventoryItems, [stock("honey-jar", 9)]);
+    expect(
+      (await getBundleAvailability(["tasting-set"])).get("tasting-set")
+    ).toBe(0);
+
+    dbRows.set(inventoryItems, [stock("honey-jar", 9), stock("spoon", -1)]);
+    expect(
+      (await getBundleAvailability(["tasting-set"])).get("tasting-set")
+    ).toBe(0);
+  });
+
+  it("leaves variants that are not bundles out", async () => {
+    dbRows.set(bundleComponents, []);
+
+    expect((await getBundleAvailability(["honey-jar"])).size).toBe(0);
+  });
+});
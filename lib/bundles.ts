@@ -0,0 +1,181 @@
+/**
+ * Bundles and kits: a listing variant made of other variants (e.g. a tasting
+ * set of 3 × 250g jars). A bundle holds no stock of its own. Its availability
+ * is the number of complete bundles the component stock can make, and every
+ * inventory movement for a bundle line (reserve, release, fulfill, restock,
+ * return) is applied to the components instead.
+ */
+import { db } from "@/db";
+import {
+  bundleComponents,
+  inventoryItems,
+  inventoryLevels,
+  listingVariants,
+} from "@/db/schema";
+import { and, eq, inArray, sql } from "drizzle-orm";
+
+type DbInstance =
+  | Parameters<Parameters<typeof db.transaction>[0]>[0]
+  | typeof db;
+
+export interface BundleComponentLine {
+  variantId: string;
+  listingId: string;
+  quantity: number; // units per bundle
+}
+
+/**
+ * Components keyed by bundle variant. Variants that are not bundles are
+ * missing from the map.
+ */
+export async function getBundleComponentMap(
+  variantIds: Array<string | null | undefined>,
+  executor: DbInstance = db
+): Promise<Map<string, BundleComponentLine[]>> {
+  const ids = [...new Set(variantIds.filter((id): id is string => !!id))];
+  const map = new Map<string, BundleComponentLine[]>();
+  if (ids.length === 0) return map;
+
+  const rows = await executor
+    .select({
+      bundleVariantId: bundleComponents.bundleVariantId,
+      variantId: bundleComponents.componentVariantId,
+      listingId: listingVariants.listingId,
+      quantity: bundleComponents.quantity,
+    })
+    .from(bundleComponents)
+    .innerJoin(
+      listingVariants,
+      eq(bundleComponents.componentVariantId, listingVariants.id)
+    )
+    .where(inArray(bundleComponents.bundleVariantId, ids));
+
+  for (const row of rows) {
+    const components = map.get(row.bundleVariantId) ?? [];
+    components.push({
+      variantId: row.variantId,
+      listingId: row.listingId,
+      quantity: row.quantity,
+    });
+    map.set(row.bundleVariantId, components);
+  }
+  return map;
+}
+
+/**
+ * The inventory lines one order line moves: the variant itself, or each
+ * component of a bundle scaled by the line quantity.
+ */
+export function getInventoryLines(
+  componentMap: Map<string, BundleComponentLine[]>,
+  variantId: string | null,
+  quantity: number
+): Array<{ variantId: string; quantity: number }> {
+  if (!variantId) return [];
+  const components = componentMap.get(variantId);
+  if (!components) return [{ variantId, quantity }];
+  return components.map((c) => ({
+    variantId: c.variantId,
+    quantity: quantity * c.quantity,
+  }));
+}
+
+/**
+ * Replace bundle lines with their components (bundle quantity × units per
+ * bundle) and merge lines for the same variant, so stock checks see the
+ * total demand on each inventory item.
+ */
+export async function expandBundleItems(
+  items: Array<{ variantId: string | null; quantity: number }>,
+  executor: DbInstance = db
+): Promise<Array<{ variantId: string | null; quantity: number }>> {
+  const componentMap = await getBundleComponentMap(
+    items.map((item) => item.variantId),
+    executor
+  );
+  if (componentMap.size === 0) return items;
+
+  const merged = new Map<string, number>();
+  const untracked: Array<{ variantId: string | null; quantity: number }> = [];
+  for (const item of items) {
+    if (!item.variantId) {
+      untracked.push(item);
+      continue;
+    }
+    for (const line of getInventoryLines(
+      componentMap,
+      item.variantId,
+      item.quantity
+    )) {
+      merged.set(
+        line.variantId,
+        (merged.get(line.variantId) ?? 0) + line.quantity
+      );
+    }
+  }
+
+  return [
+    ...[...merged.entries()].map(([variantId, quantity]) => ({
+      variantId,
+      quantity,
+    })),
+    ...untracked,
+  ];
+}
+
+/**
+ * How many complete bundles the component stock can make, per bundle
+ * variant. Stock is summed across locations unless a location is given.
+ */
+export async function getBundleAvailability(
+  bundleVariantIds: Array<string | null | undefined>,
+  locationId?: string | null,
+  executor: DbInstance = db
+): Promise<Map<string, number>> {
+  const componentMap = await getBundleComponentMap(bundleVariantIds, executor);
+  const availability = new Map<string, number>();
+  if (componentMap.size === 0) return availability;
+
+  const componentIds = [
+    ...new Set(
+      [...componentMap.values()].flatMap((components) =>
+        components.map((c) => c.variantId)
+      )
+    ),
+  ];
+  const stockRows = await executor
+    .select({
+      variantId: inventoryItems.variantId,
+      available: sql<number>`COALESCE(SUM(${inventoryLevels.available})::int, 0)`,
+    })
+    .from(inventoryItems)
+    .leftJoin(
+      inventoryLevels,
+      locationId
+        ? and(
+            eq(inventoryLevels.inventoryItemId, inventoryItems.id),
+            eq(inventoryLevels.locationId, locationId)
+          )
+        : eq(inventoryLevels.inventoryItemId, inventoryItems.id)
+    )
+    .where(inArray(inventoryItems.variantId, componentIds))
+    .groupBy(inventoryItems.variantId);
+  const stock = new Map(
+    stockRows.map((r) => [r.variantId, Number(r.available)])
+  );
+
+  for (const [bundleVariantId, components] of componentMap) {
+    availability.set(
+      bundleVariantId,
+      Math.max(
+        0,
+        Math.min(
+          ...components.map((c) =>
+            Math.floor((stock.get(c.variantId) ?? 0) / c.quantity)
+          )
+        )
+      )
+    );
+  }
+  return availability;
+}
@@ -7,101 +7,181 @@ import React, {
   useEffect,
   useCallback,
 } from "react";
+import { useParams } from "next/navigation";
 
 import { CartItem } from "./types";
+import { useSession } from "./auth-client";
+import {
+  getCart,
+  addCartItem,
+  updateCartItemQuantity,
+  removeCartItem,
+  clearCart as clearServerCart,
+  importCartItems,
+  type CartNotice,
+  type CartResponse,
+} from "@/app/[locale]/actions/cart";
+
+interface CartMutationResult {
+  success: boolean;
+  error?: string;
+  available?: number;
+}
 
 interface CartContextType {
   items: CartItem[];
-  addItem: (item: Omit<CartItem, "quantity">, quantity?: number) => void;
-  removeItem: (id: string) => void;
-  updateQuantity: (id: string, quantity: number) => void;
-  clearCart: () => void;
+  addItem: (
+    item: Omit<CartItem, "quantity">,
+    quantity?: number
+  ) => Promise<CartMutationResult>;
+  removeItem: (id: string) => Promise<void>;
+  updateQuantity: (id: string, quantity: number) => Promise<CartMutationResult>;
+  clearCart: () => Promise<void>;
+  refreshCart: () => Promise<void>;
+  notices: CartNotice[];
+  dismissNotices: () => void;
+  isLoading: boolean;
   total: number;
   itemCount: number;
 }
 
 const CartContext = createContext<CartContextType | undefined>(undefined);
 
+// Carts used to live in localStorage only; kept to migrate them once
 const CART_STORAGE_KEY = "golden-marketplace-cart";
 
+function takeLegacyCart(): CartItem[] {
+  try {
+    const savedCart = localStorage.getItem(CART_STORAGE_KEY);
+    if (!savedCart) return [];
+    localStorage.removeItem(CART_STORAGE_KEY);
+    const parsed = JSON.parse(savedCart);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    console.error("Failed to read cart from localStorage:", error);
+    return [];
+  }
+}
+
 export function CartProvider({ children }: { children: React.ReactNode }) {
-  const [items, setItems] = useState<CartItem[]>([]);
-  const [isHydrated, setIsHydrated] = useState(false);
+  const params = useParams();
+  const locale = (params?.locale as string) || "en";
+  const { data: session, isPending } = useSession();
+  const userId = session?.user?.id ?? null;
 
-  // Load cart from localStorage on mount
-  useEffect(() => {
-    try {
-      const savedCart = localStorage.getItem(CART_STORAGE_KEY);
-      if (savedCart) {
-        const parsed = JSON.parse(savedCart);
-        setItems(parsed);
-      }
-    } catch (error) {
-      console.error("Failed to load cart from localStorage:", error);
-    } finally {
-      setIsHydrated(true);
+  const [items, setItems] = useState<CartItem[]>([]);
+  const [notices, setNotices] = useState<CartNotice[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const applyResponse = useCallback((response: CartResponse) => {
+    if (!response.success && response.items.length === 0) {
+      // The cart could not be read; keep what we have
+      console.error("Cart error:", response.error);
+      return;
+    }
+    setItems(response.items);
+    if (response.notices.length > 0) {
+      setNotices((current) => [...current, ...response.notices]);
     }
   }, []);
 
-  // Save cart to localStorage whenever items change
+  // Load the server cart on mount and whenever the signed-in user changes.
+  // Loading right after login merges the guest cart into the account cart.
   useEffect(() => {
-    if (isHydrated) {
-      try {
-        localStorage.setItem(CART_STORAGE_KEY, JSON.stringify(items));
-      } catch (error) {
-        console.error("Failed to save cart to localStorage:", error);
+    if (isPending) return;
+
+    let cancelled = false;
+    const load = async () => {
+      setIsLoading(true);
+      const legacyItems = takeLegacyCart();
+      const response =
+        legacyItems.length > 0
+          ? await importCartItems(
+              legacyItems.map((item) => ({
+                listingId: item.listingId,
+                variantId: item.variantId ?? null,
+                quantity: item.quantity,
+              })),
+              locale
+            )
+          : await getCart(locale);
+      if (!cancelled) {
+        applyResponse(response);
+        setIsLoading(false);
       }
-    }
-  }, [items, isHydrated]);
+    };
+    load();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, isPending, locale, applyResponse]);
+
+  const refreshCart = useCallback(async () => {
+    applyResponse(await getCart(locale));
+  }, [locale, applyResponse]);
 
   const addItem = useCallback(
-    (item: Omit<CartItem, "quantity">, quantity: number = 1) => {
-      setItems((currentItems) => {
-        const existingItem = currentItems.find((i) => i.id === item.id);
-
-        if (existingItem) {
-          // If item exists, increment quantity
-          return currentItems.map((i) =>
-            i.id === item.id ? { ...i, quantity: i.quantity + quantity } : i
-          );
-        } else {
-          // Add new item
-          return [...currentItems, { ...item, quantity }];
-        }
-      });
+    async (item: Omit<CartItem, "quantity">, quantity: number = 1) => {
+      const response = await addCartItem(
+        {
+          listingId: item.listingId,
+          variantId: item.variantId ?? null,
+          quantity,
+        },
+        locale
+      );
+      applyResponse(response);
+      return {
+        success: response.success,
+        error: response.error,
+        available: response.available,
+      };
     },
-    []
+    [locale, applyResponse]
   );
 
-  const removeItem = useCallback((id: string) => {
-    setItems((currentItems) => currentItems.filter((item) => item.id !== id));
-  }, []);
+  const removeItem = useCallback(
+    async (id: string) => {
+      setItems((currentItems) => currentItems.filter((item) => item.id !== id));
+      applyResponse(await removeCartItem(id, locale));
+    },
+    [locale, applyResponse]
+  );
 
   const updateQuantity = useCallback(
-    (id: string, quantity: number) => {
+    async (id: string, quantity: number) => {
       if (quantity <= 0) {
-        removeItem(id);
-        return;
+        await removeItem(id);
+        return { success: true };
       }
       setItems((currentItems) =>
         currentItems.map((item) =>
           item.id === id ? { ...item, quantity } : item
         )
       );
+      const response = await updateCartItemQuantity(id, quantity, locale);
+      applyResponse(response);
+      return {
+        success: response.success,
+        error: response.error,
+        available: response.available,
+      };
     },
-    [removeItem]
+    [locale, applyResponse, removeItem]
   );
 
-  const clearCart = useCallback(() => {
+  const clearCart = useCallback(async () => {
     setItems([]);
-    // Explicitly clear localStorage to ensure cart is emptied
-    try {
-      localStorage.removeItem(CART_STORAGE_KEY);
-    } catch (error) {
-      console.error("Failed to clear cart from localStorage:", error);
+    setNotices([]);
+    const result = await clearServerCart();
+    if (!result.success) {
+      console.error("Failed to clear cart:", result.error);
     }
   }, []);
 
+  const dismissNotices = useCallback(() => setNotices([]), []);
+
   // Calculate total in EUR (convert from NPR if needed)
   const total = items.reduce((sum, item) => {
     let priceInEur = item.price;
@@ -122,6 +202,10 @@ export function CartProvider({ children }: { children: React.ReactNode }) {
         removeItem,
         updateQuantity,
         clearCart,
+        refreshCart,
+        notices,
+        dismissNotices,
+        isLoading,
         total,
         itemCount,
       }}
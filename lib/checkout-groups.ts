@@ -0,0 +1,378 @@
+/**
+ * Checkout groups: a checkout spanning several stores creates one order per
+ * store, all linked to a single checkout group that carries the combined
+ * totals and the one customer payment. The group is what the customer sees
+ * on the success page and in the confirmation email.
+ */
+
+import { db } from "@/db";
+import {
+  checkoutGroups,
+  listing,
+  orderItems,
+  orders,
+  store,
+} from "@/db/schema";
+import { and, eq, inArray, isNull } from "drizzle-orm";
+
+export type CheckoutGroupSummary = {
+  id: string;
+  checkoutNumber: string;
+  currency: string;
+  subtotalAmount: string;
+  discountAmount: string;
+  shippingAmount: string;
+  taxAmount: string;
+  taxInclusive: boolean;
+  totalAmount: string;
+  paidAt: Date | null;
+  orders: Array<{
+    id: string;
+    orderNumber: string;
+    storeId: string | null;
+    storeName: string | null;
+    subtotalAmount: string;
+    discountAmount: string;
+    shippingAmount: string;
+    taxAmount: string;
+    totalAmount: string;
+    paymentStatus: string;
+    status: string;
+  }>;
+};
+
+async function getCheckoutGroupIds(orderIds: string[]): Promise<string[]> {
+  if (orderIds.length === 0) return [];
+
+  const rows = await db
+    .select({ checkoutGroupId: orders.checkoutGroupId })
+    .from(orders)
+    .where(inArray(orders.id, orderIds));
+
+  return Array.from(
+    new Set(
+      rows.map((r) => r.checkoutGroupId).filter((id): id is string => !!id)
+    )
+  );
+}
+
+/**
+ * Checkout group of the given orders together with every store order in it,
+ * or null for orders placed before checkout groups existed
+ */
+export async function getCheckoutGroupSummary(
+  orderIds: string[]
+): Promise<CheckoutGroupSummary | null> {
+  const [groupId] = await getCheckoutGroupIds(orderIds);
+  if (!groupId) return null;
+
+  const [group] = await db
+    .select()
+    .from(checkoutGroups)
+    .where(eq(checkoutGroups.id, groupId))
+    .limit(1);
+
+  if (!group) return null;
+
+  const groupOrders = await db
+    .select({
+      id: orders.id,
+      orderNumber: orders.orderNumber,
+      storeId: orders.storeId,
+      storeName: store.storeName,
+      subtotalAmount: orders.subtotalAmount,
+      discountAmount: orders.discountAmount,
+      shippingAmount: orders.shippingAmount,
+      taxAmount: orders.taxAmount,
+      totalAmount: orders.totalAmount,
+      paymentStatus: orders.paymentStatus,
+      status: orders.status,
+    })
+    .from(orders)
+    .leftJoin(store, eq(orders.storeId, store.id))
+    .where(eq(orders.checkoutGroupId, group.id))
+    .orderBy(orders.createdAt);
+
+  return {
+    id: group.id,
+    checkoutNumber: group.checkoutNumber,
+    currency: group.currency,
+    subtotalAmount: group.subtotalAmount,
+    discountAmount: group.discountAmount,
+    shippingAmount: group.shippingAmount,
+    taxAmount: group.taxAmount,
+    taxInclusive: group.taxInclusive,
+    totalAmount: group.totalAmount,
+    paidAt: group.paidAt,
+    orders: groupOrders.map((o) => ({
+      ...o,
+      subtotalAmount: o.subtotalAmount || "0",
+      discountAmount: o.discountAmount || "0",
+      shippingAmount: o.shippingAmount || "0",
+      taxAmount: o.taxAmount || "0",
+      totalAmount: o.totalAmount || "0",
+    })),
+  };
+}
+
+/**
+ * Store the shared payment on the checkout group of the given orders.
+ * `paid` stamps paidAt once the money has actually been collected.
+ */
+export async function recordCheckoutGroupPayment(
+  orderIds: string[],
+  payment: {
+    provider: "stripe" | "esewa";
+    stripeCheckoutSessionId?: string | null;
+    stripePaymentIntentId?: string | null;
+    paid?: boolean;
+  }
+): Promise<void> {
+  const groupIds = await getCheckoutGroupIds(orderIds);
+  if (groupIds.length === 0) return;
+
+  await db
+    .update(checkoutGroups)
+    .set({
+      paymentProvider: payment.provider,
+      ...(payment.stripeCheckoutSessionId
+        ? { stripeCheckoutSessionId: payment.stripeCheckoutSessionId }
+        : {}),
+      ...(payment.stripePaymentIntentId
+        ? { stripePaymentIntentId: payment.stripePaymentIntentId }
+        : {}),
+    })
+    .where(inArray(checkoutGroups.id, groupIds));
+
+  if (payment.paid) {
+    await db
+      .update(checkoutGroups)
+      .set({ paidAt: new Date() })
+      .where(
+        and(inArray(checkoutGroups.id, groupIds), isNull(checkoutGroups.paidAt))
+      );
+  }
+}
+
+/**
+ * Send one confirmation email covering every store order of a checkout.
+ * Orders in a checkout group are confirmed at most once, so webhook retries
+ * and the Stripe/eSewa callbacks can all call this safely.
+ */
+export async function sendOrderConfirmationEmail(
+  orderIds: string[]
+): Promise<void> {
+  if (orderIds.length === 0) return;
+
+  const group = await getCheckoutGroupSummary(orderIds);
+  const allOrderIds = group ? group.orders.map((o) => o.id) : orderIds;
+  const primaryOrderId = allOrderIds[0] ?? orderIds[0];
+
+  // Claim the confirmation before sending so concurrent callers don't both send
+  if (group) {
+    const claimed = await db
+      .update(checkoutGroups)
+      .set({ confirmationSentAt: new Date() })
+      .where(
+        and(
+          eq(checkoutGroups.id, group.id),
+          isNull(checkoutGroups.confirmationSentAt)
+        )
+      )
+      .returning({ id: checkoutGroups.id });
+    if (claimed.length === 0) return;
+  }
+
+  try {
+    const resend = (await import("@/lib/resend")).default;
+    const OrderConfirmationEmail = (
+      await import("@/app/[locale]/components/order-confirmation-email")
+    ).default;
+
+    const [order] = await db
+      .select()
+      .from(orders)
+      .where(eq(orders.id, primaryOrderId))
+      .limit(1);
+
+    if (!order) {
+      console.error(`Order not found: ${primaryOrderId}`);
+      return;
+    }
+
+    if (!order.customerEmail) {
+      console.error("Customer email is required to send confirmation email");
+      return;
+    }
+
+    const allItems = await db
+      .select({
+        id: orderItems.id,
+        orderId: orderItems.orderId,
+        listingId: orderItems.listingId,
+        title: orderItems.title,
+        quantity: orderItems.quantity,
+        unitPrice: orderItems.unitPrice,
+        lineTotal: orderItems.lineTotal,
+        sku: orderItems.sku,
+      })
+      .from(orderItems)
+      .where(inArray(orderItems.orderId, allOrderIds));
+
+    // Get listing and store info for review links
+    const listingIds = allItems
+      .map((item) => item.listingId)
+      .filter((id): id is string => !!id);
+
+    const listingMap = new Map<
+      string,
+      { slug: string | null; storeId: string | null }
+    >();
+    const storeMap = new Map<string, { slug: string | null }>();
+
+    if (listingIds.length > 0) {
+      const listings = await db
+        .select({
+          id: listing.id,
+          slug: listing.slug,
+          storeId: listing.storeId,
+        })
+        .from(listing)
+        .where(inArray(listing.id, listingIds));
+
+      for (const l of listings) {
+        listingMap.set(l.id, { slug: l.slug, storeId: l.storeId });
+      }
+
+      const storeIds = Array.from(
+        new Set(
+          Array.from(listingMap.values())
+            .map((l) => l.storeId)
+            .filter((id): id is string => !!id)
+        )
+      );
+
+      if (storeIds.length > 0) {
+        const stores = await db
+          .select({
+            id: store.id,
+            slug: store.slug,
+          })
+          .from(store)
+          .where(inArray(store.id, storeIds));
+
+        for (const s of stores) {
+          storeMap.set(s.id, { slug: s.slug });
+        }
+      }
+    }
+
+    // Totals come from the orders themselves so each store's own shipping
+    // and tax add up to what the customer was charged
+    const allOrders = await db
+      .select({
+        subtotalAmount: orders.subtotalAmount,
+        shippingAmount: orders.shippingAmount,
+        discountAmount: orders.discountAmount,
+        taxAmount: orders.taxAmount,
+        totalAmount: orders.totalAmount,
+        paymentStatus: orders.paymentStatus,
+      })
+      .from(orders)
+      .where(inArray(orders.id, allOrderIds));
+
+    const sumOf = (values: Array<string | null>) =>
+      values.reduce((sum, v) => sum + parseFloat(v || "0"), 0).toFixed(2);
+
+    const isMultiStore = !!group && group.orders.length > 1;
+    const reference = isMultiStore ? group.checkoutNumber : order.orderNumber;
+
+    const customerName =
+      order.customerFirstName && order.customerLastName
+        ? `${order.customerFirstName} ${order.customerLastName}`
+        : order.customerEmail || "Customer";
+
+    const orderUrl = `${process.env.NEXT_PUBLIC_APP_URL}/dashboard/orders/${primaryOrderId}`;
+
+    await resend.emails.send({
+      from:
+        process.env.RESEND_FROM_EMAIL ||
+        "Golden Market <goldenmarket@resend.dev>",
+      to: order.customerEmail,
+      subject: `Order Confirmation #${reference}`,
+      react: OrderConfirmationEmail({
+        orderNumber: reference,
+        orderId: primaryOrderId,
+        customerName,
+        customerEmail: order.customerEmail,
+        items: allItems.map((item) => {
+          const listingInfo = item.listingId
+            ? listingMap.get(item.listingId)
+            : null;
+          const storeInfo = listingInfo?.storeId
+            ? storeMap.get(listingInfo.storeId)
+            : null;
+          return {
+            title: item.title,
+            quantity: item.quantity,
+            unitPrice: item.unitPrice,
+            lineTotal: item.lineTotal || "0",
+            sku: item.sku || null,
+            listingId: item.listingId || null,
+            listingSlug: listingInfo?.slug || null,
+            storeId: listingInfo?.storeId || null,
+            storeSlug: storeInfo?.slug || null,
+            orderId: item.orderId || null,
+          };
+        }),
+        storeOrders: isMultiStore
+          ? group.orders.map((o) => ({
+              orderNumber: o.orderNumber,
+              storeName: o.storeName,
+              subtotal: o.subtotalAmount,
+              shipping: o.shippingAmount,
+              total: o.totalAmount,
+            }))
+          : undefined,
+        subtotal: sumOf(allOrders.map((o) => o.subtotalAmount)),
+        discount: sumOf(allOrders.map((o) => o.discountAmount)),
+        shipping: sumOf(allOrders.map((o) => o.shippingAmount)),
+        tax: sumOf(allOrders.map((o) => o.taxAmount)),
+        total: sumOf(allOrders.map((o) => o.totalAmount)),
+        currency: order.currency,
+        paymentStatus: allOrders.every((o) => o.paymentStatus === "paid")
+          ? "paid"
+          : "pending",
+        orderStatus:
+          order.status === "completed"
+            ? "fulfilled"
+            : (order.status as "open" | "fulfilled" | "cancelled"),
+        shippingAddress:
+          order.shippingAddressLine1 ||
+          order.shippingCity ||
+          order.shippingCountry
+            ? {
+                name: order.shippingName || null,
+                line1: order.shippingAddressLine1 || null,
+                line2: order.shippingAddressLine2 || null,
+                city: order.shippingCity || null,
+                region: order.shippingRegion || null,
+                postalCode: order.shippingPostalCode || null,
+                country: order.shippingCountry || null,
+              }
+            : null,
+        orderUrl,
+      }),
+    });
+  } catch (error) {
+    // Release the claim so the next callback can retry
+    if (group) {
+      await db
+        .update(checkoutGroups)
+        .set({ confirmationSentAt: null })
+        .where(eq(checkoutGroups.id, group.id));
+    }
+    console.error("Error sending order confirmation email:", error);
+    throw error;
+  }
+}
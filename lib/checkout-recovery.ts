@@ -0,0 +1,194 @@
+/**
+ * Abandoned checkout recovery: Stripe checkout sessions are recorded when
+ * created, closed when the webhook reports payment, and the ones left open
+ * are reminded by the abandoned-checkouts cron. Reminder emails carry a
+ * signed, single-use link that restores the cart.
+ */
+
+import { createHmac, timingSafeEqual } from "crypto";
+import { db } from "@/db";
+import { abandonedCheckouts, orderItems, orders } from "@/db/schema";
+import { and, eq, gt, inArray, lte, or } from "drizzle-orm";
+
+const DEFAULT_REMINDER_HOURS = [1, 24];
+const RESUME_LINK_TTL_DAYS = 14;
+
+/**
+ * Hours after checkout start at which reminders go out, e.g. "1,24,72".
+ * Configured with ABANDONED_CHECKOUT_REMINDER_HOURS.
+ */
+export function getReminderDelaysHours(): number[] {
+  const configured = process.env.ABANDONED_CHECKOUT_REMINDER_HOURS;
+  if (!configured) return DEFAULT_REMINDER_HOURS;
+
+  const hours = configured
+    .split(",")
+    .map((h) => parseFloat(h.trim()))
+    .filter((h) => Number.isFinite(h) && h > 0)
+    .sort((a, b) => a - b);
+  return hours.length > 0 ? hours : DEFAULT_REMINDER_HOURS;
+}
+
+/**
+ * Percentage off offered with the last reminder; 0 (default) disables it.
+ * Configured with ABANDONED_CHECKOUT_DISCOUNT_PERCENT.
+ */
+export function getRecoveryDiscountPercent(): number {
+  const percent = parseFloat(
+    process.env.ABANDONED_CHECKOUT_DISCOUNT_PERCENT || "0"
+  );
+  return Number.isFinite(percent) && percent > 0 && percent < 100 ? percent : 0;
+}
+
+function getSigningSecret(): string {
+  const secret =
+    process.env.ABANDONED_CHECKOUT_SECRET || process.env.BETTER_AUTH_SECRET;
+  if (!secret) {
+    throw new Error(
+      "ABANDONED_CHECKOUT_SECRET or BETTER_AUTH_SECRET must be set"
+    );
+  }
+  return secret;
+}
+
+function sign(payload: string): string {
+  return createHmac("sha256", getSigningSecret())
+    .update(payload)
+    .digest("base64url");
+}
+
+/**
+ * Token for the resume link of an abandoned checkout: `<id>.<expiry>.<hmac>`
+ */
+export function createResumeToken(checkoutId: string): string {
+  const expiresAt =
+    Math.floor(Date.now() / 1000) + RESUME_LINK_TTL_DAYS * 24 * 60 * 60;
+  const payload = `${checkoutId}.${expiresAt}`;
+  return `${payload}.${sign(payload)}`;
+}
+
+/**
+ * Checkout id from a resume token, or null when the token is malformed,
+ * tampered with or expired
+ */
+export function verifyResumeToken(token: string): string | null {
+  const [checkoutId, expiresAt, signature] = token.split(".");
+  if (!checkoutId || !expiresAt || !signature) return null;
+
+  const expected = Buffer.from(sign(`${checkoutId}.${expiresAt}`));
+  const given = Buffer.from(signature);
+  if (expected.length !== given.length || !timingSafeEqual(expected, given)) {
+    return null;
+  }
+  if (parseInt(expiresAt, 10) < Math.floor(Date.now() / 1000)) {
+    return null;
+  }
+  return checkoutId;
+}
+
+export function getResumeUrl(checkoutId: string): string {
+  return `${process.env.NEXT_PUBLIC_APP_URL}/api/checkout/resume?token=${encodeURIComponent(createResumeToken(checkoutId))}`;
+}
+
+/**
+ * Record a newly created Stripe checkout session, one row per store order
+ */
+export async function trackCheckoutSession(params: {
+  stripeSessionId: string;
+  orderIds: string[];
+  email?: string | null;
+  userId?: string | null;
+  locale?: string | null;
+}) {
+  if (params.orderIds.length === 0) return;
+
+  const orderRows = await db
+    .select({
+      id: orders.id,
+      storeId: orders.storeId,
+      marketId: orders.marketId,
+      customerEmail: orders.customerEmail,
+      currency: orders.currency,
+      totalAmount: orders.totalAmount,
+    })
+    .from(orders)
+    .where(inArray(orders.id, params.orderIds));
+
+  const lines = await db
+    .select({
+      orderId: orderItems.orderId,
+      listingId: orderItems.listingId,
+      variantId: orderItems.variantId,
+      title: orderItems.title,
+      quantity: orderItems.quantity,
+      unitPrice: orderItems.unitPrice,
+    })
+    .from(orderItems)
+    .where(inArray(orderItems.orderId, params.orderIds));
+
+  const rows = orderRows
+    .map((order) => ({
+      stripeSessionId: params.stripeSessionId,
+      orderId: order.id,
+      storeId: order.storeId,
+      marketId: order.marketId,
+      userId: params.userId ?? null,
+      email: params.email || order.customerEmail || "",
+      locale: params.locale || "en",
+      items: lines
+        .filter((l) => l.orderId === order.id && l.listingId)
+        .map((l) => ({
+          listingId: l.listingId!,
+          variantId: l.variantId,
+          title: l.title,
+          quantity: l.quantity,
+          unitPrice: l.unitPrice,
+        })),
+      currency: order.currency,
+      totalAmount: order.totalAmount,
+    }))
+    // Without an email there is nobody to remind
+    .filter((row) => row.email && row.items.length > 0);
+
+  if (rows.length > 0) {
+    await db.insert(abandonedCheckouts).values(rows);
+  }
+}
+
+/**
+ * Close the open checkout rows of a paid Stripe session, along with earlier
+ * open checkouts of the same shopper (e.g. resumed into a new session).
+ * Checkouts paid after a reminder count as recovered.
+ */
+export async function markCheckoutSessionCompleted(stripeSessionId: string) {
+  const sessionRows = await db
+    .select({
+      email: abandonedCheckouts.email,
+      createdAt: abandonedCheckouts.createdAt,
+    })
+    .from(abandonedCheckouts)
+    .where(eq(abandonedCheckouts.stripeSessionId, stripeSessionId))
+    .limit(1);
+  if (sessionRows.length === 0) return;
+
+  const completedAt = new Date();
+  const open = and(
+    eq(abandonedCheckouts.status, "open"),
+    or(
+      eq(abandonedCheckouts.stripeSessionId, stripeSessionId),
+      and(
+        eq(abandonedCheckouts.email, sessionRows[0].email),
+        lte(abandonedCheckouts.createdAt, sessionRows[0].createdAt)
+      )
+    )
+  );
+
+  await db
+    .update(abandonedCheckouts)
+    .set({ status: "recovered", completedAt })
+    .where(and(open, gt(abandonedCheckouts.remindersSent, 0)));
+  await db
+    .update(abandonedCheckouts)
+    .set({ status: "completed", completedAt })
+    .where(open);
+}
@@ -0,0 +1,427 @@
+/**
+ * Stripe disputes (chargebacks): the webhook hands every
+ * charge.dispute.* event to syncStripeDispute, which mirrors the dispute into
+ * order_disputes (one row per store order of the disputed charge), keeps the
+ * seller ledger in step with what Stripe withdrew or reinstated, and freezes
+ * the order's transfer until the dispute is closed.
+ */
+
+import Stripe from "stripe";
+import { db } from "@/db";
+import {
+  orderDisputes,
+  orderEvents,
+  orderPayments,
+  orders,
+  sellerBalanceTransactions,
+} from "@/db/schema";
+import { and, eq } from "drizzle-orm";
+import { stripe } from "@/lib/stripe";
+import { transferOrderPaymentToStore } from "@/lib/seller-transfers";
+import { updateSellerBalance } from "@/app/[locale]/actions/seller-balance";
+import { getStoreOwnerEmail } from "@/app/[locale]/actions/orders";
+
+const CLOSED_STATUSES = ["won", "lost", "warning_closed"];
+
+export function isDisputeClosed(status: string): boolean {
+  return CLOSED_STATUSES.includes(status);
+}
+
+export function formatDisputeReason(reason: string | null): string {
+  return (reason || "general").replace(/_/g, " ");
+}
+
+function disputeHoldReason(reason: string | null): string {
+  return `Payment disputed (${formatDisputeReason(reason)})`;
+}
+
+async function resolvePaymentIntentId(
+  dispute: Stripe.Dispute
+): Promise<string | null> {
+  if (dispute.payment_intent) {
+    return typeof dispute.payment_intent === "string"
+      ? dispute.payment_intent
+      : dispute.payment_intent.id;
+  }
+  const chargeId =
+    typeof dispute.charge === "string" ? dispute.charge : dispute.charge.id;
+  const charge = await stripe.charges.retrieve(chargeId);
+  if (!charge.payment_intent) return null;
+  return typeof charge.payment_intent === "string"
+    ? charge.payment_intent
+    : charge.payment_intent.id;
+}
+
+/**
+ * Net amount the seller should currently be debited for their share of the
+ * dispute. Stripe's balance transactions carry the withdrawal (amount + fee)
+ * and any reinstatement; when they are in another currency than the payment,
+ * fall back to the disputed amount while funds are withdrawn and not won.
+ */
+function ledgerTarget(
+  dispute: Stripe.Dispute,
+  share: number,
+  currency: string
+): number {
+  const transactions = dispute.balance_transactions ?? [];
+  if (
+    transactions.length > 0 &&
+    transactions.every((t) => t.currency.toLowerCase() === currency)
+  ) {
+    const net = transactions.reduce((sum, t) => sum + t.net, 0);
+    return Math.max(0, (-net / 100) * share);
+  }
+  if (transactions.length === 0 || dispute.status === "won") return 0;
+  return (dispute.amount / 100) * share;
+}
+
+async function notifySellerOfDispute(params: {
+  storeId: string;
+  orderId: string;
+  orderNumber: string;
+  amount: string;
+  currency: string;
+  reason: string | null;
+  evidenceDueBy: Date | null;
+}) {
+  if (!process.env.RESEND_API_KEY) return;
+
+  const owner = await getStoreOwnerEmail(params.storeId);
+  if (!owner.success || !owner.email) return;
+
+  const resend = (await import("@/lib/resend")).default;
+  const DisputeNotificationEmail = (
+    await import("@/app/[locale]/components/dispute-notification-email")
+  ).default;
+
+  const { error } = await resend.emails.send({
+    from:
+      process.env.RESEND_FROM_EMAIL ||
+      "Golden Market <goldenmarket@resend.dev>",
+    to: owner.email,
+    subject: `Payment disputed - Order #${params.orderNumber}`,
+    react: DisputeNotificationEmail({
+      orderNumber: params.orderNumber,
+      amount: params.amount,
+      currency: params.currency,
+      reason: params.reason,
+      evidenceDueBy: params.evidenceDueBy,
+      orderUrl: `${process.env.NEXT_PUBLIC_APP_URL}/dashboard/orders/${params.orderId}`,
+    }),
+  });
+  if (error) {
+    console.error("Failed to send dispute notification:", error);
+  }
+}
+
+/**
+ * Create or update the order_disputes rows of a Stripe dispute and apply its
+ * side effects. Safe to call repeatedly for the same dispute.
+ */
+export async function syncStripeDispute(
+  dispute: Stripe.Dispute
+): Promise<{ handled: boolean; orderIds: string[] }> {
+  const paymentIntentId = await resolvePaymentIntentId(dispute);
+  if (!paymentIntentId) return { handled: false, orderIds: [] };
+
+  // A multi-store checkout is one charge split over several store orders
+  const payments = await db
+    .select({
+      payment: orderPayments,
+      storeId: orders.storeId,
+      orderNumber: orders.orderNumber,
+      workflowStatus: orders.workflowStatus,
+    })
+    .from(orderPayments)
+    .innerJoin(orders, eq(orderPayments.orderId, orders.id))
+    .where(eq(orderPayments.stripePaymentIntentId, paymentIntentId));
+  if (payments.length === 0) return { handled: false, orderIds: [] };
+
+  const chargeId =
+    typeof dispute.charge === "string" ? dispute.charge : dispute.charge.id;
+  const evidenceDueBy = dispute.evidence_details?.due_by
+    ? new Date(dispute.evidence_details.due_by * 1000)
+    : null;
+  const closed = isDisputeClosed(dispute.status);
+  const total = payments.reduce(
+    (sum, p) => sum + parseFloat(p.payment.amount),
+    0
+  );
+
+  for (const { payment, storeId, orderNumber, ...order } of payments) {
+    const share = total > 0 ? parseFloat(payment.amount) / total : 0;
+    const amount = ((dispute.amount / 100) * share).toFixed(2);
+
+    const [existing] = await db
+      .select()
+      .from(orderDisputes)
+      .where(
+        and(
+          eq(orderDisputes.stripeDisputeId, dispute.id),
+          eq(orderDisputes.orderId, payment.orderId)
+        )
+      )
+      .limit(1);
+
+    const [row] = await db
+      .insert(orderDisputes)
+      .values({
+        orderId: payment.orderId,
+        orderPaymentId: payment.id,
+        storeId,
+        stripeDisputeId: dispute.id,
+        stripeChargeId: chargeId,
+        amount,
+        currency: payment.currency,
+        reason: dispute.reason,
+        status: dispute.status,
+        previousTransferStatus: payment.transferStatus,
+        evidenceDueBy,
+      })
+      .onConflictDoUpdate({
+        target: [orderDisputes.stripeDisputeId, orderDisputes.orderId],
+        set: {
+          amount,
+          reason: dispute.reason,
+          status: dispute.status,
+          evidenceDueBy,
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+
+    // Keep the seller ledger equal to what Stripe has withdrawn
+    if (storeId) {
+      const target = ledgerTarget(
+        dispute,
+        share,
+        payment.currency.toLowerCase()
+      );
+      // Claim each change before posting it: of two deliveries that read the
+      // same ledger amount (Stripe sends created and funds_withdrawn
+      // together, and retries), only the one whose update matches posts; the
+      // other re-reads the amount and posts what is left
+      let ledgerAmount = row.ledgerAmount;
+      for (;;) {
+        const delta = target - parseFloat(ledgerAmount);
+        if (Math.abs(delta) < 0.005) break;
+
+        const [claimed] = await db
+          .update(orderDisputes)
+          .set({ ledgerAmount: target.toFixed(2) })
+          .where(
+            and(
+              eq(orderDisputes.id, row.id),
+              eq(orderDisputes.ledgerAmount, ledgerAmount)
+            )
+          )
+          .returning({ id: orderDisputes.id });
+        if (!claimed) {
+          const [current] = await db
+            .select({ ledgerAmount: orderDisputes.ledgerAmount })
+            .from(orderDisputes)
+            .where(eq(orderDisputes.id, row.id))
+            .limit(1);
+          ledgerAmount = current.ledgerAmount;
+          continue;
+        }
+
+        const result = await updateSellerBalance({
+          storeId,
+          type: delta > 0 ? "dispute" : "adjustment",
+          amount: Math.abs(delta),
+          currency: payment.currency,
+          orderId: payment.orderId,
+          orderPaymentId: payment.id,
+          description:
+            delta > 0
+              ? `Chargeback dispute (${Math.abs(delta).toFixed(2)} ${payment.currency})`
+              : `Dispute funds reinstated (${Math.abs(delta).toFixed(2)} ${payment.currency})`,
+          metadata: { stripeDisputeId: dispute.id, status: dispute.status },
+        });
+        if (!result.success) {
+          // Give the change back so the webhook retry posts it
+          await db
+            .update(orderDisputes)
+            .set({ ledgerAmount })
+            .where(
+              and(
+                eq(orderDisputes.id, row.id),
+                eq(orderDisputes.ledgerAmount, target.toFixed(2))
+              )
+            );
+          throw new Error(result.error || "Failed to update seller balance");
+        }
+        break;
+      }
+    }
+
+    if (!existing) {
+      // Held funds stay on the platform until the dispute is resolved
+      if (payment.transferStatus === "held") {
+        await db
+          .update(orderPayments)
+          .set({ transferStatus: "frozen", updatedAt: new Date() })
+          .where(eq(orderPayments.id, payment.id));
+      }
+
+      await db.transaction(async (tx) => {
+        if (order.workflowStatus !== "on_hold") {
+          await tx
+            .update(orders)
+            .set({
+              workflowStatus: "on_hold",
+              holdReason: disputeHoldReason(dispute.reason),
+              updatedAt: new Date(),
+            })
+            .where(eq(orders.id, payment.orderId));
+        }
+        await tx.insert(orderEvents).values({
+          orderId: payment.orderId,
+          type: "payment",
+          visibility: "internal",
+          message: `Payment disputed by the customer's bank (${formatDisputeReason(dispute.reason)}): ${amount} ${payment.currency}`,
+          metadata: {
+            stripeDisputeId: dispute.id,
+            reason: dispute.reason,
+            status: dispute.status,
+            amount,
+            evidenceDueBy: evidenceDueBy?.toISOString() ?? null,
+            previousWorkflowStatus: order.workflowStatus,
+          },
+        });
+      });
+
+      if (storeId) {
+        try {
+          await notifySellerOfDispute({
+            storeId,
+            orderId: payment.orderId,
+            orderNumber,
+            amount,
+            currency: payment.currency,
+            reason: dispute.reason,
+            evidenceDueBy,
+          });
+        } catch (error) {
+          console.error("Failed to notify seller of dispute:", error);
+        }
+      }
+    } else if (existing.status !== dispute.status && !closed) {
+      await db.insert(orderEvents).values({
+        orderId: payment.orderId,
+        type: "payment",
+        visibility: "internal",
+        message: `Dispute status changed to ${dispute.status.replace(/_/g, " ")}`,
+        metadata: { stripeDisputeId: dispute.id, status: dispute.status },
+      });
+    }
+
+    if (closed && !existing?.closedAt) {
+      await closeOrderDispute({
+        disputeRowId: row.id,
+        dispute,
+        orderPaymentId: payment.id,
+        orderId: payment.orderId,
+        storeId,
+      });
+    }
+  }
+
+  return { handled: true, orderIds: payments.map((p) => p.payment.orderId) };
+}
+
+async function closeOrderDispute(params: {
+  disputeRowId: string;
+  dispute: Stripe.Dispute;
+  orderPaymentId: string;
+  orderId: string;
+  storeId: string | null;
+}) {
+  const { dispute } = params;
+  const resolved = dispute.status !== "lost";
+
+  await db
+    .update(orderDisputes)
+    .set({ closedAt: new Date() })
+    .where(eq(orderDisputes.id, params.disputeRowId));
+
+  let transferred = false;
+  if (resolved) {
+    const [payment] = await db
+      .select({ transferStatus: orderPayments.transferStatus })
+      .from(orderPayments)
+      .where(eq(orderPayments.id, params.orderPaymentId))
+      .limit(1);
+
+    if (payment?.transferStatus === "frozen") {
+      await db
+        .update(orderPayments)
+        .set({ transferStatus: "held", updatedAt: new Date() })
+        .where(eq(orderPayments.id, params.orderPaymentId));
+
+      // The hold period may have ended while the transfer was frozen
+      const [ledgerEntry] = await db
+        .select({ status: sellerBalanceTransactions.status })
+        .from(sellerBalanceTransactions)
+        .where(
+          and(
+            eq(sellerBalanceTransactions.orderPaymentId, params.orderPaymentId),
+            eq(sellerBalanceTransactions.type, "order_payment")
+          )
+        )
+        .limit(1);
+      if (ledgerEntry?.status === "available" && params.storeId) {
+        try {
+          const result = await transferOrderPaymentToStore(
+            params.orderPaymentId,
+            params.storeId
+          );
+          transferred = result.transferred;
+        } catch (error) {
+          console.error(
+            `Transfer after dispute ${dispute.id} failed for order payment ${params.orderPaymentId}:`,
+            error
+          );
+        }
+      }
+    }
+  }
+
+  await db.transaction(async (tx) => {
+    // Only lift the hold this dispute placed. Checked against the order as
+    // it is now: the hold may have been placed earlier in this same sync.
+    if (resolved) {
+      await tx
+        .update(orders)
+        .set({
+          workflowStatus: "normal",
+          holdReason: null,
+          updatedAt: new Date(),
+        })
+        .where(
+          and(
+            eq(orders.id, params.orderId),
+            eq(orders.workflowStatus, "on_hold"),
+            eq(orders.holdReason, disputeHoldReason(dispute.reason))
+          )
+        );
+    }
+    await tx.insert(orderEvents).values({
+      orderId: params.orderId,
+      type: "payment",
+      visibility: "internal",
+      message:
+        dispute.status === "won"
+          ? "Dispute won: disputed funds returned to the seller balance"
+          : dispute.status === "lost"
+            ? "Dispute lost: disputed amount remains deducted and the payout stays frozen"
+            : "Dispute inquiry closed without a chargeback",
+      metadata: {
+        stripeDisputeId: dispute.id,
+        status: dispute.status,
+        transferred,
+      },
+    });
+  });
+}
@@ -4,6 +4,8 @@
  * Shipments and all other requests: TEST env only so they don't cost money.
  */
 
+import { createHmac, timingSafeEqual } from "crypto";
+
 const API_VERSION = "2024-09";
 
 // Production — used only for POST /rates (get quotes)
@@ -381,3 +383,133 @@ export function generateTrackingUrl(
     `https://www.google.com/search?q=track+${encodeURIComponent(carrier)}+${encodeURIComponent(trackingNumber)}`
   );
 }
+
+export interface EasyShipCheckpoint {
+  checkpoint_time: string;
+  message: string;
+  status?: string;
+  city?: string;
+  state?: string;
+  postal_code?: string;
+  country?: string;
+}
+
+export interface EasyShipTracking {
+  easyship_shipment_id: string;
+  tracking_number: string | null;
+  status: string | null;
+  estimated_delivery_date: string | null;
+  checkpoints: EasyShipCheckpoint[];
+}
+
+export type EasyShipTrackingPayload = {
+  easyship_shipment_id?: string;
+  tracking_number?: string;
+  status?: string;
+  tracking_status?: string;
+  eta_date?: string;
+  estimated_delivery_date?: string;
+  checkpoints?: Array<{
+    checkpoint_time?: string;
+    message?: string;
+    primary_status?: string;
+    status?: string;
+    city?: string;
+    state?: string;
+    postal_code?: string;
+    country_alpha2?: string;
+    country_name?: string;
+  }>;
+};
+
+/** Map an EasyShip tracking object (API response or webhook payload) to EasyShipTracking. */
+export function parseEasyshipTracking(raw: EasyShipTrackingPayload): EasyShipTracking | null {
+  if (!raw.easyship_shipment_id) return null;
+  return {
+    easyship_shipment_id: raw.easyship_shipment_id,
+    tracking_number: raw.tracking_number ?? null,
+    status: raw.status ?? raw.tracking_status ?? null,
+    estimated_delivery_date: raw.eta_date ?? raw.estimated_delivery_date ?? null,
+    checkpoints: (raw.checkpoints ?? [])
+      .filter((c) => c.checkpoint_time)
+      .map((c) => ({
+        checkpoint_time: c.checkpoint_time!,
+        message: c.message ?? "",
+        status: c.primary_status ?? c.status,
+        city: c.city,
+        state: c.state,
+        postal_code: c.postal_code,
+        country: c.country_alpha2 ?? c.country_name,
+      })),
+  };
+}
+
+/**
+ * Get tracking status and checkpoints for a shipment (GET /shipments/trackings).
+ * Used by the tracking cron when webhooks are missed.
+ */
+export async function getEasyshipTracking(
+  easyshipShipmentId: string
+): Promise<EasyShipTracking | null> {
+  if (!EASYSHIP_API_KEY_TEST) {
+    console.error("EasyShip test API key not set (EASYSHIP_API_KEY_TEST)");
+    return null;
+  }
+
+  try {
+    const res = await fetch(
+      `${EASYSHIP_API_URL_TEST}/${API_VERSION}/shipments/trackings?easyship_shipment_id=${encodeURIComponent(easyshipShipmentId)}`,
+      {
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${EASYSHIP_API_KEY_TEST}`,
+        },
+      }
+    );
+
+    if (!res.ok) {
+      const errText = await res.text();
+      console.error("EasyShip getTracking error:", res.status, errText);
+      return null;
+    }
+
+    const data = (await res.json()) as { trackings?: EasyShipTrackingPayload[] };
+    const tracking = data.trackings?.find(
+      (t) => t.easyship_shipment_id === easyshipShipmentId
+    );
+    return tracking ? parseEasyshipTracking(tracking) : null;
+  } catch (error) {
+    console.error("EasyShip getTracking error:", error);
+    return null;
+  }
+}
+
+/**
+ * Verify the X-EASYSHIP-SIGNATURE header of a webhook: an HS256 JWT signed
+ * with the webhook secret (EASYSHIP_WEBHOOK_SECRET).
+ */
+export function verifyEasyshipWebhookSignature(signature: string | null): boolean {
+  const secret = process.env.EASYSHIP_WEBHOOK_SECRET;
+  if (!secret || !signature) return false;
+
+  const [header, payload, sig] = signature.split(".");
+  if (!header || !payload || !sig) return false;
+
+  try {
+    const { alg } = JSON.parse(Buffer.from(header, "base64url").toString()) as { alg?: string };
+    if (alg !== "HS256") return false;
+
+    const expected = Buffer.from(
+      createHmac("sha256", secret).update(`${header}.${payload}`).digest("base64url")
+    );
+    const given = Buffer.from(sig);
+    if (expected.length !== given.length || !timingSafeEqual(expected, given)) {
+      return false;
+    }
+
+    const claims = JSON.parse(Buffer.from(payload, "base64url").toString()) as { exp?: number };
+    return !claims.exp || claims.exp * 1000 > Date.now();
+  } catch {
+    return false;
+  }
+}
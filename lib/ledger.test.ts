@@ -0,0 +1,234 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  balanceTransactionTypeEnum,
+  ledgerJournalEntries,
+  ledgerJournalLines,
+} from "@/db/schema";
+import {
+  journalLinesForSellerTransaction,
+  postJournalEntry,
+  type JournalEntryInput,
+  type JournalLine,
+} from "./ledger";
+
+type Values = Record<string, unknown>;
+
+const fake = vi.hoisted(() => ({
+  inserts: [] as Array<{ table: unknown; values: unknown; target?: unknown }>,
+  // source:sourceId of entries already posted
+  posted: new Set<string>(),
+}));
+
+vi.mock("@/db", () => {
+  const insert = (table: unknown) => ({
+    values: (values: unknown) => ({
+      onConflictDoNothing: ({ target }: { target: unknown }) => ({
+        returning: async () => {
+          fake.inserts.push({ table, values, target });
+          const { source, sourceId } = values as Values;
+          const key = `${source}:${sourceId}`;
+          if (fake.posted.has(key)) return [];
+          fake.posted.add(key);
+          return [{ id: `entry-${fake.posted.size}` }];
+        },
+      }),
+      then: (resolve: (value: undefined) => unknown) => {
+        fake.inserts.push({ table, values });
+        return resolve(undefined);
+      },
+    }),
+  });
+
+  return {
+    db: {
+      transaction: async <T>(run: (tx: unknown) => Promise<T>) =>
+        run({ insert }),
+    },
+  };
+});
+
+function totals(lines: JournalLine[]) {
+  const cents = (amount: number) => Math.round(amount * 100);
+  return {
+    debits: lines.reduce((sum, l) => sum + cents(l.debit), 0),
+    credits: lines.reduce((sum, l) => sum + cents(l.credit), 0),
+  };
+}
+
+// Debits minus credits on one account
+function net(lines: JournalLine[], account: JournalLine["account"]) {
+  return lines
+    .filter((l) => l.account === account)
+    .reduce((sum, l) => sum + l.debit - l.credit, 0);
+}
+
+function entry(overrides: Partial<JournalEntryInput> = {}): JournalEntryInput {
+  return {
+    source: "seller_transaction",
+    sourceId: "transaction-1",
+    entryType: "order_payment",
+    currency: "eur",
+    storeId: "store-1",
+    postedAt: new Date("2026-10-01T12:00:00.000Z"),
+    lines: [
+      { account: "platform_cash", debit: 25, credit: 0 },
+      { account: "seller_payable", debit: 0, credit: 25 },
+    ],
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  fake.inserts.length = 0;
+  fake.posted.clear();
+});
+
+describe("journalLinesForSellerTransaction", () => {
+  it.each(balanceTransactionTypeEnum.enumValues)(
+    "balances a %s entry",
+    (type) => {
+      for (const amount of [12.34, -12.34]) {
+        for (const provider of ["stripe", "esewa", null]) {
+          const lines = journalLinesForSellerTransaction(
+            type,
+            amount,
+            provider
+          );
+          const { debits, credits } = totals(lines);
+
+          expect(debits).toBe(credits);
+          expect(debits).toBeGreaterThan(0);
+          for (const l of lines) {
+            expect(l.debit).toBeGreaterThanOrEqual(0);
+            expect(l.credit).toBeGreaterThanOrEqual(0);
+          }
+        }
+      }
+    }
+  );
+
+  it("owes the seller an order payment and takes platform fees back", () => {
+    expect(
+      net(
+        journalLinesForSellerTransaction("order_payment", 50, null),
+        "seller_payable"
+      )
+    ).toBe(-50);
+    expect(
+      net(
+        journalLinesForSellerTransaction("platform_fee", 5, null),
+        "seller_payable"
+      )
+    ).toBe(5);
+  });
+
+  it("recharges pass-through costs to the seller, netting their account to zero", () => {
+    const lines = journalLinesForSellerTransaction("shipping_label", 7.5, null);
+
+    expect(net(lines, "shipping_label_costs")).toBe(0);
+    expect(net(lines, "seller_payable")).toBe(7.5);
+    expect(net(lines, "platform_cash")).toBe(-7.5);
+  });
+
+  it("pays Stripe payouts from the connected account and eSewa payouts from platform cash", () => {
+    expect(
+      net(
+        journalLinesForSellerTransaction("payout", 40, "stripe"),
+        "connected_accounts"
+      )
+    ).toBe(-40);
+    expect(
+      net(
+        journalLinesForSellerTransaction("payout", 40, "esewa"),
+        "platform_cash"
+      )
+    ).toBe(-40);
+  });
+
+  it("follows the sign of an adjustment", () => {
+    expect(
+      net(
+        journalLinesForSellerTransaction("adjustment", 3, null),
+        "seller_payable"
+      )
+    ).toBe(-3);
+    expect(
+      net(
+        journalLinesForSellerTransaction("adjustment", -3, null),
+        "seller_payable"
+      )
+    ).toBe(3);
+  });
+});
+
+describe("postJournalEntry", () => {
+  it("posts the entry and its non-zero lines", async () => {
+    const posted = await postJournalEntry(
+      entry({
+        lines: [
+          { account: "platform_cash", debit: 25, credit: 0 },
+          { account: "seller_payable", debit: 0, credit: 25 },
+          { account: "adjustments", debit: 0, credit: 0 },
+        ],
+      })
+    );
+
+    expect(posted).toBe(true);
+    expect(fake.inserts[0]).toMatchObject({
+      table: ledgerJournalEntries,
+      values: { source: "seller_transaction", currency: "EUR" },
+      target: [ledgerJournalEntries.source, ledgerJournalEntries.sourceId],
+    });
+    expect(fake.inserts[1]).toEqual({
+      table: ledgerJournalLines,
+      values: [
+        {
+          entryId: "entry-1",
+          account: "platform_cash",
+          debit: "25.00",
+          credit: "0.00",
+        },
+        {
+          entryId: "entry-1",
+          account: "seller_payable",
+          debit: "0.00",
+          credit: "25.00",
+        },
+      ],
+    });
+  });
+
+  it("rejects unbalanced entries without writing", async () => {
+    await expect(
+      postJournalEntry(
+        entry({
+          lines: [
+            { account: "platform_cash", debit: 25, credit: 0 },
+            { account: "seller_payable", debit: 0, credit: 24.99 },
+          ],
+        })
+      )
+    ).rejects.toThrow(
+      "Unbalanced journal entry for seller_transaction transaction-1: debits 25, credits 24.99"
+    );
+    await expect(
+      postJournalEntry(
+        entry({ lines: [{ account: "platform_cash", debit: 0, credit: 0 }] })
+      )
+    ).rejects.toThrow("Unbalanced journal entry");
+    expect(fake.inserts).toEqual([]);
+  });
+
+  it("posts a source once", async () => {
+    expect(await postJournalEntry(entry())).toBe(true);
+    expect(await postJournalEntry(entry())).toBe(false);
+    expect(await postJournalEntry(entry({ source: "stripe_transfer" }))).toBe(
+      true
+    );
+
+    const lineInserts = fake.inserts.filter(
+      (insert) => insert.table === ledgerJournalLines
+    );
+    expect(lineInserts).toHaveLength(2);
+  });
+});
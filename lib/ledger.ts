@@ -0,0 +1,618 @@
+/**
+ * Double-entry platform ledger. Every seller ledger entry (order payment,
+ * fees, label purchase, refund, dispute, payout, adjustment) and every Stripe
+ * transfer to a connected account posts one balanced journal entry, so the
+ * platform's books can be closed per month. Costs the platform pays and
+ * recharges to sellers (Stripe/eSewa fees, labels, refunds, disputes) pass
+ * through their own account, which shows the gross amount and nets to zero.
+ *
+ * Entries carry the Stripe charge or transfer they belong to, and
+ * reconcileLedgerWithStripe matches platform cash movements against Stripe
+ * balance transactions and records any drift.
+ */
+
+import Stripe from "stripe";
+import { db } from "@/db";
+import {
+  ledgerJournalEntries,
+  ledgerJournalLines,
+  ledgerReconciliationRuns,
+  orderPayments,
+  orders,
+  sellerBalanceTransactions,
+  sellerPayouts,
+  type LedgerReconciliationRun,
+  type SellerBalanceTransaction,
+} from "@/db/schema";
+import {
+  and,
+  asc,
+  eq,
+  gte,
+  inArray,
+  isNotNull,
+  isNull,
+  lt,
+  sql,
+} from "drizzle-orm";
+import { stripe } from "@/lib/stripe";
+
+export const LEDGER_ACCOUNTS = {
+  platform_cash: { name: "Platform cash", kind: "asset" },
+  connected_accounts: { name: "Seller Stripe accounts", kind: "asset" },
+  seller_payable: { name: "Seller payable", kind: "liability" },
+  platform_fee_revenue: { name: "Platform fee revenue", kind: "revenue" },
+  stripe_fees: { name: "Stripe fees", kind: "expense" },
+  esewa_fees: { name: "eSewa fees", kind: "expense" },
+  shipping_label_costs: { name: "Shipping label costs", kind: "expense" },
+  refunds: { name: "Refunds", kind: "expense" },
+  disputes: { name: "Disputes", kind: "expense" },
+  adjustments: { name: "Adjustments", kind: "expense" },
+} as const;
+
+export type LedgerAccount = keyof typeof LEDGER_ACCOUNTS;
+
+export interface JournalLine {
+  account: LedgerAccount;
+  debit: number;
+  credit: number;
+}
+
+export interface JournalEntryInput {
+  source: "seller_transaction" | "stripe_transfer";
+  sourceId: string;
+  entryType: string;
+  currency: string;
+  description?: string | null;
+  storeId?: string | null;
+  orderId?: string | null;
+  payoutId?: string | null;
+  stripeRef?: string | null;
+  postedAt: Date;
+  lines: JournalLine[];
+}
+
+type ReconciliationIssue = NonNullable<
+  LedgerReconciliationRun["issues"]
+>[number];
+
+// Seller ledger costs the platform pays out of its cash and recharges to the seller
+const PASS_THROUGH_ACCOUNTS: Partial<
+  Record<SellerBalanceTransaction["type"], LedgerAccount>
+> = {
+  stripe_fee: "stripe_fees",
+  esewa_fee: "esewa_fees",
+  shipping_label: "shipping_label_costs",
+  refund: "refunds",
+  dispute: "disputes",
+};
+
+// Reconciliation tolerance for rounding across split payments
+const DRIFT_TOLERANCE = 0.01;
+
+const toCents = (amount: number) => Math.round(amount * 100);
+
+function line(
+  debitAccount: LedgerAccount,
+  creditAccount: LedgerAccount,
+  amount: number
+): JournalLine[] {
+  return [
+    { account: debitAccount, debit: amount, credit: 0 },
+    { account: creditAccount, debit: 0, credit: amount },
+  ];
+}
+
+/**
+ * Journal lines for one seller ledger entry. Amounts are positive; the type
+ * (and the sign, for adjustments) gives the direction, as in
+ * updateSellerBalance.
+ */
+export function journalLinesForSellerTransaction(
+  type: SellerBalanceTransaction["type"],
+  signedAmount: number,
+  payoutProvider: string | null
+): JournalLine[] {
+  const amount = Math.abs(signedAmount);
+
+  switch (type) {
+    case "order_payment":
+      return line("platform_cash", "seller_payable", amount);
+    case "platform_fee":
+      return line("seller_payable", "platform_fee_revenue", amount);
+    case "payout":
+      // Stripe payouts leave the seller's connected account, eSewa/bank
+      // payouts are sent from the platform's own funds
+      return line(
+        "seller_payable",
+        payoutProvider === "esewa" ? "platform_cash" : "connected_accounts",
+        amount
+      );
+    case "adjustment":
+      return signedAmount > 0
+        ? line("adjustments", "seller_payable", amount)
+        : line("seller_payable", "adjustments", amount);
+    default: {
+      const account = PASS_THROUGH_ACCOUNTS[type];
+      if (!account) {
+        throw new Error(`No ledger mapping for transaction type ${type}`);
+      }
+      return [
+        ...line(account, "platform_cash", amount),
+        ...line("seller_payable", account, amount),
+      ];
+    }
+  }
+}
+
+/**
+ * Post a journal entry if its source hasn't been posted yet. Throws when the
+ * lines don't balance. Returns false when the source was already posted.
+ */
+export async function postJournalEntry(
+  input: JournalEntryInput
+): Promise<boolean> {
+  const lines = input.lines.filter((l) => l.debit !== 0 || l.credit !== 0);
+  const debits = lines.reduce((sum, l) => sum + toCents(l.debit), 0);
+  const credits = lines.reduce((sum, l) => sum + toCents(l.credit), 0);
+  if (lines.length === 0 || debits !== credits) {
+    throw new Error(
+      `Unbalanced journal entry for ${input.source} ${input.sourceId}: debits ${debits / 100}, credits ${credits / 100}`
+    );
+  }
+
+  return db.transaction(async (tx) => {
+    const [entry] = await tx
+      .insert(ledgerJournalEntries)
+      .values({
+        source: input.source,
+        sourceId: input.sourceId,
+        entryType: input.entryType,
+        currency: input.currency.toUpperCase(),
+        description: input.description ?? null,
+        storeId: input.storeId ?? null,
+        orderId: input.orderId ?? null,
+        payoutId: input.payoutId ?? null,
+        stripeRef: input.stripeRef ?? null,
+        postedAt: input.postedAt,
+      })
+      .onConflictDoNothing({
+        target: [ledgerJournalEntries.source, ledgerJournalEntries.sourceId],
+      })
+      .returning({ id: ledgerJournalEntries.id });
+    if (!entry) return false;
+
+    await tx.insert(ledgerJournalLines).values(
+      lines.map((l) => ({
+        entryId: entry.id,
+        account: l.account,
+        debit: l.debit.toFixed(2),
+        credit: l.credit.toFixed(2),
+      }))
+    );
+    return true;
+  });
+}
+
+/**
+ * Post the journal entry for a seller ledger entry. Called right after
+ * updateSellerBalance writes it; postMissingJournalEntries catches up on any
+ * that failed.
+ */
+export async function postSellerTransactionJournal(
+  transaction: SellerBalanceTransaction
+): Promise<boolean> {
+  let payoutProvider: string | null = null;
+  if (transaction.type === "payout" && transaction.payoutId) {
+    const [payout] = await db
+      .select({ provider: sellerPayouts.provider })
+      .from(sellerPayouts)
+      .where(eq(sellerPayouts.id, transaction.payoutId))
+      .limit(1);
+    payoutProvider = payout?.provider ?? null;
+  }
+
+  // Stripe charge the money moved on, so reconciliation can match it
+  let stripeRef: string | null = null;
+  if (transaction.orderPaymentId && transaction.type !== "payout") {
+    const [payment] = await db
+      .select({
+        provider: orderPayments.provider,
+        stripeChargeId: orderPayments.stripeChargeId,
+      })
+      .from(orderPayments)
+      .where(eq(orderPayments.id, transaction.orderPaymentId))
+      .limit(1);
+    if (payment?.provider === "stripe") {
+      stripeRef = payment.stripeChargeId;
+    }
+  }
+
+  return postJournalEntry({
+    source: "seller_transaction",
+    sourceId: transaction.id,
+    entryType: transaction.type,
+    currency: transaction.currency,
+    description: transaction.description,
+    storeId: transaction.storeId,
+    orderId: transaction.orderId,
+    payoutId: transaction.payoutId,
+    stripeRef,
+    postedAt: transaction.createdAt,
+    lines: journalLinesForSellerTransaction(
+      transaction.type,
+      parseFloat(transaction.amount),
+      payoutProvider
+    ),
+  });
+}
+
+/**
+ * Post the journal entry for a Stripe transfer of a held payment to the
+ * seller's connected account
+ */
+export async function postStripeTransferJournal(params: {
+  transferId: string;
+  amount: number;
+  currency: string;
+  storeId: string;
+  orderId: string;
+  postedAt?: Date;
+}): Promise<boolean> {
+  return postJournalEntry({
+    source: "stripe_transfer",
+    sourceId: params.transferId,
+    entryType: "transfer",
+    currency: params.currency,
+    description: "Transfer to seller Stripe account",
+    storeId: params.storeId,
+    orderId: params.orderId,
+    stripeRef: params.transferId,
+    postedAt: params.postedAt ?? new Date(),
+    lines: line("connected_accounts", "platform_cash", params.amount),
+  });
+}
+
+/**
+ * Post journal entries for seller ledger entries and transfers that don't
+ * have one yet (posting failures, history from before the ledger existed)
+ */
+export async function postMissingJournalEntries(
+  limit = 500
+): Promise<{ posted: number; errors: string[] }> {
+  const errors: string[] = [];
+  let posted = 0;
+
+  const transactions = await db
+    .select({ transaction: sellerBalanceTransactions })
+    .from(sellerBalanceTransactions)
+    .leftJoin(
+      ledgerJournalEntries,
+      and(
+        eq(ledgerJournalEntries.source, "seller_transaction"),
+        sql`${ledgerJournalEntries.sourceId} = ${sellerBalanceTransactions.id}::text`
+      )
+    )
+    .where(isNull(ledgerJournalEntries.id))
+    .orderBy(asc(sellerBalanceTransactions.createdAt))
+    .limit(limit);
+
+  for (const { transaction } of transactions) {
+    try {
+      if (await postSellerTransactionJournal(transaction)) posted++;
+    } catch (error) {
+      errors.push(
+        `Transaction ${transaction.id}: ${error instanceof Error ? error.message : "Unknown error"}`
+      );
+    }
+  }
+
+  const transfers = await db
+    .select({
+      transferId: orderPayments.stripeTransferId,
+      orderId: orderPayments.orderId,
+      storeId: orders.storeId,
+    })
+    .from(orderPayments)
+    .innerJoin(orders, eq(orderPayments.orderId, orders.id))
+    .leftJoin(
+      ledgerJournalEntries,
+      and(
+        eq(ledgerJournalEntries.source, "stripe_transfer"),
+        eq(ledgerJournalEntries.sourceId, orderPayments.stripeTransferId)
+      )
+    )
+    .where(
+      and(
+        isNotNull(orderPayments.stripeTransferId),
+        isNull(ledgerJournalEntries.id)
+      )
+    )
+    .limit(limit);
+
+  for (const t of transfers) {
+    if (!t.storeId) continue;
+    try {
+      // Stripe has the exact amount and date of the transfer
+      const transfer = await stripe.transfers.retrieve(t.transferId!);
+      const wasPosted = await postStripeTransferJournal({
+        transferId: transfer.id,
+        amount: transfer.amount / 100,
+        currency: transfer.currency,
+        storeId: t.storeId,
+        orderId: t.orderId,
+        postedAt: new Date(transfer.created * 1000),
+      });
+      if (wasPosted) posted++;
+    } catch (error) {
+      errors.push(
+        `Transfer ${t.transferId}: ${error instanceof Error ? error.message : "Unknown error"}`
+      );
+    }
+  }
+
+  return { posted, errors };
+}
+
+type MatchKind = "charge" | "refund" | "dispute" | "transfer";
+
+// Which Stripe object a journal entry's platform cash movement belongs to
+function matchKindForEntry(entryType: string): MatchKind | null {
+  switch (entryType) {
+    case "order_payment":
+    case "stripe_fee":
+      return "charge";
+    case "refund":
+      return "refund";
+    case "dispute":
+      return "dispute";
+    case "transfer":
+      return "transfer";
+    default:
+      return null;
+  }
+}
+
+function sourceChargeId(source: Stripe.BalanceTransaction["source"]) {
+  if (!source || typeof source === "string") return null;
+  if (source.object === "refund" || source.object === "dispute") {
+    const charge = (source as Stripe.Refund | Stripe.Dispute).charge;
+    return typeof charge === "string" ? charge : (charge?.id ?? null);
+  }
+  return null;
+}
+
+// Match key for a Stripe balance transaction, or null for types the ledger doesn't track
+function matchKeyForStripe(
+  bt: Stripe.BalanceTransaction
+): { kind: MatchKind; ref: string } | null {
+  const sourceId =
+    typeof bt.source === "string" ? bt.source : (bt.source?.id ?? null);
+  switch (bt.type) {
+    case "charge":
+    case "payment":
+      return sourceId ? { kind: "charge", ref: sourceId } : null;
+    case "refund":
+    case "payment_refund": {
+      const charge = sourceChargeId(bt.source);
+      return charge ? { kind: "refund", ref: charge } : null;
+    }
+    case "adjustment": {
+      const charge = sourceChargeId(bt.source);
+      return charge &&
+        typeof bt.source !== "string" &&
+        bt.source?.object === "dispute"
+        ? { kind: "dispute", ref: charge }
+        : null;
+    }
+    case "transfer":
+      return sourceId ? { kind: "transfer", ref: sourceId } : null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Match platform cash in the journal against Stripe balance transactions
+ * created in [from, to) and record the run. Amounts are compared per Stripe
+ * object (all entries for one charge, its refunds, disputes, or a transfer),
+ * so split multi-store payments match their single charge.
+ */
+export async function reconcileLedgerWithStripe(params: {
+  from: Date;
+  to: Date;
+  triggeredBy?: string | null;
+}): Promise<LedgerReconciliationRun> {
+  const { from, to } = params;
+
+  try {
+    const stripeNet = new Map<
+      string,
+      { kind: MatchKind; ref: string; currency: string; amount: number }
+    >();
+    let stripeTransactionCount = 0;
+
+    for await (const bt of stripe.balanceTransactions.list({
+      created: {
+        gte: Math.floor(from.getTime() / 1000),
+        lt: Math.floor(to.getTime() / 1000),
+      },
+      limit: 100,
+      expand: ["data.source"],
+    })) {
+      const key = matchKeyForStripe(bt);
+      if (!key) continue;
+      stripeTransactionCount++;
+      const mapKey = `${key.kind}:${key.ref}`;
+      const existing = stripeNet.get(mapKey);
+      stripeNet.set(mapKey, {
+        ...key,
+        currency: bt.currency.toUpperCase(),
+        amount: (existing?.amount ?? 0) + bt.net / 100,
+      });
+    }
+
+    // Ledger entries near the window edges may belong to Stripe transactions
+    // just outside it, so only entries well inside count as missing in Stripe
+    const edge = 60 * 60 * 1000;
+    const windowEntries = await db
+      .select({
+        entryType: ledgerJournalEntries.entryType,
+        stripeRef: ledgerJournalEntries.stripeRef,
+        currency: ledgerJournalEntries.currency,
+      })
+      .from(ledgerJournalEntries)
+      .where(
+        and(
+          isNotNull(ledgerJournalEntries.stripeRef),
+          gte(ledgerJournalEntries.postedAt, new Date(from.getTime() + edge)),
+          lt(ledgerJournalEntries.postedAt, new Date(to.getTime() - edge))
+        )
+      );
+
+    const refs = new Set<string>();
+    for (const { ref } of stripeNet.values()) refs.add(ref);
+    for (const e of windowEntries) {
+      if (matchKindForEntry(e.entryType)) refs.add(e.stripeRef!);
+    }
+
+    // All platform cash posted against those Stripe objects, whatever the date
+    const cashLines =
+      refs.size === 0
+        ? []
+        : await db
+            .select({
+              entryType: ledgerJournalEntries.entryType,
+              stripeRef: ledgerJournalEntries.stripeRef,
+              currency: ledgerJournalEntries.currency,
+              debit: ledgerJournalLines.debit,
+              credit: ledgerJournalLines.credit,
+            })
+            .from(ledgerJournalLines)
+            .innerJoin(
+              ledgerJournalEntries,
+              eq(ledgerJournalLines.entryId, ledgerJournalEntries.id)
+            )
+            .where(
+              and(
+                eq(ledgerJournalLines.account, "platform_cash"),
+                inArray(ledgerJournalEntries.stripeRef, Array.from(refs))
+              )
+            );
+
+    const ledgerNet = new Map<
+      string,
+      { kind: MatchKind; ref: string; currency: string; amount: number }
+    >();
+    for (const l of cashLines) {
+      const kind = matchKindForEntry(l.entryType);
+      if (!kind) continue;
+      const mapKey = `${kind}:${l.stripeRef}`;
+      const existing = ledgerNet.get(mapKey);
+      ledgerNet.set(mapKey, {
+        kind,
+        ref: l.stripeRef!,
+        currency: l.currency,
+        amount:
+          (existing?.amount ?? 0) + parseFloat(l.debit) - parseFloat(l.credit),
+      });
+    }
+
+    const windowKeys = new Set(
+      windowEntries
+        .map((e) => {
+          const kind = matchKindForEntry(e.entryType);
+          return kind ? `${kind}:${e.stripeRef}` : null;
+        })
+        .filter((k): k is string => k !== null)
+    );
+
+    const issues: ReconciliationIssue[] = [];
+    const totals: Record<string, { stripe: number; ledger: number }> = {};
+    let matchedCount = 0;
+
+    for (const [mapKey, s] of stripeNet) {
+      const l = ledgerNet.get(mapKey);
+      totals[s.currency] ??= { stripe: 0, ledger: 0 };
+      totals[s.currency].stripe += s.amount;
+      totals[s.currency].ledger += l?.amount ?? 0;
+
+      if (!l) {
+        issues.push({
+          issue: "missing_in_ledger",
+          kind: s.kind,
+          ref: s.ref,
+          currency: s.currency,
+          stripeAmount: s.amount,
+          ledgerAmount: null,
+        });
+      } else if (Math.abs(l.amount - s.amount) > DRIFT_TOLERANCE) {
+        issues.push({
+          issue: "amount_mismatch",
+          kind: s.kind,
+          ref: s.ref,
+          currency: s.currency,
+          stripeAmount: s.amount,
+          ledgerAmount: l.amount,
+        });
+      } else {
+        matchedCount++;
+      }
+    }
+
+    for (const mapKey of windowKeys) {
+      if (stripeNet.has(mapKey)) continue;
+      const l = ledgerNet.get(mapKey);
+      if (!l) continue;
+      issues.push({
+        issue: "missing_in_stripe",
+        kind: l.kind,
+        ref: l.ref,
+        currency: l.currency,
+        stripeAmount: null,
+        ledgerAmount: l.amount,
+      });
+    }
+
+    for (const t of Object.values(totals)) {
+      t.stripe = Math.round(t.stripe * 100) / 100;
+      t.ledger = Math.round(t.ledger * 100) / 100;
+    }
+    for (const issue of issues) {
+      if (issue.stripeAmount !== null) {
+        issue.stripeAmount = Math.round(issue.stripeAmount * 100) / 100;
+      }
+      if (issue.ledgerAmount !== null) {
+        issue.ledgerAmount = Math.round(issue.ledgerAmount * 100) / 100;
+      }
+    }
+
+    const [run] = await db
+      .insert(ledgerReconciliationRuns)
+      .values({
+        periodStart: from,
+        periodEnd: to,
+        status: issues.length > 0 ? "drift" : "matched",
+        stripeTransactionCount,
+        matchedCount,
+        totals,
+        issues,
+        triggeredBy: params.triggeredBy ?? null,
+      })
+      .returning();
+    return run;
+  } catch (error) {
+    console.error("[Ledger] Reconciliation failed:", error);
+    const [run] = await db
+      .insert(ledgerReconciliationRuns)
+      .values({
+        periodStart: from,
+        periodEnd: to,
+        status: "error",
+        errorMessage: error instanceof Error ? error.message : "Unknown error",
+        triggeredBy: params.triggeredBy ?? null,
+      })
+      .returning();
+    return run;
+  }
+}
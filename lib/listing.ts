@@ -21,6 +21,7 @@ import { translateText } from "./translate";
 import { findCategoryById } from "./taxonomy";
 import { generateUniqueListingSlug } from "./slug-utils";
 import { listingSlugHistory } from "@/db/schema";
+import { removeListingFromIndex, syncListingToIndex } from "./search-index";
 
 // Helper function to translate text to all locales
 async function translateToAllLocales(
@@ -513,6 +514,8 @@ export async function createListing(data: CreateListingData): Promise<Listing> {
       });
     }
 
+    await syncListingToIndex(listingId);
+
     return newListing[0];
   } catch (error) {
     console.error("Error creating listing:", error);
@@ -1684,6 +1687,8 @@ export async function updateListing(data: UpdateListingData): Promise<Listing> {
       }
     }
 
+    await syncListingToIndex(id);
+
     return updatedListing[0];
   } catch (error) {
     console.error("Error updating listing:", error);
@@ -1722,6 +1727,7 @@ export async function deleteListing(id: string): Promise<boolean> {
 
     // Delete listing from database
     await db.delete(listing).where(eq(listing.id, id));
+    await removeListingFromIndex(id);
 
     return true;
   } catch (error) {
@@ -1797,6 +1803,8 @@ export async function toggleListingStatus(id: string): Promise<Listing> {
       .where(eq(listing.id, id))
       .returning();
 
+    await syncListingToIndex(id);
+
     return updatedListing[0];
   } catch (error) {
     console.error("Error toggling listing status:", error);
@@ -1825,6 +1833,8 @@ export async function toggleListingFeatured(id: string): Promise<Listing> {
       .where(eq(listing.id, id))
       .returning();
 
+    await syncListingToIndex(id);
+
     return updatedListing[0];
   } catch (error) {
     console.error("Error toggling listing featured status:", error);
@@ -3,7 +3,7 @@
  */
 
 import { db } from "@/db";
-import { orders, draftOrders } from "@/db/schema";
+import { orders, draftOrders, checkoutGroups } from "@/db/schema";
 import { eq } from "drizzle-orm";
 
 /**
@@ -67,3 +67,34 @@ export async function generateDraftOrderNumber(): Promise<string> {
   const timestamp = Date.now().toString().slice(-6);
   return `GM-DRAFT-${year}-${timestamp}`;
 }
+
+/**
+ * Generate a unique checkout number in the format: GM-CHK-YYYY-XXXXXX
+ * Shared reference for all store orders paid in one checkout
+ */
+export async function generateCheckoutNumber(): Promise<string> {
+  const date = new Date();
+  const year = date.getFullYear();
+
+  // Try up to 50 times to find a unique number
+  for (let i = 0; i < 50; i++) {
+    // Generate 6-digit random number (100000-999999)
+    const random = Math.floor(100000 + Math.random() * 900000);
+    const checkoutNumber = `GM-CHK-${year}-${random.toString().padStart(6, "0")}`;
+
+    // Check if this checkout number already exists
+    const existing = await db
+      .select({ id: checkoutGroups.id })
+      .from(checkoutGroups)
+      .where(eq(checkoutGroups.checkoutNumber, checkoutNumber))
+      .limit(1);
+
+    if (existing.length === 0) {
+      return checkoutNumber;
+    }
+  }
+
+  // Fallback: append timestamp if all variations are taken
+  const timestamp = Date.now().toString().slice(-6);
+  return `GM-CHK-${year}-${timestamp}`;
+}
@@ -0,0 +1,442 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { sellerPayoutSettings, sellerPayouts, store } from "@/db/schema";
+import { processPayout } from "@/app/[locale]/actions/seller-payouts";
+import { calculateNextPayoutDate } from "@/app/[locale]/actions/finances";
+import { runScheduledPayouts } from "./payout-scheduler";
+
+type Values = Record<string, unknown>;
+
+const fake = vi.hoisted(() => ({
+  // Results of successive selects from a table, in call order
+  selects: new Map<unknown, unknown[][]>(),
+  inserts: [] as Array<{ table: unknown; values: Values; target: unknown }>,
+  updates: [] as Array<{ table: unknown; values: Values }>,
+  // Idempotency keys taken by earlier inserts
+  keys: new Set<string>(),
+  // Rows returned by update().returning(), from the values being set
+  updateReturning: (() => []) as (values: Values) => unknown[],
+}));
+
+vi.mock("@/db", () => {
+  const query = (rows: () => unknown[]) => {
+    const chain = {
+      innerJoin: () => chain,
+      where: () => chain,
+      orderBy: () => chain,
+      limit: () => chain,
+      then: (resolve: (rows: unknown[]) => unknown) => resolve(rows()),
+    };
+    return chain;
+  };
+
+  return {
+    db: {
+      select: () => ({
+        from: (table: unknown) =>
+          query(() => fake.selects.get(table)?.shift() ?? []),
+      }),
+      insert: (table: unknown) => ({
+        values: (values: Values) => ({
+          onConflictDoNothing: ({ target }: { target: unknown }) => ({
+            returning: async () => {
+              fake.inserts.push({ table, values, target });
+              const key = values.idempotencyKey as string;
+              if (fake.keys.has(key)) return [];
+              fake.keys.add(key);
+              return [{ id: `payout-${fake.keys.size}` }];
+            },
+          }),
+        }),
+      }),
+      update: (table: unknown) => ({
+        set: (values: Values) => {
+          fake.updates.push({ table, values });
+          return {
+            where: () => ({
+              returning: async () => fake.updateReturning(values),
+              then: (resolve: (value: undefined) => unknown) =>
+                resolve(undefined),
+            }),
+          };
+        },
+      }),
+    },
+  };
+});
+
+const stripeApi = vi.hoisted(() => ({
+  balance: { retrieve: vi.fn() },
+  payouts: { create: vi.fn() },
+}));
+
+vi.mock("stripe", () => ({
+  default: class {
+    balance = stripeApi.balance;
+    payouts = stripeApi.payouts;
+  },
+}));
+
+vi.mock("@/app/[locale]/actions/seller-payouts", async (importOriginal) => ({
+  ...(await importOriginal<
+    typeof import("@/app/[locale]/actions/seller-payouts")
+  >()),
+  processPayout: vi.fn(),
+}));
+
+vi.mock("@/app/[locale]/actions/finances", () => ({
+  calculateNextPayoutDate: vi.fn(),
+}));
+
+vi.mock("@/app/[locale]/actions/orders", () => ({
+  getStoreOwnerEmail: vi.fn(),
+}));
+
+vi.mock("@/app/[locale]/actions/seller-balance", () => ({
+  updateSellerBalance: vi.fn(),
+}));
+
+vi.mock("@/lib/audit", () => ({ recordAuditEvent: vi.fn() }));
+vi.mock("@/lib/auth", () => ({ auth: {} }));
+vi.mock("next/cache", () => ({ revalidatePath: () => {} }));
+
+const NOW = new Date("2026-10-19T06:00:00.000Z");
+const SLOT = new Date("2026-10-19T00:00:00.000Z");
+const NEXT_SLOT = new Date("2026-10-20T00:00:00.000Z");
+const HOUR = 60 * 60 * 1000;
+
+function wallet(
+  storeId: string,
+  currency: string,
+  availableBalance: string,
+  storeOverrides: Values = {}
+) {
+  return {
+    settings: {
+      id: `settings-${storeId}`,
+      storeId,
+      method: "automatic",
+      schedule: "daily",
+      payoutDayOfWeek: null,
+      payoutDayOfMonth: null,
+      minimumAmount: "10.00",
+      nextPayoutAt: SLOT,
+    },
+    balance: { storeId, currency, availableBalance },
+    storeData: {
+      id: storeId,
+      storeName: `Store ${storeId}`,
+      stripeAccountId: "acct_1",
+      stripePayoutsEnabled: true,
+      esewaId: null,
+      bankDetailsEncrypted: null,
+      ...storeOverrides,
+    },
+  };
+}
+
+function failedPayout(attemptCount: number) {
+  return {
+    id: "payout-1",
+    storeId: "store-1",
+    storeName: "Store store-1",
+    amount: "50.00",
+    currency: "EUR",
+    attemptCount,
+    nextRetryAt: NOW,
+    scheduledFor: SLOT,
+    availableBalance: "50.00",
+  };
+}
+
+function selectsFrom(table: unknown, ...results: unknown[][]) {
+  fake.selects.set(table, results);
+}
+
+// Claims of a failed payout for a retry succeed; statements are never claimed
+function claimRetries() {
+  fake.updateReturning = (values) =>
+    values.status === "pending" ? [{ id: "payout-1" }] : [];
+}
+
+function updatesOf(table: unknown) {
+  return fake.updates.filter((update) => update.table === table);
+}
+
+beforeEach(() => {
+  fake.selects.clear();
+  fake.inserts.length = 0;
+  fake.updates.length = 0;
+  fake.keys.clear();
+  fake.updateReturning = () => [];
+
+  stripeApi.balance.retrieve.mockResolvedValue({
+    available: [{ currency: "eur", amount: 100000 }],
+  });
+  stripeApi.payouts.create.mockResolvedValue({ id: "po_1" });
+  vi.mocked(processPayout).mockResolvedValue({
+    success: true,
+    transferId: "po_1",
+  });
+  vi.mocked(calculateNextPayoutDate).mockResolvedValue(NEXT_SLOT);
+});
+
+afterEach(() => {
+  vi.clearAllMocks();
+});
+
+describe("runScheduledPayouts", () => {
+  it("pays a due EUR wallet through Stripe under the slot's idempotency key", async () => {
+    selectsFrom(sellerPayoutSettings, [wallet("store-1", "EUR", "50.00")]);
+
+    const results = await runScheduledPayouts({ now: NOW });
+
+    expect(fake.inserts).toHaveLength(1);
+    expect(fake.inserts[0].target).toBe(sellerPayouts.idempotencyKey);
+    expect(fake.inserts[0].values).toMatchObject({
+      storeId: "store-1",
+      amount: "50.00",
+      currency: "EUR",
+      status: "pending",
+      provider: "stripe",
+      scheduledFor: SLOT,
+      idempotencyKey: "scheduled:store-1:EUR:2026-10-19T00:00:00.000Z",
+      batchId: null,
+    });
+    expect(processPayout).toHaveBeenCalledWith("payout-1");
+    expect(results.processed).toBe(1);
+    expect(updatesOf(sellerPayoutSettings)).toEqual([
+      { table: sellerPayoutSettings, values: { nextPayoutAt: NEXT_SLOT } },
+    ]);
+  });
+
+  it("pays a slot once when the run is repeated", async () => {
+    selectsFrom(sellerPayoutSettings, [wallet("store-1", "EUR", "50.00")]);
+    await runScheduledPayouts({ now: NOW });
+
+    // The first run's slot update hasn't landed yet, so the slot is still due
+    selectsFrom(sellerPayoutSettings, [wallet("store-1", "EUR", "50.00")]);
+    const again = await runScheduledPayouts({ now: NOW });
+
+    expect(fake.inserts).toHaveLength(2);
+    expect(fake.inserts[1].values.idempotencyKey).toBe(
+      fake.inserts[0].values.idempotencyKey
+    );
+    expect(processPayout).toHaveBeenCalledTimes(1);
+    expect(again.skipped).toBe(1);
+    expect(again.plans[0]).toMatchObject({
+      action: "skip",
+      reason: "Already scheduled for this slot",
+    });
+  });
+
+  it("queues NPR wallets in the day's eSewa batch without paying them", async () => {
+    selectsFrom(sellerPayoutSettings, [
+      wallet("store-1", "NPR", "5000.00", { esewaId: "9800000000" }),
+      wallet("store-2", "NPR", "2500.00", { bankDetailsEncrypted: "enc" }),
+      wallet("store-3", "NPR", "1000.00"),
+    ]);
+
+    const results = await runScheduledPayouts({ now: NOW });
+
+    expect(fake.inserts.map((insert) => insert.values)).toEqual([
+      expect.objectContaining({
+        storeId: "store-1",
+        provider: "esewa",
+        batchId: "NPR-20261019",
+      }),
+      expect.objectContaining({
+        storeId: "store-2",
+        provider: "esewa",
+        batchId: "NPR-20261019",
+      }),
+    ]);
+    expect(processPayout).not.toHaveBeenCalled();
+    expect(results.queued).toBe(2);
+    expect(results.plans[2]).toMatchObject({
+      storeId: "store-3",
+      action: "skip",
+      reason: "No eSewa ID or bank details on file",
+    });
+  });
+
+  it("plans payouts, queue entries and retries without writing on a dry run", async () => {
+    selectsFrom(sellerPayouts, [failedPayout(1)]);
+    selectsFrom(sellerPayoutSettings, [
+      wallet("store-2", "EUR", "50.00"),
+      wallet("store-3", "NPR", "5000.00", { esewaId: "9800000000" }),
+    ]);
+
+    const results = await runScheduledPayouts({ now: NOW, dryRun: true });
+
+    expect(results.plans.map((plan) => [plan.storeId, plan.action])).toEqual([
+      ["store-1", "retry"],
+      ["store-2", "pay"],
+      ["store-3", "queue"],
+    ]);
+    expect(fake.inserts).toEqual([]);
+    expect(fake.updates).toEqual([]);
+    expect(processPayout).not.toHaveBeenCalled();
+  });
+});
+
+describe("failed Stripe payouts", () => {
+  function failPayout(attemptCount: number) {
+    vi.mocked(processPayout).mockResolvedValue({
+      success: false,
+      error: "Stripe is down",
+    });
+    return { status: "failed", attemptCount };
+  }
+
+  it.each([
+    [2, 6],
+    [3, 24],
+  ])("retries attempt %i after %i hours", async (attempts, hours) => {
+    claimRetries();
+    selectsFrom(
+      sellerPayouts,
+      [failedPayout(attempts - 1)],
+      [failPayout(attempts)]
+    );
+
+    const results = await runScheduledPayouts({ now: NOW });
+
+    expect(processPayout).toHaveBeenCalledWith("payout-1");
+    expect(results.retried).toBe(1);
+    expect(updatesOf(sellerPayouts)).toContainEqual({
+      table: sellerPayouts,
+      values: {
+        attemptCount: attempts,
+        nextRetryAt: new Date(NOW.getTime() + hours * HOUR),
+      },
+    });
+  });
+
+  it("retries a first attempt after an hour", async () => {
+    selectsFrom(sellerPayoutSettings, [wallet("store-1", "EUR", "50.00")]);
+    selectsFrom(sellerPayouts, [], [], [failPayout(1)]);
+
+    await runScheduledPayouts({ now: NOW });
+
+    expect(updatesOf(sellerPayouts)).toContainEqual({
+      table: sellerPayouts,
+      values: {
+        attemptCount: 1,
+        nextRetryAt: new Date(NOW.getTime() + HOUR),
+      },
+    });
+  });
+
+  it("counts a failure before the Stripe call as an attempt too", async () => {
+    selectsFrom(sellerPayoutSettings, [wallet("store-1", "EUR", "50.00")]);
+    // processPayout failed before claiming, so the row shows no attempt
+    selectsFrom(sellerPayouts, [], [], [failPayout(0)]);
+
+    await runScheduledPayouts({ now: NOW });
+
+    expect(updatesOf(sellerPayouts)).toContainEqual({
+      table: sellerPayouts,
+      values: {
+        attemptCount: 1,
+        nextRetryAt: new Date(NOW.getTime() + HOUR),
+      },
+    });
+  });
+
+  it("gives up after the fourth attempt and sends the seller a statement", async () => {
+    claimRetries();
+    selectsFrom(sellerPayouts, [failedPayout(3)], [failPayout(4)]);
+
+    const results = await runScheduledPayouts({ now: NOW });
+
+    expect(results.failed).toBe(1);
+    expect(updatesOf(sellerPayouts)).toContainEqual({
+      table: sellerPayouts,
+      values: { attemptCount: 4, nextRetryAt: null },
+    });
+    expect(
+      updatesOf(sellerPayouts).some((update) => update.values.statementSentAt)
+    ).toBe(true);
+  });
+
+  it("leaves a retry to the run that claimed it first", async () => {
+    selectsFrom(sellerPayouts, [failedPayout(1)]);
+
+    const results = await runScheduledPayouts({ now: NOW });
+
+    expect(processPayout).not.toHaveBeenCalled();
+    expect(results.retried).toBe(0);
+  });
+
+  it("drops a retry the balance no longer covers", async () => {
+    selectsFrom(sellerPayouts, [
+      { ...failedPayout(1), availableBalance: "20.00" },
+    ]);
+
+    const results = await runScheduledPayouts({ now: NOW });
+
+    expect(processPayout).not.toHaveBeenCalled();
+    expect(results.plans[0]).toMatchObject({
+      action: "skip",
+      reason: "Balance no longer covers the payout",
+    });
+    expect(updatesOf(sellerPayouts)).toEqual([
+      { table: sellerPayouts, values: { nextRetryAt: null } },
+    ]);
+  });
+});
+
+describe("processPayout", () => {
+  async function processPayoutNow(payoutId: string) {
+    const actions = await vi.importActual<
+      typeof import("@/app/[locale]/actions/seller-payouts")
+    >("@/app/[locale]/actions/seller-payouts");
+    return actions.processPayout(payoutId);
+  }
+
+  beforeEach(() => {
+    selectsFrom(sellerPayouts, [
+      {
+        id: "payout-1",
+        storeId: "store-1",
+        amount: "50.00",
+        currency: "EUR",
+        status: "pending",
+        provider: "stripe",
+        attemptCount: 1,
+      },
+    ]);
+    selectsFrom(store, [{ id: "store-1", stripeAccountId: "acct_1" }]);
+  });
+
+  it("claims the pending payout as processing before paying it", async () => {
+    fake.updateReturning = (values) =>
+      values.status === "processing" ? [{ id: "payout-1" }] : [];
+
+    const result = await processPayoutNow("payout-1");
+
+    expect(result).toEqual({ success: true, transferId: "po_1" });
+    const statuses = updatesOf(sellerPayouts).map(
+      (update) => update.values.status
+    );
+    expect(statuses).toEqual(["processing", "completed"]);
+    expect(updatesOf(sellerPayouts)[0].values.attemptCount).toBe(2);
+    expect(stripeApi.payouts.create).toHaveBeenCalledWith(
+      expect.objectContaining({ amount: 5000, currency: "eur" }),
+      { stripeAccount: "acct_1", idempotencyKey: "seller-payout-payout-1-2" }
+    );
+  });
+
+  it("does not pay a payout another run has already claimed", async () => {
+    const result = await processPayoutNow("payout-1");
+
+    expect(result).toEqual({
+      success: false,
+      error: "Payout is already being processed",
+    });
+    expect(stripeApi.payouts.create).not.toHaveBeenCalled();
+    expect(
+      updatesOf(sellerPayouts).map((update) => update.values.status)
+    ).toEqual(["processing"]);
+  });
+});
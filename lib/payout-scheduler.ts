@@ -0,0 +1,579 @@
+/**
+ * Automatic seller payouts. The process-scheduled-payouts cron pays every
+ * store wallet (store + currency) whose seller_payout_settings slot
+ * (next_payout_at) is due: EUR through Stripe, NPR into the admin eSewa/bank
+ * work queue in daily batches. Each slot gets exactly one payout row, keyed
+ * by an idempotency key, so a retried cron run never pays twice. Failed
+ * Stripe payouts are retried with backoff and sellers are emailed a payout
+ * statement.
+ */
+
+import { db } from "@/db";
+import {
+  sellerBalanceTransactions,
+  sellerBalances,
+  sellerPayoutSettings,
+  sellerPayouts,
+  store,
+  type SellerPayoutSettings,
+} from "@/db/schema";
+import {
+  and,
+  desc,
+  eq,
+  gt,
+  inArray,
+  isNotNull,
+  isNull,
+  lte,
+  ne,
+  or,
+} from "drizzle-orm";
+import { stripe } from "@/lib/stripe";
+import { processPayout } from "@/app/[locale]/actions/seller-payouts";
+import { calculateNextPayoutDate } from "@/app/[locale]/actions/finances";
+import { getStoreOwnerEmail } from "@/app/[locale]/actions/orders";
+
+// Hours to wait before retrying a failed Stripe payout, by attempts made
+const RETRY_DELAYS_HOURS = [1, 6, 24];
+const MAX_PAYOUT_ATTEMPTS = RETRY_DELAYS_HOURS.length + 1;
+
+const LEDGER_TYPE_LABELS: Record<string, string> = {
+  order_payment: "Order payments",
+  platform_fee: "Platform fees",
+  stripe_fee: "Stripe fees",
+  esewa_fee: "eSewa fees",
+  shipping_label: "Shipping labels",
+  refund: "Refunds",
+  dispute: "Disputes",
+  adjustment: "Adjustments",
+};
+
+export type ScheduledPayoutAction = "pay" | "queue" | "retry" | "skip";
+
+export interface ScheduledPayoutPlan {
+  storeId: string;
+  storeName: string;
+  currency: string;
+  amount: number;
+  action: ScheduledPayoutAction;
+  slot: Date | null;
+  payoutId?: string;
+  reason?: string;
+}
+
+export interface ScheduledPayoutResults {
+  dryRun: boolean;
+  processed: number;
+  queued: number;
+  retried: number;
+  failed: number;
+  skipped: number;
+  plans: ScheduledPayoutPlan[];
+  errors: string[];
+}
+
+type StatementStatus = "completed" | "queued" | "failed";
+
+const walletKey = (storeId: string, currency: string) =>
+  `${storeId}:${currency}`;
+
+/**
+ * Available balance of a connected account in the given currency, or null
+ * when it can't be read or is zero (then the ledger is trusted, as for
+ * manual payouts)
+ */
+async function getStripeAvailableBalance(
+  stripeAccountId: string,
+  currency: string
+): Promise<number | null> {
+  try {
+    const balance = await stripe.balance.retrieve({
+      stripeAccount: stripeAccountId,
+    });
+    const currencyBalance = balance.available.find(
+      (b) => b.currency.toLowerCase() === currency.toLowerCase()
+    );
+    return currencyBalance && currencyBalance.amount > 0
+      ? currencyBalance.amount / 100
+      : null;
+  } catch (error) {
+    console.error(
+      `[Payouts] Error retrieving Stripe balance for account ${stripeAccountId}:`,
+      error
+    );
+    return null;
+  }
+}
+
+/**
+ * Decide what to do with one due wallet. Reads only, so dry runs use it too.
+ */
+async function planWallet(
+  settings: SellerPayoutSettings,
+  balance: typeof sellerBalances.$inferSelect,
+  storeData: typeof store.$inferSelect,
+  busyWallets: Set<string>
+): Promise<ScheduledPayoutPlan> {
+  const ledgerBalance = parseFloat(balance.availableBalance);
+  const minimumAmount = parseFloat(settings.minimumAmount);
+  const plan: ScheduledPayoutPlan = {
+    storeId: settings.storeId,
+    storeName: storeData.storeName,
+    currency: balance.currency,
+    amount: Math.max(0, ledgerBalance),
+    action: "skip",
+    slot: settings.nextPayoutAt,
+  };
+
+  if (busyWallets.has(walletKey(settings.storeId, balance.currency))) {
+    return { ...plan, reason: "A payout is already in progress" };
+  }
+  if (ledgerBalance < minimumAmount || ledgerBalance <= 0) {
+    return { ...plan, reason: `Balance below minimum of ${minimumAmount}` };
+  }
+
+  if (balance.currency === "NPR") {
+    if (!storeData.esewaId?.trim() && !storeData.bankDetailsEncrypted?.trim()) {
+      return { ...plan, reason: "No eSewa ID or bank details on file" };
+    }
+    return { ...plan, action: "queue" };
+  }
+
+  if (balance.currency !== "EUR") {
+    return { ...plan, reason: `No automatic payouts for ${balance.currency}` };
+  }
+  if (!storeData.stripeAccountId || !storeData.stripePayoutsEnabled) {
+    return { ...plan, reason: "Stripe payouts not enabled" };
+  }
+
+  // Never pay out more than the connected account actually holds
+  const stripeBalance = await getStripeAvailableBalance(
+    storeData.stripeAccountId,
+    balance.currency
+  );
+  const amount =
+    stripeBalance !== null
+      ? Math.min(ledgerBalance, stripeBalance)
+      : ledgerBalance;
+  if (amount < minimumAmount) {
+    return {
+      ...plan,
+      amount,
+      reason: "Stripe available balance below minimum",
+    };
+  }
+
+  return { ...plan, amount, action: "pay" };
+}
+
+/**
+ * Run one Stripe attempt for a pending payout. Failures get a retry slot
+ * until MAX_PAYOUT_ATTEMPTS is reached, then the seller is told.
+ */
+async function attemptStripePayout(
+  payoutId: string,
+  attemptsBefore: number,
+  now: Date,
+  results: ScheduledPayoutResults
+) {
+  const result = await processPayout(payoutId);
+  if (result.success) {
+    results.processed++;
+    await sendPayoutStatement(payoutId, "completed");
+    return;
+  }
+
+  results.errors.push(`Payout ${payoutId}: ${result.error}`);
+
+  const [payout] = await db
+    .select({
+      status: sellerPayouts.status,
+      attemptCount: sellerPayouts.attemptCount,
+    })
+    .from(sellerPayouts)
+    .where(eq(sellerPayouts.id, payoutId))
+    .limit(1);
+  if (payout?.status !== "failed") return;
+
+  // Failures before the Stripe call (e.g. balance checks) don't count an attempt
+  const attempts = Math.max(payout.attemptCount, attemptsBefore + 1);
+  const delayHours =
+    attempts < MAX_PAYOUT_ATTEMPTS ? RETRY_DELAYS_HOURS[attempts - 1] : null;
+  const nextRetryAt =
+    delayHours != null
+      ? new Date(now.getTime() + delayHours * 60 * 60 * 1000)
+      : null;
+
+  await db
+    .update(sellerPayouts)
+    .set({ attemptCount: attempts, nextRetryAt })
+    .where(eq(sellerPayouts.id, payoutId));
+
+  if (!nextRetryAt) {
+    results.failed++;
+    await sendPayoutStatement(payoutId, "failed");
+  }
+}
+
+/**
+ * Retry failed scheduled payouts whose backoff has elapsed
+ */
+async function retryFailedPayouts(
+  now: Date,
+  dryRun: boolean,
+  results: ScheduledPayoutResults
+) {
+  const due = await db
+    .select({
+      id: sellerPayouts.id,
+      storeId: sellerPayouts.storeId,
+      storeName: store.storeName,
+      amount: sellerPayouts.amount,
+      currency: sellerPayouts.currency,
+      attemptCount: sellerPayouts.attemptCount,
+      nextRetryAt: sellerPayouts.nextRetryAt,
+      scheduledFor: sellerPayouts.scheduledFor,
+      availableBalance: sellerBalances.availableBalance,
+    })
+    .from(sellerPayouts)
+    .innerJoin(store, eq(sellerPayouts.storeId, store.id))
+    .innerJoin(
+      sellerBalances,
+      and(
+        eq(sellerBalances.storeId, sellerPayouts.storeId),
+        eq(sellerBalances.currency, sellerPayouts.currency)
+      )
+    )
+    .where(
+      and(
+        eq(sellerPayouts.status, "failed"),
+        isNotNull(sellerPayouts.scheduledFor),
+        isNotNull(sellerPayouts.nextRetryAt),
+        lte(sellerPayouts.nextRetryAt, now)
+      )
+    );
+
+  for (const payout of due) {
+    const amount = parseFloat(payout.amount);
+    const plan: ScheduledPayoutPlan = {
+      storeId: payout.storeId,
+      storeName: payout.storeName,
+      currency: payout.currency,
+      amount,
+      action: "retry",
+      slot: payout.scheduledFor,
+      payoutId: payout.id,
+    };
+
+    // The balance may have been paid out or reduced since the first attempt
+    if (parseFloat(payout.availableBalance) < amount) {
+      plan.action = "skip";
+      plan.reason = "Balance no longer covers the payout";
+      results.plans.push(plan);
+      results.skipped++;
+      if (!dryRun) {
+        await db
+          .update(sellerPayouts)
+          .set({ nextRetryAt: null })
+          .where(eq(sellerPayouts.id, payout.id));
+      }
+      continue;
+    }
+
+    results.plans.push(plan);
+    if (dryRun) continue;
+
+    try {
+      const claimed = await db
+        .update(sellerPayouts)
+        .set({ status: "pending", nextRetryAt: null, failureReason: null })
+        .where(
+          and(
+            eq(sellerPayouts.id, payout.id),
+            eq(sellerPayouts.status, "failed"),
+            eq(sellerPayouts.nextRetryAt, payout.nextRetryAt!)
+          )
+        )
+        .returning({ id: sellerPayouts.id });
+      if (claimed.length === 0) continue;
+
+      results.retried++;
+      await attemptStripePayout(payout.id, payout.attemptCount, now, results);
+    } catch (error) {
+      results.errors.push(
+        `Payout ${payout.id}: ${error instanceof Error ? error.message : "Unknown error"}`
+      );
+    }
+  }
+}
+
+/**
+ * Move a store's slot forward. Conditional on the slot we processed, so
+ * overlapping runs advance it once.
+ */
+async function advanceSchedule(settings: SellerPayoutSettings, now: Date) {
+  if (!settings.nextPayoutAt) return;
+
+  const nextPayoutAt = await calculateNextPayoutDate(
+    settings.schedule as "daily" | "weekly" | "biweekly" | "monthly" | null,
+    settings.payoutDayOfWeek,
+    settings.payoutDayOfMonth,
+    now
+  );
+
+  await db
+    .update(sellerPayoutSettings)
+    .set({ nextPayoutAt })
+    .where(
+      and(
+        eq(sellerPayoutSettings.id, settings.id),
+        eq(sellerPayoutSettings.nextPayoutAt, settings.nextPayoutAt)
+      )
+    );
+}
+
+/**
+ * Pay out every due automatic wallet. With `dryRun` nothing is written and
+ * the returned plans show what would be paid.
+ */
+export async function runScheduledPayouts(
+  options: { dryRun?: boolean; now?: Date } = {}
+): Promise<ScheduledPayoutResults> {
+  const now = options.now ?? new Date();
+  const dryRun = options.dryRun ?? false;
+  const results: ScheduledPayoutResults = {
+    dryRun,
+    processed: 0,
+    queued: 0,
+    retried: 0,
+    failed: 0,
+    skipped: 0,
+    plans: [],
+    errors: [],
+  };
+
+  await retryFailedPayouts(now, dryRun, results);
+
+  const due = await db
+    .select({
+      settings: sellerPayoutSettings,
+      balance: sellerBalances,
+      storeData: store,
+    })
+    .from(sellerPayoutSettings)
+    .innerJoin(
+      sellerBalances,
+      eq(sellerPayoutSettings.storeId, sellerBalances.storeId)
+    )
+    .innerJoin(store, eq(sellerPayoutSettings.storeId, store.id))
+    .where(
+      and(
+        eq(sellerPayoutSettings.method, "automatic"),
+        isNotNull(sellerPayoutSettings.nextPayoutAt),
+        lte(sellerPayoutSettings.nextPayoutAt, now)
+      )
+    );
+
+  if (due.length === 0) return results;
+
+  // Wallets with a payout still open (manual request or a retry pending)
+  const storeIds = Array.from(new Set(due.map((d) => d.settings.storeId)));
+  const openPayouts = await db
+    .select({
+      storeId: sellerPayouts.storeId,
+      currency: sellerPayouts.currency,
+    })
+    .from(sellerPayouts)
+    .where(
+      and(
+        inArray(sellerPayouts.storeId, storeIds),
+        or(
+          inArray(sellerPayouts.status, ["pending", "processing"]),
+          and(
+            eq(sellerPayouts.status, "failed"),
+            isNotNull(sellerPayouts.nextRetryAt)
+          )
+        )
+      )
+    );
+  const busyWallets = new Set(
+    openPayouts.map((p) => walletKey(p.storeId, p.currency))
+  );
+
+  const batchId = `NPR-${now.toISOString().slice(0, 10).replace(/-/g, "")}`;
+  const dueSettings = new Map<string, SellerPayoutSettings>();
+
+  for (const { settings, balance, storeData } of due) {
+    dueSettings.set(settings.id, settings);
+    try {
+      const plan = await planWallet(settings, balance, storeData, busyWallets);
+      results.plans.push(plan);
+      if (plan.action === "skip") {
+        results.skipped++;
+        continue;
+      }
+      if (dryRun) continue;
+
+      const isQueue = plan.action === "queue";
+      const [payout] = await db
+        .insert(sellerPayouts)
+        .values({
+          storeId: settings.storeId,
+          amount: plan.amount.toFixed(2),
+          currency: balance.currency,
+          status: "pending",
+          provider: isQueue ? "esewa" : "stripe",
+          requestedBy: null, // System-initiated
+          scheduledFor: settings.nextPayoutAt,
+          idempotencyKey: `scheduled:${settings.storeId}:${balance.currency}:${settings.nextPayoutAt!.toISOString()}`,
+          batchId: isQueue ? batchId : null,
+        })
+        .onConflictDoNothing({ target: sellerPayouts.idempotencyKey })
+        .returning({ id: sellerPayouts.id });
+
+      // Another run already took this slot
+      if (!payout) {
+        plan.action = "skip";
+        plan.reason = "Already scheduled for this slot";
+        results.skipped++;
+        continue;
+      }
+      plan.payoutId = payout.id;
+
+      if (isQueue) {
+        results.queued++;
+        await sendPayoutStatement(payout.id, "queued");
+      } else {
+        await attemptStripePayout(payout.id, 0, now, results);
+      }
+    } catch (error) {
+      results.errors.push(
+        `Store ${settings.storeId} (${balance.currency}): ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+  }
+
+  if (!dryRun) {
+    for (const settings of dueSettings.values()) {
+      await advanceSchedule(settings, now);
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Email the store owner a statement for a scheduled payout: amount, status
+ * and ledger activity since the previous payout. Sent at most once per payout.
+ */
+export async function sendPayoutStatement(
+  payoutId: string,
+  status: StatementStatus
+): Promise<void> {
+  const [payout] = await db
+    .update(sellerPayouts)
+    .set({ statementSentAt: new Date() })
+    .where(
+      and(eq(sellerPayouts.id, payoutId), isNull(sellerPayouts.statementSentAt))
+    )
+    .returning();
+  if (!payout) return;
+
+  try {
+    const owner = await getStoreOwnerEmail(payout.storeId);
+    if (!owner.success || !owner.email) return;
+
+    const [storeRow] = await db
+      .select({ storeName: store.storeName })
+      .from(store)
+      .where(eq(store.id, payout.storeId))
+      .limit(1);
+
+    const [previous] = await db
+      .select({ completedAt: sellerPayouts.completedAt })
+      .from(sellerPayouts)
+      .where(
+        and(
+          eq(sellerPayouts.storeId, payout.storeId),
+          eq(sellerPayouts.currency, payout.currency),
+          eq(sellerPayouts.status, "completed"),
+          ne(sellerPayouts.id, payout.id)
+        )
+      )
+      .orderBy(desc(sellerPayouts.completedAt))
+      .limit(1);
+
+    const periodStart = previous?.completedAt ?? null;
+    const periodEnd = payout.requestedAt;
+    const entries = await db
+      .select({
+        type: sellerBalanceTransactions.type,
+        amount: sellerBalanceTransactions.amount,
+      })
+      .from(sellerBalanceTransactions)
+      .where(
+        and(
+          eq(sellerBalanceTransactions.storeId, payout.storeId),
+          eq(sellerBalanceTransactions.currency, payout.currency),
+          ne(sellerBalanceTransactions.type, "payout"),
+          lte(sellerBalanceTransactions.createdAt, periodEnd),
+          periodStart
+            ? gt(sellerBalanceTransactions.createdAt, periodStart)
+            : undefined
+        )
+      );
+
+    const totals = new Map<string, { amount: number; count: number }>();
+    for (const entry of entries) {
+      const total = totals.get(entry.type) ?? { amount: 0, count: 0 };
+      total.amount += parseFloat(entry.amount);
+      total.count++;
+      totals.set(entry.type, total);
+    }
+
+    const resend = (await import("@/lib/resend")).default;
+    const PayoutStatementEmail = (
+      await import("@/app/[locale]/components/payout-statement-email")
+    ).default;
+
+    const storeName = storeRow?.storeName || "your store";
+    const { error } = await resend.emails.send({
+      from:
+        process.env.RESEND_FROM_EMAIL ||
+        "Golden Market <goldenmarket@resend.dev>",
+      to: owner.email,
+      subject:
+        status === "failed"
+          ? `Scheduled payout failed - ${storeName}`
+          : `Payout statement - ${payout.amount} ${payout.currency}`,
+      react: PayoutStatementEmail({
+        storeName,
+        amount: payout.amount,
+        currency: payout.currency,
+        status,
+        periodStart,
+        periodEnd,
+        lines: Array.from(totals.entries()).map(([type, total]) => ({
+          label: LEDGER_TYPE_LABELS[type] ?? type,
+          amount: total.amount.toFixed(2),
+          count: total.count,
+        })),
+        failureReason: status === "failed" ? payout.failureReason : null,
+        payoutsUrl: `${process.env.NEXT_PUBLIC_APP_URL}/dashboard/finances/payouts`,
+      }),
+    });
+    if (error) {
+      throw new Error(error.message);
+    }
+  } catch (error) {
+    // Release the claim so a later run can send it
+    await db
+      .update(sellerPayouts)
+      .set({ statementSentAt: null })
+      .where(eq(sellerPayouts.id, payoutId));
+    console.error("[Payouts] Failed to send payout statement:", error);
+  }
+}
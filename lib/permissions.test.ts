@@ -0,0 +1,188 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { storeMembers } from "@/db/schema";
+import {
+  actAsRoleWith,
+  actSignedOut,
+  getTestSession,
+  resetHarness,
+  tableRows,
+  TEST_USER_ID,
+} from "@/test/permission-harness";
+import {
+  getDashboardRoleForPermissions,
+  getPermittedStoreIds,
+  hasPermission,
+  isPermissionDeniedError,
+  PermissionDeniedError,
+  requireCurrentPermission,
+  requirePermission,
+  STORE_PERMISSIONS,
+} from "./permissions";
+
+vi.mock("@/db", async () => ({
+  db: (await import("@/test/permission-harness")).db,
+}));
+vi.mock(
+  "@/lib/auth",
+  async () => (await import("@/test/permission-harness")).authModule
+);
+vi.mock(
+  "@/lib/user-role",
+  async () => (await import("@/test/permission-harness")).userRoleModule
+);
+vi.mock(
+  "next/headers",
+  async () => (await import("@/test/permission-harness")).headersModule
+);
+
+function memberOf(
+  storeId: string,
+  role: "admin" | "seller" | "staff",
+  permissions: string[] | null = null
+) {
+  return { storeId, role, permissions };
+}
+
+async function denial(run: () => Promise<unknown>) {
+  const error = await run().then(
+    () => null,
+    (e: unknown) => e
+  );
+  expect(isPermissionDeniedError(error)).toBe(true);
+  return error as PermissionDeniedError;
+}
+
+beforeEach(() => {
+  resetHarness();
+});
+
+describe("requirePermission", () => {
+  it("rejects a missing session", async () => {
+    actSignedOut();
+
+    const error = await denial(() =>
+      requirePermission(getTestSession(), "orders.view")
+    );
+    expect(error.permission).toBeNull();
+    expect(error.message).toBe("Unauthorized");
+  });
+
+  it("lets a custom role do what its permissions grant, and nothing else", async () => {
+    // e.g. a "Support" role created in the admin UI
+    actAsRoleWith(["orders.view", "chat.respond", "users.manage"]);
+    const session = getTestSession();
+
+    await expect(requirePermission(session, "orders.view")).resolves.toEqual({
+      userId: TEST_USER_ID,
+      allStores: false,
+    });
+    await expect(requirePermission(session, "users.manage")).resolves.toEqual({
+      userId: TEST_USER_ID,
+      allStores: false,
+    });
+
+    const error = await denial(() => requirePermission(session, "orders.refund"));
+    expect(error.permission).toBe("orders.refund");
+    expect(error.message).toBe(
+      "You don't have permission to do this (Refund orders)"
+    );
+    await denial(() => requirePermission(session, "platform.settings"));
+  });
+
+  it("limits store permissions to stores the user is a member of", async () => {
+    actAsRoleWith(["orders.manage"]);
+    tableRows.set(storeMembers, [memberOf("store-1", "seller")]);
+    const session = getTestSession();
+
+    await expect(
+      requirePermission(session, "orders.manage", { storeId: "store-1" })
+    ).resolves.toBeTruthy();
+
+    const error = await denial(() =>
+      requirePermission(session, "orders.manage", { storeId: "store-2" })
+    );
+    expect(error.message).toBe("You don't have access to this store");
+  });
+
+  it("applies store permissions to every store with stores.all", async () => {
+    actAsRoleWith(["stores.all", "orders.manage"]);
+    const session = getTestSession();
+
+    await expect(
+      requirePermission(session, "orders.manage", { storeId: "store-2" })
+    ).resolves.toEqual({ userId: TEST_USER_ID, allStores: true });
+    await denial(() =>
+      requirePermission(session, "orders.refund", { storeId: "store-2" })
+    );
+  });
+
+  it("gives staff the permissions saved on their membership, not their role's", async () => {
+    actAsRoleWith(["orders.manage", "orders.refund"]);
+    tableRows.set(storeMembers, [
+      memberOf("store-1", "staff", ["orders.view", "orders.refund", "users.manage"]),
+    ]);
+    const session = getTestSession();
+
+    await expect(
+      requirePermission(session, "orders.refund", { storeId: "store-1" })
+    ).resolves.toBeTruthy();
+    await expect(
+      requirePermission(session, "orders.view", { storeId: "store-1" })
+    ).resolves.toBeTruthy();
+    await denial(() =>
+      requirePermission(session, "orders.manage", { storeId: "store-1" })
+    );
+    // Only store permissions can be granted through a membership
+    expect(await getPermittedStoreIds(TEST_USER_ID, "orders.refund")).toEqual([
+      "store-1",
+    ]);
+  });
+
+  it("checks the user's own store first when no store is given", async () => {
+    actAsRoleWith(["products.manage"]);
+    tableRows.set(storeMembers, [
+      memberOf("staffed-store", "staff", ["orders.view"]),
+      memberOf("own-store", "seller"),
+    ]);
+    const session = getTestSession();
+
+    await expect(
+      requirePermission(session, "products.manage")
+    ).resolves.toBeTruthy();
+    await denial(() => requirePermission(session, "orders.view"));
+  });
+});
+
+describe("requireCurrentPermission", () => {
+  it("checks the signed-in user of the request", async () => {
+    actAsRoleWith(["audit.view"]);
+
+    await expect(requireCurrentPermission("audit.view")).resolves.toBeTruthy();
+    await denial(() => requireCurrentPermission("platform.finances"));
+
+    actSignedOut();
+    await denial(() => requireCurrentPermission("audit.view"));
+  });
+});
+
+describe("hasPermission", () => {
+  it("answers instead of throwing", async () => {
+    actAsRoleWith(["reviews.manage"]);
+    const session = getTestSession();
+
+    expect(await hasPermission(session, "reviews.manage")).toBe(true);
+    expect(await hasPermission(session, "stores.all")).toBe(false);
+    expect(await hasPermission(null, "reviews.manage")).toBe(false);
+  });
+});
+
+describe("getDashboardRoleForPermissions", () => {
+  it("maps what a role grants onto a dashboard", () => {
+    expect(getDashboardRoleForPermissions(["stores.all"])).toBe("admin");
+    expect(getDashboardRoleForPermissions(["chat.respond"])).toBe("seller");
+    expect(getDashboardRoleForPermissions(["audit.view"])).toBe("customer");
+    expect(getDashboardRoleForPermissions([...STORE_PERMISSIONS])).toBe(
+      "seller"
+    );
+  });
+});
@@ -0,0 +1,367 @@
+/**
+ * Permission checks for server actions and API routes.
+ *
+ * Users hold roles (user_roles) and roles grant permissions
+ * (role_permissions), so a role created in the admin UI takes effect without
+ * code changes. Store permissions only apply to stores the user is a member
+ * of, unless one of their roles also grants "stores.all". Store owners get the
+ * store permissions of their roles; invited staff get the permissions saved on
+ * their membership instead.
+ *
+ * requirePermission throws PermissionDeniedError, which server actions let
+ * reach their catch block and return like any other error. API routes and
+ * UI checks use hasPermission instead.
+ */
+
+import { cache } from "react";
+import { headers } from "next/headers";
+import { auth } from "@/lib/auth";
+import { db } from "@/db";
+import { storeMembers } from "@/db/schema";
+import { asc, eq } from "drizzle-orm";
+import { getUserRole } from "@/lib/user-role";
+
+// Seeded by drizzle/0084_permission_catalog.sql and 0085_store_staff.sql
+// (Admin gets everything, Seller the store permissions); keep them in sync
+export const PERMISSION_CATALOG = [
+  // Platform
+  {
+    id: "users.manage",
+    name: "Manage users and roles",
+    description: "Edit users, suspend accounts, and edit roles and permissions",
+    category: "Platform",
+  },
+  {
+    id: "stores.all",
+    name: "Access all stores",
+    description:
+      "Use the store permissions below on every store, not only stores the user is a member of",
+    category: "Platform",
+  },
+  {
+    id: "platform.settings",
+    name: "Manage platform settings",
+    description:
+      "Fee schedule, tax rules, markets, categories, shipping zones and store approval",
+    category: "Platform",
+  },
+  {
+    id: "platform.content",
+    name: "Manage site content",
+    description: "Homepage, site pages, FAQ, documentation and translations",
+    category: "Platform",
+  },
+  {
+    id: "platform.finances",
+    name: "Platform finances",
+    description: "Ledger, reconciliation, disputes and platform analytics",
+    category: "Platform",
+  },
+  {
+    id: "audit.view",
+    name: "View audit log",
+    description: "Read the audit trail of sensitive actions",
+    category: "Platform",
+  },
+  // Store
+  {
+    id: "orders.view",
+    name: "View orders",
+    description: "See orders, drafts, returns and customer details on them",
+    category: "Orders",
+  },
+  {
+    id: "orders.manage",
+    name: "Manage orders",
+    description:
+      "Create, edit, fulfill and cancel orders and drafts, send invoices",
+    category: "Orders",
+  },
+  {
+    id: "orders.refund",
+    name: "Refund orders",
+    description: "Issue refunds and decide refund requests and returns",
+    category: "Orders",
+  },
+  {
+    id: "products.manage",
+    name: "Manage products",
+    description: "Create and edit products, variants, bundles and plans",
+    category: "Catalog",
+  },
+  {
+    id: "inventory.manage",
+    name: "Manage inventory",
+    description: "Stock levels, locations, suppliers and purchase orders",
+    category: "Catalog",
+  },
+  {
+    id: "discounts.manage",
+    name: "Manage discounts",
+    description: "Create and edit discounts and discount codes",
+    category: "Catalog",
+  },
+  {
+    id: "customers.manage",
+    name: "Manage customers",
+    description: "View and edit the store's customers",
+    category: "Customers",
+  },
+  {
+    id: "chat.respond",
+    name: "Answer customer chat",
+    description: "Read and reply to the store's customer conversations",
+    category: "Customers",
+  },
+  {
+    id: "reviews.manage",
+    name: "Manage reviews",
+    description: "Moderate and answer product reviews and questions",
+    category: "Customers",
+  },
+  {
+    id: "shipping.manage",
+    name: "Manage shipping",
+    description: "Shipping profiles, packages and labels",
+    category: "Store",
+  },
+  {
+    id: "finances.view",
+    name: "View finances",
+    description: "Balance, payouts, statements and store analytics",
+    category: "Store",
+  },
+  {
+    id: "finances.payout",
+    name: "Withdraw funds",
+    description: "Request payouts of the store's balance",
+    category: "Store",
+  },
+  {
+    id: "store.settings",
+    name: "Manage store settings",
+    description: "Store profile, storefront, payments setup and members",
+    category: "Store",
+  },
+] as const;
+
+export type PermissionId = (typeof PERMISSION_CATALOG)[number]["id"];
+
+const PLATFORM_PERMISSIONS: PermissionId[] = [
+  "users.manage",
+  "stores.all",
+  "platform.settings",
+  "platform.content",
+  "platform.finances",
+  "audit.view",
+];
+
+/** Permissions that are checked against store membership */
+export const STORE_PERMISSIONS = PERMISSION_CATALOG.map((p) => p.id).filter(
+  (id) => !PLATFORM_PERMISSIONS.includes(id)
+);
+
+/**
+ * Thrown when the current user lacks a permission, or holds it but not for
+ * the store being acted on.
+ */
+export class PermissionDeniedError extends Error {
+  readonly permission: PermissionId | null;
+
+  constructor(permission: PermissionId | null, message: string) {
+    super(message);
+    this.name = "PermissionDeniedError";
+    this.permission = permission;
+  }
+}
+
+export function isPermissionDeniedError(
+  error: unknown
+): error is PermissionDeniedError {
+  return error instanceof PermissionDeniedError;
+}
+
+/** The part of a better-auth session the checks need */
+export type PermissionSession = { user: { id: string } } | null | undefined;
+
+export interface PermissionScope {
+  storeId?: string | null; // The store being acted on
+}
+
+export interface PermissionGrant {
+  userId: string;
+  allStores: boolean; // Holds stores.all: not limited to member stores
+}
+
+export interface StoreMembership {
+  storeId: string;
+  role: "admin" | "seller" | "staff";
+  permissions: PermissionId[]; // Store permissions the user has in this store
+}
+
+function isStorePermission(id: string): id is PermissionId {
+  return (STORE_PERMISSIONS as string[]).includes(id);
+}
+
+/** Permissions granted by all of the user's roles (cached per request) */
+export async function getUserPermissions(userId: string): Promise<Set<string>> {
+  const { permissions } = await getUserRole(userId);
+  return new Set(permissions);
+}
+
+/**
+ * The user's stores and what they may do in each (cached per request).
+ * Stores they own come first: the first one is the store actions work on
+ * when no store is given.
+ */
+export const getStoreMemberships = cache(
+  async (userId: string): Promise<StoreMembership[]> => {
+    const [rows, rolePermissions] = await Promise.all([
+      db
+        .select({
+          storeId: storeMembers.storeId,
+          role: storeMembers.role,
+          permissions: storeMembers.permissions,
+        })
+        .from(storeMembers)
+        .where(eq(storeMembers.userId, userId))
+        .orderBy(asc(storeMembers.createdAt)),
+      getUserPermissions(userId),
+    ]);
+
+    return rows
+      .map((row) => ({
+        storeId: row.storeId,
+        role: row.role,
+        permissions:
+          row.role === "staff"
+            ? (row.permissions ?? []).filter(isStorePermission)
+            : STORE_PERMISSIONS.filter((id) => rolePermissions.has(id)),
+      }))
+      .sort((a, b) => Number(a.role === "staff") - Number(b.role === "staff"));
+  }
+);
+
+/** Stores the user is a member of (cached per request) */
+export async function getMemberStoreIds(userId: string): Promise<string[]> {
+  const memberships = await getStoreMemberships(userId);
+  return memberships.map((membership) => membership.storeId);
+}
+
+/**
+ * Member stores where the user holds a store permission. Ignores
+ * "stores.all", for lists that show a member's own stores.
+ */
+export async function getPermittedStoreIds(
+  userId: string,
+  permission: PermissionId
+): Promise<string[]> {
+  const memberships = await getStoreMemberships(userId);
+  return memberships
+    .filter((membership) => membership.permissions.includes(permission))
+    .map((membership) => membership.storeId);
+}
+
+/** Whether the user is a member of the store with the store permission */
+export async function hasMemberPermission(
+  userId: string,
+  storeId: string,
+  permission: PermissionId
+): Promise<boolean> {
+  const storeIds = await getPermittedStoreIds(userId, permission);
+  return storeIds.includes(storeId);
+}
+
+async function checkPermission(
+  session: PermissionSession,
+  permission: PermissionId,
+  scope: PermissionScope
+): Promise<PermissionGrant | PermissionDeniedError> {
+  const userId = session?.user?.id;
+  if (!userId) {
+    return new PermissionDeniedError(null, "Unauthorized");
+  }
+
+  const permissions = await getUserPermissions(userId);
+  const allStores = permissions.has("stores.all");
+  const entry = PERMISSION_CATALOG.find((p) => p.id === permission);
+  const denied = new PermissionDeniedError(
+    permission,
+    `You don't have permission to do this (${entry?.name ?? permission})`
+  );
+
+  if (!isStorePermission(permission) || allStores) {
+    return permissions.has(permission) ? { userId, allStores } : denied;
+  }
+
+  // Store permissions come from the membership of the store acted on, or of
+  // the store actions default to when none is given
+  const memberships = await getStoreMemberships(userId);
+  const membership = scope.storeId
+    ? memberships.find((m) => m.storeId === scope.storeId)
+    : memberships[0];
+
+  if (!membership) {
+    if (scope.storeId) {
+      return new PermissionDeniedError(
+        permission,
+        "You don't have access to this store"
+      );
+    }
+    // Not in a store yet, e.g. a seller before store setup
+    return permissions.has(permission) ? { userId, allStores } : denied;
+  }
+
+  return membership.permissions.includes(permission)
+    ? { userId, allStores }
+    : denied;
+}
+
+/**
+ * Throw PermissionDeniedError unless the session's user holds the
+ * permission, for scope.storeId when given.
+ */
+export async function requirePermission(
+  session: PermissionSession,
+  permission: PermissionId,
+  scope: PermissionScope = {}
+): Promise<PermissionGrant> {
+  const result = await checkPermission(session, permission, scope);
+  if (result instanceof PermissionDeniedError) {
+    throw result;
+  }
+  return result;
+}
+
+/** requirePermission for the signed-in user of the current request */
+export async function requireCurrentPermission(
+  permission: PermissionId,
+  scope: PermissionScope = {}
+): Promise<PermissionGrant> {
+  const session = await auth.api.getSession({ headers: await headers() });
+  return requirePermission(session, permission, scope);
+}
+
+/** Non-throwing requirePermission, for showing or hiding options */
+export async function hasPermission(
+  session: PermissionSession,
+  permission: PermissionId,
+  scope: PermissionScope = {}
+): Promise<boolean> {
+  const result = await checkPermission(session, permission, scope);
+  return !(result instanceof PermissionDeniedError);
+}
+
+/**
+ * The dashboard role for a custom role, from what it grants: all stores
+ * works like an admin, any store permission like a seller.
+ */
+export function getDashboardRoleForPermissions(
+  permissions: string[]
+): "admin" | "seller" | "customer" {
+  if (permissions.includes("stores.all")) return "admin";
+  if (STORE_PERMISSIONS.some((id) => permissions.includes(id))) {
+    return "seller";
+  }
+  return "customer";
+}
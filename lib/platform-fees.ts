@@ -0,0 +1,383 @@
+/**
+ * Platform fee schedule.
+ *
+ * Resolves admin-managed fee rules (platform_fee_rules) for an order and
+ * calculates the platform commission: a percentage per order line (category
+ * rules can override the rate for their lines), plus the order-level rule's
+ * fixed fee, limited by its cap. The rules used are snapshotted on
+ * order_payments.platform_fee_rule so later schedule changes don't alter
+ * recorded fees.
+ */
+
+import { db } from "@/db";
+import {
+  listing,
+  markets,
+  orderItems,
+  orders,
+  platformFeeRules,
+  store,
+  type OrderPayment,
+} from "@/db/schema";
+import { and, eq, gt, isNull, lte, or } from "drizzle-orm";
+import { roundMoney } from "./utils-discount";
+import { categoryMatchDepth, compareScores } from "./tax";
+import { findCategoryById } from "./taxonomy";
+
+/** Used when no rule matches (and before any rule has been created) */
+export const DEFAULT_PLATFORM_FEE_PERCENT = 5;
+
+export type PlatformFeeSnapshot = NonNullable<OrderPayment["platformFeeRule"]>;
+
+export interface ApplicablePlatformFeeRule {
+  id: string;
+  name: string;
+  storeId: string | null;
+  taxonomyCategoryId: string | null;
+  marketId: string | null;
+  marketName: string | null;
+  currency: string | null;
+  ratePercent: number;
+  fixedFee: number;
+  maxFee: number | null;
+  maxStoreAgeDays: number | null;
+  endsAt: Date | null;
+  priority: number;
+}
+
+export interface PlatformFeeResult {
+  fee: number;
+  snapshot: PlatformFeeSnapshot;
+}
+
+/** Effective schedule for a store wallet (shown in the balance summary) */
+export interface StorePlatformFee {
+  name: string;
+  ratePercent: number;
+  fixedFee: number;
+  maxFee: number | null;
+  endsAt: Date | null; // Promotional rates: when the rate expires
+  isNegotiated: boolean; // Store-specific or new producer rate
+  overrides: Array<{
+    name: string;
+    ratePercent: number;
+    categoryName: string | null;
+    marketName: string | null;
+    endsAt: Date | null;
+  }>;
+}
+
+const BUILT_IN_DEFAULT: ApplicablePlatformFeeRule = {
+  id: "",
+  name: "Default",
+  storeId: null,
+  taxonomyCategoryId: null,
+  marketId: null,
+  marketName: null,
+  currency: null,
+  ratePercent: DEFAULT_PLATFORM_FEE_PERCENT,
+  fixedFee: 0,
+  maxFee: null,
+  maxStoreAgeDays: null,
+  endsAt: null,
+  priority: 0,
+};
+
+/**
+ * Load the rules in effect for a store and currency at a point in time.
+ * Store, currency, validity window and store age are filtered here;
+ * category and market matching happen in resolvePlatformFeeRule.
+ */
+export async function loadPlatformFeeRules(context: {
+  storeId: string | null;
+  currency: string;
+  storeCreatedAt?: Date | null;
+  at?: Date;
+}): Promise<ApplicablePlatformFeeRule[]> {
+  const at = context.at ?? new Date();
+  const currency = context.currency.toUpperCase();
+
+  const rows = await db
+    .select({
+      rule: platformFeeRules,
+      marketName: markets.name,
+    })
+    .from(platformFeeRules)
+    .leftJoin(markets, eq(platformFeeRules.marketId, markets.id))
+    .where(
+      and(
+        eq(platformFeeRules.isActive, true),
+        context.storeId
+          ? or(
+              isNull(platformFeeRules.storeId),
+              eq(platformFeeRules.storeId, context.storeId)
+            )
+          : isNull(platformFeeRules.storeId),
+        or(
+          isNull(platformFeeRules.currency),
+          eq(platformFeeRules.currency, currency)
+        ),
+        or(
+          isNull(platformFeeRules.startsAt),
+          lte(platformFeeRules.startsAt, at)
+        ),
+        or(isNull(platformFeeRules.endsAt), gt(platformFeeRules.endsAt, at))
+      )
+    );
+
+  return rows
+    .filter(({ rule }) => {
+      if (rule.maxStoreAgeDays === null) return true;
+      if (!context.storeCreatedAt) return false;
+      const ageMs = at.getTime() - context.storeCreatedAt.getTime();
+      return ageMs < rule.maxStoreAgeDays * 24 * 60 * 60 * 1000;
+    })
+    .map(({ rule, marketName }) => ({
+      id: rule.id,
+      name: rule.name,
+      storeId: rule.storeId,
+      taxonomyCategoryId: rule.taxonomyCategoryId,
+      marketId: rule.marketId,
+      marketName,
+      currency: rule.currency,
+      ratePercent: parseFloat(rule.ratePercent),
+      fixedFee: parseFloat(rule.fixedFee),
+      maxFee: rule.maxFee !== null ? parseFloat(rule.maxFee) : null,
+      maxStoreAgeDays: rule.maxStoreAgeDays,
+      endsAt: rule.endsAt,
+      priority: rule.priority,
+    }));
+}
+
+/**
+ * Pick the most specific rule: store-specific, then new producer rules,
+ * then category (deepest first), then market, then currency, then priority.
+ */
+export function resolvePlatformFeeRule(
+  rules: ApplicablePlatformFeeRule[],
+  context: { marketId: string | null; taxonomyCategoryId?: string | null }
+): ApplicablePlatformFeeRule | null {
+  let best: { rule: ApplicablePlatformFeeRule; score: number[] } | null = null;
+
+  for (const rule of rules) {
+    if (rule.marketId && rule.marketId !== context.marketId) continue;
+    const depth = categoryMatchDepth(
+      rule.taxonomyCategoryId,
+      context.taxonomyCategoryId
+    );
+    if (depth === null) continue;
+
+    const score = [
+      rule.storeId ? 2 : rule.maxStoreAgeDays !== null ? 1 : 0,
+      depth,
+      rule.marketId ? 1 : 0,
+      rule.currency ? 1 : 0,
+      rule.priority,
+    ];
+    if (!best || compareScores(score, best.score) > 0) {
+      best = { rule, score };
+    }
+  }
+
+  return best?.rule ?? null;
+}
+
+/**
+ * Fee for an order amount. Lines are charged at their category rule when
+ * one outranks the order-level rule; the rest of the amount (shipping,
+ * lines without a category) at the order-level rule, which also supplies
+ * the fixed fee and cap.
+ */
+export function calculatePlatformFee(
+  rules: ApplicablePlatformFeeRule[],
+  context: {
+    marketId: string | null;
+    amount: number;
+    lines?: Array<{ taxonomyCategoryId: string | null; amount: number }>;
+  }
+): PlatformFeeResult {
+  const amount = Math.max(0, context.amount);
+  const orderRule =
+    resolvePlatformFeeRule(
+      rules.filter((r) => !r.taxonomyCategoryId),
+      { marketId: context.marketId }
+    ) ?? BUILT_IN_DEFAULT;
+
+  // Order-level discounts aren't in the line totals; scale lines down to fit
+  const lines = context.lines ?? [];
+  const linesTotal = lines.reduce((sum, l) => sum + Math.max(0, l.amount), 0);
+  const scale = linesTotal > amount ? amount / linesTotal : 1;
+
+  const categoryRules = new Map<
+    string,
+    { rule: ApplicablePlatformFeeRule; amount: number }
+  >();
+  for (const line of lines) {
+    if (!line.taxonomyCategoryId || line.amount <= 0) continue;
+    const rule = resolvePlatformFeeRule(rules, {
+      marketId: context.marketId,
+      taxonomyCategoryId: line.taxonomyCategoryId,
+    });
+    if (!rule || rule.id === orderRule.id) continue;
+    const entry = categoryRules.get(rule.id) ?? { rule, amount: 0 };
+    entry.amount += line.amount * scale;
+    categoryRules.set(rule.id, entry);
+  }
+
+  let categorizedAmount = 0;
+  let fee = 0;
+  for (const entry of categoryRules.values()) {
+    categorizedAmount += entry.amount;
+    fee += (entry.amount * entry.rule.ratePercent) / 100;
+  }
+  fee +=
+    (Math.max(0, amount - categorizedAmount) * orderRule.ratePercent) / 100;
+  if (amount > 0) fee += orderRule.fixedFee;
+
+  const capped = orderRule.maxFee !== null && fee > orderRule.maxFee;
+  if (capped) fee = orderRule.maxFee!;
+
+  return {
+    fee: roundMoney(Math.min(fee, amount)),
+    snapshot: {
+      ruleId: orderRule.id || null,
+      name: orderRule.name,
+      ratePercent: orderRule.ratePercent,
+      fixedFee: orderRule.fixedFee,
+      maxFee: orderRule.maxFee,
+      capped,
+      ...(categoryRules.size > 0 && {
+        categoryRules: [...categoryRules.values()].map((entry) => ({
+          ruleId: entry.rule.id,
+          name: entry.rule.name,
+          ratePercent: entry.rule.ratePercent,
+          amount: roundMoney(entry.amount),
+        })),
+      }),
+    },
+  };
+}
+
+/**
+ * Platform fee for a stored order. amount defaults to the order total;
+ * pass the charged amount when it differs.
+ */
+export async function calculateOrderPlatformFee(
+  orderId: string,
+  amount?: number
+): Promise<PlatformFeeResult> {
+  const [order] = await db
+    .select({
+      storeId: orders.storeId,
+      marketId: orders.marketId,
+      currency: orders.currency,
+      totalAmount: orders.totalAmount,
+      storeCreatedAt: store.createdAt,
+    })
+    .from(orders)
+    .leftJoin(store, eq(orders.storeId, store.id))
+    .where(eq(orders.id, orderId))
+    .limit(1);
+
+  if (!order) {
+    throw new Error(`Order ${orderId} not found`);
+  }
+
+  const lines = await db
+    .select({
+      taxonomyCategoryId: listing.taxonomyCategoryId,
+      lineTotal: orderItems.lineTotal,
+    })
+    .from(orderItems)
+    .leftJoin(listing, eq(orderItems.listingId, listing.id))
+    .where(eq(orderItems.orderId, orderId));
+
+  const rules = await loadPlatformFeeRules({
+    storeId: order.storeId,
+    currency: order.currency,
+    storeCreatedAt: order.storeCreatedAt,
+  });
+
+  return calculatePlatformFee(rules, {
+    marketId: order.marketId,
+    amount: amount ?? parseFloat(order.totalAmount || "0"),
+    lines: lines.map((line) => ({
+      taxonomyCategoryId: line.taxonomyCategoryId,
+      amount: parseFloat(line.lineTotal),
+    })),
+  });
+}
+
+/**
+ * Short description for ledger entries, e.g. "5%", "3% + 0.50 EUR, capped"
+ */
+export function describePlatformFee(
+  snapshot: PlatformFeeSnapshot | null | undefined,
+  currency: string
+): string {
+  if (!snapshot) return `${DEFAULT_PLATFORM_FEE_PERCENT}%`;
+
+  let description = `${snapshot.ratePercent}%`;
+  if (snapshot.fixedFee > 0) {
+    description += ` + ${snapshot.fixedFee.toFixed(2)} ${currency}`;
+  }
+  if (snapshot.categoryRules?.length) description += ", category rates";
+  if (snapshot.capped) description += ", capped";
+  return description;
+}
+
+/**
+ * The schedule a store currently pays in a currency: the order-level rule
+ * plus category / market rules that take precedence over it.
+ */
+export async function getStorePlatformFee(
+  storeId: string,
+  currency: string
+): Promise<StorePlatformFee> {
+  const [storeRow] = await db
+    .select({ createdAt: store.createdAt })
+    .from(store)
+    .where(eq(store.id, storeId))
+    .limit(1);
+
+  const rules = await loadPlatformFeeRules({
+    storeId,
+    currency,
+    storeCreatedAt: storeRow?.createdAt,
+  });
+
+  const orderRule =
+    resolvePlatformFeeRule(
+      rules.filter((r) => !r.taxonomyCategoryId && !r.marketId),
+      { marketId: null }
+    ) ?? BUILT_IN_DEFAULT;
+
+  const overrides = rules.filter(
+    (rule) =>
+      (rule.taxonomyCategoryId || rule.marketId) &&
+      resolvePlatformFeeRule(rules, {
+        marketId: rule.marketId,
+        taxonomyCategoryId: rule.taxonomyCategoryId,
+      })?.id === rule.id
+  );
+
+  return {
+    name: orderRule.name,
+    ratePercent: orderRule.ratePercent,
+    fixedFee: orderRule.fixedFee,
+    maxFee: orderRule.maxFee,
+    endsAt: orderRule.endsAt,
+    isNegotiated:
+      orderRule.storeId !== null || orderRule.maxStoreAgeDays !== null,
+    overrides: overrides.map((rule) => ({
+      name: rule.name,
+      ratePercent: rule.ratePercent,
+      categoryName: rule.taxonomyCategoryId
+        ? findCategoryById(rule.taxonomyCategoryId)?.full_name ||
+          rule.taxonomyCategoryId
+        : null,
+      marketName: rule.marketName,
+      endsAt: rule.endsAt,
+    })),
+  };
+}
@@ -0,0 +1,529 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { listing, listingVariants, markets } from "@/db/schema";
+import { evaluateDiscountForCheckout } from "@/app/[locale]/actions/order-discounts";
+import { getManualShippingRatesForOrder } from "@/app/[locale]/actions/shipping-rates";
+import {
+  applyRoundingRule,
+  isPricingError,
+  priceCheckout,
+  PricingError,
+  reconcileClientTotals,
+  type PricedCheckout,
+} from "./pricing";
+import { loadTaxRules, resolveTaxMarket, type ApplicableTaxRule } from "./tax";
+
+// Rows returned by db.select().from(table).where(), keyed by table
+const dbRows = vi.hoisted(() => new Map<unknown, unknown[]>());
+
+vi.mock("@/db", () => ({
+  db: {
+    select: () => ({
+      from: (table: unknown) => ({
+        where: async () => dbRows.get(table) ?? [],
+      }),
+    }),
+  },
+}));
+
+// Category-specific rules are not exercised here
+vi.mock("./taxonomy", () => ({
+  findCategoryById: () => null,
+}));
+
+vi.mock("./tax", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./tax")>()),
+  resolveTaxMarket: vi.fn(),
+  loadTaxRules: vi.fn(),
+}));
+
+vi.mock("@/app/[locale]/actions/order-discounts", () => ({
+  evaluateDiscountForCheckout: vi.fn(),
+}));
+
+vi.mock("@/app/[locale]/actions/shipping-rates", () => ({
+  getManualShippingRatesForOrder: vi.fn(),
+}));
+
+function market(currency: string, exchangeRate: string, roundingRule = "none") {
+  return { currency, exchangeRate, roundingRule, isDefault: false };
+}
+
+function listingRow(
+  id: string,
+  price: string,
+  overrides: Partial<{ storeId: string; currency: string; status: string }> = {}
+) {
+  return {
+    id,
+    name: `Listing ${id}`,
+    storeId: "store-1",
+    price,
+    currency: "EUR",
+    status: "active",
+    taxonomyCategoryId: null,
+    ...overrides,
+  };
+}
+
+function taxRule(
+  overrides: Partial<ApplicableTaxRule> = {}
+): ApplicableTaxRule {
+  return {
+    id: "rule-1",
+    name: "VAT",
+    marketId: null,
+    regionCode: null,
+    taxonomyCategoryId: null,
+    rate: 24,
+    appliesToShipping: true,
+    priority: 0,
+    ...overrides,
+  };
+}
+
+function discountResult(
+  allocations: Array<{ cartItemId: string; amount: number }>
+) {
+  return {
+    success: true,
+    result: { allocations },
+  } as unknown as Awaited<ReturnType<typeof evaluateDiscountForCheckout>>;
+}
+
+beforeEach(() => {
+  dbRows.clear();
+  dbRows.set(markets, [
+    market("EUR", "1"),
+    market("USD", "1.1", "0.99"),
+    market("SEK", "11.37", "nearest_0.05"),
+  ]);
+  dbRows.set(listing, [listingRow("l1", "10.00"), listingRow("l2", "20.00")]);
+  dbRows.set(listingVariants, []);
+
+  vi.mocked(resolveTaxMarket).mockResolvedValue({
+    marketId: "market-eu",
+    pricesIncludeTax: false,
+  });
+  vi.mocked(loadTaxRules).mockResolvedValue([]);
+  vi.mocked(getManualShippingRatesForOrder).mockResolvedValue({
+    success: true,
+    rates: [],
+  });
+});
+
+afterEach(() => {
+  vi.clearAllMocks();
+});
+
+describe("applyRoundingRule", () => {
+  it("rounds to cents by default", () => {
+    expect(applyRoundingRule(10.126, "none")).toBe(10.13);
+    expect(applyRoundingRule(10.124, null)).toBe(10.12);
+  });
+
+  it("rounds up to the next x.99 for charm pricing", () => {
+    expect(applyRoundingRule(10.2, "0.99")).toBe(10.99);
+    expect(applyRoundingRule(11, "0.99")).toBe(11.99);
+  });
+
+  it("rounds to the nearest 0.05", () => {
+    expect(applyRoundingRule(10.03, "nearest_0.05")).toBe(10.05);
+    expect(applyRoundingRule(10.02, "nearest_0.05")).toBe(10);
+  });
+});
+
+describe("priceCheckout", () => {
+  it("prices lines from the catalog, not from client amounts", async () => {
+    const priced = await priceCheckout({
+      currency: "eur",
+      lineItems: [
+        { listingId: "l1", quantity: 2, unitPrice: "1.00" },
+        { listingId: "l2", quantity: 1 },
+      ],
+    });
+
+    expect(priced.currency).toBe("EUR");
+    expect(priced.lines.map((l) => l.unitPrice)).toEqual([10, 20]);
+    expect(priced.subtotal).toBe(40);
+    expect(priced.total).toBe(40);
+  });
+
+  it("uses the variant price when the variant has one", async () => {
+    dbRows.set(listingVariants, [
+      {
+        id: "v1",
+        listingId: "l1",
+        title: "Large",
+        sku: "L1-L",
+        price: "12.50",
+        currency: null,
+      },
+    ]);
+
+    const priced = await priceCheckout({
+      currency: "EUR",
+      lineItems: [{ listingId: "l1", variantId: "v1", quantity: 1 }],
+    });
+
+    expect(priced.lines[0]).toMatchObject({
+      cartItemId: "l1-v1",
+      title: "Listing l1 - Large",
+      sku: "L1-L",
+      unitPrice: 12.5,
+    });
+  });
+
+  it("converts into the checkout currency with the market rounding rule", async () => {
+    const usd = await priceCheckout({
+      currency: "USD",
+      lineItems: [{ listingId: "l1", quantity: 3 }],
+    });
+    // 10 EUR * 1.1 = 11.00 USD, charm-priced to 11.99
+    expect(usd.lines[0].unitPrice).toBe(11.99);
+    expect(usd.subtotal).toBe(35.97);
+
+    const sek = await priceCheckout({
+      currency: "SEK",
+      lineItems: [{ listingId: "l1", quantity: 1 }],
+    });
+    // 10 EUR * 11.37 = 113.70 SEK, already on a 0.05 step
+    expect(sek.lines[0].unitPrice).toBe(113.7);
+  });
+
+  it("rejects currencies without an active market", async () => {
+    await expect(
+      priceCheckout({
+        currency: "JPY",
+        lineItems: [{ listingId: "l1", quantity: 1 }],
+      })
+    ).rejects.toMatchObject({ code: "UNSUPPORTED_CURRENCY" });
+  });
+
+  it("rejects invalid quantities and unavailable listings", async () => {
+    await expect(
+      priceCheckout({
+        currency: "EUR",
+        lineItems: [{ listingId: "l1", quantity: 1.5 }],
+      })
+    ).rejects.toMatchObject({ code: "INVALID_LINE_ITEM" });
+
+    dbRows.set(listing, [listingRow("l1", "10.00", { status: "draft" })]);
+    await expect(
+      priceCheckout({
+        currency: "EUR",
+        lineItems: [{ listingId: "l1", quantity: 1 }],
+      })
+    ).rejects.toMatchObject({ code: "LISTING_UNAVAILABLE" });
+  });
+
+  describe("discounts", () => {
+    it("keeps the best discount per line without stacking", async () => {
+      vi.mocked(evaluateDiscountForCheckout).mockImplementation(
+        async (discountId) =>
+          discountId === "d-small"
+            ? discountResult([
+                { cartItemId: "l1", amount: 1 },
+                { cartItemId: "l2", amount: 5 },
+              ])
+            : discountResult([{ cartItemId: "l1", amount: 3 }])
+      );
+
+      const priced = await priceCheckout({
+        currency: "EUR",
+        discountId: "d-small",
+        lineItems: [
+          { listingId: "l1", quantity: 1, discountId: "d-big" },
+          { listingId: "l2", quantity: 1 },
+        ],
+      });
+
+      expect(priced.lines.map((l) => [l.discountId, l.discountAmount])).toEqual(
+        [
+          ["d-big", 3],
+          ["d-small", 5],
+        ]
+      );
+      expect(priced.discount).toBe(8);
+      expect(priced.total).toBe(22);
+      // Largest granted total first
+      expect(priced.discountIds).toEqual(["d-small", "d-big"]);
+    });
+
+    it("never discounts a line below zero", async () => {
+      vi.mocked(evaluateDiscountForCheckout).mockResolvedValue(
+        discountResult([{ cartItemId: "l1", amount: 50 }])
+      );
+
+      const priced = await priceCheckout({
+        currency: "EUR",
+        discountId: "d1",
+        lineItems: [{ listingId: "l1", quantity: 1 }],
+      });
+
+      expect(priced.lines[0].discountAmount).toBe(10);
+      expect(priced.total).toBe(0);
+    });
+
+    it("rejects a discount that does not apply to the cart", async () => {
+      vi.mocked(evaluateDiscountForCheckout).mockResolvedValue({
+        success: false,
+        validationError: "Minimum purchase not met",
+      });
+
+      await expect(
+        priceCheckout({
+          currency: "EUR",
+          discountId: "d1",
+          lineItems: [{ listingId: "l1", quantity: 1 }],
+        })
+      ).rejects.toMatchObject({
+        code: "DISCOUNT_NOT_APPLICABLE",
+        message: "Minimum purchase not met",
+      });
+    });
+
+    it("spreads a manual discount by subtotal share, last line absorbing rounding", async () => {
+      const priced = await priceCheckout({
+        currency: "EUR",
+        manualDiscountAmount: 10,
+        lineItems: [
+          { listingId: "l1", quantity: 1 },
+          { listingId: "l2", quantity: 1 },
+        ],
+      });
+
+      expect(priced.lines.map((l) => l.discountAmount)).toEqual([3.33, 6.67]);
+      expect(priced.discount).toBe(10);
+      expect(evaluateDiscountForCheckout).not.toHaveBeenCalled();
+    });
+
+    it("applies a subscription percentage to every line", async () => {
+      const priced = await priceCheckout({
+        currency: "EUR",
+        subscriptionDiscountPercent: 15,
+        lineItems: [
+          { listingId: "l1", quantity: 1 },
+          { listingId: "l2", quantity: 1 },
+        ],
+      });
+
+      expect(priced.lines.map((l) => l.discountAmount)).toEqual([1.5, 3]);
+      expect(priced.total).toBe(25.5);
+    });
+  });
+
+  describe("shipping", () => {
+    beforeEach(() => {
+      vi.mocked(getManualShippingRatesForOrder).mockResolvedValue({
+        success: true,
+        rates: [
+          {
+            storeId: "store-1",
+            storeName: "Store",
+            rates: [
+              {
+                id: "express",
+                serviceName: "Express",
+                priceCents: 1500,
+                currency: "EUR",
+              },
+              {
+                id: "standard",
+                serviceName: "Standard",
+                priceCents: 490,
+                currency: "EUR",
+              },
+            ],
+          },
+        ],
+      });
+    });
+
+    it("charges the cheapest rate when the store has no selection", async () => {
+      const priced = await priceCheckout({
+        currency: "EUR",
+        shippingCountry: "FI",
+        lineItems: [{ listingId: "l1", quantity: 1 }],
+      });
+
+      expect(priced.stores[0].shippingRate?.rateId).toBe("standard");
+      expect(priced.shipping).toBe(4.9);
+      expect(priced.total).toBe(14.9);
+    });
+
+    it("charges the selected rate converted into the checkout currency", async () => {
+      const priced = await priceCheckout({
+        currency: "USD",
+        shippingCountry: "US",
+        vendorShippingRates: [{ storeId: "store-1", rateId: "express" }],
+        lineItems: [{ listingId: "l1", quantity: 1 }],
+      });
+
+      // 15 EUR * 1.1 = 16.50 USD, charm-priced to 16.99
+      expect(priced.stores[0].shippingRate).toMatchObject({
+        rateId: "express",
+        priceCents: 1699,
+        currency: "USD",
+      });
+      expect(priced.shipping).toBe(16.99);
+    });
+
+    it("rejects a selected rate that does not serve the destination", async () => {
+      await expect(
+        priceCheckout({
+          currency: "EUR",
+          shippingCountry: "FI",
+          vendorShippingRates: [{ storeId: "store-1", rateId: "pickup" }],
+          lineItems: [{ listingId: "l1", quantity: 1 }],
+        })
+      ).rejects.toMatchObject({ code: "SHIPPING_RATE_UNAVAILABLE" });
+    });
+
+    it("spreads a manual shipping amount across stores", async () => {
+      dbRows.set(listing, [
+        listingRow("l1", "10.00"),
+        listingRow("l2", "20.00", { storeId: "store-2" }),
+      ]);
+
+      const priced = await priceCheckout({
+        currency: "EUR",
+        manualShippingAmount: 5,
+        lineItems: [
+          { listingId: "l1", quantity: 1 },
+          { listingId: "l2", quantity: 1 },
+        ],
+      });
+
+      expect(priced.stores.map((s) => s.shipping)).toEqual([1.67, 3.33]);
+      expect(priced.shipping).toBe(5);
+      expect(getManualShippingRatesForOrder).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("tax", () => {
+    it("adds exclusive tax on the discounted lines and shipping", async () => {
+      vi.mocked(loadTaxRules).mockResolvedValue([taxRule({ rate: 10 })]);
+
+      const priced = await priceCheckout({
+        currency: "EUR",
+        shippingCountry: "US",
+        manualDiscountAmount: 2,
+        manualShippingAmount: 5,
+        lineItems: [{ listingId: "l1", quantity: 1 }],
+      });
+
+      // (10 - 2) * 10% + 5 * 10%
+      expect(priced.tax).toBe(1.3);
+      expect(priced.taxInclusive).toBe(false);
+      expect(priced.total).toBe(14.3);
+    });
+
+    it("does not add inclusive tax to the total", async () => {
+      vi.mocked(resolveTaxMarket).mockResolvedValue({
+        marketId: "market-eu",
+        pricesIncludeTax: true,
+      });
+      vi.mocked(loadTaxRules).mockResolvedValue([taxRule({ rate: 24 })]);
+
+      const priced = await priceCheckout({
+        currency: "EUR",
+        shippingCountry: "FI",
+        lineItems: [{ listingId: "l1", quantity: 1 }],
+      });
+
+      // 10 - 10 / 1.24
+      expect(priced.tax).toBe(1.94);
+      expect(priced.taxInclusive).toBe(true);
+      expect(priced.total).toBe(10);
+    });
+  });
+});
+
+describe("reconcileClientTotals", () => {
+  let priced: PricedCheckout;
+
+  beforeEach(async () => {
+    priced = await priceCheckout({
+      currency: "EUR",
+      manualDiscountAmount: 5,
+      lineItems: [
+        { listingId: "l1", quantity: 1 },
+        { listingId: "l2", quantity: 1 },
+      ],
+    });
+  });
+
+  it("accepts matching amounts and omitted values", () => {
+    expect(
+      reconcileClientTotals(
+        priced,
+        {
+          lineItems: [{ unitPrice: "10.00" }, {}],
+          subtotalAmount: "30.00",
+          discountAmount: "5",
+          totalAmount: "25.004",
+        },
+        "reject"
+      )
+    ).toEqual([]);
+  });
+
+  it("rejects amounts outside the tolerance with a price mismatch error", () => {
+    let error: unknown;
+    try {
+      reconcileClientTotals(
+        priced,
+        {
+          lineItems: [{ unitPrice: "9.00" }],
+          totalAmount: "24.00",
+        },
+        "reject"
+      );
+    } catch (e) {
+      error = e;
+    }
+
+    // Checkout and eSewa init answer this error with 409
+    expect(isPricingError(error)).toBe(true);
+    expect(error).toBeInstanceOf(PricingError);
+    expect(error).toMatchObject({
+      code: "PRICE_MISMATCH",
+      mismatches: [
+        {
+          field: "lineItems[0].unitPrice",
+          expected: "10.00",
+          received: "9.00",
+        },
+        { field: "totalAmount", expected: "25.00", received: "24.00" },
+      ],
+    });
+  });
+
+  it("treats unparseable client amounts as mismatches", () => {
+    expect(() =>
+      reconcileClientTotals(priced, { totalAmount: "abc" }, "reject")
+    ).toThrow(PricingError);
+  });
+
+  it("keeps the server amounts and reports the differences when reconciling", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    const mismatches = reconcileClientTotals(
+      priced,
+      { shippingAmount: "3.00", totalAmount: "28.00" },
+      "reconcile",
+      "draft order"
+    );
+
+    expect(mismatches.map((m) => m.field)).toEqual([
+      "shippingAmount",
+      "totalAmount",
+    ]);
+    expect(priced.total).toBe(25);
+    expect(warn).toHaveBeenCalledWith(
+      "[PRICING] Reconciled client amounts for draft order:",
+      mismatches
+    );
+    warn.mockRestore();
+  });
+});
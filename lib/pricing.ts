@@ -0,0 +1,850 @@
+/**
+ * Server-authoritative checkout pricing.
+ *
+ * Every amount the customer pays is recomputed here from the catalog
+ * (listing / listing_variants), market exchange rates, discounts,
+ * shipping rates and tax rules (lib/tax.ts). Client-sent amounts are only compared against the result,
+ * never trusted. Used by checkout order creation, Stripe checkout, eSewa init
+ * and draft orders.
+ */
+
+import { db } from "@/db";
+import { listing, listingVariants, markets } from "@/db/schema";
+import { eq, inArray } from "drizzle-orm";
+import { roundMoney } from "./utils-discount";
+import {
+  calculateTax,
+  loadTaxRules,
+  mergeTaxBreakdowns,
+  resolveShippingTaxRule,
+  resolveTaxMarket,
+  resolveTaxRule,
+  summarizeTaxBreakdown,
+  type TaxBreakdownEntry,
+} from "./tax";
+import { evaluateDiscountForCheckout } from "@/app/[locale]/actions/order-discounts";
+import { getManualShippingRatesForOrder } from "@/app/[locale]/actions/shipping-rates";
+
+/** Base currency that market exchange rates are expressed against */
+export const BASE_CURRENCY = "EUR";
+
+/** Allowed difference (per amount) before a client value counts as a mismatch */
+export const PRICE_TOLERANCE = 0.01;
+
+export type PricingErrorCode =
+  | "INVALID_LINE_ITEM"
+  | "LISTING_NOT_FOUND"
+  | "LISTING_UNAVAILABLE"
+  | "VARIANT_NOT_FOUND"
+  | "UNSUPPORTED_CURRENCY"
+  | "DISCOUNT_NOT_APPLICABLE"
+  | "SHIPPING_RATE_UNAVAILABLE"
+  | "PRICE_MISMATCH";
+
+export interface PriceMismatch {
+  field: string; // e.g. "totalAmount", "lineItems[0].unitPrice"
+  expected: string;
+  received: string;
+}
+
+/**
+ * Thrown when a checkout cannot be priced, or when client-sent amounts do not
+ * match the server computation and the caller asked for rejection.
+ */
+export class PricingError extends Error {
+  readonly code: PricingErrorCode;
+  readonly mismatches: PriceMismatch[];
+
+  constructor(
+    code: PricingErrorCode,
+    message: string,
+    mismatches: PriceMismatch[] = []
+  ) {
+    super(message);
+    this.name = "PricingError";
+    this.code = code;
+    this.mismatches = mismatches;
+  }
+}
+
+export function isPricingError(error: unknown): error is PricingError {
+  return error instanceof PricingError;
+}
+
+// ===================================
+// Currency conversion & rounding
+// ===================================
+
+/** Exchange rates keyed by currency: units of that currency per 1 EUR */
+export type ExchangeRates = Map<string, { rate: number; roundingRule: string }>;
+
+/**
+ * Apply a market rounding rule ("none" | "0.99" | "nearest_0.05")
+ */
+export function applyRoundingRule(
+  amount: number,
+  roundingRule: string | null | undefined
+): number {
+  switch (roundingRule) {
+    case "0.99": {
+      // Charm pricing: round up to the next x.99 (10.20 -> 10.99, 11.00 -> 11.99)
+      const whole = Math.floor(roundMoney(amount));
+      return roundMoney(whole + 0.99);
+    }
+    case "nearest_0.05":
+      return roundMoney(Math.round(amount * 20) / 20);
+    default:
+      return roundMoney(amount);
+  }
+}
+
+/**
+ * Load exchange rates from active markets. EUR is always 1.
+ */
+export async function loadExchangeRates(): Promise<ExchangeRates> {
+  const rows = await db
+    .select({
+      currency: markets.currency,
+      exchangeRate: markets.exchangeRate,
+      roundingRule: markets.roundingRule,
+      isDefault: markets.isDefault,
+    })
+    .from(markets)
+    .where(eq(markets.status, "active"));
+
+  const rates: ExchangeRates = new Map();
+  rates.set(BASE_CURRENCY, { rate: 1, roundingRule: "none" });
+
+  // Default market wins when several markets share a currency
+  const sorted = [...rows].sort(
+    (a, b) => Number(a.isDefault) - Number(b.isDefault)
+  );
+  for (const row of sorted) {
+    const rate = parseFloat(String(row.exchangeRate));
+    if (!rate || rate <= 0) continue;
+    rates.set(row.currency.toUpperCase(), {
+      rate: row.currency.toUpperCase() === BASE_CURRENCY ? 1 : rate,
+      roundingRule: row.roundingRule || "none",
+    });
+  }
+
+  return rates;
+}
+
+/**
+ * Convert an amount between currencies via EUR. When the currency changes the
+ * target market's rounding rule is applied; same-currency amounts are only
+ * rounded to cents.
+ */
+export function convertAmount(
+  amount: number,
+  fromCurrency: string,
+  toCurrency: string,
+  rates: ExchangeRates
+): number {
+  const from = fromCurrency.toUpperCase();
+  const to = toCurrency.toUpperCase();
+  if (from === to) return roundMoney(amount);
+
+  const fromRate = rates.get(from);
+  const toRate = rates.get(to);
+  if (!fromRate) {
+    throw new PricingError(
+      "UNSUPPORTED_CURRENCY",
+      `No active market exchange rate for ${from}`
+    );
+  }
+  if (!toRate) {
+    throw new PricingError(
+      "UNSUPPORTED_CURRENCY",
+      `No active market exchange rate for ${to}`
+    );
+  }
+
+  const inBase = amount / fromRate.rate;
+  return applyRoundingRule(inBase * toRate.rate, toRate.roundingRule);
+}
+
+// ===================================
+// Pricing
+// ===================================
+
+export interface PricingLineInput {
+  listingId: string;
+  variantId?: string | null;
+  quantity: number;
+  // Client-sent values, compared but never trusted
+  unitPrice?: string;
+  discountAmount?: string;
+  discountId?: string | null;
+}
+
+export interface PricingRequest {
+  currency: string;
+  lineItems: PricingLineInput[];
+  customerEmail?: string | null;
+  // Discounts the client claims to have applied (order level and/or per line)
+  discountId?: string | null;
+  // Destination; also drives tax. Without a country no tax is charged.
+  shippingCountry?: string | null;
+  shippingRegion?: string | null;
+  // Used with the region to match postal-code shipping zones
+  shippingPostalCode?: string | null;
+  // Selected manual shipping rate per store
+  vendorShippingRates?: Array<{ storeId: string; rateId: string }>;
+  /**
+   * Seller-entered amounts (draft orders). When set they replace the
+   * computed discount/shipping instead of looking up discounts and rates.
+   */
+  manualDiscountAmount?: number;
+  manualShippingAmount?: number;
+  // Subscription orders: the plan's percentage off every line
+  subscriptionDiscountPercent?: number;
+}
+
+export interface PricedLine {
+  cartItemId: string;
+  listingId: string;
+  variantId: string | null;
+  storeId: string;
+  title: string;
+  sku: string | null;
+  quantity: number;
+  currency: string;
+  unitPrice: number;
+  lineSubtotal: number;
+  discountAmount: number;
+  discountId: string | null;
+  taxAmount: number;
+  taxRate: number | null; // Percentage
+  taxName: string | null;
+  lineTotal: number;
+}
+
+export interface PricedStoreShipping {
+  rateId: string;
+  serviceName: string;
+  priceCents: number; // In checkout currency
+  currency: string;
+  estimatedDays?: { min: number; max: number };
+}
+
+export interface PricedStore {
+  storeId: string;
+  lines: PricedLine[];
+  subtotal: number;
+  discount: number;
+  shipping: number;
+  shippingRate: PricedStoreShipping | null;
+  shippingTax: number;
+  tax: number; // Line tax + shipping tax
+  taxBreakdown: TaxBreakdownEntry[];
+  total: number;
+}
+
+export interface PricedCheckout {
+  currency: string;
+  lines: PricedLine[];
+  stores: PricedStore[];
+  subtotal: number;
+  discount: number;
+  shipping: number;
+  tax: number;
+  // true = tax is contained in prices and not added to the total
+  taxInclusive: boolean;
+  taxBreakdown: TaxBreakdownEntry[];
+  total: number;
+  // Discount IDs actually granted, largest total first
+  discountIds: string[];
+}
+
+/** Cart line key shared by the cart, checkout pricing and discount allocations */
+export function cartItemIdFor(listingId: string, variantId?: string | null) {
+  return variantId ? `${listingId}-${variantId}` : listingId;
+}
+
+/**
+ * Catalog price of a listing, or of a variant when it has its own price, in
+ * the currency it is listed in
+ */
+export function catalogPrice(
+  listingRow: { price: string; currency: string },
+  variant?: { price: string | null; currency: string | null } | null
+): { amount: number; currency: string } {
+  if (variant?.price) {
+    return {
+      amount: parseFloat(variant.price),
+      currency: variant.currency || listingRow.currency,
+    };
+  }
+  return {
+    amount: parseFloat(listingRow.price),
+    currency: listingRow.currency,
+  };
+}
+
+function sum(values: number[]): number {
+  return roundMoney(values.reduce((acc, v) => acc + v, 0));
+}
+
+/**
+ * Price a checkout from the catalog. Throws PricingError for anything that
+ * cannot be priced (unknown listing, unavailable rate, inapplicable discount).
+ */
+export async function priceCheckout(
+  request: PricingRequest
+): Promise<PricedCheckout> {
+  const currency = request.currency.toUpperCase();
+
+  if (!request.lineItems || request.lineItems.length === 0) {
+    throw new PricingError("INVALID_LINE_ITEM", "No line items to price");
+  }
+  for (const item of request.lineItems) {
+    if (
+      !item.listingId ||
+      !Number.isInteger(item.quantity) ||
+      item.quantity <= 0
+    ) {
+      throw new PricingError(
+        "INVALID_LINE_ITEM",
+        `Invalid quantity for listing ${item.listingId}`
+      );
+    }
+  }
+
+  const rates = await loadExchangeRates();
+  if (!rates.has(currency)) {
+    throw new PricingError(
+      "UNSUPPORTED_CURRENCY",
+      `Checkout currency ${currency} is not supported`
+    );
+  }
+
+  // 1. Catalog prices
+  const listingIds = [...new Set(request.lineItems.map((i) => i.listingId))];
+  const listingRows = await db
+    .select({
+      id: listing.id,
+      name: listing.name,
+      storeId: listing.storeId,
+      price: listing.price,
+      currency: listing.currency,
+      status: listing.status,
+      taxonomyCategoryId: listing.taxonomyCategoryId,
+    })
+    .from(listing)
+    .where(inArray(listing.id, listingIds));
+  const listingMap = new Map(listingRows.map((l) => [l.id, l]));
+
+  const variantIds = request.lineItems
+    .map((i) => i.variantId)
+    .filter((id): id is string => !!id);
+  const variantRows =
+    variantIds.length > 0
+      ? await db
+          .select({
+            id: listingVariants.id,
+            listingId: listingVariants.listingId,
+            title: listingVariants.title,
+            sku: listingVariants.sku,
+            price: listingVariants.price,
+            currency: listingVariants.currency,
+          })
+          .from(listingVariants)
+          .where(inArray(listingVariants.id, variantIds))
+      : [];
+  const variantMap = new Map(variantRows.map((v) => [v.id, v]));
+
+  const lines: PricedLine[] = request.lineItems.map((item) => {
+    const listingRow = listingMap.get(item.listingId);
+    if (!listingRow) {
+      throw new PricingError(
+        "LISTING_NOT_FOUND",
+        `Listing not found: ${item.listingId}`
+      );
+    }
+    if (listingRow.status !== "active") {
+      throw new PricingError(
+        "LISTING_UNAVAILABLE",
+        `${listingRow.name} is no longer available`
+      );
+    }
+
+    const variant = item.variantId ? variantMap.get(item.variantId) : null;
+    if (item.variantId && (!variant || variant.listingId !== listingRow.id)) {
+      throw new PricingError(
+        "VARIANT_NOT_FOUND",
+        `Variant not found: ${item.variantId}`
+      );
+    }
+
+    const base = catalogPrice(listingRow, variant);
+    const unitPrice = convertAmount(base.amount, base.currency, currency, rates);
+    const lineSubtotal = roundMoney(unitPrice * item.quantity);
+
+    return {
+      cartItemId: cartItemIdFor(item.listingId, item.variantId),
+      listingId: listingRow.id,
+      variantId: variant?.id ?? null,
+      storeId: listingRow.storeId,
+      title: variant
+        ? `${listingRow.name} - ${variant.title}`
+        : listingRow.name,
+      sku: variant?.sku ?? null,
+      quantity: item.quantity,
+      currency,
+      unitPrice,
+      lineSubtotal,
+      discountAmount: 0,
+      discountId: null,
+      taxAmount: 0,
+      taxRate: null,
+      taxName: null,
+      lineTotal: lineSubtotal,
+    };
+  });
+
+  // 2. Discounts
+  const discountIds: string[] = [];
+  if (request.manualDiscountAmount !== undefined) {
+    allocateManualDiscount(lines, request.manualDiscountAmount);
+  } else if (request.subscriptionDiscountPercent !== undefined) {
+    applyPercentDiscount(lines, request.subscriptionDiscountPercent);
+  } else {
+    const requestedDiscountIds = [
+      ...new Set(
+        [
+          request.discountId,
+          ...request.lineItems.map((i) => i.discountId),
+        ].filter((id): id is string => !!id)
+      ),
+    ];
+    discountIds.push(
+      ...(await applyDiscounts(
+        lines,
+        requestedDiscountIds,
+        request.customerEmail
+      ))
+    );
+  }
+
+  // 3. Group by store and price shipping
+  const storeIds = [...new Set(lines.map((l) => l.storeId))];
+  const stores: PricedStore[] = storeIds.map((storeId) => {
+    const storeLines = lines.filter((l) => l.storeId === storeId);
+    return {
+      storeId,
+      lines: storeLines,
+      subtotal: sum(storeLines.map((l) => l.lineSubtotal)),
+      discount: sum(storeLines.map((l) => l.discountAmount)),
+      shipping: 0,
+      shippingRate: null,
+      shippingTax: 0,
+      tax: 0,
+      taxBreakdown: [],
+      total: 0,
+    };
+  });
+
+  if (request.manualShippingAmount !== undefined) {
+    allocateManualShipping(stores, request.manualShippingAmount);
+  } else if (request.shippingCountry) {
+    await applyShipping(stores, request, currency, rates);
+  }
+
+  // 4. Tax
+  let taxInclusive = false;
+  if (request.shippingCountry) {
+    const categoryByListing = new Map(
+      listingRows.map((l) => [l.id, l.taxonomyCategoryId])
+    );
+    taxInclusive = await applyTaxes(
+      stores,
+      request.shippingCountry,
+      request.shippingRegion,
+      categoryByListing
+    );
+  }
+
+  for (const s of stores) {
+    s.tax = roundMoney(sum(s.lines.map((l) => l.taxAmount)) + s.shippingTax);
+    s.total = roundMoney(
+      s.subtotal - s.discount + s.shipping + (taxInclusive ? 0 : s.tax)
+    );
+  }
+
+  return {
+    currency,
+    lines,
+    stores,
+    subtotal: sum(stores.map((s) => s.subtotal)),
+    discount: sum(stores.map((s) => s.discount)),
+    shipping: sum(stores.map((s) => s.shipping)),
+    tax: sum(stores.map((s) => s.tax)),
+    taxInclusive,
+    taxBreakdown: mergeTaxBreakdowns(stores.map((s) => s.taxBreakdown)),
+    total: sum(stores.map((s) => s.total)),
+    discountIds,
+  };
+}
+
+/**
+ * Evaluate every discount the client claims and keep the best one per line
+ * (same no-stacking rule as evaluateBestDiscountsPerItem).
+ */
+async function applyDiscounts(
+  lines: PricedLine[],
+  discountIds: string[],
+  customerEmail?: string | null
+): Promise<string[]> {
+  if (discountIds.length === 0) return [];
+
+  const cartItems = lines.map((l) => ({
+    id: l.cartItemId,
+    listingId: l.listingId,
+    variantId: l.variantId,
+    name: l.title,
+    price: l.unitPrice,
+    quantity: l.quantity,
+  }));
+
+  const totals = new Map<string, number>();
+  for (const discountId of discountIds) {
+    const evaluation = await evaluateDiscountForCheckout(
+      discountId,
+      cartItems,
+      customerEmail
+    );
+    if (!evaluation.success || !evaluation.result) {
+      throw new PricingError(
+        "DISCOUNT_NOT_APPLICABLE",
+        evaluation.validationError ||
+          evaluation.error ||
+          "Discount cannot be applied to this cart"
+      );
+    }
+
+    for (const allocation of evaluation.result.allocations) {
+      const line = lines.find((l) => l.cartItemId === allocation.cartItemId);
+      if (!line) continue;
+      const amount = Math.min(roundMoney(allocation.amount), line.lineSubtotal);
+      if (amount > line.discountAmount) {
+        line.discountAmount = amount;
+        line.discountId = discountId;
+      }
+    }
+  }
+
+  for (const line of lines) {
+    line.lineTotal = roundMoney(line.lineSubtotal - line.discountAmount);
+    if (line.discountId) {
+      totals.set(
+        line.discountId,
+        (totals.get(line.discountId) || 0) + line.discountAmount
+      );
+    }
+  }
+
+  return [...totals.entries()].sort((a, b) => b[1] - a[1]).map(([id]) => id);
+}
+
+/**
+ * Spread a seller-entered order discount across lines by subtotal share.
+ * The last line absorbs rounding so allocations add up exactly.
+ */
+function allocateManualDiscount(lines: PricedLine[], amount: number) {
+  const subtotal = sum(lines.map((l) => l.lineSubtotal));
+  const total = Math.min(Math.max(roundMoney(amount), 0), subtotal);
+  if (total <= 0 || subtotal <= 0) return;
+
+  let remaining = total;
+  lines.forEach((line, index) => {
+    const share =
+      index === lines.length - 1
+        ? remaining
+        : roundMoney((total * line.lineSubtotal) / subtotal);
+    line.discountAmount = Math.min(share, line.lineSubtotal);
+    line.lineTotal = roundMoney(line.lineSubtotal - line.discountAmount);
+    remaining = roundMoney(remaining - line.discountAmount);
+  });
+}
+
+function applyPercentDiscount(lines: PricedLine[], percent: number) {
+  const rate = Math.min(Math.max(percent, 0), 100) / 100;
+  if (rate <= 0) return;
+
+  for (const line of lines) {
+    line.discountAmount = roundMoney(line.lineSubtotal * rate);
+    line.lineTotal = roundMoney(line.lineSubtotal - line.discountAmount);
+  }
+}
+
+function allocateManualShipping(stores: PricedStore[], amount: number) {
+  const subtotal = sum(stores.map((s) => s.subtotal));
+  const total = Math.max(roundMoney(amount), 0);
+  let remaining = total;
+  stores.forEach((s, index) => {
+    s.shipping =
+      index === stores.length - 1
+        ? remaining
+        : subtotal > 0
+          ? roundMoney((total * s.subtotal) / subtotal)
+          : 0;
+    remaining = roundMoney(remaining - s.shipping);
+  });
+}
+
+/**
+ * Look up each store's selected manual rate for the destination and convert
+ * it into the checkout currency. Stores without a selection get their
+ * cheapest rate (same fallback the checkout page uses).
+ */
+async function applyShipping(
+  stores: PricedStore[],
+  request: PricingRequest,
+  currency: string,
+  rates: ExchangeRates
+) {
+  const result = await getManualShippingRatesForOrder(
+    stores.flatMap((s) =>
+      s.lines.map((l) => ({
+        listingId: l.listingId,
+        variantId: l.variantId,
+        quantity: l.quantity,
+        storeId: s.storeId,
+      }))
+    ),
+    request.shippingCountry!,
+    {
+      region: request.shippingRegion,
+      postalCode: request.shippingPostalCode,
+    }
+  );
+
+  if (!result.success) {
+    throw new PricingError(
+      "SHIPPING_RATE_UNAVAILABLE",
+      result.error || "Failed to load shipping rates"
+    );
+  }
+
+  for (const s of stores) {
+    const available =
+      result.rates?.find((r) => r.storeId === s.storeId)?.rates ?? [];
+    const selectedRateId = request.vendorShippingRates?.find(
+      (r) => r.storeId === s.storeId
+    )?.rateId;
+
+    if (available.length === 0) {
+      if (selectedRateId) {
+        throw new PricingError(
+          "SHIPPING_RATE_UNAVAILABLE",
+          "Selected shipping rate is not available for this destination"
+        );
+      }
+      continue;
+    }
+
+    const rate = selectedRateId
+      ? available.find((r) => r.id === selectedRateId)
+      : available.reduce((prev, curr) =>
+          curr.priceCents < prev.priceCents ? curr : prev
+        );
+
+    if (!rate) {
+      throw new PricingError(
+        "SHIPPING_RATE_UNAVAILABLE",
+        "Selected shipping rate is not available for this destination"
+      );
+    }
+
+    const amount = convertAmount(
+      rate.priceCents / 100,
+      rate.currency,
+      currency,
+      rates
+    );
+    s.shipping = amount;
+    s.shippingRate = {
+      rateId: rate.id,
+      serviceName: rate.serviceName,
+      priceCents: Math.round(amount * 100),
+      currency,
+      estimatedDays: rate.estimatedDays,
+    };
+  }
+}
+
+/**
+ * Allocate tax per line (on the discounted line total) and per store
+ * shipping, using the destination market's inclusive/exclusive setting.
+ * Returns whether prices are tax-inclusive.
+ */
+async function applyTaxes(
+  stores: PricedStore[],
+  country: string,
+  region: string | null | undefined,
+  categoryByListing: Map<string, string | null>
+): Promise<boolean> {
+  const [market, rules] = await Promise.all([
+    resolveTaxMarket(country),
+    loadTaxRules({ country, region }),
+  ]);
+  const inclusive = market.pricesIncludeTax;
+  if (rules.length === 0) return inclusive;
+
+  const shippingRule = resolveShippingTaxRule(rules, market.marketId);
+
+  for (const s of stores) {
+    const taxed: Array<{
+      name: string;
+      rate: number;
+      amount: number;
+      tax: number;
+    }> = [];
+
+    for (const line of s.lines) {
+      const rule = resolveTaxRule(rules, {
+        marketId: market.marketId,
+        taxonomyCategoryId: categoryByListing.get(line.listingId),
+      });
+      if (!rule) continue;
+      line.taxRate = rule.rate;
+      line.taxName = rule.name;
+      line.taxAmount = calculateTax(line.lineTotal, rule.rate, inclusive);
+      taxed.push({
+        name: rule.name,
+        rate: rule.rate,
+        amount: line.lineTotal,
+        tax: line.taxAmount,
+      });
+    }
+
+    if (shippingRule && s.shipping > 0) {
+      s.shippingTax = calculateTax(s.shipping, shippingRule.rate, inclusive);
+      taxed.push({
+        name: shippingRule.name,
+        rate: shippingRule.rate,
+        amount: s.shipping,
+        tax: s.shippingTax,
+      });
+    }
+
+    s.taxBreakdown = summarizeTaxBreakdown(taxed, inclusive);
+  }
+
+  return inclusive;
+}
+
+// ===================================
+// Reconciliation
+// ===================================
+
+export interface ClientTotals {
+  lineItems?: Array<{ unitPrice?: string; discountAmount?: string }>;
+  subtotalAmount?: string;
+  discountAmount?: string;
+  shippingAmount?: string;
+  taxAmount?: string;
+  totalAmount?: string;
+}
+
+function compare(
+  mismatches: PriceMismatch[],
+  field: string,
+  expected: number,
+  received: string | undefined
+) {
+  if (received === undefined || received === null || received === "") return;
+  const parsed = parseFloat(received);
+  if (isNaN(parsed) || Math.abs(parsed - expected) > PRICE_TOLERANCE) {
+    mismatches.push({ field, expected: expected.toFixed(2), received });
+  }
+}
+
+/**
+ * Compare client-sent amounts with the server pricing. Omitted client values
+ * are not compared.
+ */
+export function findPriceMismatches(
+  priced: PricedCheckout,
+  client: ClientTotals
+): PriceMismatch[] {
+  const mismatches: PriceMismatch[] = [];
+
+  client.lineItems?.forEach((item, index) => {
+    const line = priced.lines[index];
+    if (!line) return;
+    compare(
+      mismatches,
+      `lineItems[${index}].unitPrice`,
+      line.unitPrice,
+      item.unitPrice
+    );
+    compare(
+      mismatches,
+      `lineItems[${index}].discountAmount`,
+      line.discountAmount,
+      item.discountAmount
+    );
+  });
+
+  compare(mismatches, "subtotalAmount", priced.subtotal, client.subtotalAmount);
+  compare(mismatches, "discountAmount", priced.discount, client.discountAmount);
+  compare(mismatches, "shippingAmount", priced.shipping, client.shippingAmount);
+  compare(mismatches, "taxAmount", priced.tax, client.taxAmount);
+  compare(mismatches, "totalAmount", priced.total, client.totalAmount);
+
+  return mismatches;
+}
+
+/**
+ * "reject" throws PRICE_MISMATCH when the client disagrees with the server;
+ * "reconcile" keeps the server amounts and only logs the differences.
+ */
+export type MismatchPolicy = "reject" | "reconcile";
+
+export function reconcileClientTotals(
+  priced: PricedCheckout,
+  client: ClientTotals,
+  policy: MismatchPolicy,
+  context = "checkout"
+): PriceMismatch[] {
+  const mismatches = findPriceMismatches(priced, client);
+  if (mismatches.length === 0) return mismatches;
+
+  if (policy === "reject") {
+    throw new PricingError(
+      "PRICE_MISMATCH",
+      "Prices in your cart have changed. Please review your cart and try again.",
+      mismatches
+    );
+  }
+
+  console.warn(
+    `[PRICING] Reconciled client amounts for ${context}:`,
+    mismatches
+  );
+  return mismatches;
+}
+
+/**
+ * Compare a single client amount (e.g. a payment total) against the
+ * server amount.
+ */
+export function assertAmountMatches(
+  field: string,
+  expected: number,
+  received: string | number | undefined | null
+) {
+  if (received === undefined || received === null) return;
+  const mismatches: PriceMismatch[] = [];
+  compare(mismatches, field, expected, String(received));
+  if (mismatches.length > 0) {
+    throw new PricingError(
+      "PRICE_MISMATCH",
+      "Payment amount does not match the order total",
+      mismatches
+    );
+  }
+}
@@ -0,0 +1,363 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { SQL } from "drizzle-orm";
+import { PgDialect } from "drizzle-orm/pg-core";
+import {
+  inventoryAdjustments,
+  inventoryItems,
+  inventoryLevels,
+  purchaseOrderItems,
+  purchaseOrders,
+} from "@/db/schema";
+import { receivePurchaseOrder } from "./purchase-orders";
+
+type Row = Record<string, unknown>;
+
+interface State {
+  purchaseOrder: Row;
+  lines: Row[];
+  inventoryItems: Row[];
+  levels: Row[];
+  adjustments: Row[];
+}
+
+let state: State;
+
+vi.mock("@/db", () => ({
+  db: { transaction: (run: (tx: unknown) => unknown) => transaction(run) },
+}));
+
+vi.mock("@react-pdf/renderer", () => ({ renderToBuffer: vi.fn() }));
+vi.mock("@/app/[locale]/components/purchase-order-pdf", () => ({
+  default: () => null,
+}));
+
+const dialect = new PgDialect();
+
+function params(expression: SQL | undefined) {
+  return expression ? dialect.sqlToQuery(expression).params : [];
+}
+
+// Applies a `column + n` or `GREATEST(COALESCE(column, 0) - n, 0)` update
+function applyChange(current: unknown, expression: SQL) {
+  const { sql, params: values } = dialect.sqlToQuery(expression);
+  const n = Number(values[0]);
+  return sql.includes(" - ")
+    ? Math.max(Number(current) - n, 0)
+    : Number(current) + n;
+}
+
+function updateRows(table: unknown, values: Row, where: SQL): Row[] {
+  const [id, ...rest] = params(where);
+
+  if (table === purchaseOrders) {
+    // A claim lists the statuses it may move the PO out of
+    if (rest.length > 0 && !rest.includes(state.purchaseOrder.status)) {
+      return [];
+    }
+    Object.assign(state.purchaseOrder, values);
+    return [state.purchaseOrder];
+  }
+
+  if (table === purchaseOrderItems) {
+    const [, quantity] = rest as [string, number];
+    const line = state.lines.find((l) => l.id === id);
+    if (
+      !line ||
+      (line.quantityReceived as number) + quantity >
+        (line.quantityOrdered as number)
+    ) {
+      return [];
+    }
+    line.quantityReceived = (line.quantityReceived as number) + quantity;
+    return [line];
+  }
+
+  if (table === inventoryLevels) {
+    const level = state.levels.find((l) => l.id === id)!;
+    for (const field of ["incoming", "available", "onHand"]) {
+      if (values[field]) {
+        level[field] = applyChange(level[field], values[field] as SQL);
+      }
+    }
+    return [level];
+  }
+
+  const item = state.inventoryItems.find((i) => i.id === id)!;
+  item.costPerItem = values.costPerItem;
+  return [item];
+}
+
+function selectRows(fields: Row, table: unknown, where: SQL): Row[] {
+  const [first, second] = params(where);
+
+  if (table === purchaseOrderItems) {
+    const count = state.lines.filter(
+      (l) => (l.quantityReceived as number) < (l.quantityOrdered as number)
+    ).length;
+    return [{ count }];
+  }
+
+  if (table === inventoryLevels) {
+    return state.levels.filter(
+      (l) => l.inventoryItemId === first && l.locationId === second
+    );
+  }
+
+  if ("costPerItem" in fields) {
+    const item = state.inventoryItems.find((i) => i.id === first);
+    const onHand = state.levels
+      .filter((l) => l.inventoryItemId === first)
+      .reduce((sum, l) => sum + (l.onHand as number), 0);
+    return item ? [{ costPerItem: item.costPerItem, onHand }] : [];
+  }
+
+  return state.inventoryItems.filter((i) => i.variantId === first);
+}
+
+function insertRows(table: unknown, values: Row): Row[] {
+  if (table === inventoryAdjustments) {
+    state.adjustments.push(values);
+    return [values];
+  }
+  const rows = table === inventoryItems ? state.inventoryItems : state.levels;
+  const row = { id: `new-${rows.length + 1}`, costPerItem: null, ...values };
+  rows.push(row);
+  return [row];
+}
+
+// Settles to `rows()` whether or not .returning() is called
+function statement(rows: () => Row[]) {
+  return {
+    returning: async () => rows(),
+    then: (
+      resolve: (value: undefined) => unknown,
+      reject: (e: unknown) => unknown
+    ) => {
+      try {
+        rows();
+        return resolve(undefined);
+      } catch (error) {
+        return reject(error);
+      }
+    },
+  };
+}
+
+const tx = {
+  select: (fields: Row) => ({
+    from: (table: unknown) => {
+      let where: SQL;
+      const query = {
+        leftJoin: () => query,
+        where: (condition: SQL) => {
+          where = condition;
+          return query;
+        },
+        groupBy: () => query,
+        limit: () => query,
+        then: (resolve: (rows: Row[]) => unknown) =>
+          resolve(selectRows(fields, table, where)),
+      };
+      return query;
+    },
+  }),
+  update: (table: unknown) => ({
+    set: (values: Row) => ({
+      where: (where: SQL) => statement(() => updateRows(table, values, where)),
+    }),
+  }),
+  insert: (table: unknown) => ({
+    values: (values: Row) => statement(() => insertRows(table, values)),
+  }),
+};
+
+// Rolls the state back when the transaction throws
+async function transaction(run: (tx: unknown) => unknown) {
+  const before = structuredClone(state);
+  try {
+    return await run(tx);
+  } catch (error) {
+    state = before;
+    throw error;
+  }
+}
+
+function line(id: string, quantityOrdered: number, unitCost: string): Row {
+  return {
+    id,
+    purchaseOrderId: "po-1",
+    variantId: `variant-${id}`,
+    quantityOrdered,
+    quantityReceived: 0,
+    unitCost,
+  };
+}
+
+function stock(variantId: string, costPerItem: string, onHand: number) {
+  const itemId = `item-${variantId}`;
+  state.inventoryItems.push({ id: itemId, variantId, costPerItem });
+  state.levels.push({
+    id: `level-${variantId}`,
+    inventoryItemId: itemId,
+    locationId: "location-1",
+    onHand,
+    available: onHand,
+    incoming: 10,
+  });
+}
+
+function level(variantId: string) {
+  const item = state.inventoryItems.find((i) => i.variantId === variantId)!;
+  return state.levels.find(
+    (l) => l.inventoryItemId === item.id && l.locationId === "location-1"
+  )!;
+}
+
+function cost(variantId: string) {
+  return state.inventoryItems.find((i) => i.variantId === variantId)!
+    .costPerItem;
+}
+
+beforeEach(() => {
+  state = {
+    purchaseOrder: {
+      id: "po-1",
+      sequence: 7,
+      status: "ordered",
+      locationId: "location-1",
+    },
+    lines: [line("a", 10, "4.00"), line("b", 5, "10.00")],
+    inventoryItems: [],
+    levels: [],
+    adjustments: [],
+  };
+  stock("variant-a", "2.00", 10);
+  stock("variant-b", "10.00", 0);
+});
+
+describe("receivePurchaseOrder", () => {
+  it("moves a partial receipt from incoming to stock and leaves the order partial", async () => {
+    const purchaseOrder = await receivePurchaseOrder(
+      "po-1",
+      [{ itemId: "a", quantity: 4 }],
+      "user-1"
+    );
+
+    expect(purchaseOrder.status).toBe("partial");
+    expect(state.lines[0].quantityReceived).toBe(4);
+    expect(level("variant-a")).toMatchObject({
+      onHand: 14,
+      available: 14,
+      incoming: 6,
+    });
+    expect(state.adjustments).toEqual([
+      {
+        inventoryItemId: "item-variant-a",
+        locationId: "location-1",
+        change: 4,
+        reason: "Received on PO-0007",
+        eventType: "restock",
+        referenceType: "supplier",
+        referenceId: "po-1",
+        createdBy: "user-1",
+      },
+    ]);
+  });
+
+  it("marks the order received once every line is in", async () => {
+    await receivePurchaseOrder("po-1", [{ itemId: "a", quantity: 4 }], null);
+    const purchaseOrder = await receivePurchaseOrder(
+      "po-1",
+      [
+        { itemId: "a", quantity: 6 },
+        { itemId: "b", quantity: 5 },
+      ],
+      null
+    );
+
+    expect(purchaseOrder.status).toBe("received");
+    expect(level("variant-a")).toMatchObject({ onHand: 20, incoming: 0 });
+    expect(level("variant-b")).toMatchObject({ onHand: 5, incoming: 5 });
+  });
+
+  it("refuses more than is outstanding on a line and keeps the rest of the delivery out", async () => {
+    await receivePurchaseOrder("po-1", [{ itemId: "a", quantity: 4 }], null);
+
+    await expect(
+      receivePurchaseOrder(
+        "po-1",
+        [
+          { itemId: "b", quantity: 5 },
+          { itemId: "a", quantity: 7 },
+        ],
+        null
+      )
+    ).rejects.toThrow(
+      "Received quantity is more than is outstanding on the order"
+    );
+    expect(state.lines.map((l) => l.quantityReceived)).toEqual([4, 0]);
+    expect(level("variant-b").onHand).toBe(0);
+    expect(state.adjustments).toHaveLength(1);
+  });
+
+  it("refuses fractional and empty quantities", async () => {
+    await expect(
+      receivePurchaseOrder("po-1", [{ itemId: "a", quantity: 1.5 }], null)
+    ).rejects.toThrow("Quantities must be whole numbers");
+    await expect(
+      receivePurchaseOrder("po-1", [{ itemId: "a", quantity: 0 }], null)
+    ).rejects.toThrow("Enter the quantities received");
+  });
+
+  it("refuses an order that is not awaiting delivery", async () => {
+    state.purchaseOrder.status = "draft";
+
+    await expect(
+      receivePurchaseOrder("po-1", [{ itemId: "a", quantity: 1 }], null)
+    ).rejects.toThrow("This purchase order is not awaiting delivery");
+  });
+
+  it("takes the unit cost when nothing is on hand", async () => {
+    state.inventoryItems.find((i) => i.variantId === "variant-b")!.costPerItem =
+      "99.00";
+
+    await receivePurchaseOrder("po-1", [{ itemId: "b", quantity: 2 }], null);
+
+    expect(cost("variant-b")).toBe("10.00");
+  });
+
+  it("creates the inventory item and level for a variant never stocked here", async () => {
+    state.lines.push({ ...line("c", 3, "6.50"), variantId: "variant-new" });
+
+    await receivePurchaseOrder("po-1", [{ itemId: "c", quantity: 3 }], null);
+
+    expect(cost("variant-new")).toBe("6.50");
+    expect(level("variant-new")).toMatchObject({ onHand: 3, available: 3 });
+  });
+
+  it("averages the cost over the stock on hand across receipts", async () => {
+    // 10 on hand at 2.00, plus 5 at 4.00
+    await receivePurchaseOrder("po-1", [{ itemId: "a", quantity: 5 }], null);
+    expect(cost("variant-a")).toBe("2.67");
+
+    // 15 on hand at 2.67, plus 5 at 4.00
+    await receivePurchaseOrder("po-1", [{ itemId: "a", quantity: 5 }], null);
+    expect(cost("variant-a")).toBe("3.00");
+  });
+
+  it("counts stock at every location in the average", async () => {
+    state.levels.push({
+      id: "level-elsewhere",
+      inventoryItemId: "item-variant-a",
+      locationId: "location-2",
+      onHand: 10,
+      available: 10,
+      incoming: 0,
+    });
+
+    // 20 on hand at 2.00, plus 10 at 4.00
+    await receivePurchaseOrder("po-1", [{ itemId: "a", quantity: 10 }], null);
+
+    expect(cost("variant-a")).toBe("2.67");
+  });
+});
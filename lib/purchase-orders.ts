@@ -0,0 +1,443 @@
+/**
+ * Purchase orders: stock a store orders from its suppliers for one inventory
+ * location.
+ *
+ * - Placing a draft adds every line to inventory_levels.incoming.
+ * - Receiving (in as many deliveries as it takes) moves the received units
+ *   from incoming to available and on hand, writes an inventory_adjustments
+ *   row per line (referenceType "supplier", referenceId = the PO) and folds
+ *   the unit cost into inventory_items.costPerItem as a weighted average
+ *   over the stock on hand.
+ * - Closing takes whatever was not received back out of incoming: a PO with
+ *   nothing received is cancelled, a partly received one is closed short.
+ *
+ * Each step first claims the PO with a conditional status update, which
+ * also locks the row, so concurrent receipts and closes are serialized.
+ */
+
+import { createElement } from "react";
+import { renderToBuffer } from "@react-pdf/renderer";
+import { v2 as cloudinary } from "cloudinary";
+import { db } from "@/db";
+import {
+  inventoryAdjustments,
+  inventoryItems,
+  inventoryLevels,
+  inventoryLocations,
+  purchaseOrderItems,
+  purchaseOrders,
+  store,
+  suppliers,
+  type PurchaseOrder,
+} from "@/db/schema";
+import { and, eq, inArray, sql } from "drizzle-orm";
+import PurchaseOrderPdf from "@/app/[locale]/components/purchase-order-pdf";
+
+cloudinary.config({
+  cloud_name: process.env.CLOUDINARY_CLOUD_NAME,
+  api_key: process.env.CLOUDINARY_API_KEY,
+  api_secret: process.env.CLOUDINARY_API_SECRET,
+});
+
+type Tx = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export const PURCHASE_ORDER_STATUSES = [
+  "draft",
+  "ordered",
+  "partial",
+  "received",
+  "closed",
+  "cancelled",
+] as const;
+export type PurchaseOrderStatus = (typeof PURCHASE_ORDER_STATUSES)[number];
+
+export function formatPurchaseOrderNumber(sequence: number): string {
+  return `PO-${String(sequence).padStart(4, "0")}`;
+}
+
+function round(value: number, decimals = 2): number {
+  const factor = 10 ** decimals;
+  return Math.round((value + Number.EPSILON) * factor) / factor;
+}
+
+/**
+ * Claim a PO for a step: moves it out of one of the given statuses (or just
+ * touches it when no new status is given) and returns it, or null when it
+ * isn't in any of them.
+ */
+async function claimPurchaseOrder(
+  tx: Tx,
+  purchaseOrderId: string,
+  from: PurchaseOrderStatus[],
+  set: Partial<typeof purchaseOrders.$inferInsert> = {}
+): Promise<PurchaseOrder | null> {
+  const [claimed] = await tx
+    .update(purchaseOrders)
+    .set({ ...set, updatedAt: new Date() })
+    .where(
+      and(
+        eq(purchaseOrders.id, purchaseOrderId),
+        inArray(purchaseOrders.status, from)
+      )
+    )
+    .returning();
+  return claimed ?? null;
+}
+
+/**
+ * The variant's inventory item and its level at the location, created when
+ * missing (a variant may never have had stock at this location)
+ */
+async function getOrCreateLevel(
+  tx: Tx,
+  variantId: string,
+  locationId: string
+): Promise<{ inventoryItemId: string; levelId: string }> {
+  let [item] = await tx
+    .select({ id: inventoryItems.id })
+    .from(inventoryItems)
+    .where(eq(inventoryItems.variantId, variantId))
+    .limit(1);
+  if (!item) {
+    [item] = await tx
+      .insert(inventoryItems)
+      .values({ variantId })
+      .returning({ id: inventoryItems.id });
+  }
+
+  let [level] = await tx
+    .select({ id: inventoryLevels.id })
+    .from(inventoryLevels)
+    .where(
+      and(
+        eq(inventoryLevels.inventoryItemId, item.id),
+        eq(inventoryLevels.locationId, locationId)
+      )
+    )
+    .limit(1);
+  if (!level) {
+    [level] = await tx
+      .insert(inventoryLevels)
+      .values({
+        inventoryItemId: item.id,
+        locationId,
+        available: 0,
+        committed: 0,
+        incoming: 0,
+        onHand: 0,
+        shipped: 0,
+        damaged: 0,
+        returned: 0,
+      })
+      .returning({ id: inventoryLevels.id });
+  }
+
+  return { inventoryItemId: item.id, levelId: level.id };
+}
+
+/**
+ * Change incoming at the PO's location for each line (never below zero)
+ */
+async function adjustIncoming(
+  tx: Tx,
+  locationId: string,
+  lines: Array<{ variantId: string | null; quantity: number }>
+) {
+  for (const line of lines) {
+    if (!line.variantId || line.quantity === 0) continue;
+    const { levelId } = await getOrCreateLevel(tx, line.variantId, locationId);
+    await tx
+      .update(inventoryLevels)
+      .set({
+        incoming: sql`GREATEST(COALESCE(${inventoryLevels.incoming}, 0) + ${line.quantity}, 0)`,
+        updatedAt: new Date(),
+      })
+      .where(eq(inventoryLevels.id, levelId));
+  }
+}
+
+/**
+ * Send a draft to the supplier: its quantities become incoming stock
+ */
+export async function placePurchaseOrder(
+  purchaseOrderId: string
+): Promise<PurchaseOrder> {
+  return db.transaction(async (tx) => {
+    const purchaseOrder = await claimPurchaseOrder(
+      tx,
+      purchaseOrderId,
+      ["draft"],
+      { status: "ordered", orderedAt: new Date() }
+    );
+    if (!purchaseOrder) {
+      throw new Error("Only draft purchase orders can be placed");
+    }
+
+    const items = await tx
+      .select()
+      .from(purchaseOrderItems)
+      .where(eq(purchaseOrderItems.purchaseOrderId, purchaseOrderId));
+    if (items.length === 0) {
+      throw new Error("Add at least one item before placing the order");
+    }
+
+    await adjustIncoming(
+      tx,
+      purchaseOrder.locationId,
+      items.map((item) => ({
+        variantId: item.variantId,
+        quantity: item.quantityOrdered,
+      }))
+    );
+    return purchaseOrder;
+  });
+}
+
+/**
+ * Receive a delivery against a placed PO. Quantities are per PO line and may
+ * be partial; receiving more than is outstanding on a line is refused.
+ */
+export async function receivePurchaseOrder(
+  purchaseOrderId: string,
+  receipts: Array<{ itemId: string; quantity: number }>,
+  userId: string | null
+): Promise<PurchaseOrder> {
+  const lines = receipts.filter((r) => r.quantity > 0);
+  if (lines.length === 0) {
+    throw new Error("Enter the quantities received");
+  }
+  if (lines.some((r) => !Number.isInteger(r.quantity))) {
+    throw new Error("Quantities must be whole numbers");
+  }
+
+  return db.transaction(async (tx) => {
+    const purchaseOrder = await claimPurchaseOrder(tx, purchaseOrderId, [
+      "ordered",
+      "partial",
+    ]);
+    if (!purchaseOrder) {
+      throw new Error("This purchase order is not awaiting delivery");
+    }
+    const poNumber = formatPurchaseOrderNumber(purchaseOrder.sequence);
+
+    for (const receipt of lines) {
+      const [item] = await tx
+        .update(purchaseOrderItems)
+        .set({
+          quantityReceived: sql`${purchaseOrderItems.quantityReceived} + ${receipt.quantity}`,
+        })
+        .where(
+          and(
+            eq(purchaseOrderItems.id, receipt.itemId),
+            eq(purchaseOrderItems.purchaseOrderId, purchaseOrderId),
+            sql`${purchaseOrderItems.quantityReceived} + ${receipt.quantity} <= ${purchaseOrderItems.quantityOrdered}`
+          )
+        )
+        .returning();
+      if (!item) {
+        throw new Error(
+          "Received quantity is more than is outstanding on the order"
+        );
+      }
+      if (!item.variantId) continue; // Product deleted since ordering
+
+      const { inventoryItemId, levelId } = await getOrCreateLevel(
+        tx,
+        item.variantId,
+        purchaseOrder.locationId
+      );
+
+      // Weighted average cost over the stock on hand before this receipt
+      const [current] = await tx
+        .select({
+          costPerItem: inventoryItems.costPerItem,
+          onHand: sql<number>`COALESCE(SUM(${inventoryLevels.onHand})::int, 0)`,
+        })
+        .from(inventoryItems)
+        .leftJoin(
+          inventoryLevels,
+          eq(inventoryLevels.inventoryItemId, inventoryItems.id)
+        )
+        .where(eq(inventoryItems.id, inventoryItemId))
+        .groupBy(inventoryItems.id);
+      const onHandBefore = Math.max(Number(current?.onHand ?? 0), 0);
+      const costBefore = parseFloat(current?.costPerItem ?? "0") || 0;
+      const unitCost = parseFloat(item.unitCost);
+      const averageCost = round(
+        (onHandBefore * costBefore + receipt.quantity * unitCost) /
+          (onHandBefore + receipt.quantity)
+      );
+
+      await tx.insert(inventoryAdjustments).values({
+        inventoryItemId,
+        locationId: purchaseOrder.locationId,
+        change: receipt.quantity,
+        reason: `Received on ${poNumber}`,
+        eventType: "restock",
+        referenceType: "supplier",
+        referenceId: purchaseOrder.id,
+        createdBy: userId,
+      });
+      await tx
+        .update(inventoryLevels)
+        .set({
+          incoming: sql`GREATEST(COALESCE(${inventoryLevels.incoming}, 0) - ${receipt.quantity}, 0)`,
+          available: sql`COALESCE(${inventoryLevels.available}, 0) + ${receipt.quantity}`,
+          onHand: sql`COALESCE(${inventoryLevels.onHand}, 0) + ${receipt.quantity}`,
+          updatedAt: new Date(),
+        })
+        .where(eq(inventoryLevels.id, levelId));
+      await tx
+        .update(inventoryItems)
+        .set({ costPerItem: averageCost.toFixed(2), updatedAt: new Date() })
+        .where(eq(inventoryItems.id, inventoryItemId));
+    }
+
+    const [outstanding] = await tx
+      .select({
+        count: sql<number>`count(*)::int`,
+      })
+      .from(purchaseOrderItems)
+      .where(
+        and(
+          eq(purchaseOrderItems.purchaseOrderId, purchaseOrderId),
+          sql`${purchaseOrderItems.quantityReceived} < ${purchaseOrderItems.quantityOrdered}`
+        )
+      );
+    const [updated] = await tx
+      .update(purchaseOrders)
+      .set({
+        status: Number(outstanding?.count ?? 0) > 0 ? "partial" : "received",
+        receivedAt: new Date(),
+      })
+      .where(eq(purchaseOrders.id, purchaseOrderId))
+      .returning();
+    return updated;
+  });
+}
+
+/**
+ * Stop waiting for the rest of a PO. Nothing received: cancelled. Partly
+ * received: closed short. Either way the outstanding units leave incoming.
+ */
+export async function closePurchaseOrder(
+  purchaseOrderId: string
+): Promise<PurchaseOrder> {
+  return db.transaction(async (tx) => {
+    const purchaseOrder = await claimPurchaseOrder(tx, purchaseOrderId, [
+      "draft",
+      "ordered",
+      "partial",
+    ]);
+    if (!purchaseOrder) {
+      throw new Error("This purchase order is already complete");
+    }
+
+    if (purchaseOrder.status !== "draft") {
+      const items = await tx
+        .select()
+        .from(purchaseOrderItems)
+        .where(eq(purchaseOrderItems.purchaseOrderId, purchaseOrderId));
+      await adjustIncoming(
+        tx,
+        purchaseOrder.locationId,
+        items.map((item) => ({
+          variantId: item.variantId,
+          quantity: -(item.quantityOrdered - item.quantityReceived),
+        }))
+      );
+    }
+
+    const [updated] = await tx
+      .update(purchaseOrders)
+      .set({
+        status: purchaseOrder.status === "partial" ? "closed" : "cancelled",
+        closedAt: new Date(),
+      })
+      .where(eq(purchaseOrders.id, purchaseOrderId))
+      .returning();
+    return updated;
+  });
+}
+
+/**
+ * Render the PO as it stands now, store it in Cloudinary and return its URL
+ */
+export async function generatePurchaseOrderPdf(
+  purchaseOrderId: string
+): Promise<string> {
+  const [row] = await db
+    .select({
+      purchaseOrder: purchaseOrders,
+      storeName: store.storeName,
+      supplier: suppliers,
+      locationName: inventoryLocations.name,
+      locationAddress: sql<string>`concat_ws(', ', ${inventoryLocations.address}, ${inventoryLocations.city}, ${inventoryLocations.state}, ${inventoryLocations.zip}, ${inventoryLocations.country})`,
+    })
+    .from(purchaseOrders)
+    .innerJoin(store, eq(purchaseOrders.storeId, store.id))
+    .innerJoin(suppliers, eq(purchaseOrders.supplierId, suppliers.id))
+    .innerJoin(
+      inventoryLocations,
+      eq(purchaseOrders.locationId, inventoryLocations.id)
+    )
+    .where(eq(purchaseOrders.id, purchaseOrderId))
+    .limit(1);
+  if (!row) {
+    throw new Error("Purchase order not found");
+  }
+
+  const items = await db
+    .select()
+    .from(purchaseOrderItems)
+    .where(eq(purchaseOrderItems.purchaseOrderId, purchaseOrderId))
+    .orderBy(purchaseOrderItems.createdAt);
+
+  const { purchaseOrder, supplier } = row;
+  const poNumber = formatPurchaseOrderNumber(purchaseOrder.sequence);
+  const buffer = await renderToBuffer(
+    createElement(PurchaseOrderPdf, {
+      poNumber,
+      status: purchaseOrder.status,
+      storeName: row.storeName,
+      supplierName: supplier.name,
+      supplierContact: [supplier.contactName, supplier.phone, supplier.email]
+        .filter(Boolean)
+        .join(" | "),
+      supplierAddress: supplier.address,
+      locationName: row.locationName,
+      locationAddress: row.locationAddress,
+      currency: purchaseOrder.currency,
+      orderedAt: purchaseOrder.orderedAt,
+      expectedAt: purchaseOrder.expectedAt,
+      notes: purchaseOrder.notes,
+      items: items.map((item) => ({
+        description: item.variantTitle
+          ? `${item.productName} - ${item.variantTitle}`
+          : item.productName,
+        sku: item.sku,
+        quantityOrdered: item.quantityOrdered,
+        quantityReceived: item.quantityReceived,
+        unitCost: parseFloat(item.unitCost),
+      })),
+      generatedAt: new Date(),
+    }) as Parameters<typeof renderToBuffer>[0]
+  );
+
+  const dataURI = `data:application/pdf;base64,${buffer.toString("base64")}`;
+  const upload = await cloudinary.uploader.upload(dataURI, {
+    folder: `golden-hive/purchase-orders/${purchaseOrder.storeId}`,
+    resource_type: "raw",
+    format: "pdf",
+    public_id: poNumber,
+    overwrite: true,
+    invalidate: true,
+  });
+
+  await db
+    .update(purchaseOrders)
+    .set({ pdfUrl: upload.secure_url, pdfPublicId: upload.public_id })
+    .where(eq(purchaseOrders.id, purchaseOrderId));
+
+  return upload.secure_url;
+}
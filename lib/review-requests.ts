@@ -0,0 +1,110 @@
+/**
+ * Post-purchase review requests: the review-requests cron emails buyers a
+ * few days after their order arrives, with a signed link per product (and
+ * one for the store) into /review. The link identifies the order, so guests
+ * can review without typing the order email.
+ */
+
+import { createHmac, timingSafeEqual } from "crypto";
+
+const DEFAULT_DELAY_DAYS = 7;
+// Orders delivered longer ago than this are never asked, so enabling the
+// emails does not mail every past buyer at once
+const DEFAULT_MAX_AGE_DAYS = 30;
+const REVIEW_LINK_TTL_DAYS = 60;
+
+export type ReviewLinkTarget =
+  | { type: "product"; listingId: string }
+  | { type: "store"; storeId: string };
+
+export interface ReviewLink {
+  orderId: string;
+  target: ReviewLinkTarget;
+}
+
+function readDays(value: string | undefined, fallback: number): number {
+  const days = parseFloat(value || "");
+  return Number.isFinite(days) && days > 0 ? days : fallback;
+}
+
+/**
+ * Days after delivery (or fulfillment, for shipments without tracking) before
+ * the email goes out. Configured with REVIEW_REQUEST_DELAY_DAYS.
+ */
+export function getReviewRequestDelayDays(): number {
+  return readDays(process.env.REVIEW_REQUEST_DELAY_DAYS, DEFAULT_DELAY_DAYS);
+}
+
+/**
+ * Days after delivery past which no email is sent.
+ * Configured with REVIEW_REQUEST_MAX_AGE_DAYS.
+ */
+export function getReviewRequestMaxAgeDays(): number {
+  return Math.max(
+    readDays(process.env.REVIEW_REQUEST_MAX_AGE_DAYS, DEFAULT_MAX_AGE_DAYS),
+    getReviewRequestDelayDays()
+  );
+}
+
+function getSigningSecret(): string {
+  const secret =
+    process.env.REVIEW_REQUEST_SECRET || process.env.BETTER_AUTH_SECRET;
+  if (!secret) {
+    throw new Error("REVIEW_REQUEST_SECRET or BETTER_AUTH_SECRET must be set");
+  }
+  return secret;
+}
+
+function sign(payload: string): string {
+  return createHmac("sha256", getSigningSecret())
+    .update(payload)
+    .digest("base64url");
+}
+
+function encodeTarget(target: ReviewLinkTarget): string {
+  return target.type === "product"
+    ? `p:${target.listingId}`
+    : `s:${target.storeId}`;
+}
+
+/**
+ * Token for a review link: `<orderId>.<p|s>:<id>.<expiry>.<hmac>`
+ */
+export function createReviewLinkToken(link: ReviewLink): string {
+  const expiresAt =
+    Math.floor(Date.now() / 1000) + REVIEW_LINK_TTL_DAYS * 24 * 60 * 60;
+  const payload = `${link.orderId}.${encodeTarget(link.target)}.${expiresAt}`;
+  return `${payload}.${sign(payload)}`;
+}
+
+/**
+ * Order and review target from a review link token, or null when the token
+ * is malformed, tampered with or expired
+ */
+export function verifyReviewLinkToken(token: string): ReviewLink | null {
+  const [orderId, target, expiresAt, signature] = token.split(".");
+  if (!orderId || !target || !expiresAt || !signature) return null;
+
+  const expected = Buffer.from(sign(`${orderId}.${target}.${expiresAt}`));
+  const given = Buffer.from(signature);
+  if (expected.length !== given.length || !timingSafeEqual(expected, given)) {
+    return null;
+  }
+  if (parseInt(expiresAt, 10) < Math.floor(Date.now() / 1000)) {
+    return null;
+  }
+
+  const [kind, id] = target.split(":");
+  if (!id) return null;
+  if (kind === "p") {
+    return { orderId, target: { type: "product", listingId: id } };
+  }
+  if (kind === "s") {
+    return { orderId, target: { type: "store", storeId: id } };
+  }
+  return null;
+}
+
+export function getReviewLinkUrl(link: ReviewLink, locale: string): string {
+  return `${process.env.NEXT_PUBLIC_APP_URL}/${locale}/review?token=${encodeURIComponent(createReviewLinkToken(link))}`;
+}
@@ -0,0 +1,940 @@
+/**
+ * Product and store search index.
+ *
+ * Active, featured listings (every locale, variants, price, category, rating,
+ * store, origin village, market type, shipping destinations and answered
+ * product questions) and public stores are mirrored into Meilisearch when
+ * MEILISEARCH_HOST is set, otherwise into the in-process engine from
+ * lib/search-local.ts, which loads itself from the database on first search.
+ *
+ * lib/listing.ts and the store actions call the sync helpers after each write.
+ * Sync helpers never throw, so a search outage cannot fail a catalog change;
+ * reindexSearch() rebuilds everything (POST /api/admin/search/reindex).
+ */
+
+import {
+  MeiliSearch,
+  type EnqueuedTaskPromise,
+  type Settings,
+} from "meilisearch";
+import { db } from "@/db";
+import {
+  listing,
+  listingTranslations,
+  listingVariants,
+  listingVariantTranslations,
+  productQuestions,
+  productQuestionTranslations,
+  shippingDestinations,
+  shippingProfiles,
+  store,
+} from "@/db/schema";
+import { and, eq, inArray, isNotNull } from "drizzle-orm";
+import { routing } from "@/i18n/routing";
+import { BASE_CURRENCY, convertAmount, loadExchangeRates } from "./pricing";
+import { findCategoryById, getDescendantTaxonomyIds } from "./taxonomy";
+import { createLocalSearchEngine } from "./search-local";
+
+// ===================================
+// Engine contract
+// ===================================
+
+export interface SearchDocument {
+  id: string;
+}
+
+export interface SearchIndexConfig {
+  uid: string;
+  searchableAttributes: string[]; // Most important first
+  filterableAttributes: string[];
+  sortableAttributes: string[];
+  rankingRules: string[];
+}
+
+export type FilterCondition =
+  | { field: string; op: "in" | "not_in"; values: Array<string | number> }
+  | { field: string; op: "gte" | "lte"; value: number };
+
+export interface EngineSearchRequest {
+  query: string;
+  filter: FilterCondition[]; // All conditions must match
+  facets?: string[];
+  sort?: { field: string; direction: "asc" | "desc" };
+  offset: number;
+  limit: number;
+}
+
+export interface EngineSearchResponse<T> {
+  hits: T[];
+  total: number;
+  facetDistribution: Record<string, Record<string, number>>;
+  facetStats: Record<string, { min: number; max: number }>;
+}
+
+export interface SearchEngine {
+  kind: "meilisearch" | "local";
+  isLoaded(config: SearchIndexConfig): boolean;
+  upsert(config: SearchIndexConfig, documents: SearchDocument[]): Promise<void>;
+  remove(config: SearchIndexConfig, ids: string[]): Promise<void>;
+  replace(
+    config: SearchIndexConfig,
+    documents: SearchDocument[]
+  ): Promise<void>;
+  search<T extends SearchDocument>(
+    config: SearchIndexConfig,
+    request: EngineSearchRequest
+  ): Promise<EngineSearchResponse<T>>;
+}
+
+// ===================================
+// Documents
+// ===================================
+
+export interface ProductSearchTranslation {
+  name: string | null;
+  description: string | null;
+  tags: string[];
+  originVillage: string | null;
+  questions: string[]; // Published questions with their answers
+}
+
+export interface ProductSearchDocument extends SearchDocument {
+  slug: string;
+  name: string;
+  description: string | null;
+  imageUrl: string | null;
+  price: number; // Cheapest listing/variant price, in `currency`
+  compareAtPrice: number | null;
+  currency: string;
+  priceEur: number | null; // `price` in BASE_CURRENCY, null without an exchange rate
+  unit: string | null;
+  categoryId: string | null;
+  categoryName: string | null;
+  storeId: string;
+  storeName: string;
+  storeSlug: string;
+  rating: number;
+  ratingFloor: number; // Whole stars, for the rating facet
+  ratingCount: number;
+  salesCount: number;
+  marketType: string | null;
+  originVillage: string | null;
+  tags: string[];
+  variantTitles: string[];
+  skus: string[];
+  shipsTo: string[]; // Country codes, "*" for "everywhere else"
+  shipsExcluded: string[];
+  translations: Record<string, ProductSearchTranslation>;
+  createdAt: number;
+}
+
+export interface StoreSearchDocument extends SearchDocument {
+  storeName: string;
+  slug: string;
+  logoUrl: string | null;
+  rating: number;
+  ratingCount: number;
+  followerCount: number;
+}
+
+const SHIPS_EVERYWHERE = "*";
+
+const DEFAULT_RANKING_RULES = [
+  "words",
+  "typo",
+  "proximity",
+  "attribute",
+  "sort",
+  "exactness",
+];
+
+const localized = (field: string) =>
+  routing.locales.map((locale) => `translations.${locale}.${field}`);
+
+const PRODUCT_INDEX: SearchIndexConfig = {
+  uid: "products",
+  searchableAttributes: [
+    "name",
+    ...localized("name"),
+    "variantTitles",
+    "tags",
+    ...localized("tags"),
+    "categoryName",
+    "storeName",
+    "originVillage",
+    ...localized("originVillage"),
+    "skus",
+    "description",
+    ...localized("description"),
+    ...localized("questions"),
+  ],
+  filterableAttributes: [
+    "categoryId",
+    "storeId",
+    "priceEur",
+    "rating",
+    "ratingFloor",
+    "shipsTo",
+    "shipsExcluded",
+    "marketType",
+  ],
+  sortableAttributes: ["priceEur", "rating", "salesCount", "createdAt"],
+  rankingRules: [...DEFAULT_RANKING_RULES, "salesCount:desc", "rating:desc"],
+};
+
+const STORE_INDEX: SearchIndexConfig = {
+  uid: "stores",
+  searchableAttributes: ["storeName", "slug"],
+  filterableAttributes: [],
+  sortableAttributes: ["rating", "followerCount"],
+  rankingRules: [...DEFAULT_RANKING_RULES, "followerCount:desc", "rating:desc"],
+};
+
+// Listings per document-building query during a full reindex
+const REINDEX_BATCH_SIZE = 500;
+
+function toNumber(value: string | number | null | undefined): number | null {
+  if (value === null || value === undefined || value === "") return null;
+  const parsed = typeof value === "number" ? value : parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function uniqueStrings(values: Array<string | null | undefined>): string[] {
+  return Array.from(new Set(values.filter((v): v is string => !!v)));
+}
+
+async function buildProductDocuments(
+  listingIds: string[]
+): Promise<ProductSearchDocument[]> {
+  if (listingIds.length === 0) return [];
+
+  const rows = await db
+    .select({
+      id: listing.id,
+      slug: listing.slug,
+      name: listing.name,
+      description: listing.description,
+      imageUrl: listing.imageUrl,
+      price: listing.price,
+      compareAtPrice: listing.compareAtPrice,
+      currency: listing.currency,
+      unit: listing.unit,
+      tags: listing.tags,
+      taxonomyCategoryId: listing.taxonomyCategoryId,
+      taxonomyCategoryName: listing.taxonomyCategoryName,
+      ratingAverage: listing.ratingAverage,
+      ratingCount: listing.ratingCount,
+      salesCount: listing.salesCount,
+      marketType: listing.marketType,
+      originVillage: listing.originVillage,
+      shippingProfileId: listing.shippingProfileId,
+      createdAt: listing.createdAt,
+      storeId: store.id,
+      storeName: store.storeName,
+      storeSlug: store.slug,
+    })
+    .from(listing)
+    .innerJoin(store, eq(store.id, listing.storeId))
+    .where(
+      and(
+        inArray(listing.id, listingIds),
+        eq(listing.status, "active"),
+        eq(listing.isFeatured, true)
+      )
+    );
+
+  if (rows.length === 0) return [];
+
+  const ids = rows.map((r) => r.id);
+  const storeIds = uniqueStrings(rows.map((r) => r.storeId));
+
+  const [
+    translations,
+    variants,
+    variantTranslations,
+    defaultProfiles,
+    rates,
+    questions,
+  ] = await Promise.all([
+    db
+      .select()
+      .from(listingTranslations)
+      .where(inArray(listingTranslations.listingId, ids)),
+    db
+      .select({
+        listingId: listingVariants.listingId,
+        title: listingVariants.title,
+        sku: listingVariants.sku,
+        price: listingVariants.price,
+        currency: listingVariants.currency,
+      })
+      .from(listingVariants)
+      .where(inArray(listingVariants.listingId, ids)),
+    db
+      .select({
+        listingId: listingVariants.listingId,
+        title: listingVariantTranslations.title,
+      })
+      .from(listingVariantTranslations)
+      .innerJoin(
+        listingVariants,
+        eq(listingVariantTranslations.variantId, listingVariants.id)
+      )
+      .where(inArray(listingVariants.listingId, ids)),
+    db
+      .select({ id: shippingProfiles.id, storeId: shippingProfiles.storeId })
+      .from(shippingProfiles)
+      .where(
+        and(
+          inArray(shippingProfiles.storeId, storeIds),
+          eq(shippingProfiles.isDefault, true)
+        )
+      ),
+    loadExchangeRates(),
+    db
+      .select({
+        listingId: productQuestions.listingId,
+        locale: productQuestionTranslations.locale,
+        question: productQuestionTranslations.question,
+        answer: productQuestionTranslations.answer,
+      })
+      .from(productQuestionTranslations)
+      .innerJoin(
+        productQuestions,
+        eq(productQuestionTranslations.questionId, productQuestions.id)
+      )
+      .where(
+        and(
+          inArray(productQuestions.listingId, ids),
+          eq(productQuestions.status, "published"),
+          isNotNull(productQuestions.answer)
+        )
+      ),
+  ]);
+
+  // Same fallback as checkShippingAvailability: listing profile, else store default
+  const defaultProfileByStore = new Map(
+    defaultProfiles.map((p) => [p.storeId, p.id])
+  );
+  const profileByListing = new Map(
+    rows.map((r) => [
+      r.id,
+      r.shippingProfileId ?? defaultProfileByStore.get(r.storeId) ?? null,
+    ])
+  );
+  const profileIds = uniqueStrings(Array.from(profileByListing.values()));
+  const destinations = profileIds.length
+    ? await db
+        .select({
+          shippingProfileId: shippingDestinations.shippingProfileId,
+          destinationType: shippingDestinations.destinationType,
+          countryCode: shippingDestinations.countryCode,
+          excluded: shippingDestinations.excluded,
+        })
+        .from(shippingDestinations)
+        .where(inArray(shippingDestinations.shippingProfileId, profileIds))
+    : [];
+
+  const toEur = (amount: number, currency: string): number | null => {
+    try {
+      return convertAmount(amount, currency, BASE_CURRENCY, rates);
+    } catch {
+      return null;
+    }
+  };
+
+  return rows.map((row) => {
+    const listingCurrency = row.currency || BASE_CURRENCY;
+    const listingVariantRows = variants.filter((v) => v.listingId === row.id);
+
+    // Cheapest option across the listing and its priced variants
+    let price = toNumber(row.price) ?? 0;
+    let currency = listingCurrency;
+    let priceEur = toEur(price, currency);
+    for (const variant of listingVariantRows) {
+      const variantPrice = toNumber(variant.price);
+      if (variantPrice === null) continue;
+      const variantCurrency = variant.currency || listingCurrency;
+      const variantEur = toEur(variantPrice, variantCurrency);
+      const cheaper =
+        variantEur !== null && priceEur !== null
+          ? variantEur < priceEur
+          : variantCurrency === currency && variantPrice < price;
+      if (cheaper) {
+        price = variantPrice;
+        currency = variantCurrency;
+        priceEur = variantEur;
+      }
+    }
+
+    const translationsByLocale: Record<string, ProductSearchTranslation> = {};
+    for (const t of translations.filter((t) => t.listingId === row.id)) {
+      translationsByLocale[t.locale] = {
+        name: t.name,
+        description: t.description,
+        tags: t.tags ?? [],
+        originVillage: t.originVillage,
+        questions: [],
+      };
+    }
+    for (const q of questions.filter((q) => q.listingId === row.id)) {
+      translationsByLocale[q.locale] ??= {
+        name: null,
+        description: null,
+        tags: [],
+        originVillage: null,
+        questions: [],
+      };
+      translationsByLocale[q.locale].questions.push(
+        q.answer ? `${q.question} ${q.answer}` : q.question
+      );
+    }
+
+    const profileId = profileByListing.get(row.id);
+    const profileDestinations = destinations.filter(
+      (d) => d.shippingProfileId === profileId
+    );
+    const shipsTo = uniqueStrings(
+      profileDestinations
+        .filter((d) => !d.excluded)
+        .map((d) =>
+          d.destinationType === "everywhere_else"
+            ? SHIPS_EVERYWHERE
+            : d.destinationType === "country"
+              ? d.countryCode?.toUpperCase()
+              : null
+        )
+    );
+    const shipsExcluded = uniqueStrings(
+      profileDestinations
+        .filter((d) => d.excluded && d.destinationType === "country")
+        .map((d) => d.countryCode?.toUpperCase())
+    );
+
+    const rating = toNumber(row.ratingAverage) ?? 0;
+
+    return {
+      id: row.id,
+      slug: row.slug,
+      name: row.name,
+      description: row.description,
+      imageUrl: row.imageUrl,
+      price,
+      compareAtPrice:
+        currency === listingCurrency ? toNumber(row.compareAtPrice) : null,
+      currency,
+      priceEur,
+      unit: row.unit,
+      categoryId: row.taxonomyCategoryId,
+      categoryName: row.taxonomyCategoryName,
+      storeId: row.storeId,
+      storeName: row.storeName,
+      storeSlug: row.storeSlug,
+      rating,
+      ratingFloor: Math.floor(rating),
+      ratingCount: row.ratingCount ?? 0,
+      salesCount: row.salesCount ?? 0,
+      marketType: row.marketType,
+      originVillage: row.originVillage,
+      tags: row.tags ?? [],
+      variantTitles: uniqueStrings([
+        ...listingVariantRows.map((v) => v.title),
+        ...variantTranslations
+          .filter((v) => v.listingId === row.id)
+          .map((v) => v.title),
+      ]),
+      skus: uniqueStrings(listingVariantRows.map((v) => v.sku)),
+      shipsTo,
+      shipsExcluded,
+      translations: translationsByLocale,
+      createdAt: row.createdAt.getTime(),
+    };
+  });
+}
+
+async function buildStoreDocuments(
+  storeIds?: string[]
+): Promise<StoreSearchDocument[]> {
+  const rows = await db
+    .select({
+      id: store.id,
+      storeName: store.storeName,
+      slug: store.slug,
+      logoUrl: store.logoUrl,
+      ratingAvg: store.ratingAvg,
+      ratingCount: store.ratingCount,
+      followerCount: store.followerCount,
+    })
+    .from(store)
+    .where(
+      and(
+        eq(store.visibility, "public"),
+        storeIds ? inArray(store.id, storeIds) : undefined
+      )
+    );
+
+  return rows.map((row) => ({
+    id: row.id,
+    storeName: row.storeName,
+    slug: row.slug,
+    logoUrl: row.logoUrl,
+    rating: toNumber(row.ratingAvg) ?? 0,
+    ratingCount: row.ratingCount,
+    followerCount: row.followerCount,
+  }));
+}
+
+// ===================================
+// Meilisearch engine
+// ===================================
+
+async function waitForTask(task: EnqueuedTaskPromise): Promise<void> {
+  const result = await task.waitTask({ timeout: 60_000 });
+  if (result.status === "failed") {
+    throw new Error(result.error?.message || `Task ${result.uid} failed`);
+  }
+}
+
+function createMeilisearchEngine(host: string, apiKey?: string): SearchEngine {
+  const client = new MeiliSearch({ host, apiKey });
+  const configured = new Map<string, Promise<void>>();
+
+  const settingsFor = (config: SearchIndexConfig): Settings => ({
+    searchableAttributes: config.searchableAttributes,
+    filterableAttributes: config.filterableAttributes,
+    sortableAttributes: config.sortableAttributes,
+    rankingRules: config.rankingRules,
+    typoTolerance: {
+      enabled: true,
+      minWordSizeForTypos: { oneTypo: 5, twoTypos: 9 },
+      disableOnAttributes: config.searchableAttributes.includes("skus")
+        ? ["skus"]
+        : [],
+    },
+  });
+
+  // Creates the index on first use and keeps its settings current
+  const ensureIndex = (config: SearchIndexConfig): Promise<void> => {
+    let pending = configured.get(config.uid);
+    if (!pending) {
+      pending = waitForTask(
+        client.index(config.uid).updateSettings(settingsFor(config))
+      ).catch((error) => {
+        configured.delete(config.uid);
+        throw error;
+      });
+      configured.set(config.uid, pending);
+    }
+    return pending;
+  };
+
+  const toFilter = (conditions: FilterCondition[]): string[] =>
+    conditions.map((condition) => {
+      switch (condition.op) {
+        case "in":
+        case "not_in": {
+          const values = condition.values
+            .map((v) => JSON.stringify(v))
+            .join(", ");
+          const clause = `${condition.field} IN [${values}]`;
+          return condition.op === "in" ? clause : `NOT ${clause}`;
+        }
+        case "gte":
+          return `${condition.field} >= ${condition.value}`;
+        case "lte":
+          return `${condition.field} <= ${condition.value}`;
+      }
+    });
+
+  return {
+    kind: "meilisearch",
+
+    isLoaded() {
+      return true;
+    },
+
+    async upsert(config, documents) {
+      if (documents.length === 0) return;
+      await ensureIndex(config);
+      await client
+        .index(config.uid)
+        .addDocuments(documents, { primaryKey: "id" });
+    },
+
+    async remove(config, ids) {
+      if (ids.length === 0) return;
+      await ensureIndex(config);
+      await client.index(config.uid).deleteDocuments(ids);
+    },
+
+    // Builds a fresh index next to the live one and swaps them, so searches
+    // keep working during a full reindex
+    async replace(config, documents) {
+      const staging = `${config.uid}_reindex`;
+      await ensureIndex(config);
+      await client.deleteIndexIfExists(staging);
+      await waitForTask(
+        client.index(staging).updateSettings(settingsFor(config))
+      );
+      for (let i = 0; i < documents.length; i += REINDEX_BATCH_SIZE) {
+        await waitForTask(
+          client
+            .index(staging)
+            .addDocuments(documents.slice(i, i + REINDEX_BATCH_SIZE), {
+              primaryKey: "id",
+            })
+        );
+      }
+      await waitForTask(
+        client.swapIndexes([{ indexes: [config.uid, staging], rename: false }])
+      );
+      await waitForTask(client.deleteIndex(staging));
+    },
+
+    async search<T extends SearchDocument>(
+      config: SearchIndexConfig,
+      request: EngineSearchRequest
+    ): Promise<EngineSearchResponse<T>> {
+      await ensureIndex(config);
+      const response = await client.index(config.uid).search(request.query, {
+        filter: toFilter(request.filter),
+        facets: request.facets,
+        sort: request.sort
+          ? [`${request.sort.field}:${request.sort.direction}`]
+          : undefined,
+        hitsPerPage: request.limit,
+        page: Math.floor(request.offset / request.limit) + 1,
+      });
+
+      return {
+        hits: response.hits as unknown as T[],
+        total: response.totalHits,
+        facetDistribution: response.facetDistribution ?? {},
+        facetStats: response.facetStats ?? {},
+      };
+    },
+  };
+}
+
+// ===================================
+// Engine selection
+// ===================================
+
+let engine: SearchEngine | null = null;
+let bootstrap: Promise<unknown> | null = null;
+
+function getSearchEngine(): SearchEngine {
+  if (!engine) {
+    const host = process.env.MEILISEARCH_HOST;
+    engine = host
+      ? createMeilisearchEngine(host, process.env.MEILISEARCH_API_KEY)
+      : createLocalSearchEngine();
+  }
+  return engine;
+}
+
+/**
+ * The local engine starts empty in every process; fill it before the first
+ * search instead of serving empty results
+ */
+async function ensureIndexesLoaded(searchEngine: SearchEngine): Promise<void> {
+  if (
+    searchEngine.isLoaded(PRODUCT_INDEX) &&
+    searchEngine.isLoaded(STORE_INDEX)
+  ) {
+    return;
+  }
+  if (!bootstrap) {
+    bootstrap = reindexSearch().finally(() => {
+      bootstrap = null;
+    });
+  }
+  await bootstrap;
+}
+
+// ===================================
+// Sync
+// ===================================
+
+/**
+ * Re-read listings from the database and update the index. Listings that are
+ * no longer active and featured are removed from it.
+ */
+export async function syncListingsToIndex(listingIds: string[]): Promise<void> {
+  try {
+    const searchEngine = getSearchEngine();
+    // An unloaded local index reads everything fresh on its first search
+    if (listingIds.length === 0 || !searchEngine.isLoaded(PRODUCT_INDEX)) {
+      return;
+    }
+
+    const documents = await buildProductDocuments(listingIds);
+    const indexedIds = new Set(documents.map((d) => d.id));
+    await searchEngine.upsert(PRODUCT_INDEX, documents);
+    await searchEngine.remove(
+      PRODUCT_INDEX,
+      listingIds.filter((id) => !indexedIds.has(id))
+    );
+  } catch (error) {
+    console.error("Failed to sync listings to search index:", error);
+  }
+}
+
+export async function syncListingToIndex(listingId: string): Promise<void> {
+  await syncListingsToIndex([listingId]);
+}
+
+export async function removeListingFromIndex(listingId: string): Promise<void> {
+  try {
+    const searchEngine = getSearchEngine();
+    if (!searchEngine.isLoaded(PRODUCT_INDEX)) return;
+    await searchEngine.remove(PRODUCT_INDEX, [listingId]);
+  } catch (error) {
+    console.error("Failed to remove listing from search index:", error);
+  }
+}
+
+/**
+ * Update a store document. Pass `listings` after a name or slug change, since
+ * listing documents carry both.
+ */
+export async function syncStoreToIndex(
+  storeId: string,
+  options?: { listings?: boolean }
+): Promise<void> {
+  try {
+    const searchEngine = getSearchEngine();
+    if (!searchEngine.isLoaded(STORE_INDEX)) return;
+
+    const documents = await buildStoreDocuments([storeId]);
+    if (documents.length > 0) {
+      await searchEngine.upsert(STORE_INDEX, documents);
+    } else {
+      await searchEngine.remove(STORE_INDEX, [storeId]);
+    }
+    if (!options?.listings) return;
+
+    const storeListings = await db
+      .select({ id: listing.id })
+      .from(listing)
+      .where(eq(listing.storeId, storeId));
+    await syncListingsToIndex(storeListings.map((l) => l.id));
+  } catch (error) {
+    console.error("Failed to sync store to search index:", error);
+  }
+}
+
+/**
+ * Rebuild both indexes from the database
+ */
+export async function reindexSearch(): Promise<{
+  engine: SearchEngine["kind"];
+  products: number;
+  stores: number;
+}> {
+  const searchEngine = getSearchEngine();
+
+  const visibleListings = await db
+    .select({ id: listing.id })
+    .from(listing)
+    .where(and(eq(listing.status, "active"), eq(listing.isFeatured, true)));
+
+  const products: ProductSearchDocument[] = [];
+  for (let i = 0; i < visibleListings.length; i += REINDEX_BATCH_SIZE) {
+    const batch = visibleListings
+      .slice(i, i + REINDEX_BATCH_SIZE)
+      .map((l) => l.id);
+    products.push(...(await buildProductDocuments(batch)));
+  }
+  const stores = await buildStoreDocuments();
+
+  await searchEngine.replace(PRODUCT_INDEX, products);
+  await searchEngine.replace(STORE_INDEX, stores);
+
+  return {
+    engine: searchEngine.kind,
+    products: products.length,
+    stores: stores.length,
+  };
+}
+
+// ===================================
+// Search
+// ===================================
+
+export type ProductSearchSort =
+  | "relevance"
+  | "price_asc"
+  | "price_desc"
+  | "rating"
+  | "newest"
+  | "best_selling";
+
+export interface ProductSearchFilters {
+  categoryId?: string; // Includes descendant categories
+  storeId?: string;
+  minPrice?: number; // In BASE_CURRENCY
+  maxPrice?: number;
+  minRating?: number;
+  shipsTo?: string; // ISO country code
+}
+
+export interface FacetCount {
+  value: string;
+  label: string;
+  count: number;
+}
+
+export interface ProductSearchFacets {
+  categories: FacetCount[];
+  stores: FacetCount[];
+  ratings: FacetCount[]; // Cumulative: value "4" counts listings rated 4 and up
+  priceRange: { min: number; max: number } | null;
+}
+
+export interface ProductSearchResponse {
+  hits: ProductSearchDocument[];
+  total: number;
+  facets: ProductSearchFacets;
+}
+
+const SORTS: Record<
+  Exclude<ProductSearchSort, "relevance">,
+  EngineSearchRequest["sort"]
+> = {
+  price_asc: { field: "priceEur", direction: "asc" },
+  price_desc: { field: "priceEur", direction: "desc" },
+  rating: { field: "rating", direction: "desc" },
+  newest: { field: "createdAt", direction: "desc" },
+  best_selling: { field: "salesCount", direction: "desc" },
+};
+
+function buildProductFilter(filters: ProductSearchFilters): FilterCondition[] {
+  const conditions: FilterCondition[] = [];
+
+  if (filters.categoryId) {
+    conditions.push({
+      field: "categoryId",
+      op: "in",
+      values: getDescendantTaxonomyIds(filters.categoryId),
+    });
+  }
+  if (filters.storeId) {
+    conditions.push({ field: "storeId", op: "in", values: [filters.storeId] });
+  }
+  if (filters.minPrice !== undefined) {
+    conditions.push({ field: "priceEur", op: "gte", value: filters.minPrice });
+  }
+  if (filters.maxPrice !== undefined) {
+    conditions.push({ field: "priceEur", op: "lte", value: filters.maxPrice });
+  }
+  if (filters.minRating !== undefined) {
+    conditions.push({ field: "rating", op: "gte", value: filters.minRating });
+  }
+  if (filters.shipsTo) {
+    const country = filters.shipsTo.toUpperCase();
+    conditions.push(
+      { field: "shipsTo", op: "in", values: [country, SHIPS_EVERYWHERE] },
+      { field: "shipsExcluded", op: "not_in", values: [country] }
+    );
+  }
+
+  return conditions;
+}
+
+function sortedFacet(
+  distribution: Record<string, number> | undefined,
+  label: (value: string) => string
+): FacetCount[] {
+  return Object.entries(distribution ?? {})
+    .map(([value, count]) => ({ value, label: label(value), count }))
+    .sort((a, b) => b.count - a.count || a.label.localeCompare(b.label));
+}
+
+export async function searchProductIndex(params: {
+  query: string;
+  filters?: ProductSearchFilters;
+  sort?: ProductSearchSort;
+  page?: number;
+  limit?: number;
+}): Promise<ProductSearchResponse> {
+  const searchEngine = getSearchEngine();
+  await ensureIndexesLoaded(searchEngine);
+
+  const page = Math.max(params.page || 1, 1);
+  const limit = params.limit || 24;
+
+  const response = await searchEngine.search<ProductSearchDocument>(
+    PRODUCT_INDEX,
+    {
+      query: params.query.trim(),
+      filter: buildProductFilter(params.filters ?? {}),
+      facets: ["categoryId", "storeId", "ratingFloor", "priceEur"],
+      sort:
+        params.sort && params.sort !== "relevance"
+          ? SORTS[params.sort]
+          : undefined,
+      offset: (page - 1) * limit,
+      limit,
+    }
+  );
+
+  const categoryNames = new Map(
+    response.hits.map((hit) => [hit.categoryId, hit.categoryName])
+  );
+  const storeIds = Object.keys(response.facetDistribution.storeId ?? {});
+  const storeNames = new Map(
+    storeIds.length
+      ? (
+          await db
+            .select({ id: store.id, storeName: store.storeName })
+            .from(store)
+            .where(inArray(store.id, storeIds))
+        ).map((s) => [s.id, s.storeName])
+      : []
+  );
+
+  const ratingFloors = response.facetDistribution.ratingFloor ?? {};
+  const ratings = [4, 3, 2, 1]
+    .map((stars) => ({
+      value: String(stars),
+      label: `${stars} & up`,
+      count: Object.entries(ratingFloors)
+        .filter(([floor]) => Number(floor) >= stars)
+        .reduce((sum, [, count]) => sum + count, 0),
+    }))
+    .filter((r) => r.count > 0);
+
+  return {
+    hits: response.hits,
+    total: response.total,
+    facets: {
+      categories: sortedFacet(
+        response.facetDistribution.categoryId,
+        (id) => categoryNames.get(id) ?? findCategoryById(id)?.name ?? "Unknown"
+      ),
+      stores: sortedFacet(
+        response.facetDistribution.storeId,
+        (id) => storeNames.get(id) ?? "Unknown store"
+      ),
+      ratings,
+      priceRange: response.facetStats.priceEur ?? null,
+    },
+  };
+}
+
+export async function searchStoreIndex(
+  query: string,
+  limit = 10
+): Promise<StoreSearchDocument[]> {
+  const searchEngine = getSearchEngine();
+  await ensureIndexesLoaded(searchEngine);
+
+  const response = await searchEngine.search<StoreSearchDocument>(STORE_INDEX, {
+    query: query.trim(),
+    filter: [],
+    offset: 0,
+    limit,
+  });
+  return response.hits;
+}
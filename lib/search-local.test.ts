@@ -0,0 +1,292 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import type {
+  EngineSearchRequest,
+  SearchDocument,
+  SearchEngine,
+  SearchIndexConfig,
+} from "./search-index";
+import { createLocalSearchEngine, normalizeSearchText } from "./search-local";
+
+interface Product extends SearchDocument {
+  name: string;
+  tags: string[];
+  description: string | null;
+  categoryId: string;
+  storeId: string;
+  priceEur: number | null;
+  salesCount: number;
+  shipsTo: string[];
+  shipsExcluded: string[];
+}
+
+// Shaped like the product index: name before tags before description
+const PRODUCTS: SearchIndexConfig = {
+  uid: "products",
+  searchableAttributes: ["name", "tags", "description"],
+  filterableAttributes: ["categoryId", "storeId", "priceEur", "shipsTo"],
+  sortableAttributes: ["priceEur", "salesCount"],
+  rankingRules: [
+    "words",
+    "typo",
+    "proximity",
+    "attribute",
+    "sort",
+    "exactness",
+    "salesCount:desc",
+  ],
+};
+
+function product(
+  id: string,
+  name: string,
+  overrides: Partial<Product> = {}
+): Product {
+  return {
+    id,
+    name,
+    tags: [],
+    description: null,
+    categoryId: "apparel",
+    storeId: "store-a",
+    priceEur: 10,
+    salesCount: 0,
+    shipsTo: ["*"],
+    shipsExcluded: [],
+    ...overrides,
+  };
+}
+
+const shawl = product("shawl", "Handwoven pashmina shawl", {
+  tags: ["wool"],
+  priceEur: 80,
+  salesCount: 12,
+});
+const scarf = product("scarf", "Pashmina scarf", {
+  tags: ["cashmere"],
+  storeId: "store-b",
+  priceEur: 45,
+  salesCount: 40,
+  shipsTo: ["NP"],
+});
+const honey = product("honey", "Himalayan honey", {
+  tags: ["organic"],
+  categoryId: "food",
+  priceEur: 12,
+  salesCount: 5,
+  shipsExcluded: ["US"],
+});
+const bowl = product("bowl", "Singing bowl", {
+  description: "Hand hammered brass, with a tone as warm as honey",
+  categoryId: "crafts",
+  storeId: "store-b",
+  priceEur: null, // No exchange rate for its currency
+});
+
+let engine: SearchEngine;
+
+async function search(request: Partial<EngineSearchRequest> = {}) {
+  return engine.search<Product>(PRODUCTS, {
+    query: "",
+    filter: [],
+    offset: 0,
+    limit: 20,
+    ...request,
+  });
+}
+
+async function ids(request: Partial<EngineSearchRequest> = {}) {
+  return (await search(request)).hits.map((hit) => hit.id);
+}
+
+beforeEach(async () => {
+  engine = createLocalSearchEngine();
+  await engine.replace(PRODUCTS, [shawl, scarf, honey, bowl]);
+});
+
+describe("normalizeSearchText", () => {
+  it("lowercases, strips accents and splits on anything but letters and digits", () => {
+    expect(normalizeSearchText("Crème BRÛLÉE-set, 2x")).toEqual([
+      "creme",
+      "brulee",
+      "set",
+      "2x",
+    ]);
+  });
+});
+
+describe("local search engine", () => {
+  it("is loaded once replaced, and keeps upserts and removals", async () => {
+    const fresh = createLocalSearchEngine();
+    expect(fresh.isLoaded(PRODUCTS)).toBe(false);
+    expect(engine.isLoaded(PRODUCTS)).toBe(true);
+
+    const renamed: Product = { ...honey, name: "Wildflower honey" };
+    await engine.upsert(PRODUCTS, [renamed]);
+    await engine.remove(PRODUCTS, ["bowl"]);
+
+    expect(await ids({ query: "wildflower" })).toEqual(["honey"]);
+    expect(await ids({ query: "bowl" })).toEqual([]);
+  });
+
+  describe("typo tolerance", () => {
+    it("allows one typo from 5 letters and two from 9", async () => {
+      expect(await ids({ query: "pashmna" })).toEqual(["scarf", "shawl"]);
+      expect(await ids({ query: "honye" })).toEqual(["honey", "bowl"]);
+      expect(await ids({ query: "hmialayna" })).toEqual(["honey"]);
+    });
+
+    it("needs short words exact and rejects too many typos", async () => {
+      expect(await ids({ query: "bowk" })).toEqual([]);
+      expect(await ids({ query: "pshmnia" })).toEqual([]);
+    });
+
+    it("matches the last word as a prefix", async () => {
+      // The bowl matches "hon" through "honey" in its description
+      expect(await ids({ query: "himalayan hon" })).toEqual(["honey", "bowl"]);
+      expect(await ids({ query: "hon himalayan" })).toEqual(["honey"]);
+    });
+
+    it("ranks fewer typos first", async () => {
+      await engine.upsert(PRODUCTS, [product("scarves", "Pashmna scarves")]);
+
+      expect(await ids({ query: "pashmna" })).toEqual([
+        "scarves",
+        "scarf",
+        "shawl",
+      ]);
+    });
+  });
+
+  describe("ranking", () => {
+    it("ranks matches in earlier attributes first", async () => {
+      // The bowl only mentions honey in its description
+      expect(await ids({ query: "honey" })).toEqual(["honey", "bowl"]);
+    });
+
+    it("ranks documents matching more query words first", async () => {
+      expect(await ids({ query: "pashmina shawl" })).toEqual([
+        "shawl",
+        "scarf",
+      ]);
+    });
+
+    it("breaks relevance ties with the custom ranking rules", async () => {
+      // Both match "pashmina" exactly in the name; the scarf sells more
+      expect(await ids({ query: "pashmina" })).toEqual(["scarf", "shawl"]);
+    });
+  });
+
+  describe("sorting", () => {
+    it("sorts by a field in either direction, documents without it last", async () => {
+      const byPrice = { field: "priceEur" };
+
+      expect(await ids({ sort: { ...byPrice, direction: "asc" } })).toEqual([
+        "honey",
+        "scarf",
+        "shawl",
+        "bowl",
+      ]);
+      expect(await ids({ sort: { ...byPrice, direction: "desc" } })).toEqual([
+        "shawl",
+        "scarf",
+        "honey",
+        "bowl",
+      ]);
+    });
+
+    it("applies the sort after relevance", async () => {
+      expect(
+        await ids({
+          query: "honey",
+          sort: { field: "priceEur", direction: "desc" },
+        })
+      ).toEqual(["honey", "bowl"]);
+    });
+
+    it("paginates the sorted results and reports the total", async () => {
+      const page = await search({
+        sort: { field: "salesCount", direction: "desc" },
+        offset: 1,
+        limit: 2,
+      });
+
+      expect(page.hits.map((hit) => hit.id)).toEqual(["shawl", "honey"]);
+      expect(page.total).toBe(4);
+    });
+  });
+
+  describe("filters", () => {
+    it("matches any of the listed values", async () => {
+      expect(
+        await ids({
+          filter: [{ field: "storeId", op: "in", values: ["store-a"] }],
+        })
+      ).toEqual(["shawl", "honey"]);
+    });
+
+    it("applies numeric ranges, leaving out documents without a value", async () => {
+      expect(
+        await ids({
+          filter: [
+            { field: "priceEur", op: "gte", value: 40 },
+            { field: "priceEur", op: "lte", value: 90 },
+          ],
+        })
+      ).toEqual(["scarf", "shawl"]);
+    });
+
+    it("matches array fields and excludes listed values", async () => {
+      // Ships to the US: everywhere, unless the US is excluded
+      expect(
+        await ids({
+          filter: [
+            { field: "shipsTo", op: "in", values: ["US", "*"] },
+            { field: "shipsExcluded", op: "not_in", values: ["US"] },
+          ],
+        })
+      ).toEqual(["shawl", "bowl"]);
+    });
+
+    it("combines filters with the query", async () => {
+      expect(
+        await ids({
+          query: "honey",
+          filter: [{ field: "categoryId", op: "in", values: ["crafts"] }],
+        })
+      ).toEqual(["bowl"]);
+    });
+  });
+
+  describe("facets", () => {
+    it("counts documents per value over every match, not just the page", async () => {
+      const response = await search({
+        facets: ["categoryId", "storeId", "shipsTo"],
+        limit: 1,
+      });
+
+      expect(response.facetDistribution).toEqual({
+        categoryId: { apparel: 2, food: 1, crafts: 1 },
+        storeId: { "store-a": 2, "store-b": 2 },
+        shipsTo: { "*": 3, NP: 1 },
+      });
+    });
+
+    it("counts only what the query and filters match", async () => {
+      const response = await search({
+        query: "pashmina",
+        filter: [{ field: "priceEur", op: "lte", value: 50 }],
+        facets: ["storeId"],
+      });
+
+      expect(response.facetDistribution).toEqual({
+        storeId: { "store-b": 1 },
+      });
+    });
+
+    it("reports the range of numeric facets", async () => {
+      const response = await search({ facets: ["priceEur"] });
+
+      expect(response.facetStats).toEqual({ priceEur: { min: 12, max: 80 } });
+    });
+  });
+});
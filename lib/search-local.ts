@@ -0,0 +1,342 @@
+/**
+ * In-process search engine used when MEILISEARCH_HOST is not configured
+ * (local development, CI). It mirrors the parts of Meilisearch the search
+ * index relies on: typo tolerance (1 typo from 5 letters, 2 from 9), prefix
+ * matching on the last query word, the words → typo → attribute → sort →
+ * exactness ranking order, filters, facet counts and facet stats.
+ *
+ * Documents live in module memory, so every server process holds its own copy.
+ */
+
+import type {
+  EngineSearchRequest,
+  EngineSearchResponse,
+  FilterCondition,
+  SearchDocument,
+  SearchEngine,
+  SearchIndexConfig,
+} from "./search-index";
+
+interface LocalEntry {
+  doc: SearchDocument;
+  // Tokens per searchable attribute, in searchableAttributes order
+  fields: string[][];
+}
+
+interface LocalIndex {
+  config: SearchIndexConfig;
+  entries: Map<string, LocalEntry>;
+}
+
+interface MatchScore {
+  words: number;
+  typos: number;
+  attribute: number;
+  exact: number;
+}
+
+export function normalizeSearchText(text: string): string[] {
+  return text
+    .normalize("NFKD")
+    .replace(/\p{M}/gu, "")
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+}
+
+function allowedTypos(word: string): number {
+  if (word.length >= 9) return 2;
+  if (word.length >= 5) return 1;
+  return 0;
+}
+
+/**
+ * Optimal string alignment distance, giving up once it exceeds `max`
+ */
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let prevPrev: number[] = [];
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(prev[j] + 1, current[j - 1] + 1, prev[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, prevPrev[j - 2] + 1);
+      }
+      current[j] = value;
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > max) return max + 1;
+    prevPrev = prev;
+    prev = current;
+  }
+
+  return prev[b.length];
+}
+
+function getPath(doc: SearchDocument, path: string): unknown {
+  let value: unknown = doc;
+  for (const key of path.split(".")) {
+    if (value === null || value === undefined || typeof value !== "object") {
+      return undefined;
+    }
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
+
+function toValues(value: unknown): unknown[] {
+  if (value === null || value === undefined) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+function tokenizeField(value: unknown): string[] {
+  return toValues(value).flatMap((v) =>
+    typeof v === "string" || typeof v === "number"
+      ? normalizeSearchText(String(v))
+      : []
+  );
+}
+
+function matchesCondition(doc: SearchDocument, condition: FilterCondition) {
+  const values = toValues(getPath(doc, condition.field));
+  switch (condition.op) {
+    case "in":
+      return values.some((v) => condition.values.includes(v as never));
+    case "not_in":
+      return !values.some((v) => condition.values.includes(v as never));
+    case "gte":
+      return values.some((v) => typeof v === "number" && v >= condition.value);
+    case "lte":
+      return values.some((v) => typeof v === "number" && v <= condition.value);
+  }
+}
+
+/**
+ * Best match of every query word against the document, or null when no word
+ * matches at all
+ */
+function scoreEntry(
+  entry: LocalEntry,
+  queryWords: string[]
+): MatchScore | null {
+  const score: MatchScore = {
+    words: 0,
+    typos: 0,
+    attribute: Infinity,
+    exact: 0,
+  };
+
+  queryWords.forEach((word, index) => {
+    const isLast = index === queryWords.length - 1;
+    const maxTypos = allowedTypos(word);
+    let best: { typos: number; attribute: number; exact: boolean } | null =
+      null;
+
+    entry.fields.forEach((tokens, attribute) => {
+      for (const token of tokens) {
+        let typos: number | null = null;
+        let exact = false;
+        if (token === word) {
+          typos = 0;
+          exact = true;
+        } else if (isLast && token.startsWith(word)) {
+          typos = 0;
+        } else if (maxTypos > 0) {
+          // The last word may be a misspelled prefix or a misspelled word
+          // missing a letter ("pashmna" for "pashmina")
+          let distance = editDistance(word, token, maxTypos);
+          if (isLast && token.length > word.length) {
+            distance = Math.min(
+              distance,
+              editDistance(word, token.slice(0, word.length), maxTypos)
+            );
+          }
+          if (distance <= maxTypos) typos = distance;
+        }
+
+        if (
+          typos !== null &&
+          (!best ||
+            typos < best.typos ||
+            (typos === best.typos && attribute < best.attribute))
+        ) {
+          best = { typos, attribute, exact };
+        }
+      }
+    });
+
+    if (best) {
+      const match: { typos: number; attribute: number; exact: boolean } = best;
+      score.words++;
+      score.typos += match.typos;
+      score.attribute = Math.min(score.attribute, match.attribute);
+      if (match.exact) score.exact++;
+    }
+  });
+
+  return score.words > 0 ? score : null;
+}
+
+function compareNumbers(a: unknown, b: unknown, direction: "asc" | "desc") {
+  const left = typeof a === "number" ? a : null;
+  const right = typeof b === "number" ? b : null;
+  if (left === right) return 0;
+  // Documents without a value always sort last, like Meilisearch
+  if (left === null) return 1;
+  if (right === null) return -1;
+  return direction === "asc" ? left - right : right - left;
+}
+
+function customRankingRules(config: SearchIndexConfig) {
+  return config.rankingRules
+    .filter((rule) => rule.includes(":"))
+    .map((rule) => {
+      const [field, direction] = rule.split(":");
+      return { field, direction: direction as "asc" | "desc" };
+    });
+}
+
+export function createLocalSearchEngine(): SearchEngine {
+  const indexes = new Map<string, LocalIndex>();
+  const loaded = new Set<string>();
+
+  function getIndex(config: SearchIndexConfig): LocalIndex {
+    let index = indexes.get(config.uid);
+    if (!index) {
+      index = { config, entries: new Map() };
+      indexes.set(config.uid, index);
+    }
+    return index;
+  }
+
+  function toEntry(config: SearchIndexConfig, doc: SearchDocument): LocalEntry {
+    return {
+      doc,
+      fields: config.searchableAttributes.map((attribute) =>
+        tokenizeField(getPath(doc, attribute))
+      ),
+    };
+  }
+
+  return {
+    kind: "local",
+
+    isLoaded(config) {
+      return loaded.has(config.uid);
+    },
+
+    async upsert(config, documents) {
+      const index = getIndex(config);
+      for (const doc of documents) {
+        index.entries.set(doc.id, toEntry(config, doc));
+      }
+    },
+
+    async remove(config, ids) {
+      const index = getIndex(config);
+      for (const id of ids) {
+        index.entries.delete(id);
+      }
+    },
+
+    async replace(config, documents) {
+      const index = getIndex(config);
+      index.entries = new Map(
+        documents.map((doc) => [doc.id, toEntry(config, doc)])
+      );
+      loaded.add(config.uid);
+    },
+
+    async search<T extends SearchDocument>(
+      config: SearchIndexConfig,
+      request: EngineSearchRequest
+    ): Promise<EngineSearchResponse<T>> {
+      const index = getIndex(config);
+      const queryWords = normalizeSearchText(request.query);
+
+      const matches: Array<{ entry: LocalEntry; score: MatchScore | null }> =
+        [];
+      for (const entry of index.entries.values()) {
+        if (!request.filter.every((c) => matchesCondition(entry.doc, c))) {
+          continue;
+        }
+        if (queryWords.length === 0) {
+          matches.push({ entry, score: null });
+          continue;
+        }
+        const score = scoreEntry(entry, queryWords);
+        if (score) matches.push({ entry, score });
+      }
+
+      const customRules = customRankingRules(config);
+      matches.sort((a, b) => {
+        if (a.score && b.score) {
+          const byRelevance =
+            b.score.words - a.score.words ||
+            a.score.typos - b.score.typos ||
+            a.score.attribute - b.score.attribute;
+          if (byRelevance) return byRelevance;
+        }
+        if (request.sort) {
+          const bySort = compareNumbers(
+            getPath(a.entry.doc, request.sort.field),
+            getPath(b.entry.doc, request.sort.field),
+            request.sort.direction
+          );
+          if (bySort) return bySort;
+        }
+        if (a.score && b.score && b.score.exact !== a.score.exact) {
+          return b.score.exact - a.score.exact;
+        }
+        for (const rule of customRules) {
+          const byRule = compareNumbers(
+            getPath(a.entry.doc, rule.field),
+            getPath(b.entry.doc, rule.field),
+            rule.direction
+          );
+          if (byRule) return byRule;
+        }
+        return 0;
+      });
+
+      const facetDistribution: Record<string, Record<string, number>> = {};
+      const facetStats: Record<string, { min: number; max: number }> = {};
+      for (const facet of request.facets ?? []) {
+        const counts: Record<string, number> = {};
+        for (const { entry } of matches) {
+          const values = new Set(toValues(getPath(entry.doc, facet)));
+          for (const value of values) {
+            const key = String(value);
+            counts[key] = (counts[key] ?? 0) + 1;
+
+            if (typeof value === "number") {
+              const stat = facetStats[facet];
+              facetStats[facet] = stat
+                ? {
+                    min: Math.min(stat.min, value),
+                    max: Math.max(stat.max, value),
+                  }
+                : { min: value, max: value };
+            }
+          }
+        }
+        facetDistribution[facet] = counts;
+      }
+
+      return {
+        hits: matches
+          .slice(request.offset, request.offset + request.limit)
+          .map(({ entry }) => entry.doc as T),
+        total: matches.length,
+        facetDistribution,
+        facetStats,
+      };
+    },
+  };
+}
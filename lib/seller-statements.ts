@@ -0,0 +1,467 @@
+/**
+ * Seller statements: a monthly statement per store wallet (store + currency)
+ * and an annual earnings summary for tax filings, both computed from the
+ * seller ledger (seller_balance_transactions), rendered to PDF with
+ * @react-pdf/renderer, stored in Cloudinary and emailed to the store owner.
+ *
+ * Each statement row is claimed before rendering (unique per store, currency,
+ * period type and start), so overlapping cron runs generate it once and a
+ * failed render is retried on the next run.
+ */
+
+import { createElement } from "react";
+import { renderToBuffer } from "@react-pdf/renderer";
+import { v2 as cloudinary } from "cloudinary";
+import { db } from "@/db";
+import {
+  sellerBalances,
+  sellerBalanceTransactions,
+  sellerStatements,
+  store,
+  type SellerBalanceTransaction,
+  type SellerStatement,
+} from "@/db/schema";
+import { and, eq, gte, isNull, lt, sql } from "drizzle-orm";
+import { getStoreOwnerEmail } from "@/app/[locale]/actions/orders";
+import SellerStatementPdf from "@/app/[locale]/components/seller-statement-pdf";
+
+cloudinary.config({
+  cloud_name: process.env.CLOUDINARY_CLOUD_NAME,
+  api_key: process.env.CLOUDINARY_API_KEY,
+  api_secret: process.env.CLOUDINARY_API_SECRET,
+});
+
+export type StatementPeriodType = "monthly" | "annual";
+
+export interface StatementTotals {
+  grossSales: number;
+  platformFees: number;
+  stripeFees: number;
+  esewaFees: number;
+  labelCosts: number;
+  refunds: number;
+  disputes: number;
+  adjustments: number; // Signed: credits positive
+  payouts: number;
+}
+
+const TOTAL_FOR_TYPE: Record<
+  SellerBalanceTransaction["type"],
+  keyof StatementTotals
+> = {
+  order_payment: "grossSales",
+  platform_fee: "platformFees",
+  stripe_fee: "stripeFees",
+  esewa_fee: "esewaFees",
+  shipping_label: "labelCosts",
+  refund: "refunds",
+  dispute: "disputes",
+  adjustment: "adjustments",
+  payout: "payouts",
+};
+
+const TOTAL_LABELS: Record<keyof StatementTotals, string> = {
+  grossSales: "Gross sales",
+  platformFees: "Platform fees",
+  stripeFees: "Stripe fees",
+  esewaFees: "eSewa fees",
+  labelCosts: "Shipping label costs",
+  refunds: "Refunds",
+  disputes: "Disputes",
+  adjustments: "Adjustments",
+  payouts: "Payouts",
+};
+
+// Credits increase the balance; adjustments carry their own sign
+const signedAmountSql = sql<string>`coalesce(sum(case when ${sellerBalanceTransactions.type} in ('order_payment', 'adjustment') then ${sellerBalanceTransactions.amount} else -${sellerBalanceTransactions.amount} end), 0)`;
+
+// Shrawan 1 (start of the Nepali fiscal year) by Gregorian year
+const NEPAL_FISCAL_YEAR_STARTS: Record<number, string> = {
+  2023: "2023-07-17",
+  2024: "2024-07-16",
+  2025: "2025-07-17",
+  2026: "2026-07-17",
+};
+
+const round = (n: number) => Math.round(n * 100) / 100;
+
+export function monthPeriod(year: number, monthIndex: number) {
+  const start = new Date(Date.UTC(year, monthIndex, 1));
+  return {
+    start,
+    end: new Date(Date.UTC(year, monthIndex + 1, 1)),
+    label: start.toLocaleDateString("en-US", {
+      month: "long",
+      year: "numeric",
+      timeZone: "UTC",
+    }),
+  };
+}
+
+/**
+ * Tax year for an annual summary. EUR wallets follow the Finnish tax year
+ * (calendar year), NPR wallets the Nepali fiscal year starting in July of
+ * `taxYear` (Shrawan to Asar).
+ */
+export function taxYearPeriod(currency: string, taxYear: number) {
+  if (currency !== "NPR") {
+    return {
+      start: new Date(Date.UTC(taxYear, 0, 1)),
+      end: new Date(Date.UTC(taxYear + 1, 0, 1)),
+      label: `Tax year ${taxYear}`,
+    };
+  }
+
+  const startOf = (year: number) =>
+    new Date(`${NEPAL_FISCAL_YEAR_STARTS[year] ?? `${year}-07-16`}T00:00:00Z`);
+  const bsYear = taxYear + 57;
+  return {
+    start: startOf(taxYear),
+    end: startOf(taxYear + 1),
+    label: `Fiscal year ${bsYear}/${String((bsYear + 1) % 100).padStart(2, "0")}`,
+  };
+}
+
+function taxNotes(currency: string): string[] {
+  if (currency === "NPR") {
+    return [
+      "Nepal: amounts cover the fiscal year from Shrawan 1 to the end of Asar and are in NPR.",
+      "Gross sales are what customers paid, including shipping. Platform, eSewa and shipping label costs are expenses of your business.",
+      "Keep this summary with your records for your annual income tax return to the Inland Revenue Department.",
+    ];
+  }
+  return [
+    "Finland: amounts cover the calendar year and are in EUR.",
+    "Gross sales are what customers paid, including shipping and any VAT charged. Platform fees, Stripe fees and shipping label costs are expenses of your business.",
+    "Keep this summary with your records for your tax return in OmaVero.",
+  ];
+}
+
+/**
+ * Opening and closing balance (available + on hold) and per-category totals
+ * for one wallet over [start, end)
+ */
+export async function computeStatement(
+  storeId: string,
+  currency: string,
+  start: Date,
+  end: Date
+): Promise<{
+  openingBalance: number;
+  closingBalance: number;
+  totals: StatementTotals;
+  transactionCount: number;
+}> {
+  const wallet = and(
+    eq(sellerBalanceTransactions.storeId, storeId),
+    eq(sellerBalanceTransactions.currency, currency)
+  );
+
+  const [opening] = await db
+    .select({ balance: signedAmountSql })
+    .from(sellerBalanceTransactions)
+    .where(and(wallet, lt(sellerBalanceTransactions.createdAt, start)));
+
+  const rows = await db
+    .select({
+      type: sellerBalanceTransactions.type,
+      amount: sql<string>`coalesce(sum(${sellerBalanceTransactions.amount}), 0)`,
+      count: sql<number>`cast(count(*) as int)`,
+    })
+    .from(sellerBalanceTransactions)
+    .where(
+      and(
+        wallet,
+        gte(sellerBalanceTransactions.createdAt, start),
+        lt(sellerBalanceTransactions.createdAt, end)
+      )
+    )
+    .groupBy(sellerBalanceTransactions.type);
+
+  const totals: StatementTotals = {
+    grossSales: 0,
+    platformFees: 0,
+    stripeFees: 0,
+    esewaFees: 0,
+    labelCosts: 0,
+    refunds: 0,
+    disputes: 0,
+    adjustments: 0,
+    payouts: 0,
+  };
+  let change = 0;
+  let transactionCount = 0;
+  for (const row of rows) {
+    const amount = parseFloat(row.amount);
+    totals[TOTAL_FOR_TYPE[row.type]] = round(amount);
+    change +=
+      row.type === "order_payment" || row.type === "adjustment"
+        ? amount
+        : -amount;
+    transactionCount += row.count;
+  }
+
+  const openingBalance = round(parseFloat(opening?.balance ?? "0"));
+  return {
+    openingBalance,
+    closingBalance: round(openingBalance + change),
+    totals,
+    transactionCount,
+  };
+}
+
+async function uploadStatementPdf(
+  statement: SellerStatement,
+  buffer: Buffer
+): Promise<{ secureUrl: string; publicId: string }> {
+  const dataURI = `data:application/pdf;base64,${buffer.toString("base64")}`;
+  const result = await cloudinary.uploader.upload(dataURI, {
+    folder: `golden-hive/statements/${statement.storeId}`,
+    resource_type: "raw",
+    format: "pdf",
+    public_id: `${statement.periodType}-${statement.currency}-${statement.periodStart.toISOString().slice(0, 10)}`,
+    overwrite: true,
+  });
+  return { secureUrl: result.secure_url, publicId: result.public_id };
+}
+
+async function emailStatement(
+  statement: SellerStatement,
+  storeName: string,
+  title: string,
+  periodLabel: string
+) {
+  // Claim so a retried run doesn't email twice
+  const [claimed] = await db
+    .update(sellerStatements)
+    .set({ emailedAt: new Date() })
+    .where(
+      and(
+        eq(sellerStatements.id, statement.id),
+        isNull(sellerStatements.emailedAt)
+      )
+    )
+    .returning({ id: sellerStatements.id });
+  if (!claimed) return;
+
+  try {
+    const owner = await getStoreOwnerEmail(statement.storeId);
+    if (!owner.success || !owner.email) return;
+
+    const resend = (await import("@/lib/resend")).default;
+    const SellerStatementEmail = (
+      await import("@/app/[locale]/components/seller-statement-email")
+    ).default;
+
+    const { error } = await resend.emails.send({
+      from:
+        process.env.RESEND_FROM_EMAIL ||
+        "Golden Market <goldenmarket@resend.dev>",
+      to: owner.email,
+      subject: `${title} for ${periodLabel} - ${storeName}`,
+      react: SellerStatementEmail({
+        storeName,
+        title,
+        periodLabel,
+        currency: statement.currency,
+        openingBalance: statement.openingBalance,
+        closingBalance: statement.closingBalance,
+        pdfUrl: statement.pdfUrl!,
+        statementsUrl: `${process.env.NEXT_PUBLIC_APP_URL}/dashboard/finances/statements`,
+      }),
+    });
+    if (error) {
+      throw new Error(error.message);
+    }
+  } catch (error) {
+    await db
+      .update(sellerStatements)
+      .set({ emailedAt: null })
+      .where(eq(sellerStatements.id, statement.id));
+    console.error("[Statements] Failed to email statement:", error);
+  }
+}
+
+/**
+ * Generate (or return the already generated) statement for one wallet and
+ * period: compute, render, upload and optionally email it
+ */
+export async function generateSellerStatement(params: {
+  storeId: string;
+  currency: string;
+  periodType: StatementPeriodType;
+  period: { start: Date; end: Date; label: string };
+  email?: boolean;
+}): Promise<SellerStatement> {
+  const { storeId, currency, periodType, period } = params;
+
+  await db
+    .insert(sellerStatements)
+    .values({
+      storeId,
+      currency,
+      periodType,
+      periodStart: period.start,
+      periodEnd: period.end,
+    })
+    .onConflictDoNothing();
+
+  const [existing] = await db
+    .select()
+    .from(sellerStatements)
+    .where(
+      and(
+        eq(sellerStatements.storeId, storeId),
+        eq(sellerStatements.currency, currency),
+        eq(sellerStatements.periodType, periodType),
+        eq(sellerStatements.periodStart, period.start)
+      )
+    )
+    .limit(1);
+
+  const [storeRow] = await db
+    .select({ storeName: store.storeName })
+    .from(store)
+    .where(eq(store.id, storeId))
+    .limit(1);
+  const storeName = storeRow?.storeName || "Your store";
+  const title =
+    periodType === "annual" ? "Annual Earnings Summary" : "Monthly Statement";
+
+  let statement = existing;
+  if (!statement.pdfUrl) {
+    const { openingBalance, closingBalance, totals } = await computeStatement(
+      storeId,
+      currency,
+      period.start,
+      period.end
+    );
+
+    const lines = (Object.keys(TOTAL_LABELS) as (keyof StatementTotals)[])
+      .filter((key) => totals[key] !== 0 || key === "grossSales")
+      .filter((key) => currency === "NPR" || key !== "esewaFees")
+      .map((key) => ({
+        label: TOTAL_LABELS[key],
+        amount:
+          key === "grossSales" || key === "adjustments"
+            ? totals[key]
+            : -totals[key],
+      }));
+
+    const buffer = await renderToBuffer(
+      createElement(SellerStatementPdf, {
+        title,
+        storeName,
+        periodLabel: period.label,
+        periodStart: period.start,
+        periodEnd: period.end,
+        currency,
+        openingBalance,
+        closingBalance,
+        lines,
+        netEarnings:
+          periodType === "annual"
+            ? round(
+                totals.grossSales -
+                  totals.refunds -
+                  totals.disputes -
+                  totals.platformFees -
+                  totals.stripeFees -
+                  totals.esewaFees -
+                  totals.labelCosts +
+                  totals.adjustments
+              )
+            : undefined,
+        notes: periodType === "annual" ? taxNotes(currency) : [],
+        generatedAt: new Date(),
+      }) as Parameters<typeof renderToBuffer>[0]
+    );
+    const upload = await uploadStatementPdf(statement, buffer);
+
+    [statement] = await db
+      .update(sellerStatements)
+      .set({
+        openingBalance: openingBalance.toFixed(2),
+        closingBalance: closingBalance.toFixed(2),
+        totals: { ...totals },
+        pdfUrl: upload.secureUrl,
+        pdfPublicId: upload.publicId,
+      })
+      .where(eq(sellerStatements.id, statement.id))
+      .returning();
+  }
+
+  if (params.email && !statement.emailedAt) {
+    await emailStatement(statement, storeName, title, period.label);
+  }
+
+  return statement;
+}
+
+/**
+ * Generate and email last month's statements for every wallet that had a
+ * balance or activity. Safe to re-run: finished statements are skipped.
+ */
+export async function generateMonthlyStatements(
+  period: { start: Date; end: Date; label: string },
+  limit = 200
+): Promise<{ generated: number; skipped: number; errors: string[] }> {
+  const results = { generated: 0, skipped: 0, errors: [] as string[] };
+
+  const wallets = await db
+    .select({
+      storeId: sellerBalances.storeId,
+      currency: sellerBalances.currency,
+      statementId: sellerStatements.id,
+      pdfUrl: sellerStatements.pdfUrl,
+      emailedAt: sellerStatements.emailedAt,
+    })
+    .from(sellerBalances)
+    .leftJoin(
+      sellerStatements,
+      and(
+        eq(sellerStatements.storeId, sellerBalances.storeId),
+        eq(sellerStatements.currency, sellerBalances.currency),
+        eq(sellerStatements.periodType, "monthly"),
+        eq(sellerStatements.periodStart, period.start)
+      )
+    );
+
+  const pending = wallets.filter((w) => !w.pdfUrl || !w.emailedAt);
+  results.skipped = wallets.length - pending.length;
+
+  for (const wallet of pending.slice(0, limit)) {
+    try {
+      // Wallets with nothing to report don't get a statement
+      if (!wallet.statementId) {
+        const { openingBalance, transactionCount } = await computeStatement(
+          wallet.storeId,
+          wallet.currency,
+          period.start,
+          period.end
+        );
+        if (openingBalance === 0 && transactionCount === 0) {
+          results.skipped++;
+          continue;
+        }
+      }
+
+      await generateSellerStatement({
+        storeId: wallet.storeId,
+        currency: wallet.currency,
+        periodType: "monthly",
+        period,
+        email: true,
+      });
+      results.generated++;
+    } catch (error) {
+      results.errors.push(
+        `Store ${wallet.storeId} (${wallet.currency}): ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+  }
+
+  return results;
+}
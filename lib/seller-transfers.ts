@@ -0,0 +1,83 @@
+import { db } from "@/db";
+import { orderPayments, store } from "@/db/schema";
+import { eq } from "drizzle-orm";
+import { stripe } from "@/lib/stripe";
+import { postStripeTransferJournal } from "@/lib/ledger";
+
+/**
+ * Separate charges + transfers: move the seller's share of a held Stripe
+ * payment from the platform to the store's connected account. Payments that
+ * are not held (already transferred, frozen by a dispute), eSewa payments and
+ * stores without Stripe are skipped with a reason. Stripe errors are thrown.
+ */
+export async function transferOrderPaymentToStore(
+  orderPaymentId: string,
+  storeId: string
+): Promise<{ transferred: boolean; transferId?: string; reason?: string }> {
+  const [op] = await db
+    .select()
+    .from(orderPayments)
+    .where(eq(orderPayments.id, orderPaymentId))
+    .limit(1);
+  if (!op || op.transferStatus !== "held") {
+    return { transferred: false, reason: "not_held" };
+  }
+  if (op.provider === "esewa") {
+    return { transferred: false, reason: "esewa" };
+  }
+  const netAmount = parseFloat(op.netAmountToStore || "0");
+  if (netAmount <= 0) {
+    return { transferred: false, reason: "no_amount" };
+  }
+
+  const [storeRow] = await db
+    .select()
+    .from(store)
+    .where(eq(store.id, storeId))
+    .limit(1);
+  if (!storeRow?.stripeAccountId) {
+    return { transferred: false, reason: "no_stripe_account" };
+  }
+
+  let chargeId = op.stripeChargeId;
+  if (!chargeId && op.stripePaymentIntentId) {
+    const pi = await stripe.paymentIntents.retrieve(op.stripePaymentIntentId);
+    chargeId =
+      typeof pi.latest_charge === "string"
+        ? pi.latest_charge
+        : (pi.latest_charge?.id ?? null);
+  }
+  if (!chargeId) {
+    return { transferred: false, reason: "no_charge" };
+  }
+
+  const transfer = await stripe.transfers.create({
+    amount: Math.round(netAmount * 100),
+    currency: op.currency.toLowerCase(),
+    destination: storeRow.stripeAccountId,
+    source_transaction: chargeId,
+  });
+  await db
+    .update(orderPayments)
+    .set({
+      transferStatus: "transferred",
+      stripeTransferId: transfer.id,
+      updatedAt: new Date(),
+    })
+    .where(eq(orderPayments.id, op.id));
+
+  // The transfer went through; a failed posting is caught up by the reconcile cron
+  try {
+    await postStripeTransferJournal({
+      transferId: transfer.id,
+      amount: transfer.amount / 100,
+      currency: transfer.currency,
+      storeId,
+      orderId: op.orderId,
+    });
+  } catch (error) {
+    console.error("[Ledger] Failed to post transfer journal entry:", error);
+  }
+
+  return { transferred: true, transferId: transfer.id };
+}
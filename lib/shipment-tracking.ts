@@ -0,0 +1,405 @@
+/**
+ * Shipment tracking: EasyShip webhooks (and the tracking cron, for webhooks
+ * that never arrive) feed carrier checkpoints into fulfillments. Status
+ * changes are added to the customer-visible order timeline, key milestones
+ * are emailed, and orders are marked delivered once every tracked shipment
+ * has arrived.
+ */
+
+import { db } from "@/db";
+import {
+  fulfillments,
+  orderEvents,
+  orders,
+  type Fulfillment,
+} from "@/db/schema";
+import { and, eq, gte, isNotNull, isNull, lt, or } from "drizzle-orm";
+import {
+  generateTrackingUrl,
+  getEasyshipTracking,
+  type EasyShipCheckpoint,
+  type EasyShipTracking,
+} from "@/lib/easyship";
+
+export type TrackingStatus =
+  | "pending"
+  | "in_transit"
+  | "out_for_delivery"
+  | "delivered"
+  | "exception";
+
+/** Shape of fulfillments.trackingData */
+export type StoredTrackingData = {
+  tracking_details?: Array<{
+    datetime: string;
+    message: string;
+    status?: string;
+    city?: string;
+    state?: string;
+    zip?: string;
+    country?: string;
+  }>;
+  est_delivery_date?: string;
+};
+
+const TRACKING_STATUS_LABELS: Record<TrackingStatus, string> = {
+  pending: "Label created",
+  in_transit: "In transit",
+  out_for_delivery: "Out for delivery",
+  delivered: "Delivered",
+  exception: "Delivery exception",
+};
+
+// Milestones the customer is emailed about
+const NOTIFY_STATUSES: TrackingStatus[] = [
+  "in_transit",
+  "out_for_delivery",
+  "delivered",
+  "exception",
+];
+
+const MILESTONE_SUBJECTS: Record<TrackingStatus, string> = {
+  pending: "Shipping label created",
+  in_transit: "is on its way",
+  out_for_delivery: "is out for delivery",
+  delivered: "has been delivered",
+  exception: "has a delivery problem",
+};
+
+// Shipments older than this are no longer polled
+const TRACKING_MAX_AGE_DAYS = 60;
+
+/**
+ * Map an EasyShip/carrier status ("In Transit", "Out for Delivery",
+ * "Failed Attempt", ...) to one of our tracking statuses
+ */
+export function normalizeTrackingStatus(
+  raw: string | null | undefined
+): TrackingStatus | null {
+  if (!raw) return null;
+  const status = raw
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z]+/g, "_");
+
+  if (status.includes("out_for_delivery")) return "out_for_delivery";
+  if (status.includes("delivered")) return "delivered";
+  if (
+    status.includes("exception") ||
+    status.includes("failed") ||
+    status.includes("expired") ||
+    status.includes("lost") ||
+    status.includes("returned")
+  ) {
+    return "exception";
+  }
+  if (status.includes("transit") || status.includes("picked_up")) {
+    return "in_transit";
+  }
+  if (status.includes("pending") || status.includes("info_received")) {
+    return "pending";
+  }
+  return null;
+}
+
+export function getTrackingStatusLabel(status: string | null): string {
+  if (!status) return TRACKING_STATUS_LABELS.in_transit;
+  return TRACKING_STATUS_LABELS[status as TrackingStatus] ?? status;
+}
+
+function mergeCheckpoints(
+  existing: NonNullable<StoredTrackingData["tracking_details"]>,
+  incoming: EasyShipCheckpoint[]
+) {
+  const byKey = new Map(existing.map((d) => [`${d.datetime}|${d.message}`, d]));
+  for (const c of incoming) {
+    byKey.set(`${c.checkpoint_time}|${c.message}`, {
+      datetime: c.checkpoint_time,
+      message: c.message,
+      status: c.status,
+      city: c.city,
+      state: c.state,
+      zip: c.postal_code,
+      country: c.country,
+    });
+  }
+  return Array.from(byKey.values()).sort(
+    (a, b) => new Date(a.datetime).getTime() - new Date(b.datetime).getTime()
+  );
+}
+
+/**
+ * Apply an EasyShip tracking update to every fulfillment of the shipment.
+ * Returns the number of fulfillments whose status changed.
+ */
+export async function applyEasyshipTracking(
+  tracking: EasyShipTracking
+): Promise<number> {
+  const rows = await db
+    .select()
+    .from(fulfillments)
+    .where(eq(fulfillments.easypostShipmentId, tracking.easyship_shipment_id));
+
+  let changed = 0;
+  for (const fulfillment of rows) {
+    if (await applyToFulfillment(fulfillment, tracking)) changed++;
+  }
+  return changed;
+}
+
+async function applyToFulfillment(
+  fulfillment: Fulfillment,
+  tracking: EasyShipTracking
+): Promise<boolean> {
+  const stored = (fulfillment.trackingData as StoredTrackingData | null) ?? {};
+  const details = mergeCheckpoints(
+    stored.tracking_details ?? [],
+    tracking.checkpoints
+  );
+  const latest = details[details.length - 1];
+  const status =
+    normalizeTrackingStatus(tracking.status) ??
+    normalizeTrackingStatus(latest?.status);
+  const now = new Date();
+
+  await db
+    .update(fulfillments)
+    .set({
+      trackingData: {
+        ...stored,
+        tracking_details: details,
+        est_delivery_date:
+          tracking.estimated_delivery_date ?? stored.est_delivery_date,
+      },
+      lastTrackedAt: now,
+      ...(!fulfillment.trackingNumber && tracking.tracking_number
+        ? { trackingNumber: tracking.tracking_number }
+        : {}),
+    })
+    .where(eq(fulfillments.id, fulfillment.id));
+
+  if (!status || status === fulfillment.trackingStatus) return false;
+
+  // Claim the status change so a webhook and the cron don't both announce it
+  const claimed = await db
+    .update(fulfillments)
+    .set({
+      trackingStatus: status,
+      deliveredAt:
+        status === "delivered"
+          ? (fulfillment.deliveredAt ??
+            (latest ? new Date(latest.datetime) : now))
+          : fulfillment.deliveredAt,
+    })
+    .where(
+      and(
+        eq(fulfillments.id, fulfillment.id),
+        fulfillment.trackingStatus
+          ? eq(fulfillments.trackingStatus, fulfillment.trackingStatus)
+          : isNull(fulfillments.trackingStatus)
+      )
+    )
+    .returning({ id: fulfillments.id });
+
+  if (claimed.length === 0 || !fulfillment.orderId) return claimed.length > 0;
+
+  const label = getTrackingStatusLabel(status);
+  await db.insert(orderEvents).values({
+    orderId: fulfillment.orderId,
+    type: "fulfillment",
+    visibility: "customer",
+    message: latest?.message ? `${label}: ${latest.message}` : label,
+    metadata: {
+      fulfillmentId: fulfillment.id,
+      carrier: fulfillment.carrier,
+      trackingNumber: fulfillment.trackingNumber ?? tracking.tracking_number,
+      trackingStatus: status,
+      checkpointTime: latest?.datetime ?? null,
+    },
+    createdBy: null,
+  });
+
+  if (status === "delivered") {
+    await markOrderDeliveredIfComplete(fulfillment.orderId);
+  }
+
+  if (NOTIFY_STATUSES.includes(status)) {
+    try {
+      await sendTrackingMilestoneEmail(fulfillment, status, latest?.message);
+    } catch (error) {
+      console.error("[Tracking] Failed to send milestone email:", error);
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Set orders.deliveredAt once the order is fully fulfilled and every
+ * shipment with a tracking number has been delivered
+ */
+async function markOrderDeliveredIfComplete(orderId: string) {
+  const [order] = await db
+    .select({
+      fulfillmentStatus: orders.fulfillmentStatus,
+      deliveredAt: orders.deliveredAt,
+    })
+    .from(orders)
+    .where(eq(orders.id, orderId))
+    .limit(1);
+
+  if (!order || order.deliveredAt || order.fulfillmentStatus !== "fulfilled") {
+    return;
+  }
+
+  const shipments = (
+    await db
+      .select({
+        trackingNumber: fulfillments.trackingNumber,
+        deliveredAt: fulfillments.deliveredAt,
+      })
+      .from(fulfillments)
+      .where(eq(fulfillments.orderId, orderId))
+  ).filter((s) => s.trackingNumber);
+
+  if (shipments.length === 0 || shipments.some((s) => !s.deliveredAt)) {
+    return;
+  }
+
+  const deliveredAt = new Date(
+    Math.max(...shipments.map((s) => s.deliveredAt!.getTime()))
+  );
+  const updated = await db
+    .update(orders)
+    .set({ deliveredAt })
+    .where(and(eq(orders.id, orderId), isNull(orders.deliveredAt)))
+    .returning({ id: orders.id });
+
+  // Single-shipment orders already got a "Delivered" timeline entry
+  if (updated.length > 0 && shipments.length > 1) {
+    await db.insert(orderEvents).values({
+      orderId,
+      type: "fulfillment",
+      visibility: "customer",
+      message: "All shipments delivered",
+      metadata: { deliveredAt: deliveredAt.toISOString() },
+      createdBy: null,
+    });
+  }
+}
+
+async function sendTrackingMilestoneEmail(
+  fulfillment: Fulfillment,
+  status: TrackingStatus,
+  statusDetail: string | undefined
+) {
+  if (!fulfillment.orderId || !fulfillment.trackingNumber) return;
+
+  const [order] = await db
+    .select({
+      orderNumber: orders.orderNumber,
+      customerEmail: orders.customerEmail,
+      customerFirstName: orders.customerFirstName,
+      customerLastName: orders.customerLastName,
+      trackingToken: orders.trackingToken,
+    })
+    .from(orders)
+    .where(eq(orders.id, fulfillment.orderId))
+    .limit(1);
+
+  if (!order?.customerEmail) return;
+
+  const resend = (await import("@/lib/resend")).default;
+  const TrackingNotificationEmail = (
+    await import("@/app/[locale]/components/tracking-notification-email")
+  ).default;
+
+  const trackingUrl = order.trackingToken
+    ? `${process.env.NEXT_PUBLIC_APP_URL}/track/${order.trackingToken}`
+    : fulfillment.trackingUrl ||
+      generateTrackingUrl(
+        fulfillment.carrier || "",
+        fulfillment.trackingNumber
+      );
+  const customerName =
+    order.customerFirstName && order.customerLastName
+      ? `${order.customerFirstName} ${order.customerLastName}`
+      : order.customerEmail;
+  const stored = fulfillment.trackingData as StoredTrackingData | null;
+
+  const { error } = await resend.emails.send({
+    from:
+      process.env.RESEND_FROM_EMAIL ||
+      "Golden Market <goldenmarket@resend.dev>",
+    to: order.customerEmail,
+    subject: `Your Order #${order.orderNumber} ${MILESTONE_SUBJECTS[status]}`,
+    react: TrackingNotificationEmail({
+      milestone: status === "pending" ? "shipped" : status,
+      statusDetail,
+      orderNumber: order.orderNumber,
+      customerName,
+      trackingUrl,
+      carrier: fulfillment.carrier || "Carrier",
+      trackingNumber: fulfillment.trackingNumber,
+      estimatedDelivery:
+        status === "delivered" ? undefined : stored?.est_delivery_date,
+    }),
+  });
+  if (error) {
+    throw new Error(error.message);
+  }
+}
+
+/**
+ * Poll EasyShip for shipments that haven't reported in `staleHours`.
+ * Fallback for missed webhooks, run by the track-shipments cron.
+ */
+export async function pollTrackingUpdates(options: {
+  staleHours: number;
+  limit: number;
+}) {
+  const now = Date.now();
+  const staleBefore = new Date(now - options.staleHours * 60 * 60 * 1000);
+  const shippedAfter = new Date(
+    now - TRACKING_MAX_AGE_DAYS * 24 * 60 * 60 * 1000
+  );
+
+  const candidates = await db
+    .select({ shipmentId: fulfillments.easypostShipmentId })
+    .from(fulfillments)
+    .where(
+      and(
+        isNotNull(fulfillments.easypostShipmentId),
+        isNull(fulfillments.deliveredAt),
+        gte(fulfillments.fulfilledAt, shippedAfter),
+        or(
+          isNull(fulfillments.lastTrackedAt),
+          lt(fulfillments.lastTrackedAt, staleBefore)
+        )
+      )
+    )
+    .orderBy(fulfillments.lastTrackedAt)
+    .limit(options.limit);
+
+  const shipmentIds = Array.from(
+    new Set(
+      candidates.map((c) => c.shipmentId).filter((id): id is string => !!id)
+    )
+  );
+
+  const results = { checked: 0, changed: 0, errors: [] as string[] };
+  for (const shipmentId of shipmentIds) {
+    try {
+      const tracking = await getEasyshipTracking(shipmentId);
+      results.checked++;
+      if (!tracking) continue;
+      results.changed += await applyEasyshipTracking(tracking);
+    } catch (error) {
+      console.error(`[Tracking] Polling ${shipmentId} failed:`, error);
+      results.errors.push(
+        `${shipmentId}: ${error instanceof Error ? error.message : "Unknown error"}`
+      );
+    }
+  }
+  return results;
+}
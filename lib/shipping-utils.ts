@@ -43,3 +43,63 @@ export function metersToInches(m: number): number {
 export function inchesToCentimeters(inches: number): number {
   return Math.round(inches / 0.393701);
 }
+
+/**
+ * Dimensional weight in ounces: box volume (L x W x H) / divisor (in³ per
+ * lb), rounded up to the next whole pound as carriers do
+ */
+export function dimensionalWeightOz(
+  volumeIn3: number,
+  divisor: number
+): number {
+  if (divisor <= 0) return 0;
+  return Math.ceil(volumeIn3 / divisor) * 16;
+}
+
+export interface PackageDimensions {
+  lengthIn: number;
+  widthIn: number;
+  heightIn: number;
+  weightOz: number;
+  isDefault?: boolean;
+}
+
+/**
+ * Smallest package that holds the contents' volume and longest side,
+ * falling back to the default (or largest) package when none fits
+ */
+export function selectPackageForContents<T extends PackageDimensions>(
+  packages: T[],
+  contents: { volumeIn3: number; longestSideIn: number }
+): T | null {
+  if (packages.length === 0) return null;
+
+  const volume = (p: T) => p.lengthIn * p.widthIn * p.heightIn;
+  const bySize = [...packages].sort((a, b) => volume(a) - volume(b));
+  const fitting = bySize.find(
+    (p) =>
+      volume(p) >= contents.volumeIn3 &&
+      Math.max(p.lengthIn, p.widthIn, p.heightIn) >= contents.longestSideIn
+  );
+
+  return (
+    fitting ?? packages.find((p) => p.isDefault) ?? bySize[bySize.length - 1]
+  );
+}
+
+/**
+ * Whether a billable weight falls in a rate's bracket: from min (inclusive)
+ * up to max (exclusive), so adjacent brackets neither overlap nor leave gaps
+ * and a weightless cart matches a bracket starting at 0. A missing bound is
+ * open.
+ */
+export function isInWeightBracket(
+  weightOz: number,
+  minWeightOz: number | null,
+  maxWeightOz: number | null
+): boolean {
+  return (
+    (minWeightOz === null || weightOz >= minWeightOz) &&
+    (maxWeightOz === null || weightOz < maxWeightOz)
+  );
+}
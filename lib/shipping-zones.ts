@@ -0,0 +1,232 @@
+/**
+ * Shipping zones.
+ *
+ * Resolves which destination of a shipping profile applies to an address.
+ * Destinations target a country, an admin-defined zone (shipping_zones,
+ * referenced by code from shipping_destinations.region_code) or everywhere
+ * else. The most specific match wins:
+ * postal codes > region > country > country zone > everywhere else,
+ * and an excluded winner means the profile does not ship there.
+ */
+
+import { db } from "@/db";
+import { shippingZones } from "@/db/schema";
+import { and, eq, inArray } from "drizzle-orm";
+
+export type ShippingZoneType = "countries" | "regions" | "postal_codes";
+
+export interface ShippingAddress {
+  country: string; // ISO 3166-1 alpha-2
+  region?: string | null; // State/province code
+  postalCode?: string | null;
+}
+
+export interface ShippingZoneDefinition {
+  code: string;
+  zoneType: ShippingZoneType;
+  countryCodes: string[];
+  regionCodes: string[];
+  postalCodeRanges: string[];
+}
+
+export interface DestinationCandidate {
+  destinationType: string;
+  countryCode: string | null;
+  regionCode: string | null;
+  excluded: boolean | null;
+}
+
+// Lower is more specific
+const ZONE_TYPE_RANK: Record<ShippingZoneType, number> = {
+  postal_codes: 1,
+  regions: 2,
+  countries: 4,
+};
+const COUNTRY_RANK = 3;
+const EVERYWHERE_ELSE_RANK = 5;
+
+export function normalizeZoneCode(code: string | null | undefined): string {
+  return (code ?? "").trim().toUpperCase();
+}
+
+export function normalizePostalCode(code: string | null | undefined): string {
+  return (code ?? "").toUpperCase().replace(/[\s-]+/g, "");
+}
+
+/**
+ * Whether a postal code falls in one of the ranges. A range is a prefix
+ * ("995") or two prefixes of equal length ("99500-99999"), compared on the
+ * leading characters of the postal code.
+ */
+export function postalCodeInRanges(
+  postalCode: string | null | undefined,
+  ranges: string[]
+): boolean {
+  const code = normalizePostalCode(postalCode);
+  if (!code) return false;
+
+  return ranges.some((range) => {
+    const [from, to] = range.split("-").map(normalizePostalCode);
+    if (!from) return false;
+    if (!to) return code.startsWith(from);
+    const prefix = code.slice(0, from.length);
+    return prefix.length === from.length && prefix >= from && prefix <= to;
+  });
+}
+
+export function zoneMatchesAddress(
+  zone: ShippingZoneDefinition,
+  address: ShippingAddress
+): boolean {
+  const country = normalizeZoneCode(address.country);
+  if (!zone.countryCodes.some((c) => normalizeZoneCode(c) === country)) {
+    return false;
+  }
+
+  switch (zone.zoneType) {
+    case "countries":
+      return true;
+    case "regions": {
+      const region = normalizeZoneCode(address.region);
+      return (
+        !!region &&
+        zone.regionCodes.some((r) => normalizeZoneCode(r) === region)
+      );
+    }
+    case "postal_codes":
+      return postalCodeInRanges(address.postalCode, zone.postalCodeRanges);
+  }
+}
+
+function destinationRank(
+  destination: DestinationCandidate,
+  address: ShippingAddress,
+  zones: Map<string, ShippingZoneDefinition>
+): number | null {
+  switch (destination.destinationType) {
+    case "country":
+      return normalizeZoneCode(destination.countryCode) ===
+        normalizeZoneCode(address.country)
+        ? COUNTRY_RANK
+        : null;
+    case "region": {
+      const zone = zones.get(normalizeZoneCode(destination.regionCode));
+      return zone && zoneMatchesAddress(zone, address)
+        ? ZONE_TYPE_RANK[zone.zoneType]
+        : null;
+    }
+    case "everywhere_else":
+      return EVERYWHERE_ELSE_RANK;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Pick the destination that applies to an address: the most specific match,
+ * with an exclusion winning a tie. Returns null when nothing matches or the
+ * address is excluded.
+ */
+export function resolveShippingDestination<T extends DestinationCandidate>(
+  destinations: T[],
+  address: ShippingAddress,
+  zones: Map<string, ShippingZoneDefinition>
+): T | null {
+  let best: { destination: T; rank: number } | null = null;
+
+  for (const destination of destinations) {
+    const rank = destinationRank(destination, address, zones);
+    if (rank === null) continue;
+    if (
+      !best ||
+      rank < best.rank ||
+      (rank === best.rank && destination.excluded && !best.destination.excluded)
+    ) {
+      best = { destination, rank };
+    }
+  }
+
+  if (!best || best.destination.excluded) return null;
+  return best.destination;
+}
+
+/**
+ * Whether a region or postal code destination could apply to some address in
+ * the country, for checks that only know the buyer's country. Exclusions are
+ * ignored: part of the country may still be shippable.
+ */
+export function hasPartialCountryDestination(
+  destinations: DestinationCandidate[],
+  country: string,
+  zones: Map<string, ShippingZoneDefinition>
+): boolean {
+  const code = normalizeZoneCode(country);
+  return destinations.some((destination) => {
+    if (destination.destinationType !== "region" || destination.excluded) {
+      return false;
+    }
+    const zone = zones.get(normalizeZoneCode(destination.regionCode));
+    return (
+      !!zone &&
+      zone.zoneType !== "countries" &&
+      zone.countryCodes.some((c) => normalizeZoneCode(c) === code)
+    );
+  });
+}
+
+/**
+ * Load active zones by code. Inactive or unknown codes are left out, so
+ * destinations pointing at them never match.
+ */
+export async function loadShippingZones(
+  codes: Array<string | null>
+): Promise<Map<string, ShippingZoneDefinition>> {
+  const wanted = Array.from(
+    new Set(codes.map(normalizeZoneCode).filter(Boolean))
+  );
+  if (wanted.length === 0) return new Map();
+
+  const rows = await db
+    .select({
+      code: shippingZones.code,
+      zoneType: shippingZones.zoneType,
+      countryCodes: shippingZones.countryCodes,
+      regionCodes: shippingZones.regionCodes,
+      postalCodeRanges: shippingZones.postalCodeRanges,
+    })
+    .from(shippingZones)
+    .where(
+      and(inArray(shippingZones.code, wanted), eq(shippingZones.isActive, true))
+    );
+
+  return new Map(
+    rows.map((z) => [
+      normalizeZoneCode(z.code),
+      {
+        code: z.code,
+        zoneType: z.zoneType as ShippingZoneType,
+        countryCodes: Array.isArray(z.countryCodes) ? z.countryCodes : [],
+        regionCodes: Array.isArray(z.regionCodes) ? z.regionCodes : [],
+        postalCodeRanges: Array.isArray(z.postalCodeRanges)
+          ? z.postalCodeRanges
+          : [],
+      },
+    ])
+  );
+}
+
+/**
+ * Resolve a profile's destinations for an address, loading the zones its
+ * "region" destinations refer to
+ */
+export async function findShippingDestination<T extends DestinationCandidate>(
+  destinations: T[],
+  address: ShippingAddress
+): Promise<T | null> {
+  const zones = await loadShippingZones(
+    destinations
+      .filter((d) => d.destinationType === "region")
+      .map((d) => d.regionCode)
+  );
+  return resolveShippingDestination(destinations, address, zones);
+}
@@ -0,0 +1,750 @@
+/**
+ * Subscription orders. A customer subscribes to a seller's plan on a listing
+ * (e.g. a monthly honey box): the first delivery is paid through Stripe
+ * Checkout, which also saves the card for off-session use. After that the
+ * process-subscriptions cron creates one regular order per billing cycle,
+ * priced by priceCheckout with the plan discount and reserving stock like a
+ * storefront order, and authorizes the saved card with manual capture so the
+ * seller captures it like any other order. Failed renewals are retried with
+ * backoff before the subscription goes past due.
+ */
+
+import { db } from "@/db";
+import {
+  checkoutGroups,
+  customers,
+  orderEvents,
+  orderItems,
+  orderPayments,
+  orderShipments,
+  orders,
+  subscriptions,
+  type Subscription,
+} from "@/db/schema";
+import { and, eq, isNotNull, lt, lte, sql } from "drizzle-orm";
+import Stripe from "stripe";
+import { stripe } from "@/lib/stripe";
+import { priceCheckout } from "@/lib/pricing";
+import {
+  generateCheckoutNumber,
+  generateOrderNumber,
+} from "@/lib/order-number";
+import {
+  recordCheckoutGroupPayment,
+  sendOrderConfirmationEmail,
+} from "@/lib/checkout-groups";
+import { calculateOrderPlatformFee } from "@/lib/platform-fees";
+
+export type SubscriptionStatus =
+  | "incomplete"
+  | "active"
+  | "paused"
+  | "past_due"
+  | "cancelled";
+
+export type SubscriptionInterval = "week" | "month";
+
+export const SUBSCRIPTION_INTERVALS: SubscriptionInterval[] = [
+  "week",
+  "month",
+];
+
+// Days to wait before retrying a declined renewal, by attempts made
+const RETRY_DELAYS_DAYS = [1, 3];
+const MAX_RENEWAL_ATTEMPTS = RETRY_DELAYS_DAYS.length + 1;
+
+// First checkouts not completed within this window are given up
+const INCOMPLETE_TTL_HOURS = 48;
+
+const RENEWAL_BATCH_SIZE = 50;
+
+// Same estimate the Stripe webhook uses for checkout payments
+const STRIPE_FEE_RATE = 0.029;
+const STRIPE_FEE_FIXED = 0.3;
+
+type Tx = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export interface SubscriptionRenewalResults {
+  renewed: number;
+  failed: number;
+  resumed: number;
+  expired: number;
+  errors: string[];
+}
+
+export function addSubscriptionInterval(
+  from: Date,
+  interval: string,
+  intervalCount: number
+): Date {
+  const next = new Date(from);
+  if (interval === "week") {
+    next.setUTCDate(next.getUTCDate() + 7 * intervalCount);
+  } else {
+    next.setUTCMonth(next.getUTCMonth() + intervalCount);
+  }
+  return next;
+}
+
+/**
+ * The subscriber's customer record for the store (created on first order)
+ */
+async function findOrCreateCustomer(
+  tx: Tx,
+  subscription: Subscription
+): Promise<string> {
+  const [existing] = await tx
+    .select({ id: customers.id })
+    .from(customers)
+    .where(
+      and(
+        eq(customers.userId, subscription.userId),
+        eq(customers.storeId, subscription.storeId)
+      )
+    )
+    .limit(1);
+  if (existing) return existing.id;
+
+  const [firstName, ...lastName] = (subscription.shippingName || "")
+    .trim()
+    .split(/\s+/);
+  const [created] = await tx
+    .insert(customers)
+    .values({
+      storeId: subscription.storeId,
+      userId: subscription.userId,
+      email: subscription.customerEmail,
+      firstName: firstName || null,
+      lastName: lastName.join(" ") || null,
+      phone: subscription.shippingPhone,
+    })
+    .returning({ id: customers.id });
+  return created.id;
+}
+
+/**
+ * Create the order for one billing cycle: server-priced with the plan
+ * discount, stock reserved, shipping snapshotted. Throws PricingError or an
+ * "Insufficient inventory" error when the cycle can't be fulfilled.
+ */
+export async function createSubscriptionOrder(
+  subscription: Subscription,
+  cycle: number
+): Promise<{
+  orderId: string;
+  orderNumber: string;
+  totalAmount: number;
+  currency: string;
+}> {
+  const priced = await priceCheckout({
+    currency: subscription.currency,
+    lineItems: [
+      {
+        listingId: subscription.listingId,
+        variantId: subscription.variantId,
+        quantity: subscription.quantity,
+      },
+    ],
+    customerEmail: subscription.customerEmail,
+    shippingCountry: subscription.shippingCountry,
+    shippingRegion: subscription.shippingRegion,
+    shippingPostalCode: subscription.shippingPostalCode,
+    subscriptionDiscountPercent: parseFloat(subscription.discountPercent),
+  });
+
+  const pricedStore = priced.stores[0];
+  if (!pricedStore || pricedStore.storeId !== subscription.storeId) {
+    throw new Error("The subscribed product is no longer sold by this store");
+  }
+
+  return await db.transaction(async (tx) => {
+    const checkoutNumber = await generateCheckoutNumber();
+    const [checkoutGroup] = await tx
+      .insert(checkoutGroups)
+      .values({
+        checkoutNumber,
+        userId: subscription.userId,
+        customerEmail: subscription.customerEmail,
+        currency: priced.currency,
+        subtotalAmount: priced.subtotal.toFixed(2),
+        discountAmount: priced.discount.toFixed(2),
+        shippingAmount: priced.shipping.toFixed(2),
+        taxAmount: priced.tax.toFixed(2),
+        taxInclusive: priced.taxInclusive,
+        totalAmount: priced.total.toFixed(2),
+      })
+      .returning({ id: checkoutGroups.id });
+
+    const customerId = await findOrCreateCustomer(tx, subscription);
+    const [firstName, ...lastName] = (subscription.shippingName || "")
+      .trim()
+      .split(/\s+/);
+
+    const [order] = await tx
+      .insert(orders)
+      .values({
+        orderNumber: await generateOrderNumber(),
+        storeId: subscription.storeId,
+        customerId,
+        checkoutGroupId: checkoutGroup.id,
+        subscriptionId: subscription.id,
+        subscriptionCycle: cycle,
+        customerEmail: subscription.customerEmail,
+        customerFirstName: firstName || null,
+        customerLastName: lastName.join(" ") || null,
+        currency: priced.currency,
+        subtotalAmount: pricedStore.subtotal.toFixed(2),
+        discountAmount: pricedStore.discount.toFixed(2),
+        discountTotal: pricedStore.discount.toFixed(2),
+        shippingAmount: pricedStore.shipping.toFixed(2),
+        taxAmount: pricedStore.tax.toFixed(2),
+        taxInclusive: priced.taxInclusive,
+        taxBreakdown: pricedStore.taxBreakdown,
+        totalAmount: pricedStore.total.toFixed(2),
+        status: "open", // This reserves inventory
+        paymentStatus: "pending",
+        fulfillmentStatus: "unfulfilled",
+        shippingName: subscription.shippingName,
+        shippingPhone: subscription.shippingPhone,
+        shippingAddressLine1: subscription.shippingAddressLine1,
+        shippingAddressLine2: subscription.shippingAddressLine2,
+        shippingCity: subscription.shippingCity,
+        shippingRegion: subscription.shippingRegion,
+        shippingPostalCode: subscription.shippingPostalCode,
+        shippingCountry: subscription.shippingCountry,
+        shippingService: pricedStore.shippingRate?.serviceName ?? null,
+        notes: `${subscription.planName} – delivery ${cycle}`,
+        placedAt: new Date(),
+      })
+      .returning({ id: orders.id, orderNumber: orders.orderNumber });
+
+    for (const line of pricedStore.lines) {
+      await tx.insert(orderItems).values({
+        orderId: order.id,
+        listingId: line.listingId,
+        variantId: line.variantId,
+        title: line.title,
+        sku: line.sku,
+        quantity: line.quantity,
+        unitPrice: line.unitPrice.toFixed(2),
+        currency: priced.currency,
+        lineSubtotal: line.lineSubtotal.toFixed(2),
+        lineTotal: line.lineTotal.toFixed(2),
+        discountAmount: line.discountAmount.toFixed(2),
+        taxAmount: line.taxAmount.toFixed(2),
+        taxRate: line.taxRate?.toFixed(3) ?? null,
+        taxName: line.taxName,
+      });
+    }
+
+    // Import dynamically to avoid circular dependencies
+    const { adjustInventoryForOrder } = await import(
+      "@/app/[locale]/actions/orders"
+    );
+    const inventoryResult = await adjustInventoryForOrder(
+      pricedStore.lines.map((line) => ({
+        variantId: line.variantId,
+        quantity: line.quantity,
+      })),
+      subscription.storeId,
+      "reserve",
+      "subscription_order_created",
+      order.id,
+      true // Cron and webhook run without a session
+    );
+    if (!inventoryResult.success) {
+      throw new Error(inventoryResult.error || "Failed to adjust inventory");
+    }
+
+    if (pricedStore.shippingRate) {
+      const rate = pricedStore.shippingRate;
+      await tx.insert(orderShipments).values({
+        orderId: order.id,
+        storeId: subscription.storeId,
+        serviceName: rate.serviceName,
+        priceCents: rate.priceCents,
+        currency: rate.currency,
+        rateId: rate.rateId,
+      });
+    }
+
+    return {
+      orderId: order.id,
+      orderNumber: order.orderNumber,
+      totalAmount: pricedStore.total,
+      currency: priced.currency,
+    };
+  });
+}
+
+/**
+ * Cancel a cycle's order that was never paid and give its stock back
+ */
+async function cancelUnpaidSubscriptionOrder(
+  orderId: string,
+  storeId: string,
+  reason: string,
+  paymentStatus: "failed" | "void"
+) {
+  const items = await db
+    .select({ variantId: orderItems.variantId, quantity: orderItems.quantity })
+    .from(orderItems)
+    .where(eq(orderItems.orderId, orderId));
+
+  const { adjustInventoryForOrder } = await import(
+    "@/app/[locale]/actions/orders"
+  );
+  const inventoryResult = await adjustInventoryForOrder(
+    items,
+    storeId,
+    "release",
+    "subscription_order_unpaid",
+    orderId,
+    true
+  );
+  if (!inventoryResult.success) {
+    console.error(
+      `[Subscriptions] Failed to release inventory for order ${orderId}:`,
+      inventoryResult.error
+    );
+  }
+
+  await db
+    .update(orders)
+    .set({
+      status: "canceled",
+      paymentStatus,
+      canceledAt: new Date(),
+      cancellationReason: reason,
+    })
+    .where(eq(orders.id, orderId));
+}
+
+/**
+ * Stripe customer for a subscriber, reused across their subscriptions so
+ * saved cards stay together
+ */
+export async function getOrCreateStripeCustomer(
+  userId: string,
+  email: string
+): Promise<string> {
+  const [existing] = await db
+    .select({ stripeCustomerId: subscriptions.stripeCustomerId })
+    .from(subscriptions)
+    .where(
+      and(
+        eq(subscriptions.userId, userId),
+        isNotNull(subscriptions.stripeCustomerId)
+      )
+    )
+    .limit(1);
+  if (existing?.stripeCustomerId) return existing.stripeCustomerId;
+
+  const customer = await stripe.customers.create({
+    email,
+    metadata: { userId },
+  });
+  return customer.id;
+}
+
+/**
+ * First checkout completed (Stripe webhook): keep the saved card and start
+ * the billing schedule. Safe to call again for webhook retries.
+ */
+export async function activateSubscription(
+  subscriptionId: string,
+  paymentIntent: Stripe.PaymentIntent
+): Promise<void> {
+  const paymentMethodId =
+    typeof paymentIntent.payment_method === "string"
+      ? paymentIntent.payment_method
+      : paymentIntent.payment_method?.id ?? null;
+
+  const [subscription] = await db
+    .select()
+    .from(subscriptions)
+    .where(eq(subscriptions.id, subscriptionId))
+    .limit(1);
+  if (!subscription || subscription.status !== "incomplete") return;
+
+  await db
+    .update(subscriptions)
+    .set({
+      status: "active",
+      stripePaymentMethodId: paymentMethodId,
+      nextBillingAt: addSubscriptionInterval(
+        new Date(),
+        subscription.interval,
+        subscription.intervalCount
+      ),
+    })
+    .where(
+      and(
+        eq(subscriptions.id, subscriptionId),
+        eq(subscriptions.status, "incomplete")
+      )
+    );
+}
+
+/**
+ * Card update completed (setup-mode Checkout Session, Stripe webhook). A
+ * past-due subscription is billed again on the next cron run.
+ */
+export async function saveSubscriptionPaymentMethod(
+  session: Stripe.Checkout.Session
+): Promise<void> {
+  const subscriptionId = session.metadata?.subscriptionId;
+  const setupIntentId =
+    typeof session.setup_intent === "string"
+      ? session.setup_intent
+      : session.setup_intent?.id;
+  if (!subscriptionId || !setupIntentId) return;
+
+  const setupIntent = await stripe.setupIntents.retrieve(setupIntentId);
+  const paymentMethodId =
+    typeof setupIntent.payment_method === "string"
+      ? setupIntent.payment_method
+      : setupIntent.payment_method?.id;
+  if (!paymentMethodId) return;
+
+  const [subscription] = await db
+    .select({ status: subscriptions.status })
+    .from(subscriptions)
+    .where(eq(subscriptions.id, subscriptionId))
+    .limit(1);
+  if (!subscription || subscription.status === "cancelled") return;
+
+  await db
+    .update(subscriptions)
+    .set({
+      stripePaymentMethodId: paymentMethodId,
+      ...(subscription.status === "past_due" && {
+        status: "active",
+        failedAttempts: 0,
+        lastError: null,
+        nextBillingAt: new Date(),
+      }),
+    })
+    .where(eq(subscriptions.id, subscriptionId));
+}
+
+/**
+ * Record an authorized renewal like the webhook records a checkout: a held
+ * order payment with the platform fee snapshot. The seller balance is
+ * credited when the seller captures the payment.
+ */
+async function recordRenewalPayment(
+  orderId: string,
+  paymentIntent: Stripe.PaymentIntent,
+  currency: string
+) {
+  const totalAmount = paymentIntent.amount / 100;
+  const stripeFee = totalAmount * STRIPE_FEE_RATE + STRIPE_FEE_FIXED;
+  const { fee: platformFee, snapshot: platformFeeRule } =
+    await calculateOrderPlatformFee(orderId, totalAmount);
+  const isPaymentCaptured = paymentIntent.status === "succeeded";
+
+  await db.insert(orderPayments).values({
+    orderId,
+    amount: totalAmount.toFixed(2),
+    currency,
+    provider: "stripe",
+    providerPaymentId: paymentIntent.id,
+    platformFeeAmount: platformFee.toFixed(2),
+    platformFeeRule,
+    netAmountToStore: (totalAmount - platformFee - stripeFee).toFixed(2),
+    stripePaymentIntentId: paymentIntent.id,
+    status: "completed",
+    transferStatus: "held",
+  });
+
+  await db.insert(orderEvents).values({
+    orderId,
+    type: "payment",
+    message: "Subscription renewal charged to the saved card",
+    visibility: "internal",
+    metadata: {
+      amount: totalAmount.toFixed(2),
+      currency,
+      platformFee: platformFee.toFixed(2),
+      stripeFee: stripeFee.toFixed(2),
+      provider: "stripe",
+      paymentIntentId: paymentIntent.id,
+    },
+    createdBy: null,
+  });
+
+  await recordCheckoutGroupPayment([orderId], {
+    provider: "stripe",
+    stripePaymentIntentId: paymentIntent.id,
+    paid: isPaymentCaptured,
+  });
+}
+
+async function sendRenewalFailedEmail(
+  subscription: Subscription,
+  error: string,
+  nextRetryAt: Date | null
+) {
+  try {
+    const resend = (await import("@/lib/resend")).default;
+    const SubscriptionPaymentFailedEmail = (
+      await import("@/app/[locale]/components/subscription-payment-failed-email")
+    ).default;
+
+    await resend.emails.send({
+      from:
+        process.env.RESEND_FROM_EMAIL ||
+        "Golden Market <goldenmarket@resend.dev>",
+      to: subscription.customerEmail,
+      subject: nextRetryAt
+        ? `We couldn't charge your ${subscription.planName}`
+        : `Your ${subscription.planName} is on hold`,
+      react: SubscriptionPaymentFailedEmail({
+        planName: subscription.planName,
+        error,
+        nextRetryAt,
+        manageUrl: `${process.env.NEXT_PUBLIC_APP_URL}/account`,
+      }),
+    });
+  } catch (emailError) {
+    console.error(
+      `[Subscriptions] Failed to send renewal failure email for ${subscription.id}:`,
+      emailError
+    );
+  }
+}
+
+/**
+ * Bill one due cycle. The cycle is claimed by advancing current_cycle, so
+ * overlapping cron runs never bill it twice; a failed attempt hands the
+ * cycle back for the retry.
+ */
+async function renewSubscription(
+  subscription: Subscription
+): Promise<"renewed" | "failed" | "skipped"> {
+  const cycle = subscription.currentCycle + 1;
+  const dueAt = subscription.nextBillingAt ?? new Date();
+
+  const [claimed] = await db
+    .update(subscriptions)
+    .set({
+      currentCycle: cycle,
+      nextBillingAt: addSubscriptionInterval(
+        dueAt,
+        subscription.interval,
+        subscription.intervalCount
+      ),
+    })
+    .where(
+      and(
+        eq(subscriptions.id, subscription.id),
+        eq(subscriptions.status, "active"),
+        eq(subscriptions.currentCycle, subscription.currentCycle)
+      )
+    )
+    .returning();
+  if (!claimed) return "skipped";
+
+  let orderId: string | null = null;
+  let paymentIntentId: string | null = null;
+  try {
+    if (!subscription.stripeCustomerId || !subscription.stripePaymentMethodId) {
+      throw new Error("No saved payment method");
+    }
+
+    const order = await createSubscriptionOrder(subscription, cycle);
+    orderId = order.orderId;
+
+    const paymentIntent = await stripe.paymentIntents.create(
+      {
+        amount: Math.round(order.totalAmount * 100),
+        currency: order.currency.toLowerCase(),
+        customer: subscription.stripeCustomerId,
+        payment_method: subscription.stripePaymentMethodId,
+        off_session: true,
+        confirm: true,
+        capture_method: "manual", // Seller captures, as for checkout orders
+        description: `${subscription.planName} – order ${order.orderNumber}`,
+        metadata: {
+          orderId: order.orderId,
+          storeId: subscription.storeId,
+          subscriptionId: subscription.id,
+        },
+      },
+      {
+        idempotencyKey: `subscription-renewal:${subscription.id}:${cycle}:${subscription.failedAttempts}`,
+      }
+    );
+    paymentIntentId = paymentIntent.id;
+
+    if (
+      paymentIntent.status !== "requires_capture" &&
+      paymentIntent.status !== "succeeded"
+    ) {
+      throw new Error(
+        paymentIntent.status === "requires_action"
+          ? "Your bank asked to confirm the payment"
+          : `Payment ${paymentIntent.status.replace(/_/g, " ")}`
+      );
+    }
+
+    await recordRenewalPayment(order.orderId, paymentIntent, order.currency);
+    await db
+      .update(subscriptions)
+      .set({ lastOrderId: order.orderId, failedAttempts: 0, lastError: null })
+      .where(eq(subscriptions.id, subscription.id));
+
+    try {
+      await sendOrderConfirmationEmail([order.orderId]);
+    } catch (emailError) {
+      console.error(
+        `[Subscriptions] Failed to send confirmation for ${order.orderId}:`,
+        emailError
+      );
+    }
+
+    return "renewed";
+  } catch (error) {
+    const stripeError = error as Stripe.errors.StripeError;
+    paymentIntentId ??= stripeError.payment_intent?.id ?? null;
+    const message =
+      error instanceof Error ? error.message : "Subscription renewal failed";
+
+    if (paymentIntentId) {
+      try {
+        await stripe.paymentIntents.cancel(paymentIntentId);
+      } catch {
+        // Declined intents may already be unusable; nothing to void then
+      }
+    }
+    if (orderId) {
+      await cancelUnpaidSubscriptionOrder(
+        orderId,
+        subscription.storeId,
+        `Subscription payment failed: ${message}`,
+        "failed"
+      );
+    }
+
+    const attempts = subscription.failedAttempts + 1;
+    const retryDelayDays = RETRY_DELAYS_DAYS[attempts - 1];
+    const nextRetryAt =
+      attempts < MAX_RENEWAL_ATTEMPTS
+        ? new Date(Date.now() + retryDelayDays * 24 * 60 * 60 * 1000)
+        : null;
+
+    await db
+      .update(subscriptions)
+      .set({
+        currentCycle: subscription.currentCycle,
+        nextBillingAt: nextRetryAt ?? subscription.nextBillingAt,
+        failedAttempts: attempts,
+        lastError: message,
+        ...(nextRetryAt === null && { status: "past_due" }),
+      })
+      .where(eq(subscriptions.id, subscription.id));
+
+    await sendRenewalFailedEmail(subscription, message, nextRetryAt);
+    throw error;
+  }
+}
+
+/**
+ * Cron entry point: resume subscriptions whose pause ended, give up stale
+ * first checkouts, then bill every due cycle.
+ */
+export async function runSubscriptionRenewals(): Promise<SubscriptionRenewalResults> {
+  const now = new Date();
+  const results: SubscriptionRenewalResults = {
+    renewed: 0,
+    failed: 0,
+    resumed: 0,
+    expired: 0,
+    errors: [],
+  };
+
+  const resumed = await db
+    .update(subscriptions)
+    .set({
+      status: "active",
+      pausedAt: null,
+      resumeAt: null,
+      nextBillingAt: sql`GREATEST(${subscriptions.nextBillingAt}, ${now})`,
+    })
+    .where(
+      and(
+        eq(subscriptions.status, "paused"),
+        isNotNull(subscriptions.resumeAt),
+        lte(subscriptions.resumeAt, now)
+      )
+    )
+    .returning({ id: subscriptions.id });
+  results.resumed = resumed.length;
+
+  const expired = await db
+    .update(subscriptions)
+    .set({
+      status: "cancelled",
+      cancelledAt: now,
+      cancelReason: "Checkout not completed",
+    })
+    .where(
+      and(
+        eq(subscriptions.status, "incomplete"),
+        lt(
+          subscriptions.createdAt,
+          new Date(now.getTime() - INCOMPLETE_TTL_HOURS * 60 * 60 * 1000)
+        )
+      )
+    )
+    .returning({ id: subscriptions.id, storeId: subscriptions.storeId });
+  results.expired = expired.length;
+
+  for (const subscription of expired) {
+    const abandonedOrders = await db
+      .select({ id: orders.id })
+      .from(orders)
+      .where(
+        and(
+          eq(orders.subscriptionId, subscription.id),
+          eq(orders.status, "open"),
+          eq(orders.paymentStatus, "pending")
+        )
+      );
+    for (const order of abandonedOrders) {
+      await cancelUnpaidSubscriptionOrder(
+        order.id,
+        subscription.storeId,
+        "Subscription checkout not completed",
+        "void"
+      );
+    }
+  }
+
+  const due = await db
+    .select()
+    .from(subscriptions)
+    .where(
+      and(
+        eq(subscriptions.status, "active"),
+        lte(subscriptions.nextBillingAt, now)
+      )
+    )
+    .orderBy(subscriptions.nextBillingAt)
+    .limit(RENEWAL_BATCH_SIZE);
+
+  for (const subscription of due) {
+    try {
+      const outcome = await renewSubscription(subscription);
+      if (outcome === "renewed") results.renewed++;
+    } catch (error) {
+      results.failed++;
+      results.errors.push(
+        `${subscription.id}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  return results;
+}
@@ -0,0 +1,278 @@
+/**
+ * Tax engine.
+ *
+ * Resolves admin-managed tax rules (tax_rules) for a destination country /
+ * region, picks the most specific rule per product taxonomy category and
+ * calculates tax-inclusive (VAT markets) or tax-exclusive (US sales tax)
+ * amounts. Used by lib/pricing.ts for line-level allocation.
+ */
+
+import { db } from "@/db";
+import { markets, taxRules } from "@/db/schema";
+import { and, eq } from "drizzle-orm";
+import { roundMoney } from "./utils-discount";
+import { findCategoryById } from "./taxonomy";
+
+export interface TaxDestination {
+  country: string; // ISO 3166-1 alpha-2
+  region?: string | null; // State/province code
+}
+
+export interface ApplicableTaxRule {
+  id: string;
+  name: string;
+  marketId: string | null;
+  regionCode: string | null;
+  taxonomyCategoryId: string | null;
+  rate: number; // Percentage, e.g. 25.5
+  appliesToShipping: boolean;
+  priority: number;
+}
+
+export interface TaxMarket {
+  marketId: string | null;
+  pricesIncludeTax: boolean;
+}
+
+/** Tax grouped by rule name and rate (stored on orders.tax_breakdown) */
+export interface TaxBreakdownEntry {
+  name: string;
+  rate: string;
+  taxableAmount: string; // Net amount (excluding tax)
+  taxAmount: string;
+}
+
+function normalizeCode(code: string | null | undefined): string | null {
+  const trimmed = code?.trim().toUpperCase();
+  return trimmed ? trimmed : null;
+}
+
+/**
+ * Find the active market serving a country. Markets listing the country
+ * win over the default market; the default wins among several matches.
+ */
+export async function resolveTaxMarket(country: string): Promise<TaxMarket> {
+  const code = normalizeCode(country);
+  const rows = await db
+    .select({
+      id: markets.id,
+      countries: markets.countries,
+      pricesIncludeTax: markets.pricesIncludeTax,
+      isDefault: markets.isDefault,
+      createdAt: markets.createdAt,
+    })
+    .from(markets)
+    .where(eq(markets.status, "active"));
+
+  const sorted = [...rows].sort(
+    (a, b) =>
+      Number(b.isDefault) - Number(a.isDefault) ||
+      a.createdAt.getTime() - b.createdAt.getTime()
+  );
+  const market =
+    sorted.find((m) =>
+      (Array.isArray(m.countries) ? m.countries : []).some(
+        (c) => normalizeCode(c) === code
+      )
+    ) ?? sorted.find((m) => m.isDefault);
+
+  return {
+    marketId: market?.id ?? null,
+    pricesIncludeTax: market?.pricesIncludeTax ?? false,
+  };
+}
+
+/**
+ * Load active rules for a destination country. Region-specific rules for
+ * other regions are dropped here; category and market matching happen in
+ * resolveTaxRule.
+ */
+export async function loadTaxRules(
+  destination: TaxDestination
+): Promise<ApplicableTaxRule[]> {
+  const country = normalizeCode(destination.country);
+  if (!country) return [];
+  const region = normalizeCode(destination.region);
+
+  const rows = await db
+    .select()
+    .from(taxRules)
+    .where(and(eq(taxRules.countryCode, country), eq(taxRules.isActive, true)));
+
+  return rows
+    .filter((r) => !r.regionCode || normalizeCode(r.regionCode) === region)
+    .map((r) => ({
+      id: r.id,
+      name: r.name,
+      marketId: r.marketId,
+      regionCode: normalizeCode(r.regionCode),
+      taxonomyCategoryId: r.taxonomyCategoryId,
+      rate: parseFloat(r.rate),
+      appliesToShipping: r.appliesToShipping,
+      priority: r.priority,
+    }));
+}
+
+/**
+ * How specifically a rule's category matches a product category:
+ * 0 = rule applies to all categories, level + 1 = matches the product
+ * category or one of its ancestors, null = does not apply.
+ */
+export function categoryMatchDepth(
+  ruleCategoryId: string | null,
+  productCategoryId: string | null | undefined
+): number | null {
+  if (!ruleCategoryId) return 0;
+  if (!productCategoryId) return null;
+
+  const ruleCategory = findCategoryById(ruleCategoryId);
+  const depth = (ruleCategory?.level ?? 0) + 1;
+  if (ruleCategoryId === productCategoryId) return depth;
+
+  const productCategory = findCategoryById(productCategoryId);
+  const isAncestor = productCategory?.ancestors?.some(
+    (a) => a.id === ruleCategoryId
+  );
+  return isAncestor ? depth : null;
+}
+
+export function compareScores(a: number[], b: number[]): number {
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) return a[i] - b[i];
+  }
+  return 0;
+}
+
+/**
+ * Pick the most specific rule: category override (deepest first), then
+ * region over country, then market-scoped over any market, then priority.
+ */
+export function resolveTaxRule(
+  rules: ApplicableTaxRule[],
+  context: { marketId: string | null; taxonomyCategoryId?: string | null }
+): ApplicableTaxRule | null {
+  let best: { rule: ApplicableTaxRule; score: number[] } | null = null;
+
+  for (const rule of rules) {
+    if (rule.marketId && rule.marketId !== context.marketId) continue;
+    const depth = categoryMatchDepth(
+      rule.taxonomyCategoryId,
+      context.taxonomyCategoryId
+    );
+    if (depth === null) continue;
+
+    const score = [
+      depth,
+      rule.regionCode ? 1 : 0,
+      rule.marketId ? 1 : 0,
+      rule.priority,
+    ];
+    if (!best || compareScores(score, best.score) > 0) {
+      best = { rule, score };
+    }
+  }
+
+  return best?.rule ?? null;
+}
+
+/**
+ * Shipping follows the destination's general (non-category) rule, and only
+ * when that rule is marked as applying to shipping.
+ */
+export function resolveShippingTaxRule(
+  rules: ApplicableTaxRule[],
+  marketId: string | null
+): ApplicableTaxRule | null {
+  const rule = resolveTaxRule(
+    rules.filter((r) => !r.taxonomyCategoryId),
+    { marketId }
+  );
+  return rule?.appliesToShipping ? rule : null;
+}
+
+/**
+ * Tax contained in (inclusive) or added on top of (exclusive) an amount.
+ */
+export function calculateTax(
+  amount: number,
+  ratePercent: number,
+  inclusive: boolean
+): number {
+  if (amount <= 0 || ratePercent <= 0) return 0;
+  const rate = ratePercent / 100;
+  return inclusive
+    ? roundMoney(amount - amount / (1 + rate))
+    : roundMoney(amount * rate);
+}
+
+/**
+ * Group taxed amounts by rule name and rate for invoices.
+ */
+export function summarizeTaxBreakdown(
+  entries: Array<{
+    name: string;
+    rate: number;
+    amount: number; // Amount the tax was calculated on
+    tax: number;
+  }>,
+  inclusive: boolean
+): TaxBreakdownEntry[] {
+  const groups = new Map<
+    string,
+    { name: string; rate: number; taxable: number; tax: number }
+  >();
+
+  for (const entry of entries) {
+    if (entry.tax <= 0) continue;
+    const key = `${entry.name}|${entry.rate}`;
+    const group = groups.get(key) ?? {
+      name: entry.name,
+      rate: entry.rate,
+      taxable: 0,
+      tax: 0,
+    };
+    group.taxable += inclusive ? entry.amount - entry.tax : entry.amount;
+    group.tax += entry.tax;
+    groups.set(key, group);
+  }
+
+  return [...groups.values()]
+    .sort((a, b) => b.rate - a.rate)
+    .map((g) => ({
+      name: g.name,
+      rate: g.rate.toFixed(3),
+      taxableAmount: roundMoney(g.taxable).toFixed(2),
+      taxAmount: roundMoney(g.tax).toFixed(2),
+    }));
+}
+
+/**
+ * Combine per-store breakdowns into one (e.g. a draft spanning stores).
+ */
+export function mergeTaxBreakdowns(
+  breakdowns: TaxBreakdownEntry[][]
+): TaxBreakdownEntry[] {
+  const groups = new Map<string, TaxBreakdownEntry>();
+  for (const entry of breakdowns.flat()) {
+    const key = `${entry.name}|${entry.rate}`;
+    const existing = groups.get(key);
+    groups.set(
+      key,
+      existing
+        ? {
+            ...existing,
+            taxableAmount: roundMoney(
+              parseFloat(existing.taxableAmount) +
+                parseFloat(entry.taxableAmount)
+            ).toFixed(2),
+            taxAmount: roundMoney(
+              parseFloat(existing.taxAmount) + parseFloat(entry.taxAmount)
+            ).toFixed(2),
+          }
+        : entry
+    );
+  }
+  return [...groups.values()].sort(
+    (a, b) => parseFloat(b.rate) - parseFloat(a.rate)
+  );
+}
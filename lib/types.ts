@@ -140,6 +140,7 @@ export interface CartItem {
   currency?: string;
   sku?: string | null; // Optional SKU
   storeId?: string | null; // Store/seller ID for ownership checking (per inst.md)
+  bundleListingIds?: string[]; // Component listings when the item is a bundle
 }
 
 export type DiscountValueType = "fixed" | "percentage";
@@ -1,38 +1,54 @@
 import { cache } from "react";
 import { db } from "@/db";
-import { userRoles, roles } from "@/db/schema";
-import { eq } from "drizzle-orm";
+import { userRoles, roles, rolePermissions } from "@/db/schema";
+import { eq, inArray } from "drizzle-orm";
 
 /**
  * Cached function to get user role
  * Uses React cache() to deduplicate requests within the same render
+ * permissions is the union of what all of the user's roles grant
  */
 export const getUserRole = cache(
   async (
     userId: string
   ): Promise<{
     roleName: string | null;
+    permissions: string[];
     error?: string;
   }> => {
     try {
       const userRole = await db
         .select({
+          roleId: roles.id,
           roleName: roles.name,
         })
         .from(userRoles)
         .innerJoin(roles, eq(userRoles.roleId, roles.id))
-        .where(eq(userRoles.userId, userId))
-        .limit(1);
+        .where(eq(userRoles.userId, userId));
 
       if (userRole.length === 0) {
-        return { roleName: null, error: "No role found" };
+        return { roleName: null, permissions: [], error: "No role found" };
       }
 
-      return { roleName: userRole[0].roleName.toLowerCase() };
+      const granted = await db
+        .selectDistinct({ permissionId: rolePermissions.permissionId })
+        .from(rolePermissions)
+        .where(
+          inArray(
+            rolePermissions.roleId,
+            userRole.map((r) => r.roleId)
+          )
+        );
+
+      return {
+        roleName: userRole[0].roleName.toLowerCase(),
+        permissions: granted.map((p) => p.permissionId),
+      };
     } catch (error) {
       console.error("Error fetching user role:", error);
       return {
         roleName: null,
+        permissions: [],
         error: error instanceof Error ? error.message : "Failed to fetch role",
       };
     }
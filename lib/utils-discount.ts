@@ -88,7 +88,13 @@ export function discountAppliesToItem(
     if (target.type === "all_products") return true;
 
     if (target.type === "listing_ids") {
-      return target.listingIds?.includes(item.listingId) ?? false;
+      const listingIds = target.listingIds ?? [];
+      if (listingIds.includes(item.listingId)) return true;
+      // A bundle made only of targeted products gets their discount too
+      return (
+        !!item.bundleListingIds?.length &&
+        item.bundleListingIds.every((id) => listingIds.includes(id))
+      );
     }
 
     return false;
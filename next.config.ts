@@ -8,6 +8,8 @@ const nextConfig: NextConfig = {
   /* config options here */
   outputFileTracingRoot: path.join(process.cwd()),
   productionBrowserSourceMaps: false,
+  // Rendered server-side only (seller statement PDFs)
+  serverExternalPackages: ["@react-pdf/renderer"],
   experimental: {
     serverActions: {
       bodySizeLimit: "10mb",
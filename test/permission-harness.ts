@@ -0,0 +1,260 @@
+/**
+ * Shared mocks for permission tests.
+ *
+ * Test files register these with vi.mock (which has to be called in the test
+ * file itself), act as a signed-in user whose role grants a chosen set of
+ * permissions, and check which permissions the guards denied and whether
+ * anything was written to the database.
+ */
+
+import { expect } from "vitest";
+import { storeMembers } from "@/db/schema";
+import type * as Permissions from "@/lib/permissions";
+import type { PermissionId } from "@/lib/permissions";
+
+// ===================================
+// Database
+// ===================================
+
+/** Rows returned by queries against a table (any query shape) */
+export const tableRows = new Map<unknown, unknown[]>();
+
+/** insert / update / delete calls made through the mocked db */
+export const dbWrites: Array<{ method: string; table: unknown }> = [];
+
+const WRITE_METHODS = ["insert", "update", "delete"];
+
+/**
+ * A chainable drizzle query: every builder method returns the query and
+ * awaiting it resolves the rows registered for the table it reads from
+ * (or writes to).
+ */
+function query(method: string, table?: unknown): unknown {
+  if (WRITE_METHODS.includes(method)) {
+    dbWrites.push({ method, table });
+  }
+
+  let target = table;
+  const chain: unknown = new Proxy(() => {}, {
+    get(_, prop) {
+      if (prop === "then") {
+        const rows = target === undefined ? [] : (tableRows.get(target) ?? []);
+        const result = Promise.resolve(rows);
+        return result.then.bind(result);
+      }
+      return (...args: unknown[]) => {
+        if (prop === "from" && target === undefined) target = args[0];
+        return chain;
+      };
+    },
+  });
+  return chain;
+}
+
+const relationalQuery = new Proxy(
+  {},
+  {
+    get: () => ({
+      findFirst: async () => undefined,
+      findMany: async () => [],
+    }),
+  }
+);
+
+export const db: Record<string, unknown> = new Proxy(
+  {},
+  {
+    get(_, prop: string) {
+      if (prop === "query") return relationalQuery;
+      if (prop === "transaction") {
+        return (callback: (tx: unknown) => unknown) => callback(db);
+      }
+      if (prop === "then") return undefined;
+      return (table?: unknown) =>
+        query(prop, WRITE_METHODS.includes(prop) ? table : undefined);
+    },
+  }
+);
+
+// ===================================
+// Signed-in user
+// ===================================
+
+export const TEST_USER_ID = "user-under-test";
+
+let signedIn = true;
+let rolePermissions: string[] = [];
+
+/** Sign in as a user whose role grants exactly these permissions */
+export function actAsRoleWith(permissions: readonly string[]) {
+  signedIn = true;
+  rolePermissions = [...permissions];
+}
+
+/** Sign in as a user whose role grants everything except one permission */
+export function actAsRoleWithout(
+  permission: PermissionId,
+  catalog: readonly { id: string }[]
+) {
+  actAsRoleWith(catalog.map((p) => p.id).filter((id) => id !== permission));
+}
+
+export const STAFF_STORE_ID = "store-under-test";
+
+/**
+ * Sign in as staff of STAFF_STORE_ID holding every store permission except
+ * one, with a role that grants nothing of its own
+ */
+export function actAsStaffWithout(
+  permission: PermissionId,
+  storePermissions: readonly string[]
+) {
+  actAsRoleWith([]);
+  tableRows.set(storeMembers, [
+    {
+      storeId: STAFF_STORE_ID,
+      role: "staff",
+      permissions: storePermissions.filter((id) => id !== permission),
+    },
+  ]);
+}
+
+export function actSignedOut() {
+  signedIn = false;
+  rolePermissions = [];
+}
+
+export function getTestSession() {
+  if (!signedIn) return null;
+  return {
+    user: {
+      id: TEST_USER_ID,
+      name: "Support Agent",
+      email: "support@example.com",
+      emailVerified: true,
+      image: null,
+      createdAt: new Date(0),
+      updatedAt: new Date(0),
+    },
+    session: {
+      id: "session-under-test",
+      userId: TEST_USER_ID,
+      token: "token",
+      expiresAt: new Date(Date.now() + 60_000),
+      createdAt: new Date(0),
+      updatedAt: new Date(0),
+    },
+  };
+}
+
+export const authModule = {
+  auth: {
+    api: {
+      getSession: async () => getTestSession(),
+    },
+  },
+};
+
+export const userRoleModule = {
+  getUserRole: async () =>
+    signedIn
+      ? { roleName: "support", permissions: rolePermissions }
+      : { roleName: null, permissions: [], error: "No role found" },
+};
+
+export const headersModule = {
+  headers: async () => new Headers(),
+  cookies: async () => ({
+    get: () => undefined,
+    set: () => {},
+    delete: () => {},
+  }),
+};
+
+// ===================================
+// Guards
+// ===================================
+
+/** Permissions a guard refused during the current test */
+export const deniedPermissions: string[] = [];
+
+/**
+ * Wrap the guards so every refusal is recorded, then behave exactly like the
+ * real ones.
+ */
+export function recordDenials(actual: typeof Permissions): typeof Permissions {
+  const record = (permission: string) => deniedPermissions.push(permission);
+
+  return {
+    ...actual,
+    requirePermission: async (session, permission, scope) => {
+      try {
+        return await actual.requirePermission(session, permission, scope);
+      } catch (error) {
+        if (actual.isPermissionDeniedError(error)) record(permission);
+        throw error;
+      }
+    },
+    requireCurrentPermission: async (permission, scope) => {
+      try {
+        return await actual.requireCurrentPermission(permission, scope);
+      } catch (error) {
+        if (actual.isPermissionDeniedError(error)) record(permission);
+        throw error;
+      }
+    },
+    hasPermission: async (session, permission, scope) => {
+      const allowed = await actual.hasPermission(session, permission, scope);
+      if (!allowed) record(permission);
+      return allowed;
+    },
+    hasMemberPermission: async (userId, storeId, permission) => {
+      const allowed = await actual.hasMemberPermission(
+        userId,
+        storeId,
+        permission
+      );
+      if (!allowed) record(permission);
+      return allowed;
+    },
+  };
+}
+
+/** Forget rows, writes and denials from the previous test */
+export function resetHarness() {
+  tableRows.clear();
+  dbWrites.length = 0;
+  deniedPermissions.length = 0;
+  actAsRoleWith([]);
+}
+
+export interface GuardedCall {
+  name: string;
+  permission: PermissionId;
+  run: () => Promise<unknown>;
+  // Rows the call has to find before it gets to the permission check
+  rows?: Array<[table: unknown, rows: unknown[]]>;
+}
+
+/**
+ * Run a guarded call and check it was refused by the guard for its
+ * permission: nothing written, and no successful result returned. Resolves
+ * with what the call returned, e.g. a route's response.
+ */
+export async function expectRefused(call: GuardedCall) {
+  for (const [table, rows] of call.rows ?? []) {
+    tableRows.set(table, rows);
+  }
+
+  let value: unknown;
+  try {
+    value = await call.run();
+  } catch {
+    // Guards throw; actions without a catch block pass the error on
+  }
+
+  expect(deniedPermissions).toContain(call.permission);
+  expect(value).not.toEqual(expect.objectContaining({ success: true }));
+  expect(dbWrites).toEqual([]);
+  return value;
+}
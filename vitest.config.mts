@@ -0,0 +1,19 @@
+import path from "path";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@": path.resolve(import.meta.dirname),
+    },
+  },
+  test: {
+    environment: "node",
+    include: ["**/*.test.ts"],
+    exclude: ["node_modules", ".next"],
+    // Clients that refuse to construct without a key; tests never call out
+    env: {
+      STRIPE_SECRET_KEY: "sk_test_placeholder",
+    },
+  },
+});